@@ -0,0 +1,25 @@
+import {
+  registerDecorator,
+  ValidationOptions,
+  ValidationArguments,
+} from 'class-validator';
+import { parseCapacity } from '../src/activity/utils/capacity.util';
+
+export function IsCapacity(validationOptions?: ValidationOptions) {
+  return function (object: object, propertyName: string) {
+    registerDecorator({
+      name: 'IsCapacity',
+      target: object.constructor,
+      propertyName: propertyName,
+      options: validationOptions,
+      validator: {
+        validate(value: any) {
+          return parseCapacity(value) !== undefined;
+        },
+        defaultMessage(args: ValidationArguments) {
+          return `${args.property} must be a positive whole number or "unlimited".`;
+        },
+      },
+    });
+  };
+}
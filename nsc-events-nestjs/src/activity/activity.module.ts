@@ -4,12 +4,40 @@ import { ActivityController } from './controllers/activity/activity.controller';
 import { ActivityService } from '../activity/services/activity/activity.service';
 import { Activity } from './entities/activity.entity';
 import { AuthModule } from '../auth/auth.module';
-import { S3Service } from '../activity/services/activity/s3.service';
+import { TagModule } from '../tag/tag.module';
+import { VenueModule } from '../venue/venue.module';
+import { SpeakerModule } from '../speaker/speaker.module';
+import { EventCollaborator } from '../collaborator/entities/event-collaborator.entity';
+import { EventTemplate } from '../template/entities/event-template.entity';
+import { EventAttachment } from '../attachment/entities/event-attachment.entity';
+import { ActivityRevision } from '../revision/entities/activity-revision.entity';
+import { StorageModule } from '../storage/storage.module';
+import { PublicationSchedulerService } from './services/activity/publication-scheduler.service';
+import { TrashRetentionService } from './services/activity/trash-retention.service';
+import { ArchiveSchedulerService } from './services/activity/archive-scheduler.service';
 
 @Module({
-  imports: [AuthModule, TypeOrmModule.forFeature([Activity])],
+  imports: [
+    AuthModule,
+    TagModule,
+    VenueModule,
+    SpeakerModule,
+    StorageModule,
+    TypeOrmModule.forFeature([
+      Activity,
+      EventCollaborator,
+      EventTemplate,
+      EventAttachment,
+      ActivityRevision,
+    ]),
+  ],
   controllers: [ActivityController],
-  providers: [ActivityService, S3Service],
+  providers: [
+    ActivityService,
+    PublicationSchedulerService,
+    TrashRetentionService,
+    ArchiveSchedulerService,
+  ],
   exports: [TypeOrmModule, ActivityService],
 })
 export class ActivityModule {}
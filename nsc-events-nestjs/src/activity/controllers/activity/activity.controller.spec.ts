@@ -2,12 +2,19 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { ActivityController } from './activity.controller';
 import { ActivityService } from '../../../activity/services/activity/activity.service';
 import { UnauthorizedException, BadRequestException } from '@nestjs/common';
-import { Activity, Attendee } from '../../entities/activity.entity';
+import {
+  Activity,
+  Attendee,
+  ApprovalStatus,
+  PublicationStatus,
+  RecurrenceScope,
+} from '../../entities/activity.entity';
 import { CreateActivityDto } from '../../dto/create-activity.dto';
 import { UpdateActivityDto } from '../../dto/update-activity.dto';
 import { AttendEventDto } from '../../dto/attend-event.dto';
 import { Role } from '../../../user/entities/user.entity';
 import { AuthGuard } from '@nestjs/passport';
+import { EventPermission } from '../../../collaborator/utils/permissions.util';
 
 describe('ActivityController', () => {
   let controller: ActivityController;
@@ -20,13 +27,16 @@ describe('ActivityController', () => {
     eventDescription: 'Test Description',
     startDate: new Date('2025-12-01T10:00:00Z'),
     endDate: new Date('2025-12-01T12:00:00Z'),
+    timeZone: 'America/Los_Angeles',
     eventLocation: 'Test Location',
+    setupMinutes: 0,
+    teardownMinutes: 0,
     eventCoverPhoto: 'https://example.com/photo.jpg',
     eventDocument: 'https://example.com/doc.pdf',
     eventHost: 'Test Host',
     eventMeetingURL: 'https://meet.example.com',
     eventRegistration: 'https://register.example.com',
-    eventCapacity: '100',
+    eventCapacity: 100,
     eventTags: ['club', 'study'],
     eventSchedule: '10:00 AM - 12:00 PM',
     eventSpeakers: ['Speaker 1', 'Speaker 2'],
@@ -41,6 +51,8 @@ describe('ActivityController', () => {
     eventNote: 'Test note',
     isHidden: false,
     isArchived: false,
+    publicationStatus: PublicationStatus.published,
+    approvalStatus: ApprovalStatus.approved,
     createdAt: new Date('2025-01-01T00:00:00Z'),
     updatedAt: new Date('2025-01-01T00:00:00Z'),
   };
@@ -48,13 +60,28 @@ describe('ActivityController', () => {
   const mockActivityService = {
     getAllActivities: jest.fn(),
     getActivityById: jest.fn(),
+    getVisibleActivity: jest.fn(),
     getActivitiesByUserId: jest.fn(),
+    getSeriesOccurrences: jest.fn(),
     addAttendee: jest.fn(),
     createActivity: jest.fn(),
+    cloneActivity: jest.fn(),
     updateActivity: jest.fn(),
     deleteActivity: jest.fn(),
+    restoreActivity: jest.fn(),
+    getTrashedActivities: jest.fn(),
+    autoArchiveActivities: jest.fn(),
     archiveActivity: jest.fn(),
+    publishActivity: jest.fn(),
+    unpublishActivity: jest.fn(),
     updateCoverImage: jest.fn(),
+    createCoverImageUpload: jest.fn(),
+    finalizeCoverImage: jest.fn(),
+    hasEventPermission: jest.fn(
+      async (activity: Activity, user: { id: string; role: string }) =>
+        user.role === Role.admin ||
+        (user.role === Role.creator && activity.createdByUserId === user.id),
+    ),
   };
 
   beforeEach(async () => {
@@ -234,39 +261,103 @@ describe('ActivityController', () => {
         tags: [],
       });
     });
+
+    it('should cap the page size and pass the cursor through', async () => {
+      mockActivityService.getAllActivities.mockResolvedValue([]);
+
+      await controller.getAllActivities(
+        '1',
+        '5000',
+        undefined,
+        'false',
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        'cursor-abc',
+      );
+
+      expect(mockActivityService.getAllActivities).toHaveBeenCalledWith(
+        expect.objectContaining({
+          numberOfEventsToGet: '100',
+          cursor: 'cursor-abc',
+        }),
+      );
+    });
+
+    it('should pass the venue and building filters through', async () => {
+      mockActivityService.getAllActivities.mockResolvedValue([]);
+
+      await controller.getAllActivities(
+        '1',
+        undefined,
+        undefined,
+        'false',
+        undefined,
+        undefined,
+        'venue-1',
+        'IB',
+      );
+
+      expect(mockActivityService.getAllActivities).toHaveBeenCalledWith(
+        expect.objectContaining({ venueId: 'venue-1', building: 'IB' }),
+      );
+    });
   });
 
   describe('findActivityById', () => {
     it('should return a single activity by id', async () => {
-      mockActivityService.getActivityById.mockResolvedValue(mockActivity);
+      mockActivityService.getVisibleActivity.mockResolvedValue(mockActivity);
 
       const result = await controller.findActivityById(
         '123e4567-e89b-12d3-a456-426614174000',
+        {},
       );
 
       expect(result).toEqual(mockActivity);
-      expect(mockActivityService.getActivityById).toHaveBeenCalledWith(
+      expect(mockActivityService.getVisibleActivity).toHaveBeenCalledWith(
         '123e4567-e89b-12d3-a456-426614174000',
+        undefined,
+      );
+    });
+
+    it('should let signed-in users see the events they can edit', async () => {
+      const user = { id: 'user-123', role: Role.creator };
+      mockActivityService.getVisibleActivity.mockResolvedValue(mockActivity);
+
+      await controller.findActivityById('activity-1', { user });
+
+      expect(mockActivityService.getVisibleActivity).toHaveBeenCalledWith(
+        'activity-1',
+        user,
       );
     });
 
     it('should pass through service errors', async () => {
-      mockActivityService.getActivityById.mockRejectedValue(
+      mockActivityService.getVisibleActivity.mockRejectedValue(
         new Error('Activity not found'),
       );
 
       await expect(
-        controller.findActivityById('non-existent-id'),
+        controller.findActivityById('non-existent-id', {}),
       ).rejects.toThrow('Activity not found');
     });
   });
 
   describe('getActivitiesByUserId', () => {
-    it('should return all activities created by a specific user', async () => {
-      const userActivities = [
-        mockActivity,
-        { ...mockActivity, id: 'activity-2' },
-      ];
+    it('should return a page of activities created by a specific user', async () => {
+      const userActivities = {
+        data: [mockActivity, { ...mockActivity, id: 'activity-2' }],
+        page: 1,
+        pageSize: 12,
+        total: 2,
+        totalPages: 1,
+        nextCursor: null,
+      };
       mockActivityService.getActivitiesByUserId.mockResolvedValue(
         userActivities,
       );
@@ -276,17 +367,152 @@ describe('ActivityController', () => {
       expect(result).toEqual(userActivities);
       expect(mockActivityService.getActivitiesByUserId).toHaveBeenCalledWith(
         'user-123',
+        { page: '1', pageSize: '12', cursor: undefined },
       );
     });
 
-    it('should return empty array if user has no activities', async () => {
-      mockActivityService.getActivitiesByUserId.mockResolvedValue([]);
+    it('should pass pagination and cursor to the service', async () => {
+      mockActivityService.getActivitiesByUserId.mockResolvedValue({
+        data: [],
+        page: null,
+        pageSize: 5,
+        total: 0,
+        totalPages: 0,
+        nextCursor: null,
+      });
 
-      const result = await controller.getActivitiesByUserId('user-456');
+      const result = await controller.getActivitiesByUserId(
+        'user-456',
+        '2',
+        '5',
+        'cursor-abc',
+      );
 
-      expect(result).toEqual([]);
+      expect(result.data).toEqual([]);
       expect(mockActivityService.getActivitiesByUserId).toHaveBeenCalledWith(
         'user-456',
+        { page: '2', pageSize: '5', cursor: 'cursor-abc' },
+      );
+    });
+  });
+
+  describe('getTrashedActivities', () => {
+    it('should list the deleted events of the signed-in user', async () => {
+      const req = { user: { id: 'user-123', role: Role.creator } };
+      const page = {
+        data: [],
+        page: 2,
+        pageSize: 5,
+        total: 0,
+        totalPages: 0,
+        nextCursor: null,
+      };
+      mockActivityService.getTrashedActivities.mockResolvedValue(page);
+
+      const result = await controller.getTrashedActivities(req, '2', '5');
+
+      expect(result).toEqual(page);
+      expect(mockActivityService.getTrashedActivities).toHaveBeenCalledWith(
+        req.user,
+        { page: '2', pageSize: '5', cursor: undefined },
+      );
+    });
+  });
+
+  describe('autoArchiveActivities', () => {
+    it('should run the archival job', async () => {
+      await controller.autoArchiveActivities();
+
+      expect(mockActivityService.autoArchiveActivities).toHaveBeenCalledWith({
+        dryRun: false,
+      });
+    });
+
+    it('should pass a dry run through', async () => {
+      await controller.autoArchiveActivities('true');
+
+      expect(mockActivityService.autoArchiveActivities).toHaveBeenCalledWith({
+        dryRun: true,
+      });
+    });
+  });
+
+  describe('restoreActivityById', () => {
+    it('should restore the event as the signed-in user', async () => {
+      const req = { user: { id: 'user-123', role: Role.creator } };
+      mockActivityService.restoreActivity.mockResolvedValue(mockActivity);
+
+      const result = await controller.restoreActivityById('activity-123', req);
+
+      expect(result).toEqual(mockActivity);
+      expect(mockActivityService.restoreActivity).toHaveBeenCalledWith(
+        'activity-123',
+        req.user,
+      );
+    });
+  });
+
+  describe('getDraftActivitiesByUserId', () => {
+    const emptyPage = {
+      data: [],
+      page: 1,
+      pageSize: 12,
+      total: 0,
+      totalPages: 0,
+      nextCursor: null,
+    };
+
+    it('should return the drafts of the signed-in user', async () => {
+      mockActivityService.getActivitiesByUserId.mockResolvedValue(emptyPage);
+
+      const result = await controller.getDraftActivitiesByUserId('user-123', {
+        user: { id: 'user-123', role: Role.creator },
+      });
+
+      expect(result).toEqual(emptyPage);
+      expect(mockActivityService.getActivitiesByUserId).toHaveBeenCalledWith(
+        'user-123',
+        { page: '1', pageSize: '12', cursor: undefined, drafts: true },
+      );
+    });
+
+    it('should let admins see any user drafts', async () => {
+      mockActivityService.getActivitiesByUserId.mockResolvedValue(emptyPage);
+
+      await controller.getDraftActivitiesByUserId('user-123', {
+        user: { id: 'admin-123', role: Role.admin },
+      });
+
+      expect(mockActivityService.getActivitiesByUserId).toHaveBeenCalled();
+    });
+
+    it('should throw UnauthorizedException for other users', async () => {
+      await expect(
+        controller.getDraftActivitiesByUserId('user-123', {
+          user: { id: 'user-456', role: Role.creator },
+        }),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockActivityService.getActivitiesByUserId).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getSeriesOccurrences', () => {
+    it('should return every occurrence of a series', async () => {
+      const occurrences = [
+        { ...mockActivity, seriesId: 'series-1' },
+        { ...mockActivity, id: 'activity-2', seriesId: 'series-1' },
+      ];
+      mockActivityService.getSeriesOccurrences.mockResolvedValue(occurrences);
+
+      const user = { id: 'user-123', role: Role.creator };
+      const result = await controller.getSeriesOccurrences('series-1', {
+        user,
+      });
+
+      expect(result).toEqual(occurrences);
+      expect(mockActivityService.getSeriesOccurrences).toHaveBeenCalledWith(
+        'series-1',
+        user,
       );
     });
   });
@@ -422,6 +648,7 @@ describe('ActivityController', () => {
         createActivityDto,
         'creator-123',
         undefined,
+        'creator',
       );
     });
 
@@ -443,6 +670,7 @@ describe('ActivityController', () => {
         createActivityDto,
         'admin-123',
         undefined,
+        'admin',
       );
     });
 
@@ -511,7 +739,8 @@ describe('ActivityController', () => {
       expect(mockActivityService.updateActivity).toHaveBeenCalledWith(
         'activity-123',
         updateActivityDto,
-        'admin-123',
+        mockRequest.user,
+        RecurrenceScope.occurrence,
       );
     });
 
@@ -539,7 +768,59 @@ describe('ActivityController', () => {
       expect(mockActivityService.updateActivity).toHaveBeenCalledWith(
         'activity-123',
         updateActivityDto,
-        'user-123',
+        mockRequest.user,
+        RecurrenceScope.occurrence,
+      );
+    });
+
+    it('should pass the recurrence scope through to the service', async () => {
+      const mockRequest = {
+        user: { id: 'user-123', role: Role.creator },
+      };
+
+      mockActivityService.getActivityById.mockResolvedValue(mockActivity);
+      mockActivityService.updateActivity.mockResolvedValue(mockActivity);
+
+      await controller.updateActivityById(
+        'activity-123',
+        updateActivityDto,
+        mockRequest,
+        RecurrenceScope.series,
+      );
+
+      expect(mockActivityService.updateActivity).toHaveBeenCalledWith(
+        'activity-123',
+        updateActivityDto,
+        mockRequest.user,
+        RecurrenceScope.series,
+      );
+    });
+
+    it('should update activity when user is an editor on the activity', async () => {
+      const mockRequest = {
+        user: { id: 'student-123', role: Role.user },
+      };
+
+      mockActivityService.getActivityById.mockResolvedValue(mockActivity);
+      mockActivityService.hasEventPermission.mockResolvedValueOnce(true);
+      mockActivityService.updateActivity.mockResolvedValue(mockActivity);
+
+      await controller.updateActivityById(
+        'activity-123',
+        updateActivityDto,
+        mockRequest,
+      );
+
+      expect(mockActivityService.hasEventPermission).toHaveBeenCalledWith(
+        mockActivity,
+        mockRequest.user,
+        EventPermission.edit,
+      );
+      expect(mockActivityService.updateActivity).toHaveBeenCalledWith(
+        'activity-123',
+        updateActivityDto,
+        mockRequest.user,
+        RecurrenceScope.occurrence,
       );
     });
 
@@ -621,7 +902,8 @@ describe('ActivityController', () => {
       );
       expect(mockActivityService.deleteActivity).toHaveBeenCalledWith(
         'activity-123',
-        'admin-123',
+        mockRequest.user,
+        RecurrenceScope.occurrence,
       );
     });
 
@@ -640,7 +922,8 @@ describe('ActivityController', () => {
       );
       expect(mockActivityService.deleteActivity).toHaveBeenCalledWith(
         'activity-123',
-        'user-123',
+        mockRequest.user,
+        RecurrenceScope.occurrence,
       );
     });
 
@@ -694,6 +977,52 @@ describe('ActivityController', () => {
     });
   });
 
+  describe('cloneActivity', () => {
+    it('should clone an event the creator owns into their own draft', async () => {
+      const mockRequest = {
+        user: { id: 'user-123', role: Role.creator },
+      };
+      const dto = { startDate: '2025-04-01T16:00:00Z' };
+
+      mockActivityService.getActivityById.mockResolvedValue(mockActivity);
+
+      await controller.cloneActivity('activity-123', dto, mockRequest);
+
+      expect(mockActivityService.cloneActivity).toHaveBeenCalledWith(
+        'activity-123',
+        dto,
+        'user-123',
+        Role.creator,
+      );
+    });
+
+    it('should throw UnauthorizedException when the creator cannot edit the event', async () => {
+      const mockRequest = {
+        user: { id: 'different-user', role: Role.creator },
+      };
+
+      mockActivityService.getActivityById.mockResolvedValue(mockActivity);
+
+      await expect(
+        controller.cloneActivity('activity-123', {}, mockRequest),
+      ).rejects.toThrow(UnauthorizedException);
+
+      expect(mockActivityService.cloneActivity).not.toHaveBeenCalled();
+    });
+
+    it('should throw UnauthorizedException for users who cannot create events', async () => {
+      const mockRequest = {
+        user: { id: 'user-123', role: Role.user },
+      };
+
+      await expect(
+        controller.cloneActivity('activity-123', {}, mockRequest),
+      ).rejects.toThrow(UnauthorizedException);
+
+      expect(mockActivityService.getActivityById).not.toHaveBeenCalled();
+    });
+  });
+
   describe('archiveActivityById', () => {
     it('should archive activity when user is admin', async () => {
       const mockRequest = {
@@ -716,6 +1045,7 @@ describe('ActivityController', () => {
       );
       expect(mockActivityService.archiveActivity).toHaveBeenCalledWith(
         'activity-123',
+        'admin-123',
       );
     });
 
@@ -740,6 +1070,7 @@ describe('ActivityController', () => {
       );
       expect(mockActivityService.archiveActivity).toHaveBeenCalledWith(
         'activity-123',
+        'user-123',
       );
     });
 
@@ -793,6 +1124,68 @@ describe('ActivityController', () => {
     });
   });
 
+  describe('publishActivityById', () => {
+    it('should publish when user is creator and owns the activity', async () => {
+      const published = {
+        ...mockActivity,
+        publicationStatus: PublicationStatus.published,
+        approvalStatus: ApprovalStatus.approved,
+      };
+      mockActivityService.getActivityById.mockResolvedValue(mockActivity);
+      mockActivityService.publishActivity.mockResolvedValue(published);
+
+      const result = await controller.publishActivityById('activity-123', {
+        user: { id: 'user-123', role: Role.creator },
+      });
+
+      expect(result).toEqual(published);
+      expect(mockActivityService.publishActivity).toHaveBeenCalledWith(
+        'activity-123',
+      );
+    });
+
+    it('should throw UnauthorizedException when creator does not own the activity', async () => {
+      mockActivityService.getActivityById.mockResolvedValue(mockActivity);
+
+      await expect(
+        controller.publishActivityById('activity-123', {
+          user: { id: 'user-456', role: Role.creator },
+        }),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockActivityService.publishActivity).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unpublishActivityById', () => {
+    it('should unpublish when user is admin', async () => {
+      const draft = {
+        ...mockActivity,
+        publicationStatus: PublicationStatus.draft,
+      };
+      mockActivityService.getActivityById.mockResolvedValue(mockActivity);
+      mockActivityService.unpublishActivity.mockResolvedValue(draft);
+
+      const result = await controller.unpublishActivityById('activity-123', {
+        user: { id: 'admin-123', role: Role.admin },
+      });
+
+      expect(result).toEqual(draft);
+      expect(mockActivityService.unpublishActivity).toHaveBeenCalledWith(
+        'activity-123',
+      );
+    });
+
+    it('should throw UnauthorizedException for regular users', async () => {
+      mockActivityService.getActivityById.mockResolvedValue(mockActivity);
+
+      await expect(
+        controller.unpublishActivityById('activity-123', {
+          user: { id: 'user-123', role: Role.user },
+        }),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+  });
+
   describe('uploadCoverImage', () => {
     const mockFile: Express.Multer.File = {
       fieldname: 'coverImage',
@@ -834,6 +1227,7 @@ describe('ActivityController', () => {
       expect(mockActivityService.updateCoverImage).toHaveBeenCalledWith(
         'activity-123',
         mockFile,
+        'admin-123',
       );
     });
 
@@ -864,6 +1258,7 @@ describe('ActivityController', () => {
       expect(mockActivityService.updateCoverImage).toHaveBeenCalledWith(
         'activity-123',
         mockFile,
+        'user-123',
       );
     });
 
@@ -933,4 +1328,60 @@ describe('ActivityController', () => {
       expect(mockActivityService.updateCoverImage).not.toHaveBeenCalled();
     });
   });
+
+  describe('direct cover image uploads', () => {
+    const owner = { user: { id: 'user-123', role: Role.creator } };
+    const stranger = { user: { id: 'other-creator', role: Role.creator } };
+    const key = 'cover-images/uploads/activity-123/1-fair.png';
+
+    beforeEach(() => {
+      mockActivityService.getActivityById.mockResolvedValue(mockActivity);
+    });
+
+    it('should create an upload URL for editors of the event', async () => {
+      const upload = { key, uploadUrl: 'https://bucket/upload' };
+      mockActivityService.createCoverImageUpload.mockResolvedValue(upload);
+
+      await expect(
+        controller.createCoverImageUpload(
+          'activity-123',
+          { fileName: 'fair.png', contentType: 'image/png' },
+          owner,
+        ),
+      ).resolves.toBe(upload);
+      expect(mockActivityService.createCoverImageUpload).toHaveBeenCalledWith(
+        'activity-123',
+        'fair.png',
+        'image/png',
+      );
+    });
+
+    it('should finalize the upload as the signed-in user', async () => {
+      mockActivityService.finalizeCoverImage.mockResolvedValue(mockActivity);
+
+      await controller.finalizeCoverImage('activity-123', { key }, owner);
+
+      expect(mockActivityService.finalizeCoverImage).toHaveBeenCalledWith(
+        'activity-123',
+        key,
+        'user-123',
+      );
+    });
+
+    it('should not let others upload', async () => {
+      await expect(
+        controller.createCoverImageUpload(
+          'activity-123',
+          { fileName: 'fair.png', contentType: 'image/png' },
+          stranger,
+        ),
+      ).rejects.toThrow(UnauthorizedException);
+      await expect(
+        controller.finalizeCoverImage('activity-123', { key }, stranger),
+      ).rejects.toThrow(UnauthorizedException);
+
+      expect(mockActivityService.createCoverImageUpload).not.toHaveBeenCalled();
+      expect(mockActivityService.finalizeCoverImage).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -14,16 +14,43 @@ import {
   UploadedFile,
   UseInterceptors,
 } from '@nestjs/common';
-import { ActivityService } from '../../../activity/services/activity/activity.service';
-import { Activity, Attendee } from '../../entities/activity.entity';
+import {
+  ActivityService,
+  AutoArchiveResult,
+} from '../../../activity/services/activity/activity.service';
+import {
+  Activity,
+  Attendee,
+  PublicationStatus,
+  RecurrenceScope,
+} from '../../entities/activity.entity';
 import { CreateActivityDto } from '../../dto/create-activity.dto';
 import { UpdateActivityDto } from '../../dto/update-activity.dto';
+import { CloneActivityDto } from '../../dto/clone-activity.dto';
+import {
+  CreateCoverImageUploadDto,
+  FinalizeCoverImageDto,
+} from '../../dto/cover-image-upload.dto';
+import { DirectUpload } from '../../../storage/services/storage.service';
 // Removed unused: import { Query as ExpressQuery } from 'express-serve-static-core';
 import { Express } from 'express';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { AuthGuard } from '@nestjs/passport';
 import { Role } from '../../../user/entities/user.entity';
+import { RoleGuard } from '../../../auth/role.guard';
+import { OptionalJwtAuthGuard } from '../../../auth/guards/optional-jwt-auth.guard';
+import { Roles } from '../../../auth/roles.decorator';
 import { AttendEventDto } from '../../dto/attend-event.dto';
+import { ActivitySearchResult } from '../../utils/search.util';
+import {
+  EventActor,
+  EventPermission,
+} from '../../../collaborator/utils/permissions.util';
+import {
+  MAX_PAGE_SIZE,
+  PaginatedResult,
+  parsePagination,
+} from '../../../common/pagination.util';
 import {
   ApiTags,
   ApiOperation,
@@ -44,7 +71,8 @@ export class ActivityController {
   @Get('')
   @ApiOperation({
     summary: 'Get all events',
-    description: 'Retrieves all events with optional pagination and filtering',
+    description:
+      'Retrieves events with optional filtering. Pages by page number or, for infinite scroll, by cursor.',
   })
   @ApiQuery({
     name: 'page',
@@ -55,7 +83,7 @@ export class ActivityController {
   @ApiQuery({
     name: 'numberOfEventsToGet',
     required: false,
-    description: 'Number of events per page (alias: numEvents)',
+    description: 'Number of events per page, at most 100 (alias: numEvents)',
     example: '12',
   })
   @ApiQuery({
@@ -73,7 +101,7 @@ export class ActivityController {
   @ApiQuery({
     name: 'tags',
     required: false,
-    description: 'Filter by tags (comma-separated)',
+    description: 'Filter by tag slugs or names (comma-separated)',
     example: 'club,study',
   })
   @ApiQuery({
@@ -82,6 +110,17 @@ export class ActivityController {
     description: 'Filter by location (partial match)',
     example: 'Seattle',
   })
+  @ApiQuery({
+    name: 'venueId',
+    required: false,
+    description: 'Filter by venue: events in any of its rooms',
+  })
+  @ApiQuery({
+    name: 'building',
+    required: false,
+    description: 'Filter by building code or name (exact match)',
+    example: 'IB',
+  })
   @ApiQuery({
     name: 'host',
     required: false,
@@ -100,10 +139,23 @@ export class ActivityController {
     description: 'Filter events ending before this date (ISO 8601)',
     example: '2024-12-31',
   })
+  @ApiQuery({
+    name: 'nextOccurrenceOnly',
+    required: false,
+    description:
+      'Only return the next upcoming occurrence of each recurring series',
+    example: 'true',
+  })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    description:
+      'nextCursor from the previous page. Continues after that event in (startDate, id) order and takes precedence over page',
+  })
   @ApiResponse({
     status: 200,
-    description: 'List of events',
-    type: [Activity],
+    description:
+      'Page of events: { data, page, pageSize, total, totalPages, nextCursor }',
   })
   async getAllActivities(
     @Query('page') page = '1',
@@ -112,12 +164,20 @@ export class ActivityController {
     @Query('isArchived') isArchived = 'false',
     @Query('tags') tagsParam?: string,
     @Query('location') location?: string,
+    @Query('venueId') venueId?: string,
+    @Query('building') building?: string,
     @Query('host') host?: string,
     @Query('startDate') startDate?: string,
     @Query('endDate') endDate?: string,
-  ): Promise<Activity[]> {
+    @Query('nextOccurrenceOnly') nextOccurrenceOnly?: string,
+    @Query('cursor') cursor?: string,
+  ): Promise<PaginatedResult<Activity>> {
     // Support both parameter names for backward compatibility
-    const take = numberOfEventsToGet || numEvents || '12';
+    const pagination = parsePagination(
+      page,
+      numberOfEventsToGet || numEvents,
+      MAX_PAGE_SIZE,
+    );
 
     const tags = (tagsParam ?? '')
       .split(',')
@@ -126,21 +186,27 @@ export class ActivityController {
 
     // Keep the service signature flexible by passing an object of query-like params
     return await this.activityService.getAllActivities({
-      page,
-      numberOfEventsToGet: take,
+      page: String(pagination.page),
+      numberOfEventsToGet: String(pagination.pageSize),
+      cursor,
       isArchived,
       tags, // array of normalized tags
       location,
+      venueId,
+      building,
       host,
       startDate,
       endDate,
+      nextOccurrenceOnly,
     });
   }
 
   @Get('find/:id')
+  @UseGuards(OptionalJwtAuthGuard)
   @ApiOperation({
     summary: 'Get event by ID',
-    description: 'Retrieves a specific event by its ID',
+    description:
+      'Retrieves a specific event by its ID. Drafts, scheduled and unapproved events are only returned to users who can edit them',
   })
   @ApiParam({ name: 'id', description: 'Event ID (UUID)' })
   @ApiResponse({
@@ -149,8 +215,11 @@ export class ActivityController {
     type: Activity,
   })
   @ApiResponse({ status: 404, description: 'Event not found' })
-  async findActivityById(@Param('id') id: string): Promise<Activity> {
-    return this.activityService.getActivityById(id);
+  async findActivityById(
+    @Param('id') id: string,
+    @Req() req: any,
+  ): Promise<Activity> {
+    return this.activityService.getVisibleActivity(id, req.user ?? undefined);
   }
 
   // request all events created by a specific user
@@ -160,16 +229,161 @@ export class ActivityController {
     description: 'Retrieves all events created by a specific user',
   })
   @ApiParam({ name: 'userId', description: 'User ID (UUID)' })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    description: 'Page number',
+    example: '1',
+  })
+  @ApiQuery({
+    name: 'numEvents',
+    required: false,
+    description: 'Number of events per page, at most 100',
+    example: '12',
+  })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    description:
+      'nextCursor from the previous page. Continues after that event in (startDate, id) order and takes precedence over page',
+  })
   @ApiResponse({
     status: 200,
-    description: 'List of events created by the user',
-    type: [Activity],
+    description:
+      'Page of events created by the user: { data, page, pageSize, total, totalPages, nextCursor }',
   })
   @ApiResponse({ status: 404, description: 'User not found' })
   async getActivitiesByUserId(
     @Param('userId') userId: string,
+    @Query('page') page?: string,
+    @Query('numEvents') numEvents?: string,
+    @Query('cursor') cursor?: string,
+  ): Promise<PaginatedResult<Activity>> {
+    const pagination = parsePagination(page, numEvents, MAX_PAGE_SIZE);
+    return this.activityService.getActivitiesByUserId(userId, {
+      page: String(pagination.page),
+      pageSize: String(pagination.pageSize),
+      cursor,
+    });
+  }
+
+  // request the drafts and scheduled events of a specific user
+  @Get('user/:userId/drafts')
+  @UseGuards(AuthGuard())
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Get draft events by user',
+    description:
+      'Retrieves unpublished events (drafts and scheduled) created by a user (requires being that user or an admin)',
+  })
+  @ApiParam({ name: 'userId', description: 'User ID (UUID)' })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    description: 'Page number',
+    example: '1',
+  })
+  @ApiQuery({
+    name: 'numEvents',
+    required: false,
+    description: 'Number of events per page, at most 100',
+    example: '12',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Page of unpublished events: { data, page, pageSize, total, totalPages, nextCursor }',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getDraftActivitiesByUserId(
+    @Param('userId') userId: string,
+    @Req() req: any,
+    @Query('page') page?: string,
+    @Query('numEvents') numEvents?: string,
+    @Query('cursor') cursor?: string,
+  ): Promise<PaginatedResult<Activity>> {
+    if (req.user.id !== userId && req.user.role !== Role.admin) {
+      throw new UnauthorizedException();
+    }
+    const pagination = parsePagination(page, numEvents, MAX_PAGE_SIZE);
+    return this.activityService.getActivitiesByUserId(userId, {
+      page: String(pagination.page),
+      pageSize: String(pagination.pageSize),
+      cursor,
+      drafts: true,
+    });
+  }
+
+  // request the deleted events the current user can restore
+  @Get('trash')
+  @UseGuards(AuthGuard())
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Get deleted events',
+    description:
+      'Retrieves events in the trash. Admins see every deleted event, creators the ones they own. Deleted events are purged after EVENT_TRASH_RETENTION_DAYS (30 by default).',
+  })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    description: 'Page number',
+    example: '1',
+  })
+  @ApiQuery({
+    name: 'numEvents',
+    required: false,
+    description: 'Number of events per page, at most 100',
+    example: '12',
+  })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    description:
+      'nextCursor from the previous page. Continues after that event in (startDate, id) order and takes precedence over page',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Page of deleted events: { data, page, pageSize, total, totalPages, nextCursor }',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getTrashedActivities(
+    @Req() req: any,
+    @Query('page') page?: string,
+    @Query('numEvents') numEvents?: string,
+    @Query('cursor') cursor?: string,
+  ): Promise<PaginatedResult<Activity>> {
+    const pagination = parsePagination(page, numEvents, MAX_PAGE_SIZE);
+    return this.activityService.getTrashedActivities(req.user, {
+      page: String(pagination.page),
+      pageSize: String(pagination.pageSize),
+      cursor,
+    });
+  }
+
+  // request every occurrence of a recurring event series
+  @Get('series/:seriesId')
+  @UseGuards(OptionalJwtAuthGuard)
+  @ApiOperation({
+    summary: 'Get series occurrences',
+    description:
+      'Retrieves every occurrence of a recurring event series. Drafts, scheduled and unapproved occurrences are only returned to users who can edit the series',
+  })
+  @ApiParam({ name: 'seriesId', description: 'Series ID (UUID)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Occurrences of the series ordered by start date',
+    type: [Activity],
+  })
+  @ApiResponse({ status: 404, description: 'Series not found' })
+  async getSeriesOccurrences(
+    @Param('seriesId') seriesId: string,
+    @Req() req: any,
   ): Promise<Activity[]> {
-    return this.activityService.getActivitiesByUserId(userId);
+    return this.activityService.getSeriesOccurrences(
+      seriesId,
+      req.user ?? undefined,
+    );
   }
 
   // NOTE: Event attendance is now handled by the EventRegistrationController
@@ -231,12 +445,47 @@ export class ActivityController {
           format: 'date-time',
           example: '2025-12-01T16:00:00Z',
         },
+        timeZone: {
+          type: 'string',
+          example: 'America/Los_Angeles',
+          description:
+            'IANA time zone the event is held in (optional, defaults to America/Los_Angeles)',
+        },
         eventLocation: {
           type: 'string',
           example: 'Room 101, Engineering Building',
+          description:
+            'Free text for off-campus and online events, derived from roomId when one is given',
+        },
+        roomId: {
+          type: 'string',
+          format: 'uuid',
+          description: 'Campus room the event is held in (optional)',
+        },
+        setupMinutes: {
+          type: 'string',
+          example: '30',
+          description:
+            'Minutes the room is held before the event starts (optional)',
+        },
+        teardownMinutes: {
+          type: 'string',
+          example: '15',
+          description:
+            'Minutes the room is held after the event ends (optional)',
+        },
+        overrideRoomConflicts: {
+          type: 'string',
+          example: 'true',
+          description:
+            'Book the room even if another event holds it at the time (admins only, optional)',
         },
         eventHost: { type: 'string', example: 'Computer Science Club' },
-        eventCapacity: { type: 'string', example: '50' },
+        eventCapacity: {
+          type: 'string',
+          example: '50',
+          description: 'Positive whole number, or "unlimited" for no limit',
+        },
         eventTags: {
           type: 'string',
           example: 'Technology, Workshop',
@@ -288,13 +537,33 @@ export class ActivityController {
         eventNote: { type: 'string', example: 'Bring your laptop' },
         isHidden: { type: 'boolean', example: false },
         isArchived: { type: 'boolean', example: false },
+        publicationStatus: {
+          type: 'string',
+          enum: Object.values(PublicationStatus),
+          example: PublicationStatus.published,
+          description:
+            'draft keeps the event private, scheduled publishes it at publishAt (default: published)',
+        },
+        publishAt: {
+          type: 'string',
+          format: 'date-time',
+          example: '2025-11-15T09:00:00Z',
+          description:
+            'When a scheduled event goes live (required if scheduled)',
+        },
+        recurrence: {
+          type: 'string',
+          example:
+            '{"frequency":"weekly","count":10,"exceptionDates":["2025-12-22"]}',
+          description:
+            'JSON recurrence rule (frequency: weekly | biweekly | monthly, with until or count and optional exceptionDates). Creates one event per occurrence (optional)',
+        },
       },
       required: [
         'eventTitle',
         'eventDescription',
         'startDate',
         'endDate',
-        'eventLocation',
         'eventHost',
         'eventCapacity',
         'eventTags',
@@ -312,6 +581,11 @@ export class ActivityController {
     description: 'Unauthorized - requires creator or admin role',
   })
   @ApiResponse({ status: 400, description: 'Invalid input data' })
+  @ApiResponse({
+    status: 409,
+    description:
+      'The room is already booked at this time. Lists the conflicting events; admins can resend with overrideRoomConflicts',
+  })
   async addEvent(
     @Body() body: any,
     @UploadedFile() file: Express.Multer.File,
@@ -409,18 +683,75 @@ export class ActivityController {
         eventTags: parseTags(body.eventTags),
         eventSocialMedia: safeJsonParse(body.eventSocialMedia, undefined),
         eventSpeakers: parseStringArray(body.eventSpeakers),
+        recurrence: body.recurrence
+          ? safeJsonParse(body.recurrence)
+          : undefined,
+        overrideRoomConflicts:
+          body.overrideRoomConflicts === undefined
+            ? undefined
+            : String(body.overrideRoomConflicts) === 'true',
       };
 
       return await this.activityService.createActivity(
         activityData,
         req.user.id,
         file, // Pass the optional file
+        req.user.role,
       );
     } else {
       throw new UnauthorizedException();
     }
   }
 
+  @Post(':id/clone')
+  @UseGuards(AuthGuard())
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Clone event',
+    description:
+      'Copies the details of an event into a new draft owned by the signed-in user. Registrations, series and publication state are not copied (requires creator or admin role and permission to edit the event)',
+  })
+  @ApiParam({ name: 'id', description: 'Event ID (UUID) to copy' })
+  @ApiBody({ type: CloneActivityDto, required: false })
+  @ApiResponse({
+    status: 201,
+    description: 'Draft copy of the event',
+    type: Activity,
+  })
+  @ApiResponse({
+    status: 401,
+    description:
+      'Unauthorized - requires creator or admin role and edit permission',
+  })
+  @ApiResponse({ status: 404, description: 'Event not found' })
+  @ApiResponse({
+    status: 409,
+    description:
+      'The room is already booked at the time of the copy. Lists the conflicting events; admins can resend with overrideRoomConflicts',
+  })
+  async cloneActivity(
+    @Param('id') id: string,
+    @Body() cloneActivityDto: CloneActivityDto,
+    @Req() req: any,
+  ): Promise<Activity> {
+    if (req.user.role === Role.user) {
+      throw new UnauthorizedException();
+    }
+    const source: Activity = await this.activityService.getActivityById(id);
+    await this.assertEventPermission(
+      source,
+      req.user,
+      EventPermission.edit,
+      'You do not have permission to clone this event',
+    );
+    return await this.activityService.cloneActivity(
+      id,
+      cloneActivityDto ?? {},
+      req.user.id,
+      req.user.role,
+    );
+  }
+
   @Put('update/:id')
   @UseGuards(AuthGuard())
   @ApiBearerAuth('JWT-auth')
@@ -430,6 +761,13 @@ export class ActivityController {
       'Updates an existing event (requires creator ownership or admin role)',
   })
   @ApiParam({ name: 'id', description: 'Event ID (UUID)' })
+  @ApiQuery({
+    name: 'scope',
+    required: false,
+    enum: RecurrenceScope,
+    description:
+      'For recurring events: this occurrence, this and following, or the whole series',
+  })
   @ApiBody({ type: UpdateActivityDto })
   @ApiResponse({
     status: 200,
@@ -439,37 +777,32 @@ export class ActivityController {
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({
     status: 403,
-    description: 'Forbidden - must be event creator or admin',
+    description: 'Forbidden - must be event creator, collaborator or admin',
   })
   @ApiResponse({ status: 404, description: 'Event not found' })
+  @ApiResponse({
+    status: 409,
+    description:
+      'The room is already booked at the new time. Lists the conflicting events; admins can resend with overrideRoomConflicts',
+  })
   async updateActivityById(
     @Param('id') id: string,
     @Body() activity: UpdateActivityDto,
     @Req() req: any,
+    @Query('scope') scope: RecurrenceScope = RecurrenceScope.occurrence,
   ): Promise<Activity> {
-    // return activity to retrieve createdByUserId property value
     const preOperationActivity = await this.activityService.getActivityById(id);
-    // admin can make edits regardless
-    if (req.user.role === Role.admin) {
-      return await this.activityService.updateActivity(
-        id,
-        activity,
-        req.user.id,
-      );
-    }
-    // have to check if they are the creator and if they still have creator access
-    if (
-      preOperationActivity.createdByUserId === req.user.id &&
-      req.user.role === Role.creator
-    ) {
-      return await this.activityService.updateActivity(
-        id,
-        activity,
-        req.user.id,
-      );
-    } else {
-      throw new UnauthorizedException();
-    }
+    await this.assertEventPermission(
+      preOperationActivity,
+      req.user,
+      EventPermission.edit,
+    );
+    return await this.activityService.updateActivity(
+      id,
+      activity,
+      req.user,
+      scope,
+    );
   }
 
   @Delete('remove/:id')
@@ -477,35 +810,66 @@ export class ActivityController {
   @ApiBearerAuth('JWT-auth')
   @ApiOperation({
     summary: 'Delete event',
-    description: 'Deletes an event (requires creator ownership or admin role)',
+    description:
+      'Moves an event to the trash, where it can be restored until it is purged after EVENT_TRASH_RETENTION_DAYS (requires creator ownership or admin role)',
   })
   @ApiParam({ name: 'id', description: 'Event ID (UUID)' })
+  @ApiQuery({
+    name: 'scope',
+    required: false,
+    enum: RecurrenceScope,
+    description:
+      'For recurring events: this occurrence, this and following, or the whole series',
+  })
   @ApiResponse({
     status: 200,
-    description: 'Event successfully deleted',
+    description: 'Event moved to the trash',
   })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({
     status: 403,
-    description: 'Forbidden - must be event creator or admin',
+    description: 'Forbidden - must be event creator, collaborator or admin',
   })
   @ApiResponse({ status: 404, description: 'Event not found' })
   async deleteActivityById(
     @Param('id') id: string,
     @Req() req: any,
+    @Query('scope') scope: RecurrenceScope = RecurrenceScope.occurrence,
   ): Promise<void> {
     const preOperationActivity = await this.activityService.getActivityById(id);
-    if (req.user.role === Role.admin) {
-      return this.activityService.deleteActivity(id, req.user.id);
-    }
-    if (
-      preOperationActivity.createdByUserId === req.user.id &&
-      req.user.role === Role.creator
-    ) {
-      return await this.activityService.deleteActivity(id, req.user.id);
-    } else {
-      throw new UnauthorizedException();
-    }
+    await this.assertEventPermission(
+      preOperationActivity,
+      req.user,
+      EventPermission.delete,
+    );
+    return await this.activityService.deleteActivity(id, req.user, scope);
+  }
+
+  @Put('restore/:id')
+  @UseGuards(AuthGuard())
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Restore deleted event',
+    description:
+      'Takes an event out of the trash. Occurrences deleted together with it are restored too (requires creator ownership, co-hosting or admin role)',
+  })
+  @ApiParam({ name: 'id', description: 'Event ID (UUID)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Event restored',
+    type: Activity,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Must be event creator, co-host or admin',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Event not found in the trash' })
+  async restoreActivityById(
+    @Param('id') id: string,
+    @Req() req: any,
+  ): Promise<Activity> {
+    return await this.activityService.restoreActivity(id, req.user);
   }
 
   @Put('archive/:id')
@@ -524,7 +888,7 @@ export class ActivityController {
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({
     status: 403,
-    description: 'Forbidden - must be event creator or admin',
+    description: 'Forbidden - must be event creator, collaborator or admin',
   })
   @ApiResponse({ status: 404, description: 'Event not found' })
   async archiveActivityById(
@@ -533,17 +897,12 @@ export class ActivityController {
   ): Promise<Activity> {
     const preOperationActivity: Activity =
       await this.activityService.getActivityById(id);
-    if (req.user.role === Role.admin) {
-      return this.activityService.archiveActivity(id);
-    }
-    if (
-      preOperationActivity.createdByUserId === req.user.id &&
-      req.user.role === Role.creator
-    ) {
-      return await this.activityService.archiveActivity(id);
-    } else {
-      throw new UnauthorizedException();
-    }
+    await this.assertEventPermission(
+      preOperationActivity,
+      req.user,
+      EventPermission.archive,
+    );
+    return await this.activityService.archiveActivity(id, req.user.id);
   }
 
   @Put('unarchive/:id')
@@ -563,7 +922,7 @@ export class ActivityController {
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({
     status: 403,
-    description: 'Forbidden - must be event creator or admin',
+    description: 'Forbidden - must be event creator, collaborator or admin',
   })
   @ApiResponse({ status: 404, description: 'Event not found' })
   async unarchiveActivityById(
@@ -572,29 +931,117 @@ export class ActivityController {
   ): Promise<Activity> {
     const preOperationActivity: Activity =
       await this.activityService.getActivityById(id);
-    if (req.user.role === Role.admin) {
-      return this.activityService.unarchiveActivity(id);
-    }
-    if (
-      preOperationActivity.createdByUserId === req.user.id &&
-      req.user.role === Role.creator
-    ) {
-      return await this.activityService.unarchiveActivity(id);
-    } else {
-      throw new UnauthorizedException();
-    }
+    await this.assertEventPermission(
+      preOperationActivity,
+      req.user,
+      EventPermission.archive,
+    );
+    return await this.activityService.unarchiveActivity(id, req.user.id);
+  }
+
+  @Post('auto-archive')
+  @Roles('admin')
+  @UseGuards(AuthGuard(), RoleGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Archive finished events now (Admin only)',
+    description:
+      'Runs the automatic archival job, which archives events that ended more than EVENT_AUTO_ARCHIVE_AFTER_HOURS ago (24 by default). Events unarchived by hand within that time are skipped. Use dryRun to only list what would be archived.',
+  })
+  @ApiQuery({
+    name: 'dryRun',
+    required: false,
+    description:
+      'List the events that would be archived without archiving them',
+    example: 'true',
+  })
+  @ApiResponse({
+    status: 201,
+    description:
+      'Archived events, or the ones that would be archived: { dryRun, archiveAfterHours, events }',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - admin only' })
+  async autoArchiveActivities(
+    @Query('dryRun') dryRun?: string,
+  ): Promise<AutoArchiveResult> {
+    return this.activityService.autoArchiveActivities({
+      dryRun: String(dryRun ?? 'false') === 'true',
+    });
+  }
+
+  @Put('publish/:id')
+  @UseGuards(AuthGuard())
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Publish event',
+    description:
+      'Publishes a draft or scheduled event immediately (requires creator ownership or admin role)',
+  })
+  @ApiParam({ name: 'id', description: 'Event ID (UUID)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Event successfully published',
+    type: Activity,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Event not found' })
+  async publishActivityById(
+    @Param('id') id: string,
+    @Req() req: any,
+  ): Promise<Activity> {
+    const preOperationActivity: Activity =
+      await this.activityService.getActivityById(id);
+    await this.assertEventPermission(
+      preOperationActivity,
+      req.user,
+      EventPermission.publish,
+    );
+    return await this.activityService.publishActivity(id);
+  }
+
+  @Put('unpublish/:id')
+  @UseGuards(AuthGuard())
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Unpublish event',
+    description:
+      'Moves an event back to drafts, hiding it from listings, search and feeds (requires creator ownership or admin role)',
+  })
+  @ApiParam({ name: 'id', description: 'Event ID (UUID)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Event successfully unpublished',
+    type: Activity,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Event not found' })
+  async unpublishActivityById(
+    @Param('id') id: string,
+    @Req() req: any,
+  ): Promise<Activity> {
+    const preOperationActivity: Activity =
+      await this.activityService.getActivityById(id);
+    await this.assertEventPermission(
+      preOperationActivity,
+      req.user,
+      EventPermission.publish,
+    );
+    return await this.activityService.unpublishActivity(id);
   }
 
   @Get('search')
   @ApiOperation({
     summary: 'Search events',
-    description: 'Search events by keyword with optional filters',
+    description:
+      'Full-text search ranked by relevance. Matches title, tags, host, speakers and description. Each result includes highlighted snippets with matches wrapped in <mark> tags.',
   })
   @ApiQuery({
     name: 'q',
     required: true,
-    description: 'Search term (searches title, description, location, host)',
-    example: 'workshop',
+    description:
+      'Search term. Words match as prefixes, "quoted text" matches as a phrase',
+    example: '"resume workshop" career',
   })
   @ApiQuery({
     name: 'isArchived',
@@ -626,10 +1073,22 @@ export class ActivityController {
     description: 'Filter events ending before this date (ISO 8601)',
     example: '2024-12-31',
   })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    description: 'Page number',
+    example: '1',
+  })
+  @ApiQuery({
+    name: 'numEvents',
+    required: false,
+    description: 'Number of results per page, at most 100',
+    example: '12',
+  })
   @ApiResponse({
     status: 200,
-    description: 'List of matching events',
-    type: [Activity],
+    description:
+      'Page of matching events, best match first: { data, page, pageSize, total, totalPages, nextCursor }. Each event includes searchRank and highlights { eventTitle, eventDescription }',
   })
   async searchActivities(
     @Query('q') searchTerm: string,
@@ -638,18 +1097,22 @@ export class ActivityController {
     @Query('host') host?: string,
     @Query('startDate') startDate?: string,
     @Query('endDate') endDate?: string,
-  ): Promise<Activity[]> {
+    @Query('page') page?: string,
+    @Query('numEvents') numEvents?: string,
+  ): Promise<PaginatedResult<ActivitySearchResult>> {
+    const pagination = parsePagination(page, numEvents, MAX_PAGE_SIZE);
     return this.activityService.searchActivities(searchTerm, {
       isArchived: isArchived === 'true',
       location,
       host,
       startDate,
       endDate,
+      page: String(pagination.page),
+      pageSize: String(pagination.pageSize),
     });
   }
 
-  // TODO: File upload functionality (cover images, documents) can be implemented here
-  // when needed for PostgreSQL version
+  // Documents are uploaded as attachments, see AttachmentController
 
   @Put(':id/cover-image')
   @UseGuards(AuthGuard())
@@ -684,7 +1147,7 @@ export class ActivityController {
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({
     status: 403,
-    description: 'Forbidden - must be event creator or admin',
+    description: 'Forbidden - must be event creator, collaborator or admin',
   })
   @ApiResponse({ status: 404, description: 'Event not found' })
   async uploadCoverImage(
@@ -698,22 +1161,107 @@ export class ActivityController {
 
     // Check if user has permission to update this event
     const activity = await this.activityService.getActivityById(id);
+    await this.assertEventPermission(
+      activity,
+      req.user,
+      EventPermission.edit,
+      'You do not have permission to upload cover image for this event',
+    );
+    return await this.activityService.updateCoverImage(id, file, req.user.id);
+  }
 
-    // Admin can upload cover image for any event
-    if (req.user.role === Role.admin) {
-      return await this.activityService.updateCoverImage(id, file);
-    }
+  @Post(':id/cover-image/upload-url')
+  @UseGuards(AuthGuard())
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Start a direct cover image upload',
+    description:
+      'Returns a URL, valid for 5 minutes, that the browser can PUT the image to without going through the API. Send it with the given Content-Type, then finalize the upload. Images of up to 20 MB are accepted (requires creator ownership or admin role).',
+  })
+  @ApiParam({ name: 'id', description: 'Event ID (UUID)' })
+  @ApiBody({ type: CreateCoverImageUploadDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Upload URL: { key, uploadUrl, contentType, expiresAt }',
+  })
+  @ApiResponse({ status: 400, description: 'Invalid file type' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Event not found' })
+  async createCoverImageUpload(
+    @Param('id') id: string,
+    @Body() createCoverImageUploadDto: CreateCoverImageUploadDto,
+    @Req() req: any,
+  ): Promise<DirectUpload> {
+    const activity = await this.activityService.getActivityById(id);
+    await this.assertEventPermission(
+      activity,
+      req.user,
+      EventPermission.edit,
+      'You do not have permission to upload cover image for this event',
+    );
+    return await this.activityService.createCoverImageUpload(
+      id,
+      createCoverImageUploadDto.fileName,
+      createCoverImageUploadDto.contentType,
+    );
+  }
 
-    // Creator can only upload cover image for their own events
+  @Post(':id/cover-image/finalize')
+  @UseGuards(AuthGuard())
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Finish a direct cover image upload',
+    description:
+      'Checks the uploaded image, resizes it into the cover photo variants and makes it the cover image of the event (requires creator ownership or admin role)',
+  })
+  @ApiParam({ name: 'id', description: 'Event ID (UUID)' })
+  @ApiBody({ type: FinalizeCoverImageDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Cover image successfully uploaded',
+    type: Activity,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Nothing was uploaded, the upload belongs to another event, or it is not an image',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Event not found' })
+  async finalizeCoverImage(
+    @Param('id') id: string,
+    @Body() finalizeCoverImageDto: FinalizeCoverImageDto,
+    @Req() req: any,
+  ): Promise<Activity> {
+    const activity = await this.activityService.getActivityById(id);
+    await this.assertEventPermission(
+      activity,
+      req.user,
+      EventPermission.edit,
+      'You do not have permission to upload cover image for this event',
+    );
+    return await this.activityService.finalizeCoverImage(
+      id,
+      finalizeCoverImageDto.key,
+      req.user.id,
+    );
+  }
+
+  /** Admins, the owner and collaborators whose role allows it may proceed */
+  private async assertEventPermission(
+    activity: Activity,
+    user: EventActor,
+    permission: EventPermission,
+    message?: string,
+  ): Promise<void> {
     if (
-      activity.createdByUserId === req.user.id &&
-      req.user.role === Role.creator
+      !(await this.activityService.hasEventPermission(
+        activity,
+        user,
+        permission,
+      ))
     ) {
-      return await this.activityService.updateCoverImage(id, file);
-    } else {
-      throw new UnauthorizedException(
-        'You do not have permission to upload cover image for this event',
-      );
+      throw new UnauthorizedException(message);
     }
   }
 }
@@ -0,0 +1,26 @@
+import { IsBoolean, IsISO8601, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CloneActivityDto {
+  @ApiPropertyOptional({
+    description:
+      'Start of the copy; the end keeps the original duration. Defaults to the same weekday and time in the first week that has not started yet.',
+    example: '2025-12-08T14:00:00Z',
+  })
+  @IsOptional()
+  @IsISO8601(
+    { strict: true },
+    { message: 'startDate must be a valid ISO 8601 datetime string' },
+  )
+  readonly startDate?: string;
+
+  // Admins can book a room that is already taken at the time
+  @ApiPropertyOptional({
+    description:
+      'Keep the room even if it is already booked at the time of the copy (admins only)',
+    example: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  readonly overrideRoomConflicts?: boolean;
+}
@@ -0,0 +1,33 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateCoverImageUploadDto {
+  @ApiProperty({
+    description: 'Name of the image being uploaded',
+    example: 'spring-fair.jpg',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  readonly fileName: string;
+
+  @ApiProperty({
+    description:
+      'Type the image will be uploaded with: image/png, image/jpeg, image/jpg, image/gif or image/webp',
+    example: 'image/jpeg',
+  })
+  @IsString()
+  @IsNotEmpty()
+  readonly contentType: string;
+}
+
+export class FinalizeCoverImageDto {
+  @ApiProperty({
+    description: 'Key returned with the upload URL',
+    example:
+      'cover-images/uploads/3f1c2b1e-8d4a-4c1b-9a53-2e6f0f1d7c11/1700000000000-spring-fair.jpg',
+  })
+  @IsString()
+  @IsNotEmpty()
+  readonly key: string;
+}
@@ -1,22 +1,32 @@
-import { SocialMedia } from '../entities/activity.entity';
+import { PublicationStatus, SocialMedia } from '../entities/activity.entity';
 import {
   ArrayNotEmpty,
   IsArray,
   IsEmail,
   IsEmpty,
+  IsEnum,
+  IsInt,
   IsNotEmpty,
-  IsNumberString,
   IsOptional,
   IsString,
+  IsTimeZone,
   IsUrl,
+  Max,
+  Min,
+  IsUUID,
   IsBoolean,
   ValidateIf,
   IsISO8601,
   Validate,
+  ValidateNested,
 } from 'class-validator';
+import { Type } from 'class-transformer';
 import { IsAfterStartDate } from '../../../custom-validators/is-after-start-date';
 import { IsSocialMedia } from '../../../custom-validators/is-social-media';
+import { IsCapacity } from '../../../custom-validators/is-capacity';
 import { User } from '../../user/entities/user.entity';
+import { MAX_BUFFER_MINUTES } from '../../venue/utils/booking.util';
+import { RecurrenceRuleDto } from './recurrence-rule.dto';
 
 export class CreateActivityDto {
   @IsEmpty({ message: 'You cannot pass user id.' })
@@ -45,9 +55,40 @@ export class CreateActivityDto {
   @Validate(IsAfterStartDate, { message: 'endDate must be after startDate' })
   readonly endDate: string;
 
+  // IANA zone the times were picked in, e.g. America/Los_Angeles
+  @IsOptional()
+  @IsTimeZone()
+  readonly timeZone?: string;
+
+  // Derived from the room when one is picked
+  @ValidateIf((obj) => !obj.roomId)
   @IsNotEmpty()
   @IsString()
-  readonly eventLocation: string;
+  readonly eventLocation?: string;
+
+  // Campus room the event is held in; leave out for off-campus and online
+  // events
+  @IsOptional()
+  @IsUUID()
+  readonly roomId?: string;
+
+  // Minutes the room is held before and after the event
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(MAX_BUFFER_MINUTES)
+  readonly setupMinutes?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(MAX_BUFFER_MINUTES)
+  readonly teardownMinutes?: number;
+
+  // Admins can book a room that is already taken at the time
+  @IsOptional()
+  @IsBoolean()
+  readonly overrideRoomConflicts?: boolean;
 
   @ValidateIf(
     (obj) => obj.eventCoverPhoto !== undefined && obj.eventCoverPhoto !== '',
@@ -76,9 +117,10 @@ export class CreateActivityDto {
   @IsString()
   readonly eventRegistration?: string;
 
-  @IsNotEmpty()
-  @IsNumberString()
-  readonly eventCapacity: string;
+  // null or "unlimited" means the event has no seat limit
+  @ValidateIf((obj) => obj.eventCapacity !== null)
+  @IsCapacity()
+  readonly eventCapacity: number | string | null;
 
   @IsArray()
   @ArrayNotEmpty()
@@ -135,4 +177,23 @@ export class CreateActivityDto {
   @IsOptional()
   @IsBoolean()
   readonly isArchived: boolean;
+
+  @IsOptional()
+  @IsEnum(PublicationStatus, {
+    message: 'publicationStatus must be one of: draft, scheduled, published',
+  })
+  readonly publicationStatus?: PublicationStatus;
+
+  // Required when publicationStatus is scheduled
+  @ValidateIf((obj) => obj.publicationStatus === PublicationStatus.scheduled)
+  @IsISO8601(
+    { strict: true },
+    { message: 'publishAt must be a valid ISO 8601 datetime string' },
+  )
+  readonly publishAt?: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => RecurrenceRuleDto)
+  readonly recurrence?: RecurrenceRuleDto;
 }
@@ -0,0 +1,40 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsEnum,
+  IsISO8601,
+  IsInt,
+  IsOptional,
+  Max,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { RecurrenceFrequency } from '../entities/activity.entity';
+import { MAX_OCCURRENCES } from '../utils/recurrence.util';
+
+export class RecurrenceRuleDto {
+  @IsEnum(RecurrenceFrequency, {
+    message: 'frequency must be one of: weekly, biweekly, monthly',
+  })
+  readonly frequency: RecurrenceFrequency;
+
+  // A series must be bounded by either an end date or an occurrence count
+  @ValidateIf((obj) => obj.count === undefined || obj.until !== undefined)
+  @IsISO8601(
+    { strict: true },
+    { message: 'until must be a valid ISO 8601 date string' },
+  )
+  readonly until?: string;
+
+  @ValidateIf((obj) => obj.until === undefined || obj.count !== undefined)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_OCCURRENCES)
+  readonly count?: number;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_OCCURRENCES)
+  @IsISO8601({ strict: true }, { each: true })
+  readonly exceptionDates?: string[];
+}
@@ -1,22 +1,29 @@
-import { SocialMedia } from '../entities/activity.entity';
+import { PublicationStatus, SocialMedia } from '../entities/activity.entity';
 import {
   ArrayNotEmpty,
   IsArray,
   IsEmail,
   IsEmpty,
+  IsEnum,
+  IsInt,
   IsISO8601,
   IsNotEmpty,
-  IsNumberString,
   IsOptional,
   IsString,
+  IsTimeZone,
   IsUrl,
+  Max,
+  Min,
+  IsUUID,
   IsBoolean,
   ValidateIf,
   Validate,
 } from 'class-validator';
 import { IsAfterStartDate } from '../../../custom-validators/is-after-start-date';
 import { IsSocialMedia } from '../../../custom-validators/is-social-media';
+import { IsCapacity } from '../../../custom-validators/is-capacity';
 import { User } from '../../user/entities/user.entity';
+import { MAX_BUFFER_MINUTES } from '../../venue/utils/booking.util';
 
 export class UpdateActivityDto {
   @IsEmpty({ message: 'You cannot pass user id.' })
@@ -47,11 +54,41 @@ export class UpdateActivityDto {
   @Validate(IsAfterStartDate, { message: 'endDate must be after startDate' })
   readonly endDate: string;
 
+  // IANA zone the times were picked in, e.g. America/Los_Angeles
+  @IsOptional()
+  @IsTimeZone()
+  readonly timeZone?: string;
+
+  // Ignored while the event is in a room, the room's label is used instead
   @IsOptional()
   @IsNotEmpty()
   @IsString()
   readonly eventLocation: string;
 
+  // null switches the event to the free-text eventLocation, e.g. when it
+  // moves off campus or online
+  @IsOptional()
+  @IsUUID()
+  readonly roomId?: string | null;
+
+  // Minutes the room is held before and after the event
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(MAX_BUFFER_MINUTES)
+  readonly setupMinutes?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(MAX_BUFFER_MINUTES)
+  readonly teardownMinutes?: number;
+
+  // Admins can book a room that is already taken at the time
+  @IsOptional()
+  @IsBoolean()
+  readonly overrideRoomConflicts?: boolean;
+
   @ValidateIf(
     (obj) => obj.eventCoverPhoto !== undefined && obj.eventCoverPhoto !== '',
   )
@@ -80,9 +117,10 @@ export class UpdateActivityDto {
   @IsString()
   readonly eventRegistration?: string;
 
+  // null or "unlimited" removes the seat limit
   @IsOptional()
-  @IsNumberString()
-  readonly eventCapacity: string;
+  @IsCapacity()
+  readonly eventCapacity?: number | string | null;
 
   @IsOptional()
   @IsArray()
@@ -140,4 +178,18 @@ export class UpdateActivityDto {
   @IsOptional()
   @IsBoolean()
   readonly isArchived: boolean;
+
+  @IsOptional()
+  @IsEnum(PublicationStatus, {
+    message: 'publicationStatus must be one of: draft, scheduled, published',
+  })
+  readonly publicationStatus?: PublicationStatus;
+
+  // Required when publicationStatus is scheduled
+  @ValidateIf((obj) => obj.publicationStatus === PublicationStatus.scheduled)
+  @IsISO8601(
+    { strict: true },
+    { message: 'publishAt must be a valid ISO 8601 datetime string' },
+  )
+  readonly publishAt?: string;
 }
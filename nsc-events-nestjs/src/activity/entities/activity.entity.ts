@@ -4,7 +4,19 @@ import {
   PrimaryGeneratedColumn,
   CreateDateColumn,
   UpdateDateColumn,
+  DeleteDateColumn,
+  Index,
+  JoinColumn,
+  JoinTable,
+  ManyToMany,
+  ManyToOne,
 } from 'typeorm';
+import { SEARCH_VECTOR_EXPRESSION } from '../utils/search.util';
+import { Tag } from '../../tag/entities/tag.entity';
+import { DEFAULT_TIME_ZONE } from '../../common/time-zone.util';
+import { Room } from '../../venue/entities/room.entity';
+import { Speaker } from '../../speaker/entities/speaker.entity';
+import { CoverPhotoVariants } from '../utils/cover-variants.util';
 
 export interface SocialMedia {
   [key: string]: string;
@@ -15,6 +27,53 @@ export interface Attendee {
   lastName: string;
 }
 
+export enum RecurrenceFrequency {
+  weekly = 'weekly',
+  biweekly = 'biweekly',
+  monthly = 'monthly',
+}
+
+/**
+ * RRULE-style recurrence definition shared by every occurrence of a series.
+ * Either `until` or `count` bounds the series; `exceptionDates` lists
+ * occurrence start dates (ISO 8601) that were skipped or deleted.
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  until?: string;
+  count?: number;
+  exceptionDates?: string[];
+}
+
+/**
+ * Which occurrences of a recurring series an update or delete applies to.
+ */
+export enum RecurrenceScope {
+  occurrence = 'occurrence',
+  following = 'following',
+  series = 'series',
+}
+
+/**
+ * Drafts and scheduled events are only visible to their creator. Scheduled
+ * events are published automatically once `publishAt` has passed.
+ */
+export enum PublicationStatus {
+  draft = 'draft',
+  scheduled = 'scheduled',
+  published = 'published',
+}
+
+/**
+ * Events submitted by roles that require review stay pending, and hidden from
+ * public listings, until an admin approves them.
+ */
+export enum ApprovalStatus {
+  pending = 'pending',
+  approved = 'approved',
+  rejected = 'rejected',
+}
+
 @Entity('activities')
 export class Activity {
   @PrimaryGeneratedColumn('uuid')
@@ -35,12 +94,40 @@ export class Activity {
   @Column({ type: 'timestamptz' })
   endDate: Date;
 
+  // IANA zone the event is held in. Times are stored as instants; the zone
+  // is what they are picked and shown in, and what series repeat in.
+  @Column({ length: 64, default: DEFAULT_TIME_ZONE })
+  timeZone: string;
+
+  // Free text for off-campus and online events. For events in a room it is
+  // a copy of the room's label, kept for search and calendar feeds.
   @Column()
   eventLocation: string;
 
+  // Null for off-campus and online events
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  roomId?: string | null;
+
+  @ManyToOne(() => Room, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'roomId' })
+  room?: Room | null;
+
+  // Minutes the room is held before the event starts and after it ends, so
+  // bookings leave time to set up and tear down
+  @Column({ type: 'int', default: 0 })
+  setupMinutes: number;
+
+  @Column({ type: 'int', default: 0 })
+  teardownMinutes: number;
+
   @Column({ default: '' })
   eventCoverPhoto?: string;
 
+  // Resized copies of the cover photo for srcset, null until generated
+  @Column('json', { nullable: true })
+  eventCoverPhotoVariants?: CoverPhotoVariants | null;
+
   @Column({ default: '' })
   eventDocument?: string;
 
@@ -53,18 +140,38 @@ export class Activity {
   @Column({ nullable: true })
   eventRegistration?: string;
 
-  @Column()
-  eventCapacity: string;
+  // Maximum number of confirmed registrations, null means unlimited
+  @Column({ type: 'int', nullable: true })
+  eventCapacity: number | null;
 
+  // Copy of the names of `tags`, kept for full-text search and calendar feeds
   @Column('simple-array')
   eventTags: string[];
 
+  @ManyToMany(() => Tag)
+  @JoinTable({
+    name: 'activity_tags',
+    joinColumn: { name: 'activityId' },
+    inverseJoinColumn: { name: 'tagId' },
+  })
+  tags?: Tag[];
+
   @Column({ nullable: true })
   eventSchedule?: string;
 
+  // Copy of the names of `speakerProfiles`, kept for full-text search and
+  // calendar feeds
   @Column('simple-array', { nullable: true })
   eventSpeakers?: string[];
 
+  @ManyToMany(() => Speaker)
+  @JoinTable({
+    name: 'activity_speakers',
+    joinColumn: { name: 'activityId' },
+    inverseJoinColumn: { name: 'speakerId' },
+  })
+  speakerProfiles?: Speaker[];
+
   @Column({ nullable: true })
   eventPrerequisites?: string;
 
@@ -98,9 +205,77 @@ export class Activity {
   @Column({ default: false })
   isArchived: boolean;
 
+  // When the auto-archive job archived the event, null when it wasn't
+  @Column({ type: 'timestamptz', nullable: true })
+  autoArchivedAt?: Date | null;
+
+  // Last time someone unarchived the event by hand. The auto-archive job
+  // leaves it alone for a full delay afterwards.
+  @Column({ type: 'timestamptz', nullable: true })
+  unarchivedAt?: Date | null;
+
+  @Index()
+  @Column({
+    type: 'enum',
+    enum: PublicationStatus,
+    default: PublicationStatus.published,
+  })
+  publicationStatus: PublicationStatus;
+
+  // When a scheduled event goes live, null unless scheduled
+  @Column({ type: 'timestamptz', nullable: true })
+  publishAt?: Date | null;
+
+  @Index()
+  @Column({
+    type: 'enum',
+    enum: ApprovalStatus,
+    default: ApprovalStatus.approved,
+  })
+  approvalStatus: ApprovalStatus;
+
+  // Reason given to the creator when an admin rejects the event
+  @Column({ type: 'text', nullable: true })
+  rejectionReason?: string | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  reviewedByUserId?: string | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  reviewedAt?: Date | null;
+
+  // Occurrences generated from the same recurrence rule share a series id
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  seriesId?: string;
+
+  @Column('json', { nullable: true })
+  recurrenceRule?: RecurrenceRule;
+
+  // Weighted full-text document, kept up to date by Postgres. The GIN index
+  // is created by ActivityService on startup since TypeORM can't declare one.
+  @Index('IDX_activities_search_vector', { synchronize: false })
+  @Column({
+    type: 'tsvector',
+    generatedType: 'STORED',
+    asExpression: SEARCH_VECTOR_EXPRESSION,
+    nullable: true,
+    select: false,
+  })
+  searchVector?: string;
+
   @CreateDateColumn({ type: 'timestamptz' })
   createdAt: Date;
 
   @UpdateDateColumn({ type: 'timestamptz' })
   updatedAt: Date;
+
+  // Set while the event is in the trash. TypeORM leaves trashed events out
+  // of queries unless they ask for them with withDeleted.
+  @Index()
+  @DeleteDateColumn({ type: 'timestamptz', nullable: true })
+  deletedAt?: Date | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  deletedByUserId?: string | null;
 }
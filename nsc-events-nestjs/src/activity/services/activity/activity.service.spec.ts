@@ -2,24 +2,95 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
 import {
   BadRequestException,
+  ConflictException,
   HttpException,
   HttpStatus,
   NotFoundException,
 } from '@nestjs/common';
-import { Repository, SelectQueryBuilder } from 'typeorm';
+import {
+  DataSource,
+  In,
+  LessThan,
+  LessThanOrEqual,
+  Repository,
+  SelectQueryBuilder,
+} from 'typeorm';
 import { ActivityService } from './activity.service';
-import { Activity, Attendee } from '../../entities/activity.entity';
+import {
+  Activity,
+  Attendee,
+  ApprovalStatus,
+  PublicationStatus,
+  RecurrenceFrequency,
+  RecurrenceScope,
+} from '../../entities/activity.entity';
 import { CreateActivityDto } from '../../dto/create-activity.dto';
 import { UpdateActivityDto } from '../../dto/update-activity.dto';
-import { S3Service } from './s3.service';
+import { StorageService } from '../../../storage/services/storage.service';
+import { CoverPhotoVariants } from '../../utils/cover-variants.util';
+import { ConfigService } from '@nestjs/config';
+import { TagService } from '../../../tag/services/tag.service';
+import { SpeakerService } from '../../../speaker/services/speaker.service';
+import { VenueService } from '../../../venue/services/venue.service';
+import { decodeCursor, encodeCursor } from '../../../common/pagination.util';
+import {
+  CollaboratorRole,
+  CollaboratorStatus,
+  EventCollaborator,
+} from '../../../collaborator/entities/event-collaborator.entity';
+import { EventAttachment } from '../../../attachment/entities/event-attachment.entity';
+import { EventSession } from '../../../session/entities/event-session.entity';
+import { EventPermission } from '../../../collaborator/utils/permissions.util';
+import { Role } from '../../../user/entities/user.entity';
+import {
+  EventRegistration,
+  RegistrationStatus,
+} from '../../../event-registration/entities/event-registration.entity';
+import {
+  ActivityRevision,
+  RevisionAction,
+} from '../../../revision/entities/activity-revision.entity';
+import { EventTemplate } from '../../../template/entities/event-template.entity';
 
 describe('ActivityService', () => {
   let service: ActivityService;
   let activityRepository: jest.Mocked<Repository<Activity>>;
-  let s3Service: jest.Mocked<S3Service>;
+  let storageService: jest.Mocked<StorageService>;
+  let configService: { get: jest.Mock };
+  let tagService: { resolveTags: jest.Mock };
+  let speakerService: { resolveSpeakers: jest.Mock };
+  let venueService: { resolveRoom: jest.Mock; findRoomConflicts: jest.Mock };
   let queryBuilder: jest.Mocked<SelectQueryBuilder<Activity>>;
+  let collaboratorQueryBuilder: {
+    where: jest.Mock;
+    andWhere: jest.Mock;
+    getCount: jest.Mock;
+  };
+  let revisionRepository: {
+    createQueryBuilder: jest.Mock;
+    create: jest.Mock;
+    save: jest.Mock;
+  };
+  let latestRevisions: { getRawMany: jest.Mock };
+  let manager: {
+    getRepository: jest.Mock;
+    delete: jest.Mock;
+    count: jest.Mock;
+    find: jest.Mock;
+    create: jest.Mock;
+    save: jest.Mock;
+  };
+  let collaboratorRepository: {
+    createQueryBuilder: jest.Mock;
+    delete: jest.Mock;
+  };
+  let templateQueryBuilder: { where: jest.Mock; getCount: jest.Mock };
+  let revisionCoverQueryBuilder: { where: jest.Mock; getCount: jest.Mock };
   let module: TestingModule;
 
+  const owner = { id: 'user-123', role: Role.creator };
+  const otherUser = { id: 'other-user', role: Role.creator };
+
   // Suppress console.error during tests for cleaner output
   beforeAll(() => {
     // eslint-disable-next-line @typescript-eslint/no-empty-function
@@ -33,13 +104,16 @@ describe('ActivityService', () => {
     eventDescription: 'Test Description',
     startDate: new Date('2024-12-31T10:00:00Z'),
     endDate: new Date('2024-12-31T12:00:00Z'),
+    timeZone: 'America/Los_Angeles',
     eventLocation: 'Test Location',
+    setupMinutes: 0,
+    teardownMinutes: 0,
     eventCoverPhoto: 'https://example.com/image.jpg',
     eventDocument: '',
     eventHost: 'Test Host',
     eventMeetingURL: 'https://meet.example.com',
     eventRegistration: '',
-    eventCapacity: '100',
+    eventCapacity: 100,
     eventTags: ['tech', 'workshop'],
     eventSchedule: '',
     eventSpeakers: ['Speaker 1'],
@@ -59,6 +133,8 @@ describe('ActivityService', () => {
     eventNote: '',
     isHidden: false,
     isArchived: false,
+    publicationStatus: PublicationStatus.published,
+    approvalStatus: ApprovalStatus.approved,
     createdAt: new Date(),
     updatedAt: new Date(),
   };
@@ -101,8 +177,12 @@ describe('ActivityService', () => {
       where: jest.fn().mockReturnThis(),
       andWhere: jest.fn().mockReturnThis(),
       orderBy: jest.fn().mockReturnThis(),
+      addOrderBy: jest.fn().mockReturnThis(),
       take: jest.fn().mockReturnThis(),
       skip: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      offset: jest.fn().mockReturnThis(),
+      getCount: jest.fn().mockResolvedValue(1),
       getMany: jest.fn().mockResolvedValue([mockActivity]),
     } as any;
 
@@ -112,11 +192,62 @@ describe('ActivityService', () => {
       find: jest.fn(),
       findOne: jest.fn(),
       remove: jest.fn(),
+      update: jest.fn(),
       createQueryBuilder: jest.fn().mockReturnValue(queryBuilder),
     };
 
-    const mockS3Service = {
-      uploadFile: jest.fn(),
+    collaboratorQueryBuilder = {
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      getCount: jest.fn().mockResolvedValue(0),
+    };
+
+    templateQueryBuilder = {
+      where: jest.fn().mockReturnThis(),
+      getCount: jest.fn().mockResolvedValue(0),
+    };
+
+    revisionCoverQueryBuilder = {
+      where: jest.fn().mockReturnThis(),
+      getCount: jest.fn().mockResolvedValue(0),
+    };
+
+    const mockStorageService = {
+      uploadCoverImage: jest.fn(),
+      createCoverVariants: jest.fn(),
+      deleteFile: jest.fn(),
+      deleteFiles: jest.fn(),
+      attachFiles: jest.fn(),
+      createCoverImageUpload: jest.fn(),
+      finalizeCoverImage: jest.fn(),
+      getKeyFromUrl: jest.fn((url: string) =>
+        url?.startsWith('https://bucket.s3.')
+          ? url.split('.amazonaws.com/')[1]
+          : null,
+      ),
+    };
+
+    latestRevisions = {
+      select: jest.fn().mockReturnThis(),
+      addSelect: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      groupBy: jest.fn().mockReturnThis(),
+      getRawMany: jest.fn().mockResolvedValue([]),
+    } as any;
+    revisionRepository = {
+      createQueryBuilder: jest.fn().mockReturnValue(latestRevisions),
+      create: jest.fn((revision) => revision),
+      save: jest.fn((revisions) => Promise.resolve(revisions)),
+    };
+    manager = {
+      getRepository: jest.fn((entity) =>
+        entity === ActivityRevision ? revisionRepository : mockRepository,
+      ),
+      delete: jest.fn(),
+      count: jest.fn().mockResolvedValue(0),
+      find: jest.fn().mockResolvedValue([]),
+      create: jest.fn((_entity, values) => values),
+      save: jest.fn((values) => Promise.resolve(values)),
     };
 
     module = await Test.createTestingModule({
@@ -127,15 +258,84 @@ describe('ActivityService', () => {
           useValue: mockRepository,
         },
         {
-          provide: S3Service,
-          useValue: mockS3Service,
+          provide: getRepositoryToken(EventCollaborator),
+          useValue: {
+            createQueryBuilder: jest
+              .fn()
+              .mockReturnValue(collaboratorQueryBuilder),
+            delete: jest.fn(),
+          },
+        },
+        {
+          provide: getRepositoryToken(EventTemplate),
+          useValue: {
+            createQueryBuilder: jest.fn().mockReturnValue(templateQueryBuilder),
+          },
+        },
+        {
+          provide: getRepositoryToken(ActivityRevision),
+          useValue: {
+            createQueryBuilder: jest
+              .fn()
+              .mockReturnValue(revisionCoverQueryBuilder),
+          },
+        },
+        {
+          provide: StorageService,
+          useValue: mockStorageService,
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn() },
+        },
+        {
+          provide: DataSource,
+          useValue: {
+            transaction: jest.fn((work) => work(manager)),
+          },
+        },
+        {
+          provide: TagService,
+          useValue: {
+            resolveTags: jest.fn((names: string[]) =>
+              Promise.resolve(
+                names.map((name) => ({
+                  id: `tag-${name}`,
+                  name: name.charAt(0).toUpperCase() + name.slice(1),
+                  slug: name.toLowerCase(),
+                })),
+              ),
+            ),
+          },
+        },
+        {
+          provide: VenueService,
+          useValue: {
+            resolveRoom: jest.fn(),
+            findRoomConflicts: jest.fn().mockResolvedValue([]),
+          },
+        },
+        {
+          provide: SpeakerService,
+          useValue: {
+            resolveSpeakers: jest.fn((names: string[]) =>
+              Promise.resolve(
+                names.map((name) => ({ id: `speaker-${name}`, name })),
+              ),
+            ),
+          },
         },
       ],
     }).compile();
 
     service = module.get<ActivityService>(ActivityService);
     activityRepository = module.get(getRepositoryToken(Activity));
-    s3Service = module.get(S3Service);
+    collaboratorRepository = module.get(getRepositoryToken(EventCollaborator));
+    storageService = module.get(StorageService);
+    configService = module.get(ConfigService);
+    tagService = module.get(TagService);
+    venueService = module.get(VenueService);
+    speakerService = module.get(SpeakerService);
   });
 
   afterEach(() => {
@@ -149,6 +349,22 @@ describe('ActivityService', () => {
     }
   });
 
+  const room = {
+    id: 'room-1',
+    venueId: 'venue-1',
+    roomNumber: '1234',
+    name: null,
+    venue: { id: 'venue-1', name: 'Instruction Building', code: 'IB' },
+  };
+
+  const booking = {
+    id: 'activity-other',
+    eventTitle: 'Chess Club',
+    roomId: 'room-1',
+    startDate: new Date('2024-12-31T11:00:00Z'),
+    endDate: new Date('2024-12-31T13:00:00Z'),
+  };
+
   describe('createActivity', () => {
     it('should create an activity without cover image', async () => {
       activityRepository.create.mockReturnValue(mockActivity);
@@ -169,6 +385,178 @@ describe('ActivityService', () => {
       expect(activityRepository.save).toHaveBeenCalledWith(mockActivity);
     });
 
+    it('should link the tags and store their canonical names', async () => {
+      activityRepository.create.mockReturnValue(mockActivity);
+      activityRepository.save.mockResolvedValue(mockActivity);
+
+      await service.createActivity(createActivityDto, 'user-123');
+
+      expect(tagService.resolveTags).toHaveBeenCalledWith(['tech', 'workshop']);
+      expect(activityRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tags: [
+            expect.objectContaining({ id: 'tag-tech' }),
+            expect.objectContaining({ id: 'tag-workshop' }),
+          ],
+          eventTags: ['Tech', 'Workshop'],
+        }),
+      );
+    });
+
+    it('should link the speakers to their profiles', async () => {
+      activityRepository.create.mockReturnValue(mockActivity);
+      activityRepository.save.mockResolvedValue(mockActivity);
+
+      await service.createActivity(createActivityDto, 'user-123');
+
+      expect(speakerService.resolveSpeakers).toHaveBeenCalledWith([
+        'Speaker 1',
+      ]);
+      expect(activityRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          speakerProfiles: [{ id: 'speaker-Speaker 1', name: 'Speaker 1' }],
+          eventSpeakers: ['Speaker 1'],
+        }),
+      );
+    });
+
+    it('should show the label of the picked room as the location', async () => {
+      venueService.resolveRoom.mockResolvedValue(room);
+      activityRepository.create.mockReturnValue(mockActivity);
+      activityRepository.save.mockResolvedValue(mockActivity);
+
+      await service.createActivity(
+        { ...createActivityDto, eventLocation: 'IB 1234', roomId: 'room-1' },
+        'user-123',
+      );
+
+      expect(venueService.resolveRoom).toHaveBeenCalledWith(
+        'room-1',
+        undefined,
+      );
+      expect(activityRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          roomId: 'room-1',
+          eventLocation: 'Instruction Building (IB) 1234',
+        }),
+      );
+    });
+
+    it('should keep the free-text location of events without a room', async () => {
+      activityRepository.create.mockReturnValue(mockActivity);
+      activityRepository.save.mockResolvedValue(mockActivity);
+
+      await service.createActivity(createActivityDto, 'user-123');
+
+      expect(venueService.resolveRoom).not.toHaveBeenCalled();
+      expect(activityRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          roomId: null,
+          eventLocation: createActivityDto.eventLocation,
+        }),
+      );
+    });
+
+    describe('room conflicts', () => {
+      const inRoom = { ...createActivityDto, roomId: 'room-1' };
+
+      beforeEach(() => {
+        venueService.resolveRoom.mockResolvedValue(room);
+        activityRepository.create.mockImplementation((data: any) => data);
+        activityRepository.save.mockImplementation(async (a: any) => a);
+      });
+
+      it('should look for other events in the room at the time', async () => {
+        await service.createActivity(
+          { ...inRoom, setupMinutes: '30' } as unknown as CreateActivityDto,
+          'user-123',
+        );
+
+        expect(venueService.findRoomConflicts).toHaveBeenCalledWith(
+          'room-1',
+          [
+            expect.objectContaining({
+              startDate: new Date(createActivityDto.startDate),
+              endDate: new Date(createActivityDto.endDate),
+              setupMinutes: 30,
+              teardownMinutes: 0,
+            }),
+          ],
+          [],
+        );
+        expect(activityRepository.save).toHaveBeenCalled();
+      });
+
+      it('should block creators from booking a taken room', async () => {
+        venueService.findRoomConflicts.mockResolvedValueOnce([booking]);
+
+        const error = await service
+          .createActivity(
+            { ...inRoom, overrideRoomConflicts: true },
+            'user-123',
+            undefined,
+            Role.creator,
+          )
+          .catch((e) => e);
+
+        expect(error).toBeInstanceOf(ConflictException);
+        expect(error.getResponse()).toEqual(
+          expect.objectContaining({ conflicts: [booking], canOverride: false }),
+        );
+        expect(activityRepository.save).not.toHaveBeenCalled();
+      });
+
+      it('should ask admins before booking a taken room', async () => {
+        venueService.findRoomConflicts.mockResolvedValue([booking]);
+
+        const error = await service
+          .createActivity(inRoom, 'admin-1', undefined, Role.admin)
+          .catch((e) => e);
+        expect(error).toBeInstanceOf(ConflictException);
+        expect(error.getResponse().canOverride).toBe(true);
+
+        await service.createActivity(
+          { ...inRoom, overrideRoomConflicts: true },
+          'admin-1',
+          undefined,
+          Role.admin,
+        );
+        expect(activityRepository.save).toHaveBeenCalledTimes(1);
+        venueService.findRoomConflicts.mockResolvedValue([]);
+      });
+
+      it('should check every occurrence of a series', async () => {
+        await service.createActivity(
+          {
+            ...inRoom,
+            recurrence: { frequency: RecurrenceFrequency.weekly, count: 3 },
+          },
+          'user-123',
+        );
+
+        const [roomId, bookings] = venueService.findRoomConflicts.mock.calls[0];
+        expect(roomId).toBe('room-1');
+        expect(bookings).toHaveLength(3);
+      });
+
+      it('should reject invalid setup times', async () => {
+        await expect(
+          service.createActivity({ ...inRoom, setupMinutes: -10 }, 'user-123'),
+        ).rejects.toThrow(BadRequestException);
+      });
+    });
+
+    it('should reject unknown tags', async () => {
+      tagService.resolveTags.mockRejectedValueOnce(
+        new BadRequestException('Unknown tag(s): made-up'),
+      );
+
+      await expect(
+        service.createActivity(createActivityDto, 'user-123'),
+      ).rejects.toThrow(BadRequestException);
+      expect(activityRepository.save).not.toHaveBeenCalled();
+    });
+
     it('should throw HttpException for generic errors', async () => {
       activityRepository.create.mockImplementation(() => {
         throw new Error('Database error');
@@ -198,6 +586,137 @@ describe('ActivityService', () => {
       );
     });
 
+    it('should publish immediately by default', async () => {
+      activityRepository.create.mockReturnValue(mockActivity);
+      activityRepository.save.mockResolvedValue(mockActivity);
+
+      await service.createActivity(createActivityDto, 'user-123');
+
+      expect(activityRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          publicationStatus: PublicationStatus.published,
+          approvalStatus: ApprovalStatus.approved,
+          publishAt: null,
+        }),
+      );
+    });
+
+    it('should hold events from creators for review', async () => {
+      activityRepository.create.mockReturnValue(mockActivity);
+      activityRepository.save.mockResolvedValue(mockActivity);
+
+      await service.createActivity(
+        createActivityDto,
+        'user-123',
+        undefined,
+        'creator',
+      );
+
+      expect(activityRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ approvalStatus: ApprovalStatus.pending }),
+      );
+    });
+
+    it('should approve events from admins automatically', async () => {
+      activityRepository.create.mockReturnValue(mockActivity);
+      activityRepository.save.mockResolvedValue(mockActivity);
+
+      await service.createActivity(
+        createActivityDto,
+        'user-123',
+        undefined,
+        'admin',
+      );
+
+      expect(activityRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ approvalStatus: ApprovalStatus.approved }),
+      );
+    });
+
+    it('should follow the configured review roles', async () => {
+      configService.get.mockReturnValue('');
+      activityRepository.create.mockReturnValue(mockActivity);
+      activityRepository.save.mockResolvedValue(mockActivity);
+
+      await service.createActivity(
+        createActivityDto,
+        'user-123',
+        undefined,
+        'creator',
+      );
+
+      expect(configService.get).toHaveBeenCalledWith('EVENT_REVIEW_ROLES');
+      expect(activityRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ approvalStatus: ApprovalStatus.approved }),
+      );
+    });
+
+    it('should save drafts without a publish date', async () => {
+      activityRepository.create.mockReturnValue(mockActivity);
+      activityRepository.save.mockResolvedValue(mockActivity);
+
+      await service.createActivity(
+        {
+          ...createActivityDto,
+          publicationStatus: PublicationStatus.draft,
+          publishAt: '2030-01-01T00:00:00Z',
+        },
+        'user-123',
+      );
+
+      expect(activityRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          publicationStatus: PublicationStatus.draft,
+          publishAt: null,
+        }),
+      );
+    });
+
+    it('should schedule events with a future publish date', async () => {
+      activityRepository.create.mockReturnValue(mockActivity);
+      activityRepository.save.mockResolvedValue(mockActivity);
+
+      await service.createActivity(
+        {
+          ...createActivityDto,
+          publicationStatus: PublicationStatus.scheduled,
+          publishAt: '2030-01-01T00:00:00Z',
+        },
+        'user-123',
+      );
+
+      expect(activityRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          publicationStatus: PublicationStatus.scheduled,
+          publishAt: new Date('2030-01-01T00:00:00Z'),
+        }),
+      );
+    });
+
+    it('should reject scheduling without a future publish date', async () => {
+      await expect(
+        service.createActivity(
+          {
+            ...createActivityDto,
+            publicationStatus: PublicationStatus.scheduled,
+          },
+          'user-123',
+        ),
+      ).rejects.toThrow('publishAt is required to schedule an event');
+
+      await expect(
+        service.createActivity(
+          {
+            ...createActivityDto,
+            publicationStatus: PublicationStatus.scheduled,
+            publishAt: '2020-01-01T00:00:00Z',
+          },
+          'user-123',
+        ),
+      ).rejects.toThrow('publishAt must be in the future');
+      expect(activityRepository.save).not.toHaveBeenCalled();
+    });
+
     it('should create activity with cover image file', async () => {
       const mockFile: Express.Multer.File = {
         fieldname: 'coverImage',
@@ -214,7 +733,11 @@ describe('ActivityService', () => {
 
       const uploadedImageUrl =
         'https://s3.amazonaws.com/bucket/cover-image.jpg';
-      s3Service.uploadFile.mockResolvedValue(uploadedImageUrl);
+      const variants = { source: uploadedImageUrl } as CoverPhotoVariants;
+      storageService.uploadCoverImage.mockResolvedValue({
+        url: uploadedImageUrl,
+        variants,
+      });
 
       const activityWithImage = {
         ...mockActivity,
@@ -229,21 +752,101 @@ describe('ActivityService', () => {
         mockFile,
       );
 
-      expect(s3Service.uploadFile).toHaveBeenCalledWith(
+      expect(storageService.uploadCoverImage).toHaveBeenCalledWith(
         mockFile,
         'cover-images',
-        true, // Enable resize
       );
       expect(result.eventCoverPhoto).toBe(uploadedImageUrl);
       expect(activityRepository.create).toHaveBeenCalledWith(
         expect.objectContaining({
           eventCoverPhoto: uploadedImageUrl,
+          eventCoverPhotoVariants: variants,
           createdByUserId: 'user-123',
         }),
       );
       expect(activityRepository.save).toHaveBeenCalledWith(activityWithImage);
     });
 
+    describe('uploaded cover image', () => {
+      const mockFile = {
+        originalname: 'fair.jpg',
+        mimetype: 'image/jpeg',
+        size: 2048,
+        buffer: Buffer.from('test-image-data'),
+      } as Express.Multer.File;
+      const url =
+        'https://bucket.s3.us-west-2.amazonaws.com/cover-images/1-hero.jpg';
+      const variants = {
+        source: url,
+        hero: {
+          width: 1920,
+          height: 1080,
+          jpeg: { key: 'cover-images/1-hero.jpg', url },
+          webp: { key: 'cover-images/1-hero.webp', url: '' },
+        },
+      } as CoverPhotoVariants;
+
+      beforeEach(() => {
+        storageService.uploadCoverImage.mockResolvedValue({ url, variants });
+        activityRepository.create.mockImplementation(
+          (data) => ({ ...data } as Activity),
+        );
+      });
+
+      it('should belong to the created event', async () => {
+        activityRepository.save.mockResolvedValue({
+          ...mockActivity,
+          id: 'activity-new',
+        });
+
+        await service.createActivity(createActivityDto, 'user-123', mockFile);
+
+        expect(storageService.attachFiles).toHaveBeenCalledWith(
+          ['cover-images/1-hero.jpg', 'cover-images/1-hero.webp'],
+          { type: 'activity', id: 'activity-new' },
+          expect.anything(),
+        );
+        expect(storageService.deleteFiles).not.toHaveBeenCalled();
+      });
+
+      it('should belong to the first occurrence of a series', async () => {
+        activityRepository.save.mockImplementation(async (entities: any) =>
+          entities.map((activity: Activity, index: number) => ({
+            ...activity,
+            id: `occurrence-${index}`,
+          })),
+        );
+
+        await service.createActivity(
+          {
+            ...createActivityDto,
+            recurrence: { frequency: RecurrenceFrequency.weekly, count: 3 },
+          },
+          'user-123',
+          mockFile,
+        );
+
+        expect(storageService.attachFiles).toHaveBeenCalledTimes(1);
+        expect(storageService.attachFiles.mock.calls[0][1]).toEqual({
+          type: 'activity',
+          id: 'occurrence-0',
+        });
+      });
+
+      it('should be deleted when the event is not created', async () => {
+        activityRepository.save.mockRejectedValue(new Error('Database error'));
+
+        await expect(
+          service.createActivity(createActivityDto, 'user-123', mockFile),
+        ).rejects.toThrow(HttpException);
+
+        expect(storageService.deleteFiles).toHaveBeenCalledWith([
+          'cover-images/1-hero.jpg',
+          'cover-images/1-hero.webp',
+        ]);
+      });
+    });
+
     it('should rethrow BadRequestException from S3 service', async () => {
       const mockFile: Express.Multer.File = {
         fieldname: 'coverImage',
@@ -259,7 +862,7 @@ describe('ActivityService', () => {
       };
 
       const badRequestError = new BadRequestException('Invalid file type');
-      s3Service.uploadFile.mockRejectedValue(badRequestError);
+      storageService.uploadCoverImage.mockRejectedValue(badRequestError);
 
       await expect(
         service.createActivity(createActivityDto, 'user-123', mockFile),
@@ -280,7 +883,7 @@ describe('ActivityService', () => {
         path: '',
       };
 
-      s3Service.uploadFile.mockRejectedValue(
+      storageService.uploadCoverImage.mockRejectedValue(
         new Error('S3 service unavailable'),
       );
 
@@ -295,50 +898,267 @@ describe('ActivityService', () => {
     });
   });
 
-  describe('getAllActivities', () => {
-    it('should return all activities with default params', async () => {
-      const result = await service.getAllActivities();
-
-      expect(result).toEqual([mockActivity]);
-      expect(queryBuilder.where).toHaveBeenCalledWith(
-        'activity."isHidden" = false',
+  describe('createActivities', () => {
+    beforeEach(() => {
+      activityRepository.create.mockImplementation(
+        (data) => ({ ...data } as Activity),
       );
-      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
-        'activity."isArchived" = :isArchived',
-        { isArchived: false },
+      activityRepository.save.mockImplementation(
+        async (entities: any) => entities,
       );
-      expect(queryBuilder.take).toHaveBeenCalledWith(12);
-      expect(queryBuilder.skip).toHaveBeenCalledWith(0);
     });
 
-    it('should handle custom pagination params', async () => {
-      await service.getAllActivities({
-        page: '2',
-        numberOfEventsToGet: '20',
+    it('should save every event in one transaction', async () => {
+      const dataSource = module.get(DataSource);
+
+      const result = await service.createActivities(
+        [
+          createActivityDto,
+          {
+            ...createActivityDto,
+            eventTitle: 'Second Event',
+            publicationStatus: PublicationStatus.draft,
+          },
+        ],
+        'user-123',
+        Role.admin,
+      );
+
+      expect(dataSource.transaction).toHaveBeenCalledTimes(1);
+      expect(manager.getRepository).toHaveBeenCalledWith(Activity);
+      expect(activityRepository.save).toHaveBeenCalledTimes(1);
+      expect(result).toHaveLength(2);
+      expect(result[0]).toMatchObject({
+        createdByUserId: 'user-123',
+        eventCapacity: 100,
+        eventTags: ['Tech', 'Workshop'],
+        publicationStatus: PublicationStatus.published,
+        approvalStatus: ApprovalStatus.approved,
       });
+      expect(result[1]).toMatchObject({
+        eventTitle: 'Second Event',
+        publicationStatus: PublicationStatus.draft,
+      });
+    });
 
-      expect(queryBuilder.take).toHaveBeenCalledWith(20);
-      expect(queryBuilder.skip).toHaveBeenCalledWith(20);
+    it('should save nothing when an event has unknown tags', async () => {
+      tagService.resolveTags.mockRejectedValueOnce(
+        new BadRequestException('Unknown tags: nope'),
+      );
+
+      await expect(
+        service.createActivities([createActivityDto], 'user-123'),
+      ).rejects.toThrow(BadRequestException);
+      expect(activityRepository.save).not.toHaveBeenCalled();
     });
 
-    it('should filter by archived status', async () => {
-      await service.getAllActivities({ isArchived: 'true' });
+    it('should save nothing when an event takes a booked room', async () => {
+      venueService.resolveRoom.mockResolvedValue(room);
+      venueService.findRoomConflicts.mockResolvedValueOnce([booking]);
 
-      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
-        'activity."isArchived" = :isArchived',
-        { isArchived: true },
-      );
+      await expect(
+        service.createActivities(
+          [
+            createActivityDto,
+            {
+              ...createActivityDto,
+              roomId: 'room-1',
+              overrideRoomConflicts: true,
+            },
+          ],
+          'admin-1',
+          Role.admin,
+        ),
+      ).rejects.toThrow(ConflictException);
+      const [roomId, bookings] = venueService.findRoomConflicts.mock.calls[0];
+      expect(roomId).toBe('room-1');
+      expect(bookings).toHaveLength(1);
+      expect(activityRepository.save).not.toHaveBeenCalled();
     });
+  });
 
-    it('should filter by tags when provided as array', async () => {
-      await service.getAllActivities({ tags: ['tech', 'workshop'] });
+  describe('createActivity with recurrence', () => {
+    const recurringDto: CreateActivityDto = {
+      ...createActivityDto,
+      recurrence: {
+        frequency: RecurrenceFrequency.weekly,
+        count: 4,
+        exceptionDates: ['2025-01-14'],
+      },
+    };
 
+    beforeEach(() => {
+      activityRepository.create.mockImplementation(
+        (data) => ({ ...data } as Activity),
+      );
+      activityRepository.save.mockImplementation(
+        async (entities: any) => entities,
+      );
+    });
+
+    it('should create one activity per occurrence sharing a series id', async () => {
+      const result = await service.createActivity(recurringDto, 'user-123');
+
+      const saved = activityRepository.save.mock.calls[0][0] as any[];
+      expect(saved).toHaveLength(3);
+      expect(new Set(saved.map((a) => a.seriesId)).size).toBe(1);
+      expect(saved.map((a) => a.startDate.toISOString())).toEqual([
+        '2024-12-31T10:00:00.000Z',
+        '2025-01-07T10:00:00.000Z',
+        '2025-01-21T10:00:00.000Z',
+      ]);
+      expect(saved[2].endDate.toISOString()).toBe('2025-01-21T12:00:00.000Z');
+      expect(result).toBe(saved[0]);
+      expect(result).not.toHaveProperty('recurrence');
+    });
+
+    it('should throw BadRequestException for an unbounded rule', async () => {
+      await expect(
+        service.createActivity(
+          {
+            ...createActivityDto,
+            recurrence: { frequency: RecurrenceFrequency.monthly },
+          },
+          'user-123',
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(activityRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should throw BadRequestException for an unknown frequency', async () => {
+      await expect(
+        service.createActivity(
+          {
+            ...createActivityDto,
+            recurrence: { frequency: 'daily' as RecurrenceFrequency, count: 2 },
+          },
+          'user-123',
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should keep the local time of occurrences after a daylight saving change', async () => {
+      await service.createActivity(
+        {
+          ...createActivityDto,
+          startDate: '2025-03-04T18:00:00Z',
+          endDate: '2025-03-04T20:00:00Z',
+          timeZone: 'America/New_York',
+          recurrence: { frequency: RecurrenceFrequency.weekly, count: 2 },
+        },
+        'user-123',
+      );
+
+      const saved = activityRepository.save.mock.calls[0][0] as any[];
+      // 1 PM Eastern both weeks, although the UTC offset changes on March 9
+      expect(saved.map((a) => a.startDate.toISOString())).toEqual([
+        '2025-03-04T18:00:00.000Z',
+        '2025-03-11T17:00:00.000Z',
+      ]);
+      expect(saved.every((a) => a.timeZone === 'America/New_York')).toBe(true);
+    });
+
+    it('should throw BadRequestException for an unknown time zone', async () => {
+      await expect(
+        service.createActivity(
+          { ...recurringDto, timeZone: 'Pacific Standard Time' },
+          'user-123',
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(activityRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('streamActivities', () => {
+    it('should page through the filtered list in batches', async () => {
+      const first = { ...mockActivity, id: 'a-1' };
+      const second = { ...mockActivity, id: 'a-2' };
+      const third = { ...mockActivity, id: 'a-3' };
+      queryBuilder.getMany
+        .mockResolvedValueOnce([first, second])
+        .mockResolvedValueOnce([third]);
+
+      const batches = [];
+      for await (const batch of service.streamActivities(
+        { isArchived: 'true', host: 'NSC' },
+        2,
+      )) {
+        batches.push(batch);
+      }
+
+      expect(batches).toEqual([[first, second], [third]]);
+      expect(queryBuilder.take).toHaveBeenCalledWith(2);
       expect(queryBuilder.andWhere).toHaveBeenCalledWith(
-        expect.stringContaining('activity."eventTags" ~*'),
-        expect.objectContaining({
-          tag0: expect.stringContaining('tech'),
-          tag1: expect.stringContaining('workshop'),
-        }),
+        'activity."isArchived" = :isArchived',
+        { isArchived: true },
+      );
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        '(activity."startDate", activity.id) > (:cursorStartDate, :cursorId)',
+        { cursorStartDate: second.startDate, cursorId: 'a-2' },
+      );
+    });
+
+    it('should stop after an empty first batch', async () => {
+      queryBuilder.getMany.mockResolvedValueOnce([]);
+
+      const batches = [];
+      for await (const batch of service.streamActivities()) {
+        batches.push(batch);
+      }
+
+      expect(batches).toEqual([]);
+      expect(queryBuilder.getMany).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getAllActivities', () => {
+    it('should return all activities with default params', async () => {
+      const result = await service.getAllActivities();
+
+      expect(result).toEqual({
+        data: [mockActivity],
+        page: 1,
+        pageSize: 12,
+        total: 1,
+        totalPages: 1,
+        nextCursor: null,
+      });
+      expect(queryBuilder.where).toHaveBeenCalledWith(
+        'activity."isHidden" = false',
+      );
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'activity."isArchived" = :isArchived',
+        { isArchived: false },
+      );
+      expect(queryBuilder.take).toHaveBeenCalledWith(12);
+      expect(queryBuilder.skip).toHaveBeenCalledWith(0);
+    });
+
+    it('should handle custom pagination params', async () => {
+      await service.getAllActivities({
+        page: '2',
+        numberOfEventsToGet: '20',
+      });
+
+      expect(queryBuilder.take).toHaveBeenCalledWith(20);
+      expect(queryBuilder.skip).toHaveBeenCalledWith(20);
+    });
+
+    it('should filter by archived status', async () => {
+      await service.getAllActivities({ isArchived: 'true' });
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'activity."isArchived" = :isArchived',
+        { isArchived: true },
+      );
+    });
+
+    it('should filter by tags when provided as array', async () => {
+      await service.getAllActivities({ tags: ['tech', 'workshop'] });
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        expect.stringContaining('tag.slug IN (:...tagSlugs)'),
+        { tagSlugs: ['tech', 'workshop'] },
       );
     });
 
@@ -346,15 +1166,152 @@ describe('ActivityService', () => {
       await service.getAllActivities({ tags: 'tech,workshop' });
 
       expect(queryBuilder.andWhere).toHaveBeenCalledWith(
-        expect.stringContaining('activity."eventTags" ~*'),
-        expect.any(Object),
+        expect.stringContaining('activity_tags'),
+        { tagSlugs: ['tech', 'workshop'] },
+      );
+    });
+
+    it('should match tag names by their slug', async () => {
+      await service.getAllActivities({ tags: ['Art/Creative', 'free food'] });
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        expect.stringContaining('activity_tags'),
+        { tagSlugs: ['art-creative', 'free-food'] },
       );
     });
 
     it('should handle empty tag string', async () => {
       await service.getAllActivities({ tags: '' });
 
-      expect(queryBuilder.andWhere).toHaveBeenCalledTimes(1); // Only isArchived filter
+      // Only the isArchived, publication and approval filters
+      expect(queryBuilder.andWhere).toHaveBeenCalledTimes(3);
+    });
+
+    it('should filter by venue', async () => {
+      const venueId = '6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f';
+      await service.getAllActivities({ venueId });
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        expect.stringContaining('room."venueId" = :venueId'),
+        { venueId },
+      );
+    });
+
+    it('should reject a venue filter that is not a UUID', async () => {
+      await expect(
+        service.getAllActivities({ venueId: 'library' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should filter by building code or name', async () => {
+      await service.getAllActivities({ building: ' IB ' });
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        expect.stringContaining('lower(venue.code) = lower(:building)'),
+        { building: 'IB' },
+      );
+    });
+
+    it('should filter by events that have not ended', async () => {
+      const now = new Date('2025-03-01T12:00:00Z');
+      await service.getAllActivities({ endsAfter: now });
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'activity."endDate" >= :endsAfter',
+        { endsAfter: now },
+      );
+    });
+
+    it('should only list approved events', async () => {
+      await service.getAllActivities();
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'activity."approvalStatus" = :approved',
+        { approved: ApprovalStatus.approved },
+      );
+    });
+
+    it('should only list published events', async () => {
+      await service.getAllActivities();
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'activity."publicationStatus" = :published',
+        { published: PublicationStatus.published },
+      );
+    });
+
+    it('should order by start date with the id as a tie-breaker', async () => {
+      await service.getAllActivities();
+
+      expect(queryBuilder.orderBy).toHaveBeenCalledWith(
+        'activity."startDate"',
+        'ASC',
+      );
+      expect(queryBuilder.addOrderBy).toHaveBeenCalledWith(
+        'activity.id',
+        'ASC',
+      );
+    });
+
+    it('should return a cursor when more pages follow', async () => {
+      queryBuilder.getCount.mockResolvedValue(30);
+
+      const result = await service.getAllActivities({
+        numberOfEventsToGet: '1',
+      });
+
+      expect(result.totalPages).toBe(30);
+      expect(decodeCursor(result.nextCursor)).toEqual({
+        startDate: new Date(mockActivity.startDate),
+        id: mockActivity.id,
+      });
+    });
+
+    it('should continue after the cursor row', async () => {
+      const next = { ...mockActivity, id: 'activity-456' };
+      queryBuilder.getCount.mockResolvedValue(3);
+      queryBuilder.getMany.mockResolvedValue([mockActivity, next]);
+      const cursor = encodeCursor({
+        startDate: new Date('2025-01-01T00:00:00Z'),
+        id: 'activity-000',
+      });
+
+      const result = await service.getAllActivities({
+        numberOfEventsToGet: '1',
+        cursor,
+      });
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        '(activity."startDate", activity.id) > (:cursorStartDate, :cursorId)',
+        {
+          cursorStartDate: new Date('2025-01-01T00:00:00Z'),
+          cursorId: 'activity-000',
+        },
+      );
+      // one extra row is fetched to detect the next page
+      expect(queryBuilder.take).toHaveBeenCalledWith(2);
+      expect(queryBuilder.skip).not.toHaveBeenCalled();
+      expect(result.data).toEqual([mockActivity]);
+      expect(result.page).toBeNull();
+      expect(decodeCursor(result.nextCursor).id).toBe(mockActivity.id);
+    });
+
+    it('should not return a cursor on the last page by cursor', async () => {
+      const cursor = encodeCursor({
+        startDate: new Date('2025-01-01T00:00:00Z'),
+        id: 'activity-000',
+      });
+
+      const result = await service.getAllActivities({ cursor });
+
+      expect(result.data).toEqual([mockActivity]);
+      expect(result.nextCursor).toBeNull();
+    });
+
+    it('should reject a malformed cursor', async () => {
+      await expect(
+        service.getAllActivities({ cursor: 'not-a-cursor' }),
+      ).rejects.toThrow(BadRequestException);
     });
 
     it('should throw HttpException on query builder error', async () => {
@@ -401,25 +1358,134 @@ describe('ActivityService', () => {
     });
   });
 
-  describe('getActivitiesByUserId', () => {
-    it('should return activities for a specific user', async () => {
-      activityRepository.find.mockResolvedValue([mockActivity]);
+  describe('getVisibleActivity', () => {
+    const draft = {
+      ...mockActivity,
+      publicationStatus: PublicationStatus.draft,
+    };
+
+    it('should show listed events to everyone', async () => {
+      activityRepository.findOne.mockResolvedValue(mockActivity);
+
+      await expect(service.getVisibleActivity('activity-123')).resolves.toEqual(
+        mockActivity,
+      );
+    });
+
+    it('should hide drafts and unapproved events from the public', async () => {
+      activityRepository.findOne.mockResolvedValueOnce(draft);
+      await expect(service.getVisibleActivity('activity-123')).rejects.toThrow(
+        new NotFoundException('Activity not found'),
+      );
 
+      activityRepository.findOne.mockResolvedValueOnce({
+        ...mockActivity,
+        approvalStatus: ApprovalStatus.pending,
+      });
+      await expect(
+        service.getVisibleActivity('activity-123', otherUser),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should show unlisted events to the people who can edit them', async () => {
+      activityRepository.findOne.mockResolvedValue(draft);
+
+      await expect(
+        service.getVisibleActivity('activity-123', owner),
+      ).resolves.toEqual(draft);
+
+      collaboratorQueryBuilder.getCount.mockResolvedValue(1);
+      await expect(
+        service.getVisibleActivity('activity-123', otherUser),
+      ).resolves.toEqual(draft);
+    });
+  });
+
+  describe('getSeriesOccurrences', () => {
+    const occurrences = [
+      { ...mockActivity, id: 'activity-1', seriesId: 'series-1' },
+      {
+        ...mockActivity,
+        id: 'activity-2',
+        seriesId: 'series-1',
+        publicationStatus: PublicationStatus.scheduled,
+      },
+    ];
+
+    it('should leave out occurrences that are not listed', async () => {
+      activityRepository.find.mockResolvedValue(occurrences);
+
+      await expect(
+        service.getSeriesOccurrences('series-1', otherUser),
+      ).resolves.toEqual([occurrences[0]]);
+    });
+
+    it('should return every occurrence to the people who can edit the series', async () => {
+      activityRepository.find.mockResolvedValue(occurrences);
+
+      await expect(
+        service.getSeriesOccurrences('series-1', owner),
+      ).resolves.toEqual(occurrences);
+    });
+
+    it('should throw NotFoundException when no occurrence is listed', async () => {
+      activityRepository.find.mockResolvedValue([occurrences[1]]);
+
+      await expect(service.getSeriesOccurrences('series-1')).rejects.toThrow(
+        new NotFoundException('Series not found'),
+      );
+    });
+  });
+
+  describe('getActivitiesByUserId', () => {
+    it('should return a page of activities for a specific user', async () => {
       const result = await service.getActivitiesByUserId('user-123');
 
-      expect(result).toEqual([mockActivity]);
-      expect(activityRepository.find).toHaveBeenCalledWith({
-        where: {
-          createdByUserId: 'user-123',
-          isHidden: false,
-          isArchived: false,
+      expect(result.data).toEqual([mockActivity]);
+      expect(result.total).toBe(1);
+      expect(queryBuilder.where).toHaveBeenCalledWith(
+        'activity."createdByUserId" = :userId',
+        { userId: 'user-123' },
+      );
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'activity."isHidden" = false',
+      );
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'activity."isArchived" = false',
+      );
+      expect(queryBuilder.orderBy).toHaveBeenCalledWith(
+        'activity."startDate"',
+        'ASC',
+      );
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'activity."publicationStatus" = :published',
+        { published: PublicationStatus.published },
+      );
+    });
+
+    it('should return drafts and scheduled activities when asked', async () => {
+      await service.getActivitiesByUserId('user-123', { drafts: true });
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'activity."publicationStatus" IN (:...unpublished)',
+        {
+          unpublished: [PublicationStatus.draft, PublicationStatus.scheduled],
         },
-        order: { startDate: 'ASC' },
+      );
+    });
+
+    it('should apply the requested page', async () => {
+      await service.getActivitiesByUserId('user-123', {
+        page: '3',
+        pageSize: '5',
       });
+
+      expect(queryBuilder.take).toHaveBeenCalledWith(5);
+      expect(queryBuilder.skip).toHaveBeenCalledWith(10);
     });
 
     it('should throw HttpException on error', async () => {
-      activityRepository.find.mockRejectedValue(new Error('Database error'));
+      queryBuilder.getMany.mockRejectedValue(new Error('Database error'));
 
       await expect(service.getActivitiesByUserId('user-123')).rejects.toThrow(
         new HttpException(
@@ -449,55 +1515,423 @@ describe('ActivityService', () => {
       const result = await service.updateActivity(
         'activity-123',
         updateDto as UpdateActivityDto,
-        'user-123',
+        owner,
       );
 
       expect(result).toEqual(updatedActivity);
       expect(activityRepository.save).toHaveBeenCalled();
     });
 
-    it('should convert date strings to Date objects when provided', async () => {
-      const updateWithDates: Partial<UpdateActivityDto> = {
-        createdByUser: undefined,
-        startDate: '2025-01-01T10:00:00Z',
-        endDate: '2025-01-01T12:00:00Z',
-      };
-      activityRepository.findOne.mockResolvedValue(mockActivity);
-      activityRepository.save.mockResolvedValue(mockActivity);
+    it('should relink tags, keeping the ones the event already had', async () => {
+      activityRepository.findOne.mockResolvedValue({
+        ...mockActivity,
+        eventTags: ['Retired'],
+      });
+      activityRepository.save.mockImplementation(async (a: any) => a);
 
-      await service.updateActivity(
+      const result = await service.updateActivity(
         'activity-123',
-        updateWithDates as UpdateActivityDto,
-        'user-123',
+        { eventTags: ['retired', 'club'] } as UpdateActivityDto,
+        owner,
       );
 
-      const savedActivity = activityRepository.save.mock.calls[0][0];
-      expect(savedActivity.startDate).toBeInstanceOf(Date);
-      expect(savedActivity.endDate).toBeInstanceOf(Date);
+      expect(tagService.resolveTags).toHaveBeenCalledWith(
+        ['retired', 'club'],
+        ['Retired'],
+      );
+      expect(result.eventTags).toEqual(['Retired', 'Club']);
+      expect(result.tags).toHaveLength(2);
     });
 
-    it('should throw BadRequestException when user does not own activity', async () => {
-      activityRepository.findOne.mockResolvedValue(mockActivity);
+    it('should keep a retired room the event is already in', async () => {
+      activityRepository.findOne.mockResolvedValue({
+        ...mockActivity,
+        roomId: 'room-1',
+        eventLocation: 'Instruction Building (IB) 1234',
+      });
+      activityRepository.save.mockImplementation(async (a: any) => a);
+      venueService.resolveRoom.mockResolvedValue({ ...room, name: 'Commons' });
 
-      await expect(
-        service.updateActivity(
-          'activity-123',
-          updateDto as UpdateActivityDto,
-          'other-user',
-        ),
-      ).rejects.toThrow(
-        new BadRequestException('You can only update your own activities'),
+      const result = await service.updateActivity(
+        'activity-123',
+        { eventLocation: 'Somewhere else' } as UpdateActivityDto,
+        owner,
+      );
+
+      expect(venueService.resolveRoom).toHaveBeenCalledWith('room-1', 'room-1');
+      expect(result.roomId).toBe('room-1');
+      expect(result.eventLocation).toBe(
+        'Commons, Instruction Building (IB) 1234',
       );
     });
 
-    it('should throw NotFoundException when activity not found', async () => {
-      activityRepository.findOne.mockResolvedValue(null);
+    it('should switch to a free-text location when the room is removed', async () => {
+      activityRepository.findOne.mockResolvedValue({
+        ...mockActivity,
+        roomId: 'room-1',
+        eventLocation: 'Instruction Building (IB) 1234',
+      });
+      activityRepository.save.mockImplementation(async (a: any) => a);
 
-      await expect(
-        service.updateActivity(
-          'invalid-id',
-          updateDto as UpdateActivityDto,
-          'user-123',
+      const result = await service.updateActivity(
+        'activity-123',
+        { roomId: null, eventLocation: 'Online' } as UpdateActivityDto,
+        owner,
+      );
+
+      expect(venueService.resolveRoom).not.toHaveBeenCalled();
+      expect(result.roomId).toBeNull();
+      expect(result.eventLocation).toBe('Online');
+    });
+
+    it('should leave the location alone when it is not updated', async () => {
+      activityRepository.findOne.mockResolvedValue({
+        ...mockActivity,
+        roomId: 'room-1',
+      });
+      activityRepository.save.mockImplementation(async (a: any) => a);
+
+      await service.updateActivity(
+        'activity-123',
+        updateDto as UpdateActivityDto,
+        owner,
+      );
+
+      expect(venueService.resolveRoom).not.toHaveBeenCalled();
+    });
+
+    it('should check the room when an event in it is rescheduled', async () => {
+      activityRepository.findOne.mockResolvedValue({
+        ...mockActivity,
+        roomId: 'room-1',
+      });
+      activityRepository.save.mockImplementation(async (a: any) => a);
+
+      await service.updateActivity(
+        'activity-123',
+        {
+          startDate: '2024-12-31T11:00:00Z',
+          endDate: '2024-12-31T13:00:00Z',
+        } as UpdateActivityDto,
+        owner,
+      );
+
+      expect(venueService.findRoomConflicts).toHaveBeenCalledWith(
+        'room-1',
+        [
+          expect.objectContaining({
+            startDate: new Date('2024-12-31T11:00:00Z'),
+            endDate: new Date('2024-12-31T13:00:00Z'),
+          }),
+        ],
+        ['activity-123'],
+      );
+    });
+
+    it('should block creators from moving an event into a taken room', async () => {
+      activityRepository.findOne.mockResolvedValue({ ...mockActivity });
+      venueService.resolveRoom.mockResolvedValue(room);
+      venueService.findRoomConflicts.mockResolvedValueOnce([booking]);
+
+      await expect(
+        service.updateActivity(
+          'activity-123',
+          { roomId: 'room-1' } as UpdateActivityDto,
+          owner,
+        ),
+      ).rejects.toThrow(ConflictException);
+      expect(activityRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should not check the room when the room and time are unchanged', async () => {
+      activityRepository.findOne.mockResolvedValue({
+        ...mockActivity,
+        roomId: 'room-1',
+      });
+      activityRepository.save.mockImplementation(async (a: any) => a);
+
+      await service.updateActivity(
+        'activity-123',
+        {
+          ...updateDto,
+          startDate: mockActivity.startDate.toISOString(),
+          setupMinutes: 0,
+        } as UpdateActivityDto,
+        owner,
+      );
+
+      expect(venueService.findRoomConflicts).not.toHaveBeenCalled();
+    });
+
+    it('should resubmit a rejected event for review', async () => {
+      activityRepository.findOne.mockResolvedValue({
+        ...mockActivity,
+        approvalStatus: ApprovalStatus.rejected,
+        rejectionReason: 'Missing room number',
+      });
+      activityRepository.save.mockImplementation(async (a: any) => a);
+
+      const result = await service.updateActivity(
+        'activity-123',
+        updateDto as UpdateActivityDto,
+        owner,
+      );
+
+      expect(result.approvalStatus).toBe(ApprovalStatus.pending);
+      expect(result.rejectionReason).toBeNull();
+    });
+
+    it('should not let an update change the review state', async () => {
+      activityRepository.findOne.mockResolvedValue({
+        ...mockActivity,
+        approvalStatus: ApprovalStatus.pending,
+      });
+      activityRepository.save.mockImplementation(async (a: any) => a);
+
+      const result = await service.updateActivity(
+        'activity-123',
+        {
+          ...updateDto,
+          approvalStatus: ApprovalStatus.approved,
+          rejectionReason: 'Looks good',
+          reviewedByUserId: 'admin-1',
+        } as unknown as UpdateActivityDto,
+        owner,
+      );
+
+      expect(result.approvalStatus).toBe(ApprovalStatus.pending);
+      expect(result.eventTitle).toBe('Updated Event');
+      expect(result).not.toHaveProperty('reviewedByUserId', 'admin-1');
+    });
+
+    it('should not let an editor change the owner or trash state', async () => {
+      activityRepository.findOne.mockResolvedValue({ ...mockActivity });
+      activityRepository.save.mockImplementation(async (a: any) => a);
+      collaboratorQueryBuilder.getCount.mockResolvedValue(1);
+
+      const result = await service.updateActivity(
+        'activity-123',
+        {
+          ...updateDto,
+          createdByUserId: otherUser.id,
+          deletedAt: new Date(),
+          deletedByUserId: otherUser.id,
+        } as unknown as UpdateActivityDto,
+        otherUser,
+      );
+
+      expect(result.eventTitle).toBe('Updated Event');
+      expect(result.createdByUserId).toBe(mockActivity.createdByUserId);
+      expect(result.deletedAt).toBe(mockActivity.deletedAt);
+      expect(result.deletedByUserId).toBe(mockActivity.deletedByUserId);
+    });
+
+    it.each([
+      ['hide', { isHidden: true }],
+      ['archive', { isArchived: true }],
+      ['publish', { publicationStatus: PublicationStatus.draft }],
+      ['publish', { publishAt: '2030-01-01T00:00:00Z' }],
+    ])(
+      'should not let an editor %s an event through an update',
+      async (action, change) => {
+        activityRepository.findOne.mockResolvedValue({ ...mockActivity });
+        // Editors may edit but not hide, archive or publish
+        collaboratorQueryBuilder.getCount
+          .mockResolvedValueOnce(1)
+          .mockResolvedValueOnce(0);
+
+        await expect(
+          service.updateActivity(
+            'activity-123',
+            { ...updateDto, ...change } as UpdateActivityDto,
+            otherUser,
+          ),
+        ).rejects.toThrow(
+          `You can only ${action} activities you own or help run`,
+        );
+        expect(activityRepository.save).not.toHaveBeenCalled();
+      },
+    );
+
+    describe('raising the capacity', () => {
+      let registrations: { count: jest.Mock; find: jest.Mock; save: jest.Mock };
+      const waitlisted = (id: string) => ({
+        id,
+        activityId: 'activity-123',
+        status: RegistrationStatus.waitlisted,
+      });
+
+      beforeEach(() => {
+        registrations = {
+          count: jest.fn().mockResolvedValue(2),
+          find: jest
+            .fn()
+            .mockResolvedValue([
+              waitlisted('reg-3'),
+              waitlisted('reg-4'),
+              waitlisted('reg-5'),
+            ]),
+          save: jest.fn((saved) => Promise.resolve(saved)),
+        };
+        manager.getRepository.mockImplementation((entity) =>
+          entity === EventRegistration
+            ? registrations
+            : entity === ActivityRevision
+            ? revisionRepository
+            : activityRepository,
+        );
+        activityRepository.save.mockImplementation(async (a: any) => a);
+      });
+
+      it('should register waitlisted people in the new seats', async () => {
+        activityRepository.findOne
+          .mockResolvedValueOnce({ ...mockActivity, eventCapacity: 2 })
+          .mockResolvedValueOnce({ ...mockActivity, eventCapacity: 4 });
+
+        await service.updateActivity(
+          'activity-123',
+          { eventCapacity: '4' } as unknown as UpdateActivityDto,
+          owner,
+        );
+
+        expect(activityRepository.findOne).toHaveBeenLastCalledWith({
+          where: { id: 'activity-123' },
+          lock: { mode: 'pessimistic_write' },
+        });
+        expect(registrations.find).toHaveBeenCalledWith({
+          where: {
+            activityId: 'activity-123',
+            status: RegistrationStatus.waitlisted,
+          },
+          order: { createdAt: 'ASC' },
+        });
+        expect(registrations.save).toHaveBeenCalledWith([
+          { ...waitlisted('reg-3'), status: RegistrationStatus.registered },
+          { ...waitlisted('reg-4'), status: RegistrationStatus.registered },
+        ]);
+      });
+
+      it('should register the whole waitlist when the limit is removed', async () => {
+        activityRepository.findOne
+          .mockResolvedValueOnce({ ...mockActivity, eventCapacity: 2 })
+          .mockResolvedValueOnce({ ...mockActivity, eventCapacity: null });
+
+        await service.updateActivity(
+          'activity-123',
+          { eventCapacity: 'unlimited' } as unknown as UpdateActivityDto,
+          owner,
+        );
+
+        const [promoted] = registrations.save.mock.calls[0];
+        expect(promoted).toHaveLength(3);
+      });
+
+      it('should leave the waitlist alone when the capacity is lowered', async () => {
+        activityRepository.findOne.mockResolvedValueOnce({
+          ...mockActivity,
+          eventCapacity: 2,
+        });
+
+        await service.updateActivity(
+          'activity-123',
+          { eventCapacity: '1' } as unknown as UpdateActivityDto,
+          owner,
+        );
+
+        expect(registrations.find).not.toHaveBeenCalled();
+        expect(registrations.save).not.toHaveBeenCalled();
+      });
+    });
+
+    it('should unarchive through the unarchive workflow', async () => {
+      activityRepository.findOne.mockImplementation(async () => ({
+        ...mockActivity,
+        isArchived: true,
+        autoArchivedAt: new Date('2025-01-01T00:00:00Z'),
+      }));
+      activityRepository.save.mockImplementation(async (a: any) => a);
+
+      const result = await service.updateActivity(
+        'activity-123',
+        { createdByUser: undefined, isArchived: false } as UpdateActivityDto,
+        owner,
+      );
+
+      expect(result.isArchived).toBe(false);
+      expect(result.unarchivedAt).toEqual(expect.any(Date));
+      expect(result.autoArchivedAt).toBeNull();
+      const revisions = revisionRepository.save.mock.calls.flatMap(
+        ([saved]) => saved,
+      );
+      expect(revisions).toContainEqual(
+        expect.objectContaining({
+          action: RevisionAction.unarchived,
+          actorUserId: owner.id,
+        }),
+      );
+    });
+
+    it('should reschedule when only publishAt is given', async () => {
+      activityRepository.findOne.mockResolvedValue({ ...mockActivity });
+      activityRepository.save.mockImplementation(async (a: any) => a);
+
+      const result = await service.updateActivity(
+        'activity-123',
+        {
+          createdByUser: undefined,
+          publishAt: '2030-01-01T00:00:00Z',
+        } as UpdateActivityDto,
+        owner,
+      );
+
+      expect(result.publicationStatus).toBe(PublicationStatus.scheduled);
+      expect(result.publishAt).toEqual(new Date('2030-01-01T00:00:00Z'));
+    });
+
+    it('should convert date strings to Date objects when provided', async () => {
+      const updateWithDates: Partial<UpdateActivityDto> = {
+        createdByUser: undefined,
+        startDate: '2025-01-01T10:00:00Z',
+        endDate: '2025-01-01T12:00:00Z',
+      };
+      activityRepository.findOne.mockResolvedValue(mockActivity);
+      activityRepository.save.mockResolvedValue(mockActivity);
+
+      await service.updateActivity(
+        'activity-123',
+        updateWithDates as UpdateActivityDto,
+        owner,
+      );
+
+      const savedActivity = activityRepository.save.mock.calls[0][0];
+      expect(savedActivity.startDate).toBeInstanceOf(Date);
+      expect(savedActivity.endDate).toBeInstanceOf(Date);
+    });
+
+    it('should throw BadRequestException when user does not own activity', async () => {
+      activityRepository.findOne.mockResolvedValue(mockActivity);
+
+      await expect(
+        service.updateActivity(
+          'activity-123',
+          updateDto as UpdateActivityDto,
+          otherUser,
+        ),
+      ).rejects.toThrow(
+        new BadRequestException(
+          'You can only update activities you own or help run',
+        ),
+      );
+    });
+
+    it('should throw NotFoundException when activity not found', async () => {
+      activityRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.updateActivity(
+          'invalid-id',
+          updateDto as UpdateActivityDto,
+          owner,
         ),
       ).rejects.toThrow(NotFoundException);
     });
@@ -510,7 +1944,7 @@ describe('ActivityService', () => {
         service.updateActivity(
           'activity-123',
           updateDto as UpdateActivityDto,
-          'user-123',
+          owner,
         ),
       ).rejects.toThrow(
         new HttpException(
@@ -521,45 +1955,886 @@ describe('ActivityService', () => {
     });
   });
 
+  describe('updateActivity with recurrence scope', () => {
+    const occurrence = (id: string, start: string): Activity => ({
+      ...mockActivity,
+      id,
+      seriesId: 'series-1',
+      startDate: new Date(`${start}T10:00:00Z`),
+      endDate: new Date(`${start}T12:00:00Z`),
+      recurrenceRule: { frequency: RecurrenceFrequency.weekly, count: 3 },
+    });
+
+    beforeEach(() => {
+      activityRepository.save.mockImplementation(
+        async (entities: any) => entities,
+      );
+    });
+
+    it('should only update the occurrence by default', async () => {
+      const first = occurrence('occ-1', '2025-01-07');
+      activityRepository.findOne.mockResolvedValue(first);
+
+      await service.updateActivity(
+        'occ-1',
+        { eventTitle: 'Renamed' } as UpdateActivityDto,
+        owner,
+      );
+
+      expect(activityRepository.find).not.toHaveBeenCalled();
+      expect(activityRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'occ-1', eventTitle: 'Renamed' }),
+      );
+    });
+
+    it('should shift every occurrence when rescheduling the whole series', async () => {
+      const series = [
+        occurrence('occ-1', '2025-01-07'),
+        occurrence('occ-2', '2025-01-14'),
+      ];
+      activityRepository.findOne.mockResolvedValue({ ...series[1] });
+      activityRepository.find.mockResolvedValue(series);
+
+      const result = await service.updateActivity(
+        'occ-2',
+        {
+          eventTitle: 'Renamed',
+          startDate: '2025-01-14T11:00:00Z',
+          endDate: '2025-01-14T13:00:00Z',
+        } as UpdateActivityDto,
+        owner,
+        RecurrenceScope.series,
+      );
+
+      expect(series.map((a) => a.startDate.toISOString())).toEqual([
+        '2025-01-07T11:00:00.000Z',
+        '2025-01-14T11:00:00.000Z',
+      ]);
+      expect(series.every((a) => a.eventTitle === 'Renamed')).toBe(true);
+      expect(result.id).toBe('occ-2');
+    });
+
+    it('should keep the local time of occurrences after a daylight saving change', async () => {
+      // 10 AM Pacific on both sides of March 9
+      const series = [
+        {
+          ...occurrence('occ-1', '2025-03-04'),
+          startDate: new Date('2025-03-04T18:00:00Z'),
+          endDate: new Date('2025-03-04T20:00:00Z'),
+        },
+        {
+          ...occurrence('occ-2', '2025-03-11'),
+          startDate: new Date('2025-03-11T17:00:00Z'),
+          endDate: new Date('2025-03-11T19:00:00Z'),
+        },
+      ];
+      activityRepository.findOne.mockResolvedValue({ ...series[0] });
+      activityRepository.find.mockResolvedValue(series);
+
+      await service.updateActivity(
+        'occ-1',
+        {
+          startDate: '2025-03-04T19:00:00Z',
+          endDate: '2025-03-04T21:00:00Z',
+        } as UpdateActivityDto,
+        owner,
+        RecurrenceScope.series,
+      );
+
+      expect(series.map((a) => a.startDate.toISOString())).toEqual([
+        '2025-03-04T19:00:00.000Z',
+        '2025-03-11T18:00:00.000Z',
+      ]);
+      expect(series[1].endDate.toISOString()).toBe('2025-03-11T20:00:00.000Z');
+    });
+
+    it('should check the room for every rescheduled occurrence', async () => {
+      const series = [
+        { ...occurrence('occ-1', '2025-01-07'), roomId: 'room-1' },
+        { ...occurrence('occ-2', '2025-01-14'), roomId: 'room-1' },
+      ];
+      activityRepository.findOne.mockResolvedValue({ ...series[0] });
+      activityRepository.find.mockResolvedValue(series);
+      venueService.findRoomConflicts.mockResolvedValueOnce([booking]);
+
+      await expect(
+        service.updateActivity(
+          'occ-1',
+          { teardownMinutes: 60 } as UpdateActivityDto,
+          owner,
+          RecurrenceScope.series,
+        ),
+      ).rejects.toThrow(ConflictException);
+
+      const [roomId, bookings, excludeIds] =
+        venueService.findRoomConflicts.mock.calls[0];
+      expect(roomId).toBe('room-1');
+      expect(bookings).toEqual([
+        expect.objectContaining({ id: 'occ-1', teardownMinutes: 60 }),
+        expect.objectContaining({ id: 'occ-2', teardownMinutes: 60 }),
+      ]);
+      expect(excludeIds).toEqual(['occ-1', 'occ-2']);
+      expect(activityRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should split the series when updating this and following occurrences', async () => {
+      const earlier = occurrence('occ-1', '2025-01-07');
+      const following = [
+        occurrence('occ-2', '2025-01-14'),
+        occurrence('occ-3', '2025-01-21'),
+      ];
+      activityRepository.findOne.mockResolvedValue({ ...following[0] });
+      activityRepository.find
+        .mockResolvedValueOnce(following)
+        .mockResolvedValueOnce([earlier]);
+
+      await service.updateActivity(
+        'occ-2',
+        { eventLocation: 'Room 2' } as UpdateActivityDto,
+        owner,
+        RecurrenceScope.following,
+      );
+
+      expect(earlier.recurrenceRule.until).toBe('2025-01-14T09:59:59.999Z');
+      expect(earlier.seriesId).toBe('series-1');
+      expect(following[0].seriesId).not.toBe('series-1');
+      expect(following[1].seriesId).toBe(following[0].seriesId);
+      expect(following.every((a) => a.eventLocation === 'Room 2')).toBe(true);
+    });
+
+    it('should keep series collaborators on both parts of a split series', async () => {
+      const earlier = occurrence('occ-1', '2025-01-07');
+      const following = [
+        occurrence('occ-2', '2025-01-14'),
+        occurrence('occ-3', '2025-01-21'),
+      ];
+      activityRepository.findOne.mockResolvedValue({ ...following[0] });
+      activityRepository.find
+        .mockResolvedValueOnce(following)
+        .mockResolvedValueOnce([earlier]);
+      const invitedEarlier = {
+        id: 'collaborator-1',
+        activityId: 'occ-1',
+        seriesId: 'series-1',
+        userId: 'editor-1',
+        role: CollaboratorRole.editor,
+        status: CollaboratorStatus.accepted,
+        invitedByUserId: owner.id,
+      };
+      const invitedLater = {
+        ...invitedEarlier,
+        id: 'collaborator-2',
+        activityId: 'occ-3',
+        userId: 'co-host-1',
+        role: CollaboratorRole.coHost,
+      };
+      manager.find.mockResolvedValue([invitedEarlier, invitedLater]);
+
+      await service.updateActivity(
+        'occ-2',
+        { eventLocation: 'Room 2' } as UpdateActivityDto,
+        owner,
+        RecurrenceScope.following,
+      );
+
+      const newSeriesId = following[0].seriesId;
+      expect(manager.find).toHaveBeenCalledWith(EventCollaborator, {
+        where: { seriesId: 'series-1' },
+      });
+      expect(manager.save).toHaveBeenCalledWith([
+        expect.objectContaining({
+          activityId: 'occ-2',
+          seriesId: newSeriesId,
+          userId: 'editor-1',
+          role: CollaboratorRole.editor,
+          status: CollaboratorStatus.accepted,
+        }),
+        { ...invitedLater, seriesId: newSeriesId },
+        expect.objectContaining({
+          activityId: 'occ-1',
+          seriesId: 'series-1',
+          userId: 'co-host-1',
+          role: CollaboratorRole.coHost,
+        }),
+      ]);
+      expect(invitedEarlier.seriesId).toBe('series-1');
+    });
+
+    it('should leave collaborators alone when the series is not split', async () => {
+      const series = [
+        occurrence('occ-1', '2025-01-07'),
+        occurrence('occ-2', '2025-01-14'),
+      ];
+      activityRepository.findOne.mockResolvedValue({ ...series[0] });
+      activityRepository.find
+        .mockResolvedValueOnce(series)
+        .mockResolvedValueOnce([]);
+
+      await service.updateActivity(
+        'occ-1',
+        { eventLocation: 'Room 2' } as UpdateActivityDto,
+        owner,
+        RecurrenceScope.following,
+      );
+
+      expect(series[0].seriesId).toBe('series-1');
+      expect(manager.save).not.toHaveBeenCalled();
+    });
+
+    it('should throw BadRequestException for an unknown scope', async () => {
+      await expect(
+        service.updateActivity(
+          'occ-1',
+          {} as UpdateActivityDto,
+          owner,
+          'everything' as RecurrenceScope,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
   describe('deleteActivity', () => {
-    it('should delete activity successfully', async () => {
+    it('should move the activity to the trash', async () => {
+      activityRepository.findOne.mockResolvedValue(mockActivity);
+
+      await service.deleteActivity('activity-123', owner);
+
+      expect(activityRepository.update).toHaveBeenCalledWith(
+        { id: In(['activity-123']) },
+        { deletedAt: expect.any(Date), deletedByUserId: owner.id },
+      );
+      expect(activityRepository.remove).not.toHaveBeenCalled();
+      expect(collaboratorRepository.delete).not.toHaveBeenCalled();
+    });
+
+    it('should let a co-host delete the activity', async () => {
+      activityRepository.findOne.mockResolvedValue(mockActivity);
+      collaboratorQueryBuilder.getCount.mockResolvedValue(1);
+
+      await service.deleteActivity('activity-123', otherUser);
+
+      expect(activityRepository.update).toHaveBeenCalledWith(
+        { id: In(['activity-123']) },
+        { deletedAt: expect.any(Date), deletedByUserId: otherUser.id },
+      );
+    });
+
+    it('should throw BadRequestException when user does not own activity', async () => {
+      activityRepository.findOne.mockResolvedValue(mockActivity);
+
+      await expect(
+        service.deleteActivity('activity-123', otherUser),
+      ).rejects.toThrow(
+        new BadRequestException(
+          'You can only delete activities you own or help run',
+        ),
+      );
+    });
+
+    it('should throw NotFoundException when activity not found', async () => {
+      activityRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.deleteActivity('invalid-id', owner)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('should throw HttpException for generic errors', async () => {
       activityRepository.findOne.mockResolvedValue(mockActivity);
-      activityRepository.remove.mockResolvedValue(mockActivity);
+      activityRepository.update.mockRejectedValue(new Error('Database error'));
+
+      await expect(
+        service.deleteActivity('activity-123', owner),
+      ).rejects.toThrow(
+        new HttpException(
+          'Error deleting activity',
+          HttpStatus.INTERNAL_SERVER_ERROR,
+        ),
+      );
+    });
+  });
+
+  describe('deleteActivity with recurrence scope', () => {
+    const occurrence = (id: string, start: string): Activity => ({
+      ...mockActivity,
+      id,
+      seriesId: 'series-1',
+      startDate: new Date(`${start}T10:00:00Z`),
+      endDate: new Date(`${start}T12:00:00Z`),
+      recurrenceRule: { frequency: RecurrenceFrequency.weekly, count: 3 },
+    });
+
+    it('should record a deleted occurrence as an exception date', async () => {
+      const target = occurrence('occ-2', '2025-01-14');
+      const remaining = [
+        occurrence('occ-1', '2025-01-07'),
+        occurrence('occ-3', '2025-01-21'),
+      ];
+      activityRepository.findOne.mockResolvedValue(target);
+      activityRepository.find.mockResolvedValue(remaining);
+
+      await service.deleteActivity('occ-2', owner);
+
+      expect(activityRepository.update).toHaveBeenCalledWith(
+        { id: In(['occ-2']) },
+        expect.objectContaining({ deletedByUserId: owner.id }),
+      );
+      expect(remaining[0].recurrenceRule.exceptionDates).toEqual([
+        '2025-01-14T10:00:00.000Z',
+      ]);
+      expect(activityRepository.save).toHaveBeenCalledWith(remaining);
+    });
+
+    it('should trash every occurrence when deleting the whole series', async () => {
+      const series = [
+        occurrence('occ-1', '2025-01-07'),
+        occurrence('occ-2', '2025-01-14'),
+      ];
+      activityRepository.findOne.mockResolvedValue(series[0]);
+      activityRepository.find.mockResolvedValue(series);
+
+      await service.deleteActivity('occ-1', owner, RecurrenceScope.series);
+
+      expect(activityRepository.update).toHaveBeenCalledWith(
+        { id: In(['occ-1', 'occ-2']) },
+        expect.objectContaining({ deletedByUserId: owner.id }),
+      );
+      expect(collaboratorRepository.delete).not.toHaveBeenCalled();
+    });
+
+    it('should trash following occurrences and end the earlier ones', async () => {
+      const earlier = occurrence('occ-1', '2025-01-07');
+      const following = [
+        occurrence('occ-2', '2025-01-14'),
+        occurrence('occ-3', '2025-01-21'),
+      ];
+      activityRepository.findOne.mockResolvedValue(following[0]);
+      activityRepository.find
+        .mockResolvedValueOnce(following)
+        .mockResolvedValueOnce([earlier]);
+
+      await service.deleteActivity('occ-2', owner, RecurrenceScope.following);
+
+      expect(activityRepository.update).toHaveBeenCalledWith(
+        { id: In(['occ-2', 'occ-3']) },
+        expect.objectContaining({ deletedByUserId: owner.id }),
+      );
+      expect(earlier.recurrenceRule.until).toBe('2025-01-14T09:59:59.999Z');
+      expect(earlier.recurrenceRule.count).toBeUndefined();
+    });
+  });
+
+  describe('restoreActivity', () => {
+    const deletedAt = new Date('2025-01-10T08:00:00Z');
+    const occurrence = (
+      id: string,
+      start: string,
+      extra: Partial<Activity> = {},
+    ): Activity => ({
+      ...mockActivity,
+      id,
+      seriesId: 'series-1',
+      startDate: new Date(`${start}T10:00:00Z`),
+      endDate: new Date(`${start}T12:00:00Z`),
+      recurrenceRule: { frequency: RecurrenceFrequency.weekly, count: 3 },
+      ...extra,
+    });
+
+    it('should take the activity out of the trash', async () => {
+      activityRepository.findOne.mockResolvedValue({
+        ...mockActivity,
+        deletedAt,
+        deletedByUserId: owner.id,
+      });
+
+      const result = await service.restoreActivity('activity-123', owner);
+
+      expect(activityRepository.findOne).toHaveBeenCalledWith({
+        where: { id: 'activity-123' },
+        withDeleted: true,
+      });
+      expect(activityRepository.update).toHaveBeenCalledWith(
+        { id: In(['activity-123']) },
+        { deletedAt: null, deletedByUserId: null },
+      );
+      expect(result.deletedAt).toBeNull();
+    });
+
+    it('should throw NotFoundException for an activity that is not deleted', async () => {
+      activityRepository.findOne.mockResolvedValue(mockActivity);
+
+      await expect(
+        service.restoreActivity('activity-123', owner),
+      ).rejects.toThrow(NotFoundException);
+      expect(activityRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should only let people who can delete the activity restore it', async () => {
+      activityRepository.findOne.mockResolvedValue({
+        ...mockActivity,
+        deletedAt,
+      });
+
+      await expect(
+        service.restoreActivity('activity-123', otherUser),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should restore a deleted occurrence and drop its exception date', async () => {
+      const target = occurrence('occ-2', '2025-01-14', { deletedAt });
+      const sibling = occurrence('occ-1', '2025-01-07', {
+        recurrenceRule: {
+          frequency: RecurrenceFrequency.weekly,
+          count: 3,
+          exceptionDates: ['2025-01-14T10:00:00.000Z'],
+        },
+      });
+      activityRepository.findOne.mockResolvedValue(target);
+      activityRepository.find
+        .mockResolvedValueOnce([target])
+        .mockResolvedValueOnce([sibling]);
+
+      await service.restoreActivity('occ-2', owner);
+
+      expect(activityRepository.find).toHaveBeenNthCalledWith(1, {
+        where: { seriesId: 'series-1', deletedAt: expect.anything() },
+        withDeleted: true,
+      });
+      expect(sibling.recurrenceRule.exceptionDates).toEqual([]);
+      expect(activityRepository.save).toHaveBeenCalledWith([sibling]);
+    });
+
+    it('should put back the end of a series cut short by the deletion', async () => {
+      const following = [
+        occurrence('occ-2', '2025-01-14', { deletedAt }),
+        occurrence('occ-3', '2025-01-21', { deletedAt }),
+      ];
+      const earlier = occurrence('occ-1', '2025-01-07', {
+        recurrenceRule: {
+          frequency: RecurrenceFrequency.weekly,
+          until: '2025-01-14T09:59:59.999Z',
+        },
+      });
+      activityRepository.findOne.mockResolvedValue(following[0]);
+      activityRepository.find
+        .mockResolvedValueOnce(following)
+        .mockResolvedValueOnce([earlier]);
+
+      await service.restoreActivity('occ-2', owner);
+
+      expect(activityRepository.update).toHaveBeenCalledWith(
+        { id: In(['occ-2', 'occ-3']) },
+        { deletedAt: null, deletedByUserId: null },
+      );
+      expect(earlier.recurrenceRule.until).toBeUndefined();
+      expect(earlier.recurrenceRule.count).toBe(3);
+    });
+  });
+
+  describe('getTrashedActivities', () => {
+    beforeEach(() => {
+      (queryBuilder as any).withDeleted = jest.fn().mockReturnThis();
+    });
+
+    it('should list every deleted activity for admins', async () => {
+      const result = await service.getTrashedActivities({
+        id: 'admin-1',
+        role: Role.admin,
+      });
+
+      expect((queryBuilder as any).withDeleted).toHaveBeenCalled();
+      expect(queryBuilder.where).toHaveBeenCalledWith(
+        'activity."deletedAt" IS NOT NULL',
+      );
+      expect(queryBuilder.andWhere).not.toHaveBeenCalled();
+      expect(result.data).toEqual([mockActivity]);
+    });
+
+    it('should only list their own deleted activities for creators', async () => {
+      await service.getTrashedActivities(owner);
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'activity."createdByUserId" = :userId',
+        { userId: owner.id },
+      );
+    });
+  });
 
-      await service.deleteActivity('activity-123', 'user-123');
+  describe('purgeExpiredActivities', () => {
+    const now = new Date('2025-03-31T12:00:00Z');
+    const coverPhoto = 'https://bucket.s3.us-west-2.amazonaws.com/covers/a.jpg';
 
-      expect(activityRepository.remove).toHaveBeenCalledWith(mockActivity);
+    it('should do nothing when no deleted activity has expired', async () => {
+      activityRepository.find.mockResolvedValue([]);
+
+      await expect(service.purgeExpiredActivities(now)).resolves.toBe(0);
+      expect(manager.delete).not.toHaveBeenCalled();
+    });
+
+    it('should look for activities deleted before the retention period', async () => {
+      configService.get.mockReturnValue('7');
+      activityRepository.find.mockResolvedValue([]);
+
+      await service.purgeExpiredActivities(now);
+
+      expect(activityRepository.find).toHaveBeenCalledWith({
+        where: {
+          deletedAt: LessThan(new Date('2025-03-24T12:00:00Z')),
+        },
+        withDeleted: true,
+      });
+    });
+
+    it('should delete expired activities with their related rows and cover image', async () => {
+      activityRepository.find.mockResolvedValue([
+        { ...mockActivity, eventCoverPhoto: coverPhoto },
+      ]);
+      activityRepository.count = jest.fn().mockResolvedValue(0);
+
+      await expect(service.purgeExpiredActivities(now)).resolves.toBe(1);
+
+      const ids = In(['activity-123']);
+      expect(manager.delete).toHaveBeenCalledWith(EventRegistration, {
+        activityId: ids,
+      });
+      expect(manager.delete).toHaveBeenCalledWith(ActivityRevision, {
+        activityId: ids,
+      });
+      expect(manager.delete).toHaveBeenCalledWith(EventCollaborator, {
+        activityId: ids,
+      });
+      expect(manager.delete).toHaveBeenCalledWith(EventSession, {
+        activityId: ids,
+      });
+      expect(manager.delete).toHaveBeenCalledWith(Activity, { id: ids });
+      expect(storageService.deleteFile).toHaveBeenCalledWith('covers/a.jpg');
+    });
+
+    it('should delete the variants of unused cover images', async () => {
+      const variantKeys = (base: string) => ({
+        width: 320,
+        height: 180,
+        jpeg: { key: `${base}.jpg`, url: '' },
+        webp: { key: `${base}.webp`, url: '' },
+      });
+      activityRepository.find.mockResolvedValue([
+        {
+          ...mockActivity,
+          eventCoverPhoto: coverPhoto,
+          eventCoverPhotoVariants: {
+            source: coverPhoto,
+            thumbnail: variantKeys('covers/a-thumbnail'),
+            card: variantKeys('covers/a-card'),
+            hero: variantKeys('covers/a-hero'),
+          },
+        },
+      ]);
+      activityRepository.count = jest.fn().mockResolvedValue(0);
+
+      await service.purgeExpiredActivities(now);
+
+      expect(storageService.deleteFile.mock.calls.map(([key]) => key)).toEqual([
+        'covers/a.jpg',
+        'covers/a-thumbnail.jpg',
+        'covers/a-thumbnail.webp',
+        'covers/a-card.jpg',
+        'covers/a-card.webp',
+        'covers/a-hero.jpg',
+        'covers/a-hero.webp',
+      ]);
+    });
+
+    it('should delete attachments of expired activities with their files', async () => {
+      activityRepository.find.mockResolvedValue([mockActivity]);
+      manager.find.mockResolvedValue([
+        {
+          id: 'attachment-1',
+          url: 'https://bucket.s3.us-west-2.amazonaws.com/event-documents/agenda.pdf',
+        },
+      ]);
+
+      await service.purgeExpiredActivities(now);
+
+      const ids = In(['activity-123']);
+      expect(manager.find).toHaveBeenCalledWith(EventAttachment, {
+        where: { activityId: ids },
+      });
+      expect(manager.delete).toHaveBeenCalledWith(EventAttachment, {
+        activityId: ids,
+      });
+      expect(storageService.deleteFile).toHaveBeenCalledWith(
+        'event-documents/agenda.pdf',
+      );
+    });
+
+    it('should keep series collaborators and shared cover images while occurrences remain', async () => {
+      activityRepository.find.mockResolvedValue([
+        { ...mockActivity, seriesId: 'series-1', eventCoverPhoto: coverPhoto },
+      ]);
+      manager.count.mockResolvedValue(2);
+      activityRepository.count = jest.fn().mockResolvedValue(2);
+
+      await service.purgeExpiredActivities(now);
+
+      expect(manager.delete).not.toHaveBeenCalledWith(
+        EventCollaborator,
+        expect.anything(),
+      );
+      expect(storageService.deleteFile).not.toHaveBeenCalled();
+    });
+
+    it('should keep cover images a template still uses', async () => {
+      activityRepository.find.mockResolvedValue([
+        { ...mockActivity, eventCoverPhoto: coverPhoto },
+      ]);
+      activityRepository.count = jest.fn().mockResolvedValue(0);
+      templateQueryBuilder.getCount.mockResolvedValue(1);
+
+      await service.purgeExpiredActivities(now);
+
+      expect(templateQueryBuilder.where).toHaveBeenCalledWith(
+        `template.fields ->> 'eventCoverPhoto' = :url`,
+        { url: coverPhoto },
+      );
+      expect(storageService.deleteFile).not.toHaveBeenCalled();
+    });
+
+    it('should keep cover photos an older revision can restore, but not their variants', async () => {
+      const variantKeys = (base: string) => ({
+        width: 320,
+        height: 180,
+        jpeg: { key: `${base}.jpg`, url: '' },
+        webp: { key: `${base}.webp`, url: '' },
+      });
+      activityRepository.find.mockResolvedValue([
+        {
+          ...mockActivity,
+          eventCoverPhoto: coverPhoto,
+          eventCoverPhotoVariants: {
+            source: coverPhoto,
+            thumbnail: variantKeys('covers/a-thumbnail'),
+            card: variantKeys('covers/a-card'),
+            hero: variantKeys('covers/a-hero'),
+          },
+        },
+      ]);
+      activityRepository.count = jest.fn().mockResolvedValue(0);
+      revisionCoverQueryBuilder.getCount.mockResolvedValue(1);
+
+      await service.purgeExpiredActivities(now);
+
+      expect(revisionCoverQueryBuilder.where).toHaveBeenCalledWith(
+        `revision.snapshot ->> 'eventCoverPhoto' = :url`,
+        { url: coverPhoto },
+      );
+      expect(storageService.deleteFile).not.toHaveBeenCalledWith(
+        'covers/a.jpg',
+      );
+      expect(storageService.deleteFile).toHaveBeenCalledWith(
+        'covers/a-card.webp',
+      );
+    });
+  });
+
+  describe('cloneActivity', () => {
+    const now = new Date('2025-03-10T12:00:00Z');
+    const source = {
+      ...mockActivity,
+      startDate: new Date('2025-03-04T18:00:00Z'),
+      endDate: new Date('2025-03-04T20:00:00Z'),
+      eventTags: ['tech'],
+      attendanceCount: 12,
+      isArchived: true,
+      seriesId: 'series-1',
+    };
+
+    beforeEach(() => {
+      activityRepository.findOne.mockResolvedValue(source);
+      activityRepository.create.mockImplementation((data) => data as Activity);
+      activityRepository.save.mockImplementation(async (a: any) => a);
+    });
+
+    it('should copy the event into a draft on the same weekday next week', async () => {
+      const clone = await service.cloneActivity(
+        'activity-123',
+        {},
+        'admin-9',
+        Role.admin,
+        now,
+      );
+
+      expect(clone).toEqual(
+        expect.objectContaining({
+          eventTitle: 'Test Event',
+          eventHost: 'Test Host',
+          eventCoverPhoto: 'https://example.com/image.jpg',
+          // 10 AM Pacific, on the other side of the daylight saving change
+          startDate: new Date('2025-03-11T17:00:00Z'),
+          endDate: new Date('2025-03-11T19:00:00Z'),
+          eventTags: ['Tech'],
+          createdByUserId: 'admin-9',
+          publicationStatus: PublicationStatus.draft,
+          publishAt: null,
+          approvalStatus: ApprovalStatus.approved,
+        }),
+      );
+      expect(clone.id).toBeUndefined();
+      expect(clone.seriesId).toBeUndefined();
+      expect(clone.isArchived).toBeUndefined();
+      expect(clone.attendanceCount).toBeUndefined();
+      expect(tagService.resolveTags).toHaveBeenCalledWith(['tech'], ['tech']);
+    });
+
+    it('should share the cover photo variants with the copy', async () => {
+      const variants = {
+        source: 'https://example.com/image.jpg',
+      } as CoverPhotoVariants;
+      activityRepository.findOne.mockResolvedValue({
+        ...source,
+        eventCoverPhotoVariants: variants,
+      });
+
+      const clone = await service.cloneActivity(
+        'activity-123',
+        {},
+        'admin-9',
+        Role.admin,
+        now,
+      );
+
+      expect(clone.eventCoverPhotoVariants).toBe(variants);
+    });
+
+    it('should start the copy at the requested date and keep the duration', async () => {
+      const clone = await service.cloneActivity(
+        'activity-123',
+        { startDate: '2025-04-01T16:00:00Z' },
+        'creator-9',
+        Role.creator,
+        now,
+      );
+
+      expect(clone.startDate).toEqual(new Date('2025-04-01T16:00:00Z'));
+      expect(clone.endDate).toEqual(new Date('2025-04-01T18:00:00Z'));
+    });
+
+    it('should not copy an event into a room booked at the new time', async () => {
+      activityRepository.findOne.mockResolvedValue({
+        ...source,
+        roomId: 'room-1',
+      });
+      venueService.findRoomConflicts.mockResolvedValue([booking]);
+
+      await expect(
+        service.cloneActivity(
+          'activity-123',
+          { overrideRoomConflicts: true },
+          'creator-9',
+          Role.creator,
+          now,
+        ),
+      ).rejects.toThrow(ConflictException);
+      expect(venueService.findRoomConflicts).toHaveBeenCalledWith(
+        'room-1',
+        [
+          expect.objectContaining({
+            startDate: new Date('2025-03-11T17:00:00Z'),
+          }),
+        ],
+        [],
+      );
+      expect(activityRepository.save).not.toHaveBeenCalled();
+
+      await service.cloneActivity(
+        'activity-123',
+        { overrideRoomConflicts: true },
+        'admin-1',
+        Role.admin,
+        now,
+      );
+      expect(activityRepository.save).toHaveBeenCalledTimes(1);
+      venueService.findRoomConflicts.mockResolvedValue([]);
+    });
+
+    it('should send copies from reviewed roles to the moderation queue', async () => {
+      const clone = await service.cloneActivity(
+        'activity-123',
+        {},
+        'creator-9',
+        Role.creator,
+        now,
+      );
+
+      expect(clone.approvalStatus).toBe(ApprovalStatus.pending);
+    });
+
+    it('should throw NotFoundException when the event does not exist', async () => {
+      activityRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.cloneActivity('missing', {}, 'creator-9', Role.creator, now),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('hasEventPermission', () => {
+    it('should allow admins without checking collaborators', async () => {
+      const result = await service.hasEventPermission(
+        mockActivity,
+        { id: 'admin-1', role: Role.admin },
+        EventPermission.delete,
+      );
+
+      expect(result).toBe(true);
+      expect(collaboratorRepository.createQueryBuilder).not.toHaveBeenCalled();
+    });
+
+    it('should allow the owner while they hold the creator role', async () => {
+      await expect(
+        service.hasEventPermission(mockActivity, owner, EventPermission.edit),
+      ).resolves.toBe(true);
     });
 
-    it('should throw BadRequestException when user does not own activity', async () => {
-      activityRepository.findOne.mockResolvedValue(mockActivity);
-
+    it('should not treat a demoted owner as the owner', async () => {
       await expect(
-        service.deleteActivity('activity-123', 'other-user'),
-      ).rejects.toThrow(
-        new BadRequestException('You can only delete your own activities'),
-      );
+        service.hasEventPermission(
+          mockActivity,
+          { id: 'user-123', role: Role.user },
+          EventPermission.edit,
+        ),
+      ).resolves.toBe(false);
     });
 
-    it('should throw NotFoundException when activity not found', async () => {
-      activityRepository.findOne.mockResolvedValue(null);
+    it('should look for an accepted collaborator whose role allows it', async () => {
+      collaboratorQueryBuilder.getCount.mockResolvedValue(1);
 
-      await expect(
-        service.deleteActivity('invalid-id', 'user-123'),
-      ).rejects.toThrow(NotFoundException);
+      const result = await service.hasEventPermission(
+        mockActivity,
+        otherUser,
+        EventPermission.delete,
+      );
+
+      expect(result).toBe(true);
+      expect(collaboratorQueryBuilder.andWhere).toHaveBeenCalledWith(
+        'collaborator.role IN (:...roles)',
+        { roles: ['co-host'] },
+      );
+      expect(collaboratorQueryBuilder.andWhere).toHaveBeenCalledWith(
+        'collaborator."activityId" = :id',
+        { id: 'activity-123' },
+      );
     });
 
-    it('should throw HttpException for generic errors', async () => {
-      activityRepository.findOne.mockResolvedValue(mockActivity);
-      activityRepository.remove.mockRejectedValue(new Error('Database error'));
+    it('should match collaborators on any occurrence of a series', async () => {
+      await service.hasEventPermission(
+        { ...mockActivity, seriesId: 'series-1' },
+        otherUser,
+        EventPermission.edit,
+      );
 
-      await expect(
-        service.deleteActivity('activity-123', 'user-123'),
-      ).rejects.toThrow(
-        new HttpException(
-          'Error deleting activity',
-          HttpStatus.INTERNAL_SERVER_ERROR,
-        ),
+      expect(collaboratorQueryBuilder.andWhere).toHaveBeenCalledWith(
+        '(collaborator."activityId" = :id OR collaborator."seriesId" = :seriesId)',
+        { id: 'activity-123', seriesId: 'series-1' },
       );
     });
   });
@@ -570,7 +2845,7 @@ describe('ActivityService', () => {
       const hiddenActivity = { ...mockActivity, isHidden: true };
       activityRepository.save.mockResolvedValue(hiddenActivity);
 
-      const result = await service.hideActivity('activity-123', 'user-123');
+      const result = await service.hideActivity('activity-123', owner);
 
       expect(result.isHidden).toBe(true);
       expect(activityRepository.save).toHaveBeenCalled();
@@ -580,27 +2855,27 @@ describe('ActivityService', () => {
       activityRepository.findOne.mockResolvedValue(mockActivity);
 
       await expect(
-        service.hideActivity('activity-123', 'other-user'),
+        service.hideActivity('activity-123', otherUser),
       ).rejects.toThrow(
-        new BadRequestException('You can only hide your own activities'),
+        new BadRequestException(
+          'You can only hide activities you own or help run',
+        ),
       );
     });
 
     it('should throw NotFoundException when activity not found', async () => {
       activityRepository.findOne.mockResolvedValue(null);
 
-      await expect(
-        service.hideActivity('invalid-id', 'user-123'),
-      ).rejects.toThrow(NotFoundException);
+      await expect(service.hideActivity('invalid-id', owner)).rejects.toThrow(
+        NotFoundException,
+      );
     });
 
     it('should throw HttpException for generic errors', async () => {
       activityRepository.findOne.mockResolvedValue(mockActivity);
       activityRepository.save.mockRejectedValue(new Error('Database error'));
 
-      await expect(
-        service.hideActivity('activity-123', 'user-123'),
-      ).rejects.toThrow(
+      await expect(service.hideActivity('activity-123', owner)).rejects.toThrow(
         new HttpException(
           'Error hiding activity',
           HttpStatus.INTERNAL_SERVER_ERROR,
@@ -655,6 +2930,21 @@ describe('ActivityService', () => {
       expect(activityRepository.save).toHaveBeenCalled();
     });
 
+    it('should remember the manual unarchive so the event is not re-archived right away', async () => {
+      const autoArchived = {
+        ...mockActivity,
+        isArchived: true,
+        autoArchivedAt: new Date('2025-01-01T00:00:00Z'),
+      };
+      activityRepository.findOne.mockResolvedValue(autoArchived);
+      activityRepository.save.mockImplementation(async (a: any) => a);
+
+      const result = await service.unarchiveActivity('activity-123', 'user-1');
+
+      expect(result.unarchivedAt).toEqual(expect.any(Date));
+      expect(result.autoArchivedAt).toBeNull();
+    });
+
     it('should throw NotFoundException when activity not found', async () => {
       activityRepository.findOne.mockResolvedValue(null);
 
@@ -676,6 +2966,243 @@ describe('ActivityService', () => {
     });
   });
 
+  describe('revisions', () => {
+    it('should keep the original state as revision 1 on the first change', async () => {
+      activityRepository.findOne.mockResolvedValue({ ...mockActivity });
+      activityRepository.save.mockImplementation(async (a: any) => a);
+
+      await service.updateActivity(
+        'activity-123',
+        { eventLocation: 'Room 204' } as UpdateActivityDto,
+        owner,
+      );
+
+      const [saved] = revisionRepository.save.mock.calls[0];
+      expect(saved).toHaveLength(2);
+      expect(saved[0]).toEqual(
+        expect.objectContaining({
+          revision: 1,
+          action: RevisionAction.created,
+          actorUserId: mockActivity.createdByUserId,
+          changes: {},
+        }),
+      );
+      expect(saved[0].snapshot.eventLocation).toBe('Test Location');
+      expect(saved[1]).toEqual(
+        expect.objectContaining({
+          revision: 2,
+          action: RevisionAction.updated,
+          actorUserId: owner.id,
+          changes: {
+            eventLocation: { before: 'Test Location', after: 'Room 204' },
+          },
+        }),
+      );
+    });
+
+    it('should number new revisions after the latest one', async () => {
+      activityRepository.findOne.mockResolvedValue({ ...mockActivity });
+      latestRevisions.getRawMany.mockResolvedValue([
+        { activityId: 'activity-123', revision: '4' },
+      ]);
+
+      await service.archiveActivity('activity-123', 'admin-123');
+
+      const [saved] = revisionRepository.save.mock.calls[0];
+      expect(saved).toEqual([
+        expect.objectContaining({
+          revision: 5,
+          action: RevisionAction.archived,
+          actorUserId: 'admin-123',
+          changes: { isArchived: { before: false, after: true } },
+        }),
+      ]);
+    });
+
+    it('should not record a revision when nothing changed', async () => {
+      activityRepository.findOne.mockResolvedValue({ ...mockActivity });
+
+      await service.updateActivity(
+        'activity-123',
+        { eventTitle: mockActivity.eventTitle } as UpdateActivityDto,
+        owner,
+      );
+
+      expect(revisionRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should record a revision for every occurrence changed in a series', async () => {
+      const occurrences = [1, 2].map((n) => ({
+        ...mockActivity,
+        id: `occurrence-${n}`,
+        seriesId: 'series-1',
+        seriesIndex: n,
+        startDate: new Date(`2024-12-0${n}T10:00:00Z`),
+        endDate: new Date(`2024-12-0${n}T12:00:00Z`),
+      }));
+      activityRepository.findOne.mockResolvedValue(occurrences[0]);
+      activityRepository.find.mockResolvedValue(occurrences);
+      activityRepository.save.mockImplementation(async (a: any) => a);
+
+      await service.updateActivity(
+        'occurrence-1',
+        { eventHost: 'Math Club' } as UpdateActivityDto,
+        owner,
+        RecurrenceScope.series,
+      );
+
+      const [saved] = revisionRepository.save.mock.calls[0];
+      expect(
+        saved
+          .filter((r) => r.action === RevisionAction.updated)
+          .map((r) => r.activityId),
+      ).toEqual(['occurrence-1', 'occurrence-2']);
+    });
+  });
+
+  describe('autoArchiveActivities', () => {
+    const now = new Date('2025-03-02T12:00:00Z');
+    const finished = () => ({
+      ...mockActivity,
+      endDate: new Date('2025-02-28T12:00:00Z'),
+    });
+
+    it('should archive events that ended before the delay and record it as the system', async () => {
+      const due = finished();
+      queryBuilder.getMany.mockResolvedValue([due]);
+
+      const result = await service.autoArchiveActivities({ now });
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'activity."endDate" < :cutoff',
+        { cutoff: new Date('2025-03-01T12:00:00Z') },
+      );
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        '(activity."unarchivedAt" IS NULL OR activity."unarchivedAt" < :cutoff)',
+        { cutoff: new Date('2025-03-01T12:00:00Z') },
+      );
+      expect(result).toEqual({
+        dryRun: false,
+        archiveAfterHours: 24,
+        events: [due],
+      });
+      expect(due.isArchived).toBe(true);
+      expect((due as Activity).autoArchivedAt).toEqual(now);
+      expect(activityRepository.save).toHaveBeenCalledWith([due]);
+      const [revisions] = revisionRepository.save.mock.calls[0];
+      expect(revisions[revisions.length - 1]).toEqual(
+        expect.objectContaining({
+          action: RevisionAction.archived,
+          actorUserId: null,
+        }),
+      );
+    });
+
+    it('should only list the due events on a dry run', async () => {
+      const due = finished();
+      queryBuilder.getMany.mockResolvedValue([due]);
+
+      const result = await service.autoArchiveActivities({ dryRun: true, now });
+
+      expect(result.dryRun).toBe(true);
+      expect(result.events).toEqual([due]);
+      expect(due.isArchived).toBe(false);
+      expect(activityRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should use the configured delay', async () => {
+      configService.get.mockReturnValue('72');
+      queryBuilder.getMany.mockResolvedValue([]);
+
+      const result = await service.autoArchiveActivities({ now });
+
+      expect(result.archiveAfterHours).toBe(72);
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'activity."endDate" < :cutoff',
+        { cutoff: new Date('2025-02-27T12:00:00Z') },
+      );
+    });
+
+    it('should do nothing when automatic archival is turned off', async () => {
+      configService.get.mockReturnValue('');
+
+      const result = await service.autoArchiveActivities({ now });
+
+      expect(result).toEqual({
+        dryRun: false,
+        archiveAfterHours: null,
+        events: [],
+      });
+      expect(activityRepository.createQueryBuilder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('publishActivity', () => {
+    it('should publish a scheduled activity immediately', async () => {
+      activityRepository.findOne.mockResolvedValue({
+        ...mockActivity,
+        publicationStatus: PublicationStatus.scheduled,
+        publishAt: new Date('2030-01-01T00:00:00Z'),
+      });
+      activityRepository.save.mockImplementation(async (a: any) => a);
+
+      const result = await service.publishActivity('activity-123');
+
+      expect(result.publicationStatus).toBe(PublicationStatus.published);
+      expect(result.publishAt).toBeNull();
+    });
+
+    it('should throw NotFoundException when activity not found', async () => {
+      activityRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.publishActivity('invalid-id')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('unpublishActivity', () => {
+    it('should move the activity back to drafts', async () => {
+      activityRepository.findOne.mockResolvedValue({ ...mockActivity });
+      activityRepository.save.mockImplementation(async (a: any) => a);
+
+      const result = await service.unpublishActivity('activity-123');
+
+      expect(result.publicationStatus).toBe(PublicationStatus.draft);
+      expect(result.publishAt).toBeNull();
+    });
+
+    it('should throw HttpException for generic errors', async () => {
+      activityRepository.findOne.mockResolvedValue(mockActivity);
+      activityRepository.save.mockRejectedValue(new Error('Database error'));
+
+      await expect(service.unpublishActivity('activity-123')).rejects.toThrow(
+        new HttpException(
+          'Error unpublishing activity',
+          HttpStatus.INTERNAL_SERVER_ERROR,
+        ),
+      );
+    });
+  });
+
+  describe('publishDueActivities', () => {
+    it('should publish scheduled activities whose publish date has passed', async () => {
+      const now = new Date('2025-06-01T12:00:00Z');
+      activityRepository.update.mockResolvedValue({ affected: 3 } as any);
+
+      const result = await service.publishDueActivities(now);
+
+      expect(result).toBe(3);
+      expect(activityRepository.update).toHaveBeenCalledWith(
+        {
+          publicationStatus: PublicationStatus.scheduled,
+          publishAt: LessThanOrEqual(now),
+        },
+        { publicationStatus: PublicationStatus.published, publishAt: null },
+      );
+    });
+  });
+
   describe('addAttendee', () => {
     const attendee: Attendee = {
       firstName: 'John',
@@ -830,12 +3357,35 @@ describe('ActivityService', () => {
       queryBuilder.andWhere.mockReturnThis();
       queryBuilder.orderBy.mockReturnThis();
       queryBuilder.getMany.mockResolvedValue([mockActivity]);
+      queryBuilder.addSelect = jest.fn().mockReturnThis();
+      queryBuilder.addOrderBy = jest.fn().mockReturnThis();
+      queryBuilder.setParameters = jest.fn().mockReturnThis();
+      queryBuilder.getRawAndEntities = jest.fn().mockResolvedValue({
+        entities: [mockActivity],
+        raw: [
+          {
+            activity_id: mockActivity.id,
+            search_rank: '0.6',
+            title_highlight: '<mark>Test</mark> Event',
+            description_highlight: 'A <mark>test</mark> description',
+          },
+        ],
+      });
     });
 
     it('should return activities matching search term', async () => {
       const result = await service.searchActivities('test');
 
-      expect(result).toEqual([mockActivity]);
+      expect(result.data).toEqual([
+        {
+          ...mockActivity,
+          searchRank: 0.6,
+          highlights: {
+            eventTitle: '<mark>Test</mark> Event',
+            eventDescription: 'A <mark>test</mark> description',
+          },
+        },
+      ]);
       expect(queryBuilder.where).toHaveBeenCalledWith(
         'activity.isHidden = :isHidden',
         { isHidden: false },
@@ -844,6 +3394,14 @@ describe('ActivityService', () => {
         'activity.isArchived = :isArchived',
         { isArchived: false },
       );
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'activity.publicationStatus = :published',
+        { published: PublicationStatus.published },
+      );
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'activity.approvalStatus = :approved',
+        { approved: ApprovalStatus.approved },
+      );
     });
 
     it('should search in archived events when isArchived is true', async () => {
@@ -851,7 +3409,7 @@ describe('ActivityService', () => {
         isArchived: true,
       });
 
-      expect(result).toEqual([mockActivity]);
+      expect(result.data).toHaveLength(1);
       expect(queryBuilder.andWhere).toHaveBeenCalledWith(
         'activity.isArchived = :isArchived',
         { isArchived: true },
@@ -893,12 +3451,77 @@ describe('ActivityService', () => {
     });
 
     it('should handle empty search term', async () => {
-      await service.searchActivities('');
+      const result = await service.searchActivities('');
 
       expect(queryBuilder.andWhere).not.toHaveBeenCalledWith(
-        expect.stringContaining('ILIKE :searchTerm'),
+        expect.stringContaining('searchVector'),
         expect.anything(),
       );
+      expect(queryBuilder.orderBy).toHaveBeenCalledWith(
+        'activity.startDate',
+        'ASC',
+      );
+      expect(result.data).toEqual([mockActivity]);
+    });
+
+    it('should match the search vector against the parsed query', async () => {
+      await service.searchActivities('"resume workshop" career');
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        "activity.searchVector @@ to_tsquery('english', :tsQuery)",
+        { tsQuery: '(resume <-> workshop) & career:*' },
+      );
+    });
+
+    it('should order results by rank, then start date', async () => {
+      await service.searchActivities('workshop');
+
+      expect(queryBuilder.addSelect).toHaveBeenCalledWith(
+        "ts_rank(activity.searchVector, to_tsquery('english', :tsQuery))",
+        'search_rank',
+      );
+      expect(queryBuilder.orderBy).toHaveBeenCalledWith('search_rank', 'DESC');
+      expect(queryBuilder.addOrderBy).toHaveBeenCalledWith(
+        'activity.startDate',
+        'ASC',
+      );
+    });
+
+    it('should page ranked results by offset without a cursor', async () => {
+      queryBuilder.getCount.mockResolvedValue(25);
+
+      const result = await service.searchActivities('workshop', {
+        page: '2',
+        pageSize: '10',
+      });
+
+      expect(queryBuilder.limit).toHaveBeenCalledWith(10);
+      expect(queryBuilder.offset).toHaveBeenCalledWith(10);
+      expect(result).toEqual(
+        expect.objectContaining({
+          page: 2,
+          pageSize: 10,
+          total: 25,
+          totalPages: 3,
+          nextCursor: null,
+        }),
+      );
+    });
+
+    it('should fall back to the plain text when no highlight is returned', async () => {
+      (queryBuilder.getRawAndEntities as jest.Mock).mockResolvedValue({
+        entities: [mockActivity],
+        raw: [],
+      });
+
+      const {
+        data: [result],
+      } = await service.searchActivities('workshop');
+
+      expect(result.highlights).toEqual({
+        eventTitle: mockActivity.eventTitle,
+        eventDescription: mockActivity.eventDescription,
+      });
     });
 
     it('should combine multiple filters', async () => {
@@ -924,7 +3547,9 @@ describe('ActivityService', () => {
     });
 
     it('should throw HttpException on error', async () => {
-      queryBuilder.getMany.mockRejectedValue(new Error('Database error'));
+      (queryBuilder.getRawAndEntities as jest.Mock).mockRejectedValue(
+        new Error('Database error'),
+      );
 
       await expect(service.searchActivities('test')).rejects.toThrow(
         new HttpException(
@@ -978,7 +3603,11 @@ describe('ActivityService', () => {
     it('should update cover image successfully', async () => {
       const uploadedImageUrl = 'https://s3.amazonaws.com/bucket/new-image.jpg';
       activityRepository.findOne.mockResolvedValue(mockActivity);
-      s3Service.uploadFile.mockResolvedValue(uploadedImageUrl);
+      const variants = { source: uploadedImageUrl } as CoverPhotoVariants;
+      storageService.uploadCoverImage.mockResolvedValue({
+        url: uploadedImageUrl,
+        variants,
+      });
       const updatedActivity = {
         ...mockActivity,
         eventCoverPhoto: uploadedImageUrl,
@@ -988,12 +3617,108 @@ describe('ActivityService', () => {
       const result = await service.updateCoverImage('activity-123', mockFile);
 
       expect(result.eventCoverPhoto).toBe(uploadedImageUrl);
-      expect(s3Service.uploadFile).toHaveBeenCalledWith(
+      expect(storageService.uploadCoverImage).toHaveBeenCalledWith(
         mockFile,
         'cover-images',
-        true, // Enable resize
       );
-      expect(activityRepository.save).toHaveBeenCalled();
+      expect(activityRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventCoverPhoto: uploadedImageUrl,
+          eventCoverPhotoVariants: variants,
+        }),
+      );
+    });
+
+    it('should attach the new cover image and delete the replaced one', async () => {
+      const oldCover =
+        'https://bucket.s3.us-west-2.amazonaws.com/cover-images/0-old.jpg';
+      const url =
+        'https://bucket.s3.us-west-2.amazonaws.com/cover-images/1-hero.jpg';
+      const variants = {
+        source: url,
+        hero: {
+          width: 1920,
+          height: 1080,
+          jpeg: { key: 'cover-images/1-hero.jpg', url },
+          webp: { key: 'cover-images/1-hero.webp', url: '' },
+        },
+      } as CoverPhotoVariants;
+      activityRepository.findOne.mockResolvedValue({
+        ...mockActivity,
+        eventCoverPhoto: oldCover,
+      });
+      storageService.uploadCoverImage.mockResolvedValue({ url, variants });
+      activityRepository.save.mockImplementation(
+        async (entities: any) => entities,
+      );
+      activityRepository.count = jest.fn().mockResolvedValue(0);
+
+      await service.updateCoverImage('activity-123', mockFile);
+
+      expect(storageService.attachFiles).toHaveBeenCalledWith(
+        ['cover-images/1-hero.jpg', 'cover-images/1-hero.webp'],
+        { type: 'activity', id: 'activity-123' },
+        expect.anything(),
+      );
+      expect(activityRepository.count).toHaveBeenCalledWith({
+        where: { eventCoverPhoto: oldCover },
+        withDeleted: true,
+      });
+      expect(storageService.deleteFile).toHaveBeenCalledWith(
+        'cover-images/0-old.jpg',
+      );
+      expect(storageService.deleteFiles).not.toHaveBeenCalled();
+    });
+
+    it('should keep a replaced cover image other events still use', async () => {
+      const oldCover =
+        'https://bucket.s3.us-west-2.amazonaws.com/cover-images/0-old.jpg';
+      activityRepository.findOne.mockResolvedValue({
+        ...mockActivity,
+        eventCoverPhoto: oldCover,
+      });
+      storageService.uploadCoverImage.mockResolvedValue({
+        url: 'https://bucket.s3.us-west-2.amazonaws.com/cover-images/1-hero.jpg',
+        variants: {} as CoverPhotoVariants,
+      });
+      activityRepository.save.mockImplementation(
+        async (entities: any) => entities,
+      );
+      // other occurrences of the series
+      activityRepository.count = jest.fn().mockResolvedValue(3);
+
+      await service.updateCoverImage('activity-123', mockFile);
+
+      expect(storageService.deleteFile).not.toHaveBeenCalled();
+    });
+
+    it('should delete the uploaded cover image when saving fails', async () => {
+      const url =
+        'https://bucket.s3.us-west-2.amazonaws.com/cover-images/1-hero.jpg';
+      activityRepository.findOne.mockResolvedValue(mockActivity);
+      storageService.uploadCoverImage.mockResolvedValue({
+        url,
+        variants: {
+          source: url,
+          hero: {
+            width: 1920,
+            height: 1080,
+            jpeg: { key: 'cover-images/1-hero.jpg', url },
+            webp: { key: 'cover-images/1-hero.webp', url: '' },
+          },
+        } as CoverPhotoVariants,
+      });
+      activityRepository.save.mockRejectedValue(new Error('Database error'));
+
+      await expect(
+        service.updateCoverImage('activity-123', mockFile),
+      ).rejects.toThrow(HttpException);
+
+      expect(storageService.deleteFiles).toHaveBeenCalledWith([
+        'cover-images/1-hero.jpg',
+        'cover-images/1-hero.webp',
+      ]);
+      expect(storageService.deleteFile).not.toHaveBeenCalled();
     });
 
     it('should throw NotFoundException when activity not found', async () => {
@@ -1009,7 +3734,7 @@ describe('ActivityService', () => {
     it('should throw BadRequestException when S3 upload fails', async () => {
       activityRepository.findOne.mockResolvedValue(mockActivity);
       const badRequestError = new BadRequestException('Invalid file type');
-      s3Service.uploadFile.mockRejectedValue(badRequestError);
+      storageService.uploadCoverImage.mockRejectedValue(badRequestError);
 
       await expect(
         service.updateCoverImage('activity-123', mockFile),
@@ -1018,7 +3743,12 @@ describe('ActivityService', () => {
 
     it('should throw HttpException for generic errors', async () => {
       activityRepository.findOne.mockResolvedValue(mockActivity);
-      s3Service.uploadFile.mockResolvedValue('https://example.com/image.jpg');
+      storageService.uploadCoverImage.mockResolvedValue({
+        url: 'https://example.com/image.jpg',
+        variants: {
+          source: 'https://example.com/image.jpg',
+        } as CoverPhotoVariants,
+      });
       activityRepository.save.mockRejectedValue(new Error('Database error'));
 
       await expect(
@@ -1032,19 +3762,170 @@ describe('ActivityService', () => {
     });
   });
 
-  describe('escapeRegex (private method - tested through getAllActivities)', () => {
-    it('should escape special regex characters in tags', async () => {
-      // Test with tags that contain special regex characters
-      await service.getAllActivities({ tags: ['test.*', 'data+', 'regex?'] });
+  describe('direct cover image uploads', () => {
+    const uploadKey = 'cover-images/uploads/activity-123/1-fair.png';
+    const url =
+      'https://bucket.s3.us-west-2.amazonaws.com/cover-images/1-fair-hero.jpg';
+    const variants = {
+      source: url,
+      hero: {
+        width: 1920,
+        height: 1080,
+        jpeg: { key: 'cover-images/1-fair-hero.jpg', url },
+        webp: { key: 'cover-images/1-fair-hero.webp', url: '' },
+      },
+    } as CoverPhotoVariants;
+
+    it('should upload into a folder of the event', async () => {
+      await service.createCoverImageUpload(
+        'activity-123',
+        'fair.png',
+        'image/png',
+      );
+
+      expect(storageService.createCoverImageUpload).toHaveBeenCalledWith(
+        'cover-images/uploads/activity-123',
+        'fair.png',
+        'image/png',
+      );
+    });
+
+    it('should make the finalized upload the cover image', async () => {
+      activityRepository.findOne.mockResolvedValue({ ...mockActivity });
+      storageService.finalizeCoverImage.mockResolvedValue({ url, variants });
+      activityRepository.save.mockImplementation(
+        async (entities: any) => entities,
+      );
+
+      const result = await service.finalizeCoverImage(
+        'activity-123',
+        uploadKey,
+        'user-123',
+      );
+
+      expect(storageService.finalizeCoverImage).toHaveBeenCalledWith(
+        uploadKey,
+        'cover-images',
+      );
+      expect(result).toMatchObject({
+        eventCoverPhoto: url,
+        eventCoverPhotoVariants: variants,
+      });
+      expect(storageService.attachFiles).toHaveBeenCalledWith(
+        ['cover-images/1-fair-hero.jpg', 'cover-images/1-fair-hero.webp'],
+        { type: 'activity', id: 'activity-123' },
+        expect.anything(),
+      );
+    });
+
+    it('should refuse uploads of other events', async () => {
+      for (const key of [
+        'cover-images/uploads/activity-456/1-fair.png',
+        'cover-images/uploads/activity-123/../activity-456/1-fair.png',
+        'cover-images/1-fair-hero.jpg',
+      ]) {
+        await expect(
+          service.finalizeCoverImage('activity-123', key),
+        ).rejects.toThrow(
+          new BadRequestException('The upload does not belong to this event'),
+        );
+      }
+      expect(storageService.finalizeCoverImage).not.toHaveBeenCalled();
+    });
+
+    it('should pass on uploads that are not images', async () => {
+      activityRepository.findOne.mockResolvedValue({ ...mockActivity });
+      storageService.finalizeCoverImage.mockRejectedValue(
+        new BadRequestException('The image could not be read'),
+      );
+
+      await expect(
+        service.finalizeCoverImage('activity-123', uploadKey),
+      ).rejects.toThrow('The image could not be read');
+      expect(activityRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('backfillCoverPhotoVariants', () => {
+    const cover = 'https://bucket.s3.us-west-2.amazonaws.com/covers/a.jpg';
+    const variants = { source: cover } as CoverPhotoVariants;
+    let updateBuilder: Record<string, jest.Mock>;
+
+    beforeEach(() => {
+      queryBuilder.withDeleted = jest.fn().mockReturnThis();
+      queryBuilder.select = jest.fn().mockReturnThis();
+      queryBuilder.getRawMany = jest
+        .fn()
+        .mockResolvedValue([
+          { url: cover },
+          { url: 'https://example.com/elsewhere.jpg' },
+        ]);
+      updateBuilder = {
+        set: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        execute: jest.fn().mockResolvedValue({ affected: 3 }),
+      };
+      queryBuilder.update = jest.fn().mockReturnValue(updateBuilder);
+      storageService.createCoverVariants.mockResolvedValue(variants);
+    });
+
+    it('should only list cover images in the bucket on a dry run', async () => {
+      const result = await service.backfillCoverPhotoVariants({
+        dryRun: true,
+      });
+
+      expect(result).toEqual({
+        dryRun: true,
+        coverPhotos: [cover],
+        updatedEvents: 0,
+        failed: [],
+      });
+      expect(queryBuilder.withDeleted).toHaveBeenCalled();
+      expect(storageService.createCoverVariants).not.toHaveBeenCalled();
+      expect(queryBuilder.update).not.toHaveBeenCalled();
+    });
+
+    it('should give every event showing a cover image its variants', async () => {
+      const result = await service.backfillCoverPhotoVariants();
+
+      expect(storageService.createCoverVariants).toHaveBeenCalledTimes(1);
+      expect(storageService.createCoverVariants).toHaveBeenCalledWith(cover);
+      expect(updateBuilder.set).toHaveBeenCalledWith(
+        expect.objectContaining({ eventCoverPhotoVariants: variants }),
+      );
+      expect(updateBuilder.where).toHaveBeenCalledWith(
+        '"eventCoverPhoto" = :url',
+        { url: cover },
+      );
+      expect(result.updatedEvents).toBe(3);
+    });
+
+    it('should report cover images that fail and continue', async () => {
+      const other = 'https://bucket.s3.us-west-2.amazonaws.com/covers/b.jpg';
+      queryBuilder.getRawMany.mockResolvedValue([
+        { url: cover },
+        { url: other },
+      ]);
+      storageService.createCoverVariants
+        .mockRejectedValueOnce(new Error('File not found: covers/a.jpg'))
+        .mockResolvedValueOnce({ source: other } as CoverPhotoVariants);
+
+      const result = await service.backfillCoverPhotoVariants();
+
+      expect(result.failed).toEqual([
+        { url: cover, error: 'File not found: covers/a.jpg' },
+      ]);
+      expect(result.updatedEvents).toBe(3);
+    });
+  });
+
+  describe('tag filter (tested through getAllActivities)', () => {
+    it('should pass special characters as bound slugs, never raw SQL', async () => {
+      await service.getAllActivities({ tags: ['test.*', "data'+", '%'] });
 
-      // Verify that the regex was called with escaped characters
       expect(queryBuilder.andWhere).toHaveBeenCalledWith(
-        expect.any(String),
-        expect.objectContaining({
-          tag0: expect.stringContaining('test\\.\\*'),
-          tag1: expect.stringContaining('data\\+'),
-          tag2: expect.stringContaining('regex\\?'),
-        }),
+        expect.stringContaining('tag.slug IN (:...tagSlugs)'),
+        { tagSlugs: ['test', 'data'] },
       );
     });
   });
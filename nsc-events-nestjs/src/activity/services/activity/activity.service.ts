@@ -1,66 +1,237 @@
 import {
   BadRequestException,
+  ConflictException,
   HttpException,
   HttpStatus,
   Injectable,
+  Logger,
   NotFoundException,
+  OnModuleInit,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { Activity, Attendee } from '../../entities/activity.entity';
+import {
+  DataSource,
+  EntityManager,
+  Equal,
+  In,
+  LessThan,
+  LessThanOrEqual,
+  MoreThanOrEqual,
+  Repository,
+  SelectQueryBuilder,
+} from 'typeorm';
+import { randomUUID } from 'crypto';
+import { isUUID } from 'class-validator';
+import {
+  Activity,
+  ApprovalStatus,
+  Attendee,
+  PublicationStatus,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  RecurrenceScope,
+} from '../../entities/activity.entity';
 import { CreateActivityDto } from '../../dto/create-activity.dto';
 import { UpdateActivityDto } from '../../dto/update-activity.dto';
+import { CloneActivityDto } from '../../dto/clone-activity.dto';
 import { Express } from 'express';
-import { S3Service } from './s3.service';
+import {
+  DirectUpload,
+  StorageService,
+  UploadedCoverImage,
+} from '../../../storage/services/storage.service';
+import { StoredFileOwnerType } from '../../../storage/entities/stored-file.entity';
+import { TagService } from '../../../tag/services/tag.service';
+import { SpeakerService } from '../../../speaker/services/speaker.service';
+import { toSlug } from '../../../tag/utils/slug.util';
+import {
+  RoomBooking,
+  VenueService,
+} from '../../../venue/services/venue.service';
+import { formatRoomLocation } from '../../../venue/utils/location.util';
+import {
+  Booking,
+  MAX_BUFFER_MINUTES,
+  parseBufferMinutes,
+} from '../../../venue/utils/booking.util';
+import {
+  CollaboratorStatus,
+  EventCollaborator,
+} from '../../../collaborator/entities/event-collaborator.entity';
+import {
+  EventActor,
+  EventPermission,
+  rolesWithPermission,
+} from '../../../collaborator/utils/permissions.util';
+import { Role } from '../../../user/entities/user.entity';
+import {
+  ActivityRevision,
+  RevisionAction,
+} from '../../../revision/entities/activity-revision.entity';
+import {
+  ActivitySnapshot,
+  diffSnapshots,
+  RevisionContext,
+  takeSnapshot,
+} from '../../../revision/utils/revision.util';
+import { expandOccurrences, shiftLocalTime } from '../../utils/recurrence.util';
+import { DEFAULT_TIME_ZONE, isTimeZone } from '../../../common/time-zone.util';
+import { addsSeats, parseCapacity } from '../../utils/capacity.util';
+import { nextWeeklyStart, pickReusableFields } from '../../utils/clone.util';
+import { pickEditableFields } from '../../utils/edit.util';
+import { parseReviewRoles, requiresReview } from '../../utils/moderation.util';
+import { parseRetentionDays, purgeCutoff } from '../../utils/trash.util';
+import {
+  autoArchiveCutoff,
+  parseAutoArchiveHours,
+} from '../../utils/archival.util';
+import { EventRegistration } from '../../../event-registration/entities/event-registration.entity';
+import { promoteWaitlisted } from '../../../event-registration/utils/waitlist.util';
+import { EventTemplate } from '../../../template/entities/event-template.entity';
+import { EventAttachment } from '../../../attachment/entities/event-attachment.entity';
+import { EventSession } from '../../../session/entities/event-session.entity';
+import {
+  CoverPhotoVariants,
+  coverVariantKeys,
+} from '../../utils/cover-variants.util';
+import {
+  ActivitySearchResult,
+  buildTsQuery,
+  HIGHLIGHT_END,
+  HIGHLIGHT_START,
+  SEARCH_CONFIG,
+} from '../../utils/search.util';
+import {
+  decodeCursor,
+  encodeCursor,
+  PageCursor,
+  PaginatedResult,
+  parsePagination,
+  toPaginatedResult,
+} from '../../../common/pagination.util';
+
+// Upper bound on events archived per run; the next run picks up the rest
+export const AUTO_ARCHIVE_BATCH_SIZE = 500;
+
+// Events read per query by streamActivities
+export const STREAM_BATCH_SIZE = 500;
+
+// Storage folder cover images are kept in
+const COVER_IMAGE_FOLDER = 'cover-images';
+
+export interface AutoArchiveResult {
+  dryRun: boolean;
+  // Null when automatic archival is turned off
+  archiveAfterHours: number | null;
+  // Events archived, or that would be archived on a dry run
+  events: Activity[];
+}
+
+export interface CoverVariantBackfillResult {
+  dryRun: boolean;
+  // Cover photos without current variants
+  coverPhotos: string[];
+  // Events that got variants; zero on a dry run
+  updatedEvents: number;
+  failed: { url: string; error: string }[];
+}
 
 @Injectable()
-export class ActivityService {
+export class ActivityService implements OnModuleInit {
+  private readonly logger = new Logger(ActivityService.name);
+
   constructor(
     @InjectRepository(Activity)
     private readonly activityRepository: Repository<Activity>,
-    private readonly s3Service: S3Service,
+    @InjectRepository(EventCollaborator)
+    private readonly collaboratorRepository: Repository<EventCollaborator>,
+    @InjectRepository(EventTemplate)
+    private readonly templateRepository: Repository<EventTemplate>,
+    @InjectRepository(ActivityRevision)
+    private readonly revisionRepository: Repository<ActivityRevision>,
+    private readonly storageService: StorageService,
+    private readonly configService: ConfigService,
+    private readonly tagService: TagService,
+    private readonly venueService: VenueService,
+    private readonly speakerService: SpeakerService,
+    private readonly dataSource: DataSource,
   ) {}
 
+  // TypeORM can't declare GIN indexes, so the search index is created here
+  // once schema synchronization has added the searchVector column
+  async onModuleInit(): Promise<void> {
+    try {
+      await this.activityRepository.query(
+        'CREATE INDEX IF NOT EXISTS "IDX_activities_search_vector" ON "activities" USING GIN ("searchVector")',
+      );
+    } catch (error) {
+      this.logger.warn(`Could not create search index: ${error.message}`);
+    }
+  }
+
   // ----------------- Create Activity ----------------- \\
   async createActivity(
     createActivityDto: CreateActivityDto,
     userId: string,
     coverImageFile?: Express.Multer.File,
+    role?: string,
   ): Promise<Activity> {
-    let uploadedImageUrl: string | undefined;
+    let uploadedImage: UploadedCoverImage | undefined;
 
     try {
-      // Upload cover image to S3 if provided
+      // Upload cover image to storage if provided
       if (coverImageFile) {
-        uploadedImageUrl = await this.s3Service.uploadFile(
+        uploadedImage = await this.storageService.uploadCoverImage(
           coverImageFile,
-          'cover-images',
-          true, // Enable resize
+          COVER_IMAGE_FOLDER,
         );
       }
 
-      // Convert ISO 8601 strings to Date objects
-      const activityData = {
-        ...createActivityDto,
-        startDate: new Date(createActivityDto.startDate),
-        endDate: new Date(createActivityDto.endDate),
-        createdByUserId: userId,
-        // Use uploaded image URL if available, otherwise use the one from DTO (empty string)
-        eventCoverPhoto:
-          uploadedImageUrl || createActivityDto.eventCoverPhoto || '',
-        // Ensure eventSocialMedia is always an object, never null
-        eventSocialMedia: createActivityDto.eventSocialMedia || {},
-      };
+      const activityData = await this.toActivityData(
+        createActivityDto,
+        userId,
+        role,
+        uploadedImage,
+      );
 
+      // Recurrence is expanded into individual occurrences
+      const { recurrence } = createActivityDto;
+      if (recurrence) {
+        return await this.createActivitySeries(
+          activityData,
+          recurrence,
+          uploadedImage,
+          role,
+          createActivityDto.overrideRoomConflicts,
+        );
+      }
+
+      await this.assertRoomAvailable(
+        [activityData as Booking & Partial<Activity>],
+        [],
+        role,
+        createActivityDto.overrideRoomConflicts,
+      );
       const activity = this.activityRepository.create(activityData);
 
-      return await this.activityRepository.save(activity);
+      return await this.dataSource.transaction(async (manager) => {
+        const saved = await manager.getRepository(Activity).save(activity);
+        await this.attachCoverImage(manager, saved, uploadedImage);
+        return saved;
+      });
     } catch (error) {
-      // If we uploaded an image but activity creation failed, we should delete the uploaded image
-      // However, for simplicity and to avoid orphaned data in edge cases, we'll let the S3 cleanup handle it
-      // In production, consider implementing a more robust cleanup mechanism
+      // Nothing points to the cover image of an event that wasn't created
+      if (uploadedImage) {
+        await this.storageService.deleteFiles(
+          coverVariantKeys(uploadedImage.variants),
+        );
+      }
 
-      if (error instanceof BadRequestException) {
+      if (
+        error instanceof BadRequestException ||
+        error instanceof ConflictException
+      ) {
         throw error;
       }
 
@@ -74,78 +245,243 @@ export class ActivityService {
     }
   }
 
-  // ----------------- Get All Activities ----------------- \\
-  async getAllActivities(queryParams?: any): Promise<Activity[]> {
+  // ----------------- Create Activities ----------------- \\
+  // Creates single events in one transaction, e.g. for an import, so either
+  // all of them are saved or none are. Recurrence rules are ignored, and
+  // none of them may take a room that is already booked.
+  async createActivities(
+    createActivityDtos: CreateActivityDto[],
+    userId: string,
+    role?: string,
+  ): Promise<Activity[]> {
     try {
-      // derive basic flags/pagination from incoming query-like shape
-      const page = Number(queryParams?.page ?? 1);
-      const take = Number(queryParams?.numberOfEventsToGet ?? 12);
-      const isArchived =
-        (queryParams?.isArchived ?? 'false') === 'true' ? true : false;
+      const activities: Activity[] = [];
+      for (const createActivityDto of createActivityDtos) {
+        activities.push(
+          this.activityRepository.create(
+            await this.toActivityData(createActivityDto, userId, role),
+          ),
+        );
+      }
 
-      // tags can arrive as an array (from controller) or comma string (direct call)
-      const tagsArray: string[] = Array.isArray(queryParams?.tags)
-        ? (queryParams.tags as string[])
-        : String(queryParams?.tags ?? '')
-            .split(',')
-            .map((t) => t.trim().toLowerCase())
-            .filter(Boolean);
+      await this.assertRoomAvailable(activities, [], role);
+      return await this.dataSource.transaction((manager) =>
+        manager.getRepository(Activity).save(activities),
+      );
+    } catch (error) {
+      if (
+        error instanceof BadRequestException ||
+        error instanceof ConflictException
+      ) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error creating activities',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
 
-      // switch to QueryBuilder so we can filter by tags safely
-      const qb = this.activityRepository
-        .createQueryBuilder('activity')
-        .where('activity."isHidden" = false')
-        .andWhere('activity."isArchived" = :isArchived', { isArchived });
-
-      // Tag filter: activity."eventTags" is a comma-separated text field.
-      // Match ANY selected tag using a case-insensitive regex with token boundaries:
-      // (^|,\s*)tag(,|$)
-      if (tagsArray.length > 0) {
-        const orClauses: string[] = [];
-        const params: Record<string, any> = {};
-
-        tagsArray.forEach((t, i) => {
-          orClauses.push(`activity."eventTags" ~* :tag${i}`);
-          params[`tag${i}`] = `(^|,\\s*)${this.escapeRegex(t)}(,|$)`;
-        });
+  /** Maps a create request to the columns of a new activity */
+  private async toActivityData(
+    createActivityDto: CreateActivityDto,
+    userId: string,
+    role?: string,
+    uploadedImage?: UploadedCoverImage,
+  ): Promise<Partial<Activity>> {
+    const {
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      recurrence,
+      publicationStatus,
+      publishAt,
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      overrideRoomConflicts,
+      ...activityFields
+    } = createActivityDto;
+    const tags = await this.tagService.resolveTags(createActivityDto.eventTags);
+
+    // Convert ISO 8601 strings to Date objects
+    return {
+      ...activityFields,
+      ...(await this.toLocation(
+        createActivityDto.roomId,
+        createActivityDto.eventLocation,
+      )),
+      startDate: new Date(createActivityDto.startDate),
+      endDate: new Date(createActivityDto.endDate),
+      timeZone: this.toTimeZone(createActivityDto.timeZone),
+      setupMinutes: this.toBufferMinutes(
+        createActivityDto.setupMinutes,
+        'setupMinutes',
+      ),
+      teardownMinutes: this.toBufferMinutes(
+        createActivityDto.teardownMinutes,
+        'teardownMinutes',
+      ),
+      eventCapacity: this.toCapacity(createActivityDto.eventCapacity),
+      tags,
+      eventTags: tags.map((tag) => tag.name),
+      ...(await this.toSpeakers(createActivityDto.eventSpeakers)),
+      createdByUserId: userId,
+      // Use uploaded image URL if available, otherwise use the one from DTO (empty string)
+      eventCoverPhoto:
+        uploadedImage?.url || createActivityDto.eventCoverPhoto || '',
+      eventCoverPhotoVariants: uploadedImage?.variants ?? null,
+      // Ensure eventSocialMedia is always an object, never null
+      eventSocialMedia: createActivityDto.eventSocialMedia || {},
+      // Events are published immediately unless saved as a draft or scheduled
+      ...this.toPublication(publicationStatus, publishAt),
+      approvalStatus: this.needsReview(role)
+        ? ApprovalStatus.pending
+        : ApprovalStatus.approved,
+    };
+  }
 
-        qb.andWhere(orClauses.map((c) => `(${c})`).join(' OR '), params);
-      }
+  // ----------------- Create Activity Series ----------------- \\
+  // Materializes every occurrence of a recurrence rule as its own activity so
+  // registrations and per-occurrence overrides work exactly like single events.
+  // Returns the first occurrence of the series.
+  private async createActivitySeries(
+    activityData: Partial<Activity>,
+    recurrence: RecurrenceRule,
+    uploadedImage?: UploadedCoverImage,
+    role?: string,
+    overrideRoomConflicts = false,
+  ): Promise<Activity> {
+    if (!Object.values(RecurrenceFrequency).includes(recurrence.frequency)) {
+      throw new BadRequestException(
+        'recurrence.frequency must be one of: weekly, biweekly, monthly',
+      );
+    }
+    if (!recurrence.until && !recurrence.count) {
+      throw new BadRequestException(
+        'recurrence requires either an until date or an occurrence count',
+      );
+    }
 
-      // Location filter
-      if (queryParams?.location && queryParams.location.trim()) {
-        qb.andWhere('activity."eventLocation" ILIKE :location', {
-          location: `%${queryParams.location.trim()}%`,
-        });
-      }
+    const occurrences = expandOccurrences(
+      activityData.startDate,
+      activityData.endDate,
+      recurrence,
+      activityData.timeZone,
+    );
 
-      // Host filter
-      if (queryParams?.host && queryParams.host.trim()) {
-        qb.andWhere('activity."eventHost" ILIKE :host', {
-          host: `%${queryParams.host.trim()}%`,
-        });
-      }
+    if (occurrences.length === 0) {
+      throw new BadRequestException(
+        'Recurrence rule does not produce any occurrences',
+      );
+    }
 
-      // Date range filters
-      if (queryParams?.startDate) {
-        qb.andWhere('activity."startDate" >= :startDate', {
-          startDate: new Date(queryParams.startDate),
-        });
-      }
+    const seriesId = randomUUID();
+    const recurrenceRule: RecurrenceRule = {
+      frequency: recurrence.frequency,
+      until: recurrence.until,
+      count: recurrence.count,
+      exceptionDates: recurrence.exceptionDates ?? [],
+    };
+
+    const activities = occurrences.map((occurrence) =>
+      this.activityRepository.create({
+        ...activityData,
+        startDate: occurrence.startDate,
+        endDate: occurrence.endDate,
+        seriesId,
+        recurrenceRule,
+      }),
+    );
+
+    await this.assertRoomAvailable(activities, [], role, overrideRoomConflicts);
+
+    // The occurrences share the cover image, which the first one owns
+    return this.dataSource.transaction(async (manager) => {
+      const saved = await manager.getRepository(Activity).save(activities);
+      await this.attachCoverImage(manager, saved[0], uploadedImage);
+      return saved[0];
+    });
+  }
 
-      if (queryParams?.endDate) {
-        qb.andWhere('activity."endDate" <= :endDate', {
-          endDate: new Date(queryParams.endDate),
-        });
-      }
+  // ----------------- Clone Activity ----------------- \\
+  // Copies the details of an event into a new draft owned by `userId`. Only
+  // the given occurrence of a series is copied. Without a start date the
+  // copy lands on the same weekday and time in the first week that hasn't
+  // started yet; the end keeps the original duration.
+  async cloneActivity(
+    id: string,
+    cloneActivityDto: CloneActivityDto,
+    userId: string,
+    role?: string,
+    now: Date = new Date(),
+  ): Promise<Activity> {
+    try {
+      const source = await this.getActivityById(id);
+      const startDate = cloneActivityDto.startDate
+        ? new Date(cloneActivityDto.startDate)
+        : nextWeeklyStart(source.startDate, now, source.timeZone);
+      const duration = source.endDate.getTime() - source.startDate.getTime();
+      // Retired tags stay on the copy like they would on an edit
+      const tags = await this.tagService.resolveTags(
+        source.eventTags,
+        source.eventTags,
+      );
+
+      const clone = this.activityRepository.create({
+        ...pickReusableFields(source),
+        // The copy shares the cover photo, and with it the variants
+        eventCoverPhotoVariants: source.eventCoverPhotoVariants ?? null,
+        startDate,
+        endDate: new Date(startDate.getTime() + duration),
+        tags,
+        eventTags: tags.map((tag) => tag.name),
+        ...(await this.toSpeakers(source.eventSpeakers)),
+        createdByUserId: userId,
+        ...this.toPublication(PublicationStatus.draft),
+        approvalStatus: this.needsReview(role)
+          ? ApprovalStatus.pending
+          : ApprovalStatus.approved,
+      });
 
-      // Order by startDate instead of eventDate
-      qb.orderBy('activity."startDate"', 'ASC')
-        .take(take)
-        .skip((page - 1) * take);
+      await this.assertRoomAvailable(
+        [clone],
+        [],
+        role,
+        cloneActivityDto.overrideRoomConflicts,
+      );
+      return await this.activityRepository.save(clone);
+    } catch (error) {
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException ||
+        error instanceof ConflictException
+      ) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error cloning activity',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
 
-      return await qb.getMany();
+  // ----------------- Get All Activities ----------------- \\
+  async getAllActivities(
+    queryParams?: any,
+  ): Promise<PaginatedResult<Activity>> {
+    try {
+      // derive basic flags/pagination from incoming query-like shape
+      const { page, pageSize } = parsePagination(
+        queryParams?.page,
+        queryParams?.numberOfEventsToGet,
+      );
+      const qb = this.buildActivityListQuery(queryParams);
+      return await this.paginateByStartDate(qb, {
+        page,
+        pageSize,
+        cursor: queryParams?.cursor,
+      });
     } catch (error) {
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
       throw new HttpException(
         'Error retrieving activities',
         HttpStatus.INTERNAL_SERVER_ERROR,
@@ -153,6 +489,75 @@ export class ActivityService {
     }
   }
 
+  // ----------------- Stream Activities ----------------- \\
+  // Yields every activity matching the getAllActivities filters in
+  // (startDate, id) order, one batch at a time, so exports never hold the
+  // whole list in memory
+  async *streamActivities(
+    queryParams?: any,
+    batchSize = STREAM_BATCH_SIZE,
+  ): AsyncGenerator<Activity[]> {
+    let after: PageCursor | null = null;
+    while (true) {
+      const qb = this.buildActivityListQuery(queryParams)
+        .orderBy('activity."startDate"', 'ASC')
+        .addOrderBy('activity.id', 'ASC')
+        .take(batchSize);
+      if (after) {
+        qb.andWhere(
+          '(activity."startDate", activity.id) > (:cursorStartDate, :cursorId)',
+          { cursorStartDate: after.startDate, cursorId: after.id },
+        );
+      }
+
+      const batch = await qb.getMany();
+      if (batch.length > 0) {
+        yield batch;
+      }
+      if (batch.length < batchSize) {
+        return;
+      }
+      after = batch[batch.length - 1];
+    }
+  }
+
+  // ----------------- Has Event Permission ----------------- \\
+  // Admins can do anything, owners can while they hold the creator role, and
+  // accepted collaborators can when their collaborator role allows it
+  async hasEventPermission(
+    activity: Activity,
+    user: EventActor,
+    permission: EventPermission,
+  ): Promise<boolean> {
+    if (user.role === Role.admin) {
+      return true;
+    }
+    if (activity.createdByUserId === user.id && user.role === Role.creator) {
+      return true;
+    }
+
+    const qb = this.collaboratorRepository
+      .createQueryBuilder('collaborator')
+      .where('collaborator."userId" = :userId', { userId: user.id })
+      .andWhere('collaborator.status = :accepted', {
+        accepted: CollaboratorStatus.accepted,
+      })
+      .andWhere('collaborator.role IN (:...roles)', {
+        roles: rolesWithPermission(permission),
+      });
+
+    if (activity.seriesId) {
+      qb.andWhere(
+        '(collaborator."activityId" = :id OR collaborator."seriesId" = :seriesId)',
+        { id: activity.id, seriesId: activity.seriesId },
+      );
+    } else {
+      qb.andWhere('collaborator."activityId" = :id', { id: activity.id });
+    }
+
+    return (await qb.getCount()) > 0;
+  }
+
   // ----------------- Get Activity by ID ----------------- \\
   async getActivityById(id: string): Promise<Activity> {
     try {
@@ -174,18 +579,76 @@ export class ActivityService {
     }
   }
 
+  // ----------------- Get Visible Activity ----------------- \\
+  // Drafts, scheduled and unapproved events are only shown to the people
+  // who can edit them; everyone else is told the event doesn't exist
+  async getVisibleActivity(id: string, user?: EventActor): Promise<Activity> {
+    try {
+      const activity = await this.getActivityById(id);
+      if (
+        !this.isListed(activity) &&
+        !(
+          user &&
+          (await this.hasEventPermission(activity, user, EventPermission.edit))
+        )
+      ) {
+        throw new NotFoundException('Activity not found');
+      }
+      return activity;
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error retrieving activity',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
   // ----------------- Get Activities by User ID ----------------- \\
-  async getActivitiesByUserId(userId: string): Promise<Activity[]> {
+  // Returns published events by default. With `drafts` set, returns the
+  // user's drafts and scheduled events instead.
+  async getActivitiesByUserId(
+    userId: string,
+    queryParams?: {
+      page?: string;
+      pageSize?: string;
+      cursor?: string;
+      drafts?: boolean;
+    },
+  ): Promise<PaginatedResult<Activity>> {
     try {
-      return await this.activityRepository.find({
-        where: {
-          createdByUserId: userId,
-          isHidden: false,
-          isArchived: false,
-        },
-        order: { startDate: 'ASC' },
+      const { page, pageSize } = parsePagination(
+        queryParams?.page,
+        queryParams?.pageSize,
+      );
+
+      const qb = this.activityRepository
+        .createQueryBuilder('activity')
+        .where('activity."createdByUserId" = :userId', { userId })
+        .andWhere('activity."isHidden" = false')
+        .andWhere('activity."isArchived" = false');
+
+      if (queryParams?.drafts) {
+        qb.andWhere('activity."publicationStatus" IN (:...unpublished)', {
+          unpublished: [PublicationStatus.draft, PublicationStatus.scheduled],
+        });
+      } else {
+        qb.andWhere('activity."publicationStatus" = :published', {
+          published: PublicationStatus.published,
+        });
+      }
+
+      return await this.paginateByStartDate(qb, {
+        page,
+        pageSize,
+        cursor: queryParams?.cursor,
       });
     } catch (error) {
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
       throw new HttpException(
         'Error retrieving user activities',
         HttpStatus.INTERNAL_SERVER_ERROR,
@@ -193,24 +656,72 @@ export class ActivityService {
     }
   }
 
+  // ----------------- Get Series Occurrences ----------------- \\
+  // Occurrences that aren't listed are left out unless the user can edit
+  // the series
+  async getSeriesOccurrences(
+    seriesId: string,
+    user?: EventActor,
+  ): Promise<Activity[]> {
+    try {
+      const occurrences = await this.activityRepository.find({
+        where: { seriesId, isHidden: false },
+        order: { startDate: 'ASC' },
+      });
+
+      const canEdit =
+        user &&
+        occurrences.length > 0 &&
+        (await this.hasEventPermission(
+          occurrences[0],
+          user,
+          EventPermission.edit,
+        ));
+      const visible = canEdit
+        ? occurrences
+        : occurrences.filter((occurrence) => this.isListed(occurrence));
+      if (visible.length === 0) {
+        throw new NotFoundException('Series not found');
+      }
+
+      return visible;
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error retrieving series occurrences',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
   // ----------------- Update Activity ----------------- \\
   async updateActivity(
     id: string,
     updateActivityDto: UpdateActivityDto,
-    userId: string,
+    user: EventActor,
+    scope: RecurrenceScope = RecurrenceScope.occurrence,
+    revision: RevisionContext = { action: RevisionAction.updated },
   ): Promise<Activity> {
     try {
+      this.assertValidScope(scope);
       const activity = await this.getActivityById(id);
+      const context = { ...revision, actorUserId: user.id };
 
-      // Check if user owns the activity
-      if (activity.createdByUserId !== userId) {
+      if (
+        !(await this.hasEventPermission(activity, user, EventPermission.edit))
+      ) {
         throw new BadRequestException(
-          'You can only update your own activities',
+          'You can only update activities you own or help run',
         );
       }
+      await this.assertCanChangeState(activity, updateActivityDto, user);
 
       // Convert ISO 8601 strings to Date objects if provided
-      const updateData: any = { ...updateActivityDto };
+      const { overrideRoomConflicts } = updateActivityDto;
+      const updateData: Partial<Activity> =
+        pickEditableFields(updateActivityDto);
       if (updateActivityDto.startDate) {
         updateData.startDate = new Date(updateActivityDto.startDate);
       }
@@ -221,13 +732,118 @@ export class ActivityService {
       if (updateActivityDto.eventSocialMedia !== undefined) {
         updateData.eventSocialMedia = updateActivityDto.eventSocialMedia || {};
       }
+      // Retired tags the event already had can be kept
+      if (updateActivityDto.eventTags !== undefined) {
+        updateData.tags = await this.tagService.resolveTags(
+          updateActivityDto.eventTags,
+          activity.eventTags,
+        );
+        updateData.eventTags = updateData.tags.map((tag) => tag.name);
+      }
+      if (updateActivityDto.eventSpeakers !== undefined) {
+        Object.assign(
+          updateData,
+          await this.toSpeakers(updateActivityDto.eventSpeakers),
+        );
+      }
+      if (updateActivityDto.eventCapacity !== undefined) {
+        updateData.eventCapacity = this.toCapacity(
+          updateActivityDto.eventCapacity,
+        );
+      }
+      for (const field of ['setupMinutes', 'teardownMinutes'] as const) {
+        if (updateActivityDto[field] !== undefined) {
+          updateData[field] = this.toBufferMinutes(
+            updateActivityDto[field],
+            field,
+          );
+        }
+      }
+      // A retired room the event is already in can be kept
+      if (
+        updateActivityDto.roomId !== undefined ||
+        (updateActivityDto.eventLocation !== undefined && activity.roomId)
+      ) {
+        Object.assign(
+          updateData,
+          await this.toLocation(
+            updateActivityDto.roomId === undefined
+              ? activity.roomId
+              : updateActivityDto.roomId,
+            updateActivityDto.eventLocation ?? activity.eventLocation,
+            activity.roomId,
+          ),
+        );
+      }
+      // A publishAt on its own reschedules the event
+      if (
+        updateActivityDto.publicationStatus !== undefined ||
+        updateActivityDto.publishAt !== undefined
+      ) {
+        Object.assign(
+          updateData,
+          this.toPublication(
+            updateActivityDto.publicationStatus ?? PublicationStatus.scheduled,
+            updateActivityDto.publishAt,
+          ),
+        );
+      }
 
-      Object.assign(activity, updateData);
-      return await this.activityRepository.save(activity);
+      // Only a new room or time is checked for conflicts, so an event an
+      // admin double-booked on purpose can still be edited
+      const roomCheck = this.isRebooking(activity, updateData)
+        ? { role: user.role, overrideRoomConflicts }
+        : undefined;
+
+      // Editing a rejected event resubmits it for review
+      if (activity.approvalStatus === ApprovalStatus.rejected) {
+        updateData.approvalStatus = ApprovalStatus.pending;
+        updateData.rejectionReason = null;
+      }
+
+      let updated: Activity;
+      if (activity.seriesId && scope !== RecurrenceScope.occurrence) {
+        updated = await this.updateSeries(
+          activity,
+          updateData,
+          scope,
+          context,
+          roomCheck,
+        );
+      } else {
+        if (roomCheck) {
+          await this.assertRoomAvailable(
+            [{ ...activity, ...updateData }],
+            [activity.id],
+            roomCheck.role,
+            roomCheck.overrideRoomConflicts,
+          );
+        }
+        const before = takeSnapshot(activity);
+        Object.assign(activity, updateData);
+        updated = await this.saveWithRevision(
+          activity,
+          before,
+          context,
+          (manager) =>
+            this.promoteWaitlists(manager, [activity], new Map([[id, before]])),
+        );
+      }
+
+      // Archiving goes through its own workflow, so an event unarchived here
+      // isn't archived again by the next automatic run
+      const { isArchived } = updateActivityDto;
+      if (isArchived !== undefined && isArchived !== updated.isArchived) {
+        return isArchived
+          ? await this.archiveActivity(id, user.id)
+          : await this.unarchiveActivity(id, user.id);
+      }
+      return updated;
     } catch (error) {
       if (
         error instanceof BadRequestException ||
-        error instanceof NotFoundException
+        error instanceof NotFoundException ||
+        error instanceof ConflictException
       ) {
         throw error;
       }
@@ -239,18 +855,241 @@ export class ActivityService {
   }
 
   // ----------------- Delete Activity ----------------- \\
-  async deleteActivity(id: string, userId: string): Promise<void> {
+  async deleteActivity(
+    id: string,
+    user: EventActor,
+    scope: RecurrenceScope = RecurrenceScope.occurrence,
+  ): Promise<void> {
     try {
+      this.assertValidScope(scope);
       const activity = await this.getActivityById(id);
 
-      // Check if user owns the activity
-      if (activity.createdByUserId !== userId) {
+      if (
+        !(await this.hasEventPermission(activity, user, EventPermission.delete))
+      ) {
         throw new BadRequestException(
-          'You can only delete your own activities',
+          'You can only delete activities you own or help run',
         );
       }
 
-      await this.activityRepository.remove(activity);
+      // Occurrences trashed together share a deletedAt so they are restored
+      // together
+      const deletion = { deletedAt: new Date(), deletedByUserId: user.id };
+
+      if (activity.seriesId) {
+        return await this.deleteFromSeries(activity, scope, deletion);
+      }
+
+      await this.trash([activity], deletion);
+    } catch (error) {
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException
+      ) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error deleting activity',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Restore Activity ----------------- \\
+  // Takes an event out of the trash along with the occurrences deleted with it
+  async restoreActivity(id: string, user: EventActor): Promise<Activity> {
+    try {
+      const activity = await this.activityRepository.findOne({
+        where: { id },
+        withDeleted: true,
+      });
+      if (!activity?.deletedAt) {
+        throw new NotFoundException(`Deleted activity with ID ${id} not found`);
+      }
+
+      if (
+        !(await this.hasEventPermission(activity, user, EventPermission.delete))
+      ) {
+        throw new BadRequestException(
+          'You can only restore activities you own or help run',
+        );
+      }
+
+      const restored = activity.seriesId
+        ? await this.activityRepository.find({
+            where: {
+              seriesId: activity.seriesId,
+              deletedAt: Equal(activity.deletedAt),
+            },
+            withDeleted: true,
+          })
+        : [activity];
+
+      await this.activityRepository.update(
+        { id: In(restored.map((occurrence) => occurrence.id)) },
+        { deletedAt: null, deletedByUserId: null },
+      );
+      if (activity.seriesId) {
+        await this.reinstateInSeries(activity.seriesId, restored);
+      }
+
+      activity.deletedAt = null;
+      activity.deletedByUserId = null;
+      return activity;
+    } catch (error) {
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException
+      ) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error restoring activity',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Get Trashed Activities ----------------- \\
+  // Admins see every deleted event, creators the ones they own
+  async getTrashedActivities(
+    user: EventActor,
+    queryParams?: { page?: string; pageSize?: string; cursor?: string },
+  ): Promise<PaginatedResult<Activity>> {
+    try {
+      const { page, pageSize } = parsePagination(
+        queryParams?.page,
+        queryParams?.pageSize,
+      );
+
+      const qb = this.activityRepository
+        .createQueryBuilder('activity')
+        .withDeleted()
+        .where('activity."deletedAt" IS NOT NULL');
+
+      if (user.role !== Role.admin) {
+        qb.andWhere('activity."createdByUserId" = :userId', {
+          userId: user.id,
+        });
+      }
+
+      return await this.paginateByStartDate(qb, {
+        page,
+        pageSize,
+        cursor: queryParams?.cursor,
+      });
+    } catch (error) {
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error retrieving deleted activities',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Purge Expired Activities ----------------- \\
+  /**
+   * Permanently deletes events that have been in the trash longer than
+   * EVENT_TRASH_RETENTION_DAYS, together with their registrations,
+   * collaborators, revisions, attachments, sessions and cover images.
+   * Returns how many were purged.
+   */
+  async purgeExpiredActivities(now = new Date()): Promise<number> {
+    const retentionDays = parseRetentionDays(
+      this.configService.get<string>('EVENT_TRASH_RETENTION_DAYS'),
+    );
+    const expired = await this.activityRepository.find({
+      where: { deletedAt: LessThan(purgeCutoff(now, retentionDays)) },
+      withDeleted: true,
+    });
+    if (expired.length === 0) {
+      return 0;
+    }
+
+    const ids = expired.map((activity) => activity.id);
+    const standaloneIds = expired
+      .filter((activity) => !activity.seriesId)
+      .map((activity) => activity.id);
+    const seriesIds = [
+      ...new Set(expired.map((activity) => activity.seriesId).filter(Boolean)),
+    ];
+
+    let attachments: EventAttachment[] = [];
+    await this.dataSource.transaction(async (manager) => {
+      await manager.delete(EventRegistration, { activityId: In(ids) });
+      await manager.delete(ActivityRevision, { activityId: In(ids) });
+      attachments = await manager.find(EventAttachment, {
+        where: { activityId: In(ids) },
+      });
+      await manager.delete(EventAttachment, { activityId: In(ids) });
+      await manager.delete(EventSession, { activityId: In(ids) });
+      if (standaloneIds.length > 0) {
+        await manager.delete(EventCollaborator, {
+          activityId: In(standaloneIds),
+        });
+      }
+      await manager.delete(Activity, { id: In(ids) });
+
+      // Series collaborators stay until no occurrence is left
+      for (const seriesId of seriesIds) {
+        const remaining = await manager.count(Activity, {
+          where: { seriesId },
+          withDeleted: true,
+        });
+        if (remaining === 0) {
+          await manager.delete(EventCollaborator, { seriesId });
+        }
+      }
+    });
+
+    await this.deleteUnusedCoverImages(expired);
+    await this.deleteAttachmentFiles(attachments);
+    return expired.length;
+  }
+
+  // ----------------- Hide Activity ----------------- \\
+  async hideActivity(id: string, user: EventActor): Promise<Activity> {
+    try {
+      const activity = await this.getActivityById(id);
+
+      if (
+        !(await this.hasEventPermission(activity, user, EventPermission.delete))
+      ) {
+        throw new BadRequestException(
+          'You can only hide activities you own or help run',
+        );
+      }
+
+      activity.isHidden = true;
+      return await this.activityRepository.save(activity);
+    } catch (error) {
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException
+      ) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error hiding activity',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Archive Activity ----------------- \\
+  async archiveActivity(id: string, actorUserId?: string): Promise<Activity> {
+    try {
+      const activity = await this.getActivityById(id);
+
+      const before = takeSnapshot(activity);
+      activity.isArchived = true;
+      activity.autoArchivedAt = null;
+      return await this.saveWithRevision(activity, before, {
+        action: RevisionAction.archived,
+        actorUserId,
+      });
     } catch (error) {
       if (
         error instanceof BadRequestException ||
@@ -259,24 +1098,25 @@ export class ActivityService {
         throw error;
       }
       throw new HttpException(
-        'Error deleting activity',
+        'Error archiving activity',
         HttpStatus.INTERNAL_SERVER_ERROR,
       );
     }
   }
 
-  // ----------------- Hide Activity ----------------- \\
-  async hideActivity(id: string, userId: string): Promise<Activity> {
+  // ----------------- Unarchive Activity ----------------- \\
+  async unarchiveActivity(id: string, actorUserId?: string): Promise<Activity> {
     try {
       const activity = await this.getActivityById(id);
 
-      // Check if user owns the activity
-      if (activity.createdByUserId !== userId) {
-        throw new BadRequestException('You can only hide your own activities');
-      }
-
-      activity.isHidden = true;
-      return await this.activityRepository.save(activity);
+      const before = takeSnapshot(activity);
+      activity.isArchived = false;
+      activity.autoArchivedAt = null;
+      activity.unarchivedAt = new Date();
+      return await this.saveWithRevision(activity, before, {
+        action: RevisionAction.unarchived,
+        actorUserId,
+      });
     } catch (error) {
       if (
         error instanceof BadRequestException ||
@@ -285,18 +1125,19 @@ export class ActivityService {
         throw error;
       }
       throw new HttpException(
-        'Error hiding activity',
+        'Error unarchiving activity',
         HttpStatus.INTERNAL_SERVER_ERROR,
       );
     }
   }
 
-  // ----------------- Archive Activity ----------------- \\
-  async archiveActivity(id: string): Promise<Activity> {
+  // ----------------- Publish Activity ----------------- \\
+  async publishActivity(id: string): Promise<Activity> {
     try {
       const activity = await this.getActivityById(id);
 
-      activity.isArchived = true;
+      activity.publicationStatus = PublicationStatus.published;
+      activity.publishAt = null;
       return await this.activityRepository.save(activity);
     } catch (error) {
       if (
@@ -306,18 +1147,20 @@ export class ActivityService {
         throw error;
       }
       throw new HttpException(
-        'Error archiving activity',
+        'Error publishing activity',
         HttpStatus.INTERNAL_SERVER_ERROR,
       );
     }
   }
 
-  // ----------------- Unarchive Activity ----------------- \\
-  async unarchiveActivity(id: string): Promise<Activity> {
+  // ----------------- Unpublish Activity ----------------- \\
+  // Moves the event back to the creator's drafts
+  async unpublishActivity(id: string): Promise<Activity> {
     try {
       const activity = await this.getActivityById(id);
 
-      activity.isArchived = false;
+      activity.publicationStatus = PublicationStatus.draft;
+      activity.publishAt = null;
       return await this.activityRepository.save(activity);
     } catch (error) {
       if (
@@ -327,12 +1170,80 @@ export class ActivityService {
         throw error;
       }
       throw new HttpException(
-        'Error unarchiving activity',
+        'Error unpublishing activity',
         HttpStatus.INTERNAL_SERVER_ERROR,
       );
     }
   }
 
+  // ----------------- Publish Due Activities ----------------- \\
+  // Publishes every scheduled event whose publishAt has passed. Returns how
+  // many events went live.
+  async publishDueActivities(now: Date = new Date()): Promise<number> {
+    const result = await this.activityRepository.update(
+      {
+        publicationStatus: PublicationStatus.scheduled,
+        publishAt: LessThanOrEqual(now),
+      },
+      { publicationStatus: PublicationStatus.published, publishAt: null },
+    );
+    return result.affected ?? 0;
+  }
+
+  // ----------------- Auto Archive ----------------- \\
+  /**
+   * Archives events that ended more than EVENT_AUTO_ARCHIVE_AFTER_HOURS ago,
+   * or only lists them on a dry run. Events unarchived by hand within that
+   * time are left alone. Each archive is recorded as a revision by the system.
+   */
+  async autoArchiveActivities(
+    options: { dryRun?: boolean; now?: Date } = {},
+  ): Promise<AutoArchiveResult> {
+    const now = options.now ?? new Date();
+    const dryRun = options.dryRun ?? false;
+    const archiveAfterHours = parseAutoArchiveHours(
+      this.configService.get<string>('EVENT_AUTO_ARCHIVE_AFTER_HOURS'),
+    );
+    if (archiveAfterHours === null) {
+      return { dryRun, archiveAfterHours, events: [] };
+    }
+
+    const cutoff = autoArchiveCutoff(now, archiveAfterHours);
+    const due = await this.activityRepository
+      .createQueryBuilder('activity')
+      .where('activity."isArchived" = false')
+      .andWhere('activity."endDate" < :cutoff', { cutoff })
+      .andWhere(
+        '(activity."unarchivedAt" IS NULL OR activity."unarchivedAt" < :cutoff)',
+        { cutoff },
+      )
+      .orderBy('activity."endDate"', 'ASC')
+      .addOrderBy('activity.id', 'ASC')
+      .take(AUTO_ARCHIVE_BATCH_SIZE)
+      .getMany();
+
+    if (dryRun || due.length === 0) {
+      return { dryRun, archiveAfterHours, events: due };
+    }
+
+    const before = new Map(
+      due.map((activity) => [activity.id, takeSnapshot(activity)]),
+    );
+    for (const activity of due) {
+      activity.isArchived = true;
+      activity.autoArchivedAt = now;
+    }
+    await this.dataSource.transaction(async (manager) => {
+      await manager.getRepository(Activity).save(due);
+      await this.recordRevisions(manager, due, before, {
+        action: RevisionAction.archived,
+        actorUserId: null,
+      });
+    });
+
+    return { dryRun, archiveAfterHours, events: due };
+  }
+
   // ----------------- Add Attendee ----------------- \\
   async addAttendee(activityId: string, attendee: Attendee): Promise<Activity> {
     try {
@@ -402,6 +1313,8 @@ export class ActivityService {
   }
 
   // ----------------- Search Activities ----------------- \\
+  // Full-text search ranked by relevance. Quoted phrases must match exactly,
+  // other words match as prefixes, see buildTsQuery.
   async searchActivities(
     searchTerm: string,
     options?: {
@@ -410,9 +1323,16 @@ export class ActivityService {
       host?: string;
       startDate?: string;
       endDate?: string;
+      page?: string;
+      pageSize?: string;
     },
-  ): Promise<Activity[]> {
+  ): Promise<PaginatedResult<ActivitySearchResult>> {
     try {
+      const { page, pageSize } = parsePagination(
+        options?.page,
+        options?.pageSize,
+      );
+
       const qb = this.activityRepository
         .createQueryBuilder('activity')
         .where('activity.isHidden = :isHidden', { isHidden: false });
@@ -420,13 +1340,17 @@ export class ActivityService {
       // Filter by archived status (default to non-archived)
       const isArchived = options?.isArchived ?? false;
       qb.andWhere('activity.isArchived = :isArchived', { isArchived });
+      qb.andWhere('activity.publicationStatus = :published', {
+        published: PublicationStatus.published,
+      });
+      qb.andWhere('activity.approvalStatus = :approved', {
+        approved: ApprovalStatus.approved,
+      });
 
-      // Search term filter (title, description, or location)
-      if (searchTerm && searchTerm.trim()) {
-        qb.andWhere(
-          '(activity.eventTitle ILIKE :searchTerm OR activity.eventDescription ILIKE :searchTerm OR activity.eventLocation ILIKE :searchTerm OR activity.eventHost ILIKE :searchTerm)',
-          { searchTerm: `%${searchTerm.trim()}%` },
-        );
+      const tsQuery = buildTsQuery(searchTerm);
+      const query = `to_tsquery('${SEARCH_CONFIG}', :tsQuery)`;
+      if (tsQuery) {
+        qb.andWhere(`activity.searchVector @@ ${query}`, { tsQuery });
       }
 
       // Location filter
@@ -456,7 +1380,61 @@ export class ActivityService {
         });
       }
 
-      return await qb.orderBy('activity.startDate', 'ASC').getMany();
+      const total = await qb.getCount();
+      const offset = (page - 1) * pageSize;
+
+      // Results are ranked rather than in (startDate, id) order, so search
+      // pages by offset only and never returns a cursor
+      const toResult = (data: ActivitySearchResult[]) =>
+        toPaginatedResult(data, { page, pageSize, total });
+
+      // Without a search term there is nothing to rank or highlight
+      if (!tsQuery) {
+        const data = await qb
+          .orderBy('activity.startDate', 'ASC')
+          .addOrderBy('activity.id', 'ASC')
+          .take(pageSize)
+          .skip(offset)
+          .getMany();
+        return toResult(data);
+      }
+
+      const markers = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}`;
+      qb.addSelect(`ts_rank(activity.searchVector, ${query})`, 'search_rank')
+        .addSelect(
+          `ts_headline('${SEARCH_CONFIG}', activity.eventTitle, ${query}, :titleOptions)`,
+          'title_highlight',
+        )
+        .addSelect(
+          `ts_headline('${SEARCH_CONFIG}', activity.eventDescription, ${query}, :descriptionOptions)`,
+          'description_highlight',
+        )
+        .setParameters({
+          titleOptions: `${markers}, HighlightAll=true`,
+          descriptionOptions: `${markers}, MaxFragments=2, MinWords=8, MaxWords=25, FragmentDelimiter=" … "`,
+        })
+        .orderBy('search_rank', 'DESC')
+        .addOrderBy('activity.startDate', 'ASC')
+        .addOrderBy('activity.id', 'ASC')
+        .limit(pageSize)
+        .offset(offset);
+
+      const { entities, raw } = await qb.getRawAndEntities();
+      const rawById = new Map(raw.map((row) => [row.activity_id, row]));
+
+      const data = entities.map((activity) => {
+        const row = rawById.get(activity.id);
+        return {
+          ...activity,
+          searchRank: Number(row?.search_rank ?? 0),
+          highlights: {
+            eventTitle: row?.title_highlight ?? activity.eventTitle,
+            eventDescription:
+              row?.description_highlight ?? activity.eventDescription,
+          },
+        };
+      });
+      return toResult(data);
     } catch (error) {
       throw new HttpException(
         'Error searching activities',
@@ -484,7 +1462,82 @@ export class ActivityService {
   async updateCoverImage(
     activityId: string,
     file: Express.Multer.File,
+    actorUserId?: string,
+  ): Promise<Activity> {
+    return this.replaceCoverImage(
+      activityId,
+      // Upload the file to storage as resized variants
+      () => this.storageService.uploadCoverImage(file, COVER_IMAGE_FOLDER),
+      actorUserId,
+      'Error updating cover image',
+    );
+  }
+
+  // ----------------- Cover Image Upload URL ----------------- \\
+  // Lets the browser upload a cover image straight to the storage, into a
+  // folder of the event's own; finalizeCoverImage then puts it to use
+  async createCoverImageUpload(
+    activityId: string,
+    fileName: string,
+    contentType: string,
+  ): Promise<DirectUpload> {
+    try {
+      return await this.storageService.createCoverImageUpload(
+        this.coverUploadFolder(activityId),
+        fileName,
+        contentType,
+      );
+    } catch (error) {
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error creating cover image upload',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Finalize Cover Image ----------------- \\
+  async finalizeCoverImage(
+    activityId: string,
+    uploadKey: string,
+    actorUserId?: string,
+  ): Promise<Activity> {
+    const folder = this.coverUploadFolder(activityId);
+    if (
+      !uploadKey.startsWith(`${folder}/`) ||
+      uploadKey.slice(folder.length + 1).includes('/')
+    ) {
+      throw new BadRequestException('The upload does not belong to this event');
+    }
+
+    return this.replaceCoverImage(
+      activityId,
+      () =>
+        this.storageService.finalizeCoverImage(uploadKey, COVER_IMAGE_FOLDER),
+      actorUserId,
+      'Error finalizing cover image',
+    );
+  }
+
+  private coverUploadFolder(activityId: string): string {
+    return `${COVER_IMAGE_FOLDER}/uploads/${activityId}`;
+  }
+
+  /**
+   * Gives an event the cover image `upload` stores. The replaced image is
+   * deleted unless other events still use it, and the new one is deleted
+   * again if the event can't be saved.
+   */
+  private async replaceCoverImage(
+    activityId: string,
+    upload: () => Promise<UploadedCoverImage>,
+    actorUserId: string | undefined,
+    errorMessage: string,
   ): Promise<Activity> {
+    let uploadedImage: UploadedCoverImage | undefined;
+
     try {
       const activity = await this.activityRepository.findOne({
         where: { id: activityId },
@@ -494,17 +1547,31 @@ export class ActivityService {
         throw new NotFoundException(`Activity with ID ${activityId} not found`);
       }
 
-      // Upload the file to S3 and get the URL (with resizing)
-      const coverImageUrl = await this.s3Service.uploadFile(
-        file,
-        'cover-images',
-        true, // Enable resize
+      uploadedImage = await upload();
+
+      const before = takeSnapshot(activity);
+      const replaced = {
+        eventCoverPhoto: activity.eventCoverPhoto,
+        eventCoverPhotoVariants: activity.eventCoverPhotoVariants,
+      } as Activity;
+      activity.eventCoverPhoto = uploadedImage.url;
+      activity.eventCoverPhotoVariants = uploadedImage.variants;
+
+      const saved = await this.saveWithRevision(
+        activity,
+        before,
+        { action: RevisionAction.coverImage, actorUserId },
+        (manager) => this.attachCoverImage(manager, activity, uploadedImage),
       );
-
-      activity.eventCoverPhoto = coverImageUrl;
-
-      return await this.activityRepository.save(activity);
+      await this.deleteUnusedCoverImages([replaced]);
+      return saved;
     } catch (error) {
+      if (uploadedImage) {
+        await this.storageService.deleteFiles(
+          coverVariantKeys(uploadedImage.variants),
+        );
+      }
+
       if (
         error instanceof NotFoundException ||
         error instanceof BadRequestException
@@ -512,15 +1579,936 @@ export class ActivityService {
         throw error;
       }
 
-      throw new HttpException(
-        'Error updating cover image',
-        HttpStatus.INTERNAL_SERVER_ERROR,
+      throw new HttpException(errorMessage, HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  // ----------------- Backfill Cover Photo Variants ----------------- \\
+  /**
+   * Creates the variants of cover photos uploaded before variants existed,
+   * or restored from an older revision. Every event showing the same cover
+   * photo gets the same variants. Covers outside the bucket are skipped, and
+   * one that fails doesn't stop the others.
+   */
+  async backfillCoverPhotoVariants(
+    options: { dryRun?: boolean } = {},
+  ): Promise<CoverVariantBackfillResult> {
+    const dryRun = options.dryRun ?? false;
+    const rows: { url: string }[] = await this.activityRepository
+      .createQueryBuilder('activity')
+      .withDeleted()
+      .select('DISTINCT activity."eventCoverPhoto"', 'url')
+      .where(`activity."eventCoverPhoto" <> ''`)
+      .andWhere(
+        `(activity."eventCoverPhotoVariants" IS NULL OR activity."eventCoverPhotoVariants" ->> 'source' <> activity."eventCoverPhoto")`,
+      )
+      .getRawMany();
+    const coverPhotos = rows
+      .map((row) => row.url)
+      .filter((url) => this.storageService.getKeyFromUrl(url));
+
+    const result: CoverVariantBackfillResult = {
+      dryRun,
+      coverPhotos,
+      updatedEvents: 0,
+      failed: [],
+    };
+    if (dryRun) {
+      return result;
+    }
+
+    for (const url of coverPhotos) {
+      try {
+        const variants = await this.storageService.createCoverVariants(url);
+        const { affected } = await this.activityRepository
+          .createQueryBuilder()
+          .update(Activity)
+          // Variants are derived data, so the events don't count as edited
+          .set({
+            eventCoverPhotoVariants: variants,
+            updatedAt: () => '"updatedAt"',
+          })
+          .where('"eventCoverPhoto" = :url', { url })
+          .execute();
+        result.updatedEvents += affected ?? 0;
+      } catch (error) {
+        this.logger.warn(
+          `Could not create variants of ${url}: ${error.message}`,
+        );
+        result.failed.push({ url, error: error.message });
+      }
+    }
+    return result;
+  }
+
+  // Hiding, archiving and publishing each need the permission of their own
+  // endpoint, also when an edit or a restore changes them
+  private async assertCanChangeState(
+    activity: Activity,
+    updateActivityDto: UpdateActivityDto,
+    user: EventActor,
+  ): Promise<void> {
+    const changes: [boolean, EventPermission, string][] = [
+      [
+        updateActivityDto.isHidden !== undefined,
+        EventPermission.delete,
+        'hide',
+      ],
+      [
+        updateActivityDto.isArchived !== undefined,
+        EventPermission.archive,
+        'archive',
+      ],
+      [
+        updateActivityDto.publicationStatus !== undefined ||
+          updateActivityDto.publishAt !== undefined,
+        EventPermission.publish,
+        'publish',
+      ],
+    ];
+    for (const [changed, permission, action] of changes) {
+      if (
+        changed &&
+        !(await this.hasEventPermission(activity, user, permission))
+      ) {
+        throw new BadRequestException(
+          `You can only ${action} activities you own or help run`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Applies an update to several occurrences of a series. Date changes are
+   * applied as a shift in local time relative to the edited occurrence so
+   * every occurrence keeps its own day. Editing "this and following" splits the series.
+   */
+  private async updateSeries(
+    activity: Activity,
+    updateData: Partial<Activity>,
+    scope: RecurrenceScope,
+    context: RevisionContext,
+    roomCheck?: { role?: string; overrideRoomConflicts?: boolean },
+  ): Promise<Activity> {
+    const { startDate, endDate, ...fields } = updateData;
+    const fromZone = activity.timeZone;
+    const toZone = fields.timeZone ?? fromZone;
+    const move = (target: Activity) => ({
+      startDate: shiftLocalTime(
+        target.startDate,
+        activity.startDate,
+        startDate ?? activity.startDate,
+        fromZone,
+        toZone,
+      ),
+      endDate: shiftLocalTime(
+        target.endDate,
+        activity.endDate,
+        endDate ?? activity.endDate,
+        fromZone,
+        toZone,
+      ),
+    });
+
+    const targets = await this.activityRepository.find({
+      where:
+        scope === RecurrenceScope.following
+          ? {
+              seriesId: activity.seriesId,
+              startDate: MoreThanOrEqual(activity.startDate),
+            }
+          : { seriesId: activity.seriesId },
+      order: { startDate: 'ASC' },
+    });
+
+    if (roomCheck) {
+      await this.assertRoomAvailable(
+        targets.map((target) => ({ ...target, ...fields, ...move(target) })),
+        targets.map((target) => target.id),
+        roomCheck.role,
+        roomCheck.overrideRoomConflicts,
+      );
+    }
+
+    let seriesId = activity.seriesId;
+    let earlier: Activity[] = [];
+    if (scope === RecurrenceScope.following) {
+      earlier = await this.truncateSeries(activity);
+      if (earlier.length > 0) {
+        seriesId = randomUUID();
+      }
+    }
+
+    const before = new Map(
+      targets.map((target) => [target.id, takeSnapshot(target)]),
+    );
+    for (const target of targets) {
+      Object.assign(target, fields, move(target));
+      target.seriesId = seriesId;
+    }
+
+    const saved = await this.dataSource.transaction(async (manager) => {
+      const result = await manager.getRepository(Activity).save(targets);
+      await this.recordRevisions(manager, targets, before, context);
+      await this.promoteWaitlists(manager, targets, before);
+      if (seriesId !== activity.seriesId) {
+        await this.splitCollaborators(
+          manager,
+          activity.seriesId,
+          seriesId,
+          targets,
+          earlier,
+        );
+      }
+      return result;
+    });
+    return saved.find((target) => target.id === activity.id) ?? saved[0];
+  }
+
+  /**
+   * Saves a change to one activity together with its revision. `before` is
+   * the activity's snapshot from before the change; `afterSave` runs in the
+   * same transaction.
+   */
+  private async saveWithRevision(
+    activity: Activity,
+    before: ActivitySnapshot,
+    context: RevisionContext,
+    afterSave?: (manager: EntityManager) => Promise<void>,
+  ): Promise<Activity> {
+    return this.dataSource.transaction(async (manager) => {
+      const saved = await manager.getRepository(Activity).save(activity);
+      await this.recordRevisions(
+        manager,
+        [activity],
+        new Map([[activity.id, before]]),
+        context,
+      );
+      await afterSave?.(manager);
+      return saved;
+    });
+  }
+
+  /**
+   * Registers waitlisted people on the events whose capacity an update raised
+   * or removed. Each activity row is locked first, as registrations lock it.
+   */
+  private async promoteWaitlists(
+    manager: EntityManager,
+    activities: Activity[],
+    before: Map<string, ActivitySnapshot>,
+  ): Promise<void> {
+    for (const activity of activities) {
+      const previous = before.get(activity.id)?.eventCapacity as number | null;
+      if (!addsSeats(previous, activity.eventCapacity)) {
+        continue;
+      }
+      const locked = await manager.getRepository(Activity).findOne({
+        where: { id: activity.id },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (locked) {
+        await promoteWaitlisted(manager, locked);
+      }
+    }
+  }
+
+  // Records the event an uploaded cover image belongs to, so the storage
+  // reconciliation can tell it from a failed upload
+  private async attachCoverImage(
+    manager: EntityManager,
+    activity: Activity,
+    uploadedImage?: UploadedCoverImage,
+  ): Promise<void> {
+    if (uploadedImage) {
+      await this.storageService.attachFiles(
+        coverVariantKeys(uploadedImage.variants),
+        { type: StoredFileOwnerType.activity, id: activity.id },
+        manager,
+      );
+    }
+  }
+
+  /**
+   * Writes a revision for every activity whose tracked fields changed. The
+   * first time an event changes, its original state is kept as revision 1 so
+   * it can be restored.
+   */
+  private async recordRevisions(
+    manager: EntityManager,
+    activities: Activity[],
+    before: Map<string, ActivitySnapshot>,
+    context: RevisionContext,
+  ): Promise<void> {
+    const changed = activities
+      .map((activity) => {
+        const previous = before.get(activity.id) ?? {};
+        const snapshot = takeSnapshot(activity);
+        const changes = diffSnapshots(previous, snapshot);
+        return { activity, previous, snapshot, changes };
+      })
+      .filter(({ changes }) => Object.keys(changes).length > 0);
+
+    if (changed.length === 0) {
+      return;
+    }
+
+    const revisionRepository = manager.getRepository(ActivityRevision);
+    const latest: { activityId: string; revision: string }[] =
+      await revisionRepository
+        .createQueryBuilder('revision')
+        .select('revision."activityId"', 'activityId')
+        .addSelect('MAX(revision.revision)', 'revision')
+        .where('revision."activityId" IN (:...ids)', {
+          ids: changed.map(({ activity }) => activity.id),
+        })
+        .groupBy('revision."activityId"')
+        .getRawMany();
+    const latestById = new Map(
+      latest.map((row) => [row.activityId, Number(row.revision)]),
+    );
+
+    const revisions: ActivityRevision[] = [];
+    for (const { activity, previous, snapshot, changes } of changed) {
+      let next = (latestById.get(activity.id) ?? 0) + 1;
+      if (next === 1) {
+        revisions.push(
+          revisionRepository.create({
+            activityId: activity.id,
+            revision: 1,
+            action: RevisionAction.created,
+            actorUserId: activity.createdByUserId,
+            changes: {},
+            snapshot: previous,
+            createdAt: activity.createdAt,
+          }),
+        );
+        next = 2;
+      }
+      revisions.push(
+        revisionRepository.create({
+          activityId: activity.id,
+          revision: next,
+          action: context.action,
+          actorUserId: context.actorUserId ?? null,
+          changes,
+          snapshot,
+          restoredFromRevision: context.restoredFromRevision ?? null,
+        }),
+      );
+    }
+    await revisionRepository.save(revisions);
+  }
+
+  /**
+   * Removes one or more occurrences of a series. Deleting a single occurrence
+   * records it as an exception date on the rest of the series.
+   */
+  private async deleteFromSeries(
+    activity: Activity,
+    scope: RecurrenceScope,
+    deletion: Pick<Activity, 'deletedAt' | 'deletedByUserId'>,
+  ): Promise<void> {
+    if (scope === RecurrenceScope.series) {
+      const occurrences = await this.activityRepository.find({
+        where: { seriesId: activity.seriesId },
+      });
+      await this.trash(occurrences, deletion);
+      return;
+    }
+
+    if (scope === RecurrenceScope.following) {
+      const following = await this.activityRepository.find({
+        where: {
+          seriesId: activity.seriesId,
+          startDate: MoreThanOrEqual(activity.startDate),
+        },
+      });
+      await this.trash(following, deletion);
+      await this.truncateSeries(activity);
+      return;
+    }
+
+    await this.trash([activity], deletion);
+
+    const remaining = await this.activityRepository.find({
+      where: { seriesId: activity.seriesId },
+    });
+    const exceptionDate = activity.startDate.toISOString();
+    for (const occurrence of remaining) {
+      const rule = occurrence.recurrenceRule;
+      if (rule) {
+        occurrence.recurrenceRule = {
+          ...rule,
+          exceptionDates: [...(rule.exceptionDates ?? []), exceptionDate],
+        };
+      }
+    }
+    await this.activityRepository.save(remaining);
+  }
+
+  /**
+   * Moves activities to the trash. Their registrations, collaborators and
+   * revisions are kept until the retention job purges them.
+   */
+  private async trash(
+    activities: Activity[],
+    deletion: Pick<Activity, 'deletedAt' | 'deletedByUserId'>,
+  ): Promise<void> {
+    if (activities.length === 0) {
+      return;
+    }
+    await this.activityRepository.update(
+      { id: In(activities.map((activity) => activity.id)) },
+      deletion,
+    );
+  }
+
+  /**
+   * Undoes what deleting occurrences did to the rest of their series: drops
+   * their exception dates and, when the deleted occurrences ended the series
+   * early, puts back the original end of the recurrence rule.
+   */
+  private async reinstateInSeries(
+    seriesId: string,
+    restored: Activity[],
+  ): Promise<void> {
+    const restoredIds = new Set(restored.map((occurrence) => occurrence.id));
+    const restoredDates = new Set(
+      restored.map((occurrence) => occurrence.startDate.toISOString()),
+    );
+    const [first] = [...restored].sort(
+      (a, b) => a.startDate.getTime() - b.startDate.getTime(),
+    );
+    const originalRule = first.recurrenceRule;
+
+    const siblings = (
+      await this.activityRepository.find({ where: { seriesId } })
+    ).filter((occurrence) => !restoredIds.has(occurrence.id));
+
+    for (const sibling of siblings) {
+      const rule = sibling.recurrenceRule;
+      if (!rule) {
+        continue;
+      }
+      const truncated =
+        rule.until &&
+        new Date(rule.until).getTime() < first.startDate.getTime();
+      sibling.recurrenceRule = {
+        ...rule,
+        ...(truncated && originalRule
+          ? { until: originalRule.until, count: originalRule.count }
+          : {}),
+        exceptionDates: (rule.exceptionDates ?? []).filter(
+          (date) => !restoredDates.has(date),
+        ),
+      };
+    }
+    if (siblings.length > 0) {
+      await this.activityRepository.save(siblings);
+    }
+  }
+
+  // Attachments belong to a single event, so their files can always go
+  private async deleteAttachmentFiles(
+    attachments: EventAttachment[],
+  ): Promise<void> {
+    for (const attachment of attachments) {
+      const key = this.storageService.getKeyFromUrl(attachment.url);
+      if (!key) {
+        continue;
+      }
+      try {
+        await this.storageService.deleteFile(key);
+      } catch (error) {
+        this.logger.warn(
+          `Could not delete attachment ${attachment.url}: ${error.message}`,
+        );
+      }
+    }
+  }
+
+  // Deletes purged or replaced cover images no remaining event or template
+  // points to, along with their variants. Occurrences of a series, clones
+  // and templates share their cover image.
+  private async deleteUnusedCoverImages(previous: Activity[]): Promise<void> {
+    const variantsBySource = new Map<string, CoverPhotoVariants>();
+    for (const { eventCoverPhotoVariants: variants } of previous) {
+      if (variants) {
+        variantsBySource.set(variants.source, variants);
+      }
+    }
+    const urls = [
+      ...new Set([
+        ...previous.map((activity) => activity.eventCoverPhoto),
+        ...variantsBySource.keys(),
+      ]),
+    ].filter((url) => this.storageService.getKeyFromUrl(url));
+
+    for (const url of urls) {
+      try {
+        const stillUsed = await this.activityRepository.count({
+          where: { eventCoverPhoto: url },
+          withDeleted: true,
+        });
+        const inTemplates = await this.templateRepository
+          .createQueryBuilder('template')
+          .where(`template.fields ->> 'eventCoverPhoto' = :url`, { url })
+          .getCount();
+        if (stillUsed === 0 && inTemplates === 0) {
+          const sourceKey = this.storageService.getKeyFromUrl(url);
+          const keys = new Set([
+            sourceKey,
+            ...coverVariantKeys(variantsBySource.get(url)),
+          ]);
+          // Older revisions can restore the photo; backfill:cover-variants
+          // recreates its variants then
+          const inRevisions = await this.revisionRepository
+            .createQueryBuilder('revision')
+            .where(`revision.snapshot ->> 'eventCoverPhoto' = :url`, { url })
+            .getCount();
+          if (inRevisions > 0) {
+            keys.delete(sourceKey);
+          }
+          for (const key of keys) {
+            await this.storageService.deleteFile(key);
+          }
+        }
+      } catch (error) {
+        this.logger.warn(
+          `Could not delete cover image ${url}: ${error.message}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Ends the recurrence rule of every occurrence before the given one and
+   * returns those occurrences, none when the given one was already the first.
+   */
+  private async truncateSeries(activity: Activity): Promise<Activity[]> {
+    const earlier = await this.activityRepository.find({
+      where: {
+        seriesId: activity.seriesId,
+        startDate: LessThan(activity.startDate),
+      },
+    });
+
+    if (earlier.length === 0) {
+      return [];
+    }
+
+    const until = new Date(activity.startDate.getTime() - 1).toISOString();
+    for (const occurrence of earlier) {
+      if (occurrence.recurrenceRule) {
+        occurrence.recurrenceRule = {
+          ...occurrence.recurrenceRule,
+          until,
+          count: undefined,
+        };
+      }
+    }
+    await this.activityRepository.save(earlier);
+    return earlier;
+  }
+
+  /**
+   * Gives occurrences split off into a new series the series-level
+   * collaborators of the one they came from, which keeps them as well. A
+   * collaborator invited on a split-off occurrence moves along with it and is
+   * copied onto the earlier part.
+   */
+  private async splitCollaborators(
+    manager: EntityManager,
+    from: string,
+    to: string,
+    following: Activity[],
+    earlier: Activity[],
+  ): Promise<void> {
+    const collaborators = await manager.find(EventCollaborator, {
+      where: { seriesId: from },
+    });
+    if (collaborators.length === 0) {
+      return;
+    }
+
+    const followingIds = new Set(following.map((occurrence) => occurrence.id));
+    const copy = (
+      collaborator: EventCollaborator,
+      activityId: string,
+      seriesId: string,
+    ) =>
+      manager.create(EventCollaborator, {
+        activityId,
+        seriesId,
+        userId: collaborator.userId,
+        role: collaborator.role,
+        status: collaborator.status,
+        invitedByUserId: collaborator.invitedByUserId,
+        acceptedAt: collaborator.acceptedAt,
+      });
+
+    const rows = collaborators.flatMap((collaborator) => {
+      if (followingIds.has(collaborator.activityId)) {
+        collaborator.seriesId = to;
+        return [collaborator, copy(collaborator, earlier[0].id, from)];
+      }
+      return [copy(collaborator, following[0].id, to)];
+    });
+    await manager.save(rows);
+  }
+
+  /** Form data arrives as strings, so capacity is normalized for create and update */
+  private toCapacity(value: unknown): number | null {
+    const capacity = parseCapacity(value);
+    if (capacity === undefined) {
+      throw new BadRequestException(
+        'eventCapacity must be a positive whole number or "unlimited"',
+      );
+    }
+    return capacity;
+  }
+
+  private toBufferMinutes(value: unknown, field: string): number {
+    const minutes = parseBufferMinutes(value);
+    if (minutes === undefined) {
+      throw new BadRequestException(
+        `${field} must be a whole number of minutes from 0 to ${MAX_BUFFER_MINUTES}`,
+      );
+    }
+    return minutes;
+  }
+
+  // Multipart create requests skip DTO validation, so the zone is checked here
+  private toTimeZone(value?: string): string {
+    if (value === undefined || value === '') {
+      return DEFAULT_TIME_ZONE;
+    }
+    if (!isTimeZone(value)) {
+      throw new BadRequestException(`Unknown time zone "${value}"`);
+    }
+    return value;
+  }
+
+  /** Whether everyone can see the event, as in the event list */
+  private isListed(activity: Activity): boolean {
+    return (
+      activity.publicationStatus === PublicationStatus.published &&
+      activity.approvalStatus === ApprovalStatus.approved
+    );
+  }
+
+  /** Whether an update moves the event to another room or time */
+  private isRebooking(
+    activity: Activity,
+    updateData: Partial<Activity>,
+  ): boolean {
+    if (
+      updateData.roomId !== undefined &&
+      updateData.roomId !== activity.roomId
+    ) {
+      return true;
+    }
+    const changed = (field: 'startDate' | 'endDate') =>
+      updateData[field] !== undefined &&
+      updateData[field].getTime() !== activity[field].getTime();
+    const changedBuffer = (field: 'setupMinutes' | 'teardownMinutes') =>
+      updateData[field] !== undefined && updateData[field] !== activity[field];
+    // A resubmitted rejection holds its room again
+    return (
+      changed('startDate') ||
+      changed('endDate') ||
+      changedBuffer('setupMinutes') ||
+      changedBuffer('teardownMinutes') ||
+      activity.approvalStatus === ApprovalStatus.rejected
+    );
+  }
+
+  /**
+   * Rejects bookings of rooms that other events already hold at the time,
+   * listing the conflicting events. Admins can book the room anyway with
+   * `overrideRoomConflicts`; creators have to pick another room or time.
+   * `excludeIds` are the events being rebooked.
+   */
+  private async assertRoomAvailable(
+    bookings: (Booking & Pick<Partial<Activity>, 'roomId'>)[],
+    excludeIds: string[],
+    role?: string,
+    overrideRoomConflicts = false,
+  ): Promise<void> {
+    const conflicts: RoomBooking[] = [];
+    const roomIds = new Set(bookings.map((booking) => booking.roomId));
+    for (const roomId of roomIds) {
+      if (roomId) {
+        conflicts.push(
+          ...(await this.venueService.findRoomConflicts(
+            roomId,
+            bookings.filter((booking) => booking.roomId === roomId),
+            excludeIds,
+          )),
+        );
+      }
+    }
+    if (conflicts.length === 0) {
+      return;
+    }
+
+    const canOverride = role === Role.admin;
+    if (canOverride && overrideRoomConflicts) {
+      return;
+    }
+    throw new ConflictException({
+      statusCode: HttpStatus.CONFLICT,
+      message: canOverride
+        ? 'The room is already booked at this time. Set overrideRoomConflicts to book it anyway.'
+        : 'The room is already booked at this time. Pick another room or time.',
+      conflicts,
+      canOverride,
+    });
+  }
+
+  /**
+   * Resolves the publication state for a create or update. Scheduling needs
+   * a publishAt in the future; every other state clears it.
+   */
+  private toPublication(
+    status: PublicationStatus = PublicationStatus.published,
+    publishAt?: string,
+  ): Pick<Activity, 'publicationStatus' | 'publishAt'> {
+    if (status !== PublicationStatus.scheduled) {
+      return { publicationStatus: status, publishAt: null };
+    }
+
+    const date = publishAt ? new Date(publishAt) : null;
+    if (!date || isNaN(date.getTime())) {
+      throw new BadRequestException(
+        'publishAt is required to schedule an event',
+      );
+    }
+    if (date.getTime() <= Date.now()) {
+      throw new BadRequestException('publishAt must be in the future');
+    }
+    return { publicationStatus: status, publishAt: date };
+  }
+
+  /**
+   * Location columns of an event. Events in a room show the room's label;
+   * without a room the free-text location is kept.
+   */
+  private async toLocation(
+    roomId: string | null | undefined,
+    eventLocation: string,
+    currentRoomId?: string | null,
+  ): Promise<Pick<Activity, 'roomId' | 'eventLocation'>> {
+    if (!roomId) {
+      return { roomId: null, eventLocation };
+    }
+    const room = await this.venueService.resolveRoom(roomId, currentRoomId);
+    return { roomId: room.id, eventLocation: formatRoomLocation(room) };
+  }
+
+  /**
+   * Speaker columns of an event. The names are linked to speaker profiles,
+   * and the copy kept in eventSpeakers uses the profiles' spelling.
+   */
+  private async toSpeakers(
+    names: string[] | null | undefined,
+  ): Promise<Pick<Activity, 'speakerProfiles' | 'eventSpeakers'>> {
+    if (!names) {
+      return {};
+    }
+    const speakers = await this.speakerService.resolveSpeakers(names);
+    return {
+      speakerProfiles: speakers,
+      eventSpeakers: speakers.map((speaker) => speaker.name),
+    };
+  }
+
+  /** Whether events created by this role wait for admin approval */
+  private needsReview(role?: string): boolean {
+    return requiresReview(
+      role,
+      parseReviewRoles(this.configService.get<string>('EVENT_REVIEW_ROLES')),
+    );
+  }
+
+  /** Reject scope values that don't name a RecurrenceScope */
+  private assertValidScope(scope: RecurrenceScope): void {
+    if (!Object.values(RecurrenceScope).includes(scope)) {
+      throw new BadRequestException(
+        'scope must be one of: occurrence, following, series',
+      );
+    }
+  }
+
+  /**
+   * Public, approved activities matching the list filters: archived state,
+   * tags, location, venue, building, host, date range and next occurrence
+   * only.
+   */
+  private buildActivityListQuery(
+    queryParams?: any,
+  ): SelectQueryBuilder<Activity> {
+    const isArchived =
+      (queryParams?.isArchived ?? 'false') === 'true' ? true : false;
+
+    // tags can arrive as an array (from controller) or comma string (direct call)
+    const tagSlugs: string[] = (
+      Array.isArray(queryParams?.tags)
+        ? (queryParams.tags as string[])
+        : String(queryParams?.tags ?? '').split(',')
+    )
+      .map(toSlug)
+      .filter(Boolean);
+
+    // switch to QueryBuilder so we can filter by tags safely
+    const qb = this.activityRepository
+      .createQueryBuilder('activity')
+      .where('activity."isHidden" = false')
+      .andWhere('activity."isArchived" = :isArchived', { isArchived })
+      .andWhere('activity."publicationStatus" = :published', {
+        published: PublicationStatus.published,
+      })
+      .andWhere('activity."approvalStatus" = :approved', {
+        approved: ApprovalStatus.approved,
+      });
+
+    // Tag filter: match ANY selected tag, by name or slug
+    if (tagSlugs.length > 0) {
+      qb.andWhere(
+        `EXISTS (
+          SELECT 1 FROM activity_tags activity_tag
+          JOIN tags tag ON tag.id = activity_tag."tagId"
+          WHERE activity_tag."activityId" = activity.id
+            AND tag.slug IN (:...tagSlugs)
+        )`,
+        { tagSlugs },
+      );
+    }
+
+    // Collapse recurring series to their next upcoming occurrence. Once every
+    // occurrence has ended the earliest one is shown instead.
+    if (String(queryParams?.nextOccurrenceOnly ?? 'false') === 'true') {
+      qb.andWhere(
+        `(activity."seriesId" IS NULL OR activity.id = (
+          SELECT next.id FROM activities next
+          WHERE next."seriesId" = activity."seriesId"
+            AND next."isHidden" = false
+            AND next."isArchived" = :isArchived
+            AND next."publicationStatus" = :published
+            AND next."approvalStatus" = :approved
+            AND next."deletedAt" IS NULL
+          ORDER BY (next."endDate" < NOW()) ASC, next."startDate" ASC
+          LIMIT 1
+        ))`,
+      );
+    }
+
+    // Location filter
+    if (queryParams?.location && queryParams.location.trim()) {
+      qb.andWhere('activity."eventLocation" ILIKE :location', {
+        location: `%${queryParams.location.trim()}%`,
+      });
+    }
+
+    // Venue filter: events in any room of the venue
+    if (queryParams?.venueId) {
+      if (!isUUID(queryParams.venueId)) {
+        throw new BadRequestException('venueId must be a UUID');
+      }
+      qb.andWhere(
+        `activity."roomId" IN (
+          SELECT room.id FROM rooms room WHERE room."venueId" = :venueId
+        )`,
+        { venueId: queryParams.venueId },
+      );
+    }
+
+    // Building filter: venue code or name, e.g. IB, on any campus
+    if (queryParams?.building && queryParams.building.trim()) {
+      qb.andWhere(
+        `activity."roomId" IN (
+          SELECT room.id FROM rooms room
+          JOIN venues venue ON venue.id = room."venueId"
+          WHERE lower(venue.code) = lower(:building)
+            OR lower(venue.name) = lower(:building)
+        )`,
+        { building: queryParams.building.trim() },
       );
     }
+
+    // Host filter
+    if (queryParams?.host && queryParams.host.trim()) {
+      qb.andWhere('activity."eventHost" ILIKE :host', {
+        host: `%${queryParams.host.trim()}%`,
+      });
+    }
+
+    // Date range filters
+    if (queryParams?.startDate) {
+      qb.andWhere('activity."startDate" >= :startDate', {
+        startDate: new Date(queryParams.startDate),
+      });
+    }
+
+    if (queryParams?.endDate) {
+      qb.andWhere('activity."endDate" <= :endDate', {
+        endDate: new Date(queryParams.endDate),
+      });
+    }
+
+    // Events that haven't ended by the given time, including ongoing ones
+    if (queryParams?.endsAfter) {
+      qb.andWhere('activity."endDate" >= :endsAfter', {
+        endsAfter: new Date(queryParams.endsAfter),
+      });
+    }
+
+    return qb;
   }
 
-  /** Escape user-provided tag text for regex safety */
-  private escapeRegex(s: string): string {
-    return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  /**
+   * Orders a filtered query by (startDate, id) and returns one page of it.
+   * With a cursor the page starts right after the cursor row (keyset
+   * pagination, stable while events are added), otherwise `page` is used as
+   * an offset. `total` always counts every row matching the filters.
+   */
+  private async paginateByStartDate(
+    qb: SelectQueryBuilder<Activity>,
+    options: { page: number; pageSize: number; cursor?: string },
+  ): Promise<PaginatedResult<Activity>> {
+    const { page, pageSize, cursor } = options;
+    const total = await qb.getCount();
+
+    qb.orderBy('activity."startDate"', 'ASC').addOrderBy('activity.id', 'ASC');
+
+    if (cursor) {
+      const after = decodeCursor(cursor);
+      qb.andWhere(
+        '(activity."startDate", activity.id) > (:cursorStartDate, :cursorId)',
+        { cursorStartDate: after.startDate, cursorId: after.id },
+      );
+
+      // fetch one extra row to learn whether another page follows
+      const rows = await qb.take(pageSize + 1).getMany();
+      const data = rows.slice(0, pageSize);
+      return toPaginatedResult(data, {
+        page: null,
+        pageSize,
+        total,
+        nextCursor:
+          rows.length > pageSize ? encodeCursor(data[data.length - 1]) : null,
+      });
+    }
+
+    const offset = (page - 1) * pageSize;
+    const data = await qb.take(pageSize).skip(offset).getMany();
+    const hasMore = data.length > 0 && offset + data.length < total;
+    return toPaginatedResult(data, {
+      page,
+      pageSize,
+      total,
+      nextCursor: hasMore ? encodeCursor(data[data.length - 1]) : null,
+    });
   }
 }
@@ -0,0 +1,83 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Logger } from '@nestjs/common';
+import { ActivityService } from './activity.service';
+import {
+  ARCHIVE_CHECK_INTERVAL_MS,
+  ArchiveSchedulerService,
+} from './archive-scheduler.service';
+
+describe('ArchiveSchedulerService', () => {
+  let scheduler: ArchiveSchedulerService;
+
+  const mockActivityService = {
+    autoArchiveActivities: jest.fn(),
+  };
+
+  const archived = (count: number) => ({
+    dryRun: false,
+    archiveAfterHours: 24,
+    events: Array.from({ length: count }, (_, i) => ({ id: `a-${i}` })),
+  });
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+    jest.spyOn(Logger.prototype, 'log').mockImplementation();
+    jest.spyOn(Logger.prototype, 'error').mockImplementation();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ArchiveSchedulerService,
+        { provide: ActivityService, useValue: mockActivityService },
+      ],
+    }).compile();
+
+    scheduler = module.get<ArchiveSchedulerService>(ArchiveSchedulerService);
+  });
+
+  afterEach(() => {
+    scheduler.onModuleDestroy();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('archives finished events on startup and on every interval', async () => {
+    mockActivityService.autoArchiveActivities.mockResolvedValue(archived(0));
+
+    scheduler.onModuleInit();
+    expect(mockActivityService.autoArchiveActivities).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(ARCHIVE_CHECK_INTERVAL_MS);
+    expect(mockActivityService.autoArchiveActivities).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns how many events were archived', async () => {
+    mockActivityService.autoArchiveActivities.mockResolvedValue(archived(2));
+
+    await expect(scheduler.archivePastActivities()).resolves.toBe(2);
+    expect(Logger.prototype.log).toHaveBeenCalled();
+  });
+
+  it('does not start a run while the previous one is in progress', async () => {
+    let finish: (result: ReturnType<typeof archived>) => void;
+    mockActivityService.autoArchiveActivities.mockReturnValue(
+      new Promise((resolve) => (finish = resolve)),
+    );
+
+    const first = scheduler.archivePastActivities();
+    await expect(scheduler.archivePastActivities()).resolves.toBe(0);
+    finish(archived(1));
+
+    await expect(first).resolves.toBe(1);
+    expect(mockActivityService.autoArchiveActivities).toHaveBeenCalledTimes(1);
+  });
+
+  it('logs and swallows errors so the next tick still runs', async () => {
+    mockActivityService.autoArchiveActivities.mockRejectedValue(
+      new Error('Database error'),
+    );
+
+    await expect(scheduler.archivePastActivities()).resolves.toBe(0);
+    expect(Logger.prototype.error).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,33 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { IntervalJob } from '../../../common/interval-job';
+import { ActivityService } from './activity.service';
+
+// How often finished events are checked for archival
+export const ARCHIVE_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * Background job that archives events some time after they end (see
+ * EVENT_AUTO_ARCHIVE_AFTER_HOURS). Runs once on startup to catch up on
+ * events that ended while the server was down.
+ */
+@Injectable()
+export class ArchiveSchedulerService extends IntervalJob {
+  protected readonly logger = new Logger(ArchiveSchedulerService.name);
+  protected readonly failureMessage = 'Failed to archive finished events';
+
+  constructor(private readonly activityService: ActivityService) {
+    super(ARCHIVE_CHECK_INTERVAL_MS);
+  }
+
+  archivePastActivities(): Promise<number> {
+    return this.runOnce();
+  }
+
+  protected async run(): Promise<number> {
+    const { events } = await this.activityService.autoArchiveActivities();
+    if (events.length > 0) {
+      this.logger.log(`Archived ${events.length} finished event(s)`);
+    }
+    return events.length;
+  }
+}
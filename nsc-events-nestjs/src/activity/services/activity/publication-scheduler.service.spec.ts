@@ -0,0 +1,88 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Logger } from '@nestjs/common';
+import { ActivityService } from './activity.service';
+import {
+  PUBLISH_CHECK_INTERVAL_MS,
+  PublicationSchedulerService,
+} from './publication-scheduler.service';
+
+describe('PublicationSchedulerService', () => {
+  let scheduler: PublicationSchedulerService;
+
+  const mockActivityService = {
+    publishDueActivities: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+    jest.spyOn(Logger.prototype, 'log').mockImplementation();
+    jest.spyOn(Logger.prototype, 'error').mockImplementation();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PublicationSchedulerService,
+        { provide: ActivityService, useValue: mockActivityService },
+      ],
+    }).compile();
+
+    scheduler = module.get<PublicationSchedulerService>(
+      PublicationSchedulerService,
+    );
+  });
+
+  afterEach(() => {
+    scheduler.onModuleDestroy();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('publishes due events on startup and on every interval', async () => {
+    mockActivityService.publishDueActivities.mockResolvedValue(0);
+
+    scheduler.onModuleInit();
+    expect(mockActivityService.publishDueActivities).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(PUBLISH_CHECK_INTERVAL_MS);
+    expect(mockActivityService.publishDueActivities).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops checking once the module is destroyed', async () => {
+    mockActivityService.publishDueActivities.mockResolvedValue(0);
+
+    scheduler.onModuleInit();
+    scheduler.onModuleDestroy();
+    await jest.advanceTimersByTimeAsync(PUBLISH_CHECK_INTERVAL_MS * 3);
+
+    expect(mockActivityService.publishDueActivities).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns how many events were published', async () => {
+    mockActivityService.publishDueActivities.mockResolvedValue(2);
+
+    await expect(scheduler.publishDueActivities()).resolves.toBe(2);
+  });
+
+  it('does not start a run while the previous one is in progress', async () => {
+    let finish: (count: number) => void;
+    mockActivityService.publishDueActivities.mockReturnValue(
+      new Promise((resolve) => (finish = resolve)),
+    );
+
+    const first = scheduler.publishDueActivities();
+    await expect(scheduler.publishDueActivities()).resolves.toBe(0);
+    finish(1);
+
+    await expect(first).resolves.toBe(1);
+    expect(mockActivityService.publishDueActivities).toHaveBeenCalledTimes(1);
+  });
+
+  it('logs and swallows errors so the next tick still runs', async () => {
+    mockActivityService.publishDueActivities.mockRejectedValue(
+      new Error('Database error'),
+    );
+
+    await expect(scheduler.publishDueActivities()).resolves.toBe(0);
+    expect(Logger.prototype.error).toHaveBeenCalled();
+  });
+});
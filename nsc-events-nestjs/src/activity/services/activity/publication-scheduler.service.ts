@@ -0,0 +1,33 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { IntervalJob } from '../../../common/interval-job';
+import { ActivityService } from './activity.service';
+
+// How often scheduled events are checked, so they go live within a minute
+export const PUBLISH_CHECK_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Background job that publishes scheduled events once their publishAt
+ * passes. Runs once on startup to catch up on events that came due while
+ * the server was down.
+ */
+@Injectable()
+export class PublicationSchedulerService extends IntervalJob {
+  protected readonly logger = new Logger(PublicationSchedulerService.name);
+  protected readonly failureMessage = 'Failed to publish scheduled events';
+
+  constructor(private readonly activityService: ActivityService) {
+    super(PUBLISH_CHECK_INTERVAL_MS);
+  }
+
+  publishDueActivities(): Promise<number> {
+    return this.runOnce();
+  }
+
+  protected async run(): Promise<number> {
+    const published = await this.activityService.publishDueActivities();
+    if (published > 0) {
+      this.logger.log(`Published ${published} scheduled event(s)`);
+    }
+    return published;
+  }
+}
@@ -0,0 +1,77 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Logger } from '@nestjs/common';
+import { ActivityService } from './activity.service';
+import {
+  PURGE_CHECK_INTERVAL_MS,
+  TrashRetentionService,
+} from './trash-retention.service';
+
+describe('TrashRetentionService', () => {
+  let retention: TrashRetentionService;
+
+  const mockActivityService = {
+    purgeExpiredActivities: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+    jest.spyOn(Logger.prototype, 'log').mockImplementation();
+    jest.spyOn(Logger.prototype, 'error').mockImplementation();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TrashRetentionService,
+        { provide: ActivityService, useValue: mockActivityService },
+      ],
+    }).compile();
+
+    retention = module.get<TrashRetentionService>(TrashRetentionService);
+  });
+
+  afterEach(() => {
+    retention.onModuleDestroy();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('purges expired events on startup and on every interval', async () => {
+    mockActivityService.purgeExpiredActivities.mockResolvedValue(0);
+
+    retention.onModuleInit();
+    expect(mockActivityService.purgeExpiredActivities).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(PURGE_CHECK_INTERVAL_MS);
+    expect(mockActivityService.purgeExpiredActivities).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns how many events were purged', async () => {
+    mockActivityService.purgeExpiredActivities.mockResolvedValue(3);
+
+    await expect(retention.purgeExpiredActivities()).resolves.toBe(3);
+    expect(Logger.prototype.log).toHaveBeenCalled();
+  });
+
+  it('does not start a run while the previous one is in progress', async () => {
+    let finish: (count: number) => void;
+    mockActivityService.purgeExpiredActivities.mockReturnValue(
+      new Promise((resolve) => (finish = resolve)),
+    );
+
+    const first = retention.purgeExpiredActivities();
+    await expect(retention.purgeExpiredActivities()).resolves.toBe(0);
+    finish(1);
+
+    await expect(first).resolves.toBe(1);
+    expect(mockActivityService.purgeExpiredActivities).toHaveBeenCalledTimes(1);
+  });
+
+  it('logs and swallows errors so the next tick still runs', async () => {
+    mockActivityService.purgeExpiredActivities.mockRejectedValue(
+      new Error('Database error'),
+    );
+
+    await expect(retention.purgeExpiredActivities()).resolves.toBe(0);
+    expect(Logger.prototype.error).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,32 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { IntervalJob } from '../../../common/interval-job';
+import { ActivityService } from './activity.service';
+
+// Retention is counted in days, so checking hourly is plenty
+export const PURGE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Background job that permanently deletes events once they have been in the
+ * trash longer than EVENT_TRASH_RETENTION_DAYS. Runs once on startup too.
+ */
+@Injectable()
+export class TrashRetentionService extends IntervalJob {
+  protected readonly logger = new Logger(TrashRetentionService.name);
+  protected readonly failureMessage = 'Failed to purge trashed events';
+
+  constructor(private readonly activityService: ActivityService) {
+    super(PURGE_CHECK_INTERVAL_MS);
+  }
+
+  purgeExpiredActivities(): Promise<number> {
+    return this.runOnce();
+  }
+
+  protected async run(): Promise<number> {
+    const purged = await this.activityService.purgeExpiredActivities();
+    if (purged > 0) {
+      this.logger.log(`Permanently deleted ${purged} trashed event(s)`);
+    }
+    return purged;
+  }
+}
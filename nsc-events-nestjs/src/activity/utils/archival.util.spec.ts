@@ -0,0 +1,44 @@
+import {
+  autoArchiveCutoff,
+  DEFAULT_AUTO_ARCHIVE_AFTER_HOURS,
+  parseAutoArchiveHours,
+} from './archival.util';
+
+describe('archival.util', () => {
+  describe('parseAutoArchiveHours', () => {
+    it('defaults to a day after the event ends', () => {
+      expect(parseAutoArchiveHours(undefined)).toBe(
+        DEFAULT_AUTO_ARCHIVE_AFTER_HOURS,
+      );
+      expect(DEFAULT_AUTO_ARCHIVE_AFTER_HOURS).toBe(24);
+    });
+
+    it('reads the setting as a number of hours', () => {
+      expect(parseAutoArchiveHours('72')).toBe(72);
+      expect(parseAutoArchiveHours('0.5')).toBe(0.5);
+    });
+
+    it('turns automatic archival off for an empty setting', () => {
+      expect(parseAutoArchiveHours('')).toBeNull();
+      expect(parseAutoArchiveHours('  ')).toBeNull();
+    });
+
+    it('ignores invalid settings', () => {
+      expect(parseAutoArchiveHours('later')).toBe(
+        DEFAULT_AUTO_ARCHIVE_AFTER_HOURS,
+      );
+      expect(parseAutoArchiveHours('0')).toBe(DEFAULT_AUTO_ARCHIVE_AFTER_HOURS);
+      expect(parseAutoArchiveHours('-4')).toBe(
+        DEFAULT_AUTO_ARCHIVE_AFTER_HOURS,
+      );
+    });
+  });
+
+  describe('autoArchiveCutoff', () => {
+    it('goes back the delay from now', () => {
+      expect(autoArchiveCutoff(new Date('2025-03-02T12:00:00Z'), 36)).toEqual(
+        new Date('2025-03-01T00:00:00Z'),
+      );
+    });
+  });
+});
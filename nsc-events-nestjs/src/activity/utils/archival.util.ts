@@ -0,0 +1,32 @@
+// Hours after an event ends before it is archived when
+// EVENT_AUTO_ARCHIVE_AFTER_HOURS isn't set
+export const DEFAULT_AUTO_ARCHIVE_AFTER_HOURS = 24;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Parses EVENT_AUTO_ARCHIVE_AFTER_HOURS. Returns null when the setting is
+ * empty, which turns automatic archival off, and falls back to the default
+ * for missing or invalid values.
+ */
+export function parseAutoArchiveHours(value?: string | number): number | null {
+  if (value === undefined || value === null) {
+    return DEFAULT_AUTO_ARCHIVE_AFTER_HOURS;
+  }
+  if (String(value).trim() === '') {
+    return null;
+  }
+
+  const hours = Number(value);
+  return Number.isFinite(hours) && hours > 0
+    ? hours
+    : DEFAULT_AUTO_ARCHIVE_AFTER_HOURS;
+}
+
+/**
+ * Events that ended before the returned date are due to be archived. An
+ * event unarchived by hand gets the same grace period from its unarchive.
+ */
+export function autoArchiveCutoff(now: Date, afterHours: number): Date {
+  return new Date(now.getTime() - afterHours * HOUR_MS);
+}
@@ -0,0 +1,56 @@
+// Sentinel accepted from forms for events without a seat limit
+export const UNLIMITED_CAPACITY = 'unlimited';
+
+/**
+ * Normalizes a capacity value from a request. Positive whole numbers (or
+ * numeric strings) are seat limits, null or "unlimited" means no limit.
+ * Returns undefined when the value is not a valid capacity.
+ */
+export function parseCapacity(value: unknown): number | null | undefined {
+  if (value === null) {
+    return null;
+  }
+
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (trimmed.toLowerCase() === UNLIMITED_CAPACITY) {
+      return null;
+    }
+    if (!/^\d+$/.test(trimmed)) {
+      return undefined;
+    }
+    value = Number(trimmed);
+  }
+
+  if (typeof value === 'number' && Number.isInteger(value) && value > 0) {
+    return value;
+  }
+
+  return undefined;
+}
+
+/**
+ * Returns true when every seat of an event with the given capacity is taken.
+ */
+export function isAtCapacity(
+  capacity: number | null | undefined,
+  registeredCount: number,
+): boolean {
+  return (
+    capacity !== null && capacity !== undefined && registeredCount >= capacity
+  );
+}
+
+/**
+ * Returns true when changing the capacity of an event frees seats, because
+ * the limit was raised or removed.
+ */
+export function addsSeats(
+  previous: number | null | undefined,
+  next: number | null | undefined,
+): boolean {
+  if (previous === null || previous === undefined) {
+    return false;
+  }
+  return next === null || next === undefined || next > previous;
+}
@@ -0,0 +1,57 @@
+import { nextWeeklyStart, pickReusableFields } from './clone.util';
+
+describe('clone.util', () => {
+  describe('pickReusableFields', () => {
+    it('copies event details but not dates or state', () => {
+      const fields = pickReusableFields({
+        id: 'a-1',
+        eventTitle: 'Study Night',
+        eventHost: 'Math Club',
+        eventCapacity: null,
+        eventSocialMedia: { instagram: 'mathclub' },
+        startDate: new Date('2025-03-04T18:00:00Z'),
+        isArchived: true,
+        attendanceCount: 12,
+      });
+
+      expect(fields).toEqual({
+        eventTitle: 'Study Night',
+        eventHost: 'Math Club',
+        eventCapacity: null,
+        eventSocialMedia: { instagram: 'mathclub' },
+      });
+    });
+  });
+
+  describe('nextWeeklyStart', () => {
+    const now = new Date('2025-03-10T12:00:00Z');
+
+    it('moves an upcoming event one week ahead', () => {
+      expect(nextWeeklyStart(new Date('2025-03-12T18:00:00Z'), now)).toEqual(
+        new Date('2025-03-19T18:00:00Z'),
+      );
+    });
+
+    it('moves a past event to its first weekday after now', () => {
+      expect(nextWeeklyStart(new Date('2025-02-04T18:00:00Z'), now)).toEqual(
+        new Date('2025-03-11T18:00:00Z'),
+      );
+    });
+
+    it('skips a week that starts right now', () => {
+      expect(nextWeeklyStart(new Date('2025-03-03T12:00:00Z'), now)).toEqual(
+        new Date('2025-03-17T12:00:00Z'),
+      );
+    });
+
+    it('keeps the local time after a daylight saving change', () => {
+      expect(
+        nextWeeklyStart(
+          new Date('2025-03-04T18:00:00Z'),
+          now,
+          'America/Los_Angeles',
+        ),
+      ).toEqual(new Date('2025-03-11T17:00:00Z'));
+    });
+  });
+});
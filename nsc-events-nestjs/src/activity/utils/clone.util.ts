@@ -0,0 +1,64 @@
+import { Activity, RecurrenceFrequency } from '../entities/activity.entity';
+import { getOccurrenceStart } from './recurrence.util';
+
+// Event details copied into clones and saved in templates. Dates,
+// attendance, series, publication and review state always start fresh.
+export const REUSABLE_FIELDS = [
+  'eventTitle',
+  'eventDescription',
+  'eventLocation',
+  'roomId',
+  'setupMinutes',
+  'teardownMinutes',
+  'timeZone',
+  'eventCoverPhoto',
+  'eventDocument',
+  'eventHost',
+  'eventMeetingURL',
+  'eventRegistration',
+  'eventCapacity',
+  'eventTags',
+  'eventSchedule',
+  'eventSpeakers',
+  'eventPrerequisites',
+  'eventCancellationPolicy',
+  'eventContact',
+  'eventSocialMedia',
+  'eventPrivacy',
+  'eventAccessibility',
+  'eventNote',
+] as const;
+
+export type ReusableFields = Partial<
+  Pick<Activity, (typeof REUSABLE_FIELDS)[number]>
+>;
+
+/** Copies the reusable details of an event, leaving out unset ones */
+export function pickReusableFields(source: Partial<Activity>): ReusableFields {
+  const fields: ReusableFields = {};
+  for (const field of REUSABLE_FIELDS) {
+    if (source[field] !== undefined) {
+      (fields as Record<string, unknown>)[field] = source[field];
+    }
+  }
+  return fields;
+}
+
+/**
+ * Start date for a copy of an event that wasn't given one: the same weekday
+ * and local time in `timeZone`, in the first week after both the original
+ * and `now`.
+ */
+export function nextWeeklyStart(
+  original: Date,
+  now: Date,
+  timeZone = 'UTC',
+): Date {
+  const weekAfter = (weeks: number) =>
+    getOccurrenceStart(original, RecurrenceFrequency.weekly, weeks, timeZone);
+  let weeks = 1;
+  while (weekAfter(weeks).getTime() <= now.getTime()) {
+    weeks++;
+  }
+  return weekAfter(weeks);
+}
@@ -0,0 +1,41 @@
+import {
+  CoverPhotoVariants,
+  coverVariantKey,
+  coverVariantKeys,
+} from './cover-variants.util';
+
+describe('cover-variants.util', () => {
+  it('should name variants after the key they were made from', () => {
+    expect(coverVariantKey('covers/1-fair', 'card', 'jpeg')).toBe(
+      'covers/1-fair-card.jpg',
+    );
+    expect(coverVariantKey('covers/1-fair', 'hero', 'webp')).toBe(
+      'covers/1-fair-hero.webp',
+    );
+  });
+
+  it('should list the keys of every variant file', () => {
+    const variant = (name: string) => ({
+      width: 1,
+      height: 1,
+      jpeg: { key: `${name}.jpg`, url: '' },
+      webp: { key: `${name}.webp`, url: '' },
+    });
+    const variants: CoverPhotoVariants = {
+      source: 'https://example.com/a.jpg',
+      thumbnail: variant('t'),
+      card: variant('c'),
+      hero: variant('h'),
+    };
+
+    expect(coverVariantKeys(variants)).toEqual([
+      't.jpg',
+      't.webp',
+      'c.jpg',
+      'c.webp',
+      'h.jpg',
+      'h.webp',
+    ]);
+    expect(coverVariantKeys(null)).toEqual([]);
+  });
+});
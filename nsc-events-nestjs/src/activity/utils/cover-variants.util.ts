@@ -0,0 +1,53 @@
+// Sizes cover photos are resized to fit in. Cards on the home page and in
+// lists use the smaller ones, the detail page the hero.
+export const COVER_VARIANT_SIZES = {
+  thumbnail: { width: 320, height: 180 },
+  card: { width: 640, height: 360 },
+  hero: { width: 1920, height: 1080 },
+} as const;
+
+export type CoverVariantName = keyof typeof COVER_VARIANT_SIZES;
+
+export const COVER_VARIANT_NAMES = Object.keys(
+  COVER_VARIANT_SIZES,
+) as CoverVariantName[];
+
+export interface StoredImage {
+  key: string;
+  url: string;
+}
+
+export interface CoverPhotoVariant {
+  // Actual size, smaller than the variant's box for small or narrow images
+  width: number;
+  height: number;
+  jpeg: StoredImage;
+  webp: StoredImage;
+}
+
+export type CoverPhotoVariants = {
+  // Cover photo the variants were made from. Once the event's cover photo
+  // changes they no longer apply.
+  source: string;
+} & Record<CoverVariantName, CoverPhotoVariant>;
+
+/** Key of one variant, next to the key it was made from */
+export function coverVariantKey(
+  baseKey: string,
+  name: CoverVariantName,
+  format: 'jpeg' | 'webp',
+): string {
+  return `${baseKey}-${name}.${format === 'jpeg' ? 'jpg' : 'webp'}`;
+}
+
+/** Keys of every file of a set of variants */
+export function coverVariantKeys(
+  variants?: CoverPhotoVariants | null,
+): string[] {
+  if (!variants) {
+    return [];
+  }
+  return COVER_VARIANT_NAMES.flatMap((name) =>
+    variants[name] ? [variants[name].jpeg.key, variants[name].webp.key] : [],
+  );
+}
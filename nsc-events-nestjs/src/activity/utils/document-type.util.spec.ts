@@ -0,0 +1,100 @@
+import { sniffDocumentType, zipEntryNames } from './document-type.util';
+import { zipEntries } from '../../export/utils/zip.util';
+import { collect } from '../../../test/utils/read-zip';
+
+const zipOf = (...names: string[]) =>
+  collect(
+    zipEntries(
+      names.map((name) => ({ name, content: ['<xml/>'] })),
+      new Date('2025-01-15T18:00:00Z'),
+    ),
+  );
+
+const OLE_HEADER = Buffer.from([
+  0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1, 0, 0, 0, 0,
+]);
+
+describe('zipEntryNames', () => {
+  it('should list the entries of an archive', async () => {
+    const archive = await zipOf('[Content_Types].xml', 'word/document.xml');
+
+    expect(zipEntryNames(archive)).toEqual([
+      '[Content_Types].xml',
+      'word/document.xml',
+    ]);
+  });
+
+  it('should return nothing for a truncated archive', async () => {
+    const archive = await zipOf('[Content_Types].xml', 'word/document.xml');
+
+    expect(zipEntryNames(archive.subarray(0, archive.length - 30))).toEqual([]);
+  });
+});
+
+describe('sniffDocumentType', () => {
+  it('should recognize PDFs whatever they are called', () => {
+    const pdf = Buffer.from('%PDF-1.7\n%âãÏÓ\n1 0 obj');
+
+    expect(sniffDocumentType(pdf, 'agenda.pdf')).toEqual({
+      extension: 'pdf',
+      mimeType: 'application/pdf',
+    });
+    expect(sniffDocumentType(pdf, 'agenda.docx')?.extension).toBe('pdf');
+  });
+
+  it('should tell Office Open XML formats apart by their folders', async () => {
+    expect(
+      sniffDocumentType(
+        await zipOf('[Content_Types].xml', 'word/document.xml'),
+        'flyer.docx',
+      ),
+    ).toEqual({
+      extension: 'docx',
+      mimeType:
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    });
+    expect(
+      sniffDocumentType(
+        await zipOf('[Content_Types].xml', 'xl/workbook.xml'),
+        'budget.xlsx',
+      )?.extension,
+    ).toBe('xlsx');
+    expect(
+      sniffDocumentType(
+        await zipOf('[Content_Types].xml', 'ppt/presentation.xml'),
+        'slides.pptx',
+      )?.extension,
+    ).toBe('pptx');
+  });
+
+  it('should reject other zip archives', async () => {
+    expect(
+      sniffDocumentType(await zipOf('setup.exe'), 'waiver.docx'),
+    ).toBeNull();
+    expect(
+      sniffDocumentType(
+        await zipOf('[Content_Types].xml', 'content.xml'),
+        'waiver.docx',
+      ),
+    ).toBeNull();
+  });
+
+  it('should use the extension for 97-2003 Office documents', () => {
+    expect(sniffDocumentType(OLE_HEADER, 'waiver.DOC')).toEqual({
+      extension: 'doc',
+      mimeType: 'application/msword',
+    });
+    expect(sniffDocumentType(OLE_HEADER, 'budget.xls')?.extension).toBe('xls');
+    expect(sniffDocumentType(OLE_HEADER, 'installer.msi')).toBeNull();
+  });
+
+  it('should reject anything else', () => {
+    expect(sniffDocumentType(Buffer.from('MZ\x90\x00'), 'agenda.pdf')).toBe(
+      null,
+    );
+    expect(
+      sniffDocumentType(Buffer.from('<html></html>'), 'flyer.doc'),
+    ).toBeNull();
+    expect(sniffDocumentType(Buffer.alloc(0), 'empty.pdf')).toBeNull();
+  });
+});
@@ -0,0 +1,105 @@
+export interface DocumentType {
+  extension: string;
+  mimeType: string;
+}
+
+// Agendas, flyers and waivers come as PDFs or Office documents
+export const DOCUMENT_MIME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  xls: 'application/vnd.ms-excel',
+  ppt: 'application/vnd.ms-powerpoint',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+};
+
+const PDF_SIGNATURE = Buffer.from('%PDF-');
+// Readers accept a PDF header anywhere in the first kilobyte
+const PDF_HEADER_WINDOW = 1024;
+// Compound file container of Word 97-2003, Excel 97-2003 and PowerPoint 97-2003
+const OLE_SIGNATURE = Buffer.from([
+  0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1,
+]);
+const ZIP_SIGNATURE = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+const ZIP_END_SIGNATURE = Buffer.from([0x50, 0x4b, 0x05, 0x06]);
+const ZIP_ENTRY_SIGNATURE = 0x02014b50;
+
+// Folder each Office Open XML format keeps its main part in
+const OOXML_FOLDERS: [string, string][] = [
+  ['docx', 'word/'],
+  ['xlsx', 'xl/'],
+  ['pptx', 'ppt/'],
+];
+
+const toType = (extension: string): DocumentType => ({
+  extension,
+  mimeType: DOCUMENT_MIME_TYPES[extension],
+});
+
+/**
+ * Lists the entry names in a zip archive's central directory, or returns an
+ * empty list when the archive is truncated or malformed.
+ */
+export function zipEntryNames(buffer: Buffer): string[] {
+  const end = buffer.lastIndexOf(ZIP_END_SIGNATURE);
+  if (end < 0 || end + 22 > buffer.length) {
+    return [];
+  }
+
+  const names: string[] = [];
+  const count = buffer.readUInt16LE(end + 10);
+  let position = buffer.readUInt32LE(end + 16);
+  for (let i = 0; i < count; i++) {
+    if (
+      position + 46 > buffer.length ||
+      buffer.readUInt32LE(position) !== ZIP_ENTRY_SIGNATURE
+    ) {
+      return [];
+    }
+    const nameLength = buffer.readUInt16LE(position + 28);
+    const extraLength = buffer.readUInt16LE(position + 30);
+    const commentLength = buffer.readUInt16LE(position + 32);
+    names.push(
+      buffer.toString('utf8', position + 46, position + 46 + nameLength),
+    );
+    position += 46 + nameLength + extraLength + commentLength;
+  }
+  return names;
+}
+
+/**
+ * Works out a document's type from its contents rather than the MIME type
+ * the browser reported. Returns null for anything that isn't a PDF or an
+ * Office document.
+ *
+ * The 97-2003 Office formats share one container, so the file name's
+ * extension decides between them.
+ */
+export function sniffDocumentType(
+  buffer: Buffer,
+  fileName: string,
+): DocumentType | null {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+
+  if (buffer.subarray(0, PDF_HEADER_WINDOW).includes(PDF_SIGNATURE)) {
+    return toType('pdf');
+  }
+
+  if (buffer.subarray(0, OLE_SIGNATURE.length).equals(OLE_SIGNATURE)) {
+    return ['doc', 'xls', 'ppt'].includes(extension) ? toType(extension) : null;
+  }
+
+  if (buffer.subarray(0, ZIP_SIGNATURE.length).equals(ZIP_SIGNATURE)) {
+    const names = zipEntryNames(buffer);
+    if (!names.includes('[Content_Types].xml')) {
+      return null;
+    }
+    const match = OOXML_FOLDERS.find(([, folder]) =>
+      names.some((name) => name.startsWith(folder)),
+    );
+    return match ? toType(match[0]) : null;
+  }
+
+  return null;
+}
@@ -0,0 +1,23 @@
+import { pickEditableFields } from './edit.util';
+
+describe('edit.util', () => {
+  describe('pickEditableFields', () => {
+    it('copies event details but not review, owner or trash state', () => {
+      const fields = pickEditableFields({
+        eventTitle: 'Study Night',
+        eventNote: '',
+        isHidden: false,
+        approvalStatus: 'approved',
+        rejectionReason: null,
+        createdByUserId: 'user-2',
+        deletedAt: null,
+      } as Parameters<typeof pickEditableFields>[0]);
+
+      expect(fields).toEqual({
+        eventTitle: 'Study Night',
+        eventNote: '',
+        isHidden: false,
+      });
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import { Activity } from '../entities/activity.entity';
+
+// Event details an edit copies as sent. Dates, capacity, tags, speakers,
+// buffers, room and publication are converted by the service, and archiving
+// goes through its own workflow; review, ownership and trash state are never
+// taken from an edit.
+export const EDITABLE_FIELDS = [
+  'eventTitle',
+  'eventDescription',
+  'timeZone',
+  'eventLocation',
+  'eventCoverPhoto',
+  'eventDocument',
+  'eventHost',
+  'eventMeetingURL',
+  'eventRegistration',
+  'eventSchedule',
+  'eventPrerequisites',
+  'eventCancellationPolicy',
+  'eventContact',
+  'eventPrivacy',
+  'eventAccessibility',
+  'eventNote',
+  'isHidden',
+] as const;
+
+export type EditableFields = Partial<
+  Pick<Activity, (typeof EDITABLE_FIELDS)[number]>
+>;
+
+/** Copies the editable details of an update, leaving out unset ones */
+export function pickEditableFields(source: EditableFields): EditableFields {
+  const fields: EditableFields = {};
+  for (const field of EDITABLE_FIELDS) {
+    if (source[field] !== undefined) {
+      (fields as Record<string, unknown>)[field] = source[field];
+    }
+  }
+  return fields;
+}
@@ -0,0 +1,40 @@
+import {
+  DEFAULT_REVIEW_ROLES,
+  parseReviewRoles,
+  requiresReview,
+} from './moderation.util';
+
+describe('moderation.util', () => {
+  describe('parseReviewRoles', () => {
+    it('defaults to reviewing creators', () => {
+      expect(parseReviewRoles(undefined)).toEqual(DEFAULT_REVIEW_ROLES);
+      expect(DEFAULT_REVIEW_ROLES).toEqual(['creator']);
+    });
+
+    it('splits, trims and lowercases the setting', () => {
+      expect(parseReviewRoles(' Creator, user ')).toEqual(['creator', 'user']);
+    });
+
+    it('turns review off for an empty setting', () => {
+      expect(parseReviewRoles('')).toEqual([]);
+    });
+  });
+
+  describe('requiresReview', () => {
+    it('requires review for listed roles', () => {
+      expect(requiresReview('creator', ['creator'])).toBe(true);
+    });
+
+    it('approves roles that are not listed', () => {
+      expect(requiresReview('creator', [])).toBe(false);
+    });
+
+    it('always approves admins', () => {
+      expect(requiresReview('admin', ['admin', 'creator'])).toBe(false);
+    });
+
+    it('does not require review without a role', () => {
+      expect(requiresReview(undefined, ['creator'])).toBe(false);
+    });
+  });
+});
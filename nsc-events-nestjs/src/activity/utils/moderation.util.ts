@@ -0,0 +1,30 @@
+import { Role } from '../../user/entities/user.entity';
+
+// Roles whose events wait for admin approval when EVENT_REVIEW_ROLES is unset
+export const DEFAULT_REVIEW_ROLES: string[] = [Role.creator];
+
+/**
+ * Parses the comma-separated EVENT_REVIEW_ROLES setting. An empty string
+ * turns review off for everyone.
+ */
+export function parseReviewRoles(value?: string): string[] {
+  if (value === undefined || value === null) {
+    return DEFAULT_REVIEW_ROLES;
+  }
+
+  return value
+    .split(',')
+    .map((role) => role.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Returns true when events created by the given role need admin approval.
+ * Admins are always approved automatically.
+ */
+export function requiresReview(
+  role: string | undefined,
+  reviewRoles: string[],
+): boolean {
+  return !!role && role !== Role.admin && reviewRoles.includes(role);
+}
@@ -0,0 +1,159 @@
+import { RecurrenceFrequency } from '../entities/activity.entity';
+import {
+  MAX_OCCURRENCES,
+  expandOccurrences,
+  isExceptionDate,
+  shiftLocalTime,
+} from './recurrence.util';
+
+describe('recurrence util', () => {
+  const start = new Date('2025-01-31T17:00:00Z');
+  const end = new Date('2025-01-31T18:30:00Z');
+
+  describe('expandOccurrences', () => {
+    it('should expand a weekly rule bounded by count', () => {
+      const occurrences = expandOccurrences(start, end, {
+        frequency: RecurrenceFrequency.weekly,
+        count: 3,
+      });
+
+      expect(occurrences.map((o) => o.startDate.toISOString())).toEqual([
+        '2025-01-31T17:00:00.000Z',
+        '2025-02-07T17:00:00.000Z',
+        '2025-02-14T17:00:00.000Z',
+      ]);
+      expect(occurrences[2].endDate.toISOString()).toBe(
+        '2025-02-14T18:30:00.000Z',
+      );
+    });
+
+    it('should expand a biweekly rule bounded by an inclusive until date', () => {
+      const occurrences = expandOccurrences(start, end, {
+        frequency: RecurrenceFrequency.biweekly,
+        until: '2025-02-28',
+      });
+
+      expect(occurrences.map((o) => o.startDate.toISOString())).toEqual([
+        '2025-01-31T17:00:00.000Z',
+        '2025-02-14T17:00:00.000Z',
+        '2025-02-28T17:00:00.000Z',
+      ]);
+    });
+
+    it('should step monthly from the original start without drifting', () => {
+      const occurrences = expandOccurrences(start, end, {
+        frequency: RecurrenceFrequency.monthly,
+        count: 3,
+      });
+
+      expect(occurrences.map((o) => o.startDate.toISOString())).toEqual([
+        '2025-01-31T17:00:00.000Z',
+        '2025-02-28T17:00:00.000Z',
+        '2025-03-31T17:00:00.000Z',
+      ]);
+    });
+
+    it('should skip exception dates while still counting them', () => {
+      const occurrences = expandOccurrences(start, end, {
+        frequency: RecurrenceFrequency.weekly,
+        count: 3,
+        exceptionDates: ['2025-02-07'],
+      });
+
+      expect(occurrences).toHaveLength(2);
+      expect(occurrences[1].startDate.toISOString()).toBe(
+        '2025-02-14T17:00:00.000Z',
+      );
+    });
+
+    it('should never generate more than MAX_OCCURRENCES', () => {
+      const occurrences = expandOccurrences(start, end, {
+        frequency: RecurrenceFrequency.weekly,
+        until: '2099-12-31',
+      });
+
+      expect(occurrences).toHaveLength(MAX_OCCURRENCES);
+    });
+  });
+
+  describe('in a time zone', () => {
+    const timeZone = 'America/Los_Angeles';
+    // 6 PM Pacific, a week before clocks spring forward
+    const evening = new Date('2025-03-03T02:00:00Z');
+    const eveningEnd = new Date('2025-03-03T04:00:00Z');
+
+    it('should keep the local time across a daylight saving change', () => {
+      const occurrences = expandOccurrences(
+        evening,
+        eveningEnd,
+        { frequency: RecurrenceFrequency.weekly, count: 2 },
+        timeZone,
+      );
+
+      expect(occurrences.map((o) => o.startDate.toISOString())).toEqual([
+        '2025-03-03T02:00:00.000Z',
+        '2025-03-10T01:00:00.000Z',
+      ]);
+      expect(occurrences[1].endDate.toISOString()).toBe(
+        '2025-03-10T03:00:00.000Z',
+      );
+    });
+
+    it('should read date-only bounds and exceptions as local days', () => {
+      const occurrences = expandOccurrences(
+        evening,
+        eveningEnd,
+        {
+          frequency: RecurrenceFrequency.weekly,
+          until: '2025-03-16',
+          exceptionDates: ['2025-03-09'],
+        },
+        timeZone,
+      );
+
+      // 6 PM on March 16 is already March 17 in UTC
+      expect(occurrences.map((o) => o.startDate.toISOString())).toEqual([
+        '2025-03-03T02:00:00.000Z',
+        '2025-03-17T01:00:00.000Z',
+      ]);
+    });
+  });
+
+  describe('shiftLocalTime', () => {
+    it('should move other occurrences by the same local time', () => {
+      expect(
+        shiftLocalTime(
+          new Date('2025-03-10T01:00:00Z'),
+          new Date('2025-03-03T02:00:00Z'),
+          new Date('2025-03-03T03:00:00Z'),
+          'America/Los_Angeles',
+          'America/Los_Angeles',
+        ),
+      ).toEqual(new Date('2025-03-10T02:00:00Z'));
+    });
+
+    it('should keep the local time when the zone changes', () => {
+      expect(
+        shiftLocalTime(
+          new Date('2025-03-10T01:00:00Z'),
+          new Date('2025-03-03T02:00:00Z'),
+          new Date('2025-03-02T23:00:00Z'),
+          'America/Los_Angeles',
+          'America/New_York',
+        ),
+      ).toEqual(new Date('2025-03-09T22:00:00Z'));
+    });
+  });
+
+  describe('isExceptionDate', () => {
+    it('should match full timestamps exactly', () => {
+      expect(isExceptionDate(start, ['2025-01-31T17:00:00.000Z'])).toBe(true);
+      expect(isExceptionDate(start, ['2025-01-31T18:00:00.000Z'])).toBe(false);
+    });
+
+    it('should match date-only values by UTC day', () => {
+      expect(isExceptionDate(start, ['2025-01-31'])).toBe(true);
+      expect(isExceptionDate(start, [])).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import {
+  msToWallTime,
+  utcToZonedTime,
+  WallTime,
+  wallTimeToMs,
+  zonedTimeToUtc,
+} from '../../common/time-zone.util';
+import {
+  RecurrenceFrequency,
+  RecurrenceRule,
+} from '../entities/activity.entity';
+
+// Upper bound on how many occurrences a single series may generate
+export const MAX_OCCURRENCES = 104;
+
+export interface Occurrence {
+  startDate: Date;
+  endDate: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function addWallDays(wall: WallTime, days: number): WallTime {
+  return msToWallTime(wallTimeToMs(wall) + days * DAY_MS);
+}
+
+// Clamps to the last day of shorter months, e.g. Jan 31 + 1 month is Feb 28
+function addWallMonths(wall: WallTime, months: number): WallTime {
+  const monthIndex = wall.month - 1 + months;
+  const year = wall.year + Math.floor(monthIndex / 12);
+  const month = (((monthIndex % 12) + 12) % 12) + 1;
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return { ...wall, year, month, day: Math.min(wall.day, lastDay) };
+}
+
+/**
+ * Returns the start date of the n-th occurrence (0-based) of a series.
+ * Steps are always computed from the original start so monthly series
+ * don't drift when a month is shorter than the starting day. Every
+ * occurrence keeps the wall clock time of the first one in `timeZone`,
+ * across daylight saving changes too.
+ */
+export function getOccurrenceStart(
+  start: Date,
+  frequency: RecurrenceFrequency,
+  index: number,
+  timeZone = 'UTC',
+): Date {
+  const wall = utcToZonedTime(start, timeZone);
+  let occurrence: WallTime;
+  switch (frequency) {
+    case RecurrenceFrequency.weekly:
+      occurrence = addWallDays(wall, index * 7);
+      break;
+    case RecurrenceFrequency.biweekly:
+      occurrence = addWallDays(wall, index * 14);
+      break;
+    case RecurrenceFrequency.monthly:
+      occurrence = addWallMonths(wall, index);
+      break;
+    default:
+      throw new Error(`Unsupported recurrence frequency: ${frequency}`);
+  }
+  return new Date(
+    zonedTimeToUtc(occurrence, timeZone).getTime() + start.getUTCMilliseconds(),
+  );
+}
+
+/** The YYYY-MM-DD day of an instant in the given zone */
+function dayInZone(date: Date, timeZone: string): string {
+  const { year, month, day } = utcToZonedTime(date, timeZone);
+  return [year, month, day]
+    .map((part, index) => String(part).padStart(index === 0 ? 4 : 2, '0'))
+    .join('-');
+}
+
+/**
+ * Checks whether an occurrence start matches one of the exception dates.
+ * Date-only values (YYYY-MM-DD) match any occurrence on that day in
+ * `timeZone`, full timestamps must match exactly.
+ */
+export function isExceptionDate(
+  occurrenceStart: Date,
+  exceptionDates: string[] = [],
+  timeZone = 'UTC',
+): boolean {
+  return exceptionDates.some((exception) => {
+    if (/^\d{4}-\d{2}-\d{2}$/.test(exception)) {
+      return dayInZone(occurrenceStart, timeZone) === exception;
+    }
+    return new Date(exception).getTime() === occurrenceStart.getTime();
+  });
+}
+
+/**
+ * Parses the `until` bound of a rule. A date-only value includes the whole
+ * day in `timeZone`.
+ */
+function parseUntil(
+  until: string | undefined,
+  timeZone: string,
+): Date | undefined {
+  if (!until) {
+    return undefined;
+  }
+  if (/^\d{4}-\d{2}-\d{2}$/.test(until)) {
+    const [year, month, day] = until.split('-').map(Number);
+    const nextDay = addWallDays(
+      { year, month, day, hour: 0, minute: 0, second: 0 },
+      1,
+    );
+    return new Date(zonedTimeToUtc(nextDay, timeZone).getTime() - 1);
+  }
+  return new Date(until);
+}
+
+/**
+ * Expands a recurrence rule into the concrete occurrences of the series.
+ * The first occurrence always starts at `startDate`; every occurrence keeps
+ * the same duration and the same local time in the event's `timeZone`.
+ * Exception dates are skipped but still count towards `count`, matching
+ * RRULE/EXDATE semantics.
+ */
+export function expandOccurrences(
+  startDate: Date,
+  endDate: Date,
+  rule: RecurrenceRule,
+  timeZone = 'UTC',
+): Occurrence[] {
+  const duration = endDate.getTime() - startDate.getTime();
+  const until = parseUntil(rule.until, timeZone);
+  const limit = Math.min(rule.count ?? MAX_OCCURRENCES, MAX_OCCURRENCES);
+  const occurrences: Occurrence[] = [];
+
+  for (let index = 0; index < limit; index++) {
+    const occurrenceStart = getOccurrenceStart(
+      startDate,
+      rule.frequency,
+      index,
+      timeZone,
+    );
+
+    if (until && occurrenceStart > until) {
+      break;
+    }
+
+    if (isExceptionDate(occurrenceStart, rule.exceptionDates, timeZone)) {
+      continue;
+    }
+
+    occurrences.push({
+      startDate: occurrenceStart,
+      endDate: new Date(occurrenceStart.getTime() + duration),
+    });
+  }
+
+  return occurrences;
+}
+
+/**
+ * Moves `date` by the change of an edited occurrence from `before` to
+ * `after`, counted in local time, so occurrences on the other side of a
+ * daylight saving change keep their local time. `fromZone` and `toZone` are
+ * the event's zone before and after the edit.
+ */
+export function shiftLocalTime(
+  date: Date,
+  before: Date,
+  after: Date,
+  fromZone: string,
+  toZone: string,
+): Date {
+  const change =
+    wallTimeToMs(utcToZonedTime(after, toZone)) -
+    wallTimeToMs(utcToZonedTime(before, fromZone));
+  const wall = wallTimeToMs(utcToZonedTime(date, fromZone)) + change;
+  return zonedTimeToUtc(msToWallTime(wall), toZone);
+}
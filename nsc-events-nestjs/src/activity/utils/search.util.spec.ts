@@ -0,0 +1,37 @@
+import { buildTsQuery } from './search.util';
+
+describe('search.util', () => {
+  describe('buildTsQuery', () => {
+    it('matches every word as a prefix', () => {
+      expect(buildTsQuery('resume work')).toBe('resume:* & work:*');
+    });
+
+    it('turns quoted text into a phrase', () => {
+      expect(buildTsQuery('"resume workshop" career')).toBe(
+        '(resume <-> workshop) & career:*',
+      );
+    });
+
+    it('treats a single quoted word as an exact term', () => {
+      expect(buildTsQuery('"python"')).toBe('python');
+    });
+
+    it('strips tsquery operators and punctuation', () => {
+      expect(buildTsQuery("c++ & (it's) | !")).toBe('c:* & it:* & s:*');
+    });
+
+    it('treats an unterminated quote as plain words', () => {
+      expect(buildTsQuery('"resume workshop')).toBe('resume:* & workshop:*');
+    });
+
+    it('keeps non-ASCII letters', () => {
+      expect(buildTsQuery('café')).toBe('café:*');
+    });
+
+    it('returns null when nothing is searchable', () => {
+      expect(buildTsQuery('   ')).toBeNull();
+      expect(buildTsQuery('"" !!')).toBeNull();
+      expect(buildTsQuery(undefined as unknown as string)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { Activity } from '../entities/activity.entity';
+
+// Text search configuration used for both the stored vector and queries
+export const SEARCH_CONFIG = 'english';
+
+// Markers ts_headline wraps around matched terms in snippets
+export const HIGHLIGHT_START = '<mark>';
+export const HIGHLIGHT_END = '</mark>';
+
+/**
+ * Expression for the generated `searchVector` column. Weights rank title
+ * matches above tags, host and speakers, and those above the description.
+ * simple-array columns are stored as comma separated text, which the
+ * parser splits like any other punctuation.
+ */
+export const SEARCH_VECTOR_EXPRESSION = [
+  `setweight(to_tsvector('${SEARCH_CONFIG}', coalesce("eventTitle", '')), 'A')`,
+  `setweight(to_tsvector('${SEARCH_CONFIG}', coalesce("eventTags", '')), 'B')`,
+  `setweight(to_tsvector('${SEARCH_CONFIG}', coalesce("eventHost", '') || ' ' || coalesce("eventSpeakers", '')), 'C')`,
+  `setweight(to_tsvector('${SEARCH_CONFIG}', coalesce("eventDescription", '')), 'D')`,
+].join(' || ');
+
+export interface SearchHighlights {
+  eventTitle: string;
+  eventDescription: string;
+}
+
+export interface ActivitySearchResult extends Activity {
+  searchRank?: number;
+  highlights?: SearchHighlights;
+}
+
+const toLexemes = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+/**
+ * Converts user input into a `to_tsquery` expression. Quoted text becomes a
+ * phrase match, other words match as prefixes, and every part must match.
+ * Everything but letters and digits is dropped, so the result is always safe
+ * to pass to `to_tsquery`. Returns null when nothing searchable remains.
+ */
+export function buildTsQuery(input: string): string | null {
+  const parts: string[] = [];
+  const tokenPattern = /"([^"]*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenPattern.exec(input ?? '')) !== null) {
+    if (match[1] !== undefined) {
+      const words = toLexemes(match[1]);
+      if (words.length > 1) {
+        parts.push(`(${words.join(' <-> ')})`);
+      } else if (words.length === 1) {
+        parts.push(words[0]);
+      }
+    } else {
+      toLexemes(match[2]).forEach((word) => parts.push(`${word}:*`));
+    }
+  }
+
+  return parts.length ? parts.join(' & ') : null;
+}
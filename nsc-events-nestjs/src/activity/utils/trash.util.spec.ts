@@ -0,0 +1,33 @@
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  parseRetentionDays,
+  purgeCutoff,
+} from './trash.util';
+
+describe('trash.util', () => {
+  describe('parseRetentionDays', () => {
+    it('defaults to 30 days', () => {
+      expect(parseRetentionDays(undefined)).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+      expect(parseRetentionDays('')).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+      expect(DEFAULT_TRASH_RETENTION_DAYS).toBe(30);
+    });
+
+    it('reads the setting as a number of days', () => {
+      expect(parseRetentionDays('7')).toBe(7);
+      expect(parseRetentionDays('0')).toBe(0);
+    });
+
+    it('ignores invalid settings', () => {
+      expect(parseRetentionDays('soon')).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+      expect(parseRetentionDays('-1')).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    });
+  });
+
+  describe('purgeCutoff', () => {
+    it('goes back the retention period from now', () => {
+      expect(purgeCutoff(new Date('2025-03-31T12:00:00Z'), 30)).toEqual(
+        new Date('2025-03-01T12:00:00Z'),
+      );
+    });
+  });
+});
@@ -0,0 +1,25 @@
+// How long deleted events stay restorable when EVENT_TRASH_RETENTION_DAYS
+// isn't set
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parses EVENT_TRASH_RETENTION_DAYS, falling back to the default for missing
+ * or invalid values. Zero purges deleted events on the next run.
+ */
+export function parseRetentionDays(value?: string | number): number {
+  if (value === undefined || value === null || value === '') {
+    return DEFAULT_TRASH_RETENTION_DAYS;
+  }
+
+  const days = Number(value);
+  return Number.isFinite(days) && days >= 0
+    ? days
+    : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/** Events deleted before the returned date are due to be purged */
+export function purgeCutoff(now: Date, retentionDays: number): Date {
+  return new Date(now.getTime() - retentionDays * DAY_MS);
+}
@@ -12,6 +12,18 @@ import { ActivityModule } from './activity/activity.module';
 import { AuthModule } from './auth/auth.module';
 import { GoogleAuthModule } from './auth/google-auth/google-auth.module';
 import { EventRegistrationModule } from './event-registration/event-registration.module';
+import { CalendarModule } from './calendar/calendar.module';
+import { ModerationModule } from './moderation/moderation.module';
+import { TagModule } from './tag/tag.module';
+import { CollaboratorModule } from './collaborator/collaborator.module';
+import { RevisionModule } from './revision/revision.module';
+import { TemplateModule } from './template/template.module';
+import { ImportModule } from './import/import.module';
+import { ExportModule } from './export/export.module';
+import { AttachmentModule } from './attachment/attachment.module';
+import { VenueModule } from './venue/venue.module';
+import { SessionModule } from './session/session.module';
+import { SpeakerModule } from './speaker/speaker.module';
 import { WinstonLoggerModule } from './logger/winston.logger';
 import { initializeConsoleSanitization } from './utils/logging-sanitizer';
 import { HttpLoggerMiddleware } from './middlewares/http-logger.middleware';
@@ -20,6 +32,16 @@ import { HttpLoggerMiddleware } from './middlewares/http-logger.middleware';
 import { User } from './user/entities/user.entity';
 import { Activity } from './activity/entities/activity.entity';
 import { EventRegistration } from './event-registration/entities/event-registration.entity';
+import { Tag } from './tag/entities/tag.entity';
+import { EventCollaborator } from './collaborator/entities/event-collaborator.entity';
+import { ActivityRevision } from './revision/entities/activity-revision.entity';
+import { EventTemplate } from './template/entities/event-template.entity';
+import { EventAttachment } from './attachment/entities/event-attachment.entity';
+import { StoredFile } from './storage/entities/stored-file.entity';
+import { Venue } from './venue/entities/venue.entity';
+import { Room } from './venue/entities/room.entity';
+import { EventSession } from './session/entities/event-session.entity';
+import { Speaker } from './speaker/entities/speaker.entity';
 
 @Module({
   imports: [
@@ -43,7 +65,21 @@ import { EventRegistration } from './event-registration/entities/event-registrat
             'POSTGRES_DATABASE',
             'nsc_events',
           ),
-          entities: [User, Activity, EventRegistration],
+          entities: [
+            User,
+            Activity,
+            EventRegistration,
+            Tag,
+            EventCollaborator,
+            ActivityRevision,
+            EventTemplate,
+            EventAttachment,
+            StoredFile,
+            Venue,
+            Room,
+            EventSession,
+            Speaker,
+          ],
           synchronize: configService.get<boolean>('TYPEORM_SYNCHRONIZE', true),
           logging: false, // Disable SQL query logging to prevent PII exposure
         };
@@ -54,6 +90,18 @@ import { EventRegistration } from './event-registration/entities/event-registrat
     AuthModule,
     GoogleAuthModule,
     EventRegistrationModule,
+    CalendarModule,
+    ModerationModule,
+    TagModule,
+    CollaboratorModule,
+    RevisionModule,
+    TemplateModule,
+    ImportModule,
+    ExportModule,
+    AttachmentModule,
+    VenueModule,
+    SessionModule,
+    SpeakerModule,
   ],
   controllers: [],
   providers: [],
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AttachmentController } from './controllers/attachment.controller';
+import { AttachmentService } from './services/attachment.service';
+import { EventAttachment } from './entities/event-attachment.entity';
+import { ActivityModule } from '../activity/activity.module';
+import { AuthModule } from '../auth/auth.module';
+import { StorageModule } from '../storage/storage.module';
+
+@Module({
+  imports: [
+    AuthModule,
+    ActivityModule,
+    StorageModule,
+    TypeOrmModule.forFeature([EventAttachment]),
+  ],
+  controllers: [AttachmentController],
+  providers: [AttachmentService],
+})
+export class AttachmentModule {}
@@ -0,0 +1,108 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PassportModule } from '@nestjs/passport';
+import { BadRequestException } from '@nestjs/common';
+import { AttachmentController } from './attachment.controller';
+import { AttachmentService } from '../services/attachment.service';
+
+const mockAttachmentService = {
+  getAttachments: jest.fn(),
+  addAttachment: jest.fn(),
+  updateAttachment: jest.fn(),
+  deleteAttachment: jest.fn(),
+};
+
+describe('AttachmentController', () => {
+  let controller: AttachmentController;
+  const req = { user: { id: 'creator-123', role: 'creator' } };
+  const file = {
+    originalname: 'agenda.pdf',
+    buffer: Buffer.from('%PDF-1.7'),
+  } as Express.Multer.File;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [PassportModule.register({ defaultStrategy: 'jwt' })],
+      controllers: [AttachmentController],
+      providers: [
+        { provide: AttachmentService, useValue: mockAttachmentService },
+      ],
+    }).compile();
+
+    controller = module.get<AttachmentController>(AttachmentController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should list the attachments of an event', async () => {
+    await controller.getAttachments('activity-1', req);
+
+    expect(mockAttachmentService.getAttachments).toHaveBeenCalledWith(
+      'activity-1',
+      req.user,
+    );
+  });
+
+  it('should list attachments for anonymous visitors', async () => {
+    await controller.getAttachments('activity-1', { user: null });
+
+    expect(mockAttachmentService.getAttachments).toHaveBeenCalledWith(
+      'activity-1',
+      undefined,
+    );
+  });
+
+  it('should add an attachment as the signed-in user', async () => {
+    await controller.addAttachment(
+      'activity-1',
+      file,
+      { title: 'Agenda' },
+      req,
+    );
+
+    expect(mockAttachmentService.addAttachment).toHaveBeenCalledWith(
+      'activity-1',
+      file,
+      { title: 'Agenda' },
+      req.user,
+    );
+  });
+
+  it('should reject requests without a file', async () => {
+    await expect(
+      controller.addAttachment('activity-1', undefined, {}, req),
+    ).rejects.toThrow(BadRequestException);
+    expect(mockAttachmentService.addAttachment).not.toHaveBeenCalled();
+  });
+
+  it('should rename or replace an attachment', async () => {
+    await controller.updateAttachment(
+      'activity-1',
+      'attachment-1',
+      undefined,
+      { title: 'Final agenda' },
+      req,
+    );
+
+    expect(mockAttachmentService.updateAttachment).toHaveBeenCalledWith(
+      'activity-1',
+      'attachment-1',
+      undefined,
+      { title: 'Final agenda' },
+      req.user,
+    );
+  });
+
+  it('should delete an attachment', async () => {
+    await controller.deleteAttachment('activity-1', 'attachment-1', req);
+
+    expect(mockAttachmentService.deleteAttachment).toHaveBeenCalledWith(
+      'activity-1',
+      'attachment-1',
+      req.user,
+    );
+  });
+});
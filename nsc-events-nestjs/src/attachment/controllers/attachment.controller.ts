@@ -0,0 +1,184 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Put,
+  Req,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { OptionalJwtAuthGuard } from '../../auth/guards/optional-jwt-auth.guard';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiBody,
+  ApiConsumes,
+} from '@nestjs/swagger';
+import { AttachmentService } from '../services/attachment.service';
+import { EventAttachment } from '../entities/event-attachment.entity';
+import { CreateAttachmentDto } from '../dto/create-attachment.dto';
+import { UpdateAttachmentDto } from '../dto/update-attachment.dto';
+import { MAX_DOCUMENT_SIZE_BYTES } from '../../storage/services/storage.service';
+
+// Multer stops reading just past the limit so oversized uploads aren't
+// buffered whole; StorageService reports them with a friendly message
+const documentInterceptor = FileInterceptor('file', {
+  limits: { fileSize: MAX_DOCUMENT_SIZE_BYTES + 1 },
+});
+
+const ATTACHMENT_BODY = {
+  schema: {
+    type: 'object',
+    properties: {
+      file: {
+        type: 'string',
+        format: 'binary',
+        description: 'PDF or Office document, at most 10 MB',
+      },
+      title: { type: 'string', example: 'Agenda' },
+    },
+  },
+};
+
+@ApiTags('Event Attachments')
+@Controller('events') // final path is /api/events (global prefix 'api')
+export class AttachmentController {
+  constructor(private readonly attachmentService: AttachmentService) {}
+
+  // ----------------- List Attachments ----------------- \\
+  @Get(':id/attachments')
+  @UseGuards(OptionalJwtAuthGuard)
+  @ApiOperation({
+    summary: 'List documents attached to an event',
+    description:
+      'Agendas, flyers, waivers and other documents, oldest first. Documents of drafts, scheduled and unapproved events are only returned to users who can edit them',
+  })
+  @ApiParam({ name: 'id', description: 'Event ID (UUID)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Attachments',
+    type: [EventAttachment],
+  })
+  @ApiResponse({ status: 404, description: 'Event not found' })
+  async getAttachments(
+    @Param('id') id: string,
+    @Req() req: any,
+  ): Promise<EventAttachment[]> {
+    return this.attachmentService.getAttachments(id, req.user ?? undefined);
+  }
+
+  // ----------------- Add Attachment ----------------- \\
+  @Post(':id/attachments')
+  @UseGuards(AuthGuard())
+  @ApiBearerAuth('JWT-auth')
+  @UseInterceptors(documentInterceptor)
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({
+    summary: 'Attach a document to an event',
+    description:
+      'Accepts PDF, Word, Excel and PowerPoint files up to 10 MB, checked by their contents. Requires edit permission on the event.',
+  })
+  @ApiParam({ name: 'id', description: 'Event ID (UUID)' })
+  @ApiBody({
+    schema: { ...ATTACHMENT_BODY.schema, required: ['file'] },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Attachment added',
+    type: EventAttachment,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'No file, unsupported type or too many attachments',
+  })
+  @ApiResponse({ status: 401, description: 'Missing edit permission' })
+  @ApiResponse({ status: 404, description: 'Event not found' })
+  @ApiResponse({ status: 413, description: 'File larger than 10 MB' })
+  async addAttachment(
+    @Param('id') id: string,
+    @UploadedFile() file: Express.Multer.File,
+    @Body() createAttachmentDto: CreateAttachmentDto,
+    @Req() req: any,
+  ): Promise<EventAttachment> {
+    if (!file) {
+      throw new BadRequestException('No file uploaded');
+    }
+    return this.attachmentService.addAttachment(
+      id,
+      file,
+      createAttachmentDto,
+      req.user,
+    );
+  }
+
+  // ----------------- Update Attachment ----------------- \\
+  @Put(':id/attachments/:attachmentId')
+  @UseGuards(AuthGuard())
+  @ApiBearerAuth('JWT-auth')
+  @UseInterceptors(documentInterceptor)
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({
+    summary: 'Rename or replace an attachment',
+    description:
+      'A new file replaces the stored one, which is deleted. Requires edit permission on the event.',
+  })
+  @ApiParam({ name: 'id', description: 'Event ID (UUID)' })
+  @ApiParam({ name: 'attachmentId', description: 'Attachment ID (UUID)' })
+  @ApiBody(ATTACHMENT_BODY)
+  @ApiResponse({
+    status: 200,
+    description: 'Attachment updated',
+    type: EventAttachment,
+  })
+  @ApiResponse({ status: 400, description: 'Unsupported type' })
+  @ApiResponse({ status: 401, description: 'Missing edit permission' })
+  @ApiResponse({ status: 404, description: 'Event or attachment not found' })
+  @ApiResponse({ status: 413, description: 'File larger than 10 MB' })
+  async updateAttachment(
+    @Param('id') id: string,
+    @Param('attachmentId') attachmentId: string,
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Body() updateAttachmentDto: UpdateAttachmentDto,
+    @Req() req: any,
+  ): Promise<EventAttachment> {
+    return this.attachmentService.updateAttachment(
+      id,
+      attachmentId,
+      file,
+      updateAttachmentDto,
+      req.user,
+    );
+  }
+
+  // ----------------- Delete Attachment ----------------- \\
+  @Delete(':id/attachments/:attachmentId')
+  @UseGuards(AuthGuard())
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Remove an attachment',
+    description:
+      'Deletes the attachment and its file. Requires edit permission on the event.',
+  })
+  @ApiParam({ name: 'id', description: 'Event ID (UUID)' })
+  @ApiParam({ name: 'attachmentId', description: 'Attachment ID (UUID)' })
+  @ApiResponse({ status: 200, description: 'Attachment deleted' })
+  @ApiResponse({ status: 401, description: 'Missing edit permission' })
+  @ApiResponse({ status: 404, description: 'Event or attachment not found' })
+  async deleteAttachment(
+    @Param('id') id: string,
+    @Param('attachmentId') attachmentId: string,
+    @Req() req: any,
+  ): Promise<void> {
+    return this.attachmentService.deleteAttachment(id, attachmentId, req.user);
+  }
+}
@@ -0,0 +1,15 @@
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+// Sent as a multipart form field next to the file
+export class CreateAttachmentDto {
+  @ApiPropertyOptional({
+    description: 'Shown on the event page. Defaults to the file name.',
+    example: 'Agenda',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  readonly title?: string;
+}
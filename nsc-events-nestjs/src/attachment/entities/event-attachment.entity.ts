@@ -0,0 +1,49 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * A document shared on the event page, such as an agenda, flyer or waiver.
+ * The file itself is kept by the storage driver.
+ */
+@Entity('event_attachments')
+export class EventAttachment {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column({ type: 'uuid' })
+  activityId: string;
+
+  @Column({ length: 200 })
+  title: string;
+
+  // Name of the uploaded file, used when downloading it
+  @Column()
+  fileName: string;
+
+  // Detected from the file contents, not the type the browser reported
+  @Column()
+  mimeType: string;
+
+  // In bytes
+  @Column({ type: 'int' })
+  size: number;
+
+  @Column()
+  url: string;
+
+  @Column({ type: 'uuid' })
+  uploadedByUserId: string;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
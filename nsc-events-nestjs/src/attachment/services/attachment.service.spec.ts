@@ -0,0 +1,329 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import {
+  BadRequestException,
+  HttpException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import {
+  AttachmentService,
+  MAX_ATTACHMENTS_PER_EVENT,
+} from './attachment.service';
+import { EventAttachment } from '../entities/event-attachment.entity';
+import { ActivityService } from '../../activity/services/activity/activity.service';
+import { StorageService } from '../../storage/services/storage.service';
+import { EventPermission } from '../../collaborator/utils/permissions.util';
+import { Role } from '../../user/entities/user.entity';
+
+describe('AttachmentService', () => {
+  let service: AttachmentService;
+  let attachmentRepository: {
+    find: jest.Mock;
+    findOne: jest.Mock;
+    count: jest.Mock;
+    create: jest.Mock;
+    save: jest.Mock;
+    remove: jest.Mock;
+  };
+  let activityService: {
+    getActivityById: jest.Mock;
+    getVisibleActivity: jest.Mock;
+    hasEventPermission: jest.Mock;
+  };
+  let storageService: {
+    uploadDocument: jest.Mock;
+    deleteFile: jest.Mock;
+    deleteFiles: jest.Mock;
+    attachFiles: jest.Mock;
+    getKeyFromUrl: jest.Mock;
+  };
+
+  const user = { id: 'creator-123', role: Role.creator };
+  const activity = { id: 'activity-1', createdByUserId: 'creator-123' };
+  const oldUrl =
+    'https://bucket.s3.us-west-2.amazonaws.com/event-documents/1-agenda.pdf';
+  const attachment = {
+    id: 'attachment-1',
+    activityId: 'activity-1',
+    title: 'Agenda',
+    fileName: 'agenda.pdf',
+    mimeType: 'application/pdf',
+    size: 1024,
+    url: oldUrl,
+    uploadedByUserId: 'creator-123',
+  } as EventAttachment;
+  const file = {
+    originalname: 'spring-waiver_2025.docx',
+    size: 2048,
+    buffer: Buffer.from('PK'),
+  } as Express.Multer.File;
+  const uploaded = {
+    url: 'https://bucket.s3.us-west-2.amazonaws.com/event-documents/2-spring-waiver_2025.docx',
+    key: 'event-documents/2-spring-waiver_2025.docx',
+    mimeType:
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    size: 2048,
+  };
+
+  beforeEach(async () => {
+    attachmentRepository = {
+      find: jest.fn().mockResolvedValue([attachment]),
+      findOne: jest.fn().mockResolvedValue({ ...attachment }),
+      count: jest.fn().mockResolvedValue(0),
+      create: jest.fn((values) => values),
+      save: jest.fn((values) => Promise.resolve({ id: 'new-id', ...values })),
+      remove: jest.fn(),
+    };
+    const findActivity = (id: string) =>
+      id === 'activity-1'
+        ? Promise.resolve(activity)
+        : Promise.reject(new NotFoundException('Activity not found'));
+    activityService = {
+      getActivityById: jest.fn(findActivity),
+      getVisibleActivity: jest.fn(findActivity),
+      hasEventPermission: jest.fn().mockResolvedValue(true),
+    };
+    storageService = {
+      uploadDocument: jest.fn().mockResolvedValue(uploaded),
+      deleteFile: jest.fn(),
+      deleteFiles: jest.fn(),
+      attachFiles: jest.fn(),
+      getKeyFromUrl: jest.fn((url: string) => url.split('.amazonaws.com/')[1]),
+    };
+    const manager = { getRepository: () => attachmentRepository };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AttachmentService,
+        {
+          provide: getRepositoryToken(EventAttachment),
+          useValue: attachmentRepository,
+        },
+        { provide: ActivityService, useValue: activityService },
+        { provide: StorageService, useValue: storageService },
+        {
+          provide: DataSource,
+          useValue: { transaction: jest.fn((work) => work(manager)) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<AttachmentService>(AttachmentService);
+  });
+
+  describe('getAttachments', () => {
+    it('should list attachments oldest first', async () => {
+      await expect(service.getAttachments('activity-1')).resolves.toEqual([
+        attachment,
+      ]);
+      expect(attachmentRepository.find).toHaveBeenCalledWith({
+        where: { activityId: 'activity-1' },
+        order: { createdAt: 'ASC' },
+      });
+    });
+
+    it('should throw NotFoundException for unknown events', async () => {
+      await expect(service.getAttachments('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('should only list documents of events the caller may see', async () => {
+      activityService.getVisibleActivity.mockRejectedValue(
+        new NotFoundException('Activity not found'),
+      );
+
+      await expect(service.getAttachments('activity-1', user)).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(activityService.getVisibleActivity).toHaveBeenCalledWith(
+        'activity-1',
+        user,
+      );
+      expect(attachmentRepository.find).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('addAttachment', () => {
+    it('should upload the document and save it under the given title', async () => {
+      const result = await service.addAttachment(
+        'activity-1',
+        file,
+        { title: ' Waiver ' },
+        user,
+      );
+
+      expect(activityService.hasEventPermission).toHaveBeenCalledWith(
+        activity,
+        user,
+        EventPermission.edit,
+      );
+      expect(storageService.uploadDocument).toHaveBeenCalledWith(
+        file,
+        'event-documents',
+      );
+      expect(result).toMatchObject({
+        activityId: 'activity-1',
+        title: 'Waiver',
+        fileName: 'spring-waiver_2025.docx',
+        mimeType: uploaded.mimeType,
+        size: 2048,
+        url: uploaded.url,
+        uploadedByUserId: 'creator-123',
+      });
+    });
+
+    it('should record the attachment as the owner of its file', async () => {
+      await service.addAttachment('activity-1', file, {}, user);
+
+      expect(storageService.attachFiles).toHaveBeenCalledWith(
+        ['event-documents/2-spring-waiver_2025.docx'],
+        { type: 'attachment', id: 'new-id' },
+        expect.anything(),
+      );
+    });
+
+    it('should delete the uploaded file when saving fails', async () => {
+      attachmentRepository.save.mockRejectedValue(new Error('Database error'));
+
+      await expect(
+        service.addAttachment('activity-1', file, {}, user),
+      ).rejects.toThrow(HttpException);
+      expect(storageService.deleteFiles).toHaveBeenCalledWith([
+        'event-documents/2-spring-waiver_2025.docx',
+      ]);
+    });
+
+    it('should title untitled attachments after the file', async () => {
+      const result = await service.addAttachment('activity-1', file, {}, user);
+
+      expect(result.title).toBe('spring waiver 2025');
+    });
+
+    it('should require edit permission', async () => {
+      activityService.hasEventPermission.mockResolvedValue(false);
+
+      await expect(
+        service.addAttachment('activity-1', file, {}, user),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(storageService.uploadDocument).not.toHaveBeenCalled();
+    });
+
+    it('should limit how many attachments an event has', async () => {
+      attachmentRepository.count.mockResolvedValue(MAX_ATTACHMENTS_PER_EVENT);
+
+      await expect(
+        service.addAttachment('activity-1', file, {}, user),
+      ).rejects.toThrow(BadRequestException);
+      expect(storageService.uploadDocument).not.toHaveBeenCalled();
+    });
+
+    it('should pass through rejected files', async () => {
+      storageService.uploadDocument.mockRejectedValue(
+        new BadRequestException('Invalid file type.'),
+      );
+
+      await expect(
+        service.addAttachment('activity-1', file, {}, user),
+      ).rejects.toThrow('Invalid file type.');
+    });
+
+    it('should throw HttpException when the upload fails', async () => {
+      storageService.uploadDocument.mockRejectedValue(new Error('S3 error'));
+
+      await expect(
+        service.addAttachment('activity-1', file, {}, user),
+      ).rejects.toThrow(HttpException);
+    });
+  });
+
+  describe('updateAttachment', () => {
+    it('should rename an attachment without touching its file', async () => {
+      const result = await service.updateAttachment(
+        'activity-1',
+        'attachment-1',
+        undefined,
+        { title: 'Final agenda' },
+        user,
+      );
+
+      expect(result).toMatchObject({ title: 'Final agenda', url: oldUrl });
+      expect(storageService.uploadDocument).not.toHaveBeenCalled();
+      expect(storageService.deleteFile).not.toHaveBeenCalled();
+    });
+
+    it('should replace the file and delete the old one', async () => {
+      const result = await service.updateAttachment(
+        'activity-1',
+        'attachment-1',
+        file,
+        {},
+        user,
+      );
+
+      expect(result).toMatchObject({
+        title: 'Agenda',
+        fileName: 'spring-waiver_2025.docx',
+        url: uploaded.url,
+      });
+      expect(storageService.deleteFile).toHaveBeenCalledWith(
+        'event-documents/1-agenda.pdf',
+      );
+    });
+
+    it('should keep the old file when the new one cannot be saved', async () => {
+      attachmentRepository.save.mockRejectedValue(new Error('Database error'));
+
+      await expect(
+        service.updateAttachment('activity-1', 'attachment-1', file, {}, user),
+      ).rejects.toThrow(HttpException);
+      expect(storageService.deleteFiles).toHaveBeenCalledWith([
+        'event-documents/2-spring-waiver_2025.docx',
+      ]);
+      expect(storageService.deleteFile).not.toHaveBeenCalled();
+    });
+
+    it('should keep the new file when the old one cannot be deleted', async () => {
+      storageService.deleteFile.mockRejectedValue(new Error('S3 error'));
+
+      await expect(
+        service.updateAttachment('activity-1', 'attachment-1', file, {}, user),
+      ).resolves.toMatchObject({ url: uploaded.url });
+    });
+
+    it('should only find attachments of the given event', async () => {
+      attachmentRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.updateAttachment('activity-1', 'other', undefined, {}, user),
+      ).rejects.toThrow(NotFoundException);
+      expect(attachmentRepository.findOne).toHaveBeenCalledWith({
+        where: { id: 'other', activityId: 'activity-1' },
+      });
+    });
+  });
+
+  describe('deleteAttachment', () => {
+    it('should remove the attachment and its file', async () => {
+      await service.deleteAttachment('activity-1', 'attachment-1', user);
+
+      expect(attachmentRepository.remove).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'attachment-1' }),
+      );
+      expect(storageService.deleteFile).toHaveBeenCalledWith(
+        'event-documents/1-agenda.pdf',
+      );
+    });
+
+    it('should require edit permission', async () => {
+      activityService.hasEventPermission.mockResolvedValue(false);
+
+      await expect(
+        service.deleteAttachment('activity-1', 'attachment-1', user),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(attachmentRepository.remove).not.toHaveBeenCalled();
+    });
+  });
+});
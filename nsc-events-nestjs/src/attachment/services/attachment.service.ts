@@ -0,0 +1,279 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, Repository } from 'typeorm';
+import { EventAttachment } from '../entities/event-attachment.entity';
+import { CreateAttachmentDto } from '../dto/create-attachment.dto';
+import { UpdateAttachmentDto } from '../dto/update-attachment.dto';
+import { ActivityService } from '../../activity/services/activity/activity.service';
+import {
+  StorageService,
+  UploadedDocument,
+} from '../../storage/services/storage.service';
+import { StoredFileOwnerType } from '../../storage/entities/stored-file.entity';
+import {
+  EventActor,
+  EventPermission,
+} from '../../collaborator/utils/permissions.util';
+
+export const MAX_ATTACHMENTS_PER_EVENT = 10;
+
+// Storage folder attachments are uploaded to
+const ATTACHMENT_FOLDER = 'event-documents';
+
+@Injectable()
+export class AttachmentService {
+  private readonly logger = new Logger(AttachmentService.name);
+
+  constructor(
+    @InjectRepository(EventAttachment)
+    private readonly attachmentRepository: Repository<EventAttachment>,
+    private readonly activityService: ActivityService,
+    private readonly storageService: StorageService,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  // ----------------- Get Attachments ----------------- \\
+  // Oldest first, so documents keep the order they were added in. Only the
+  // people who can edit an unlisted event see its documents.
+  async getAttachments(
+    activityId: string,
+    user?: EventActor,
+  ): Promise<EventAttachment[]> {
+    try {
+      await this.activityService.getVisibleActivity(activityId, user);
+      return await this.attachmentRepository.find({
+        where: { activityId },
+        order: { createdAt: 'ASC' },
+      });
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error retrieving attachments',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Add Attachment ----------------- \\
+  async addAttachment(
+    activityId: string,
+    file: Express.Multer.File,
+    createAttachmentDto: CreateAttachmentDto,
+    user: EventActor,
+  ): Promise<EventAttachment> {
+    let uploaded: UploadedDocument | undefined;
+
+    try {
+      await this.assertCanEdit(activityId, user);
+
+      const count = await this.attachmentRepository.count({
+        where: { activityId },
+      });
+      if (count >= MAX_ATTACHMENTS_PER_EVENT) {
+        throw new BadRequestException(
+          `An event can have at most ${MAX_ATTACHMENTS_PER_EVENT} attachments`,
+        );
+      }
+
+      uploaded = await this.storageService.uploadDocument(
+        file,
+        ATTACHMENT_FOLDER,
+      );
+      const attachment = this.attachmentRepository.create({
+        activityId,
+        title:
+          createAttachmentDto.title?.trim() || this.toTitle(file.originalname),
+        fileName: file.originalname,
+        mimeType: uploaded.mimeType,
+        size: uploaded.size,
+        url: uploaded.url,
+        uploadedByUserId: user.id,
+      });
+      return await this.saveWithFile(attachment, uploaded);
+    } catch (error) {
+      await this.deleteUpload(uploaded);
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException ||
+        error instanceof UnauthorizedException
+      ) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error adding attachment',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Update Attachment ----------------- \\
+  // Renames the attachment, and replaces its file when one is given
+  async updateAttachment(
+    activityId: string,
+    attachmentId: string,
+    file: Express.Multer.File | undefined,
+    updateAttachmentDto: UpdateAttachmentDto,
+    user: EventActor,
+  ): Promise<EventAttachment> {
+    let uploaded: UploadedDocument | undefined;
+
+    try {
+      await this.assertCanEdit(activityId, user);
+      const attachment = await this.getAttachment(activityId, attachmentId);
+      const previousUrl = attachment.url;
+
+      if (file) {
+        uploaded = await this.storageService.uploadDocument(
+          file,
+          ATTACHMENT_FOLDER,
+        );
+        Object.assign(attachment, {
+          fileName: file.originalname,
+          mimeType: uploaded.mimeType,
+          size: uploaded.size,
+          url: uploaded.url,
+          uploadedByUserId: user.id,
+        });
+      }
+      if (updateAttachmentDto.title?.trim()) {
+        attachment.title = updateAttachmentDto.title.trim();
+      }
+
+      const saved = await this.saveWithFile(attachment, uploaded);
+      if (saved.url !== previousUrl) {
+        await this.deleteStoredFile(previousUrl);
+      }
+      return saved;
+    } catch (error) {
+      await this.deleteUpload(uploaded);
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException ||
+        error instanceof UnauthorizedException
+      ) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error updating attachment',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Delete Attachment ----------------- \\
+  async deleteAttachment(
+    activityId: string,
+    attachmentId: string,
+    user: EventActor,
+  ): Promise<void> {
+    try {
+      await this.assertCanEdit(activityId, user);
+      const attachment = await this.getAttachment(activityId, attachmentId);
+      await this.attachmentRepository.remove(attachment);
+      await this.deleteStoredFile(attachment.url);
+    } catch (error) {
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException ||
+        error instanceof UnauthorizedException
+      ) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error deleting attachment',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /** Attachments are managed by whoever may edit the event */
+  private async assertCanEdit(
+    activityId: string,
+    user: EventActor,
+  ): Promise<void> {
+    const activity = await this.activityService.getActivityById(activityId);
+    if (
+      !(await this.activityService.hasEventPermission(
+        activity,
+        user,
+        EventPermission.edit,
+      ))
+    ) {
+      throw new UnauthorizedException(
+        'You do not have permission to change attachments of this event',
+      );
+    }
+  }
+
+  private async getAttachment(
+    activityId: string,
+    attachmentId: string,
+  ): Promise<EventAttachment> {
+    const attachment = await this.attachmentRepository.findOne({
+      where: { id: attachmentId, activityId },
+    });
+    if (!attachment) {
+      throw new NotFoundException('Attachment not found');
+    }
+    return attachment;
+  }
+
+  // Saves the attachment and records it as the owner of its uploaded file
+  private async saveWithFile(
+    attachment: EventAttachment,
+    uploaded?: UploadedDocument,
+  ): Promise<EventAttachment> {
+    return this.dataSource.transaction(async (manager: EntityManager) => {
+      const saved = await manager
+        .getRepository(EventAttachment)
+        .save(attachment);
+      if (uploaded) {
+        await this.storageService.attachFiles(
+          [uploaded.key],
+          { type: StoredFileOwnerType.attachment, id: saved.id },
+          manager,
+        );
+      }
+      return saved;
+    });
+  }
+
+  // Nothing points to the file of an attachment that wasn't saved
+  private async deleteUpload(uploaded?: UploadedDocument): Promise<void> {
+    if (uploaded) {
+      await this.storageService.deleteFiles([uploaded.key]);
+    }
+  }
+
+  // A file left behind in storage isn't worth failing the request over
+  private async deleteStoredFile(url: string): Promise<void> {
+    const key = this.storageService.getKeyFromUrl(url);
+    if (!key) {
+      return;
+    }
+    try {
+      await this.storageService.deleteFile(key);
+    } catch (error) {
+      this.logger.warn(`Could not delete attachment ${url}: ${error.message}`);
+    }
+  }
+
+  /** "spring-agenda_v2.pdf" becomes "spring agenda v2" */
+  private toTitle(fileName: string): string {
+    const title = fileName
+      .replace(/\.[^.]+$/, '')
+      .replace(/[-_]+/g, ' ')
+      .trim();
+    return (title || fileName).slice(0, 200);
+  }
+}
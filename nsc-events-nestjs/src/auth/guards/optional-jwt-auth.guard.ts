@@ -0,0 +1,12 @@
+import { Injectable } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+
+// Lets every request through, and sets req.user when a valid token is sent.
+// For public routes that show more to signed-in users.
+@Injectable()
+export class OptionalJwtAuthGuard extends AuthGuard('jwt') {
+  // Without a token, or with an invalid one, the request is anonymous
+  handleRequest<TUser>(error: unknown, user: TUser): TUser | null {
+    return user || null;
+  }
+}
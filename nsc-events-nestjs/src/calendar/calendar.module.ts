@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { CalendarController } from './controllers/calendar.controller';
+import { CalendarService } from './services/calendar.service';
+import { ActivityModule } from '../activity/activity.module';
+import { AuthModule } from '../auth/auth.module';
+import { EventRegistrationModule } from '../event-registration/event-registration.module';
+import { User } from '../user/entities/user.entity';
+
+@Module({
+  imports: [
+    AuthModule,
+    ActivityModule,
+    EventRegistrationModule,
+    TypeOrmModule.forFeature([User]),
+  ],
+  controllers: [CalendarController],
+  providers: [CalendarService],
+})
+export class CalendarModule {}
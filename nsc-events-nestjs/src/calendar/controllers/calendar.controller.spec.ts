@@ -0,0 +1,104 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PassportModule } from '@nestjs/passport';
+import { CalendarController } from './calendar.controller';
+import { CalendarService } from '../services/calendar.service';
+
+const mockCalendarService = {
+  getEventCalendar: jest.fn(),
+  getPublicFeed: jest.fn(),
+  getUserFeed: jest.fn(),
+  getFeedToken: jest.fn(),
+};
+
+describe('CalendarController', () => {
+  let controller: CalendarController;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [PassportModule.register({ defaultStrategy: 'jwt' })],
+      controllers: [CalendarController],
+      providers: [{ provide: CalendarService, useValue: mockCalendarService }],
+    }).compile();
+
+    controller = module.get<CalendarController>(CalendarController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  describe('getEventCalendar', () => {
+    it('should return the calendar as an attachment', async () => {
+      const res = { setHeader: jest.fn() };
+      mockCalendarService.getEventCalendar.mockResolvedValue('BEGIN:VCALENDAR');
+
+      const result = await controller.getEventCalendar(
+        'activity-123',
+        res as any,
+      );
+
+      expect(result).toBe('BEGIN:VCALENDAR');
+      expect(mockCalendarService.getEventCalendar).toHaveBeenCalledWith(
+        'activity-123',
+      );
+      expect(res.setHeader).toHaveBeenCalledWith(
+        'Content-Disposition',
+        'attachment; filename="event-activity-123.ics"',
+      );
+    });
+  });
+
+  describe('feeds', () => {
+    it('should return the public feed', async () => {
+      mockCalendarService.getPublicFeed.mockResolvedValue('public');
+
+      expect(await controller.getPublicFeed()).toBe('public');
+      expect(mockCalendarService.getPublicFeed).toHaveBeenCalledWith();
+    });
+
+    it('should return a tag feed', async () => {
+      mockCalendarService.getPublicFeed.mockResolvedValue('tagged');
+
+      expect(await controller.getTagFeed('workshop')).toBe('tagged');
+      expect(mockCalendarService.getPublicFeed).toHaveBeenCalledWith(
+        'workshop',
+      );
+    });
+
+    it('should return the private user feed', async () => {
+      mockCalendarService.getUserFeed.mockResolvedValue('mine');
+
+      expect(await controller.getUserFeed('token-abc')).toBe('mine');
+      expect(mockCalendarService.getUserFeed).toHaveBeenCalledWith('token-abc');
+    });
+  });
+
+  describe('getFeedToken', () => {
+    const req = { user: { id: 'user-123' } };
+
+    it('should return the token for the current user', async () => {
+      mockCalendarService.getFeedToken.mockResolvedValue('token-abc');
+
+      const result = await controller.getFeedToken(req);
+
+      expect(result).toEqual({ token: 'token-abc' });
+      expect(mockCalendarService.getFeedToken).toHaveBeenCalledWith(
+        'user-123',
+        false,
+      );
+    });
+
+    it('should rotate the token when requested', async () => {
+      mockCalendarService.getFeedToken.mockResolvedValue('token-new');
+
+      await controller.getFeedToken(req, 'true');
+
+      expect(mockCalendarService.getFeedToken).toHaveBeenCalledWith(
+        'user-123',
+        true,
+      );
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import {
+  Controller,
+  Get,
+  Header,
+  Param,
+  Post,
+  Query,
+  Req,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { Response } from 'express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiQuery,
+  ApiProduces,
+} from '@nestjs/swagger';
+import { CalendarService } from '../services/calendar.service';
+
+const ICS_CONTENT_TYPE = 'text/calendar; charset=utf-8';
+
+@ApiTags('Calendar')
+@Controller('events') // final path is /api/events (global prefix 'api')
+export class CalendarController {
+  constructor(private readonly calendarService: CalendarService) {}
+
+  // subscribable feed of every public event
+  @Get('feeds/public')
+  @Header('Content-Type', ICS_CONTENT_TYPE)
+  @ApiProduces('text/calendar')
+  @ApiOperation({
+    summary: 'Public calendar feed',
+    description:
+      'iCalendar feed of all public, non-archived events that have not ended',
+  })
+  @ApiResponse({ status: 200, description: 'iCalendar document' })
+  async getPublicFeed(): Promise<string> {
+    return this.calendarService.getPublicFeed();
+  }
+
+  // subscribable feed of public events with a given tag
+  @Get('feeds/tags/:tag')
+  @Header('Content-Type', ICS_CONTENT_TYPE)
+  @ApiProduces('text/calendar')
+  @ApiOperation({
+    summary: 'Tag calendar feed',
+    description:
+      'iCalendar feed of public, non-archived events with a tag that have not ended',
+  })
+  @ApiParam({ name: 'tag', description: 'Event tag', example: 'workshop' })
+  @ApiResponse({ status: 200, description: 'iCalendar document' })
+  async getTagFeed(@Param('tag') tag: string): Promise<string> {
+    return this.calendarService.getPublicFeed(tag);
+  }
+
+  // private feed of the events a user registered for, authorized by the token in the URL
+  @Get('feeds/user/:token')
+  @Header('Content-Type', ICS_CONTENT_TYPE)
+  @ApiProduces('text/calendar')
+  @ApiOperation({
+    summary: 'Private calendar feed',
+    description:
+      'iCalendar feed of the events a user is registered for. The token is obtained from POST /api/events/feeds/token',
+  })
+  @ApiParam({ name: 'token', description: 'Private feed token' })
+  @ApiResponse({ status: 200, description: 'iCalendar document' })
+  @ApiResponse({ status: 404, description: 'Calendar feed not found' })
+  async getUserFeed(@Param('token') token: string): Promise<string> {
+    return this.calendarService.getUserFeed(token);
+  }
+
+  @Post('feeds/token')
+  @UseGuards(AuthGuard())
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Get private feed token',
+    description:
+      'Returns the token for the current user’s private calendar feed, creating it if needed',
+  })
+  @ApiQuery({
+    name: 'rotate',
+    required: false,
+    description: 'Replace the existing token, invalidating old feed URLs',
+    example: 'true',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Feed token',
+    schema: {
+      type: 'object',
+      properties: {
+        token: { type: 'string', example: '3f9c2a...' },
+      },
+    },
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getFeedToken(
+    @Req() req: any,
+    @Query('rotate') rotate?: string,
+  ): Promise<{ token: string }> {
+    const token = await this.calendarService.getFeedToken(
+      req.user.id,
+      rotate === 'true',
+    );
+    return { token };
+  }
+
+  // single event download
+  @Get(':id/ics')
+  @Header('Content-Type', ICS_CONTENT_TYPE)
+  @ApiProduces('text/calendar')
+  @ApiOperation({
+    summary: 'Download event as iCalendar',
+    description: 'Renders an event as an .ics file',
+  })
+  @ApiParam({ name: 'id', description: 'Event ID (UUID)' })
+  @ApiResponse({ status: 200, description: 'iCalendar document' })
+  @ApiResponse({ status: 404, description: 'Event not found' })
+  async getEventCalendar(
+    @Param('id') id: string,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<string> {
+    const calendar = await this.calendarService.getEventCalendar(id);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="event-${id}.ics"`,
+    );
+    return calendar;
+  }
+}
@@ -0,0 +1,267 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { NotFoundException } from '@nestjs/common';
+import { CalendarService, FEED_EVENT_LIMIT } from './calendar.service';
+import {
+  Activity,
+  ApprovalStatus,
+  PublicationStatus,
+} from '../../activity/entities/activity.entity';
+import { ActivityService } from '../../activity/services/activity/activity.service';
+import { EventRegistrationService } from '../../event-registration/services/event-registration.service';
+import { User } from '../../user/entities/user.entity';
+
+describe('CalendarService', () => {
+  let service: CalendarService;
+
+  const mockActivity = {
+    id: 'activity-123',
+    eventTitle: 'Test Event',
+    eventDescription: 'Test Description',
+    startDate: new Date('2025-01-15T18:00:00Z'),
+    endDate: new Date('2025-01-15T19:00:00Z'),
+    eventLocation: 'Test Location',
+    eventHost: 'Test Host',
+    eventContact: 'test@example.com',
+    eventTags: ['tech'],
+    isHidden: false,
+    publicationStatus: PublicationStatus.published,
+    approvalStatus: ApprovalStatus.approved,
+    updatedAt: new Date('2025-01-01T00:00:00Z'),
+  } as unknown as Activity;
+
+  const mockActivityRepository = {
+    find: jest.fn(),
+  };
+
+  const mockUserRepository = {
+    findOne: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockActivityService = {
+    getActivityById: jest.fn(),
+    getAllActivities: jest.fn(),
+  };
+
+  const mockRegistrationService = {
+    getEventRegistrationsByUserId: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CalendarService,
+        {
+          provide: getRepositoryToken(Activity),
+          useValue: mockActivityRepository,
+        },
+        { provide: getRepositoryToken(User), useValue: mockUserRepository },
+        { provide: ActivityService, useValue: mockActivityService },
+        {
+          provide: EventRegistrationService,
+          useValue: mockRegistrationService,
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue('https://example.edu') },
+        },
+      ],
+    }).compile();
+
+    service = module.get<CalendarService>(CalendarService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('getEventCalendar', () => {
+    it('should render the event as a calendar', async () => {
+      mockActivityService.getActivityById.mockResolvedValue(mockActivity);
+
+      const result = await service.getEventCalendar('activity-123');
+
+      expect(mockActivityService.getActivityById).toHaveBeenCalledWith(
+        'activity-123',
+      );
+      expect(result).toContain('UID:activity-123@nsc-events');
+      expect(result).toContain(
+        'URL:https://example.edu/event-detail?id=activity-123',
+      );
+    });
+
+    it('should throw NotFoundException for hidden events', async () => {
+      mockActivityService.getActivityById.mockResolvedValue({
+        ...mockActivity,
+        isHidden: true,
+      });
+
+      await expect(service.getEventCalendar('activity-123')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('should throw NotFoundException for unpublished events', async () => {
+      mockActivityService.getActivityById.mockResolvedValue({
+        ...mockActivity,
+        publicationStatus: PublicationStatus.draft,
+      });
+
+      await expect(service.getEventCalendar('activity-123')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('should throw NotFoundException for events awaiting review', async () => {
+      mockActivityService.getActivityById.mockResolvedValue({
+        ...mockActivity,
+        approvalStatus: ApprovalStatus.pending,
+      });
+
+      await expect(service.getEventCalendar('activity-123')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('getPublicFeed', () => {
+    it('should list non-archived events that have not ended', async () => {
+      mockActivityService.getAllActivities.mockResolvedValue({
+        data: [mockActivity],
+        page: 1,
+        pageSize: FEED_EVENT_LIMIT,
+        total: 1,
+        totalPages: 1,
+        nextCursor: null,
+      });
+
+      const result = await service.getPublicFeed();
+
+      expect(mockActivityService.getAllActivities).toHaveBeenCalledWith({
+        page: 1,
+        numberOfEventsToGet: FEED_EVENT_LIMIT,
+        isArchived: 'false',
+        endsAfter: expect.any(Date),
+        tags: [],
+      });
+      expect(result).toContain('X-WR-CALNAME:NSC Events\r\n');
+      expect(result).toContain('BEGIN:VEVENT');
+    });
+
+    it('should filter by tag', async () => {
+      mockActivityService.getAllActivities.mockResolvedValue({
+        data: [],
+        page: 1,
+        pageSize: FEED_EVENT_LIMIT,
+        total: 0,
+        totalPages: 0,
+        nextCursor: null,
+      });
+
+      const result = await service.getPublicFeed('Workshop');
+
+      expect(mockActivityService.getAllActivities).toHaveBeenCalledWith(
+        expect.objectContaining({ tags: ['workshop'] }),
+      );
+      expect(result).toContain('X-WR-CALNAME:NSC Events: Workshop');
+      expect(result).not.toContain('BEGIN:VEVENT');
+    });
+  });
+
+  describe('getUserFeed', () => {
+    it('should list the events the user is registered for', async () => {
+      mockUserRepository.findOne.mockResolvedValue({ id: 'user-123' });
+      mockRegistrationService.getEventRegistrationsByUserId.mockResolvedValue([
+        { activityId: 'activity-123' },
+      ]);
+      mockActivityRepository.find.mockResolvedValue([mockActivity]);
+
+      const result = await service.getUserFeed('token-abc');
+
+      expect(mockUserRepository.findOne).toHaveBeenCalledWith({
+        where: { calendarFeedToken: 'token-abc' },
+      });
+      expect(
+        mockRegistrationService.getEventRegistrationsByUserId,
+      ).toHaveBeenCalledWith('user-123');
+      expect(mockActivityRepository.find).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            publicationStatus: PublicationStatus.published,
+            approvalStatus: ApprovalStatus.approved,
+          }),
+        }),
+      );
+      expect(result).toContain('UID:activity-123@nsc-events');
+    });
+
+    it('should not query activities when the user has no registrations', async () => {
+      mockUserRepository.findOne.mockResolvedValue({ id: 'user-123' });
+      mockRegistrationService.getEventRegistrationsByUserId.mockResolvedValue(
+        [],
+      );
+
+      const result = await service.getUserFeed('token-abc');
+
+      expect(mockActivityRepository.find).not.toHaveBeenCalled();
+      expect(result).not.toContain('BEGIN:VEVENT');
+    });
+
+    it('should throw NotFoundException for an unknown token', async () => {
+      mockUserRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.getUserFeed('bad-token')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('getFeedToken', () => {
+    it('should return the existing token', async () => {
+      mockUserRepository.findOne.mockResolvedValue({
+        id: 'user-123',
+        calendarFeedToken: 'existing',
+      });
+
+      const token = await service.getFeedToken('user-123');
+
+      expect(token).toBe('existing');
+      expect(mockUserRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should create a token when none exists', async () => {
+      mockUserRepository.findOne.mockResolvedValue({ id: 'user-123' });
+
+      const token = await service.getFeedToken('user-123');
+
+      expect(token).toMatch(/^[0-9a-f]{48}$/);
+      expect(mockUserRepository.update).toHaveBeenCalledWith('user-123', {
+        calendarFeedToken: token,
+      });
+    });
+
+    it('should replace the token when rotating', async () => {
+      mockUserRepository.findOne.mockResolvedValue({
+        id: 'user-123',
+        calendarFeedToken: 'existing',
+      });
+
+      const token = await service.getFeedToken('user-123', true);
+
+      expect(token).not.toBe('existing');
+      expect(mockUserRepository.update).toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for an unknown user', async () => {
+      mockUserRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.getFeedToken('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import {
+  HttpException,
+  HttpStatus,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
+import {
+  Activity,
+  ApprovalStatus,
+  PublicationStatus,
+} from '../../activity/entities/activity.entity';
+import { ActivityService } from '../../activity/services/activity/activity.service';
+import { EventRegistrationService } from '../../event-registration/services/event-registration.service';
+import { User } from '../../user/entities/user.entity';
+import { buildCalendar } from '../utils/ics.util';
+
+// Upper bound on how many events a public feed returns
+export const FEED_EVENT_LIMIT = 500;
+
+@Injectable()
+export class CalendarService {
+  constructor(
+    @InjectRepository(Activity)
+    private readonly activityRepository: Repository<Activity>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly activityService: ActivityService,
+    private readonly registrationService: EventRegistrationService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // ----------------- Get Event Calendar ----------------- \\
+  async getEventCalendar(id: string): Promise<string> {
+    const activity = await this.activityService.getActivityById(id);
+
+    if (
+      activity.isHidden ||
+      activity.publicationStatus !== PublicationStatus.published ||
+      activity.approvalStatus !== ApprovalStatus.approved
+    ) {
+      throw new NotFoundException('Activity not found');
+    }
+
+    return buildCalendar([activity], this.calendarOptions());
+  }
+
+  // ----------------- Get Public Feed ----------------- \\
+  // Reuses the list filters so a tag feed matches the tag filter on the home page.
+  // Ended events are left out so ones not archived yet can't crowd upcoming
+  // events out of the limit.
+  async getPublicFeed(tag?: string): Promise<string> {
+    const { data: activities } = await this.activityService.getAllActivities({
+      page: 1,
+      numberOfEventsToGet: FEED_EVENT_LIMIT,
+      isArchived: 'false',
+      endsAfter: new Date(),
+      tags: tag ? [tag.trim().toLowerCase()] : [],
+    });
+
+    const name = tag ? `NSC Events: ${tag}` : 'NSC Events';
+    return buildCalendar(activities, this.calendarOptions(name));
+  }
+
+  // ----------------- Get User Feed ----------------- \\
+  async getUserFeed(token: string): Promise<string> {
+    const user = await this.userRepository.findOne({
+      where: { calendarFeedToken: token },
+    });
+
+    if (!user) {
+      throw new NotFoundException('Calendar feed not found');
+    }
+
+    const registrations =
+      await this.registrationService.getEventRegistrationsByUserId(user.id);
+    const activityIds = registrations.map((reg) => reg.activityId);
+
+    try {
+      const activities = activityIds.length
+        ? await this.activityRepository.find({
+            where: {
+              id: In(activityIds),
+              isHidden: false,
+              publicationStatus: PublicationStatus.published,
+              approvalStatus: ApprovalStatus.approved,
+            },
+            order: { startDate: 'ASC' },
+          })
+        : [];
+
+      return buildCalendar(activities, this.calendarOptions('My NSC Events'));
+    } catch (error) {
+      throw new HttpException(
+        'Error building calendar feed',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Get Feed Token ----------------- \\
+  // Returns the user's feed token, creating one on first use. Rotating
+  // replaces the token so previously shared feed URLs stop working.
+  async getFeedToken(userId: string, rotate = false): Promise<string> {
+    const user = await this.userRepository.findOne({
+      where: { id: userId },
+      select: { id: true, calendarFeedToken: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (user.calendarFeedToken && !rotate) {
+      return user.calendarFeedToken;
+    }
+
+    const token = randomBytes(24).toString('hex');
+    await this.userRepository.update(userId, { calendarFeedToken: token });
+    return token;
+  }
+
+  private calendarOptions(name?: string) {
+    return {
+      name,
+      frontendUrl: this.configService.get<string>('FRONTEND_URL'),
+    };
+  }
+}
@@ -0,0 +1,250 @@
+import { Activity } from '../../activity/entities/activity.entity';
+import {
+  buildCalendar,
+  buildEvent,
+  buildTimeZone,
+  escapeText,
+  foldLine,
+  formatDateTime,
+  parseCalendar,
+  parseContentLine,
+  unescapeText,
+  unfoldLines,
+} from './ics.util';
+
+describe('ics.util', () => {
+  const activity = {
+    id: 'activity-123',
+    eventTitle: 'Study Group, Week 1',
+    eventDescription: 'Bring notes;\nsnacks provided',
+    startDate: new Date('2025-01-15T18:00:00Z'),
+    endDate: new Date('2025-01-15T19:30:00Z'),
+    eventLocation: 'Library Room 2',
+    eventMeetingURL: '',
+    eventHost: 'Tutoring Center',
+    eventContact: 'tutoring@example.edu',
+    eventTags: ['study', 'tutoring'],
+    updatedAt: new Date('2025-01-01T00:00:00Z'),
+  } as unknown as Activity;
+
+  describe('escapeText', () => {
+    it('escapes backslashes, separators and newlines', () => {
+      expect(escapeText('a\\b;c,d\ne')).toBe('a\\\\b\\;c\\,d\\ne');
+    });
+  });
+
+  describe('formatDateTime', () => {
+    it('formats dates as UTC date-time values', () => {
+      expect(formatDateTime(new Date('2025-01-15T18:05:09.123Z'))).toBe(
+        '20250115T180509Z',
+      );
+    });
+  });
+
+  describe('foldLine', () => {
+    it('leaves short lines untouched', () => {
+      expect(foldLine('SUMMARY:Short')).toBe('SUMMARY:Short');
+    });
+
+    it('folds long lines at 75 octets without splitting characters', () => {
+      const line = `DESCRIPTION:${'é'.repeat(60)}`;
+      const parts = foldLine(line).split('\r\n');
+
+      expect(parts.length).toBeGreaterThan(1);
+      parts.forEach((part) => {
+        expect(Buffer.byteLength(part)).toBeLessThanOrEqual(75);
+      });
+      expect(parts.slice(1).every((part) => part.startsWith(' '))).toBe(true);
+      expect(parts.map((p, i) => (i ? p.slice(1) : p)).join('')).toBe(line);
+    });
+  });
+
+  describe('buildEvent', () => {
+    it('renders the core event properties', () => {
+      const lines = buildEvent(activity, {
+        frontendUrl: 'https://events.example.edu',
+      });
+
+      expect(lines).toEqual(
+        expect.arrayContaining([
+          'BEGIN:VEVENT',
+          'UID:activity-123@nsc-events',
+          'DTSTART:20250115T180000Z',
+          'DTEND:20250115T193000Z',
+          'SUMMARY:Study Group\\, Week 1',
+          'DESCRIPTION:Bring notes\\;\\nsnacks provided',
+          'LOCATION:Library Room 2',
+          'URL:https://events.example.edu/event-detail?id=activity-123',
+          'ORGANIZER;CN="Tutoring Center":mailto:tutoring@example.edu',
+          'CATEGORIES:study,tutoring',
+          'END:VEVENT',
+        ]),
+      );
+    });
+
+    it('renders times local to the event time zone', () => {
+      const lines = buildEvent({
+        ...activity,
+        timeZone: 'America/Los_Angeles',
+      } as Activity);
+
+      expect(lines).toContain(
+        'DTSTART;TZID=America/Los_Angeles:20250115T100000',
+      );
+      expect(lines).toContain('DTEND;TZID=America/Los_Angeles:20250115T113000');
+    });
+
+    it('uses the meeting URL and adds it to the description', () => {
+      const lines = buildEvent({
+        ...activity,
+        eventMeetingURL: 'https://meet.example.com/abc',
+      } as Activity);
+
+      expect(lines).toContain('URL:https://meet.example.com/abc');
+      expect(lines.find((line) => line.startsWith('DESCRIPTION:'))).toContain(
+        'Join online: https://meet.example.com/abc',
+      );
+    });
+
+    it('falls back to CONTACT when the contact is not an email', () => {
+      const lines = buildEvent({
+        ...activity,
+        eventContact: 'Room 1234, front desk',
+      } as Activity);
+
+      expect(lines).toContain('CONTACT:Room 1234\\, front desk');
+      expect(lines.some((line) => line.startsWith('ORGANIZER'))).toBe(false);
+    });
+  });
+
+  describe('buildCalendar', () => {
+    it('wraps events in a VCALENDAR with CRLF line endings', () => {
+      const calendar = buildCalendar([activity, activity], {
+        name: 'NSC Events',
+      });
+
+      expect(calendar.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(
+        true,
+      );
+      expect(calendar).toContain('X-WR-CALNAME:NSC Events\r\n');
+      expect(calendar.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+      expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    });
+
+    it('adds a VTIMEZONE for each time zone the events use', () => {
+      const inZone = (timeZone: string) =>
+        ({ ...activity, timeZone } as Activity);
+      const calendar = buildCalendar([
+        inZone('America/Los_Angeles'),
+        inZone('America/Los_Angeles'),
+        inZone('America/New_York'),
+      ]);
+
+      expect(calendar.match(/BEGIN:VTIMEZONE/g)).toHaveLength(2);
+      expect(calendar).toContain('TZID:America/New_York\r\n');
+      expect(calendar.indexOf('END:VTIMEZONE')).toBeLessThan(
+        calendar.indexOf('BEGIN:VEVENT'),
+      );
+    });
+  });
+
+  describe('buildTimeZone', () => {
+    it('lists the daylight saving changes of the years', () => {
+      expect(buildTimeZone('America/Los_Angeles', 2025, 2025)).toEqual([
+        'BEGIN:VTIMEZONE',
+        'TZID:America/Los_Angeles',
+        'BEGIN:STANDARD',
+        'DTSTART:20241231T160000',
+        'TZOFFSETFROM:-0800',
+        'TZOFFSETTO:-0800',
+        'END:STANDARD',
+        'BEGIN:DAYLIGHT',
+        'DTSTART:20250309T020000',
+        'TZOFFSETFROM:-0800',
+        'TZOFFSETTO:-0700',
+        'END:DAYLIGHT',
+        'BEGIN:STANDARD',
+        'DTSTART:20251102T020000',
+        'TZOFFSETFROM:-0700',
+        'TZOFFSETTO:-0800',
+        'END:STANDARD',
+        'END:VTIMEZONE',
+      ]);
+    });
+
+    it('renders one observance for zones without daylight saving', () => {
+      const lines = buildTimeZone('Asia/Kolkata', 2025, 2026);
+
+      expect(lines.filter((line) => line.startsWith('BEGIN:'))).toEqual([
+        'BEGIN:VTIMEZONE',
+        'BEGIN:STANDARD',
+      ]);
+      expect(lines).toContain('TZOFFSETTO:+0530');
+    });
+  });
+
+  describe('unescapeText', () => {
+    it('reverses escapeText', () => {
+      const text = 'a\\b;c,d\ne';
+      expect(unescapeText(escapeText(text))).toBe(text);
+    });
+  });
+
+  describe('unfoldLines', () => {
+    it('joins folded lines and drops blank ones', () => {
+      expect(unfoldLines('SUMMARY:Long\r\n  title\r\n\r\nEND:VEVENT')).toEqual([
+        'SUMMARY:Long title',
+        'END:VEVENT',
+      ]);
+    });
+  });
+
+  describe('parseContentLine', () => {
+    it('reads quoted parameters that contain separators', () => {
+      expect(
+        parseContentLine(
+          'ORGANIZER;CN="Club; Inc: NSC":mailto:club@example.edu',
+        ),
+      ).toEqual({
+        name: 'ORGANIZER',
+        params: { CN: 'Club; Inc: NSC' },
+        value: 'mailto:club@example.edu',
+      });
+    });
+
+    it('returns null for lines without a value', () => {
+      expect(parseContentLine('garbage')).toBeNull();
+    });
+  });
+
+  describe('parseCalendar', () => {
+    it('reads back the events buildCalendar renders', () => {
+      const events = parseCalendar(buildCalendar([activity]));
+
+      expect(events).toHaveLength(1);
+      expect(events[0].DTSTART.value).toBe('20250115T180000Z');
+      expect(unescapeText(events[0].SUMMARY.value)).toBe('Study Group, Week 1');
+      expect(unescapeText(events[0].DESCRIPTION.value)).toBe(
+        'Bring notes;\nsnacks provided',
+      );
+      expect(events[0].ORGANIZER.params.CN).toBe('Tutoring Center');
+    });
+
+    it('skips properties of nested components', () => {
+      const events = parseCalendar(
+        [
+          'BEGIN:VCALENDAR',
+          'BEGIN:VEVENT',
+          'SUMMARY:Club Fair',
+          'BEGIN:VALARM',
+          'DESCRIPTION:Reminder',
+          'END:VALARM',
+          'END:VEVENT',
+          'END:VCALENDAR',
+        ].join('\n'),
+      );
+
+      expect(events).toEqual([{ SUMMARY: { params: {}, value: 'Club Fair' } }]);
+    });
+  });
+});
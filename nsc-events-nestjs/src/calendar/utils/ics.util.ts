@@ -0,0 +1,383 @@
+import { Activity } from '../../activity/entities/activity.entity';
+import {
+  msToWallTime,
+  utcToZonedTime,
+  WallTime,
+  wallTimeToMs,
+} from '../../common/time-zone.util';
+
+export const ICS_PRODUCT_ID = '-//North Seattle College//NSC Events//EN';
+
+// RFC 5545 limits content lines to 75 octets, excluding the line break
+const MAX_LINE_OCTETS = 75;
+
+export interface CalendarOptions {
+  name?: string;
+  // Base URL of the frontend, used to link each VEVENT to its detail page
+  frontendUrl?: string;
+}
+
+/**
+ * Escapes a TEXT value (RFC 5545 section 3.3.11).
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Formats a date as a UTC DATE-TIME value, e.g. 20250115T180000Z.
+ */
+export function formatDateTime(date: Date): string {
+  return new Date(date).toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+const formatWallTime = (wall: WallTime): string =>
+  `${pad(wall.year, 4)}${pad(wall.month)}${pad(wall.day)}T${pad(
+    wall.hour,
+  )}${pad(wall.minute)}${pad(wall.second)}`;
+
+/**
+ * Formats a date as a local DATE-TIME value in the given zone, e.g.
+ * 20250115T100000, to go with a TZID parameter.
+ */
+export function formatLocalDateTime(date: Date, timeZone: string): string {
+  return formatWallTime(utcToZonedTime(new Date(date), timeZone));
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/** Offset of the zone from UTC at an instant, in minutes */
+function offsetMinutes(instant: number, timeZone: string): number {
+  const wall = wallTimeToMs(utcToZonedTime(new Date(instant), timeZone));
+  return Math.round((wall - instant) / MINUTE_MS);
+}
+
+/** Formats a UTC offset in minutes as a UTC-OFFSET value, e.g. -0800 */
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+}
+
+/**
+ * Renders a VTIMEZONE for a TZID used by the events, covering the given
+ * years. Every change of UTC offset in those years becomes its own
+ * observance, after one for the offset the range starts with.
+ */
+export function buildTimeZone(
+  timeZone: string,
+  fromYear: number,
+  toYear: number,
+): string[] {
+  const from = Date.UTC(fromYear, 0, 1);
+  const to = Date.UTC(toYear + 1, 0, 1);
+  const initial = offsetMinutes(from, timeZone);
+  const changes = [{ at: from, from: initial, to: initial }];
+
+  let previous = initial;
+  for (let day = from + DAY_MS; day <= to; day += DAY_MS) {
+    const offset = offsetMinutes(day, timeZone);
+    if (offset === previous) {
+      continue;
+    }
+    // find the minute the offset changed on
+    let low = (day - DAY_MS) / MINUTE_MS;
+    let high = day / MINUTE_MS;
+    while (high - low > 1) {
+      const middle = Math.floor((low + high) / 2);
+      if (offsetMinutes(middle * MINUTE_MS, timeZone) === previous) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+    changes.push({ at: high * MINUTE_MS, from: previous, to: offset });
+    previous = offset;
+  }
+
+  const standardOffset = Math.min(...changes.map((change) => change.to));
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+  changes.forEach((change) => {
+    const kind = change.to > standardOffset ? 'DAYLIGHT' : 'STANDARD';
+    lines.push(
+      `BEGIN:${kind}`,
+      // observances start in the local time in effect before them
+      `DTSTART:${formatWallTime(
+        msToWallTime(change.at + change.from * MINUTE_MS),
+      )}`,
+      `TZOFFSETFROM:${formatOffset(change.from)}`,
+      `TZOFFSETTO:${formatOffset(change.to)}`,
+      `END:${kind}`,
+    );
+  });
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+/**
+ * Folds a content line into chunks of at most 75 octets. Continuation lines
+ * start with a single space, and multi-byte characters are never split.
+ */
+export function foldLine(line: string): string {
+  if (Buffer.byteLength(line) <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const chunks: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const charOctets = Buffer.byteLength(char);
+    // continuation lines lose one octet to the leading space
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + charOctets > limit) {
+      chunks.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += charOctets;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+}
+
+const isEmail = (value?: string): boolean =>
+  !!value && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value.trim());
+
+/**
+ * Renders a single activity as a VEVENT component. Times are local to the
+ * event's zone when it has one, otherwise UTC.
+ */
+export function buildEvent(
+  activity: Activity,
+  options: CalendarOptions = {},
+): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${activity.id}@nsc-events`,
+    `DTSTAMP:${formatDateTime(activity.updatedAt ?? new Date())}`,
+    ...(activity.timeZone
+      ? [
+          `DTSTART;TZID=${activity.timeZone}:${formatLocalDateTime(
+            activity.startDate,
+            activity.timeZone,
+          )}`,
+          `DTEND;TZID=${activity.timeZone}:${formatLocalDateTime(
+            activity.endDate,
+            activity.timeZone,
+          )}`,
+        ]
+      : [
+          `DTSTART:${formatDateTime(activity.startDate)}`,
+          `DTEND:${formatDateTime(activity.endDate)}`,
+        ]),
+    `SUMMARY:${escapeText(activity.eventTitle ?? '')}`,
+  ];
+
+  const description = [activity.eventDescription?.trim()];
+  if (activity.eventMeetingURL) {
+    description.push(`Join online: ${activity.eventMeetingURL}`);
+  }
+  const descriptionText = description.filter(Boolean).join('\n\n');
+  if (descriptionText) {
+    lines.push(`DESCRIPTION:${escapeText(descriptionText)}`);
+  }
+
+  if (activity.eventLocation) {
+    lines.push(`LOCATION:${escapeText(activity.eventLocation)}`);
+  }
+
+  // prefer the online meeting link, otherwise link back to the event page
+  if (activity.eventMeetingURL) {
+    lines.push(`URL:${activity.eventMeetingURL}`);
+  } else if (options.frontendUrl) {
+    lines.push(`URL:${options.frontendUrl}/event-detail?id=${activity.id}`);
+  }
+
+  if (isEmail(activity.eventContact)) {
+    const commonName = activity.eventHost
+      ? `;CN="${activity.eventHost.replace(/"/g, "'")}"`
+      : '';
+    lines.push(`ORGANIZER${commonName}:mailto:${activity.eventContact.trim()}`);
+  } else if (activity.eventContact) {
+    lines.push(`CONTACT:${escapeText(activity.eventContact)}`);
+  }
+
+  if (activity.eventTags?.length) {
+    lines.push(
+      `CATEGORIES:${activity.eventTags
+        .map((tag) => escapeText(tag))
+        .join(',')}`,
+    );
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Renders activities as a complete VCALENDAR document with CRLF line endings.
+ */
+export function buildCalendar(
+  activities: Activity[],
+  options: CalendarOptions = {},
+): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${ICS_PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+
+  if (options.name) {
+    lines.push(`X-WR-CALNAME:${escapeText(options.name)}`);
+  }
+
+  // Each TZID the events use needs a VTIMEZONE covering their dates
+  const years = new Map<string, number[]>();
+  activities
+    .filter((activity) => activity.timeZone)
+    .forEach((activity) => {
+      years.set(activity.timeZone, [
+        ...(years.get(activity.timeZone) ?? []),
+        new Date(activity.startDate).getUTCFullYear(),
+        new Date(activity.endDate).getUTCFullYear(),
+      ]);
+    });
+  years.forEach((zoneYears, timeZone) => {
+    lines.push(
+      ...buildTimeZone(
+        timeZone,
+        Math.min(...zoneYears),
+        Math.max(...zoneYears),
+      ),
+    );
+  });
+
+  activities.forEach((activity) => {
+    lines.push(...buildEvent(activity, options));
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+export interface IcsProperty {
+  value: string;
+  // Parameter names are upper case, e.g. { TZID: 'America/Los_Angeles' }
+  params: Record<string, string>;
+}
+
+// The first occurrence of each property of a VEVENT, keyed by upper case name
+export type IcsEvent = Record<string, IcsProperty>;
+
+/**
+ * Reverses escapeText for a TEXT value.
+ */
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_match, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char,
+  );
+}
+
+/**
+ * Splits a calendar into content lines, joining folded continuation lines.
+ */
+export function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r\n|\r/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter((line) => line.trim() !== '');
+}
+
+/**
+ * Splits a content line into its name, parameters and value. Colons and
+ * semicolons inside quoted parameter values don't end the parameter.
+ */
+export function parseContentLine(
+  line: string,
+): (IcsProperty & { name: string }) | null {
+  let inQuotes = false;
+  let valueStart = -1;
+  const separators: number[] = [];
+
+  for (let i = 0; i < line.length && valueStart < 0; i++) {
+    const char = line[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && char === ';') {
+      separators.push(i);
+    } else if (!inQuotes && char === ':') {
+      valueStart = i;
+    }
+  }
+  if (valueStart < 0) {
+    return null;
+  }
+
+  const bounds = [...separators, valueStart];
+  const params: Record<string, string> = {};
+  for (let i = 0; i < bounds.length - 1; i++) {
+    const param = line.slice(bounds[i] + 1, bounds[i + 1]);
+    const equals = param.indexOf('=');
+    if (equals > 0) {
+      params[param.slice(0, equals).toUpperCase()] = param
+        .slice(equals + 1)
+        .replace(/^"(.*)"$/, '$1');
+    }
+  }
+
+  return {
+    name: line.slice(0, bounds[0]).toUpperCase(),
+    params,
+    value: line.slice(valueStart + 1),
+  };
+}
+
+/**
+ * Reads the VEVENT components of a calendar. Nested components such as
+ * VALARM are skipped.
+ */
+export function parseCalendar(text: string): IcsEvent[] {
+  const events: IcsEvent[] = [];
+  let current: IcsEvent | null = null;
+  let nestedDepth = 0;
+
+  for (const line of unfoldLines(text)) {
+    const property = parseContentLine(line);
+    if (!property) {
+      continue;
+    }
+    const { name, ...rest } = property;
+    const component = rest.value.trim().toUpperCase();
+
+    if (name === 'BEGIN' && component === 'VEVENT') {
+      current = {};
+      nestedDepth = 0;
+    } else if (!current) {
+      continue;
+    } else if (name === 'BEGIN') {
+      nestedDepth++;
+    } else if (name === 'END' && nestedDepth > 0) {
+      nestedDepth--;
+    } else if (name === 'END' && component === 'VEVENT') {
+      events.push(current);
+      current = null;
+    } else if (nestedDepth === 0 && !current[name]) {
+      current[name] = rest;
+    }
+  }
+  return events;
+}
@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { CollaboratorController } from './controllers/collaborator.controller';
+import { CollaboratorService } from './services/collaborator.service';
+import { EventCollaborator } from './entities/event-collaborator.entity';
+import { ActivityModule } from '../activity/activity.module';
+import { AuthModule } from '../auth/auth.module';
+import { EmailModule } from '../email/email.module';
+import { User } from '../user/entities/user.entity';
+
+@Module({
+  imports: [
+    AuthModule,
+    ActivityModule,
+    EmailModule,
+    TypeOrmModule.forFeature([EventCollaborator, User]),
+  ],
+  controllers: [CollaboratorController],
+  providers: [CollaboratorService],
+})
+export class CollaboratorModule {}
@@ -0,0 +1,98 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PassportModule } from '@nestjs/passport';
+import { CollaboratorController } from './collaborator.controller';
+import { CollaboratorService } from '../services/collaborator.service';
+import { CollaboratorRole } from '../entities/event-collaborator.entity';
+
+const mockCollaboratorService = {
+  getMyInvitations: jest.fn(),
+  getCollaborators: jest.fn(),
+  getMyCollaboration: jest.fn(),
+  inviteCollaborator: jest.fn(),
+  acceptInvitation: jest.fn(),
+  removeCollaborator: jest.fn(),
+  transferOwnership: jest.fn(),
+};
+
+describe('CollaboratorController', () => {
+  let controller: CollaboratorController;
+  const req = { user: { id: 'creator-123', role: 'creator' } };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [PassportModule.register({ defaultStrategy: 'jwt' })],
+      controllers: [CollaboratorController],
+      providers: [
+        { provide: CollaboratorService, useValue: mockCollaboratorService },
+      ],
+    }).compile();
+
+    controller = module.get<CollaboratorController>(CollaboratorController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should list the signed-in user invitations', async () => {
+    await controller.getMyInvitations(req);
+
+    expect(mockCollaboratorService.getMyInvitations).toHaveBeenCalledWith(
+      'creator-123',
+    );
+  });
+
+  it('should look up the signed-in user collaboration', async () => {
+    await controller.getMyCollaboration('a-1', req);
+
+    expect(mockCollaboratorService.getMyCollaboration).toHaveBeenCalledWith(
+      'a-1',
+      'creator-123',
+    );
+  });
+
+  it('should invite as the signed-in user', async () => {
+    const dto = { email: 'ada@example.edu', role: CollaboratorRole.coHost };
+
+    await controller.inviteCollaborator('a-1', dto, req);
+
+    expect(mockCollaboratorService.inviteCollaborator).toHaveBeenCalledWith(
+      'a-1',
+      dto,
+      req.user,
+    );
+  });
+
+  it('should accept the invitation for the signed-in user', async () => {
+    await controller.acceptInvitation('a-1', req);
+
+    expect(mockCollaboratorService.acceptInvitation).toHaveBeenCalledWith(
+      'a-1',
+      'creator-123',
+    );
+  });
+
+  it('should remove a collaborator', async () => {
+    await controller.removeCollaborator('a-1', 'user-456', req);
+
+    expect(mockCollaboratorService.removeCollaborator).toHaveBeenCalledWith(
+      'a-1',
+      'user-456',
+      req.user,
+    );
+  });
+
+  it('should transfer ownership', async () => {
+    const dto = { email: 'next@example.edu' };
+
+    await controller.transferOwnership('a-1', dto, req);
+
+    expect(mockCollaboratorService.transferOwnership).toHaveBeenCalledWith(
+      'a-1',
+      dto,
+      req.user,
+    );
+  });
+});
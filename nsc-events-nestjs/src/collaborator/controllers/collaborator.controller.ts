@@ -0,0 +1,190 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Put,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiBody,
+} from '@nestjs/swagger';
+import {
+  CollaboratorInvitation,
+  CollaboratorService,
+  CollaboratorWithUser,
+} from '../services/collaborator.service';
+import { EventCollaborator } from '../entities/event-collaborator.entity';
+import { InviteCollaboratorDto } from '../dto/invite-collaborator.dto';
+import { TransferOwnershipDto } from '../dto/transfer-ownership.dto';
+import { Activity } from '../../activity/entities/activity.entity';
+
+@ApiTags('Event Collaborators')
+@ApiBearerAuth('JWT-auth')
+@UseGuards(AuthGuard())
+@Controller('events') // final path is /api/events (global prefix 'api')
+export class CollaboratorController {
+  constructor(private readonly collaboratorService: CollaboratorService) {}
+
+  // ----------------- My Invitations ----------------- \\
+  @Get('collaborators/invitations')
+  @ApiOperation({
+    summary: 'List pending collaborator invitations for the current user',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Pending invitations with the event title and start date',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getMyInvitations(@Req() req: any): Promise<CollaboratorInvitation[]> {
+    return this.collaboratorService.getMyInvitations(req.user.id);
+  }
+
+  // ----------------- List Collaborators ----------------- \\
+  @Get(':id/collaborators')
+  @ApiOperation({
+    summary: 'List collaborators of an event',
+    description:
+      'Includes pending invitations. Visible to the owner, admins and accepted collaborators.',
+  })
+  @ApiParam({ name: 'id', description: 'Event ID (UUID)' })
+  @ApiResponse({ status: 200, description: 'Collaborators with user details' })
+  @ApiResponse({
+    status: 401,
+    description: 'Not the owner, an admin or a collaborator',
+  })
+  @ApiResponse({ status: 404, description: 'Event not found' })
+  async getCollaborators(
+    @Param('id') id: string,
+    @Req() req: any,
+  ): Promise<CollaboratorWithUser[]> {
+    return this.collaboratorService.getCollaborators(id, req.user);
+  }
+
+  // ----------------- My Collaboration ----------------- \\
+  @Get(':id/collaborators/me')
+  @ApiOperation({
+    summary: "Get the current user's collaborator role on an event",
+    description:
+      'Returns the invitation or accepted role, or null when the user does not help run the event',
+  })
+  @ApiParam({ name: 'id', description: 'Event ID (UUID)' })
+  @ApiResponse({ status: 200, description: 'Collaboration or null' })
+  @ApiResponse({ status: 404, description: 'Event not found' })
+  async getMyCollaboration(
+    @Param('id') id: string,
+    @Req() req: any,
+  ): Promise<EventCollaborator | null> {
+    return this.collaboratorService.getMyCollaboration(id, req.user.id);
+  }
+
+  // ----------------- Invite Collaborator ----------------- \\
+  @Post(':id/collaborators')
+  @ApiOperation({
+    summary: 'Invite a collaborator to an event',
+    description:
+      'Emails an invitation to an existing user. Requires being the owner, an admin or a co-host. Invitations on a recurring event cover the whole series.',
+  })
+  @ApiParam({ name: 'id', description: 'Event ID (UUID)' })
+  @ApiBody({ type: InviteCollaboratorDto })
+  @ApiResponse({ status: 201, description: 'Invitation created' })
+  @ApiResponse({
+    status: 400,
+    description: 'User already collaborates on or owns the event',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Not the owner, an admin or a co-host',
+  })
+  @ApiResponse({ status: 404, description: 'Event or user not found' })
+  async inviteCollaborator(
+    @Param('id') id: string,
+    @Body() inviteDto: InviteCollaboratorDto,
+    @Req() req: any,
+  ): Promise<CollaboratorWithUser> {
+    return this.collaboratorService.inviteCollaborator(id, inviteDto, req.user);
+  }
+
+  // ----------------- Accept Invitation ----------------- \\
+  @Put(':id/collaborators/accept')
+  @ApiOperation({
+    summary: 'Accept an invitation to help run an event',
+  })
+  @ApiParam({ name: 'id', description: 'Event ID (UUID)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Invitation accepted',
+    type: EventCollaborator,
+  })
+  @ApiResponse({ status: 404, description: 'Event or invitation not found' })
+  async acceptInvitation(
+    @Param('id') id: string,
+    @Req() req: any,
+  ): Promise<EventCollaborator> {
+    return this.collaboratorService.acceptInvitation(id, req.user.id);
+  }
+
+  // ----------------- Remove Collaborator ----------------- \\
+  @Delete(':id/collaborators/:userId')
+  @ApiOperation({
+    summary: 'Remove a collaborator from an event',
+    description:
+      'Owners, admins and co-hosts can remove anyone. Collaborators can remove themselves, which also declines a pending invitation.',
+  })
+  @ApiParam({ name: 'id', description: 'Event ID (UUID)' })
+  @ApiParam({ name: 'userId', description: 'Collaborator user ID (UUID)' })
+  @ApiResponse({ status: 200, description: 'Collaborator removed' })
+  @ApiResponse({
+    status: 401,
+    description: 'Not the owner, an admin, a co-host or the collaborator',
+  })
+  @ApiResponse({ status: 404, description: 'Event or collaborator not found' })
+  async removeCollaborator(
+    @Param('id') id: string,
+    @Param('userId') userId: string,
+    @Req() req: any,
+  ): Promise<void> {
+    return this.collaboratorService.removeCollaborator(id, userId, req.user);
+  }
+
+  // ----------------- Transfer Ownership ----------------- \\
+  @Put(':id/owner')
+  @ApiOperation({
+    summary: 'Transfer an event to a new owner',
+    description:
+      'Only the owner or an admin can transfer an event. The new owner must have the creator or admin role. A recurring event is transferred as a whole series.',
+  })
+  @ApiParam({ name: 'id', description: 'Event ID (UUID)' })
+  @ApiBody({ type: TransferOwnershipDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Ownership transferred',
+    type: Activity,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'New owner lacks the creator role or already owns the event',
+  })
+  @ApiResponse({ status: 401, description: 'Not the owner or an admin' })
+  @ApiResponse({ status: 404, description: 'Event or user not found' })
+  async transferOwnership(
+    @Param('id') id: string,
+    @Body() transferDto: TransferOwnershipDto,
+    @Req() req: any,
+  ): Promise<Activity> {
+    return this.collaboratorService.transferOwnership(
+      id,
+      transferDto,
+      req.user,
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { IsEmail, IsEnum } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { CollaboratorRole } from '../entities/event-collaborator.entity';
+
+export class InviteCollaboratorDto {
+  @ApiProperty({
+    description: 'Email address of an existing NSC Events account',
+    example: 'officer@northseattle.edu',
+  })
+  @IsEmail()
+  readonly email: string;
+
+  @ApiProperty({
+    description:
+      'co-host can do everything the owner can, editor can edit and check in attendees, check-in staff can only check in attendees',
+    enum: CollaboratorRole,
+    example: CollaboratorRole.editor,
+  })
+  @IsEnum(CollaboratorRole)
+  readonly role: CollaboratorRole;
+}
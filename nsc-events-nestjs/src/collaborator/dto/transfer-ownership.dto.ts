@@ -0,0 +1,12 @@
+import { IsEmail } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TransferOwnershipDto {
+  @ApiProperty({
+    description:
+      'Email address of the new owner, who must have the creator or admin role',
+    example: 'new.officer@northseattle.edu',
+  })
+  @IsEmail()
+  readonly email: string;
+}
@@ -0,0 +1,65 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export enum CollaboratorRole {
+  coHost = 'co-host',
+  editor = 'editor',
+  checkInStaff = 'check-in-staff',
+}
+
+export enum CollaboratorStatus {
+  invited = 'invited',
+  accepted = 'accepted',
+}
+
+/**
+ * A user helping run an event they don't own. Invitations only grant access
+ * once accepted.
+ */
+@Entity('event_collaborators')
+@Index(['activityId', 'userId'], { unique: true })
+export class EventCollaborator {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  activityId: string;
+
+  // Set when the event is recurring, the collaborator helps with every
+  // occurrence of the series
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  seriesId?: string | null;
+
+  @Index()
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @Column({ type: 'enum', enum: CollaboratorRole })
+  role: CollaboratorRole;
+
+  @Column({
+    type: 'enum',
+    enum: CollaboratorStatus,
+    default: CollaboratorStatus.invited,
+  })
+  status: CollaboratorStatus;
+
+  @Column({ type: 'uuid' })
+  invitedByUserId: string;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  acceptedAt?: Date | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
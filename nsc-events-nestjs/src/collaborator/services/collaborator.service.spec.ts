@@ -0,0 +1,419 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import {
+  BadRequestException,
+  HttpException,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { CollaboratorService } from './collaborator.service';
+import {
+  CollaboratorRole,
+  CollaboratorStatus,
+  EventCollaborator,
+} from '../entities/event-collaborator.entity';
+import { Activity } from '../../activity/entities/activity.entity';
+import { ActivityService } from '../../activity/services/activity/activity.service';
+import { EmailService } from '../../email/email.service';
+import { Role, User } from '../../user/entities/user.entity';
+import { EventPermission } from '../utils/permissions.util';
+
+describe('CollaboratorService', () => {
+  let service: CollaboratorService;
+
+  const owner = { id: 'owner-123', role: Role.creator };
+  const activity = {
+    id: 'activity-123',
+    createdByUserId: 'owner-123',
+    eventTitle: 'Career Fair',
+  } as Activity;
+
+  const invitee = {
+    id: 'user-456',
+    firstName: 'Ada',
+    lastName: 'Lovelace',
+    email: 'ada@example.edu',
+    role: Role.user,
+  } as User;
+
+  const invitation = {
+    id: 'collab-1',
+    activityId: 'activity-123',
+    userId: 'user-456',
+    role: CollaboratorRole.editor,
+    status: CollaboratorStatus.invited,
+  } as EventCollaborator;
+
+  const queryBuilder = {
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    getOne: jest.fn(),
+    getMany: jest.fn(),
+  };
+
+  const mockCollaboratorRepository = {
+    find: jest.fn(),
+    create: jest.fn((data: Partial<EventCollaborator>) => data),
+    save: jest.fn(async (data: any) => ({ id: 'collab-1', ...data })),
+    remove: jest.fn(),
+    createQueryBuilder: jest.fn().mockReturnValue(queryBuilder),
+  };
+
+  const mockUserRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+  };
+
+  const mockActivityRepository = {
+    find: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockActivityService = {
+    getActivityById: jest.fn(),
+    hasEventPermission: jest.fn(),
+  };
+
+  const mockEmailService = {
+    sendCollaboratorInviteEmail: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+    queryBuilder.getOne.mockResolvedValue(null);
+    mockActivityService.getActivityById.mockResolvedValue({ ...activity });
+    mockActivityService.hasEventPermission.mockResolvedValue(true);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CollaboratorService,
+        {
+          provide: getRepositoryToken(EventCollaborator),
+          useValue: mockCollaboratorRepository,
+        },
+        { provide: getRepositoryToken(User), useValue: mockUserRepository },
+        {
+          provide: getRepositoryToken(Activity),
+          useValue: mockActivityRepository,
+        },
+        { provide: ActivityService, useValue: mockActivityService },
+        { provide: EmailService, useValue: mockEmailService },
+      ],
+    }).compile();
+
+    service = module.get<CollaboratorService>(CollaboratorService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getCollaborators', () => {
+    it('should list collaborators with their user details', async () => {
+      queryBuilder.getMany.mockResolvedValue([invitation]);
+      mockUserRepository.find.mockResolvedValue([invitee]);
+
+      const result = await service.getCollaborators('activity-123', owner);
+
+      expect(result).toEqual([
+        {
+          ...invitation,
+          user: {
+            id: 'user-456',
+            firstName: 'Ada',
+            lastName: 'Lovelace',
+            email: 'ada@example.edu',
+          },
+        },
+      ]);
+    });
+
+    it('should match the whole series for a recurring event', async () => {
+      mockActivityService.getActivityById.mockResolvedValue({
+        ...activity,
+        seriesId: 'series-1',
+      });
+      queryBuilder.getMany.mockResolvedValue([]);
+
+      await service.getCollaborators('activity-123', owner);
+
+      expect(queryBuilder.where).toHaveBeenCalledWith(
+        '(collaborator."activityId" = :id OR collaborator."seriesId" = :seriesId)',
+        { id: 'activity-123', seriesId: 'series-1' },
+      );
+    });
+
+    it('should reject users who do not help run the event', async () => {
+      mockActivityService.hasEventPermission.mockResolvedValue(false);
+
+      await expect(
+        service.getCollaborators('activity-123', { id: 'stranger' }),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+  });
+
+  describe('inviteCollaborator', () => {
+    const inviteDto = {
+      email: 'ada@example.edu',
+      role: CollaboratorRole.editor,
+    };
+
+    it('should save a pending invitation and email the invitee', async () => {
+      mockUserRepository.findOne
+        .mockResolvedValueOnce(invitee)
+        .mockResolvedValueOnce({ firstName: 'Grace', lastName: 'Hopper' });
+
+      const result = await service.inviteCollaborator(
+        'activity-123',
+        inviteDto,
+        owner,
+      );
+
+      expect(mockActivityService.hasEventPermission).toHaveBeenCalledWith(
+        activity,
+        owner,
+        EventPermission.manageCollaborators,
+      );
+      expect(mockCollaboratorRepository.create).toHaveBeenCalledWith({
+        activityId: 'activity-123',
+        seriesId: null,
+        userId: 'user-456',
+        role: CollaboratorRole.editor,
+        status: CollaboratorStatus.invited,
+        invitedByUserId: 'owner-123',
+      });
+      expect(mockEmailService.sendCollaboratorInviteEmail).toHaveBeenCalledWith(
+        'ada@example.edu',
+        {
+          eventId: 'activity-123',
+          eventTitle: 'Career Fair',
+          role: CollaboratorRole.editor,
+          invitedByName: 'Grace Hopper',
+        },
+      );
+      expect(result.user.email).toBe('ada@example.edu');
+    });
+
+    it('should keep the invitation when the email fails', async () => {
+      mockUserRepository.findOne.mockResolvedValue(invitee);
+      mockEmailService.sendCollaboratorInviteEmail.mockRejectedValueOnce(
+        new Error('smtp down'),
+      );
+
+      await expect(
+        service.inviteCollaborator('activity-123', inviteDto, owner),
+      ).resolves.toBeDefined();
+      expect(Logger.prototype.warn).toHaveBeenCalled();
+    });
+
+    it('should reject users who cannot manage collaborators', async () => {
+      mockActivityService.hasEventPermission.mockResolvedValue(false);
+
+      await expect(
+        service.inviteCollaborator('activity-123', inviteDto, {
+          id: 'editor-1',
+        }),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockCollaboratorRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for an unknown email', async () => {
+      mockUserRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.inviteCollaborator('activity-123', inviteDto, owner),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should refuse to invite the owner', async () => {
+      mockUserRepository.findOne.mockResolvedValue({
+        ...invitee,
+        id: 'owner-123',
+      });
+
+      await expect(
+        service.inviteCollaborator('activity-123', inviteDto, owner),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should refuse to invite someone twice', async () => {
+      mockUserRepository.findOne.mockResolvedValue(invitee);
+      queryBuilder.getOne.mockResolvedValue(invitation);
+
+      await expect(
+        service.inviteCollaborator('activity-123', inviteDto, owner),
+      ).rejects.toThrow('This user is already a collaborator on the event');
+    });
+  });
+
+  describe('getMyInvitations', () => {
+    it('should attach event details and skip deleted events', async () => {
+      mockCollaboratorRepository.find.mockResolvedValue([
+        invitation,
+        { ...invitation, id: 'collab-2', activityId: 'deleted' },
+      ]);
+      const event = { id: 'activity-123', eventTitle: 'Career Fair' };
+      mockActivityRepository.find.mockResolvedValue([event]);
+
+      const result = await service.getMyInvitations('user-456');
+
+      expect(mockCollaboratorRepository.find).toHaveBeenCalledWith({
+        where: { userId: 'user-456', status: CollaboratorStatus.invited },
+        order: { createdAt: 'DESC' },
+      });
+      expect(result).toEqual([{ ...invitation, event }]);
+    });
+  });
+
+  describe('getMyCollaboration', () => {
+    it('should return the user role on the event', async () => {
+      queryBuilder.getOne.mockResolvedValue(invitation);
+
+      const result = await service.getMyCollaboration(
+        'activity-123',
+        'user-456',
+      );
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'collaborator."userId" = :userId',
+        { userId: 'user-456' },
+      );
+      expect(result).toBe(invitation);
+    });
+
+    it('should return null for users who do not help run it', async () => {
+      await expect(
+        service.getMyCollaboration('activity-123', 'stranger'),
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe('acceptInvitation', () => {
+    it('should mark the invitation accepted', async () => {
+      queryBuilder.getOne.mockResolvedValue({ ...invitation });
+
+      const result = await service.acceptInvitation('activity-123', 'user-456');
+
+      expect(result.status).toBe(CollaboratorStatus.accepted);
+      expect(result.acceptedAt).toBeInstanceOf(Date);
+    });
+
+    it('should throw NotFoundException without an invitation', async () => {
+      await expect(
+        service.acceptInvitation('activity-123', 'user-456'),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('removeCollaborator', () => {
+    it('should let collaborators remove themselves', async () => {
+      queryBuilder.getOne.mockResolvedValue(invitation);
+
+      await service.removeCollaborator('activity-123', 'user-456', {
+        id: 'user-456',
+      });
+
+      expect(mockActivityService.hasEventPermission).not.toHaveBeenCalled();
+      expect(mockCollaboratorRepository.remove).toHaveBeenCalledWith(
+        invitation,
+      );
+    });
+
+    it('should require manage permission to remove someone else', async () => {
+      mockActivityService.hasEventPermission.mockResolvedValue(false);
+
+      await expect(
+        service.removeCollaborator('activity-123', 'user-456', {
+          id: 'editor-1',
+        }),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockCollaboratorRepository.remove).not.toHaveBeenCalled();
+    });
+
+    it('should wrap database errors', async () => {
+      queryBuilder.getOne.mockResolvedValue(invitation);
+      mockCollaboratorRepository.remove.mockRejectedValueOnce(
+        new Error('db down'),
+      );
+
+      await expect(
+        service.removeCollaborator('activity-123', 'user-456', owner),
+      ).rejects.toThrow(HttpException);
+    });
+  });
+
+  describe('transferOwnership', () => {
+    const newOwner = {
+      ...invitee,
+      id: 'creator-789',
+      email: 'next@example.edu',
+      role: Role.creator,
+    } as User;
+
+    it('should hand the whole series to the new owner', async () => {
+      mockActivityService.getActivityById.mockResolvedValue({
+        ...activity,
+        seriesId: 'series-1',
+      });
+      mockUserRepository.findOne.mockResolvedValue(newOwner);
+      queryBuilder.getOne.mockResolvedValue({
+        ...invitation,
+        userId: 'creator-789',
+      });
+
+      const result = await service.transferOwnership(
+        'activity-123',
+        { email: 'next@example.edu' },
+        owner,
+      );
+
+      expect(mockActivityRepository.update).toHaveBeenCalledWith(
+        { seriesId: 'series-1' },
+        { createdByUserId: 'creator-789' },
+      );
+      expect(mockCollaboratorRepository.remove).toHaveBeenCalled();
+      expect(result.createdByUserId).toBe('creator-789');
+    });
+
+    it('should let admins transfer events they do not own', async () => {
+      mockUserRepository.findOne.mockResolvedValue(newOwner);
+
+      await service.transferOwnership(
+        'activity-123',
+        { email: 'next@example.edu' },
+        { id: 'admin-1', role: Role.admin },
+      );
+
+      expect(mockActivityRepository.update).toHaveBeenCalledWith(
+        { id: 'activity-123' },
+        { createdByUserId: 'creator-789' },
+      );
+    });
+
+    it('should not let co-hosts transfer the event', async () => {
+      await expect(
+        service.transferOwnership(
+          'activity-123',
+          { email: 'next@example.edu' },
+          { id: 'cohost-1', role: Role.creator },
+        ),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should require the new owner to be a creator or admin', async () => {
+      mockUserRepository.findOne.mockResolvedValue(invitee);
+
+      await expect(
+        service.transferOwnership(
+          'activity-123',
+          { email: 'ada@example.edu' },
+          owner,
+        ),
+      ).rejects.toThrow('The new owner must have the creator or admin role');
+      expect(mockActivityRepository.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,420 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository, SelectQueryBuilder } from 'typeorm';
+import {
+  CollaboratorStatus,
+  EventCollaborator,
+} from '../entities/event-collaborator.entity';
+import { Activity } from '../../activity/entities/activity.entity';
+import { ActivityService } from '../../activity/services/activity/activity.service';
+import { EmailService } from '../../email/email.service';
+import { Role, User } from '../../user/entities/user.entity';
+import { InviteCollaboratorDto } from '../dto/invite-collaborator.dto';
+import { TransferOwnershipDto } from '../dto/transfer-ownership.dto';
+import { EventActor, EventPermission } from '../utils/permissions.util';
+
+export type CollaboratorUser = Pick<
+  User,
+  'id' | 'firstName' | 'lastName' | 'email'
+>;
+
+export interface CollaboratorWithUser extends EventCollaborator {
+  user: CollaboratorUser | null;
+}
+
+export interface CollaboratorInvitation extends EventCollaborator {
+  event: Pick<Activity, 'id' | 'eventTitle' | 'startDate'>;
+}
+
+@Injectable()
+export class CollaboratorService {
+  private readonly logger = new Logger(CollaboratorService.name);
+
+  constructor(
+    @InjectRepository(EventCollaborator)
+    private readonly collaboratorRepository: Repository<EventCollaborator>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    @InjectRepository(Activity)
+    private readonly activityRepository: Repository<Activity>,
+    private readonly activityService: ActivityService,
+    private readonly emailService: EmailService,
+  ) {}
+
+  // ----------------- Get Collaborators ----------------- \\
+  // Visible to the owner, admins and accepted collaborators
+  async getCollaborators(
+    activityId: string,
+    actor: EventActor,
+  ): Promise<CollaboratorWithUser[]> {
+    try {
+      const activity = await this.activityService.getActivityById(activityId);
+      await this.assertPermission(
+        activity,
+        actor,
+        EventPermission.checkIn,
+        'You can only view collaborators of events you own or help run',
+      );
+
+      const collaborators = await this.forEvent(activity)
+        .orderBy('collaborator."createdAt"', 'ASC')
+        .getMany();
+
+      return await this.withUsers(collaborators);
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof UnauthorizedException
+      ) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error retrieving collaborators',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Invite Collaborator ----------------- \\
+  // Invitations on a recurring event cover the whole series
+  async inviteCollaborator(
+    activityId: string,
+    inviteDto: InviteCollaboratorDto,
+    actor: EventActor,
+  ): Promise<CollaboratorWithUser> {
+    try {
+      const activity = await this.activityService.getActivityById(activityId);
+      await this.assertPermission(
+        activity,
+        actor,
+        EventPermission.manageCollaborators,
+        'You can only invite collaborators to events you own or co-host',
+      );
+
+      const invitee = await this.userRepository.findOne({
+        where: { email: inviteDto.email.trim() },
+      });
+      if (!invitee) {
+        throw new NotFoundException('No user found with that email');
+      }
+      if (invitee.id === activity.createdByUserId) {
+        throw new BadRequestException('The event owner cannot be invited');
+      }
+
+      const existing = await this.forEvent(activity)
+        .andWhere('collaborator."userId" = :userId', { userId: invitee.id })
+        .getOne();
+      if (existing) {
+        throw new BadRequestException(
+          'This user is already a collaborator on the event',
+        );
+      }
+
+      const collaborator = await this.collaboratorRepository.save(
+        this.collaboratorRepository.create({
+          activityId: activity.id,
+          seriesId: activity.seriesId ?? null,
+          userId: invitee.id,
+          role: inviteDto.role,
+          status: CollaboratorStatus.invited,
+          invitedByUserId: actor.id,
+        }),
+      );
+
+      await this.notifyInvitee(activity, collaborator, invitee, actor);
+
+      return { ...collaborator, user: this.toCollaboratorUser(invitee) };
+    } catch (error) {
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException ||
+        error instanceof UnauthorizedException
+      ) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error inviting collaborator',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Get My Invitations ----------------- \\
+  async getMyInvitations(userId: string): Promise<CollaboratorInvitation[]> {
+    try {
+      const invitations = await this.collaboratorRepository.find({
+        where: { userId, status: CollaboratorStatus.invited },
+        order: { createdAt: 'DESC' },
+      });
+      if (invitations.length === 0) {
+        return [];
+      }
+
+      const activities = await this.activityRepository.find({
+        where: { id: In(invitations.map((invite) => invite.activityId)) },
+        select: ['id', 'eventTitle', 'startDate'],
+      });
+      const byId = new Map(activities.map((event) => [event.id, event]));
+
+      // Skips invitations to events deleted since
+      return invitations
+        .filter((invite) => byId.has(invite.activityId))
+        .map((invite) => ({ ...invite, event: byId.get(invite.activityId) }));
+    } catch (error) {
+      throw new HttpException(
+        'Error retrieving invitations',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Get My Collaboration ----------------- \\
+  // The current user's role on the event, or null when they don't help run it
+  async getMyCollaboration(
+    activityId: string,
+    userId: string,
+  ): Promise<EventCollaborator | null> {
+    try {
+      const activity = await this.activityService.getActivityById(activityId);
+      return await this.forEvent(activity)
+        .andWhere('collaborator."userId" = :userId', { userId })
+        .getOne();
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error retrieving collaboration',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Accept Invitation ----------------- \\
+  async acceptInvitation(
+    activityId: string,
+    userId: string,
+  ): Promise<EventCollaborator> {
+    try {
+      const activity = await this.activityService.getActivityById(activityId);
+      const invitation = await this.forEvent(activity)
+        .andWhere('collaborator."userId" = :userId', { userId })
+        .getOne();
+      if (!invitation) {
+        throw new NotFoundException('Invitation not found');
+      }
+      if (invitation.status === CollaboratorStatus.accepted) {
+        return invitation;
+      }
+
+      invitation.status = CollaboratorStatus.accepted;
+      invitation.acceptedAt = new Date();
+      return await this.collaboratorRepository.save(invitation);
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error accepting invitation',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Remove Collaborator ----------------- \\
+  // Collaborators can always remove themselves, which also declines a
+  // pending invitation
+  async removeCollaborator(
+    activityId: string,
+    userId: string,
+    actor: EventActor,
+  ): Promise<void> {
+    try {
+      const activity = await this.activityService.getActivityById(activityId);
+      if (userId !== actor.id) {
+        await this.assertPermission(
+          activity,
+          actor,
+          EventPermission.manageCollaborators,
+          'You can only remove collaborators from events you own or co-host',
+        );
+      }
+
+      const collaborator = await this.forEvent(activity)
+        .andWhere('collaborator."userId" = :userId', { userId })
+        .getOne();
+      if (!collaborator) {
+        throw new NotFoundException('Collaborator not found');
+      }
+
+      await this.collaboratorRepository.remove(collaborator);
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof UnauthorizedException
+      ) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error removing collaborator',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Transfer Ownership ----------------- \\
+  // Only the owner or an admin can hand an event over. A recurring event is
+  // transferred as a whole series.
+  async transferOwnership(
+    activityId: string,
+    transferDto: TransferOwnershipDto,
+    actor: EventActor,
+  ): Promise<Activity> {
+    try {
+      const activity = await this.activityService.getActivityById(activityId);
+      if (actor.role !== Role.admin && activity.createdByUserId !== actor.id) {
+        throw new UnauthorizedException(
+          'Only the event owner or an admin can transfer ownership',
+        );
+      }
+
+      const newOwner = await this.userRepository.findOne({
+        where: { email: transferDto.email.trim() },
+      });
+      if (!newOwner) {
+        throw new NotFoundException('No user found with that email');
+      }
+      if (newOwner.role !== Role.creator && newOwner.role !== Role.admin) {
+        throw new BadRequestException(
+          'The new owner must have the creator or admin role',
+        );
+      }
+      if (newOwner.id === activity.createdByUserId) {
+        throw new BadRequestException('This user already owns the event');
+      }
+
+      await this.activityRepository.update(
+        activity.seriesId
+          ? { seriesId: activity.seriesId }
+          : { id: activity.id },
+        { createdByUserId: newOwner.id },
+      );
+
+      // The new owner no longer needs a collaborator role
+      const previousRole = await this.forEvent(activity)
+        .andWhere('collaborator."userId" = :userId', { userId: newOwner.id })
+        .getOne();
+      if (previousRole) {
+        await this.collaboratorRepository.remove(previousRole);
+      }
+
+      activity.createdByUserId = newOwner.id;
+      return activity;
+    } catch (error) {
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException ||
+        error instanceof UnauthorizedException
+      ) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error transferring ownership',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  private async assertPermission(
+    activity: Activity,
+    actor: EventActor,
+    permission: EventPermission,
+    message: string,
+  ): Promise<void> {
+    if (
+      !(await this.activityService.hasEventPermission(
+        activity,
+        actor,
+        permission,
+      ))
+    ) {
+      throw new UnauthorizedException(message);
+    }
+  }
+
+  // Collaborators on the event itself or, for a recurring event, its series
+  private forEvent(activity: Activity): SelectQueryBuilder<EventCollaborator> {
+    const qb = this.collaboratorRepository.createQueryBuilder('collaborator');
+    if (activity.seriesId) {
+      return qb.where(
+        '(collaborator."activityId" = :id OR collaborator."seriesId" = :seriesId)',
+        { id: activity.id, seriesId: activity.seriesId },
+      );
+    }
+    return qb.where('collaborator."activityId" = :id', { id: activity.id });
+  }
+
+  private async withUsers(
+    collaborators: EventCollaborator[],
+  ): Promise<CollaboratorWithUser[]> {
+    if (collaborators.length === 0) {
+      return [];
+    }
+
+    const users = await this.userRepository.find({
+      where: { id: In(collaborators.map((c) => c.userId)) },
+    });
+    const byId = new Map(users.map((user) => [user.id, user]));
+
+    return collaborators.map((collaborator) => {
+      const user = byId.get(collaborator.userId);
+      return {
+        ...collaborator,
+        user: user ? this.toCollaboratorUser(user) : null,
+      };
+    });
+  }
+
+  private toCollaboratorUser(user: User): CollaboratorUser {
+    return {
+      id: user.id,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      email: user.email,
+    };
+  }
+
+  // The invitation stands even when the email can't be delivered
+  private async notifyInvitee(
+    activity: Activity,
+    collaborator: EventCollaborator,
+    invitee: User,
+    actor: EventActor,
+  ): Promise<void> {
+    try {
+      const inviter = await this.userRepository.findOne({
+        where: { id: actor.id },
+      });
+      await this.emailService.sendCollaboratorInviteEmail(invitee.email, {
+        eventId: activity.id,
+        eventTitle: activity.eventTitle,
+        role: collaborator.role,
+        invitedByName: inviter
+          ? `${inviter.firstName} ${inviter.lastName}`
+          : 'An event organizer',
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Could not email the collaborator invite for event ${activity.id}: ${error.message}`,
+      );
+    }
+  }
+}
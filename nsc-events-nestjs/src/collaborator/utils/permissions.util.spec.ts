@@ -0,0 +1,30 @@
+import { EventPermission, rolesWithPermission } from './permissions.util';
+import { CollaboratorRole } from '../entities/event-collaborator.entity';
+
+describe('permissions.util', () => {
+  describe('rolesWithPermission', () => {
+    it('lets every role check attendees in', () => {
+      expect(rolesWithPermission(EventPermission.checkIn)).toEqual([
+        CollaboratorRole.coHost,
+        CollaboratorRole.editor,
+        CollaboratorRole.checkInStaff,
+      ]);
+    });
+
+    it('lets co-hosts and editors edit', () => {
+      expect(rolesWithPermission(EventPermission.edit)).toEqual([
+        CollaboratorRole.coHost,
+        CollaboratorRole.editor,
+      ]);
+    });
+
+    it('keeps deleting and managing collaborators to co-hosts', () => {
+      expect(rolesWithPermission(EventPermission.delete)).toEqual([
+        CollaboratorRole.coHost,
+      ]);
+      expect(rolesWithPermission(EventPermission.manageCollaborators)).toEqual([
+        CollaboratorRole.coHost,
+      ]);
+    });
+  });
+});
@@ -0,0 +1,32 @@
+import { CollaboratorRole } from '../entities/event-collaborator.entity';
+
+/** Things that can be done to an event besides viewing it */
+export enum EventPermission {
+  edit = 'edit',
+  delete = 'delete',
+  archive = 'archive',
+  publish = 'publish',
+  checkIn = 'check-in',
+  manageCollaborators = 'manage-collaborators',
+}
+
+const ROLE_PERMISSIONS: Record<CollaboratorRole, EventPermission[]> = {
+  [CollaboratorRole.coHost]: Object.values(EventPermission),
+  [CollaboratorRole.editor]: [EventPermission.edit, EventPermission.checkIn],
+  [CollaboratorRole.checkInStaff]: [EventPermission.checkIn],
+};
+
+/** Collaborator roles that grant the given permission */
+export function rolesWithPermission(
+  permission: EventPermission,
+): CollaboratorRole[] {
+  return Object.values(CollaboratorRole).filter((role) =>
+    ROLE_PERMISSIONS[role].includes(permission),
+  );
+}
+
+/** The signed-in user acting on an event */
+export interface EventActor {
+  id: string;
+  role?: string;
+}
@@ -0,0 +1,53 @@
+import { formatCsvRow, parseCsv } from './csv.util';
+
+describe('csv.util', () => {
+  describe('parseCsv', () => {
+    it('splits rows and cells', () => {
+      expect(
+        parseCsv('Title,Location\r\nClub Fair,Gym\nStudy Night,Library'),
+      ).toEqual([
+        ['Title', 'Location'],
+        ['Club Fair', 'Gym'],
+        ['Study Night', 'Library'],
+      ]);
+    });
+
+    it('reads quoted cells with commas, quotes and line breaks', () => {
+      expect(parseCsv('"Fair, Spring","Say ""hi""","line 1\nline 2"')).toEqual([
+        ['Fair, Spring', 'Say "hi"', 'line 1\nline 2'],
+      ]);
+    });
+
+    it('keeps empty cells and skips blank lines', () => {
+      expect(parseCsv('\uFEFFa,,c\n\n,,\n1,2,\n')).toEqual([
+        ['a', '', 'c'],
+        ['1', '2', ''],
+      ]);
+    });
+  });
+
+  describe('formatCsvRow', () => {
+    it('quotes cells that need it and leaves out empty values', () => {
+      expect(
+        formatCsvRow([
+          'Fair, Spring',
+          'Say "hi"',
+          'a\nb',
+          12,
+          true,
+          null,
+          undefined,
+        ]),
+      ).toBe('"Fair, Spring","Say ""hi""","a\nb",12,true,,');
+    });
+
+    it('keeps formulas from running in spreadsheets', () => {
+      expect(formatCsvRow(['=1+1', '@SUM(A1)', -5])).toBe("'=1+1,'@SUM(A1),-5");
+    });
+
+    it('round trips through parseCsv', () => {
+      const row = ['Fair, Spring', 'Say "hi"', 'line 1\nline 2', ''];
+      expect(parseCsv(formatCsvRow(row))).toEqual([row]);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Parses CSV text (RFC 4180) into rows of cells. Quoted cells may contain
+ * commas, line breaks and doubled quotes; a leading byte order mark and
+ * blank lines are ignored.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((value) => value.trim() !== '')) {
+      rows.push(row);
+    }
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length) {
+    endRow();
+  }
+  return rows;
+}
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+/**
+ * Formats one CSV line (RFC 4180, without the line break). Text starting
+ * with =, +, -, @ or a control character is prefixed with an apostrophe so
+ * spreadsheets don't run it as a formula.
+ */
+export function formatCsvRow(values: CsvValue[]): string {
+  return values
+    .map((value) => {
+      if (value === null || value === undefined) {
+        return '';
+      }
+      let text = String(value);
+      if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+        text = `'${text}`;
+      }
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(',');
+}
@@ -0,0 +1,71 @@
+import { Logger } from '@nestjs/common';
+import { IntervalJob } from './interval-job';
+
+class TestJob extends IntervalJob {
+  protected readonly logger = new Logger('TestJob');
+  protected readonly failureMessage = 'Failed to run the test job';
+  readonly work = jest.fn<Promise<number>, []>();
+
+  constructor() {
+    super(1000);
+  }
+
+  trigger(): Promise<number> {
+    return this.runOnce();
+  }
+
+  protected run(): Promise<number> {
+    return this.work();
+  }
+}
+
+describe('IntervalJob', () => {
+  let job: TestJob;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(Logger.prototype, 'error').mockImplementation();
+    job = new TestJob();
+    job.work.mockResolvedValue(1);
+  });
+
+  afterEach(() => {
+    job.onModuleDestroy();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('runs on startup and on every interval until destroyed', async () => {
+    job.onModuleInit();
+    expect(job.work).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(job.work).toHaveBeenCalledTimes(2);
+
+    job.onModuleDestroy();
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(job.work).toHaveBeenCalledTimes(2);
+  });
+
+  it('skips a run while the previous one is in progress', async () => {
+    let finish: (count: number) => void;
+    job.work.mockReturnValue(new Promise((resolve) => (finish = resolve)));
+
+    const first = job.trigger();
+    await expect(job.trigger()).resolves.toBe(0);
+    finish(3);
+
+    await expect(first).resolves.toBe(3);
+    expect(job.work).toHaveBeenCalledTimes(1);
+  });
+
+  it('logs failures with the job message and runs again afterwards', async () => {
+    job.work.mockRejectedValueOnce(new Error('Database error'));
+
+    await expect(job.trigger()).resolves.toBe(0);
+    expect(Logger.prototype.error).toHaveBeenCalledWith(
+      'Failed to run the test job: Database error',
+    );
+    await expect(job.trigger()).resolves.toBe(1);
+  });
+});
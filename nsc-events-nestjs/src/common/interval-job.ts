@@ -0,0 +1,48 @@
+import { Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+
+/**
+ * Base of background jobs that run every `intervalMs` while the app is up.
+ * The job also runs once on startup to catch up on work that came due while
+ * the server was down. A tick is skipped while the previous run is still
+ * going, and failures are logged so the next tick still runs.
+ */
+export abstract class IntervalJob implements OnModuleInit, OnModuleDestroy {
+  protected abstract readonly logger: Logger;
+  // Logged with the error message when a run fails
+  protected abstract readonly failureMessage: string;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(private readonly intervalMs: number) {}
+
+  onModuleInit(): void {
+    this.timer = setInterval(() => void this.runOnce(), this.intervalMs);
+    // don't keep the process alive just for this job
+    this.timer.unref?.();
+    void this.runOnce();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.timer);
+  }
+
+  /** Does the work of one run and returns how many items it handled */
+  protected abstract run(): Promise<number>;
+
+  /** Runs the job now; 0 if a run is already going or it fails */
+  protected async runOnce(): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+
+    this.running = true;
+    try {
+      return await this.run();
+    } catch (error) {
+      this.logger.error(`${this.failureMessage}: ${error.message}`);
+      return 0;
+    } finally {
+      this.running = false;
+    }
+  }
+}
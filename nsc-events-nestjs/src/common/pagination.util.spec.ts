@@ -0,0 +1,77 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  decodeCursor,
+  DEFAULT_PAGE_SIZE,
+  encodeCursor,
+  MAX_PAGE_SIZE,
+  parsePagination,
+  toPaginatedResult,
+} from './pagination.util';
+
+describe('pagination.util', () => {
+  describe('parsePagination', () => {
+    it('parses numeric strings', () => {
+      expect(parsePagination('3', '20')).toEqual({ page: 3, pageSize: 20 });
+    });
+
+    it('falls back to defaults for missing or invalid values', () => {
+      expect(parsePagination()).toEqual({
+        page: 1,
+        pageSize: DEFAULT_PAGE_SIZE,
+      });
+      expect(parsePagination('abc', '-4')).toEqual({
+        page: 1,
+        pageSize: DEFAULT_PAGE_SIZE,
+      });
+    });
+
+    it('caps the page size when a maximum is given', () => {
+      expect(parsePagination(1, 10000, MAX_PAGE_SIZE).pageSize).toBe(
+        MAX_PAGE_SIZE,
+      );
+      expect(parsePagination(1, 500).pageSize).toBe(500);
+    });
+  });
+
+  describe('cursors', () => {
+    it('round-trips a row position', () => {
+      const row = {
+        startDate: new Date('2025-03-01T17:00:00Z'),
+        id: '7f1c2b4e-0000-4000-8000-000000000001',
+      };
+
+      expect(decodeCursor(encodeCursor(row))).toEqual(row);
+    });
+
+    it('produces URL-safe cursors', () => {
+      const cursor = encodeCursor({
+        startDate: new Date('2025-03-01T17:00:00Z'),
+        id: '???>>>',
+      });
+
+      expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    });
+
+    it('rejects malformed cursors', () => {
+      expect(() => decodeCursor('not-a-cursor')).toThrow(BadRequestException);
+      expect(() =>
+        decodeCursor(Buffer.from('["nope", 1]').toString('base64url')),
+      ).toThrow(BadRequestException);
+    });
+  });
+
+  describe('toPaginatedResult', () => {
+    it('computes the page count', () => {
+      expect(
+        toPaginatedResult(['a', 'b'], { page: 2, pageSize: 2, total: 5 }),
+      ).toEqual({
+        data: ['a', 'b'],
+        page: 2,
+        pageSize: 2,
+        total: 5,
+        totalPages: 3,
+        nextCursor: null,
+      });
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { BadRequestException } from '@nestjs/common';
+
+export const DEFAULT_PAGE_SIZE = 12;
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Envelope returned by list endpoints. `nextCursor` is only set when more
+ * results follow, and `page` is null when the page was fetched by cursor.
+ */
+export interface PaginatedResult<T> {
+  data: T[];
+  page: number | null;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+  nextCursor: string | null;
+}
+
+// Position of the last row of a page in (startDate, id) order
+export interface PageCursor {
+  startDate: Date;
+  id: string;
+}
+
+/**
+ * Parses page and page size from query strings, falling back to defaults for
+ * invalid values. Controllers pass `maxPageSize` to bound client requests.
+ */
+export function parsePagination(
+  page?: string | number,
+  pageSize?: string | number,
+  maxPageSize = Infinity,
+): { page: number; pageSize: number } {
+  const parsedPage = Math.floor(Number(page ?? 1));
+  const parsedSize = Math.floor(Number(pageSize ?? DEFAULT_PAGE_SIZE));
+
+  return {
+    page: Number.isFinite(parsedPage) && parsedPage > 0 ? parsedPage : 1,
+    pageSize:
+      Number.isFinite(parsedSize) && parsedSize > 0
+        ? Math.min(parsedSize, maxPageSize)
+        : DEFAULT_PAGE_SIZE,
+  };
+}
+
+/**
+ * Encodes a row position as an opaque, URL-safe cursor.
+ */
+export function encodeCursor(row: PageCursor): string {
+  return Buffer.from(
+    JSON.stringify([new Date(row.startDate).toISOString(), row.id]),
+  ).toString('base64url');
+}
+
+/**
+ * Decodes a cursor from encodeCursor, throwing a BadRequestException when it
+ * has been tampered with or truncated.
+ */
+export function decodeCursor(cursor: string): PageCursor {
+  try {
+    const [startDate, id] = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString('utf8'),
+    );
+    const date = new Date(startDate);
+    if (typeof id !== 'string' || !id || isNaN(date.getTime())) {
+      throw new Error('Malformed cursor');
+    }
+    return { startDate: date, id };
+  } catch (error) {
+    throw new BadRequestException('Invalid cursor');
+  }
+}
+
+export function toPaginatedResult<T>(
+  data: T[],
+  options: {
+    page: number | null;
+    pageSize: number;
+    total: number;
+    nextCursor?: string | null;
+  },
+): PaginatedResult<T> {
+  return {
+    data,
+    page: options.page,
+    pageSize: options.pageSize,
+    total: options.total,
+    totalPages: Math.ceil(options.total / options.pageSize),
+    nextCursor: options.nextCursor ?? null,
+  };
+}
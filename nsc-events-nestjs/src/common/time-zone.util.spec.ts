@@ -0,0 +1,82 @@
+import { isTimeZone, utcToZonedTime, zonedTimeToUtc } from './time-zone.util';
+
+describe('time-zone.util', () => {
+  const timeZone = 'America/Los_Angeles';
+
+  describe('isTimeZone', () => {
+    it('accepts IANA zones and rejects other names', () => {
+      expect(isTimeZone('America/Los_Angeles')).toBe(true);
+      expect(isTimeZone('Pacific Standard Time')).toBe(false);
+    });
+  });
+
+  describe('zonedTimeToUtc', () => {
+    const wall = {
+      year: 2025,
+      month: 1,
+      day: 15,
+      hour: 18,
+      minute: 0,
+      second: 0,
+    };
+
+    it('applies standard and daylight time offsets', () => {
+      expect(zonedTimeToUtc(wall, timeZone)).toEqual(
+        new Date('2025-01-16T02:00:00Z'),
+      );
+      expect(zonedTimeToUtc({ ...wall, month: 7 }, timeZone)).toEqual(
+        new Date('2025-07-16T01:00:00Z'),
+      );
+    });
+
+    it('uses the later offset on the day clocks spring forward', () => {
+      expect(
+        zonedTimeToUtc({ ...wall, month: 3, day: 9, hour: 12 }, timeZone),
+      ).toEqual(new Date('2025-03-09T19:00:00Z'));
+    });
+
+    it('moves times skipped by the change forward an hour', () => {
+      // 2:30 AM doesn't exist in Los Angeles on March 9, 2025
+      expect(
+        zonedTimeToUtc(
+          { ...wall, month: 3, day: 9, hour: 2, minute: 30 },
+          timeZone,
+        ),
+      ).toEqual(new Date('2025-03-09T10:30:00Z'));
+    });
+
+    it('uses the first of the repeated times when clocks fall back', () => {
+      expect(
+        zonedTimeToUtc(
+          { ...wall, month: 11, day: 2, hour: 1, minute: 30 },
+          timeZone,
+        ),
+      ).toEqual(new Date('2025-11-02T08:30:00Z'));
+    });
+  });
+
+  describe('utcToZonedTime', () => {
+    it('reads the wall clock time in the zone', () => {
+      expect(
+        utcToZonedTime(new Date('2025-01-16T02:00:00Z'), timeZone),
+      ).toEqual({
+        year: 2025,
+        month: 1,
+        day: 15,
+        hour: 18,
+        minute: 0,
+        second: 0,
+      });
+      expect(
+        utcToZonedTime(new Date('2025-07-16T01:00:00Z'), 'Asia/Kolkata'),
+      ).toEqual({
+        year: 2025,
+        month: 7,
+        day: 16,
+        hour: 6,
+        minute: 30,
+        second: 0,
+      });
+    });
+  });
+});
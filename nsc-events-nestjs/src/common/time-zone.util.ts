@@ -0,0 +1,98 @@
+// Zone of events that don't name one, and of the campus
+export const DEFAULT_TIME_ZONE = 'America/Los_Angeles';
+
+export interface WallTime {
+  year: number;
+  // 1-12
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * Whether the runtime knows the IANA time zone, e.g. America/Los_Angeles.
+ */
+export function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Reads a wall clock time as if it were UTC, in milliseconds */
+export function wallTimeToMs(wall: WallTime): number {
+  return Date.UTC(
+    wall.year,
+    wall.month - 1,
+    wall.day,
+    wall.hour,
+    wall.minute,
+    wall.second,
+  );
+}
+
+/** Reverses wallTimeToMs, dropping milliseconds */
+export function msToWallTime(ms: number): WallTime {
+  const date = new Date(ms);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes(),
+    second: date.getUTCSeconds(),
+  };
+}
+
+/**
+ * The wall clock time in the given zone at an instant.
+ */
+export function utcToZonedTime(date: Date, timeZone: string): WallTime {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value);
+
+  return {
+    year: part('year'),
+    month: part('month'),
+    day: part('day'),
+    hour: part('hour'),
+    minute: part('minute'),
+    second: part('second'),
+  };
+}
+
+/** Offset of the zone from UTC at the given instant, in milliseconds */
+function zoneOffset(instant: number, timeZone: string): number {
+  const wallAsUtc = wallTimeToMs(utcToZonedTime(new Date(instant), timeZone));
+  return wallAsUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Converts a wall clock time in the given zone to the instant it names.
+ * Times skipped by a daylight saving change move forward by the skipped
+ * hour, like Date does, and repeated times use the first of the two.
+ */
+export function zonedTimeToUtc(wall: WallTime, timeZone: string): Date {
+  const wallAsUtc = wallTimeToMs(wall);
+  const guess = wallAsUtc - zoneOffset(wallAsUtc, timeZone);
+  // the offset can differ on the other side of a daylight saving change
+  const offset = zoneOffset(guess, timeZone);
+  const instant = wallAsUtc - offset;
+  const actualOffset = zoneOffset(instant, timeZone);
+  // only a skipped time lands where the zone has another offset
+  return new Date(actualOffset === offset ? instant : wallAsUtc - actualOffset);
+}
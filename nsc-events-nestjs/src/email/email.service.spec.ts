@@ -571,6 +571,142 @@ describe('EmailService', () => {
     });
   });
 
+  describe('sendEventReviewEmail', () => {
+    beforeEach(async () => {
+      mockConfigService.get.mockImplementation((key: string) => {
+        if (key === 'SENDGRID_API_KEY') return mockSendGridApiKey;
+        if (key === 'SENDGRID_FROM_EMAIL') return mockFromEmail;
+        if (key === 'FRONTEND_URL') return mockFrontendUrl;
+        return undefined;
+      });
+      module = await Test.createTestingModule({
+        providers: [
+          EmailService,
+          {
+            provide: ConfigService,
+            useValue: mockConfigService,
+          },
+        ],
+      }).compile();
+      service = module.get<EmailService>(EmailService);
+      jest.clearAllMocks();
+    });
+
+    it('should tell the creator their event was approved', async () => {
+      (sgMail.send as jest.Mock).mockResolvedValue([
+        { statusCode: 202, body: {}, headers: {} },
+      ]);
+
+      await service.sendEventReviewEmail(mockUserEmail, {
+        eventId: 'event-123',
+        eventTitle: 'Career Fair',
+        approved: true,
+      });
+
+      const emailMessage = (sgMail.send as jest.Mock).mock.calls[0][0];
+      expect(emailMessage.to).toBe(mockUserEmail);
+      expect(emailMessage.from).toBe(mockFromEmail);
+      expect(emailMessage.subject).toBe(
+        'Your event was approved: Career Fair - NSC Events',
+      );
+      expect(emailMessage.html).toContain(
+        `${mockFrontendUrl}/event-detail?id=event-123`,
+      );
+      expect(emailMessage.text).not.toContain('Reviewer notes');
+    });
+
+    it('should include the rejection reason, escaped in the HTML body', async () => {
+      (sgMail.send as jest.Mock).mockResolvedValue([
+        { statusCode: 202, body: {}, headers: {} },
+      ]);
+
+      await service.sendEventReviewEmail(mockUserEmail, {
+        eventId: 'event-123',
+        eventTitle: '<b>Career Fair</b>',
+        approved: false,
+        reason: 'Add a room <number>',
+      });
+
+      const emailMessage = (sgMail.send as jest.Mock).mock.calls[0][0];
+      expect(emailMessage.subject).toContain('not approved');
+      expect(emailMessage.html).toContain('&lt;b&gt;Career Fair&lt;/b&gt;');
+      expect(emailMessage.html).toContain('Add a room &lt;number&gt;');
+      expect(emailMessage.text).toContain(
+        'Reviewer notes: Add a room <number>',
+      );
+    });
+
+    it('should throw when SendGrid fails', async () => {
+      (sgMail.send as jest.Mock).mockRejectedValue(new Error('SendGrid down'));
+
+      await expect(
+        service.sendEventReviewEmail(mockUserEmail, {
+          eventId: 'event-123',
+          eventTitle: 'Career Fair',
+          approved: true,
+        }),
+      ).rejects.toThrow('Failed to send event review email');
+      expect(loggerErrorSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe('sendCollaboratorInviteEmail', () => {
+    const invite = {
+      eventId: 'event-123',
+      eventTitle: 'Career Fair',
+      role: 'co-host',
+      invitedByName: 'Ada <Lovelace>',
+    };
+
+    beforeEach(async () => {
+      mockConfigService.get.mockImplementation((key: string) => {
+        if (key === 'SENDGRID_API_KEY') return mockSendGridApiKey;
+        if (key === 'SENDGRID_FROM_EMAIL') return mockFromEmail;
+        if (key === 'FRONTEND_URL') return mockFrontendUrl;
+        return undefined;
+      });
+      module = await Test.createTestingModule({
+        providers: [
+          EmailService,
+          {
+            provide: ConfigService,
+            useValue: mockConfigService,
+          },
+        ],
+      }).compile();
+      service = module.get<EmailService>(EmailService);
+      jest.clearAllMocks();
+    });
+
+    it('should link the invitee to the event', async () => {
+      (sgMail.send as jest.Mock).mockResolvedValue([
+        { statusCode: 202, body: {}, headers: {} },
+      ]);
+
+      await service.sendCollaboratorInviteEmail(mockUserEmail, invite);
+
+      const emailMessage = (sgMail.send as jest.Mock).mock.calls[0][0];
+      expect(emailMessage.to).toBe(mockUserEmail);
+      expect(emailMessage.subject).toBe(
+        "You're invited to help run Career Fair - NSC Events",
+      );
+      expect(emailMessage.html).toContain(
+        `${mockFrontendUrl}/event-detail?id=event-123`,
+      );
+      expect(emailMessage.html).toContain('Ada &lt;Lovelace&gt;');
+      expect(emailMessage.text).toContain('as co-host');
+    });
+
+    it('should throw when SendGrid fails', async () => {
+      (sgMail.send as jest.Mock).mockRejectedValue(new Error('SendGrid down'));
+
+      await expect(
+        service.sendCollaboratorInviteEmail(mockUserEmail, invite),
+      ).rejects.toThrow('Failed to send collaborator invite email');
+      expect(loggerErrorSpy).toHaveBeenCalled();
+    });
+  });
+
   describe('Edge Cases and Integration', () => {
     beforeEach(async () => {
       mockConfigService.get.mockImplementation((key: string) => {
@@ -2,6 +2,22 @@ import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import * as sgMail from '@sendgrid/mail';
 
+// Outcome of an admin reviewing a creator's event
+export interface EventReviewDecision {
+  eventId: string;
+  eventTitle: string;
+  approved: boolean;
+  reason?: string | null;
+}
+
+// Invitation to help run someone else's event
+export interface CollaboratorInvite {
+  eventId: string;
+  eventTitle: string;
+  role: string;
+  invitedByName: string;
+}
+
 @Injectable()
 export class EmailService {
   private readonly logger = new Logger(EmailService.name);
@@ -108,4 +124,164 @@ export class EmailService {
       throw new Error('Failed to send password reset email');
     }
   }
+
+  async sendEventReviewEmail(
+    email: string,
+    review: EventReviewDecision,
+  ): Promise<void> {
+    try {
+      const frontendUrl =
+        this.configService.get<string>('FRONTEND_URL') ||
+        'http://localhost:8080';
+      const eventUrl = `${frontendUrl}/event-detail?id=${review.eventId}`;
+      const fromEmail = this.configService.get<string>('SENDGRID_FROM_EMAIL');
+
+      if (!fromEmail) {
+        throw new Error('SENDGRID_FROM_EMAIL not configured');
+      }
+
+      const title = escapeHtml(review.eventTitle);
+      const decision = review.approved ? 'approved' : 'not approved';
+      const summary = review.approved
+        ? 'Your event has been approved and is now visible to students.'
+        : 'Your event was reviewed and has not been approved. You can edit the event and it will be submitted for review again.';
+      const reasonHtml =
+        !review.approved && review.reason
+          ? `
+            <div style="background-color: #fff3cd; padding: 15px; border-radius: 6px; border-left: 4px solid #ffc107; margin: 20px 0;">
+              <p style="margin: 0; color: #856404; font-size: 14px;">
+                <strong>Reviewer notes:</strong> ${escapeHtml(review.reason)}
+              </p>
+            </div>`
+          : '';
+
+      const msg = {
+        to: email,
+        from: fromEmail,
+        subject: `Your event was ${decision}: ${review.eventTitle} - NSC Events`,
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <div style="text-align: center; margin-bottom: 30px;">
+              <h1 style="color: #2074d4; margin-bottom: 10px;">NSC Events</h1>
+              <h2 style="color: #333; font-weight: normal;">${title}</h2>
+            </div>
+
+            <div style="background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin-bottom: 20px;">
+              <p style="margin: 0; color: #333; line-height: 1.6;">${summary}</p>
+            </div>
+            ${reasonHtml}
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${eventUrl}" style="
+                background: #2074d4;
+                color: white;
+                padding: 14px 28px;
+                text-decoration: none;
+                border-radius: 6px;
+                display: inline-block;
+                font-weight: bold;
+                font-size: 16px;
+              ">View Your Event</a>
+            </div>
+          </div>
+        `,
+        text: [
+          `NSC Events - ${review.eventTitle}`,
+          summary,
+          !review.approved && review.reason
+            ? `Reviewer notes: ${review.reason}`
+            : '',
+          `View your event: ${eventUrl}`,
+        ]
+          .filter(Boolean)
+          .join('\n\n'),
+      };
+
+      await sgMail.send(msg);
+      this.logger.log(`Event review email sent successfully to: ${email}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to send event review email to ${email}:`,
+        error,
+      );
+      throw new Error('Failed to send event review email');
+    }
+  }
+
+  async sendCollaboratorInviteEmail(
+    email: string,
+    invite: CollaboratorInvite,
+  ): Promise<void> {
+    try {
+      const frontendUrl =
+        this.configService.get<string>('FRONTEND_URL') ||
+        'http://localhost:8080';
+      const eventUrl = `${frontendUrl}/event-detail?id=${invite.eventId}`;
+      const fromEmail = this.configService.get<string>('SENDGRID_FROM_EMAIL');
+
+      if (!fromEmail) {
+        throw new Error('SENDGRID_FROM_EMAIL not configured');
+      }
+
+      const summary = `${invite.invitedByName} invited you to help run this event as ${invite.role}. Open the event to accept or decline the invitation.`;
+
+      const msg = {
+        to: email,
+        from: fromEmail,
+        subject: `You're invited to help run ${invite.eventTitle} - NSC Events`,
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <div style="text-align: center; margin-bottom: 30px;">
+              <h1 style="color: #2074d4; margin-bottom: 10px;">NSC Events</h1>
+              <h2 style="color: #333; font-weight: normal;">${escapeHtml(
+                invite.eventTitle,
+              )}</h2>
+            </div>
+
+            <div style="background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin-bottom: 20px;">
+              <p style="margin: 0; color: #333; line-height: 1.6;">${escapeHtml(
+                summary,
+              )}</p>
+            </div>
+
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${eventUrl}" style="
+                background: #2074d4;
+                color: white;
+                padding: 14px 28px;
+                text-decoration: none;
+                border-radius: 6px;
+                display: inline-block;
+                font-weight: bold;
+                font-size: 16px;
+              ">View Invitation</a>
+            </div>
+          </div>
+        `,
+        text: [
+          `NSC Events - ${invite.eventTitle}`,
+          summary,
+          `View the invitation: ${eventUrl}`,
+        ].join('\n\n'),
+      };
+
+      await sgMail.send(msg);
+      this.logger.log(
+        `Collaborator invite email sent successfully to: ${email}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to send collaborator invite email to ${email}:`,
+        error,
+      );
+      throw new Error('Failed to send collaborator invite email');
+    }
+  }
 }
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
@@ -1,7 +1,9 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { EventRegistrationController } from './event-registration.controller';
 import { EventRegistrationService } from '../services/event-registration.service';
+import { UnauthorizedException } from '@nestjs/common';
 import { ActivityService } from '../../activity/services/activity/activity.service';
+import { EventPermission } from '../../collaborator/utils/permissions.util';
 
 const mockEventRegistrationService = {
   createEventRegistration: jest.fn(),
@@ -9,12 +11,15 @@ const mockEventRegistrationService = {
   getEventRegistrationsByUserId: jest.fn(),
   deleteEventRegistration: jest.fn(),
   markAttendance: jest.fn(),
+  getEventRegistrationById: jest.fn(),
   getAttendeesForActivity: jest.fn(),
   getRegistrationStats: jest.fn(),
+  getRegistrationStatus: jest.fn(),
 };
 
 const mockActivityService = {
   getActivityById: jest.fn(),
+  hasEventPermission: jest.fn(),
 };
 
 describe('EventRegistrationController', () => {
@@ -139,6 +144,7 @@ describe('EventRegistrationController.getRegistrationsForEvent', () => {
     const activityId = 'activity-123';
     const expectedRegistrations = {
       count: 0,
+      waitlistCount: 0,
       anonymousCount: 0,
       attendees: [],
       attendeeNames: [],
@@ -231,16 +237,21 @@ describe('EventRegistrationController.isUserRegistered', () => {
     );
   });
 
-  test('should check if a user is registered for an event - user is registered', async () => {
+  test('should return the registration status from the service', async () => {
     // Arrange
     const activityId = 'activity-123';
     const userId = 'user-456';
-    const mockRegistrations = [
-      { userId: 'user-456', activityId: 'activity-123' },
-    ];
+    const status = {
+      isRegistered: true,
+      isWaitlisted: false,
+      waitlistPosition: null,
+      isFull: false,
+      capacity: 30,
+      registeredCount: 12,
+    };
 
-    mockEventRegistrationService.getEventRegistrationsByActivityId.mockResolvedValue(
-      mockRegistrations,
+    mockEventRegistrationService.getRegistrationStatus.mockResolvedValue(
+      status,
     );
 
     // Act
@@ -248,31 +259,90 @@ describe('EventRegistrationController.isUserRegistered', () => {
 
     // Assert
     expect(
-      mockEventRegistrationService.getEventRegistrationsByActivityId,
-    ).toHaveBeenCalledWith(activityId);
-    expect(result).toEqual({ isRegistered: true });
+      mockEventRegistrationService.getRegistrationStatus,
+    ).toHaveBeenCalledWith(activityId, userId);
+    expect(result).toEqual(status);
   });
 
-  test('should check if a user is registered for an event - user is not registered', async () => {
+  test('should report a waitlisted user with their position', async () => {
     // Arrange
-    const activityId = 'activity-123';
-    const userId = 'user-456';
-    const mockRegistrations = [
-      { userId: 'different-user', activityId: 'activity-123' },
-    ];
+    const status = {
+      isRegistered: false,
+      isWaitlisted: true,
+      waitlistPosition: 2,
+      isFull: true,
+      capacity: 30,
+      registeredCount: 30,
+    };
+
+    mockEventRegistrationService.getRegistrationStatus.mockResolvedValue(
+      status,
+    );
+
+    // Act
+    const result = await controller.isUserRegistered(
+      'activity-123',
+      'user-456',
+    );
+
+    // Assert
+    expect(result.isWaitlisted).toBe(true);
+    expect(result.waitlistPosition).toBe(2);
+  });
+});
+
+// Test suite for getRegistrationsForEvent with a waitlist
+describe('EventRegistrationController.getRegistrationsForEvent waitlist', () => {
+  let controller: EventRegistrationController;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [EventRegistrationController],
+      providers: [
+        {
+          provide: EventRegistrationService,
+          useValue: mockEventRegistrationService,
+        },
+        {
+          provide: ActivityService,
+          useValue: mockActivityService,
+        },
+      ],
+    }).compile();
+
+    controller = module.get<EventRegistrationController>(
+      EventRegistrationController,
+    );
+  });
 
+  test('should count waitlisted registrations separately', async () => {
+    // Arrange
     mockEventRegistrationService.getEventRegistrationsByActivityId.mockResolvedValue(
-      mockRegistrations,
+      [
+        {
+          userId: 'user-1',
+          firstName: 'Ada',
+          lastName: 'Lovelace',
+          status: 'registered',
+        },
+        {
+          userId: 'user-2',
+          firstName: 'Alan',
+          lastName: 'Turing',
+          status: 'waitlisted',
+        },
+      ],
     );
 
     // Act
-    const result = await controller.isUserRegistered(activityId, userId);
+    const result = await controller.getRegistrationsForEvent('activity-123');
 
     // Assert
-    expect(
-      mockEventRegistrationService.getEventRegistrationsByActivityId,
-    ).toHaveBeenCalledWith(activityId);
-    expect(result).toEqual({ isRegistered: false });
+    expect(result.count).toBe(1);
+    expect(result.waitlistCount).toBe(1);
+    expect(result.attendeeNames).toEqual(['Ada Lovelace']);
   });
 });
 
@@ -365,22 +435,59 @@ describe('EventRegistrationController.markAttendance', () => {
       updatedAt: new Date(),
     };
 
+    const req = { user: { id: 'staff-1', role: 'user' } };
+    mockEventRegistrationService.getEventRegistrationById.mockResolvedValue(
+      updatedRegistration,
+    );
+    mockActivityService.getActivityById.mockResolvedValue({
+      id: 'activity-123',
+    });
+    mockActivityService.hasEventPermission.mockResolvedValue(true);
     mockEventRegistrationService.markAttendance.mockResolvedValue(
       updatedRegistration,
     );
 
     // Act
-    const result = await controller.markAttendance(registrationId, {
-      isAttended,
-    });
+    const result = await controller.markAttendance(
+      registrationId,
+      { isAttended },
+      req,
+    );
 
     // Assert
+    expect(mockActivityService.hasEventPermission).toHaveBeenCalledWith(
+      { id: 'activity-123' },
+      req.user,
+      EventPermission.checkIn,
+    );
     expect(mockEventRegistrationService.markAttendance).toHaveBeenCalledWith(
       registrationId,
       isAttended,
     );
     expect(result).toBe(updatedRegistration);
   });
+
+  test('should reject users who do not help run the event', async () => {
+    // Arrange
+    mockEventRegistrationService.getEventRegistrationById.mockResolvedValue({
+      id: 'registration-123',
+      activityId: 'activity-123',
+    });
+    mockActivityService.getActivityById.mockResolvedValue({
+      id: 'activity-123',
+    });
+    mockActivityService.hasEventPermission.mockResolvedValue(false);
+
+    // Act & Assert
+    await expect(
+      controller.markAttendance(
+        'registration-123',
+        { isAttended: true },
+        { user: { id: 'user-456', role: 'user' } },
+      ),
+    ).rejects.toThrow(UnauthorizedException);
+    expect(mockEventRegistrationService.markAttendance).not.toHaveBeenCalled();
+  });
 });
 
 // Test suite for getAttendeesForEvent method
@@ -10,13 +10,22 @@ import {
   HttpStatus,
   HttpException,
   Logger,
+  Req,
+  UnauthorizedException,
 } from '@nestjs/common';
-import { EventRegistrationService } from '../services/event-registration.service';
+import {
+  EventRegistrationService,
+  RegistrationStatusSummary,
+} from '../services/event-registration.service';
 import { CreateEventRegistrationDto } from '../dto/create-event-registration.dto';
 import { AttendEventDto } from '../dto/attend-event.dto';
 import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
-import { EventRegistration } from '../entities/event-registration.entity';
+import {
+  EventRegistration,
+  RegistrationStatus,
+} from '../entities/event-registration.entity';
 import { ActivityService } from '../../activity/services/activity/activity.service';
+import { EventPermission } from '../../collaborator/utils/permissions.util';
 import {
   ApiTags,
   ApiOperation,
@@ -51,7 +60,10 @@ export class EventRegistrationController {
     type: EventRegistration,
   })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
-  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid input data, or the event is full',
+  })
   async registerForEvent(
     @Body() createRegistrationDto: CreateEventRegistrationDto,
   ): Promise<EventRegistration> {
@@ -72,7 +84,10 @@ export class EventRegistrationController {
     description: 'Successfully attended event',
     type: EventRegistration,
   })
-  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid input data, or the event is full',
+  })
   @ApiResponse({ status: 500, description: 'Error attending event' })
   async attendEvent(
     @Body() attendDto: AttendEventDto,
@@ -88,12 +103,17 @@ export class EventRegistrationController {
         college: '',
         yearOfStudy: '',
         isAttended: true, // Mark as attended automatically
+        joinWaitlist: attendDto.joinWaitlist,
       };
 
       return await this.registrationService.createEventRegistration(
         registrationDto,
       );
     } catch (error) {
+      // capacity and duplicate errors are meaningful to the caller
+      if (error instanceof HttpException) {
+        throw error;
+      }
       throw new HttpException(
         'Error attending event',
         HttpStatus.INTERNAL_SERVER_ERROR,
@@ -115,6 +135,7 @@ export class EventRegistrationController {
       type: 'object',
       properties: {
         count: { type: 'number', example: 25 },
+        waitlistCount: { type: 'number', example: 3 },
         anonymousCount: { type: 'number', example: 0 },
         attendees: { type: 'array', items: { type: 'object' } },
         attendeeNames: {
@@ -130,14 +151,20 @@ export class EventRegistrationController {
     @Param('activityId') activityId: string,
   ): Promise<{
     count: number;
+    waitlistCount: number;
     anonymousCount: number;
     attendees: EventRegistration[];
     attendeeNames: string[];
   }> {
-    const registrations =
+    const allRegistrations =
       await this.registrationService.getEventRegistrationsByActivityId(
         activityId,
       );
+    // Waitlisted users don't hold a seat, so they're only counted separately
+    const registrations = allRegistrations.filter(
+      (reg) => reg.status !== RegistrationStatus.waitlisted,
+    );
+    const waitlistCount = allRegistrations.length - registrations.length;
     // Always return counts for all users
     const count = registrations.length;
     // Since we don't have an isAnonymous field, we'll set anonymousCount to 0
@@ -158,6 +185,7 @@ export class EventRegistrationController {
 
     return {
       count,
+      waitlistCount,
       anonymousCount,
       attendees: registrations,
       attendeeNames,
@@ -190,6 +218,7 @@ export class EventRegistrationController {
           endDate: { type: 'string', format: 'date-time' },
           registrationId: { type: 'string' },
           isAttended: { type: 'boolean' },
+          status: { type: 'string', enum: Object.values(RegistrationStatus) },
         },
       },
     },
@@ -244,6 +273,7 @@ export class EventRegistrationController {
         endDate: event.endDate, // Include full ISO timestamp if needed
         registrationId: registration.id,
         isAttended: registration.isAttended,
+        status: registration.status,
       });
     }
 
@@ -255,8 +285,9 @@ export class EventRegistrationController {
   @ApiBearerAuth('JWT-auth')
   @Get('check/:activityId/:userId')
   @ApiOperation({
-    summary: 'Check if user is registered',
-    description: 'Checks if a user is registered for a specific event',
+    summary: 'Check registration status',
+    description:
+      'Checks if a user is registered or waitlisted for a specific event, and whether the event is full',
   })
   @ApiParam({ name: 'activityId', description: 'Event/Activity ID (UUID)' })
   @ApiParam({ name: 'userId', description: 'User ID (UUID)' })
@@ -266,7 +297,12 @@ export class EventRegistrationController {
     schema: {
       type: 'object',
       properties: {
-        isRegistered: { type: 'boolean', example: true },
+        isRegistered: { type: 'boolean', example: false },
+        isWaitlisted: { type: 'boolean', example: true },
+        waitlistPosition: { type: 'number', nullable: true, example: 2 },
+        isFull: { type: 'boolean', example: true },
+        capacity: { type: 'number', nullable: true, example: 30 },
+        registeredCount: { type: 'number', example: 30 },
       },
     },
   })
@@ -274,13 +310,8 @@ export class EventRegistrationController {
   async isUserRegistered(
     @Param('activityId') activityId: string,
     @Param('userId') userId: string,
-  ): Promise<{ isRegistered: boolean }> {
-    const registrations =
-      await this.registrationService.getEventRegistrationsByActivityId(
-        activityId,
-      );
-    const isRegistered = registrations.some((reg) => reg.userId === userId);
-    return { isRegistered };
+  ): Promise<RegistrationStatusSummary> {
+    return this.registrationService.getRegistrationStatus(activityId, userId);
   }
 
   // Check if user is attending an event (alias for frontend compatability)
@@ -310,7 +341,10 @@ export class EventRegistrationController {
       await this.registrationService.getEventRegistrationsByActivityId(
         activityId,
       );
-    const isAttending = registrations.some((reg) => reg.userId === userId);
+    const isAttending = registrations.some(
+      (reg) =>
+        reg.userId === userId && reg.status !== RegistrationStatus.waitlisted,
+    );
     return isAttending;
   }
 
@@ -398,7 +432,8 @@ export class EventRegistrationController {
   @Patch('attendance/:id')
   @ApiOperation({
     summary: 'Mark attendance',
-    description: 'Updates the attendance status for a registration',
+    description:
+      'Updates the attendance status for a registration (requires event creator, collaborator or admin)',
   })
   @ApiParam({ name: 'id', description: 'Registration ID (UUID)' })
   @ApiBody({
@@ -420,7 +455,22 @@ export class EventRegistrationController {
   async markAttendance(
     @Param('id') id: string,
     @Body() body: { isAttended: boolean },
+    @Req() req: any,
   ): Promise<EventRegistration> {
+    const registration =
+      await this.registrationService.getEventRegistrationById(id);
+    const activity = await this.activityService.getActivityById(
+      registration.activityId,
+    );
+    if (
+      !(await this.activityService.hasEventPermission(
+        activity,
+        req.user,
+        EventPermission.checkIn,
+      ))
+    ) {
+      throw new UnauthorizedException('Only event staff can mark attendance');
+    }
     return this.registrationService.markAttendance(id, body.isAttended);
   }
 
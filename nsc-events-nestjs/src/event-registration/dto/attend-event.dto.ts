@@ -1,5 +1,6 @@
 import {
   IsArray,
+  IsBoolean,
   IsNotEmpty,
   IsOptional,
   IsString,
@@ -72,4 +73,17 @@ export class AttendEventDto {
   @IsOptional()
   @IsArray()
   readonly referralSources?: string[];
+
+  /**
+   * Join the waitlist when the event is full (optional)
+   * @example true
+   */
+  @ApiProperty({
+    description: 'Join the waitlist if the event is full',
+    example: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  readonly joinWaitlist?: boolean;
 }
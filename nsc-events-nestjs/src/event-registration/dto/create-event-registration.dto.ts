@@ -92,4 +92,19 @@ export class CreateEventRegistrationDto {
   @IsBoolean()
   @IsOptional()
   isAttended = false;
+
+  /**
+   * Join the waitlist when the event is full
+   * @example true
+   */
+  @ApiProperty({
+    description:
+      'Join the waitlist if the event is full. Without it a full event rejects the registration',
+    example: true,
+    default: false,
+    required: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  joinWaitlist?: boolean;
 }
@@ -6,6 +6,11 @@ import {
   UpdateDateColumn,
 } from 'typeorm';
 
+export enum RegistrationStatus {
+  registered = 'registered',
+  waitlisted = 'waitlisted',
+}
+
 @Entity('event_registrations')
 export class EventRegistration {
   @PrimaryGeneratedColumn('uuid')
@@ -35,6 +40,14 @@ export class EventRegistration {
   @Column()
   isAttended: boolean;
 
+  // Waitlisted registrations are promoted in createdAt order when a seat opens
+  @Column({
+    type: 'enum',
+    enum: RegistrationStatus,
+    default: RegistrationStatus.registered,
+  })
+  status: RegistrationStatus;
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -1,13 +1,17 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { DataSource, Repository } from 'typeorm';
 import {
   BadRequestException,
   NotFoundException,
   HttpException,
 } from '@nestjs/common';
 import { EventRegistrationService } from './event-registration.service';
-import { EventRegistration } from '../entities/event-registration.entity';
+import {
+  EventRegistration,
+  RegistrationStatus,
+} from '../entities/event-registration.entity';
+import { Activity } from '../../activity/entities/activity.entity';
 
 // ---- Typed mock for repository ----
 type MockRepo = Partial<Record<keyof Repository<EventRegistration>, jest.Mock>>;
@@ -31,6 +35,7 @@ const mockReg: EventRegistration = {
   college: 'North Seattle College',
   yearOfStudy: 'Senior',
   isAttended: false,
+  status: RegistrationStatus.registered,
   createdAt: new Date(),
   updatedAt: new Date(),
 };
@@ -38,9 +43,21 @@ const mockReg: EventRegistration = {
 describe('EventRegistrationService', () => {
   let service: EventRegistrationService;
   let repo: MockRepo;
+  let activityRepo: { findOne: jest.Mock };
 
   beforeEach(async () => {
     repo = createMockRepo();
+    activityRepo = {
+      findOne: jest.fn().mockResolvedValue({ id: 'a1', eventCapacity: null }),
+    };
+
+    // transactions run against the same mocked repositories
+    const getRepository = (entity: unknown) =>
+      entity === Activity ? activityRepo : repo;
+    const dataSource = {
+      getRepository,
+      transaction: jest.fn((work) => work({ getRepository })),
+    };
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -49,6 +66,7 @@ describe('EventRegistrationService', () => {
           provide: getRepositoryToken(EventRegistration),
           useValue: repo,
         },
+        { provide: DataSource, useValue: dataSource },
       ],
     }).compile();
 
@@ -83,6 +101,56 @@ describe('EventRegistrationService', () => {
     );
   });
 
+  it('should throw NotFound if the activity does not exist', async () => {
+    activityRepo.findOne.mockResolvedValue(null);
+
+    await expect(service.createEventRegistration(mockReg)).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('should reject registration when the event is full', async () => {
+    activityRepo.findOne.mockResolvedValue({ id: 'a1', eventCapacity: 2 });
+    (repo.findOne as jest.Mock).mockResolvedValue(null);
+    (repo.count as jest.Mock).mockResolvedValue(2);
+
+    await expect(service.createEventRegistration(mockReg)).rejects.toThrow(
+      'Event is full',
+    );
+    expect(repo.save).not.toHaveBeenCalled();
+  });
+
+  it('should waitlist the user when the event is full and they opt in', async () => {
+    activityRepo.findOne.mockResolvedValue({ id: 'a1', eventCapacity: 2 });
+    (repo.findOne as jest.Mock).mockResolvedValue(null);
+    (repo.count as jest.Mock).mockResolvedValue(2);
+    (repo.create as jest.Mock).mockImplementation((data) => data);
+    (repo.save as jest.Mock).mockImplementation(async (data) => data);
+
+    const result = await service.createEventRegistration({
+      ...mockReg,
+      joinWaitlist: true,
+    });
+
+    expect(result.status).toBe(RegistrationStatus.waitlisted);
+    expect(repo.create).toHaveBeenCalledWith(
+      expect.not.objectContaining({ joinWaitlist: true }),
+    );
+  });
+
+  it('should lock the activity row while registering', async () => {
+    (repo.findOne as jest.Mock).mockResolvedValue(null);
+    (repo.create as jest.Mock).mockReturnValue(mockReg);
+    (repo.save as jest.Mock).mockResolvedValue(mockReg);
+
+    await service.createEventRegistration(mockReg);
+
+    expect(activityRepo.findOne).toHaveBeenCalledWith({
+      where: { id: 'a1' },
+      lock: { mode: 'pessimistic_write' },
+    });
+  });
+
   // --- GET ALL ---
   it('should get all registrations', async () => {
     (repo.find as jest.Mock).mockResolvedValue([mockReg]);
@@ -125,6 +193,33 @@ describe('EventRegistrationService', () => {
     ).rejects.toThrow(HttpException);
   });
 
+  // --- STREAM BY ACTIVITIES ---
+  it('should stream registrations of each activity in batches', async () => {
+    const second = { ...mockReg, id: 'r2' };
+    const other = { ...mockReg, id: 'r3', activityId: 'a2' };
+    (repo.find as jest.Mock)
+      .mockResolvedValueOnce([mockReg, second])
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([other]);
+
+    const batches = [];
+    for await (const batch of service.streamRegistrationsByActivityIds(
+      ['a1', 'a2'],
+      2,
+    )) {
+      batches.push(batch);
+    }
+
+    expect(batches).toEqual([[mockReg, second], [other]]);
+    expect(repo.find).toHaveBeenNthCalledWith(2, {
+      where: { activityId: 'a1' },
+      order: { createdAt: 'ASC', id: 'ASC' },
+      skip: 2,
+      take: 2,
+    });
+    expect(repo.find).toHaveBeenCalledTimes(3);
+  });
+
   // --- GET BY USER ---
   it('should get registrations by userId', async () => {
     (repo.find as jest.Mock).mockResolvedValue([mockReg]);
@@ -163,6 +258,7 @@ describe('EventRegistrationService', () => {
   it('should delete registration successfully', async () => {
     (repo.findOne as jest.Mock).mockResolvedValue(mockReg);
     (repo.remove as jest.Mock).mockResolvedValue(undefined);
+    (repo.find as jest.Mock).mockResolvedValue([]);
     await expect(
       service.deleteEventRegistration('r1'),
     ).resolves.toBeUndefined();
@@ -175,6 +271,87 @@ describe('EventRegistrationService', () => {
     );
   });
 
+  it('should promote the earliest waitlisted user when a seat opens', async () => {
+    const waitlisted = {
+      ...mockReg,
+      id: 'r2',
+      userId: 'u2',
+      status: RegistrationStatus.waitlisted,
+    };
+    activityRepo.findOne.mockResolvedValue({ id: 'a1', eventCapacity: 2 });
+    (repo.findOne as jest.Mock).mockResolvedValue(mockReg);
+    (repo.count as jest.Mock).mockResolvedValue(1);
+    (repo.find as jest.Mock).mockResolvedValue([
+      waitlisted,
+      { ...waitlisted, id: 'r3', userId: 'u3' },
+    ]);
+    (repo.save as jest.Mock).mockImplementation(async (data) => data);
+
+    await service.deleteEventRegistration('r1');
+
+    expect(repo.remove).toHaveBeenCalledWith(mockReg);
+    expect(repo.find).toHaveBeenCalledWith({
+      where: { activityId: 'a1', status: RegistrationStatus.waitlisted },
+      order: { createdAt: 'ASC' },
+    });
+    expect(repo.save).toHaveBeenCalledWith([
+      expect.objectContaining({
+        id: 'r2',
+        status: RegistrationStatus.registered,
+      }),
+    ]);
+  });
+
+  it('should not promote anyone when a waitlisted user leaves', async () => {
+    activityRepo.findOne.mockResolvedValue({ id: 'a1', eventCapacity: 2 });
+    (repo.findOne as jest.Mock).mockResolvedValue({
+      ...mockReg,
+      status: RegistrationStatus.waitlisted,
+    });
+
+    await service.deleteByUserAndEvent('u1', 'a1');
+
+    expect(repo.remove).toHaveBeenCalled();
+    expect(repo.save).not.toHaveBeenCalled();
+  });
+
+  // --- REGISTRATION STATUS ---
+  it('should report the waitlist position of a waitlisted user', async () => {
+    const waitlisted = {
+      ...mockReg,
+      status: RegistrationStatus.waitlisted,
+    };
+    activityRepo.findOne.mockResolvedValue({ id: 'a1', eventCapacity: 2 });
+    (repo.count as jest.Mock).mockResolvedValue(2);
+    (repo.findOne as jest.Mock).mockResolvedValue(waitlisted);
+    (repo.find as jest.Mock).mockResolvedValue([
+      { ...waitlisted, id: 'r0' },
+      waitlisted,
+    ]);
+
+    const status = await service.getRegistrationStatus('a1', 'u1');
+
+    expect(status).toEqual({
+      isRegistered: false,
+      isWaitlisted: true,
+      waitlistPosition: 2,
+      isFull: true,
+      capacity: 2,
+      registeredCount: 2,
+    });
+  });
+
+  it('should never report an unlimited event as full', async () => {
+    (repo.count as jest.Mock).mockResolvedValue(500);
+    (repo.findOne as jest.Mock).mockResolvedValue(null);
+
+    const status = await service.getRegistrationStatus('a1', 'u1');
+
+    expect(status.isFull).toBe(false);
+    expect(status.capacity).toBeNull();
+    expect(status.isRegistered).toBe(false);
+  });
+
   // --- MARK ATTENDANCE ---
   it('should mark attendance successfully', async () => {
     (repo.findOne as jest.Mock).mockResolvedValue(mockReg);
@@ -200,6 +377,20 @@ describe('EventRegistrationService', () => {
     expect(result).toEqual([mockReg]);
   });
 
+  it('should leave waitlisted sign-ups out of the attendees', async () => {
+    (repo.find as jest.Mock).mockResolvedValue([]);
+    await service.getAttendeesForActivity('a1');
+    expect(repo.find).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          activityId: 'a1',
+          isAttended: true,
+          status: RegistrationStatus.registered,
+        },
+      }),
+    );
+  });
+
   it('should handle DB error on getAttendees', async () => {
     (repo.find as jest.Mock).mockRejectedValue(new Error('fail'));
     await expect(service.getAttendeesForActivity('a1')).rejects.toThrow(
@@ -220,6 +411,18 @@ describe('EventRegistrationService', () => {
     });
   });
 
+  it('should only count attendees that hold a seat', async () => {
+    (repo.count as jest.Mock).mockResolvedValue(0);
+    await service.getRegistrationStats('a1');
+    expect(repo.count).toHaveBeenLastCalledWith({
+      where: {
+        activityId: 'a1',
+        isAttended: true,
+        status: RegistrationStatus.registered,
+      },
+    });
+  });
+
   it('should handle DB error on getStats', async () => {
     (repo.count as jest.Mock).mockRejectedValue(new Error('fail'));
     await expect(service.getRegistrationStats('a1')).rejects.toThrow(
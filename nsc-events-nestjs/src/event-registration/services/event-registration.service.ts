@@ -6,41 +6,97 @@ import {
   NotFoundException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { EventRegistration } from '../entities/event-registration.entity';
+import { DataSource, EntityManager, Repository } from 'typeorm';
+import {
+  EventRegistration,
+  RegistrationStatus,
+} from '../entities/event-registration.entity';
 import { CreateEventRegistrationDto } from '../dto/create-event-registration.dto';
+import { Activity } from '../../activity/entities/activity.entity';
+import { isAtCapacity } from '../../activity/utils/capacity.util';
+import { getWaitlist, promoteWaitlisted } from '../utils/waitlist.util';
+
+// Registrations read per query by streamRegistrationsByActivityIds
+export const REGISTRATION_BATCH_SIZE = 500;
+
+export interface RegistrationStatusSummary {
+  isRegistered: boolean;
+  isWaitlisted: boolean;
+  // 1-based position on the waitlist, null when not waitlisted
+  waitlistPosition: number | null;
+  isFull: boolean;
+  capacity: number | null;
+  registeredCount: number;
+}
 
 @Injectable()
 export class EventRegistrationService {
   constructor(
     @InjectRepository(EventRegistration)
     private readonly eventRegistrationRepository: Repository<EventRegistration>,
+    private readonly dataSource: DataSource,
   ) {}
 
   // ----------------- Create Event Registration ----------------- \\
+  // Runs in a transaction holding a lock on the activity row so concurrent
+  // registrations can't both take the last seat.
   async createEventRegistration(
     createEventRegistrationDto: CreateEventRegistrationDto,
   ): Promise<EventRegistration> {
+    const { joinWaitlist, ...registrationData } = createEventRegistrationDto;
+
     try {
-      // Check if user already registered for this activity
-      const existingRegistration =
-        await this.eventRegistrationRepository.findOne({
+      return await this.dataSource.transaction(async (manager) => {
+        const activity = await this.lockActivity(
+          manager,
+          registrationData.activityId,
+        );
+        if (!activity) {
+          throw new NotFoundException('Activity not found');
+        }
+
+        const registrations = manager.getRepository(EventRegistration);
+
+        // Check if user already registered for this activity
+        const existingRegistration = await registrations.findOne({
           where: {
-            activityId: createEventRegistrationDto.activityId,
-            userId: createEventRegistrationDto.userId,
+            activityId: registrationData.activityId,
+            userId: registrationData.userId,
           },
         });
 
-      if (existingRegistration) {
-        throw new BadRequestException('User already registered for this event');
-      }
+        if (existingRegistration) {
+          throw new BadRequestException(
+            'User already registered for this event',
+          );
+        }
 
-      const registration = this.eventRegistrationRepository.create(
-        createEventRegistrationDto,
-      );
-      return await this.eventRegistrationRepository.save(registration);
+        const registeredCount = await registrations.count({
+          where: {
+            activityId: registrationData.activityId,
+            status: RegistrationStatus.registered,
+          },
+        });
+
+        let status = RegistrationStatus.registered;
+        if (isAtCapacity(activity.eventCapacity, registeredCount)) {
+          if (!joinWaitlist) {
+            throw new BadRequestException('Event is full');
+          }
+          status = RegistrationStatus.waitlisted;
+        }
+
+        const registration = registrations.create({
+          ...registrationData,
+          status,
+        });
+        return await registrations.save(registration);
+      });
     } catch (error) {
-      if (error instanceof BadRequestException) {
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException
+      ) {
         throw error;
       }
       throw new HttpException(
@@ -104,6 +160,31 @@ export class EventRegistrationService {
     }
   }
 
+  // ----------------- Stream Event Registrations by Activity IDs ----------------- \\
+  // Yields the registrations of each activity in turn, oldest first, one
+  // batch at a time so exports never hold them all in memory
+  async *streamRegistrationsByActivityIds(
+    activityIds: string[],
+    batchSize = REGISTRATION_BATCH_SIZE,
+  ): AsyncGenerator<EventRegistration[]> {
+    for (const activityId of activityIds) {
+      for (let skip = 0; ; skip += batchSize) {
+        const batch = await this.eventRegistrationRepository.find({
+          where: { activityId },
+          order: { createdAt: 'ASC', id: 'ASC' },
+          skip,
+          take: batchSize,
+        });
+        if (batch.length > 0) {
+          yield batch;
+        }
+        if (batch.length < batchSize) {
+          break;
+        }
+      }
+    }
+  }
+
   // ----------------- Get Event Registrations by User ID ----------------- \\
   async getEventRegistrationsByUserId(
     userId: string,
@@ -147,8 +228,17 @@ export class EventRegistrationService {
   // this is needed in other instances
   async deleteEventRegistration(id: string): Promise<void> {
     try {
-      const registration = await this.getEventRegistrationById(id);
-      await this.eventRegistrationRepository.remove(registration);
+      await this.dataSource.transaction(async (manager) => {
+        const registration = await manager
+          .getRepository(EventRegistration)
+          .findOne({ where: { id } });
+
+        if (!registration) {
+          throw new NotFoundException('Event registration not found');
+        }
+
+        await this.removeAndPromote(manager, registration);
+      });
     } catch (error) {
       if (error instanceof NotFoundException) {
         throw error;
@@ -163,13 +253,62 @@ export class EventRegistrationService {
 
   // unregisters from event using userid and event id
   async deleteByUserAndEvent(userId: string, eventId: string): Promise<void> {
-    const result = await this.eventRegistrationRepository.delete({
-      userId,
-      activityId: eventId,
+    await this.dataSource.transaction(async (manager) => {
+      const registration = await manager
+        .getRepository(EventRegistration)
+        .findOne({ where: { userId, activityId: eventId } });
+
+      if (!registration) {
+        throw new NotFoundException('Registration not found');
+      }
+
+      await this.removeAndPromote(manager, registration);
     });
+  }
 
-    if (result.affected === 0) {
-      throw new NotFoundException('Registration not found');
+  // ----------------- Get Registration Status ----------------- \\
+  async getRegistrationStatus(
+    activityId: string,
+    userId: string,
+  ): Promise<RegistrationStatusSummary> {
+    try {
+      const activity = await this.dataSource
+        .getRepository(Activity)
+        .findOne({ where: { id: activityId } });
+
+      const registeredCount = await this.eventRegistrationRepository.count({
+        where: { activityId, status: RegistrationStatus.registered },
+      });
+
+      const registration = await this.eventRegistrationRepository.findOne({
+        where: { activityId, userId },
+      });
+
+      let waitlistPosition: number | null = null;
+      if (registration?.status === RegistrationStatus.waitlisted) {
+        const waitlist = await getWaitlist(
+          this.eventRegistrationRepository,
+          activityId,
+        );
+        waitlistPosition =
+          waitlist.findIndex((reg) => reg.id === registration.id) + 1;
+      }
+
+      const capacity = activity?.eventCapacity ?? null;
+
+      return {
+        isRegistered: registration?.status === RegistrationStatus.registered,
+        isWaitlisted: registration?.status === RegistrationStatus.waitlisted,
+        waitlistPosition,
+        isFull: isAtCapacity(capacity, registeredCount),
+        capacity,
+        registeredCount,
+      };
+    } catch (error) {
+      throw new HttpException(
+        'Error retrieving registration status',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
     }
   }
 
@@ -199,8 +338,13 @@ export class EventRegistrationService {
     activityId: string,
   ): Promise<EventRegistration[]> {
     try {
+      // Waitlisted sign-ups only count once they are promoted
       return await this.eventRegistrationRepository.find({
-        where: { activityId, isAttended: true },
+        where: {
+          activityId,
+          isAttended: true,
+          status: RegistrationStatus.registered,
+        },
         order: { createdAt: 'ASC' },
       });
     } catch (error) {
@@ -219,11 +363,15 @@ export class EventRegistrationService {
   }> {
     try {
       const totalRegistrations = await this.eventRegistrationRepository.count({
-        where: { activityId },
+        where: { activityId, status: RegistrationStatus.registered },
       });
 
       const totalAttendees = await this.eventRegistrationRepository.count({
-        where: { activityId, isAttended: true },
+        where: {
+          activityId,
+          isAttended: true,
+          status: RegistrationStatus.registered,
+        },
       });
 
       const attendanceRate =
@@ -243,4 +391,35 @@ export class EventRegistrationService {
       );
     }
   }
+
+  // Locks the activity row for the rest of the transaction
+  private async lockActivity(
+    manager: EntityManager,
+    activityId: string,
+  ): Promise<Activity | null> {
+    return manager.getRepository(Activity).findOne({
+      where: { id: activityId },
+      lock: { mode: 'pessimistic_write' },
+    });
+  }
+
+  /**
+   * Removes a registration and, if it held a seat, promotes waitlisted
+   * registrants in order until the event is full again.
+   */
+  private async removeAndPromote(
+    manager: EntityManager,
+    registration: EventRegistration,
+  ): Promise<EventRegistration[]> {
+    const activity = await this.lockActivity(manager, registration.activityId);
+    const registrations = manager.getRepository(EventRegistration);
+
+    await registrations.remove(registration);
+
+    if (!activity || registration.status === RegistrationStatus.waitlisted) {
+      return [];
+    }
+
+    return promoteWaitlisted(manager, activity);
+  }
 }
@@ -0,0 +1,64 @@
+import { EntityManager } from 'typeorm';
+import {
+  EventRegistration,
+  RegistrationStatus,
+} from '../entities/event-registration.entity';
+import { Activity } from '../../activity/entities/activity.entity';
+import { promoteWaitlisted } from './waitlist.util';
+
+describe('waitlist.util', () => {
+  describe('promoteWaitlisted', () => {
+    const waitlisted = (id: string) =>
+      ({
+        id,
+        activityId: 'activity-1',
+        status: RegistrationStatus.waitlisted,
+      } as EventRegistration);
+    let registrations: { count: jest.Mock; find: jest.Mock; save: jest.Mock };
+    let manager: EntityManager;
+
+    beforeEach(() => {
+      registrations = {
+        count: jest.fn().mockResolvedValue(3),
+        find: jest
+          .fn()
+          .mockResolvedValue([waitlisted('reg-4'), waitlisted('reg-5')]),
+        save: jest.fn((saved) => Promise.resolve(saved)),
+      };
+      manager = {
+        getRepository: () => registrations,
+      } as unknown as EntityManager;
+    });
+
+    it('registers waitlisted people in sign-up order until the event is full', async () => {
+      const promoted = await promoteWaitlisted(manager, {
+        id: 'activity-1',
+        eventCapacity: 4,
+      } as Activity);
+
+      expect(promoted.map((registration) => registration.id)).toEqual([
+        'reg-4',
+      ]);
+      expect(promoted[0].status).toBe(RegistrationStatus.registered);
+    });
+
+    it('registers everyone when the event has no limit', async () => {
+      const promoted = await promoteWaitlisted(manager, {
+        id: 'activity-1',
+        eventCapacity: null,
+      } as Activity);
+
+      expect(promoted).toHaveLength(2);
+    });
+
+    it('saves nothing when the event is full', async () => {
+      const promoted = await promoteWaitlisted(manager, {
+        id: 'activity-1',
+        eventCapacity: 3,
+      } as Activity);
+
+      expect(promoted).toEqual([]);
+      expect(registrations.save).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { EntityManager, Repository } from 'typeorm';
+import {
+  EventRegistration,
+  RegistrationStatus,
+} from '../entities/event-registration.entity';
+import { Activity } from '../../activity/entities/activity.entity';
+import { isAtCapacity } from '../../activity/utils/capacity.util';
+
+/** The waitlisted registrations of an event, in sign-up order */
+export function getWaitlist(
+  repository: Repository<EventRegistration>,
+  activityId: string,
+): Promise<EventRegistration[]> {
+  return repository.find({
+    where: { activityId, status: RegistrationStatus.waitlisted },
+    order: { createdAt: 'ASC' },
+  });
+}
+
+/**
+ * Registers waitlisted registrants in sign-up order until the event is full.
+ * Run it in a transaction holding the lock on the activity row, so a new
+ * registration can't take the same seat.
+ */
+export async function promoteWaitlisted(
+  manager: EntityManager,
+  activity: Activity,
+): Promise<EventRegistration[]> {
+  const registrations = manager.getRepository(EventRegistration);
+  const registeredCount = await registrations.count({
+    where: { activityId: activity.id, status: RegistrationStatus.registered },
+  });
+  const waitlist = await getWaitlist(registrations, activity.id);
+
+  const promoted: EventRegistration[] = [];
+  for (const next of waitlist) {
+    if (
+      isAtCapacity(activity.eventCapacity, registeredCount + promoted.length)
+    ) {
+      break;
+    }
+    next.status = RegistrationStatus.registered;
+    promoted.push(next);
+  }
+
+  return promoted.length ? registrations.save(promoted) : [];
+}
@@ -0,0 +1,81 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PassportModule } from '@nestjs/passport';
+import { StreamableFile } from '@nestjs/common';
+import { ExportController } from './export.controller';
+import { ExportService } from '../services/export.service';
+import { collect } from '../../../test/utils/read-zip';
+
+async function* chunks(...values: string[]) {
+  yield* values;
+}
+
+const mockExportService = {
+  exportEvents: jest.fn(),
+  exportRegistrations: jest.fn(),
+};
+
+describe('ExportController', () => {
+  let controller: ExportController;
+  const req = { user: { id: 'creator-123', role: 'creator' } };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [PassportModule.register({ defaultStrategy: 'jwt' })],
+      controllers: [ExportController],
+      providers: [{ provide: ExportService, useValue: mockExportService }],
+    }).compile();
+
+    controller = module.get<ExportController>(ExportController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should stream the event export as an attachment', async () => {
+    mockExportService.exportEvents.mockReturnValue({
+      fileName: 'archived-events-2025-01-15.csv',
+      contentType: 'text/csv; charset=utf-8',
+      content: chunks('Title\r\n', 'Club Fair\r\n'),
+    });
+
+    const file = controller.exportEvents('csv', 'true', 'social');
+
+    expect(file).toBeInstanceOf(StreamableFile);
+    expect(file.getHeaders()).toMatchObject({
+      type: 'text/csv; charset=utf-8',
+      disposition: 'attachment; filename="archived-events-2025-01-15.csv"',
+    });
+    expect((await collect(file.getStream())).toString()).toBe(
+      'Title\r\nClub Fair\r\n',
+    );
+    expect(mockExportService.exportEvents).toHaveBeenCalledWith('csv', {
+      isArchived: 'true',
+      tags: 'social',
+      location: undefined,
+      host: undefined,
+      startDate: undefined,
+      endDate: undefined,
+      nextOccurrenceOnly: undefined,
+    });
+  });
+
+  it('should export registrations as the signed-in user', async () => {
+    mockExportService.exportRegistrations.mockResolvedValue({
+      fileName: 'registrations-2025-01-15.json',
+      contentType: 'application/json; charset=utf-8',
+      content: chunks('[]'),
+    });
+
+    const file = await controller.exportRegistrations(req, 'json', 'a1,a2');
+
+    expect(file.getHeaders().type).toBe('application/json; charset=utf-8');
+    expect(mockExportService.exportRegistrations).toHaveBeenCalledWith(
+      'json',
+      'a1,a2',
+      req.user,
+    );
+  });
+});
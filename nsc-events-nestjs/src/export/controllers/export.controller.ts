@@ -0,0 +1,127 @@
+import {
+  Controller,
+  Get,
+  Query,
+  Req,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { Readable } from 'stream';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+  ApiProduces,
+} from '@nestjs/swagger';
+import { ExportFile, ExportService } from '../services/export.service';
+import { RoleGuard } from '../../auth/role.guard';
+import { Roles } from '../../auth/roles.decorator';
+
+const FORMAT_QUERY = {
+  name: 'format',
+  required: false,
+  enum: ['csv', 'json', 'xlsx'],
+  description: 'File format, defaults to csv',
+};
+
+const toStreamableFile = (file: ExportFile): StreamableFile =>
+  new StreamableFile(Readable.from(file.content), {
+    type: file.contentType,
+    disposition: `attachment; filename="${file.fileName}"`,
+  });
+
+@ApiTags('Export')
+@ApiBearerAuth('JWT-auth')
+@Controller('export') // final path is /api/export (global prefix 'api')
+export class ExportController {
+  constructor(private readonly exportService: ExportService) {}
+
+  // ----------------- Export Events ----------------- \\
+  @Roles('admin', 'creator')
+  @UseGuards(AuthGuard(), RoleGuard)
+  @Get('events')
+  @ApiProduces(
+    'text/csv',
+    'application/json',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  )
+  @ApiOperation({
+    summary: 'Export events',
+    description:
+      'Downloads every event matching the same filters as GET /api/events, streamed as CSV, JSON or XLSX',
+  })
+  @ApiQuery(FORMAT_QUERY)
+  @ApiQuery({ name: 'isArchived', required: false, example: 'true' })
+  @ApiQuery({ name: 'tags', required: false, example: 'workshop,career' })
+  @ApiQuery({ name: 'location', required: false })
+  @ApiQuery({ name: 'host', required: false })
+  @ApiQuery({ name: 'startDate', required: false, example: '2025-01-01' })
+  @ApiQuery({ name: 'endDate', required: false, example: '2025-06-30' })
+  @ApiQuery({ name: 'nextOccurrenceOnly', required: false, example: 'true' })
+  @ApiResponse({ status: 200, description: 'Export file' })
+  @ApiResponse({ status: 400, description: 'Unknown format' })
+  @ApiResponse({ status: 403, description: 'Forbidden - creators and admins' })
+  exportEvents(
+    @Query('format') format?: string,
+    @Query('isArchived') isArchived?: string,
+    @Query('tags') tags?: string,
+    @Query('location') location?: string,
+    @Query('host') host?: string,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+    @Query('nextOccurrenceOnly') nextOccurrenceOnly?: string,
+  ): StreamableFile {
+    return toStreamableFile(
+      this.exportService.exportEvents(format, {
+        isArchived,
+        tags,
+        location,
+        host,
+        startDate,
+        endDate,
+        nextOccurrenceOnly,
+      }),
+    );
+  }
+
+  // ----------------- Export Registrations ----------------- \\
+  @Roles('admin', 'creator')
+  @UseGuards(AuthGuard(), RoleGuard)
+  @Get('registrations')
+  @ApiProduces(
+    'text/csv',
+    'application/json',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  )
+  @ApiOperation({
+    summary: 'Export registrations',
+    description:
+      'Downloads the registrations of one or many events. Requires check-in permission on every event.',
+  })
+  @ApiQuery(FORMAT_QUERY)
+  @ApiQuery({
+    name: 'activityIds',
+    required: true,
+    description: 'Comma separated event IDs, at most 100',
+  })
+  @ApiResponse({ status: 200, description: 'Export file' })
+  @ApiResponse({ status: 400, description: 'Unknown format or no events' })
+  @ApiResponse({ status: 401, description: 'Missing check-in permission' })
+  @ApiResponse({ status: 404, description: 'Event not found' })
+  async exportRegistrations(
+    @Req() req: any,
+    @Query('format') format?: string,
+    @Query('activityIds') activityIds?: string,
+  ): Promise<StreamableFile> {
+    return toStreamableFile(
+      await this.exportService.exportRegistrations(
+        format,
+        activityIds,
+        req.user,
+      ),
+    );
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ExportController } from './controllers/export.controller';
+import { ExportService } from './services/export.service';
+import { ActivityModule } from '../activity/activity.module';
+import { AuthModule } from '../auth/auth.module';
+import { EventRegistrationModule } from '../event-registration/event-registration.module';
+
+@Module({
+  imports: [AuthModule, ActivityModule, EventRegistrationModule],
+  controllers: [ExportController],
+  providers: [ExportService],
+})
+export class ExportModule {}
@@ -0,0 +1,206 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ExportService, MAX_EXPORT_ACTIVITY_IDS } from './export.service';
+import { ActivityService } from '../../activity/services/activity/activity.service';
+import { EventRegistrationService } from '../../event-registration/services/event-registration.service';
+import { RegistrationStatus } from '../../event-registration/entities/event-registration.entity';
+import { EventPermission } from '../../collaborator/utils/permissions.util';
+import { Role } from '../../user/entities/user.entity';
+import { collect, readZip } from '../../../test/utils/read-zip';
+
+async function* batchesOf<T>(...batches: T[][]) {
+  yield* batches;
+}
+
+describe('ExportService', () => {
+  let service: ExportService;
+  let activityService: {
+    streamActivities: jest.Mock;
+    getActivityById: jest.Mock;
+    hasEventPermission: jest.Mock;
+  };
+  let registrationService: { streamRegistrationsByActivityIds: jest.Mock };
+
+  const user = { id: 'creator-123', role: Role.creator };
+  const fair = {
+    id: 'a1',
+    eventTitle: 'Club Fair',
+    startDate: new Date('2025-01-15T18:00:00Z'),
+    endDate: new Date('2025-01-15T20:00:00Z'),
+    timeZone: 'America/Los_Angeles',
+    eventLocation: 'Library, Room 101',
+    eventHost: 'Student Life',
+    eventContact: 'life@example.edu',
+    eventCapacity: null,
+    eventTags: ['Social', 'Clubs'],
+    attendanceCount: 12,
+    isArchived: true,
+    createdAt: new Date('2024-12-01T00:00:00Z'),
+  };
+  const talk = { ...fair, id: 'a2', eventTitle: 'Career Talk' };
+  const registration = {
+    id: 'r1',
+    activityId: 'a1',
+    firstName: 'Ada',
+    lastName: 'Lovelace',
+    email: 'ada@example.edu',
+    college: 'NSC',
+    yearOfStudy: 'Freshman',
+    status: RegistrationStatus.registered,
+    isAttended: true,
+    createdAt: new Date('2025-01-02T00:00:00Z'),
+  };
+
+  beforeEach(async () => {
+    activityService = {
+      streamActivities: jest.fn(() => batchesOf([fair], [talk])),
+      getActivityById: jest.fn((id: string) =>
+        id === 'missing'
+          ? Promise.reject(new NotFoundException('Activity not found'))
+          : Promise.resolve(id === 'a1' ? fair : talk),
+      ),
+      hasEventPermission: jest.fn().mockResolvedValue(true),
+    };
+    registrationService = {
+      streamRegistrationsByActivityIds: jest.fn(() =>
+        batchesOf([registration], [{ ...registration, activityId: 'a2' }]),
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExportService,
+        { provide: ActivityService, useValue: activityService },
+        {
+          provide: EventRegistrationService,
+          useValue: registrationService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ExportService>(ExportService);
+  });
+
+  describe('exportEvents', () => {
+    it('should stream events matching the list filters as CSV', async () => {
+      const file = service.exportEvents(undefined, {
+        isArchived: 'true',
+        tags: 'Social, clubs',
+        location: 'Library',
+      });
+
+      expect(file.fileName).toMatch(/^archived-events-\d{4}-\d{2}-\d{2}\.csv$/);
+      expect(file.contentType).toBe('text/csv; charset=utf-8');
+      const lines = (await collect(file.content)).toString().split('\r\n');
+      expect(lines[0]).toBe(
+        '\uFEFFEvent ID,Title,Start,End,Time zone,Location,Host,Contact,Capacity,Tags,Attendance,Publication status,Approval status,Archived,Series ID,Created',
+      );
+      expect(lines[1]).toContain(
+        'a1,Club Fair,2025-01-15T18:00:00.000Z,2025-01-15T20:00:00.000Z,America/Los_Angeles,"Library, Room 101",Student Life,life@example.edu,,Social; Clubs,12,',
+      );
+      expect(lines[2]).toMatch(/^a2,Career Talk,/);
+      expect(activityService.streamActivities).toHaveBeenCalledWith({
+        isArchived: 'true',
+        tags: ['social', 'clubs'],
+        location: 'Library',
+      });
+    });
+
+    it('should stream events as JSON keyed by field', async () => {
+      const file = service.exportEvents('json');
+
+      const events = JSON.parse((await collect(file.content)).toString());
+      expect(events).toHaveLength(2);
+      expect(events[0]).toMatchObject({
+        id: 'a1',
+        eventTitle: 'Club Fair',
+        eventCapacity: null,
+        eventTags: 'Social; Clubs',
+        isArchived: true,
+      });
+    });
+
+    it('should stream events as an XLSX workbook', async () => {
+      const file = service.exportEvents('XLSX');
+
+      expect(file.fileName).toMatch(/^events-.*\.xlsx$/);
+      const sheet = readZip(await collect(file.content))[
+        'xl/worksheets/sheet1.xml'
+      ];
+      expect(sheet).toContain('Club Fair');
+      expect(sheet).toContain('Career Talk');
+    });
+
+    it('should reject unknown formats before streaming', () => {
+      expect(() => service.exportEvents('pdf')).toThrow(BadRequestException);
+      expect(activityService.streamActivities).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('exportRegistrations', () => {
+    it('should stream registrations next to their event', async () => {
+      const file = await service.exportRegistrations('csv', 'a1,a2,a1', user);
+
+      expect(file.fileName).toMatch(/^registrations-\d{4}-\d{2}-\d{2}\.csv$/);
+      const lines = (await collect(file.content)).toString().split('\r\n');
+      expect(lines[1]).toBe(
+        'a1,Club Fair,2025-01-15T18:00:00.000Z,Ada,Lovelace,ada@example.edu,NSC,Freshman,registered,true,2025-01-02T00:00:00.000Z',
+      );
+      expect(lines[2]).toMatch(/^a2,Career Talk,/);
+      expect(
+        registrationService.streamRegistrationsByActivityIds,
+      ).toHaveBeenCalledWith(['a1', 'a2']);
+      expect(activityService.hasEventPermission).toHaveBeenCalledWith(
+        fair,
+        user,
+        EventPermission.checkIn,
+      );
+    });
+
+    it('should name single event exports after the event', async () => {
+      const file = await service.exportRegistrations('json', 'a1', user);
+
+      expect(file.fileName).toMatch(/^registrations-a1-.*\.json$/);
+    });
+
+    it('should require at least one event', async () => {
+      await expect(
+        service.exportRegistrations('csv', ' , ', user),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should limit how many events are exported at once', async () => {
+      const ids = Array.from(
+        { length: MAX_EXPORT_ACTIVITY_IDS + 1 },
+        (_, i) => `a${i}`,
+      ).join(',');
+
+      await expect(
+        service.exportRegistrations('csv', ids, user),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should require check-in permission on every event', async () => {
+      activityService.hasEventPermission
+        .mockResolvedValueOnce(true)
+        .mockResolvedValueOnce(false);
+
+      await expect(
+        service.exportRegistrations('csv', 'a1,a2', user),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(
+        registrationService.streamRegistrationsByActivityIds,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should pass through missing events', async () => {
+      await expect(
+        service.exportRegistrations('csv', 'missing', user),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,270 @@
+import {
+  BadRequestException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ActivityService } from '../../activity/services/activity/activity.service';
+import { Activity } from '../../activity/entities/activity.entity';
+import { EventRegistrationService } from '../../event-registration/services/event-registration.service';
+import { EventRegistration } from '../../event-registration/entities/event-registration.entity';
+import {
+  EventActor,
+  EventPermission,
+} from '../../collaborator/utils/permissions.util';
+import {
+  EXPORT_CONTENT_TYPES,
+  ExportColumn,
+  ExportFormat,
+  parseExportFormat,
+  renderExport,
+} from '../utils/export.util';
+
+// Upper bound on events per registration export, which keeps the query
+// string and the permission checks short
+export const MAX_EXPORT_ACTIVITY_IDS = 100;
+
+export interface ExportFile {
+  fileName: string;
+  contentType: string;
+  content: AsyncIterable<string | Buffer>;
+}
+
+// Filters of getAllActivities, as given in the query string
+export interface EventExportFilters {
+  isArchived?: string;
+  tags?: string;
+  location?: string;
+  host?: string;
+  startDate?: string;
+  endDate?: string;
+  nextOccurrenceOnly?: string;
+}
+
+const EVENT_COLUMNS: ExportColumn<Activity>[] = [
+  { key: 'id', header: 'Event ID', value: (event) => event.id },
+  { key: 'eventTitle', header: 'Title', value: (event) => event.eventTitle },
+  { key: 'startDate', header: 'Start', value: (event) => event.startDate },
+  { key: 'endDate', header: 'End', value: (event) => event.endDate },
+  { key: 'timeZone', header: 'Time zone', value: (event) => event.timeZone },
+  {
+    key: 'eventLocation',
+    header: 'Location',
+    value: (event) => event.eventLocation,
+  },
+  { key: 'eventHost', header: 'Host', value: (event) => event.eventHost },
+  {
+    key: 'eventContact',
+    header: 'Contact',
+    value: (event) => event.eventContact,
+  },
+  {
+    key: 'eventCapacity',
+    header: 'Capacity',
+    value: (event) => event.eventCapacity,
+  },
+  {
+    key: 'eventTags',
+    header: 'Tags',
+    value: (event) => (event.eventTags ?? []).join('; '),
+  },
+  {
+    key: 'attendanceCount',
+    header: 'Attendance',
+    value: (event) => event.attendanceCount ?? 0,
+  },
+  {
+    key: 'publicationStatus',
+    header: 'Publication status',
+    value: (event) => event.publicationStatus,
+  },
+  {
+    key: 'approvalStatus',
+    header: 'Approval status',
+    value: (event) => event.approvalStatus,
+  },
+  {
+    key: 'isArchived',
+    header: 'Archived',
+    value: (event) => event.isArchived,
+  },
+  { key: 'seriesId', header: 'Series ID', value: (event) => event.seriesId },
+  { key: 'createdAt', header: 'Created', value: (event) => event.createdAt },
+];
+
+// Registrations are exported next to the event they belong to
+type RegistrationRow = { registration: EventRegistration; activity: Activity };
+
+const REGISTRATION_COLUMNS: ExportColumn<RegistrationRow>[] = [
+  {
+    key: 'activityId',
+    header: 'Event ID',
+    value: (row) => row.registration.activityId,
+  },
+  {
+    key: 'eventTitle',
+    header: 'Event',
+    value: (row) => row.activity.eventTitle,
+  },
+  {
+    key: 'eventStartDate',
+    header: 'Event start',
+    value: (row) => row.activity.startDate,
+  },
+  {
+    key: 'firstName',
+    header: 'First name',
+    value: (row) => row.registration.firstName,
+  },
+  {
+    key: 'lastName',
+    header: 'Last name',
+    value: (row) => row.registration.lastName,
+  },
+  { key: 'email', header: 'Email', value: (row) => row.registration.email },
+  {
+    key: 'college',
+    header: 'College',
+    value: (row) => row.registration.college,
+  },
+  {
+    key: 'yearOfStudy',
+    header: 'Year of study',
+    value: (row) => row.registration.yearOfStudy,
+  },
+  { key: 'status', header: 'Status', value: (row) => row.registration.status },
+  {
+    key: 'isAttended',
+    header: 'Attended',
+    value: (row) => row.registration.isAttended,
+  },
+  {
+    key: 'registeredAt',
+    header: 'Registered',
+    value: (row) => row.registration.createdAt,
+  },
+];
+
+@Injectable()
+export class ExportService {
+  constructor(
+    private readonly activityService: ActivityService,
+    private readonly registrationService: EventRegistrationService,
+  ) {}
+
+  // ----------------- Export Events ----------------- \\
+  // Events matching the same filters as the event list, including archived
+  // events when isArchived is 'true'
+  exportEvents(format?: string, filters: EventExportFilters = {}): ExportFile {
+    const exportFormat = this.toFormat(format);
+    const tags = (filters.tags ?? '')
+      .split(',')
+      .map((tag) => tag.trim().toLowerCase())
+      .filter(Boolean);
+    const batches = this.activityService.streamActivities({
+      ...filters,
+      tags,
+    });
+
+    return this.toFile(
+      filters.isArchived === 'true' ? 'archived-events' : 'events',
+      exportFormat,
+      renderExport(exportFormat, EVENT_COLUMNS, batches, 'Events'),
+    );
+  }
+
+  // ----------------- Export Registrations ----------------- \\
+  // Registrations of one or many events, in the order the ids were given.
+  // The user needs check-in permission on every event.
+  async exportRegistrations(
+    format: string | undefined,
+    activityIds: string | undefined,
+    user: EventActor,
+  ): Promise<ExportFile> {
+    const exportFormat = this.toFormat(format);
+    const ids = [
+      ...new Set(
+        (activityIds ?? '')
+          .split(',')
+          .map((id) => id.trim())
+          .filter(Boolean),
+      ),
+    ];
+    if (ids.length === 0) {
+      throw new BadRequestException('Choose at least one event to export');
+    }
+    if (ids.length > MAX_EXPORT_ACTIVITY_IDS) {
+      throw new BadRequestException(
+        `Export registrations of at most ${MAX_EXPORT_ACTIVITY_IDS} events at a time`,
+      );
+    }
+
+    // Permissions are checked up front, since headers are sent with the
+    // first chunk and errors can't be reported once streaming starts
+    const activities = new Map<string, Activity>();
+    for (const id of ids) {
+      const activity = await this.activityService.getActivityById(id);
+      if (
+        !(await this.activityService.hasEventPermission(
+          activity,
+          user,
+          EventPermission.checkIn,
+        ))
+      ) {
+        throw new UnauthorizedException(
+          `You can't export registrations of "${activity.eventTitle}"`,
+        );
+      }
+      activities.set(id, activity);
+    }
+
+    const only = ids.length === 1 ? activities.get(ids[0]) : undefined;
+    return this.toFile(
+      only ? `registrations-${only.id}` : 'registrations',
+      exportFormat,
+      renderExport(
+        exportFormat,
+        REGISTRATION_COLUMNS,
+        this.registrationRows(ids, activities),
+        'Registrations',
+      ),
+    );
+  }
+
+  private async *registrationRows(
+    ids: string[],
+    activities: Map<string, Activity>,
+  ): AsyncGenerator<RegistrationRow[]> {
+    for await (const batch of this.registrationService.streamRegistrationsByActivityIds(
+      ids,
+    )) {
+      yield batch.map((registration) => ({
+        registration,
+        activity: activities.get(registration.activityId),
+      }));
+    }
+  }
+
+  private toFormat(format?: string): ExportFormat {
+    const exportFormat = parseExportFormat(format);
+    if (!exportFormat) {
+      throw new BadRequestException(
+        `Format must be one of: ${Object.values(ExportFormat).join(', ')}`,
+      );
+    }
+    return exportFormat;
+  }
+
+  /** Names the file after its contents and today's date */
+  private toFile(
+    baseName: string,
+    format: ExportFormat,
+    content: AsyncIterable<string | Buffer>,
+  ): ExportFile {
+    const date = new Date().toISOString().slice(0, 10);
+    return {
+      fileName: `${baseName}-${date}.${format}`,
+      contentType: EXPORT_CONTENT_TYPES[format],
+      content,
+    };
+  }
+}
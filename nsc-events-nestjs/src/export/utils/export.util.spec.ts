@@ -0,0 +1,92 @@
+import { parseCsv } from '../../common/csv.util';
+import {
+  ExportColumn,
+  ExportFormat,
+  parseExportFormat,
+  renderExport,
+} from './export.util';
+import { collect, readZip } from '../../../test/utils/read-zip';
+
+describe('export.util', () => {
+  type Row = { title: string; starts: Date; seats: number | null };
+  const columns: ExportColumn<Row>[] = [
+    { key: 'title', header: 'Title', value: (row) => row.title },
+    { key: 'startDate', header: 'Starts', value: (row) => row.starts },
+    { key: 'capacity', header: 'Capacity', value: (row) => row.seats },
+  ];
+  async function* batches() {
+    yield [
+      {
+        title: 'Club Fair, Spring',
+        starts: new Date('2025-01-15T18:00:00Z'),
+        seats: 50,
+      },
+    ];
+    yield [
+      {
+        title: 'Study Night',
+        starts: new Date('2025-01-16T18:00:00Z'),
+        seats: null,
+      },
+    ];
+  }
+  const render = async (format: ExportFormat) =>
+    collect(renderExport(format, columns, batches(), 'Events'));
+
+  describe('parseExportFormat', () => {
+    it('defaults to CSV and rejects unknown formats', () => {
+      expect(parseExportFormat()).toBe(ExportFormat.csv);
+      expect(parseExportFormat('XLSX')).toBe(ExportFormat.xlsx);
+      expect(parseExportFormat('pdf')).toBeUndefined();
+    });
+  });
+
+  describe('renderExport', () => {
+    it('writes CSV with a byte order mark and a header row', async () => {
+      const text = (await render(ExportFormat.csv)).toString('utf8');
+
+      expect(text.startsWith('﻿Title,Starts,Capacity\r\n')).toBe(true);
+      expect(parseCsv(text)).toEqual([
+        ['Title', 'Starts', 'Capacity'],
+        ['Club Fair, Spring', '2025-01-15T18:00:00.000Z', '50'],
+        ['Study Night', '2025-01-16T18:00:00.000Z', ''],
+      ]);
+    });
+
+    it('writes a JSON array keyed by column', async () => {
+      expect(
+        JSON.parse((await render(ExportFormat.json)).toString('utf8')),
+      ).toEqual([
+        {
+          title: 'Club Fair, Spring',
+          startDate: '2025-01-15T18:00:00.000Z',
+          capacity: 50,
+        },
+        {
+          title: 'Study Night',
+          startDate: '2025-01-16T18:00:00.000Z',
+          capacity: null,
+        },
+      ]);
+    });
+
+    it('writes an empty JSON array when nothing matches', async () => {
+      async function* none() {
+        // no batches
+      }
+      const text = await collect(
+        renderExport(ExportFormat.json, columns, none(), 'Events'),
+      );
+      expect(JSON.parse(text.toString('utf8'))).toEqual([]);
+    });
+
+    it('writes an XLSX workbook', async () => {
+      const sheet = readZip(await render(ExportFormat.xlsx))[
+        'xl/worksheets/sheet1.xml'
+      ];
+
+      expect(sheet).toContain('Club Fair, Spring');
+      expect(sheet).toContain('<c><v>50</v></c>');
+    });
+  });
+});
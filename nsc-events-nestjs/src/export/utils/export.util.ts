@@ -0,0 +1,86 @@
+import { CsvValue, formatCsvRow } from '../../common/csv.util';
+import { CellValue, xlsxWorkbook } from './xlsx.util';
+
+export enum ExportFormat {
+  csv = 'csv',
+  json = 'json',
+  xlsx = 'xlsx',
+}
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  [ExportFormat.csv]: 'text/csv; charset=utf-8',
+  [ExportFormat.json]: 'application/json; charset=utf-8',
+  [ExportFormat.xlsx]:
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export interface ExportColumn<T> {
+  // Property name in JSON exports
+  key: string;
+  // Column title in CSV and XLSX exports
+  header: string;
+  value: (row: T) => CellValue;
+}
+
+/**
+ * Reads an export format from a query string, defaulting to CSV. Returns
+ * undefined for unknown formats.
+ */
+export function parseExportFormat(value?: string): ExportFormat | undefined {
+  const format = (value || ExportFormat.csv).toLowerCase();
+  return Object.values(ExportFormat).find((known) => known === format);
+}
+
+/**
+ * Streams rows in the given format as they arrive in batches. CSV starts
+ * with a byte order mark so spreadsheets read it as UTF-8.
+ */
+export async function* renderExport<T>(
+  format: ExportFormat,
+  columns: ExportColumn<T>[],
+  batches: AsyncIterable<T[]>,
+  sheetName: string,
+): AsyncGenerator<string | Buffer> {
+  const toCells = (row: T) => columns.map((column) => column.value(row));
+
+  if (format === ExportFormat.xlsx) {
+    async function* cells() {
+      for await (const batch of batches) {
+        yield batch.map(toCells);
+      }
+    }
+    yield* xlsxWorkbook(
+      sheetName,
+      columns.map((column) => column.header),
+      cells(),
+    );
+    return;
+  }
+
+  if (format === ExportFormat.json) {
+    let isFirst = true;
+    yield '[';
+    for await (const batch of batches) {
+      for (const row of batch) {
+        const record = Object.fromEntries(
+          columns.map((column) => [column.key, column.value(row) ?? null]),
+        );
+        yield `${isFirst ? '\n' : ',\n'}${JSON.stringify(record)}`;
+        isFirst = false;
+      }
+    }
+    yield isFirst ? ']\n' : '\n]\n';
+    return;
+  }
+
+  const toCsv = (values: CellValue[]) =>
+    formatCsvRow(
+      values.map((value) =>
+        value instanceof Date ? value.toISOString() : (value as CsvValue),
+      ),
+    );
+  yield `\uFEFF${toCsv(columns.map((column) => column.header))}\r\n`;
+  for await (const batch of batches) {
+    yield batch.map((row) => `${toCsv(toCells(row))}\r\n`).join('');
+  }
+}
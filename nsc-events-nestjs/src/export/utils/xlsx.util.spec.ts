@@ -0,0 +1,52 @@
+import { escapeXml, formatCell, xlsxWorkbook } from './xlsx.util';
+import { collect, readZip } from '../../../test/utils/read-zip';
+
+describe('xlsx.util', () => {
+  describe('escapeXml', () => {
+    it('escapes markup and drops control characters', () => {
+      expect(escapeXml('<a href="x">&\u0001</a>')).toBe(
+        '&lt;a href=&quot;x&quot;&gt;&amp;&lt;/a&gt;',
+      );
+    });
+  });
+
+  describe('formatCell', () => {
+    it('keeps numbers and booleans typed and writes the rest as text', () => {
+      expect(formatCell(12)).toBe('<c><v>12</v></c>');
+      expect(formatCell(false)).toBe('<c t="b"><v>0</v></c>');
+      expect(formatCell(null)).toBe('<c/>');
+      expect(formatCell(new Date('2025-01-15T18:00:00Z'))).toBe(
+        '<c t="inlineStr"><is><t xml:space="preserve">2025-01-15T18:00:00.000Z</t></is></c>',
+      );
+    });
+  });
+
+  describe('xlsxWorkbook', () => {
+    it('packages a sheet with a header row and streamed rows', async () => {
+      async function* rows() {
+        yield [['Club Fair', 50]];
+        yield [['Study Night', null]];
+      }
+
+      const files = readZip(
+        await collect(
+          xlsxWorkbook('Events: 2025', ['Title', 'Capacity'], rows()),
+        ),
+      );
+
+      expect(Object.keys(files)).toEqual([
+        '[Content_Types].xml',
+        '_rels/.rels',
+        'xl/workbook.xml',
+        'xl/_rels/workbook.xml.rels',
+        'xl/worksheets/sheet1.xml',
+      ]);
+      expect(files['xl/workbook.xml']).toContain('<sheet name="Events  2025"');
+      const sheet = files['xl/worksheets/sheet1.xml'];
+      expect(sheet.match(/<row /g)).toHaveLength(3);
+      expect(sheet).toContain(
+        '<row r="3"><c t="inlineStr"><is><t xml:space="preserve">Study Night</t></is></c><c/></row>',
+      );
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { zipEntries } from './zip.util';
+
+export type CellValue = string | number | boolean | Date | null | undefined;
+
+// Excel refuses longer text in a single cell
+const MAX_CELL_LENGTH = 32767;
+const MAX_SHEET_NAME_LENGTH = 31;
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const CONTENT_TYPES =
+  XML_HEADER +
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+  '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+  '</Types>';
+
+const ROOT_RELS =
+  XML_HEADER +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+  '</Relationships>';
+
+const WORKBOOK_RELS =
+  XML_HEADER +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+  '</Relationships>';
+
+/**
+ * Escapes text for XML, dropping control characters XML 1.0 can't hold.
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Renders a cell. Numbers and booleans keep their type, dates are written
+ * as ISO 8601 text like the other export formats.
+ */
+export function formatCell(value: CellValue): string {
+  if (value === null || value === undefined || value === '') {
+    return '<c/>';
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<c><v>${value}</v></c>`;
+  }
+  if (typeof value === 'boolean') {
+    return `<c t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return `<c t="inlineStr"><is><t xml:space="preserve">${escapeXml(
+    text.slice(0, MAX_CELL_LENGTH),
+  )}</t></is></c>`;
+}
+
+/** Sheet names are at most 31 characters and can't contain []:*?/\ */
+const toSheetName = (name: string): string =>
+  name.replace(/[[\]:*?/\\]/g, ' ').slice(0, MAX_SHEET_NAME_LENGTH) || 'Sheet1';
+
+/**
+ * Streams a single sheet workbook. The header row is frozen so it stays
+ * visible while scrolling.
+ */
+export function xlsxWorkbook(
+  sheetName: string,
+  header: string[],
+  rows: AsyncIterable<CellValue[][]>,
+): AsyncGenerator<Buffer> {
+  const workbook =
+    XML_HEADER +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    `<sheets><sheet name="${escapeXml(
+      toSheetName(sheetName),
+    )}" sheetId="1" r:id="rId1"/></sheets>` +
+    '</workbook>';
+
+  async function* sheet(): AsyncGenerator<string> {
+    yield XML_HEADER +
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<sheetViews><sheetView workbookViewId="0">' +
+      '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' +
+      '</sheetView></sheetViews><sheetData>';
+
+    let rowNumber = 1;
+    yield `<row r="${rowNumber}">${header.map(formatCell).join('')}</row>`;
+    for await (const batch of rows) {
+      yield batch
+        .map(
+          (row) =>
+            `<row r="${++rowNumber}">${row.map(formatCell).join('')}</row>`,
+        )
+        .join('');
+    }
+    yield '</sheetData></worksheet>';
+  }
+
+  return zipEntries([
+    { name: '[Content_Types].xml', content: [CONTENT_TYPES] },
+    { name: '_rels/.rels', content: [ROOT_RELS] },
+    { name: 'xl/workbook.xml', content: [workbook] },
+    { name: 'xl/_rels/workbook.xml.rels', content: [WORKBOOK_RELS] },
+    { name: 'xl/worksheets/sheet1.xml', content: sheet() },
+  ]);
+}
@@ -0,0 +1,32 @@
+import { zipEntries } from './zip.util';
+import { collect, readZip } from '../../../test/utils/read-zip';
+
+describe('zip.util', () => {
+  describe('zipEntries', () => {
+    it('writes entries that read back with matching checksums', async () => {
+      async function* lines() {
+        for (let i = 0; i < 1000; i++) {
+          yield `row ${i}\n`;
+        }
+      }
+
+      const archive = await collect(
+        zipEntries([
+          { name: 'hello.txt', content: ['Hello, ', Buffer.from('zip')] },
+          { name: 'folder/lines.txt', content: lines() },
+          { name: 'empty.txt', content: [] },
+        ]),
+      );
+
+      const files = readZip(archive);
+      expect(Object.keys(files)).toEqual([
+        'hello.txt',
+        'folder/lines.txt',
+        'empty.txt',
+      ]);
+      expect(files['hello.txt']).toBe('Hello, zip');
+      expect(files['folder/lines.txt'].split('\n')).toHaveLength(1001);
+      expect(files['empty.txt']).toBe('');
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { Readable } from 'stream';
+import { crc32, createDeflateRaw } from 'zlib';
+
+export interface ZipEntry {
+  name: string;
+  content: AsyncIterable<string | Buffer> | Iterable<string | Buffer>;
+}
+
+// General purpose flags: sizes follow the data (bit 3), UTF-8 names (bit 11)
+const STREAMED_UTF8_FLAGS = 0x0808;
+const DEFLATE = 8;
+const ZIP_VERSION = 20;
+
+/** MS-DOS date and time fields used by zip headers */
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date:
+      ((Math.max(date.getFullYear(), 1980) - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate(),
+  };
+}
+
+/**
+ * Writes a zip archive while its entries are still being produced. Each
+ * entry is deflated as it streams, and its checksum and sizes follow it in a
+ * data descriptor, so nothing is held in memory beyond the current chunk.
+ * Archives are limited to 4 GB (no zip64).
+ */
+export async function* zipEntries(
+  entries: ZipEntry[],
+  modifiedAt = new Date(),
+): AsyncGenerator<Buffer> {
+  const { time, date } = dosDateTime(modifiedAt);
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(ZIP_VERSION, 4);
+    header.writeUInt16LE(STREAMED_UTF8_FLAGS, 6);
+    header.writeUInt16LE(DEFLATE, 8);
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    // checksum and sizes (14-25) stay zero until the data descriptor
+    header.writeUInt16LE(name.length, 26);
+    yield Buffer.concat([header, name]);
+
+    let checksum = 0;
+    let size = 0;
+    let compressedSize = 0;
+    const source = entry.content;
+    async function* measured() {
+      for await (const chunk of source) {
+        const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+        checksum = crc32(buffer, checksum);
+        size += buffer.length;
+        yield buffer;
+      }
+    }
+    for await (const chunk of Readable.from(measured()).pipe(
+      createDeflateRaw(),
+    )) {
+      compressedSize += chunk.length;
+      yield chunk as Buffer;
+    }
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(checksum, 4);
+    descriptor.writeUInt32LE(compressedSize, 8);
+    descriptor.writeUInt32LE(size, 12);
+    yield descriptor;
+
+    const record = Buffer.alloc(46);
+    record.writeUInt32LE(0x02014b50, 0);
+    record.writeUInt16LE(ZIP_VERSION, 4);
+    record.writeUInt16LE(ZIP_VERSION, 6);
+    record.writeUInt16LE(STREAMED_UTF8_FLAGS, 8);
+    record.writeUInt16LE(DEFLATE, 10);
+    record.writeUInt16LE(time, 12);
+    record.writeUInt16LE(date, 14);
+    record.writeUInt32LE(checksum, 16);
+    record.writeUInt32LE(compressedSize, 20);
+    record.writeUInt32LE(size, 24);
+    record.writeUInt16LE(name.length, 28);
+    // extra field, comment, disk and attributes (30-41) are empty
+    record.writeUInt32LE(offset, 42);
+    central.push(record, name);
+
+    offset += header.length + name.length + compressedSize + descriptor.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  yield Buffer.concat([directory, end]);
+}
@@ -0,0 +1,54 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PassportModule } from '@nestjs/passport';
+import { ImportController } from './import.controller';
+import { ImportService } from '../services/import.service';
+
+const mockImportService = {
+  previewImport: jest.fn(),
+  importEvents: jest.fn(),
+};
+
+describe('ImportController', () => {
+  let controller: ImportController;
+  const req = { user: { id: 'creator-123', role: 'creator' } };
+  const file = {
+    originalname: 'events.csv',
+    buffer: Buffer.from('Title\nClub Fair'),
+  } as Express.Multer.File;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [PassportModule.register({ defaultStrategy: 'jwt' })],
+      controllers: [ImportController],
+      providers: [{ provide: ImportService, useValue: mockImportService }],
+    }).compile();
+
+    controller = module.get<ImportController>(ImportController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should preview the uploaded file', async () => {
+    const dto = { mapping: '{"Title":"eventTitle"}' };
+
+    await controller.previewImport(file, dto);
+
+    expect(mockImportService.previewImport).toHaveBeenCalledWith(file, dto);
+  });
+
+  it('should import the uploaded file as the signed-in user', async () => {
+    const dto = { timeZone: 'America/Chicago' };
+
+    await controller.importEvents(file, dto, req);
+
+    expect(mockImportService.importEvents).toHaveBeenCalledWith(
+      file,
+      dto,
+      req.user,
+    );
+  });
+});
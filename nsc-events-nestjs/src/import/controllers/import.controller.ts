@@ -0,0 +1,126 @@
+import {
+  Body,
+  Controller,
+  Post,
+  Req,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+} from '@nestjs/swagger';
+import { Express } from 'express';
+import {
+  ImportPreview,
+  ImportResult,
+  ImportService,
+  MAX_IMPORT_FILE_BYTES,
+} from '../services/import.service';
+import { ImportEventsDto } from '../dto/import-events.dto';
+import { RoleGuard } from '../../auth/role.guard';
+import { Roles } from '../../auth/roles.decorator';
+
+const importBodySchema = {
+  type: 'object',
+  required: ['file'],
+  properties: {
+    file: {
+      type: 'string',
+      format: 'binary',
+      description: 'A .csv file with a header row, or an .ics calendar',
+    },
+    mapping: {
+      type: 'string',
+      example:
+        '{"Title":"eventTitle","Date":"date","From":"startTime","To":"endTime"}',
+    },
+    defaults: {
+      type: 'string',
+      example: '{"eventHost":"Student Life","eventCapacity":"unlimited"}',
+    },
+    timeZone: { type: 'string', example: 'America/Los_Angeles' },
+    publicationStatus: { type: 'string', enum: ['draft', 'published'] },
+  },
+};
+
+@ApiTags('Event Import')
+@ApiBearerAuth('JWT-auth')
+@Controller('events/import') // final path is /api/events/import (global prefix 'api')
+export class ImportController {
+  constructor(private readonly importService: ImportService) {}
+
+  // ----------------- Preview Import ----------------- \\
+  @Roles('admin', 'creator')
+  @UseGuards(AuthGuard(), RoleGuard)
+  @Post('preview')
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_IMPORT_FILE_BYTES } }),
+  )
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({
+    summary: 'Preview an event import',
+    description:
+      'Reads a CSV or iCalendar file and checks every row against the create event rules without saving anything. For CSV files the response includes the headers and the column mapping used, suggested from the headers when none is given.',
+  })
+  @ApiBody({ schema: importBodySchema })
+  @ApiResponse({
+    status: 201,
+    description:
+      'Per-row preview: { format, headers, mapping, rows: [{ row, fields, errors, warnings }] }',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Unsupported or empty file, or invalid options',
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden - creators and admins' })
+  async previewImport(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() importEventsDto: ImportEventsDto,
+  ): Promise<ImportPreview> {
+    return this.importService.previewImport(file, importEventsDto);
+  }
+
+  // ----------------- Import Events ----------------- \\
+  @Roles('admin', 'creator')
+  @UseGuards(AuthGuard(), RoleGuard)
+  @Post()
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_IMPORT_FILE_BYTES } }),
+  )
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({
+    summary: 'Import events',
+    description:
+      'Creates every row the preview accepts in one transaction, as events of the importing user. Rows with errors, including events that already exist with the same title and start time, are skipped.',
+  })
+  @ApiBody({ schema: importBodySchema })
+  @ApiResponse({
+    status: 201,
+    description: 'Created and skipped rows: { created, skipped }',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Unsupported or empty file, or invalid options',
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden - creators and admins' })
+  @ApiResponse({
+    status: 409,
+    description:
+      'An event takes a room that is already booked at its time. Lists the conflicting events; nothing is imported',
+  })
+  async importEvents(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() importEventsDto: ImportEventsDto,
+    @Req() req: any,
+  ): Promise<ImportResult> {
+    return this.importService.importEvents(file, importEventsDto, req.user);
+  }
+}
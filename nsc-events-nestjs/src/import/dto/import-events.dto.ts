@@ -0,0 +1,45 @@
+import { IsIn, IsOptional, IsString } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { PublicationStatus } from '../../activity/entities/activity.entity';
+
+// Sent as multipart form fields next to the file, so objects arrive as JSON
+export class ImportEventsDto {
+  @ApiPropertyOptional({
+    description:
+      'JSON object mapping CSV headers to event fields. Defaults to the mapping suggested from the headers; ignored for .ics files.',
+    example:
+      '{"Title":"eventTitle","Date":"date","From":"startTime","To":"endTime"}',
+  })
+  @IsOptional()
+  @IsString()
+  readonly mapping?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'JSON object of event field values used for rows that leave them blank',
+    example: '{"eventHost":"Student Life","eventCapacity":"unlimited"}',
+  })
+  @IsOptional()
+  @IsString()
+  readonly defaults?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'IANA time zone for dates and times without a UTC offset. Defaults to EVENT_IMPORT_TIME_ZONE.',
+    example: 'America/Los_Angeles',
+  })
+  @IsOptional()
+  @IsString()
+  readonly timeZone?: string;
+
+  @ApiPropertyOptional({
+    description: 'Create the events as drafts or publish them right away',
+    enum: [PublicationStatus.draft, PublicationStatus.published],
+    default: PublicationStatus.published,
+  })
+  @IsOptional()
+  @IsIn([PublicationStatus.draft, PublicationStatus.published], {
+    message: 'publicationStatus must be one of: draft, published',
+  })
+  readonly publicationStatus?: PublicationStatus;
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ImportController } from './controllers/import.controller';
+import { ImportService } from './services/import.service';
+import { ActivityModule } from '../activity/activity.module';
+import { AuthModule } from '../auth/auth.module';
+import { TagModule } from '../tag/tag.module';
+
+@Module({
+  imports: [AuthModule, ActivityModule, TagModule],
+  controllers: [ImportController],
+  providers: [ImportService],
+})
+export class ImportModule {}
@@ -0,0 +1,340 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { ImportService, MAX_IMPORT_ROWS } from './import.service';
+import {
+  Activity,
+  PublicationStatus,
+} from '../../activity/entities/activity.entity';
+import { ActivityService } from '../../activity/services/activity/activity.service';
+import { TagService } from '../../tag/services/tag.service';
+import { Role } from '../../user/entities/user.entity';
+
+describe('ImportService', () => {
+  let service: ImportService;
+  let activityRepository: { find: jest.Mock };
+  let activityService: { createActivities: jest.Mock };
+  let tagService: { resolveTags: jest.Mock };
+  let configService: { get: jest.Mock };
+
+  const user = { id: 'creator-123', role: Role.creator };
+
+  const csvFile = (...lines: string[]) =>
+    ({
+      originalname: 'quarter.csv',
+      mimetype: 'text/csv',
+      buffer: Buffer.from(lines.join('\r\n')),
+    } as Express.Multer.File);
+
+  const icsFile = (...lines: string[]) =>
+    ({
+      originalname: 'quarter.ics',
+      mimetype: 'text/calendar',
+      buffer: Buffer.from(
+        ['BEGIN:VCALENDAR', ...lines, 'END:VCALENDAR'].join('\r\n'),
+      ),
+    } as Express.Multer.File);
+
+  const header =
+    'Title,Description,Date,Start Time,End Time,Location,Host,Contact,Capacity,Tags';
+
+  beforeEach(async () => {
+    activityRepository = { find: jest.fn().mockResolvedValue([]) };
+    activityService = {
+      createActivities: jest.fn((dtos) =>
+        Promise.resolve(
+          dtos.map((dto, index) => ({
+            id: `activity-${index + 1}`,
+            eventTitle: dto.eventTitle,
+            startDate: new Date(dto.startDate),
+          })),
+        ),
+      ),
+    };
+    tagService = {
+      resolveTags: jest.fn((names: string[]) => {
+        const unknown = names.filter((name) => name.toLowerCase() === 'nope');
+        return unknown.length
+          ? Promise.reject(
+              new BadRequestException(`Unknown tags: ${unknown.join(', ')}`),
+            )
+          : Promise.resolve(
+              names.map((name) => ({ name: name.toUpperCase() })),
+            );
+      }),
+    };
+    configService = { get: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImportService,
+        { provide: getRepositoryToken(Activity), useValue: activityRepository },
+        { provide: ActivityService, useValue: activityService },
+        { provide: TagService, useValue: tagService },
+        { provide: ConfigService, useValue: configService },
+      ],
+    }).compile();
+
+    service = module.get<ImportService>(ImportService);
+  });
+
+  describe('previewImport', () => {
+    it('maps CSV columns from their headers and reads times in Pacific time', async () => {
+      const preview = await service.previewImport(
+        csvFile(
+          header,
+          'Club Fair,Meet the clubs,1/15/2025,6:00 PM,8:00 PM,Gym,Student Life,life@example.edu,unlimited,social',
+        ),
+        {},
+      );
+
+      expect(preview.format).toBe('csv');
+      expect(preview.mapping).toMatchObject({
+        Title: 'eventTitle',
+        Date: 'date',
+        'Start Time': 'startTime',
+        Capacity: 'eventCapacity',
+      });
+      expect(preview.rows).toEqual([
+        {
+          row: 2,
+          fields: expect.objectContaining({
+            eventTitle: 'Club Fair',
+            startDate: '2025-01-16T02:00:00.000Z',
+            endDate: '2025-01-16T04:00:00.000Z',
+            eventTags: ['SOCIAL'],
+            publicationStatus: PublicationStatus.published,
+          }),
+          errors: [],
+          warnings: [],
+        },
+      ]);
+    });
+
+    it('reports every create event rule a row breaks', async () => {
+      const { rows } = await service.previewImport(
+        csvFile(
+          header,
+          'Club Fair,,1/15/2025,8:00 PM,6:00 PM,Gym,Student Life,not-an-email,0,nope',
+          'Study Night,Bring notes,someday,6:00 PM,,Library,Tutoring,t@example.edu,20,study',
+        ),
+        {},
+      );
+
+      expect(rows[0].errors).toEqual(
+        expect.arrayContaining([
+          'eventDescription should not be empty',
+          'endDate must be after startDate',
+          'eventContact must be an email',
+          'eventCapacity must be a positive whole number or "unlimited".',
+          'Unknown tags: nope',
+        ]),
+      );
+      expect(rows[1].errors).toContain(
+        'Could not read start date "someday 6:00 PM"',
+      );
+      expect(rows[1].errors).not.toContain(
+        'startDate must be a valid ISO 8601 datetime string',
+      );
+    });
+
+    it('applies the given mapping, defaults and time zone', async () => {
+      const { rows } = await service.previewImport(
+        csvFile(
+          'Name,When,Until',
+          'Club Fair,2025-01-15 18:00,2025-01-15 20:00',
+        ),
+        {
+          mapping: JSON.stringify({
+            Name: 'eventTitle',
+            When: 'startDate',
+            Until: 'endDate',
+          }),
+          defaults: JSON.stringify({
+            eventDescription: 'From the quarterly calendar',
+            eventLocation: 'Campus',
+            eventHost: 'Student Life',
+            eventContact: 'life@example.edu',
+            eventCapacity: 'unlimited',
+            eventTags: ['social', 'clubs'],
+          }),
+          timeZone: 'America/New_York',
+          publicationStatus: PublicationStatus.draft,
+        },
+      );
+
+      expect(rows[0].errors).toEqual([]);
+      expect(rows[0].fields).toMatchObject({
+        startDate: '2025-01-15T23:00:00.000Z',
+        eventTags: ['SOCIAL', 'CLUBS'],
+        publicationStatus: PublicationStatus.draft,
+      });
+    });
+
+    it('reads iCalendar events and skips cancelled ones', async () => {
+      const { format, rows } = await service.previewImport(
+        icsFile(
+          'BEGIN:VEVENT',
+          'SUMMARY:Club Fair',
+          'DESCRIPTION:Meet the clubs',
+          'DTSTART:20250115T180000Z',
+          'DTEND:20250115T200000Z',
+          'LOCATION:Gym',
+          'ORGANIZER;CN=Student Life:mailto:life@example.edu',
+          'CATEGORIES:Social',
+          'RRULE:FREQ=WEEKLY;COUNT=3',
+          'END:VEVENT',
+          'BEGIN:VEVENT',
+          'SUMMARY:Old Event',
+          'STATUS:CANCELLED',
+          'END:VEVENT',
+        ),
+        { defaults: '{"eventCapacity":"unlimited"}' },
+      );
+
+      expect(format).toBe('ics');
+      expect(rows[0]).toMatchObject({
+        row: 1,
+        errors: [],
+        warnings: [
+          'Only the first occurrence of this repeating event is imported',
+        ],
+      });
+      expect(rows[1].errors).toContain('Cancelled in the calendar file');
+    });
+
+    it('flags rows that repeat the file or an existing event', async () => {
+      const row =
+        'Club Fair,Meet the clubs,1/15/2025,6:00 PM,8:00 PM,Gym,Student Life,life@example.edu,unlimited,social';
+      activityRepository.find.mockResolvedValueOnce([
+        {
+          eventTitle: 'Study Night',
+          startDate: new Date('2025-01-17T02:00:00Z'),
+        },
+      ]);
+
+      const { rows } = await service.previewImport(
+        csvFile(
+          header,
+          row,
+          row,
+          row.replace('Club Fair', 'Study Night').replace('1/15', '1/16'),
+        ),
+        {},
+      );
+
+      expect(rows.map((r) => r.errors)).toEqual([
+        [],
+        ['Same title and start time as row 2'],
+        ['An event with this title already starts at this time'],
+      ]);
+    });
+
+    it('rejects unsupported files and options', async () => {
+      await expect(
+        service.previewImport(
+          {
+            originalname: 'quarter.xlsx',
+            buffer: Buffer.from(''),
+          } as Express.Multer.File,
+          {},
+        ),
+      ).rejects.toThrow('Upload a .csv or .ics file');
+      await expect(service.previewImport(csvFile(header), {})).rejects.toThrow(
+        'The file has no events to import',
+      );
+      await expect(
+        service.previewImport(csvFile(header, 'a'), {
+          mapping: '{"Title":"owner"}',
+        }),
+      ).rejects.toThrow('Unknown import field "owner"');
+      await expect(
+        service.previewImport(csvFile(header, 'a'), { defaults: '[1]' }),
+      ).rejects.toThrow('defaults must be a JSON object');
+      await expect(
+        service.previewImport(csvFile(header, 'a'), { timeZone: 'Mars/Base' }),
+      ).rejects.toThrow('Unknown time zone "Mars/Base"');
+    });
+
+    it('limits how many events one file can hold', async () => {
+      const rows = Array.from({ length: MAX_IMPORT_ROWS + 1 }, () => 'a');
+
+      await expect(
+        service.previewImport(csvFile('Title', ...rows), {}),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('importEvents', () => {
+    it('creates the valid rows together and reports the skipped ones', async () => {
+      const result = await service.importEvents(
+        csvFile(
+          header,
+          'Club Fair,Meet the clubs,1/15/2025,6:00 PM,8:00 PM,Gym,Student Life,life@example.edu,unlimited,social',
+          'Broken,,,,,,,,,',
+          'Study Night,Bring notes,1/16/2025,6:00 PM,8:00 PM,Library,Tutoring,t@example.edu,20,study',
+        ),
+        {},
+        user,
+      );
+
+      expect(activityService.createActivities).toHaveBeenCalledTimes(1);
+      const [dtos, userId, role] =
+        activityService.createActivities.mock.calls[0];
+      expect(dtos.map((dto) => dto.eventTitle)).toEqual([
+        'Club Fair',
+        'Study Night',
+      ]);
+      expect(userId).toBe('creator-123');
+      expect(role).toBe(Role.creator);
+
+      expect(result.created).toEqual([
+        {
+          row: 2,
+          id: 'activity-1',
+          eventTitle: 'Club Fair',
+          startDate: new Date('2025-01-16T02:00:00Z'),
+        },
+        {
+          row: 4,
+          id: 'activity-2',
+          eventTitle: 'Study Night',
+          startDate: new Date('2025-01-17T02:00:00Z'),
+        },
+      ]);
+      expect(result.skipped).toEqual([
+        { row: 3, eventTitle: 'Broken', errors: expect.any(Array) },
+      ]);
+    });
+
+    it('creates nothing when every row is skipped', async () => {
+      const result = await service.importEvents(
+        csvFile(header, 'Broken,,,,,,,,,'),
+        {},
+        user,
+      );
+
+      expect(activityService.createActivities).not.toHaveBeenCalled();
+      expect(result.created).toEqual([]);
+      expect(result.skipped).toHaveLength(1);
+    });
+
+    it('passes room conflicts on to the caller', async () => {
+      activityService.createActivities.mockRejectedValueOnce(
+        new ConflictException({ conflicts: [], canOverride: false }),
+      );
+
+      await expect(
+        service.importEvents(
+          csvFile(
+            header,
+            'Club Fair,Meet the clubs,1/15/2025,6:00 PM,8:00 PM,Gym,Student Life,life@example.edu,unlimited,social',
+          ),
+          {},
+          user,
+        ),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+});
@@ -0,0 +1,390 @@
+import {
+  BadRequestException,
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+import { Express } from 'express';
+import {
+  Activity,
+  PublicationStatus,
+} from '../../activity/entities/activity.entity';
+import { CreateActivityDto } from '../../activity/dto/create-activity.dto';
+import { ActivityService } from '../../activity/services/activity/activity.service';
+import { TagService } from '../../tag/services/tag.service';
+import { EventActor } from '../../collaborator/utils/permissions.util';
+import { parseCalendar } from '../../calendar/utils/ics.util';
+import { ImportEventsDto } from '../dto/import-events.dto';
+import { parseCsv } from '../../common/csv.util';
+import { isTimeZone } from '../../common/time-zone.util';
+import { DEFAULT_IMPORT_TIME_ZONE } from '../utils/import-date.util';
+import {
+  ColumnMapping,
+  csvRowToValues,
+  icsEventToValues,
+  IMPORT_FIELDS,
+  ImportField,
+  ImportValues,
+  suggestMapping,
+  toEventFields,
+} from '../utils/import-row.util';
+
+export const MAX_IMPORT_FILE_BYTES = 2 * 1024 * 1024;
+export const MAX_IMPORT_ROWS = 500;
+
+export type ImportFormat = 'csv' | 'ics';
+
+export interface ImportRowResult {
+  // CSV: the spreadsheet row, so the first row after the headers is 2.
+  // iCalendar: the position of the event in the file, starting at 1.
+  row: number;
+  // The create event request the row turns into
+  fields: Record<string, unknown>;
+  // Reasons the row can't be imported; empty when it will be created
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ImportPreview {
+  format: ImportFormat;
+  // CSV headers and the mapping applied to them; empty for iCalendar files
+  headers: string[];
+  mapping: ColumnMapping;
+  rows: ImportRowResult[];
+}
+
+export interface ImportResult {
+  created: { row: number; id: string; eventTitle: string; startDate: Date }[];
+  skipped: { row: number; eventTitle?: string; errors: string[] }[];
+}
+
+interface ImportOptions {
+  mapping?: ColumnMapping;
+  defaults: ImportValues;
+  timeZone: string;
+  publicationStatus: PublicationStatus;
+}
+
+interface RawRow {
+  row: number;
+  values: ImportValues;
+  errors: string[];
+  warnings: string[];
+}
+
+@Injectable()
+export class ImportService {
+  constructor(
+    @InjectRepository(Activity)
+    private readonly activityRepository: Repository<Activity>,
+    private readonly activityService: ActivityService,
+    private readonly tagService: TagService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // ----------------- Preview Import ----------------- \\
+  // Reads a CSV or iCalendar file and checks every row the way creating it
+  // would, without saving anything
+  async previewImport(
+    file: Express.Multer.File,
+    importEventsDto: ImportEventsDto,
+  ): Promise<ImportPreview> {
+    try {
+      const options = this.parseOptions(importEventsDto);
+      const format = this.detectFormat(file);
+      const text = file.buffer.toString('utf8');
+
+      let headers: string[] = [];
+      let mapping: ColumnMapping = {};
+      let rawRows: RawRow[];
+      if (format === 'csv') {
+        const [headerRow = [], ...rows] = parseCsv(text);
+        headers = headerRow.map((header) => header.trim());
+        mapping = options.mapping ?? suggestMapping(headers);
+        rawRows = rows.map((cells, index) => ({
+          row: index + 2,
+          values: csvRowToValues(cells, headers, mapping),
+          errors: [],
+          warnings: [],
+        }));
+      } else {
+        rawRows = parseCalendar(text).map((event, index) => {
+          const { values, warnings, isCancelled } = icsEventToValues(
+            event,
+            options.timeZone,
+          );
+          return {
+            row: index + 1,
+            values,
+            errors: isCancelled ? ['Cancelled in the calendar file'] : [],
+            warnings,
+          };
+        });
+      }
+
+      if (rawRows.length === 0) {
+        throw new BadRequestException('The file has no events to import');
+      }
+      if (rawRows.length > MAX_IMPORT_ROWS) {
+        throw new BadRequestException(
+          `Import at most ${MAX_IMPORT_ROWS} events at a time`,
+        );
+      }
+
+      const rows: ImportRowResult[] = [];
+      for (const rawRow of rawRows) {
+        rows.push(await this.checkRow(rawRow, options));
+      }
+      await this.flagDuplicates(rows);
+
+      return { format, headers, mapping, rows };
+    } catch (error) {
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error reading import file',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Import Events ----------------- \\
+  // Creates the rows the preview accepts in one transaction and reports the
+  // rest as skipped
+  async importEvents(
+    file: Express.Multer.File,
+    importEventsDto: ImportEventsDto,
+    user: EventActor,
+  ): Promise<ImportResult> {
+    try {
+      const { rows } = await this.previewImport(file, importEventsDto);
+      const valid = rows.filter((row) => row.errors.length === 0);
+
+      const activities = valid.length
+        ? await this.activityService.createActivities(
+            valid.map(
+              (row) =>
+                plainToInstance(
+                  CreateActivityDto,
+                  row.fields,
+                ) as CreateActivityDto,
+            ),
+            user.id,
+            user.role,
+          )
+        : [];
+
+      return {
+        created: activities.map((activity, index) => ({
+          row: valid[index].row,
+          id: activity.id,
+          eventTitle: activity.eventTitle,
+          startDate: activity.startDate,
+        })),
+        skipped: rows
+          .filter((row) => row.errors.length > 0)
+          .map((row) => ({
+            row: row.row,
+            eventTitle: row.fields.eventTitle as string | undefined,
+            errors: row.errors,
+          })),
+      };
+    } catch (error) {
+      if (
+        error instanceof BadRequestException ||
+        error instanceof ConflictException
+      ) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error importing events',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /** Reads the JSON form fields and falls back to the configured zone */
+  private parseOptions(importEventsDto: ImportEventsDto): ImportOptions {
+    const mapping = this.parseJsonObject(importEventsDto.mapping, 'mapping');
+    Object.values(mapping ?? {}).forEach((field) =>
+      this.assertImportField(field),
+    );
+
+    const defaults: ImportValues = {};
+    Object.entries(
+      this.parseJsonObject(importEventsDto.defaults, 'defaults') ?? {},
+    ).forEach(([field, value]) => {
+      this.assertImportField(field);
+      const text = Array.isArray(value) ? value.join(', ') : value;
+      if (typeof text !== 'string' && typeof text !== 'number') {
+        throw new BadRequestException(`defaults.${field} must be text`);
+      }
+      if (String(text).trim()) {
+        defaults[field as ImportField] = String(text).trim();
+      }
+    });
+
+    const timeZone =
+      importEventsDto.timeZone ||
+      this.configService.get<string>('EVENT_IMPORT_TIME_ZONE') ||
+      DEFAULT_IMPORT_TIME_ZONE;
+    if (!isTimeZone(timeZone)) {
+      throw new BadRequestException(`Unknown time zone "${timeZone}"`);
+    }
+
+    return {
+      mapping: mapping as ColumnMapping | undefined,
+      defaults,
+      timeZone,
+      publicationStatus:
+        importEventsDto.publicationStatus ?? PublicationStatus.published,
+    };
+  }
+
+  private parseJsonObject(
+    value: string | undefined,
+    name: string,
+  ): Record<string, unknown> | undefined {
+    if (!value) {
+      return undefined;
+    }
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      throw new BadRequestException(`${name} must be valid JSON`);
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new BadRequestException(`${name} must be a JSON object`);
+    }
+    return parsed as Record<string, unknown>;
+  }
+
+  private assertImportField(field: unknown): void {
+    if (!IMPORT_FIELDS.includes(field as ImportField)) {
+      throw new BadRequestException(`Unknown import field "${field}"`);
+    }
+  }
+
+  private detectFormat(file?: Express.Multer.File): ImportFormat {
+    const name = file?.originalname?.toLowerCase() ?? '';
+    if (name.endsWith('.csv') || file?.mimetype === 'text/csv') {
+      return 'csv';
+    }
+    if (name.endsWith('.ics') || file?.mimetype === 'text/calendar') {
+      return 'ics';
+    }
+    throw new BadRequestException('Upload a .csv or .ics file');
+  }
+
+  /**
+   * Validates a row against the create event rules, including that it ends
+   * after it starts and that its tags exist.
+   */
+  private async checkRow(
+    rawRow: RawRow,
+    options: ImportOptions,
+  ): Promise<ImportRowResult> {
+    const { fields, errors: readErrors } = toEventFields(
+      { ...options.defaults, ...rawRow.values },
+      options.timeZone,
+    );
+    fields.publicationStatus = options.publicationStatus;
+
+    const validationErrors = await validate(
+      plainToInstance(CreateActivityDto, fields),
+    );
+    const errors = [
+      ...rawRow.errors,
+      ...Object.values(readErrors),
+      ...this.flattenErrors(validationErrors)
+        .filter(({ property }) => !readErrors[property])
+        .map(({ message }) => message),
+    ];
+
+    const tagsAreValid = !validationErrors.some(
+      ({ property }) => property === 'eventTags',
+    );
+    if (tagsAreValid) {
+      try {
+        const tags = await this.tagService.resolveTags(
+          fields.eventTags as string[],
+        );
+        fields.eventTags = tags.map((tag) => tag.name);
+      } catch (error) {
+        if (!(error instanceof BadRequestException)) {
+          throw error;
+        }
+        errors.push(error.message);
+      }
+    }
+
+    return {
+      row: rawRow.row,
+      fields,
+      errors,
+      warnings: rawRow.warnings,
+    };
+  }
+
+  private flattenErrors(
+    errors: ValidationError[],
+    parent?: string,
+  ): { property: string; message: string }[] {
+    return errors.flatMap((error) => {
+      const property = parent ?? error.property;
+      return [
+        ...Object.values(error.constraints ?? {}).map((message) => ({
+          property,
+          message,
+        })),
+        ...this.flattenErrors(error.children ?? [], property),
+      ];
+    });
+  }
+
+  /**
+   * Skips rows that repeat an earlier row of the file or an existing event,
+   * matching on title and start time, so importing a file twice is safe.
+   */
+  private async flagDuplicates(rows: ImportRowResult[]): Promise<void> {
+    const candidates = rows.filter((row) => row.errors.length === 0);
+    if (candidates.length === 0) {
+      return;
+    }
+
+    const keyOf = (title: unknown, start: unknown) =>
+      `${title}|${new Date(start as string | Date).toISOString()}`;
+    const existing = await this.activityRepository.find({
+      select: { id: true, eventTitle: true, startDate: true },
+      where: candidates.map((row) => ({
+        eventTitle: row.fields.eventTitle as string,
+        startDate: new Date(row.fields.startDate as string),
+      })),
+    });
+    const existingKeys = new Set(
+      existing.map((activity) =>
+        keyOf(activity.eventTitle, activity.startDate),
+      ),
+    );
+
+    const seen = new Map<string, number>();
+    candidates.forEach((row) => {
+      const key = keyOf(row.fields.eventTitle, row.fields.startDate);
+      if (existingKeys.has(key)) {
+        row.errors.push('An event with this title already starts at this time');
+      } else if (seen.has(key)) {
+        row.errors.push(`Same title and start time as row ${seen.get(key)}`);
+      } else {
+        seen.set(key, row.row);
+      }
+    });
+  }
+}
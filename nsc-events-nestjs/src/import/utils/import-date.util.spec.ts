@@ -0,0 +1,79 @@
+import {
+  parseDatePart,
+  parseImportDate,
+  parseTimePart,
+} from './import-date.util';
+
+describe('import-date.util', () => {
+  const timeZone = 'America/Los_Angeles';
+
+  describe('parseDatePart', () => {
+    it('reads ISO and US dates', () => {
+      expect(parseDatePart('2025-01-15')).toEqual({
+        year: 2025,
+        month: 1,
+        day: 15,
+      });
+      expect(parseDatePart('1/5/2025')).toEqual({
+        year: 2025,
+        month: 1,
+        day: 5,
+      });
+    });
+
+    it('rejects dates that do not exist', () => {
+      expect(parseDatePart('2025-02-30')).toBeNull();
+      expect(parseDatePart('next friday')).toBeNull();
+    });
+  });
+
+  describe('parseTimePart', () => {
+    it('reads 24 and 12 hour times', () => {
+      expect(parseTimePart('18:30')).toEqual({
+        hour: 18,
+        minute: 30,
+        second: 0,
+      });
+      expect(parseTimePart('6:30 PM')).toEqual({
+        hour: 18,
+        minute: 30,
+        second: 0,
+      });
+      expect(parseTimePart('12am')).toEqual({ hour: 0, minute: 0, second: 0 });
+    });
+
+    it('rejects out of range and bare numbers', () => {
+      expect(parseTimePart('25:00')).toBeNull();
+      expect(parseTimePart('13 pm')).toBeNull();
+      expect(parseTimePart('6')).toBeNull();
+    });
+  });
+
+  describe('parseImportDate', () => {
+    it('keeps values with an offset as they are', () => {
+      expect(parseImportDate('2025-01-15T18:00:00Z', timeZone)).toEqual(
+        new Date('2025-01-15T18:00:00Z'),
+      );
+      expect(parseImportDate('2025-01-15T10:00:00-05:00', timeZone)).toEqual(
+        new Date('2025-01-15T15:00:00Z'),
+      );
+    });
+
+    it('reads values without an offset in the given zone', () => {
+      const expected = new Date('2025-01-16T02:00:00Z');
+      expect(parseImportDate('2025-01-15 18:00', timeZone)).toEqual(expected);
+      expect(parseImportDate('2025-01-15T18:00:00', timeZone)).toEqual(
+        expected,
+      );
+      expect(parseImportDate('1/15/2025 6:00 PM', timeZone)).toEqual(expected);
+      expect(parseImportDate('1/15/2025', timeZone)).toEqual(
+        new Date('2025-01-15T08:00:00Z'),
+      );
+    });
+
+    it('returns null for values it cannot read', () => {
+      expect(parseImportDate('Jan 15', timeZone)).toBeNull();
+      expect(parseImportDate('2025-01-15 at noon', timeZone)).toBeNull();
+    });
+  });
+});
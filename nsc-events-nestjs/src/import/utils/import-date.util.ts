@@ -0,0 +1,87 @@
+import {
+  DEFAULT_TIME_ZONE,
+  WallTime,
+  zonedTimeToUtc,
+} from '../../common/time-zone.util';
+
+// Spreadsheet dates and times without an offset are read in this zone
+export const DEFAULT_IMPORT_TIME_ZONE = DEFAULT_TIME_ZONE;
+
+/**
+ * Reads a calendar date as YYYY-MM-DD, YYYY/MM/DD or the US M/D/YYYY.
+ */
+export function parseDatePart(
+  value: string,
+): Pick<WallTime, 'year' | 'month' | 'day'> | null {
+  const iso = value.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/);
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const [year, month, day] = iso
+    ? [iso[1], iso[2], iso[3]].map(Number)
+    : us
+    ? [us[3], us[1], us[2]].map(Number)
+    : [];
+  if (!year) {
+    return null;
+  }
+
+  // reject dates like 2/30 that Date.UTC would roll over
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return { year, month, day };
+}
+
+/**
+ * Reads a time of day in 24 hour (18:30, 18:30:00) or 12 hour (6:30 PM,
+ * 6pm) format.
+ */
+export function parseTimePart(
+  value: string,
+): Pick<WallTime, 'hour' | 'minute' | 'second'> | null {
+  const match = value
+    .trim()
+    .match(/^(\d{1,2})(?::(\d{2}))?(?::(\d{2}))?\s*([ap]\.?m\.?)?$/i);
+  if (!match || (!match[2] && !match[4])) {
+    return null;
+  }
+
+  let hour = Number(match[1]);
+  const minute = Number(match[2] ?? 0);
+  const second = Number(match[3] ?? 0);
+  const meridiem = match[4]?.[0].toLowerCase();
+  if (meridiem) {
+    if (hour < 1 || hour > 12) {
+      return null;
+    }
+    hour = (hour % 12) + (meridiem === 'p' ? 12 : 0);
+  }
+  if (hour > 23 || minute > 59 || second > 59) {
+    return null;
+  }
+  return { hour, minute, second };
+}
+
+/**
+ * Reads a date with an optional time, e.g. "2025-01-15T18:00:00Z",
+ * "2025-01-15 18:00" or "1/15/2025 6:00 PM". Values without a UTC offset
+ * are read as wall clock times in the given zone, and a date alone means
+ * midnight. Returns null when the value can't be read.
+ */
+export function parseImportDate(value: string, timeZone: string): Date | null {
+  const trimmed = value.trim();
+  if (/(Z|[+-]\d{2}:?\d{2})$/i.test(trimmed) && trimmed.includes('T')) {
+    const date = new Date(trimmed);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const match = trimmed.match(/^(\S+?)(?:(?:T|,?\s+)(.+))?$/);
+  const date = match && parseDatePart(match[1]);
+  const time = match?.[2]
+    ? parseTimePart(match[2])
+    : { hour: 0, minute: 0, second: 0 };
+  if (!date || !time) {
+    return null;
+  }
+  return zonedTimeToUtc({ ...date, ...time }, timeZone);
+}
@@ -0,0 +1,176 @@
+import { parseCalendar } from '../../calendar/utils/ics.util';
+import {
+  csvRowToValues,
+  icsEventToValues,
+  suggestMapping,
+  toEventFields,
+} from './import-row.util';
+
+describe('import-row.util', () => {
+  const timeZone = 'America/Los_Angeles';
+
+  describe('suggestMapping', () => {
+    it('matches field names and common headers', () => {
+      expect(
+        suggestMapping(['Event Title', 'Date', 'Start Time', 'Room', 'Budget']),
+      ).toEqual({
+        'Event Title': 'eventTitle',
+        Date: 'date',
+        'Start Time': 'startTime',
+        Room: 'eventLocation',
+      });
+    });
+
+    it('maps only the first column that looks like a field', () => {
+      expect(suggestMapping(['Title', 'Name'])).toEqual({
+        Title: 'eventTitle',
+      });
+    });
+  });
+
+  describe('csvRowToValues', () => {
+    it('reads mapped cells and leaves out blank ones', () => {
+      expect(
+        csvRowToValues(
+          [' Club Fair ', '', 'ignored'],
+          ['Title', 'Location', 'Budget'],
+          { Title: 'eventTitle', Location: 'eventLocation' },
+        ),
+      ).toEqual({ eventTitle: 'Club Fair' });
+    });
+  });
+
+  describe('icsEventToValues', () => {
+    const calendar = (...lines: string[]) =>
+      parseCalendar(['BEGIN:VEVENT', ...lines, 'END:VEVENT'].join('\r\n'))[0];
+
+    it('reads event details and UTC times', () => {
+      const { values, warnings, isCancelled } = icsEventToValues(
+        calendar(
+          'SUMMARY:Club Fair\\, Spring',
+          'DTSTART:20250115T180000Z',
+          'DTEND:20250115T200000Z',
+          'LOCATION:Gym',
+          'CATEGORIES:Social,Clubs',
+          'ORGANIZER;CN=Student Life:mailto:life@example.edu',
+        ),
+        timeZone,
+      );
+
+      expect(values).toEqual({
+        eventTitle: 'Club Fair, Spring',
+        startDate: '2025-01-15T18:00:00.000Z',
+        endDate: '2025-01-15T20:00:00.000Z',
+        eventLocation: 'Gym',
+        eventTags: 'Social,Clubs',
+        eventHost: 'Student Life',
+        eventContact: 'life@example.edu',
+      });
+      expect(warnings).toEqual([]);
+      expect(isCancelled).toBe(false);
+    });
+
+    it('reads local times in their zone and falls back for unknown ones', () => {
+      const { values, warnings } = icsEventToValues(
+        calendar(
+          'DTSTART;TZID=America/New_York:20250115T100000',
+          'DTEND;TZID=Pacific Standard Time:20250115T100000',
+        ),
+        timeZone,
+      );
+
+      expect(values.startDate).toBe('2025-01-15T15:00:00.000Z');
+      expect(values.endDate).toBe('2025-01-15T18:00:00.000Z');
+      expect(values.timeZone).toBe('America/New_York');
+      expect(warnings).toEqual([
+        `Unknown time zone "Pacific Standard Time", times read as ${timeZone}`,
+      ]);
+    });
+
+    it('ends events without DTEND after their duration or a whole day', () => {
+      expect(
+        icsEventToValues(
+          calendar('DTSTART:20250115T180000Z', 'DURATION:PT1H30M'),
+          timeZone,
+        ).values.endDate,
+      ).toBe('2025-01-15T19:30:00.000Z');
+      expect(
+        icsEventToValues(calendar('DTSTART;VALUE=DATE:20250115'), timeZone)
+          .values,
+      ).toEqual({
+        startDate: '2025-01-15T08:00:00.000Z',
+        endDate: '2025-01-16T08:00:00.000Z',
+      });
+    });
+
+    it('flags repeating and cancelled events', () => {
+      const { warnings, isCancelled } = icsEventToValues(
+        calendar('RRULE:FREQ=WEEKLY;COUNT=4', 'STATUS:CANCELLED'),
+        timeZone,
+      );
+
+      expect(warnings).toEqual([
+        'Only the first occurrence of this repeating event is imported',
+      ]);
+      expect(isCancelled).toBe(true);
+    });
+  });
+
+  describe('toEventFields', () => {
+    it('combines a date with start and end times and splits lists', () => {
+      expect(
+        toEventFields(
+          {
+            eventTitle: 'Club Fair',
+            date: '1/15/2025',
+            startTime: '6:00 PM',
+            endTime: '8:00 PM',
+            eventTags: 'Social; Clubs,',
+            eventCapacity: '50',
+          },
+          timeZone,
+        ),
+      ).toEqual({
+        fields: {
+          timeZone,
+          eventTitle: 'Club Fair',
+          eventTags: ['Social', 'Clubs'],
+          eventCapacity: '50',
+          startDate: '2025-01-16T02:00:00.000Z',
+          endDate: '2025-01-16T04:00:00.000Z',
+        },
+        errors: {},
+      });
+    });
+
+    it('reports dates it cannot read by field', () => {
+      expect(
+        toEventFields(
+          { startDate: 'next Friday', endDate: '2025-01-15 20:00' },
+          timeZone,
+        ),
+      ).toEqual({
+        fields: { timeZone, endDate: '2025-01-16T04:00:00.000Z' },
+        errors: { startDate: 'Could not read start date "next Friday"' },
+      });
+    });
+
+    it('reads the dates of a row in its own time zone', () => {
+      expect(
+        toEventFields(
+          { startDate: '2025-01-15 10:00', timeZone: 'America/New_York' },
+          timeZone,
+        ),
+      ).toEqual({
+        fields: {
+          timeZone: 'America/New_York',
+          startDate: '2025-01-15T15:00:00.000Z',
+        },
+        errors: {},
+      });
+      expect(toEventFields({ timeZone: 'Eastern' }, timeZone).errors).toEqual({
+        timeZone: 'Unknown time zone "Eastern"',
+      });
+    });
+  });
+});
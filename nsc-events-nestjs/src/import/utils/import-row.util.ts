@@ -0,0 +1,361 @@
+import {
+  IcsEvent,
+  IcsProperty,
+  unescapeText,
+} from '../../calendar/utils/ics.util';
+import { isTimeZone, zonedTimeToUtc } from '../../common/time-zone.util';
+import { parseDatePart, parseImportDate } from './import-date.util';
+
+// Event fields a CSV column can be mapped to. A date column can be combined
+// with startTime and endTime columns instead of full start and end dates.
+export const IMPORT_FIELDS = [
+  'eventTitle',
+  'eventDescription',
+  'startDate',
+  'endDate',
+  'date',
+  'startTime',
+  'endTime',
+  'timeZone',
+  'eventLocation',
+  'eventHost',
+  'eventContact',
+  'eventCapacity',
+  'eventTags',
+  'eventMeetingURL',
+  'eventRegistration',
+  'eventSchedule',
+  'eventSpeakers',
+  'eventPrerequisites',
+  'eventCancellationPolicy',
+  'eventPrivacy',
+  'eventAccessibility',
+  'eventNote',
+  'eventCoverPhoto',
+  'eventDocument',
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+// CSV header -> event field; unmapped columns are ignored
+export type ColumnMapping = Record<string, ImportField>;
+
+// Raw text of one row per event field
+export type ImportValues = Partial<Record<ImportField, string>>;
+
+// Fields holding a list, written as comma or semicolon separated text
+const LIST_FIELDS: ImportField[] = ['eventTags', 'eventSpeakers'];
+
+// Common spreadsheet headers, compared after normalizeHeader
+const HEADER_ALIASES: Record<string, ImportField> = {
+  title: 'eventTitle',
+  name: 'eventTitle',
+  event: 'eventTitle',
+  eventname: 'eventTitle',
+  details: 'eventDescription',
+  start: 'startDate',
+  starts: 'startDate',
+  startdatetime: 'startDate',
+  end: 'endDate',
+  ends: 'endDate',
+  enddatetime: 'endDate',
+  day: 'date',
+  eventdate: 'date',
+  time: 'startTime',
+  from: 'startTime',
+  to: 'endTime',
+  tz: 'timeZone',
+  zone: 'timeZone',
+  where: 'eventLocation',
+  room: 'eventLocation',
+  venue: 'eventLocation',
+  hostedby: 'eventHost',
+  organizer: 'eventHost',
+  club: 'eventHost',
+  email: 'eventContact',
+  contactemail: 'eventContact',
+  seats: 'eventCapacity',
+  tag: 'eventTags',
+  category: 'eventTags',
+  categories: 'eventTags',
+  meetinglink: 'eventMeetingURL',
+  zoom: 'eventMeetingURL',
+  registrationlink: 'eventRegistration',
+  rsvp: 'eventRegistration',
+  agenda: 'eventSchedule',
+  speaker: 'eventSpeakers',
+  notes: 'eventNote',
+  image: 'eventCoverPhoto',
+  coverimage: 'eventCoverPhoto',
+};
+
+/** Lower cases a header and drops everything but letters and digits */
+const normalizeHeader = (header: string): string =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const aliasFor = (header: string): ImportField | undefined => {
+  const normalized = normalizeHeader(header);
+  return (
+    IMPORT_FIELDS.find(
+      (field) =>
+        normalizeHeader(field) === normalized ||
+        normalizeHeader(field.replace(/^event/, '')) === normalized,
+    ) ?? HEADER_ALIASES[normalized]
+  );
+};
+
+/**
+ * Guesses which event field each CSV column holds from its header. When
+ * several columns look like the same field, the first one wins.
+ */
+export function suggestMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<ImportField>();
+  headers.forEach((header) => {
+    const field = aliasFor(header);
+    if (field && !used.has(field)) {
+      mapping[header] = field;
+      used.add(field);
+    }
+  });
+  return mapping;
+}
+
+/**
+ * Reads the mapped cells of a CSV row. Blank cells are left out so defaults
+ * can fill them in.
+ */
+export function csvRowToValues(
+  cells: string[],
+  headers: string[],
+  mapping: ColumnMapping,
+): ImportValues {
+  const values: ImportValues = {};
+  headers.forEach((header, index) => {
+    const field = mapping[header];
+    const cell = cells[index]?.trim();
+    if (field && cell && values[field] === undefined) {
+      values[field] = cell;
+    }
+  });
+  return values;
+}
+
+export interface IcsEventValues {
+  values: ImportValues;
+  warnings: string[];
+  // Set for events the calendar marks as cancelled
+  isCancelled: boolean;
+}
+
+/**
+ * Reads a DTSTART or DTEND value: UTC times (20250115T180000Z), local times
+ * in their TZID zone or the default one, and all-day dates (20250115).
+ */
+function icsDateToIso(
+  property: IcsProperty,
+  timeZone: string,
+  warnings: string[],
+): string | undefined {
+  const match = property.value
+    .trim()
+    .match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/i);
+  if (!match) {
+    return property.value;
+  }
+
+  const [, year, month, day, hour = '0', minute = '0', second = '0', utc] =
+    match;
+  if (!parseDatePart(`${year}-${month}-${day}`)) {
+    return property.value;
+  }
+  const wall = {
+    year: Number(year),
+    month: Number(month),
+    day: Number(day),
+    hour: Number(hour),
+    minute: Number(minute),
+    second: Number(second),
+  };
+  if (utc) {
+    return new Date(
+      Date.UTC(
+        wall.year,
+        wall.month - 1,
+        wall.day,
+        wall.hour,
+        wall.minute,
+        wall.second,
+      ),
+    ).toISOString();
+  }
+
+  const zone = property.params.TZID;
+  if (zone && !isTimeZone(zone)) {
+    warnings.push(`Unknown time zone "${zone}", times read as ${timeZone}`);
+  }
+  return zonedTimeToUtc(
+    wall,
+    zone && isTimeZone(zone) ? zone : timeZone,
+  ).toISOString();
+}
+
+/** Reads an RFC 5545 duration such as PT1H30M or P1D, in milliseconds */
+function parseDuration(value: string): number | undefined {
+  const match = value
+    .trim()
+    .match(
+      /^\+?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/,
+    );
+  if (!match) {
+    return undefined;
+  }
+  const [weeks, days, hours, minutes, seconds] = match
+    .slice(1)
+    .map((part) => Number(part ?? 0));
+  return (
+    ((((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000
+  );
+}
+
+/**
+ * Reads the event fields of a VEVENT. Events without a DTEND end after
+ * their DURATION, or after one day for all-day events.
+ */
+export function icsEventToValues(
+  event: IcsEvent,
+  timeZone: string,
+): IcsEventValues {
+  const warnings: string[] = [];
+  const values: ImportValues = {};
+  const text = (name: string) => {
+    const value = event[name] && unescapeText(event[name].value).trim();
+    return value || undefined;
+  };
+
+  values.eventTitle = text('SUMMARY');
+  values.eventDescription = text('DESCRIPTION');
+  values.eventLocation = text('LOCATION');
+  values.eventMeetingURL = event.URL?.value.trim() || undefined;
+  values.eventTags = text('CATEGORIES');
+
+  if (event.ORGANIZER) {
+    values.eventHost = event.ORGANIZER.params.CN?.trim() || undefined;
+    values.eventContact =
+      event.ORGANIZER.value.replace(/^mailto:/i, '').trim() || undefined;
+  }
+  values.eventContact = values.eventContact ?? text('CONTACT');
+
+  if (event.DTSTART) {
+    values.startDate = icsDateToIso(event.DTSTART, timeZone, warnings);
+    const zone = event.DTSTART.params.TZID;
+    if (zone && isTimeZone(zone)) {
+      values.timeZone = zone;
+    }
+  }
+  if (event.DTEND) {
+    values.endDate = icsDateToIso(event.DTEND, timeZone, warnings);
+  } else if (values.startDate && !isNaN(Date.parse(values.startDate))) {
+    const isAllDay = /^\d{8}$/.test(event.DTSTART.value.trim());
+    const duration = event.DURATION
+      ? parseDuration(event.DURATION.value)
+      : isAllDay
+      ? 24 * 60 * 60 * 1000
+      : undefined;
+    if (duration) {
+      values.endDate = new Date(
+        Date.parse(values.startDate) + duration,
+      ).toISOString();
+    }
+  }
+
+  if (event.RRULE) {
+    warnings.push(
+      'Only the first occurrence of this repeating event is imported',
+    );
+  }
+
+  Object.keys(values).forEach((key) => {
+    if (values[key] === undefined) {
+      delete values[key];
+    }
+  });
+  return {
+    values,
+    warnings: [...new Set(warnings)],
+    isCancelled: event.STATUS?.value.trim().toUpperCase() === 'CANCELLED',
+  };
+}
+
+export interface ImportedFields {
+  // Shaped like the body of a create event request
+  fields: Record<string, unknown>;
+  // Problems reading a value, keyed by the event field they affect
+  errors: Record<string, string>;
+}
+
+/**
+ * Turns raw row values into create event fields. Dates without a UTC offset
+ * are read in the row's time zone or the given one, which becomes the event's
+ * zone, and a date column is combined with the start and end time columns.
+ */
+export function toEventFields(
+  values: ImportValues,
+  timeZone: string,
+): ImportedFields {
+  const {
+    date,
+    startTime,
+    endTime,
+    startDate,
+    endDate,
+    timeZone: rowZone,
+    ...rest
+  } = values;
+  const fields: Record<string, unknown> = {};
+  const errors: Record<string, string> = {};
+
+  if (rowZone && !isTimeZone(rowZone)) {
+    errors.timeZone = `Unknown time zone "${rowZone}"`;
+  } else if (rowZone) {
+    timeZone = rowZone;
+  }
+  fields.timeZone = timeZone;
+
+  Object.entries(rest).forEach(([field, value]) => {
+    fields[field] = LIST_FIELDS.includes(field as ImportField)
+      ? value
+          .split(/[,;]/)
+          .map((item) => item.trim())
+          .filter(Boolean)
+      : value;
+  });
+
+  const readDate = (
+    field: 'startDate' | 'endDate',
+    label: string,
+    value?: string,
+  ) => {
+    if (!value) {
+      return;
+    }
+    const parsed = parseImportDate(value, timeZone);
+    if (parsed) {
+      fields[field] = parsed.toISOString();
+    } else {
+      errors[field] = `Could not read ${label} "${value}"`;
+    }
+  };
+  readDate(
+    'startDate',
+    'start date',
+    startDate ?? (date && [date, startTime].filter(Boolean).join(' ')),
+  );
+  readDate(
+    'endDate',
+    'end date',
+    endDate ?? (date && endTime ? `${date} ${endTime}` : undefined),
+  );
+
+  return { fields, errors };
+}
@@ -2,9 +2,12 @@ import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
 import { ValidationPipe } from '@nestjs/common';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
+import { NestExpressApplication } from '@nestjs/platform-express';
+import { StorageDriver } from './storage/drivers/storage.driver';
+import { LocalStorageDriver } from './storage/drivers/local-storage.driver';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
 
   app.setGlobalPrefix('api');
   app.useGlobalPipes(new ValidationPipe());
@@ -17,6 +20,12 @@ async function bootstrap() {
     credentials: true,
   });
 
+  // Uploads kept on the local filesystem are served by the API itself
+  const storageDriver = app.get(StorageDriver);
+  if (storageDriver instanceof LocalStorageDriver) {
+    storageDriver.serve(app);
+  }
+
   // Swagger configuration
   const config = new DocumentBuilder()
     .setTitle('NSC Events API')
@@ -0,0 +1,79 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PassportModule } from '@nestjs/passport';
+import { ModerationController } from './moderation.controller';
+import { ModerationService } from '../services/moderation.service';
+
+const mockModerationService = {
+  getPendingActivities: jest.fn(),
+  approveActivity: jest.fn(),
+  rejectActivity: jest.fn(),
+};
+
+describe('ModerationController', () => {
+  let controller: ModerationController;
+  const req = { user: { id: 'admin-123', role: 'admin' } };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [PassportModule.register({ defaultStrategy: 'jwt' })],
+      controllers: [ModerationController],
+      providers: [
+        { provide: ModerationService, useValue: mockModerationService },
+      ],
+    }).compile();
+
+    controller = module.get<ModerationController>(ModerationController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  describe('getPendingActivities', () => {
+    it('should clamp pagination before listing pending events', async () => {
+      const page = { data: [], page: 2, pageSize: 100, total: 0 };
+      mockModerationService.getPendingActivities.mockResolvedValue(page);
+
+      const result = await controller.getPendingActivities('2', '500');
+
+      expect(result).toBe(page);
+      expect(mockModerationService.getPendingActivities).toHaveBeenCalledWith({
+        page: '2',
+        pageSize: '100',
+      });
+    });
+  });
+
+  describe('approveActivity', () => {
+    it('should approve as the signed-in admin', async () => {
+      mockModerationService.approveActivity.mockResolvedValue({ id: 'a-1' });
+
+      await controller.approveActivity('a-1', req);
+
+      expect(mockModerationService.approveActivity).toHaveBeenCalledWith(
+        'a-1',
+        'admin-123',
+      );
+    });
+  });
+
+  describe('rejectActivity', () => {
+    it('should pass the reason through', async () => {
+      mockModerationService.rejectActivity.mockResolvedValue({ id: 'a-1' });
+
+      await controller.rejectActivity(
+        'a-1',
+        { reason: 'Missing room number' },
+        req,
+      );
+
+      expect(mockModerationService.rejectActivity).toHaveBeenCalledWith(
+        'a-1',
+        'admin-123',
+        'Missing room number',
+      );
+    });
+  });
+});
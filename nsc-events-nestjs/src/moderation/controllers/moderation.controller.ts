@@ -0,0 +1,128 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Put,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiQuery,
+  ApiBody,
+} from '@nestjs/swagger';
+import { ModerationService } from '../services/moderation.service';
+import { RejectActivityDto } from '../dto/reject-activity.dto';
+import { Activity } from '../../activity/entities/activity.entity';
+import { RoleGuard } from '../../auth/role.guard';
+import { Roles } from '../../auth/roles.decorator';
+import {
+  MAX_PAGE_SIZE,
+  PaginatedResult,
+  parsePagination,
+} from '../../common/pagination.util';
+
+@ApiTags('Moderation')
+@ApiBearerAuth('JWT-auth')
+@UseGuards(AuthGuard())
+@Controller('events/moderation') // final path is /api/events/moderation (global prefix 'api')
+export class ModerationController {
+  constructor(private readonly moderationService: ModerationService) {}
+
+  // ----------------- Pending Events ----------------- \\
+  @Roles('admin')
+  @UseGuards(RoleGuard)
+  @Get('pending')
+  @ApiOperation({
+    summary: 'List events awaiting review (Admin only)',
+    description:
+      'Oldest submissions first. A recurring series appears once and is reviewed as a whole.',
+  })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    description: 'Page number',
+    example: '1',
+  })
+  @ApiQuery({
+    name: 'numEvents',
+    required: false,
+    description: 'Number of events per page, at most 100',
+    example: '12',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Page of pending events: { data, page, pageSize, total, totalPages, nextCursor }',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  async getPendingActivities(
+    @Query('page') page?: string,
+    @Query('numEvents') numEvents?: string,
+  ): Promise<PaginatedResult<Activity>> {
+    const pagination = parsePagination(page, numEvents, MAX_PAGE_SIZE);
+    return this.moderationService.getPendingActivities({
+      page: String(pagination.page),
+      pageSize: String(pagination.pageSize),
+    });
+  }
+
+  // ----------------- Approve Event ----------------- \\
+  @Roles('admin')
+  @UseGuards(RoleGuard)
+  @Put(':id/approve')
+  @ApiOperation({
+    summary: 'Approve an event (Admin only)',
+    description:
+      'Makes a pending event (or series) visible to students and emails the creator',
+  })
+  @ApiParam({ name: 'id', description: 'Event ID (UUID)' })
+  @ApiResponse({ status: 200, description: 'Event approved', type: Activity })
+  @ApiResponse({ status: 400, description: 'Event is not pending review' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  @ApiResponse({ status: 404, description: 'Event not found' })
+  async approveActivity(
+    @Param('id') id: string,
+    @Req() req: any,
+  ): Promise<Activity> {
+    return this.moderationService.approveActivity(id, req.user.id);
+  }
+
+  // ----------------- Reject Event ----------------- \\
+  @Roles('admin')
+  @UseGuards(RoleGuard)
+  @Put(':id/reject')
+  @ApiOperation({
+    summary: 'Reject an event (Admin only)',
+    description:
+      'Rejects a pending event (or series) and emails the creator the reason. Editing the event resubmits it for review.',
+  })
+  @ApiParam({ name: 'id', description: 'Event ID (UUID)' })
+  @ApiBody({ type: RejectActivityDto })
+  @ApiResponse({ status: 200, description: 'Event rejected', type: Activity })
+  @ApiResponse({
+    status: 400,
+    description: 'Missing reason or event is not pending review',
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  @ApiResponse({ status: 404, description: 'Event not found' })
+  async rejectActivity(
+    @Param('id') id: string,
+    @Body() rejectActivityDto: RejectActivityDto,
+    @Req() req: any,
+  ): Promise<Activity> {
+    return this.moderationService.rejectActivity(
+      id,
+      req.user.id,
+      rejectActivityDto.reason,
+    );
+  }
+}
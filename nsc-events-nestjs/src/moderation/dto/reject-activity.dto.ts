@@ -0,0 +1,13 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RejectActivityDto {
+  @ApiProperty({
+    description: 'Why the event was rejected, emailed to the creator',
+    example: 'Please add the room number to the location.',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'A reason is required to reject an event' })
+  @MaxLength(1000)
+  readonly reason: string;
+}
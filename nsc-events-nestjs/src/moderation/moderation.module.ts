@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ModerationController } from './controllers/moderation.controller';
+import { ModerationService } from './services/moderation.service';
+import { ActivityModule } from '../activity/activity.module';
+import { AuthModule } from '../auth/auth.module';
+import { EmailModule } from '../email/email.module';
+import { User } from '../user/entities/user.entity';
+
+@Module({
+  imports: [
+    AuthModule,
+    ActivityModule,
+    EmailModule,
+    TypeOrmModule.forFeature([User]),
+  ],
+  controllers: [ModerationController],
+  providers: [ModerationService],
+})
+export class ModerationModule {}
@@ -0,0 +1,231 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import {
+  BadRequestException,
+  HttpException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ModerationService } from './moderation.service';
+import {
+  Activity,
+  ApprovalStatus,
+} from '../../activity/entities/activity.entity';
+import { ActivityService } from '../../activity/services/activity/activity.service';
+import { EmailService } from '../../email/email.service';
+import { User } from '../../user/entities/user.entity';
+
+describe('ModerationService', () => {
+  let service: ModerationService;
+
+  const pendingActivity = {
+    id: 'activity-123',
+    createdByUserId: 'creator-123',
+    eventTitle: 'Career Fair',
+    approvalStatus: ApprovalStatus.pending,
+  } as Activity;
+
+  const queryBuilder = {
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    addOrderBy: jest.fn().mockReturnThis(),
+    skip: jest.fn().mockReturnThis(),
+    take: jest.fn().mockReturnThis(),
+    getManyAndCount: jest.fn(),
+  };
+
+  const mockActivityRepository = {
+    update: jest.fn(),
+    createQueryBuilder: jest.fn().mockReturnValue(queryBuilder),
+  };
+
+  const mockUserRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockActivityService = {
+    getActivityById: jest.fn(),
+  };
+
+  const mockEmailService = {
+    sendEventReviewEmail: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ModerationService,
+        {
+          provide: getRepositoryToken(Activity),
+          useValue: mockActivityRepository,
+        },
+        { provide: getRepositoryToken(User), useValue: mockUserRepository },
+        { provide: ActivityService, useValue: mockActivityService },
+        { provide: EmailService, useValue: mockEmailService },
+      ],
+    }).compile();
+
+    service = module.get<ModerationService>(ModerationService);
+    mockUserRepository.findOne.mockResolvedValue({
+      id: 'creator-123',
+      email: 'creator@example.edu',
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getPendingActivities', () => {
+    it('should page through pending events, oldest first', async () => {
+      queryBuilder.getManyAndCount.mockResolvedValue([[pendingActivity], 13]);
+
+      const result = await service.getPendingActivities({
+        page: '2',
+        pageSize: '12',
+      });
+
+      expect(queryBuilder.where).toHaveBeenCalledWith(
+        'activity."approvalStatus" = :pending',
+        { pending: ApprovalStatus.pending },
+      );
+      expect(queryBuilder.orderBy).toHaveBeenCalledWith(
+        'activity."createdAt"',
+        'ASC',
+      );
+      expect(queryBuilder.skip).toHaveBeenCalledWith(12);
+      expect(queryBuilder.take).toHaveBeenCalledWith(12);
+      expect(result).toEqual({
+        data: [pendingActivity],
+        page: 2,
+        pageSize: 12,
+        total: 13,
+        totalPages: 2,
+        nextCursor: null,
+      });
+    });
+
+    it('should wrap database errors', async () => {
+      queryBuilder.getManyAndCount.mockRejectedValue(new Error('db down'));
+
+      await expect(service.getPendingActivities()).rejects.toThrow(
+        HttpException,
+      );
+    });
+  });
+
+  describe('approveActivity', () => {
+    it('should approve the event and email the creator', async () => {
+      mockActivityService.getActivityById.mockResolvedValue({
+        ...pendingActivity,
+      });
+
+      const result = await service.approveActivity('activity-123', 'admin-1');
+
+      expect(mockActivityRepository.update).toHaveBeenCalledWith(
+        { id: 'activity-123' },
+        expect.objectContaining({
+          approvalStatus: ApprovalStatus.approved,
+          rejectionReason: null,
+          reviewedByUserId: 'admin-1',
+          reviewedAt: expect.any(Date),
+        }),
+      );
+      expect(result.approvalStatus).toBe(ApprovalStatus.approved);
+      expect(mockEmailService.sendEventReviewEmail).toHaveBeenCalledWith(
+        'creator@example.edu',
+        {
+          eventId: 'activity-123',
+          eventTitle: 'Career Fair',
+          approved: true,
+          reason: null,
+        },
+      );
+    });
+
+    it('should apply the decision to the pending occurrences of a series', async () => {
+      mockActivityService.getActivityById.mockResolvedValue({
+        ...pendingActivity,
+        seriesId: 'series-1',
+      });
+
+      await service.approveActivity('activity-123', 'admin-1');
+
+      expect(mockActivityRepository.update).toHaveBeenCalledWith(
+        { seriesId: 'series-1', approvalStatus: ApprovalStatus.pending },
+        expect.objectContaining({ approvalStatus: ApprovalStatus.approved }),
+      );
+    });
+
+    it('should refuse events that are not pending', async () => {
+      mockActivityService.getActivityById.mockResolvedValue({
+        ...pendingActivity,
+        approvalStatus: ApprovalStatus.approved,
+      });
+
+      await expect(
+        service.approveActivity('activity-123', 'admin-1'),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockActivityRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should propagate NotFoundException', async () => {
+      mockActivityService.getActivityById.mockRejectedValue(
+        new NotFoundException('Activity not found'),
+      );
+
+      await expect(
+        service.approveActivity('missing', 'admin-1'),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should keep the decision when the email fails', async () => {
+      mockActivityService.getActivityById.mockResolvedValue({
+        ...pendingActivity,
+      });
+      mockEmailService.sendEventReviewEmail.mockRejectedValue(
+        new Error('Failed to send event review email'),
+      );
+
+      const result = await service.approveActivity('activity-123', 'admin-1');
+
+      expect(result.approvalStatus).toBe(ApprovalStatus.approved);
+      expect(Logger.prototype.warn).toHaveBeenCalled();
+    });
+  });
+
+  describe('rejectActivity', () => {
+    it('should record the reason and email it to the creator', async () => {
+      mockActivityService.getActivityById.mockResolvedValue({
+        ...pendingActivity,
+      });
+
+      const result = await service.rejectActivity(
+        'activity-123',
+        'admin-1',
+        '  Missing room number ',
+      );
+
+      expect(result.approvalStatus).toBe(ApprovalStatus.rejected);
+      expect(result.rejectionReason).toBe('Missing room number');
+      expect(mockEmailService.sendEventReviewEmail).toHaveBeenCalledWith(
+        'creator@example.edu',
+        expect.objectContaining({
+          approved: false,
+          reason: 'Missing room number',
+        }),
+      );
+    });
+
+    it('should require a reason', async () => {
+      await expect(
+        service.rejectActivity('activity-123', 'admin-1', '   '),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockActivityService.getActivityById).not.toHaveBeenCalled();
+    });
+  });
+});
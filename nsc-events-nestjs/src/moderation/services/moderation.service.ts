@@ -0,0 +1,179 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  Activity,
+  ApprovalStatus,
+} from '../../activity/entities/activity.entity';
+import { ActivityService } from '../../activity/services/activity/activity.service';
+import { EmailService } from '../../email/email.service';
+import { User } from '../../user/entities/user.entity';
+import {
+  PaginatedResult,
+  parsePagination,
+  toPaginatedResult,
+} from '../../common/pagination.util';
+
+type ReviewDecision = Pick<
+  Activity,
+  'approvalStatus' | 'rejectionReason' | 'reviewedByUserId' | 'reviewedAt'
+>;
+
+@Injectable()
+export class ModerationService {
+  private readonly logger = new Logger(ModerationService.name);
+
+  constructor(
+    @InjectRepository(Activity)
+    private readonly activityRepository: Repository<Activity>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly activityService: ActivityService,
+    private readonly emailService: EmailService,
+  ) {}
+
+  // ----------------- Get Pending Activities ----------------- \\
+  // Oldest submissions first. A recurring series is listed once, by its
+  // earliest pending occurrence, since decisions apply to the whole series.
+  async getPendingActivities(options?: {
+    page?: string;
+    pageSize?: string;
+  }): Promise<PaginatedResult<Activity>> {
+    try {
+      const { page, pageSize } = parsePagination(
+        options?.page,
+        options?.pageSize,
+      );
+
+      const [data, total] = await this.activityRepository
+        .createQueryBuilder('activity')
+        .where('activity."approvalStatus" = :pending', {
+          pending: ApprovalStatus.pending,
+        })
+        .andWhere('activity."isHidden" = false')
+        .andWhere(
+          `(activity."seriesId" IS NULL OR activity.id = (
+            SELECT earliest.id FROM activities earliest
+            WHERE earliest."seriesId" = activity."seriesId"
+              AND earliest."approvalStatus" = :pending
+              AND earliest."isHidden" = false
+              AND earliest."deletedAt" IS NULL
+            ORDER BY earliest."startDate" ASC
+            LIMIT 1
+          ))`,
+        )
+        .orderBy('activity."createdAt"', 'ASC')
+        .addOrderBy('activity.id', 'ASC')
+        .skip((page - 1) * pageSize)
+        .take(pageSize)
+        .getManyAndCount();
+
+      return toPaginatedResult(data, { page, pageSize, total });
+    } catch (error) {
+      throw new HttpException(
+        'Error retrieving pending activities',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Approve Activity ----------------- \\
+  async approveActivity(id: string, reviewerId: string): Promise<Activity> {
+    return this.review(id, {
+      approvalStatus: ApprovalStatus.approved,
+      rejectionReason: null,
+      reviewedByUserId: reviewerId,
+      reviewedAt: new Date(),
+    });
+  }
+
+  // ----------------- Reject Activity ----------------- \\
+  async rejectActivity(
+    id: string,
+    reviewerId: string,
+    reason: string,
+  ): Promise<Activity> {
+    if (!reason?.trim()) {
+      throw new BadRequestException('A reason is required to reject an event');
+    }
+
+    return this.review(id, {
+      approvalStatus: ApprovalStatus.rejected,
+      rejectionReason: reason.trim(),
+      reviewedByUserId: reviewerId,
+      reviewedAt: new Date(),
+    });
+  }
+
+  /**
+   * Records a decision on a pending event, and on every other pending
+   * occurrence of its series, then emails the creator.
+   */
+  private async review(
+    id: string,
+    decision: ReviewDecision,
+  ): Promise<Activity> {
+    try {
+      const activity = await this.activityService.getActivityById(id);
+
+      if (activity.approvalStatus !== ApprovalStatus.pending) {
+        throw new BadRequestException('Only pending events can be reviewed');
+      }
+
+      await this.activityRepository.update(
+        activity.seriesId
+          ? {
+              seriesId: activity.seriesId,
+              approvalStatus: ApprovalStatus.pending,
+            }
+          : { id: activity.id },
+        decision,
+      );
+      Object.assign(activity, decision);
+
+      await this.notifyCreator(activity);
+      return activity;
+    } catch (error) {
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException
+      ) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error reviewing activity',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // The decision stands even when the email can't be delivered
+  private async notifyCreator(activity: Activity): Promise<void> {
+    try {
+      const creator = await this.userRepository.findOne({
+        where: { id: activity.createdByUserId },
+      });
+      if (!creator?.email) {
+        return;
+      }
+
+      await this.emailService.sendEventReviewEmail(creator.email, {
+        eventId: activity.id,
+        eventTitle: activity.eventTitle,
+        approved: activity.approvalStatus === ApprovalStatus.approved,
+        reason: activity.rejectionReason,
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Could not notify the creator of event ${activity.id}: ${error.message}`,
+      );
+    }
+  }
+}
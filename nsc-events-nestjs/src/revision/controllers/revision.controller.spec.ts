@@ -0,0 +1,49 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PassportModule } from '@nestjs/passport';
+import { RevisionController } from './revision.controller';
+import { RevisionService } from '../services/revision.service';
+
+const mockRevisionService = {
+  getRevisions: jest.fn(),
+  restoreRevision: jest.fn(),
+};
+
+describe('RevisionController', () => {
+  let controller: RevisionController;
+  const req = { user: { id: 'creator-123', role: 'creator' } };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [PassportModule.register({ defaultStrategy: 'jwt' })],
+      controllers: [RevisionController],
+      providers: [{ provide: RevisionService, useValue: mockRevisionService }],
+    }).compile();
+
+    controller = module.get<RevisionController>(RevisionController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should list revisions as the signed-in user', async () => {
+    await controller.getRevisions('a-1', req);
+
+    expect(mockRevisionService.getRevisions).toHaveBeenCalledWith(
+      'a-1',
+      req.user,
+    );
+  });
+
+  it('should restore a revision as the signed-in user', async () => {
+    await controller.restoreRevision('a-1', 3, req);
+
+    expect(mockRevisionService.restoreRevision).toHaveBeenCalledWith(
+      'a-1',
+      3,
+      req.user,
+    );
+  });
+});
@@ -0,0 +1,78 @@
+import {
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import {
+  RevisionService,
+  RevisionWithActor,
+} from '../services/revision.service';
+import { Activity } from '../../activity/entities/activity.entity';
+
+@ApiTags('Event Revisions')
+@ApiBearerAuth('JWT-auth')
+@UseGuards(AuthGuard())
+@Controller('events') // final path is /api/events (global prefix 'api')
+export class RevisionController {
+  constructor(private readonly revisionService: RevisionService) {}
+
+  // ----------------- List Revisions ----------------- \\
+  @Get(':id/revisions')
+  @ApiOperation({
+    summary: 'List the revision history of an event',
+    description:
+      'Newest first. Each revision has the actor, the time and the changed fields with their before and after values. Visible to the owner, admins, co-hosts and editors.',
+  })
+  @ApiParam({ name: 'id', description: 'Event ID (UUID)' })
+  @ApiResponse({ status: 200, description: 'Revisions with actor details' })
+  @ApiResponse({
+    status: 401,
+    description: 'Not the owner, an admin, a co-host or an editor',
+  })
+  @ApiResponse({ status: 404, description: 'Event not found' })
+  async getRevisions(
+    @Param('id') id: string,
+    @Req() req: any,
+  ): Promise<RevisionWithActor[]> {
+    return this.revisionService.getRevisions(id, req.user);
+  }
+
+  // ----------------- Restore Revision ----------------- \\
+  @Post(':id/revisions/:rev/restore')
+  @ApiOperation({
+    summary: 'Restore an event to an earlier revision',
+    description:
+      'Puts back the tracked fields as they were in the revision and records the restore as a new revision.',
+  })
+  @ApiParam({ name: 'id', description: 'Event ID (UUID)' })
+  @ApiParam({ name: 'rev', description: 'Revision number' })
+  @ApiResponse({ status: 201, description: 'Event restored', type: Activity })
+  @ApiResponse({
+    status: 400,
+    description: 'The event already matches the revision',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Not the owner, an admin, a co-host or an editor',
+  })
+  @ApiResponse({ status: 404, description: 'Event or revision not found' })
+  async restoreRevision(
+    @Param('id') id: string,
+    @Param('rev', ParseIntPipe) rev: number,
+    @Req() req: any,
+  ): Promise<Activity> {
+    return this.revisionService.restoreRevision(id, rev, req.user);
+  }
+}
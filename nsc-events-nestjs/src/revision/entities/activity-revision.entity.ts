@@ -0,0 +1,56 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { ActivitySnapshot, RevisionChanges } from '../utils/revision.util';
+
+export enum RevisionAction {
+  created = 'created',
+  updated = 'updated',
+  archived = 'archived',
+  unarchived = 'unarchived',
+  coverImage = 'cover-image',
+  restored = 'restored',
+}
+
+/**
+ * One change to an event. Revisions are numbered per event and never
+ * updated once written.
+ */
+@Entity('activity_revisions')
+@Index(['activityId', 'revision'], { unique: true })
+export class ActivityRevision {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  activityId: string;
+
+  // 1 for the oldest revision of the event
+  @Column({ type: 'int' })
+  revision: number;
+
+  @Column({ type: 'enum', enum: RevisionAction })
+  action: RevisionAction;
+
+  // Null for changes made by the system
+  @Column({ type: 'uuid', nullable: true })
+  actorUserId?: string | null;
+
+  // Changed fields with their before and after values
+  @Column({ type: 'jsonb', default: {} })
+  changes: RevisionChanges;
+
+  // Every tracked field as it was after this revision, used to restore it
+  @Column({ type: 'jsonb' })
+  snapshot: ActivitySnapshot;
+
+  @Column({ type: 'int', nullable: true })
+  restoredFromRevision?: number | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+}
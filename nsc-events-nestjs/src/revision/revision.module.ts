@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AuthModule } from '../auth/auth.module';
+import { ActivityModule } from '../activity/activity.module';
+import { User } from '../user/entities/user.entity';
+import { ActivityRevision } from './entities/activity-revision.entity';
+import { RevisionService } from './services/revision.service';
+import { RevisionController } from './controllers/revision.controller';
+
+@Module({
+  imports: [
+    AuthModule,
+    ActivityModule,
+    TypeOrmModule.forFeature([ActivityRevision, User]),
+  ],
+  controllers: [RevisionController],
+  providers: [RevisionService],
+})
+export class RevisionModule {}
@@ -0,0 +1,184 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import {
+  BadRequestException,
+  HttpException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { RevisionService } from './revision.service';
+import {
+  ActivityRevision,
+  RevisionAction,
+} from '../entities/activity-revision.entity';
+import {
+  Activity,
+  RecurrenceScope,
+} from '../../activity/entities/activity.entity';
+import { ActivityService } from '../../activity/services/activity/activity.service';
+import { Role, User } from '../../user/entities/user.entity';
+import { EventPermission } from '../../collaborator/utils/permissions.util';
+import { takeSnapshot } from '../utils/revision.util';
+
+describe('RevisionService', () => {
+  let service: RevisionService;
+
+  const owner = { id: 'owner-123', role: Role.creator };
+  const activity = {
+    id: 'activity-123',
+    createdByUserId: 'owner-123',
+    eventTitle: 'Career Fair',
+    eventLocation: 'Room 204',
+    startDate: new Date('2024-12-01T10:00:00Z'),
+    isArchived: false,
+  } as Activity;
+
+  const originalRevision = {
+    id: 'revision-1',
+    activityId: 'activity-123',
+    revision: 1,
+    action: RevisionAction.created,
+    actorUserId: 'owner-123',
+    changes: {},
+    snapshot: takeSnapshot({ ...activity, eventLocation: 'Gym' } as Activity),
+  } as ActivityRevision;
+
+  const mockRevisionRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+  };
+
+  const mockUserRepository = {
+    find: jest.fn(),
+  };
+
+  const mockActivityService = {
+    getActivityById: jest.fn(),
+    hasEventPermission: jest.fn(),
+    updateActivity: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockActivityService.getActivityById.mockResolvedValue({ ...activity });
+    mockActivityService.hasEventPermission.mockResolvedValue(true);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RevisionService,
+        {
+          provide: getRepositoryToken(ActivityRevision),
+          useValue: mockRevisionRepository,
+        },
+        { provide: getRepositoryToken(User), useValue: mockUserRepository },
+        { provide: ActivityService, useValue: mockActivityService },
+      ],
+    }).compile();
+
+    service = module.get<RevisionService>(RevisionService);
+  });
+
+  describe('getRevisions', () => {
+    it('should list revisions newest first with their actors', async () => {
+      mockRevisionRepository.find.mockResolvedValue([originalRevision]);
+      mockUserRepository.find.mockResolvedValue([
+        {
+          id: 'owner-123',
+          firstName: 'Grace',
+          lastName: 'Hopper',
+          email: 'grace@example.edu',
+        },
+      ]);
+
+      const result = await service.getRevisions('activity-123', owner);
+
+      expect(mockRevisionRepository.find).toHaveBeenCalledWith({
+        where: { activityId: 'activity-123' },
+        order: { revision: 'DESC' },
+      });
+      expect(result).toEqual([
+        {
+          ...originalRevision,
+          actor: { id: 'owner-123', firstName: 'Grace', lastName: 'Hopper' },
+        },
+      ]);
+    });
+
+    it('should leave the actor empty for system changes', async () => {
+      mockRevisionRepository.find.mockResolvedValue([
+        { ...originalRevision, actorUserId: null },
+      ]);
+
+      const [revision] = await service.getRevisions('activity-123', owner);
+
+      expect(revision.actor).toBeNull();
+      expect(mockUserRepository.find).not.toHaveBeenCalled();
+    });
+
+    it('should require edit access to the event', async () => {
+      mockActivityService.hasEventPermission.mockResolvedValue(false);
+
+      await expect(service.getRevisions('activity-123', owner)).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockActivityService.hasEventPermission).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'activity-123' }),
+        owner,
+        EventPermission.edit,
+      );
+    });
+
+    it('should wrap unexpected errors', async () => {
+      mockRevisionRepository.find.mockRejectedValue(new Error('db down'));
+
+      await expect(service.getRevisions('activity-123', owner)).rejects.toThrow(
+        HttpException,
+      );
+    });
+  });
+
+  describe('restoreRevision', () => {
+    it('should update only the fields that differ from the revision', async () => {
+      mockRevisionRepository.findOne.mockResolvedValue(originalRevision);
+
+      await service.restoreRevision('activity-123', 1, owner);
+
+      expect(mockActivityService.updateActivity).toHaveBeenCalledWith(
+        'activity-123',
+        { eventLocation: 'Gym' },
+        owner,
+        RecurrenceScope.occurrence,
+        { action: RevisionAction.restored, restoredFromRevision: 1 },
+      );
+    });
+
+    it('should reject a revision that matches the event', async () => {
+      mockRevisionRepository.findOne.mockResolvedValue({
+        ...originalRevision,
+        snapshot: takeSnapshot(activity),
+      });
+
+      await expect(
+        service.restoreRevision('activity-123', 1, owner),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockActivityService.updateActivity).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for an unknown revision', async () => {
+      mockRevisionRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.restoreRevision('activity-123', 9, owner),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should require edit access to the event', async () => {
+      mockActivityService.hasEventPermission.mockResolvedValue(false);
+
+      await expect(
+        service.restoreRevision('activity-123', 1, owner),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockRevisionRepository.findOne).not.toHaveBeenCalled();
+    });
+  });
+});
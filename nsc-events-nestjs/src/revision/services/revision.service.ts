@@ -0,0 +1,174 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import {
+  ActivityRevision,
+  RevisionAction,
+} from '../entities/activity-revision.entity';
+import {
+  Activity,
+  RecurrenceScope,
+} from '../../activity/entities/activity.entity';
+import { ActivityService } from '../../activity/services/activity/activity.service';
+import { UpdateActivityDto } from '../../activity/dto/update-activity.dto';
+import { User } from '../../user/entities/user.entity';
+import {
+  EventActor,
+  EventPermission,
+} from '../../collaborator/utils/permissions.util';
+import { diffSnapshots, takeSnapshot } from '../utils/revision.util';
+
+export type RevisionActor = Pick<User, 'id' | 'firstName' | 'lastName'>;
+
+export interface RevisionWithActor extends ActivityRevision {
+  actor: RevisionActor | null;
+}
+
+@Injectable()
+export class RevisionService {
+  constructor(
+    @InjectRepository(ActivityRevision)
+    private readonly revisionRepository: Repository<ActivityRevision>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly activityService: ActivityService,
+  ) {}
+
+  // ----------------- Get Revisions ----------------- \\
+  // Newest first. Visible to anyone who can edit the event.
+  async getRevisions(
+    activityId: string,
+    actor: EventActor,
+  ): Promise<RevisionWithActor[]> {
+    try {
+      const activity = await this.activityService.getActivityById(activityId);
+      await this.assertCanEdit(
+        activity,
+        actor,
+        'You can only view the history of events you own or help run',
+      );
+
+      const revisions = await this.revisionRepository.find({
+        where: { activityId },
+        order: { revision: 'DESC' },
+      });
+
+      return await this.withActors(revisions);
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof UnauthorizedException
+      ) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error retrieving revisions',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Restore Revision ----------------- \\
+  // Puts back the fields that differ from the revision and records the
+  // restore as a new revision, so it can be undone in turn
+  async restoreRevision(
+    activityId: string,
+    revisionNumber: number,
+    actor: EventActor,
+  ): Promise<Activity> {
+    try {
+      const activity = await this.activityService.getActivityById(activityId);
+      await this.assertCanEdit(
+        activity,
+        actor,
+        'You can only restore events you own or help run',
+      );
+
+      const revision = await this.revisionRepository.findOne({
+        where: { activityId, revision: revisionNumber },
+      });
+      if (!revision) {
+        throw new NotFoundException(`Revision ${revisionNumber} not found`);
+      }
+
+      const changes = diffSnapshots(takeSnapshot(activity), revision.snapshot);
+      if (Object.keys(changes).length === 0) {
+        throw new BadRequestException(
+          'The event already matches this revision',
+        );
+      }
+
+      const restoreDto = Object.fromEntries(
+        Object.entries(changes).map(([field, { after }]) => [field, after]),
+      ) as unknown as UpdateActivityDto;
+
+      return await this.activityService.updateActivity(
+        activityId,
+        restoreDto,
+        actor,
+        RecurrenceScope.occurrence,
+        {
+          action: RevisionAction.restored,
+          restoredFromRevision: revisionNumber,
+        },
+      );
+    } catch (error) {
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException ||
+        error instanceof UnauthorizedException
+      ) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error restoring revision',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  private async assertCanEdit(
+    activity: Activity,
+    actor: EventActor,
+    message: string,
+  ): Promise<void> {
+    if (
+      !(await this.activityService.hasEventPermission(
+        activity,
+        actor,
+        EventPermission.edit,
+      ))
+    ) {
+      throw new UnauthorizedException(message);
+    }
+  }
+
+  private async withActors(
+    revisions: ActivityRevision[],
+  ): Promise<RevisionWithActor[]> {
+    const actorIds = [
+      ...new Set(revisions.map((r) => r.actorUserId).filter(Boolean)),
+    ];
+    const users = actorIds.length
+      ? await this.userRepository.find({ where: { id: In(actorIds) } })
+      : [];
+    const byId = new Map(users.map((user) => [user.id, user]));
+
+    return revisions.map((revision) => {
+      const user = byId.get(revision.actorUserId);
+      return {
+        ...revision,
+        actor: user
+          ? { id: user.id, firstName: user.firstName, lastName: user.lastName }
+          : null,
+      };
+    });
+  }
+}
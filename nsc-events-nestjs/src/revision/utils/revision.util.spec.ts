@@ -0,0 +1,54 @@
+import { diffSnapshots, takeSnapshot } from './revision.util';
+import { Activity } from '../../activity/entities/activity.entity';
+
+describe('revision.util', () => {
+  const activity = {
+    id: 'activity-123',
+    eventTitle: 'Career Fair',
+    startDate: new Date('2024-12-01T10:00:00Z'),
+    eventTags: ['Career'],
+    eventSocialMedia: { facebook: 'fb', twitter: 'tw' },
+    isArchived: false,
+    attendanceCount: 12,
+  } as unknown as Activity;
+
+  describe('takeSnapshot', () => {
+    it('keeps tracked fields as JSON values', () => {
+      const snapshot = takeSnapshot(activity);
+
+      expect(snapshot.eventTitle).toBe('Career Fair');
+      expect(snapshot.startDate).toBe('2024-12-01T10:00:00.000Z');
+      expect(snapshot.eventLocation).toBeNull();
+      expect(snapshot).not.toHaveProperty('attendanceCount');
+    });
+  });
+
+  describe('diffSnapshots', () => {
+    it('lists changed fields with their before and after values', () => {
+      const before = takeSnapshot(activity);
+      const after = takeSnapshot({
+        ...activity,
+        startDate: new Date('2024-12-02T10:00:00Z'),
+        eventTags: ['Career', 'Workshop'],
+      } as Activity);
+
+      expect(diffSnapshots(before, after)).toEqual({
+        startDate: {
+          before: '2024-12-01T10:00:00.000Z',
+          after: '2024-12-02T10:00:00.000Z',
+        },
+        eventTags: { before: ['Career'], after: ['Career', 'Workshop'] },
+      });
+    });
+
+    it('ignores reordered object keys', () => {
+      const before = takeSnapshot(activity);
+      const after = takeSnapshot({
+        ...activity,
+        eventSocialMedia: { twitter: 'tw', facebook: 'fb' },
+      } as unknown as Activity);
+
+      expect(diffSnapshots(before, after)).toEqual({});
+    });
+  });
+});
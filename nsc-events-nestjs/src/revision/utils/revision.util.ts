@@ -0,0 +1,88 @@
+import { Activity } from '../../activity/entities/activity.entity';
+import { RevisionAction } from '../entities/activity-revision.entity';
+
+// Fields shown in an event's history and put back by a restore. Attendance,
+// moderation and publication state have their own workflows.
+export const TRACKED_FIELDS = [
+  'eventTitle',
+  'eventDescription',
+  'startDate',
+  'endDate',
+  'timeZone',
+  'eventLocation',
+  'roomId',
+  'setupMinutes',
+  'teardownMinutes',
+  'eventCoverPhoto',
+  'eventDocument',
+  'eventHost',
+  'eventMeetingURL',
+  'eventRegistration',
+  'eventCapacity',
+  'eventTags',
+  'eventSchedule',
+  'eventSpeakers',
+  'eventPrerequisites',
+  'eventCancellationPolicy',
+  'eventContact',
+  'eventSocialMedia',
+  'eventPrivacy',
+  'eventAccessibility',
+  'eventNote',
+  'isArchived',
+] as const;
+
+export type TrackedField = (typeof TRACKED_FIELDS)[number];
+
+/** Tracked fields as JSON values, dates as ISO strings */
+export type ActivitySnapshot = Partial<Record<TrackedField, unknown>>;
+
+export type RevisionChanges = Partial<
+  Record<TrackedField, { before: unknown; after: unknown }>
+>;
+
+const toJsonValue = (value: unknown): unknown =>
+  value === undefined ? null : JSON.parse(JSON.stringify(value));
+
+// Object keys are sorted so reordered social media links aren't a change
+const stableStringify = (value: unknown): string =>
+  JSON.stringify(value, (_key, nested) =>
+    nested && typeof nested === 'object' && !Array.isArray(nested)
+      ? Object.fromEntries(
+          Object.keys(nested)
+            .sort()
+            .map((key) => [key, nested[key]]),
+        )
+      : nested,
+  );
+
+export function takeSnapshot(activity: Activity): ActivitySnapshot {
+  const snapshot: ActivitySnapshot = {};
+  for (const field of TRACKED_FIELDS) {
+    snapshot[field] = toJsonValue(activity[field]);
+  }
+  return snapshot;
+}
+
+export function diffSnapshots(
+  before: ActivitySnapshot,
+  after: ActivitySnapshot,
+): RevisionChanges {
+  const changes: RevisionChanges = {};
+  for (const field of TRACKED_FIELDS) {
+    const previous = before[field] ?? null;
+    const next = after[field] ?? null;
+    if (stableStringify(previous) !== stableStringify(next)) {
+      changes[field] = { before: previous, after: next };
+    }
+  }
+  return changes;
+}
+
+/** Why and by whom a change is being recorded */
+export interface RevisionContext {
+  action: RevisionAction;
+  // Null for changes made by the system
+  actorUserId?: string | null;
+  restoredFromRevision?: number;
+}
@@ -0,0 +1,43 @@
+import { NestFactory } from '@nestjs/core';
+import { Logger } from '@nestjs/common';
+import { AppModule } from '../app.module';
+import { ActivityService } from '../activity/services/activity/activity.service';
+
+/**
+ * Creates the responsive variants of existing cover photos.
+ *
+ *   npm run build && npm run backfill:cover-variants [-- --dry-run]
+ *
+ * With --dry-run the cover photos are only listed.
+ */
+async function backfill() {
+  const logger = new Logger('BackfillCoverVariants');
+  const dryRun = process.argv.includes('--dry-run');
+  const app = await NestFactory.createApplicationContext(AppModule, {
+    logger: ['error', 'warn', 'log'],
+  });
+
+  try {
+    const result = await app
+      .get(ActivityService)
+      .backfillCoverPhotoVariants({ dryRun });
+
+    if (dryRun) {
+      result.coverPhotos.forEach((url) => logger.log(url));
+      logger.log(`${result.coverPhotos.length} cover photo(s) need variants`);
+      return;
+    }
+    logger.log(
+      `Created variants of ${
+        result.coverPhotos.length - result.failed.length
+      } cover photo(s) for ${result.updatedEvents} event(s)`,
+    );
+    if (result.failed.length > 0) {
+      logger.error(`${result.failed.length} cover photo(s) failed`);
+      process.exitCode = 1;
+    }
+  } finally {
+    await app.close();
+  }
+}
+backfill();
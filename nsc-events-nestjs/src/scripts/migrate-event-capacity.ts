@@ -0,0 +1,102 @@
+import { NestFactory } from '@nestjs/core';
+import { Logger } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+import { parseCapacity } from '../activity/utils/capacity.util';
+
+// Largest value of a Postgres integer column
+const MAX_CAPACITY = 2147483647;
+
+/**
+ * Turns the text capacities of existing events into seat limits.
+ *
+ *   npm run build && npm run migrate:event-capacity [-- --dry-run]
+ *
+ * Run it before the first start of a version with seat limits: schema
+ * synchronization would otherwise replace the text column with an empty
+ * one. It connects without loading the app, so nothing is synchronized.
+ *
+ * With --dry-run nothing is changed. Capacities that aren't a whole number
+ * of seats become unlimited and are listed so they can be set by hand.
+ */
+async function migrate() {
+  const logger = new Logger('MigrateEventCapacity');
+  const dryRun = process.argv.includes('--dry-run');
+  const app = await NestFactory.createApplicationContext(
+    ConfigModule.forRoot({ envFilePath: '.env' }),
+    { logger: ['error', 'warn', 'log'] },
+  );
+  const config = app.get(ConfigService);
+  const dataSource = new DataSource({
+    type: 'postgres',
+    host: config.get<string>('POSTGRES_HOST', 'localhost'),
+    port: config.get<number>('POSTGRES_PORT', 5432),
+    username: config.get<string>('POSTGRES_USER', 'postgres'),
+    password: config.get<string>('POSTGRES_PASSWORD', 'postgres'),
+    database: config.get<string>('POSTGRES_DATABASE', 'nsc_events'),
+    synchronize: false,
+  });
+
+  try {
+    await dataSource.initialize();
+    const [column] = await dataSource.query(
+      `SELECT data_type FROM information_schema.columns
+       WHERE table_name = 'activities' AND column_name = 'eventCapacity'`,
+    );
+    if (!column || column.data_type === 'integer') {
+      logger.log('Event capacities are already seat limits');
+      return;
+    }
+
+    const rows: { id: string; eventTitle: string; eventCapacity: string }[] =
+      await dataSource.query(
+        `SELECT id, "eventTitle", "eventCapacity" FROM activities
+         WHERE "eventCapacity" IS NOT NULL`,
+      );
+    const limits = new Map<string, number | null>();
+    for (const { id, eventTitle, eventCapacity } of rows) {
+      const capacity = parseCapacity(eventCapacity);
+      if (capacity === undefined || capacity > MAX_CAPACITY) {
+        // Blank capacities meant no limit all along
+        if (eventCapacity.trim()) {
+          logger.warn(
+            `Could not read the capacity "${eventCapacity}" of "${eventTitle}" (${id})`,
+          );
+        }
+        limits.set(id, null);
+      } else {
+        limits.set(id, capacity);
+      }
+    }
+    const limited = [...limits.values()].filter((limit) => limit !== null);
+
+    if (!dryRun) {
+      await dataSource.transaction(async (manager) => {
+        for (const [id, limit] of limits) {
+          await manager.query(
+            `UPDATE activities SET "eventCapacity" = $1 WHERE id = $2`,
+            [limit === null ? null : String(limit), id],
+          );
+        }
+        await manager.query(
+          `ALTER TABLE activities ALTER COLUMN "eventCapacity" TYPE integer
+           USING "eventCapacity"::integer`,
+        );
+      });
+    }
+
+    logger.log(
+      `${dryRun ? 'Would convert' : 'Converted'} the capacities of ${
+        rows.length
+      } event(s), ${limited.length} with a seat limit and ${
+        rows.length - limited.length
+      } unlimited`,
+    );
+  } finally {
+    if (dataSource.isInitialized) {
+      await dataSource.destroy();
+    }
+    await app.close();
+  }
+}
+migrate();
@@ -0,0 +1,38 @@
+import { NestFactory } from '@nestjs/core';
+import { Logger } from '@nestjs/common';
+import { AppModule } from '../app.module';
+import { SessionService } from '../session/services/session.service';
+
+/**
+ * Turns the schedule text of existing events into agenda sessions.
+ *
+ *   npm run build && npm run migrate:event-schedules [-- --dry-run]
+ *
+ * With --dry-run nothing is changed. Events whose text doesn't parse keep it
+ * and are listed so their agendas can be entered by hand.
+ */
+async function migrate() {
+  const logger = new Logger('MigrateEventSchedules');
+  const dryRun = process.argv.includes('--dry-run');
+  const app = await NestFactory.createApplicationContext(AppModule, {
+    logger: ['error', 'warn', 'log'],
+  });
+
+  try {
+    const result = await app
+      .get(SessionService)
+      .migrateScheduleText({ dryRun });
+
+    result.skipped.forEach(({ id, eventTitle }) =>
+      logger.warn(`Could not read the schedule of "${eventTitle}" (${id})`),
+    );
+    logger.log(
+      `${dryRun ? 'Would migrate' : 'Migrated'} the schedules of ${
+        result.migrated.length
+      } event(s), ${result.skipped.length} left as text`,
+    );
+  } finally {
+    await app.close();
+  }
+}
+migrate();
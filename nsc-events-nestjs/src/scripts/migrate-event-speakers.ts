@@ -0,0 +1,41 @@
+import { NestFactory } from '@nestjs/core';
+import { Logger } from '@nestjs/common';
+import { AppModule } from '../app.module';
+import { SpeakerService } from '../speaker/services/speaker.service';
+
+/**
+ * Turns the speaker names of existing events and sessions into speaker
+ * profiles and links them.
+ *
+ *   npm run build && npm run migrate:event-speakers [-- --dry-run]
+ *
+ * With --dry-run nothing is changed. Names that already match a speaker,
+ * whatever their case, are linked to that speaker.
+ */
+async function migrate() {
+  const logger = new Logger('MigrateEventSpeakers');
+  const dryRun = process.argv.includes('--dry-run');
+  const app = await NestFactory.createApplicationContext(AppModule, {
+    logger: ['error', 'warn', 'log'],
+  });
+
+  try {
+    const result = await app
+      .get(SpeakerService)
+      .migrateSpeakerNames({ dryRun });
+
+    result.created.forEach((name) =>
+      logger.log(`${dryRun ? 'Would create' : 'Created'} speaker "${name}"`),
+    );
+    logger.log(
+      `${dryRun ? 'Would link' : 'Linked'} the speakers of ${
+        result.events
+      } event(s) and ${result.sessions} session(s), ${
+        result.created.length
+      } new speaker(s)`,
+    );
+  } finally {
+    await app.close();
+  }
+}
+migrate();
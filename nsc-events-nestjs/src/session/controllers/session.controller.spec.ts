@@ -0,0 +1,104 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PassportModule } from '@nestjs/passport';
+import { SessionController } from './session.controller';
+import { SessionService } from '../services/session.service';
+
+const mockSessionService = {
+  getSessions: jest.fn(),
+  addSession: jest.fn(),
+  updateSession: jest.fn(),
+  reorderSessions: jest.fn(),
+  deleteSession: jest.fn(),
+};
+
+describe('SessionController', () => {
+  let controller: SessionController;
+  const req = { user: { id: 'creator-123', role: 'creator' } };
+  const dto = {
+    title: 'Keynote',
+    startDate: '2025-01-15T11:00:00-08:00',
+    endDate: '2025-01-15T12:00:00-08:00',
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [PassportModule.register({ defaultStrategy: 'jwt' })],
+      controllers: [SessionController],
+      providers: [{ provide: SessionService, useValue: mockSessionService }],
+    }).compile();
+
+    controller = module.get<SessionController>(SessionController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should list the sessions of an event', async () => {
+    await controller.getSessions('activity-1', req);
+
+    expect(mockSessionService.getSessions).toHaveBeenCalledWith(
+      'activity-1',
+      req.user,
+    );
+  });
+
+  it('should list sessions for anonymous visitors', async () => {
+    await controller.getSessions('activity-1', { user: null });
+
+    expect(mockSessionService.getSessions).toHaveBeenCalledWith(
+      'activity-1',
+      undefined,
+    );
+  });
+
+  it('should add a session as the signed-in user', async () => {
+    await controller.addSession('activity-1', dto, req);
+
+    expect(mockSessionService.addSession).toHaveBeenCalledWith(
+      'activity-1',
+      dto,
+      req.user,
+    );
+  });
+
+  it('should update a session', async () => {
+    await controller.updateSession(
+      'activity-1',
+      'session-1',
+      { title: 'Opening keynote' },
+      req,
+    );
+
+    expect(mockSessionService.updateSession).toHaveBeenCalledWith(
+      'activity-1',
+      'session-1',
+      { title: 'Opening keynote' },
+      req.user,
+    );
+  });
+
+  it('should reorder the agenda', async () => {
+    const order = { sessionIds: ['session-2', 'session-1'] };
+
+    await controller.reorderSessions('activity-1', order, req);
+
+    expect(mockSessionService.reorderSessions).toHaveBeenCalledWith(
+      'activity-1',
+      order,
+      req.user,
+    );
+  });
+
+  it('should delete a session', async () => {
+    await controller.deleteSession('activity-1', 'session-1', req);
+
+    expect(mockSessionService.deleteSession).toHaveBeenCalledWith(
+      'activity-1',
+      'session-1',
+      req.user,
+    );
+  });
+});
@@ -0,0 +1,172 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Put,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { OptionalJwtAuthGuard } from '../../auth/guards/optional-jwt-auth.guard';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiBody,
+} from '@nestjs/swagger';
+import { SessionService } from '../services/session.service';
+import { EventSession } from '../entities/event-session.entity';
+import { CreateSessionDto } from '../dto/create-session.dto';
+import { UpdateSessionDto } from '../dto/update-session.dto';
+import { ReorderSessionsDto } from '../dto/reorder-sessions.dto';
+
+@ApiTags('Event Sessions')
+@Controller('events') // final path is /api/events (global prefix 'api')
+export class SessionController {
+  constructor(private readonly sessionService: SessionService) {}
+
+  // ----------------- List Sessions ----------------- \\
+  @Get(':id/sessions')
+  @UseGuards(OptionalJwtAuthGuard)
+  @ApiOperation({
+    summary: "List the sessions on an event's agenda",
+    description:
+      'In agenda order. Anyone can see them, but the agenda of drafts, scheduled and unapproved events is only returned to users who can edit them.',
+  })
+  @ApiParam({ name: 'id', description: 'Event ID (UUID)' })
+  @ApiResponse({ status: 200, description: 'Sessions', type: [EventSession] })
+  @ApiResponse({ status: 404, description: 'Event not found' })
+  async getSessions(
+    @Param('id') id: string,
+    @Req() req: any,
+  ): Promise<EventSession[]> {
+    return this.sessionService.getSessions(id, req.user ?? undefined);
+  }
+
+  // ----------------- Add Session ----------------- \\
+  @Post(':id/sessions')
+  @UseGuards(AuthGuard())
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: "Add a session to an event's agenda",
+    description:
+      'The session must fall inside the event and is added at the end of the agenda. Requires edit permission on the event.',
+  })
+  @ApiParam({ name: 'id', description: 'Event ID (UUID)' })
+  @ApiBody({ type: CreateSessionDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Session added',
+    type: EventSession,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Invalid times, a session outside the event, an unknown room or too many sessions',
+  })
+  @ApiResponse({ status: 401, description: 'Missing edit permission' })
+  @ApiResponse({ status: 404, description: 'Event not found' })
+  async addSession(
+    @Param('id') id: string,
+    @Body() createSessionDto: CreateSessionDto,
+    @Req() req: any,
+  ): Promise<EventSession> {
+    return this.sessionService.addSession(id, createSessionDto, req.user);
+  }
+
+  // ----------------- Reorder Sessions ----------------- \\
+  @Put(':id/sessions/order')
+  @UseGuards(AuthGuard())
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: "Reorder an event's agenda",
+    description: 'Requires edit permission on the event.',
+  })
+  @ApiParam({ name: 'id', description: 'Event ID (UUID)' })
+  @ApiBody({ type: ReorderSessionsDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Sessions in their new order',
+    type: [EventSession],
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'The IDs are not every session of the event',
+  })
+  @ApiResponse({ status: 401, description: 'Missing edit permission' })
+  @ApiResponse({ status: 404, description: 'Event not found' })
+  async reorderSessions(
+    @Param('id') id: string,
+    @Body() reorderSessionsDto: ReorderSessionsDto,
+    @Req() req: any,
+  ): Promise<EventSession[]> {
+    return this.sessionService.reorderSessions(
+      id,
+      reorderSessionsDto,
+      req.user,
+    );
+  }
+
+  // ----------------- Update Session ----------------- \\
+  @Put(':id/sessions/:sessionId')
+  @UseGuards(AuthGuard())
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Update a session',
+    description:
+      'The session must still fall inside the event. Requires edit permission on the event.',
+  })
+  @ApiParam({ name: 'id', description: 'Event ID (UUID)' })
+  @ApiParam({ name: 'sessionId', description: 'Session ID (UUID)' })
+  @ApiBody({ type: UpdateSessionDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Session updated',
+    type: EventSession,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid times, a session outside the event or unknown room',
+  })
+  @ApiResponse({ status: 401, description: 'Missing edit permission' })
+  @ApiResponse({ status: 404, description: 'Event or session not found' })
+  async updateSession(
+    @Param('id') id: string,
+    @Param('sessionId') sessionId: string,
+    @Body() updateSessionDto: UpdateSessionDto,
+    @Req() req: any,
+  ): Promise<EventSession> {
+    return this.sessionService.updateSession(
+      id,
+      sessionId,
+      updateSessionDto,
+      req.user,
+    );
+  }
+
+  // ----------------- Delete Session ----------------- \\
+  @Delete(':id/sessions/:sessionId')
+  @UseGuards(AuthGuard())
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Remove a session from the agenda',
+    description: 'Requires edit permission on the event.',
+  })
+  @ApiParam({ name: 'id', description: 'Event ID (UUID)' })
+  @ApiParam({ name: 'sessionId', description: 'Session ID (UUID)' })
+  @ApiResponse({ status: 200, description: 'Session deleted' })
+  @ApiResponse({ status: 401, description: 'Missing edit permission' })
+  @ApiResponse({ status: 404, description: 'Event or session not found' })
+  async deleteSession(
+    @Param('id') id: string,
+    @Param('sessionId') sessionId: string,
+    @Req() req: any,
+  ): Promise<void> {
+    return this.sessionService.deleteSession(id, sessionId, req.user);
+  }
+}
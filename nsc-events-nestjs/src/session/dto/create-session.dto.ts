@@ -0,0 +1,69 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsISO8601,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateSessionDto {
+  @ApiProperty({ example: 'Keynote' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  readonly title: string;
+
+  @ApiPropertyOptional({ example: 'Opening remarks from the president' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  readonly description?: string;
+
+  @ApiProperty({
+    description: 'Must fall inside the event',
+    example: '2025-01-15T11:00:00-08:00',
+  })
+  @IsISO8601(
+    { strict: true },
+    { message: 'startDate must be a valid ISO 8601 datetime string' },
+  )
+  readonly startDate: string;
+
+  @ApiProperty({
+    description: 'After startDate, and no later than the event ends',
+    example: '2025-01-15T12:00:00-08:00',
+  })
+  @IsISO8601(
+    { strict: true },
+    { message: 'endDate must be a valid ISO 8601 datetime string' },
+  )
+  readonly endDate: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Where the session is held when it differs from the event, e.g. Breakout room B',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  readonly location?: string;
+
+  @ApiPropertyOptional({
+    description: 'Campus room, which replaces the location text',
+  })
+  @IsOptional()
+  @IsUUID()
+  readonly roomId?: string | null;
+
+  @ApiPropertyOptional({ type: [String], example: ['Dr. Jane Smith'] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  readonly speakers?: string[];
+}
@@ -0,0 +1,13 @@
+import { ArrayUnique, IsArray, IsUUID } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ReorderSessionsDto {
+  @ApiProperty({
+    description: 'Every session of the event, in agenda order',
+    type: [String],
+  })
+  @IsArray()
+  @ArrayUnique()
+  @IsUUID('all', { each: true })
+  readonly sessionIds: string[];
+}
@@ -0,0 +1,74 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  JoinColumn,
+  JoinTable,
+  ManyToMany,
+  ManyToOne,
+} from 'typeorm';
+import { Room } from '../../venue/entities/room.entity';
+import { Speaker } from '../../speaker/entities/speaker.entity';
+
+/**
+ * One item on an event's agenda, such as a keynote or a breakout. Sessions
+ * fall inside the event's start and end time.
+ */
+@Entity('event_sessions')
+export class EventSession {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column({ type: 'uuid' })
+  activityId: string;
+
+  // Place on the agenda. Parallel sessions are shown in this order.
+  @Column({ type: 'int', default: 0 })
+  position: number;
+
+  @Column({ length: 200 })
+  title: string;
+
+  @Column({ type: 'text', default: '' })
+  description: string;
+
+  @Column({ type: 'timestamptz' })
+  startDate: Date;
+
+  @Column({ type: 'timestamptz' })
+  endDate: Date;
+
+  // Free text, empty when the session is wherever the event is. For
+  // sessions in a room it is a copy of the room's label.
+  @Column({ default: '' })
+  location: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  roomId?: string | null;
+
+  @ManyToOne(() => Room, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'roomId' })
+  room?: Room | null;
+
+  // Copy of the names of `speakerProfiles`, like the event's speakers
+  @Column('simple-array', { default: '' })
+  speakers: string[];
+
+  @ManyToMany(() => Speaker)
+  @JoinTable({
+    name: 'session_speakers',
+    joinColumn: { name: 'sessionId' },
+    inverseJoinColumn: { name: 'speakerId' },
+  })
+  speakerProfiles?: Speaker[];
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
@@ -0,0 +1,503 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import {
+  BadRequestException,
+  HttpException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { MAX_SESSIONS_PER_EVENT, SessionService } from './session.service';
+import { EventSession } from '../entities/event-session.entity';
+import {
+  Activity,
+  PublicationStatus,
+} from '../../activity/entities/activity.entity';
+import { ActivityService } from '../../activity/services/activity/activity.service';
+import { VenueService } from '../../venue/services/venue.service';
+import { SpeakerService } from '../../speaker/services/speaker.service';
+import { Role } from '../../user/entities/user.entity';
+import { EventActor } from '../../collaborator/utils/permissions.util';
+
+describe('SessionService', () => {
+  let service: SessionService;
+  let sessionRepository: {
+    find: jest.Mock;
+    findOne: jest.Mock;
+    count: jest.Mock;
+    maximum: jest.Mock;
+    create: jest.Mock;
+    save: jest.Mock;
+    remove: jest.Mock;
+  };
+  let activityRepository: { createQueryBuilder: jest.Mock };
+  let activityService: {
+    getActivityById: jest.Mock;
+    getVisibleActivity: jest.Mock;
+    hasEventPermission: jest.Mock;
+  };
+  let venueService: { resolveRoom: jest.Mock };
+  let speakerService: { resolveSpeakers: jest.Mock };
+  let manager: {
+    getRepository: jest.Mock;
+    createQueryBuilder: jest.Mock;
+  };
+  let updateBuilder: {
+    update: jest.Mock;
+    set: jest.Mock;
+    where: jest.Mock;
+    execute: jest.Mock;
+  };
+
+  const user = { id: 'creator-123', role: Role.creator };
+  // 9 AM to 5 PM Pacific
+  const activity = {
+    id: 'activity-1',
+    eventTitle: 'Career Fair',
+    createdByUserId: 'creator-123',
+    startDate: new Date('2025-01-15T17:00:00Z'),
+    endDate: new Date('2025-01-16T01:00:00Z'),
+    timeZone: 'America/Los_Angeles',
+  };
+  const session = {
+    id: 'session-1',
+    activityId: 'activity-1',
+    position: 0,
+    title: 'Keynote',
+    description: '',
+    startDate: new Date('2025-01-15T18:00:00Z'),
+    endDate: new Date('2025-01-15T19:00:00Z'),
+    location: '',
+    roomId: null,
+    speakers: [],
+  } as EventSession;
+  const room = {
+    id: 'room-1',
+    roomNumber: '1234',
+    name: 'Library Commons',
+    venue: { name: 'Library', code: 'LIB' },
+  };
+
+  beforeEach(async () => {
+    sessionRepository = {
+      find: jest.fn().mockResolvedValue([session]),
+      findOne: jest.fn().mockResolvedValue({ ...session }),
+      count: jest.fn().mockResolvedValue(1),
+      maximum: jest.fn().mockResolvedValue(0),
+      create: jest.fn((values) => values),
+      save: jest.fn((values) => Promise.resolve(values)),
+      remove: jest.fn(),
+    };
+    updateBuilder = {
+      update: jest.fn().mockReturnThis(),
+      set: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      execute: jest.fn(),
+    };
+    manager = {
+      getRepository: jest.fn(() => sessionRepository),
+      createQueryBuilder: jest.fn(() => updateBuilder),
+    };
+    activityRepository = { createQueryBuilder: jest.fn() };
+    const findActivity = (id: string) =>
+      id === 'activity-1'
+        ? Promise.resolve(activity)
+        : Promise.reject(new NotFoundException('Activity not found'));
+    activityService = {
+      getActivityById: jest.fn(findActivity),
+      getVisibleActivity: jest.fn(findActivity),
+      hasEventPermission: jest.fn().mockResolvedValue(true),
+    };
+    venueService = { resolveRoom: jest.fn().mockResolvedValue(room) };
+    speakerService = {
+      resolveSpeakers: jest.fn((names: string[]) =>
+        Promise.resolve(
+          names
+            .map((name) => name.trim())
+            .filter(Boolean)
+            .map((name) => ({ id: 'speaker-1', name })),
+        ),
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionService,
+        {
+          provide: getRepositoryToken(EventSession),
+          useValue: sessionRepository,
+        },
+        {
+          provide: getRepositoryToken(Activity),
+          useValue: activityRepository,
+        },
+        { provide: ActivityService, useValue: activityService },
+        { provide: VenueService, useValue: venueService },
+        { provide: SpeakerService, useValue: speakerService },
+        {
+          provide: DataSource,
+          useValue: { transaction: jest.fn((work) => work(manager)) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SessionService>(SessionService);
+  });
+
+  describe('getSessions', () => {
+    it('should list sessions in agenda order', async () => {
+      await expect(service.getSessions('activity-1')).resolves.toEqual([
+        session,
+      ]);
+      expect(sessionRepository.find).toHaveBeenCalledWith({
+        where: { activityId: 'activity-1' },
+        relations: { speakerProfiles: true },
+        order: { position: 'ASC', startDate: 'ASC' },
+      });
+    });
+
+    it('should throw NotFoundException for unknown events', async () => {
+      await expect(service.getSessions('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('should hide the agenda of a draft event from anonymous visitors', async () => {
+      // Unlisted events are only visible to people who can edit them
+      activityService.getVisibleActivity.mockImplementation(
+        (id: string, viewer?: EventActor) =>
+          viewer
+            ? Promise.resolve({
+                ...activity,
+                publicationStatus: PublicationStatus.draft,
+              })
+            : Promise.reject(new NotFoundException('Activity not found')),
+      );
+
+      await expect(service.getSessions('activity-1')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(sessionRepository.find).not.toHaveBeenCalled();
+
+      await expect(service.getSessions('activity-1', user)).resolves.toEqual([
+        session,
+      ]);
+      expect(activityService.getVisibleActivity).toHaveBeenLastCalledWith(
+        'activity-1',
+        user,
+      );
+    });
+  });
+
+  describe('addSession', () => {
+    const dto = {
+      title: ' Panel ',
+      startDate: '2025-01-15T11:00:00-08:00',
+      endDate: '2025-01-15T12:00:00-08:00',
+      speakers: [' Dr. Jane Smith ', ''],
+    };
+
+    it('should add the session at the end of the agenda', async () => {
+      const result = await service.addSession('activity-1', dto, user);
+
+      expect(result).toEqual({
+        activityId: 'activity-1',
+        position: 1,
+        title: 'Panel',
+        description: '',
+        startDate: new Date('2025-01-15T19:00:00Z'),
+        endDate: new Date('2025-01-15T20:00:00Z'),
+        roomId: null,
+        location: '',
+        speakers: ['Dr. Jane Smith'],
+        speakerProfiles: [{ id: 'speaker-1', name: 'Dr. Jane Smith' }],
+      });
+    });
+
+    it('should start the agenda at the first position', async () => {
+      sessionRepository.count.mockResolvedValue(0);
+      sessionRepository.maximum.mockResolvedValue(null);
+
+      const result = await service.addSession('activity-1', dto, user);
+
+      expect(result.position).toBe(0);
+    });
+
+    it("should use the room's label as the location", async () => {
+      const result = await service.addSession(
+        'activity-1',
+        { ...dto, roomId: 'room-1', location: 'ignored' },
+        user,
+      );
+
+      expect(venueService.resolveRoom).toHaveBeenCalledWith(
+        'room-1',
+        undefined,
+      );
+      expect(result.roomId).toBe('room-1');
+      expect(result.location).toBe('Library Commons, Library (LIB) 1234');
+    });
+
+    it('should reject sessions outside the event', async () => {
+      await expect(
+        service.addSession(
+          'activity-1',
+          { ...dto, endDate: '2025-01-15T17:30:00-08:00' },
+          user,
+        ),
+      ).rejects.toThrow('Sessions must start and end within the event');
+      await expect(
+        service.addSession(
+          'activity-1',
+          { ...dto, startDate: '2025-01-15T08:30:00-08:00' },
+          user,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(sessionRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject sessions that end before they start', async () => {
+      await expect(
+        service.addSession(
+          'activity-1',
+          { ...dto, endDate: '2025-01-15T10:00:00-08:00' },
+          user,
+        ),
+      ).rejects.toThrow('endDate must be after startDate');
+    });
+
+    it('should limit the number of sessions', async () => {
+      sessionRepository.count.mockResolvedValue(MAX_SESSIONS_PER_EVENT);
+
+      await expect(service.addSession('activity-1', dto, user)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should require edit permission', async () => {
+      activityService.hasEventPermission.mockResolvedValue(false);
+
+      await expect(service.addSession('activity-1', dto, user)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should wrap unexpected errors', async () => {
+      sessionRepository.save.mockRejectedValue(new Error('db down'));
+
+      await expect(service.addSession('activity-1', dto, user)).rejects.toThrow(
+        HttpException,
+      );
+    });
+  });
+
+  describe('updateSession', () => {
+    it('should move the session, checking it against the event', async () => {
+      const result = await service.updateSession(
+        'activity-1',
+        'session-1',
+        { endDate: '2025-01-15T11:30:00-08:00' },
+        user,
+      );
+
+      expect(result.startDate).toEqual(session.startDate);
+      expect(result.endDate).toEqual(new Date('2025-01-15T19:30:00Z'));
+    });
+
+    it('should link the speakers to their profiles', async () => {
+      speakerService.resolveSpeakers.mockResolvedValue([
+        { id: 'speaker-1', name: 'Dr. Jane Smith' },
+      ]);
+
+      const result = await service.updateSession(
+        'activity-1',
+        'session-1',
+        { speakers: ['dr. jane smith'] },
+        user,
+      );
+
+      expect(speakerService.resolveSpeakers).toHaveBeenCalledWith([
+        'dr. jane smith',
+      ]);
+      expect(result.speakers).toEqual(['Dr. Jane Smith']);
+      expect(result.speakerProfiles).toEqual([
+        { id: 'speaker-1', name: 'Dr. Jane Smith' },
+      ]);
+    });
+
+    it('should reject moves outside the event', async () => {
+      await expect(
+        service.updateSession(
+          'activity-1',
+          'session-1',
+          { endDate: '2025-01-15T18:00:00-08:00' },
+          user,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should keep the location unless it is changed', async () => {
+      sessionRepository.findOne.mockResolvedValue({
+        ...session,
+        roomId: 'room-1',
+        location: 'Library Commons, Library (LIB) 1234',
+      });
+
+      const result = await service.updateSession(
+        'activity-1',
+        'session-1',
+        { title: 'Opening keynote' },
+        user,
+      );
+
+      expect(result.title).toBe('Opening keynote');
+      expect(result.roomId).toBe('room-1');
+      expect(venueService.resolveRoom).not.toHaveBeenCalled();
+    });
+
+    it('should move the session out of its room', async () => {
+      sessionRepository.findOne.mockResolvedValue({
+        ...session,
+        roomId: 'room-1',
+        location: 'Library Commons, Library (LIB) 1234',
+      });
+
+      const result = await service.updateSession(
+        'activity-1',
+        'session-1',
+        { roomId: null, location: 'Courtyard' },
+        user,
+      );
+
+      expect(result.roomId).toBeNull();
+      expect(result.location).toBe('Courtyard');
+    });
+
+    it('should throw NotFoundException for sessions of other events', async () => {
+      sessionRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.updateSession('activity-1', 'session-9', { title: 'x' }, user),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('reorderSessions', () => {
+    const second = { ...session, id: 'session-2', position: 1 };
+
+    it('should save the new order', async () => {
+      sessionRepository.find.mockResolvedValue([{ ...session }, { ...second }]);
+
+      const result = await service.reorderSessions(
+        'activity-1',
+        { sessionIds: ['session-2', 'session-1'] },
+        user,
+      );
+
+      expect(result.map(({ id, position }) => ({ id, position }))).toEqual([
+        { id: 'session-2', position: 0 },
+        { id: 'session-1', position: 1 },
+      ]);
+    });
+
+    it('should require every session of the event', async () => {
+      sessionRepository.find.mockResolvedValue([{ ...session }, { ...second }]);
+
+      await expect(
+        service.reorderSessions(
+          'activity-1',
+          { sessionIds: ['session-2'] },
+          user,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.reorderSessions(
+          'activity-1',
+          { sessionIds: ['session-2', 'session-3'] },
+          user,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('deleteSession', () => {
+    it('should remove the session', async () => {
+      await service.deleteSession('activity-1', 'session-1', user);
+
+      expect(sessionRepository.remove).toHaveBeenCalledWith(session);
+    });
+
+    it('should require edit permission', async () => {
+      activityService.hasEventPermission.mockResolvedValue(false);
+
+      await expect(
+        service.deleteSession('activity-1', 'session-1', user),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(sessionRepository.remove).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('migrateScheduleText', () => {
+    const withSchedule = (eventSchedule: string, id = 'activity-1') => ({
+      ...activity,
+      id,
+      eventSchedule,
+    });
+
+    beforeEach(() => {
+      activityRepository.createQueryBuilder.mockReturnValue({
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        getMany: jest
+          .fn()
+          .mockResolvedValue([
+            withSchedule('10:00 AM - Registration\n11:00 AM - Keynote'),
+            withSchedule('Bring a laptop', 'activity-2'),
+          ]),
+      });
+    });
+
+    it('should turn parsed schedules into sessions and clear the text', async () => {
+      const result = await service.migrateScheduleText();
+
+      expect(result).toEqual({
+        dryRun: false,
+        migrated: [
+          { id: 'activity-1', eventTitle: 'Career Fair', sessions: 2 },
+        ],
+        skipped: [{ id: 'activity-2', eventTitle: 'Career Fair' }],
+      });
+      expect(sessionRepository.save).toHaveBeenCalledWith([
+        {
+          title: 'Registration',
+          startDate: new Date('2025-01-15T18:00:00Z'),
+          endDate: new Date('2025-01-15T19:00:00Z'),
+          activityId: 'activity-1',
+          position: 0,
+        },
+        {
+          title: 'Keynote',
+          startDate: new Date('2025-01-15T19:00:00Z'),
+          endDate: new Date('2025-01-16T01:00:00Z'),
+          activityId: 'activity-1',
+          position: 1,
+        },
+      ]);
+      expect(updateBuilder.set).toHaveBeenCalledWith(
+        expect.objectContaining({ eventSchedule: '' }),
+      );
+      expect(updateBuilder.where).toHaveBeenCalledWith('id = :id', {
+        id: 'activity-1',
+      });
+    });
+
+    it('should only report what would change on a dry run', async () => {
+      const result = await service.migrateScheduleText({ dryRun: true });
+
+      expect(result.dryRun).toBe(true);
+      expect(result.migrated).toHaveLength(1);
+      expect(sessionRepository.save).not.toHaveBeenCalled();
+      expect(updateBuilder.execute).not.toHaveBeenCalled();
+    });
+  });
+});
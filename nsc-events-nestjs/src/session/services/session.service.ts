@@ -0,0 +1,410 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, Repository } from 'typeorm';
+import { EventSession } from '../entities/event-session.entity';
+import { CreateSessionDto } from '../dto/create-session.dto';
+import { UpdateSessionDto } from '../dto/update-session.dto';
+import { ReorderSessionsDto } from '../dto/reorder-sessions.dto';
+import {
+  isWithinEvent,
+  parseScheduleText,
+  TimeWindow,
+} from '../utils/schedule.util';
+import { Activity } from '../../activity/entities/activity.entity';
+import { ActivityService } from '../../activity/services/activity/activity.service';
+import { VenueService } from '../../venue/services/venue.service';
+import { formatRoomLocation } from '../../venue/utils/location.util';
+import { SpeakerService } from '../../speaker/services/speaker.service';
+import {
+  EventActor,
+  EventPermission,
+} from '../../collaborator/utils/permissions.util';
+import { DEFAULT_TIME_ZONE } from '../../common/time-zone.util';
+
+export const MAX_SESSIONS_PER_EVENT = 50;
+
+export interface ScheduleMigrationResult {
+  dryRun: boolean;
+  // Events whose schedule text became sessions, or would on a dry run
+  migrated: { id: string; eventTitle: string; sessions: number }[];
+  // Events whose schedule text didn't parse; their text is left alone
+  skipped: { id: string; eventTitle: string }[];
+}
+
+@Injectable()
+export class SessionService {
+  constructor(
+    @InjectRepository(EventSession)
+    private readonly sessionRepository: Repository<EventSession>,
+    @InjectRepository(Activity)
+    private readonly activityRepository: Repository<Activity>,
+    private readonly activityService: ActivityService,
+    private readonly venueService: VenueService,
+    private readonly speakerService: SpeakerService,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  // ----------------- Get Sessions ----------------- \\
+  // In agenda order, then by start time. Only the people who can edit an
+  // unlisted event see its agenda.
+  async getSessions(
+    activityId: string,
+    user?: EventActor,
+  ): Promise<EventSession[]> {
+    try {
+      await this.activityService.getVisibleActivity(activityId, user);
+      return await this.sessionRepository.find({
+        where: { activityId },
+        relations: { speakerProfiles: true },
+        order: { position: 'ASC', startDate: 'ASC' },
+      });
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error retrieving sessions',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Add Session ----------------- \\
+  // New sessions go to the end of the agenda
+  async addSession(
+    activityId: string,
+    createSessionDto: CreateSessionDto,
+    user: EventActor,
+  ): Promise<EventSession> {
+    try {
+      const activity = await this.assertCanEdit(activityId, user);
+
+      const count = await this.sessionRepository.count({
+        where: { activityId },
+      });
+      if (count >= MAX_SESSIONS_PER_EVENT) {
+        throw new BadRequestException(
+          `An event can have at most ${MAX_SESSIONS_PER_EVENT} sessions`,
+        );
+      }
+
+      const lastPosition = await this.sessionRepository.maximum('position', {
+        activityId,
+      });
+      const session = this.sessionRepository.create({
+        activityId,
+        position: lastPosition === null ? 0 : lastPosition + 1,
+        title: createSessionDto.title.trim(),
+        description: createSessionDto.description?.trim() ?? '',
+        ...this.toWindow(
+          createSessionDto.startDate,
+          createSessionDto.endDate,
+          activity,
+        ),
+        ...(await this.toLocation(
+          createSessionDto.roomId,
+          createSessionDto.location,
+        )),
+        ...(await this.toSpeakers(createSessionDto.speakers)),
+      });
+      return await this.sessionRepository.save(session);
+    } catch (error) {
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException ||
+        error instanceof UnauthorizedException
+      ) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error adding session',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Update Session ----------------- \\
+  async updateSession(
+    activityId: string,
+    sessionId: string,
+    updateSessionDto: UpdateSessionDto,
+    user: EventActor,
+  ): Promise<EventSession> {
+    try {
+      const activity = await this.assertCanEdit(activityId, user);
+      const session = await this.getSession(activityId, sessionId);
+
+      if (updateSessionDto.title !== undefined) {
+        session.title = updateSessionDto.title.trim();
+      }
+      if (updateSessionDto.description !== undefined) {
+        session.description = updateSessionDto.description.trim();
+      }
+      Object.assign(
+        session,
+        this.toWindow(
+          updateSessionDto.startDate ?? session.startDate,
+          updateSessionDto.endDate ?? session.endDate,
+          activity,
+        ),
+      );
+      if (
+        updateSessionDto.roomId !== undefined ||
+        updateSessionDto.location !== undefined
+      ) {
+        Object.assign(
+          session,
+          await this.toLocation(
+            updateSessionDto.roomId === undefined
+              ? session.roomId
+              : updateSessionDto.roomId,
+            updateSessionDto.location ?? session.location,
+            session.roomId,
+          ),
+        );
+      }
+      if (updateSessionDto.speakers !== undefined) {
+        Object.assign(
+          session,
+          await this.toSpeakers(updateSessionDto.speakers),
+        );
+      }
+
+      return await this.sessionRepository.save(session);
+    } catch (error) {
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException ||
+        error instanceof UnauthorizedException
+      ) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error updating session',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Reorder Sessions ----------------- \\
+  async reorderSessions(
+    activityId: string,
+    reorderSessionsDto: ReorderSessionsDto,
+    user: EventActor,
+  ): Promise<EventSession[]> {
+    try {
+      await this.assertCanEdit(activityId, user);
+      const sessions = await this.sessionRepository.find({
+        where: { activityId },
+      });
+      const { sessionIds } = reorderSessionsDto;
+      const byId = new Map(sessions.map((session) => [session.id, session]));
+      if (
+        sessionIds.length !== sessions.length ||
+        !sessionIds.every((id) => byId.has(id))
+      ) {
+        throw new BadRequestException(
+          'sessionIds must list every session of the event once',
+        );
+      }
+
+      const ordered = sessionIds.map((id, position) =>
+        Object.assign(byId.get(id), { position }),
+      );
+      return await this.sessionRepository.save(ordered);
+    } catch (error) {
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException ||
+        error instanceof UnauthorizedException
+      ) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error reordering sessions',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Delete Session ----------------- \\
+  async deleteSession(
+    activityId: string,
+    sessionId: string,
+    user: EventActor,
+  ): Promise<void> {
+    try {
+      await this.assertCanEdit(activityId, user);
+      const session = await this.getSession(activityId, sessionId);
+      await this.sessionRepository.remove(session);
+    } catch (error) {
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException ||
+        error instanceof UnauthorizedException
+      ) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error deleting session',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Migrate Schedule Text ----------------- \\
+  /**
+   * Turns the eventSchedule text of events without sessions into sessions,
+   * where every line of it parses. The text of migrated events is cleared so
+   * the agenda isn't shown twice.
+   */
+  async migrateScheduleText(
+    options: { dryRun?: boolean } = {},
+  ): Promise<ScheduleMigrationResult> {
+    const dryRun = options.dryRun ?? false;
+    const events = await this.activityRepository
+      .createQueryBuilder('activity')
+      .where(`activity."eventSchedule" <> ''`)
+      .andWhere(
+        `NOT EXISTS (SELECT 1 FROM event_sessions session WHERE session."activityId" = activity.id)`,
+      )
+      .getMany();
+
+    const result: ScheduleMigrationResult = {
+      dryRun,
+      migrated: [],
+      skipped: [],
+    };
+    for (const event of events) {
+      const parsed = parseScheduleText(event.eventSchedule, {
+        startDate: event.startDate,
+        endDate: event.endDate,
+        timeZone: event.timeZone || DEFAULT_TIME_ZONE,
+      });
+      if (!parsed) {
+        result.skipped.push({ id: event.id, eventTitle: event.eventTitle });
+        continue;
+      }
+
+      if (!dryRun) {
+        await this.dataSource.transaction(async (manager) => {
+          await manager.getRepository(EventSession).save(
+            parsed.map((session, position) =>
+              manager.getRepository(EventSession).create({
+                ...session,
+                activityId: event.id,
+                position,
+              }),
+            ),
+          );
+          await manager
+            .createQueryBuilder()
+            .update(Activity)
+            // Moving the text doesn't count as an edit of the event
+            .set({ eventSchedule: '', updatedAt: () => '"updatedAt"' })
+            .where('id = :id', { id: event.id })
+            .execute();
+        });
+      }
+      result.migrated.push({
+        id: event.id,
+        eventTitle: event.eventTitle,
+        sessions: parsed.length,
+      });
+    }
+    return result;
+  }
+
+  /** The agenda is managed by whoever may edit the event */
+  private async assertCanEdit(
+    activityId: string,
+    user: EventActor,
+  ): Promise<Activity> {
+    const activity = await this.activityService.getActivityById(activityId);
+    if (
+      !(await this.activityService.hasEventPermission(
+        activity,
+        user,
+        EventPermission.edit,
+      ))
+    ) {
+      throw new UnauthorizedException(
+        'You do not have permission to change the agenda of this event',
+      );
+    }
+    return activity;
+  }
+
+  private async getSession(
+    activityId: string,
+    sessionId: string,
+  ): Promise<EventSession> {
+    const session = await this.sessionRepository.findOne({
+      where: { id: sessionId, activityId },
+    });
+    if (!session) {
+      throw new NotFoundException('Session not found');
+    }
+    return session;
+  }
+
+  /** Session times, which must fall inside the event */
+  private toWindow(
+    startDate: string | Date,
+    endDate: string | Date,
+    activity: TimeWindow,
+  ): TimeWindow {
+    const window = {
+      startDate: new Date(startDate),
+      endDate: new Date(endDate),
+    };
+    if (window.endDate <= window.startDate) {
+      throw new BadRequestException('endDate must be after startDate');
+    }
+    if (
+      !isWithinEvent(window, {
+        startDate: new Date(activity.startDate),
+        endDate: new Date(activity.endDate),
+      })
+    ) {
+      throw new BadRequestException(
+        'Sessions must start and end within the event',
+      );
+    }
+    return window;
+  }
+
+  /**
+   * Location columns of a session. Sessions in a room show the room's
+   * label, like events do.
+   */
+  private async toLocation(
+    roomId: string | null | undefined,
+    location: string | undefined,
+    currentRoomId?: string | null,
+  ): Promise<Pick<EventSession, 'roomId' | 'location'>> {
+    if (!roomId) {
+      return { roomId: null, location: location?.trim() ?? '' };
+    }
+    const room = await this.venueService.resolveRoom(roomId, currentRoomId);
+    return { roomId: room.id, location: formatRoomLocation(room) };
+  }
+
+  /** Speakers of a session, linked to their profiles like the event's */
+  private async toSpeakers(
+    names: string[] | undefined,
+  ): Promise<Pick<EventSession, 'speakers' | 'speakerProfiles'>> {
+    const speakers = await this.speakerService.resolveSpeakers(names ?? []);
+    return {
+      speakers: speakers.map((speaker) => speaker.name),
+      speakerProfiles: speakers,
+    };
+  }
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { SessionController } from './controllers/session.controller';
+import { SessionService } from './services/session.service';
+import { EventSession } from './entities/event-session.entity';
+import { Activity } from '../activity/entities/activity.entity';
+import { ActivityModule } from '../activity/activity.module';
+import { AuthModule } from '../auth/auth.module';
+import { VenueModule } from '../venue/venue.module';
+import { SpeakerModule } from '../speaker/speaker.module';
+
+@Module({
+  imports: [
+    AuthModule,
+    ActivityModule,
+    VenueModule,
+    SpeakerModule,
+    TypeOrmModule.forFeature([EventSession, Activity]),
+  ],
+  controllers: [SessionController],
+  providers: [SessionService],
+})
+export class SessionModule {}
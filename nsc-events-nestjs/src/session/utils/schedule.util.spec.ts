@@ -0,0 +1,119 @@
+import { isWithinEvent, parseScheduleText } from './schedule.util';
+
+// 9 AM to 5 PM Pacific
+const event = {
+  startDate: new Date('2025-01-15T17:00:00Z'),
+  endDate: new Date('2025-01-16T01:00:00Z'),
+  timeZone: 'America/Los_Angeles',
+};
+
+describe('schedule.util', () => {
+  describe('isWithinEvent', () => {
+    it('accepts sessions inside the event, edges included', () => {
+      expect(isWithinEvent(event, event)).toBe(true);
+      expect(
+        isWithinEvent(
+          {
+            startDate: new Date('2025-01-15T18:00:00Z'),
+            endDate: new Date('2025-01-15T19:00:00Z'),
+          },
+          event,
+        ),
+      ).toBe(true);
+    });
+
+    it('rejects sessions that start early or end late', () => {
+      expect(
+        isWithinEvent(
+          {
+            startDate: new Date('2025-01-15T16:30:00Z'),
+            endDate: new Date('2025-01-15T18:00:00Z'),
+          },
+          event,
+        ),
+      ).toBe(false);
+      expect(
+        isWithinEvent(
+          {
+            startDate: new Date('2025-01-16T00:30:00Z'),
+            endDate: new Date('2025-01-16T01:30:00Z'),
+          },
+          event,
+        ),
+      ).toBe(false);
+    });
+  });
+
+  describe('parseScheduleText', () => {
+    it('reads one session per line in the event zone', () => {
+      expect(
+        parseScheduleText(
+          '10:00 AM - Registration\n11:00 AM - Keynote\n12:30 PM - Lunch',
+          event,
+        ),
+      ).toEqual([
+        {
+          title: 'Registration',
+          startDate: new Date('2025-01-15T18:00:00Z'),
+          endDate: new Date('2025-01-15T19:00:00Z'),
+        },
+        {
+          title: 'Keynote',
+          startDate: new Date('2025-01-15T19:00:00Z'),
+          endDate: new Date('2025-01-15T20:30:00Z'),
+        },
+        {
+          title: 'Lunch',
+          startDate: new Date('2025-01-15T20:30:00Z'),
+          endDate: new Date('2025-01-16T01:00:00Z'),
+        },
+      ]);
+    });
+
+    it('reads time ranges, bullets and other separators', () => {
+      expect(
+        parseScheduleText(
+          '• 9am to 9:45am: Coffee\n\n- 10:00-11:30 | Panel\n2 pm – 3 pm Workshop',
+          event,
+        ),
+      ).toEqual([
+        {
+          title: 'Coffee',
+          startDate: new Date('2025-01-15T17:00:00Z'),
+          endDate: new Date('2025-01-15T17:45:00Z'),
+        },
+        {
+          title: 'Panel',
+          startDate: new Date('2025-01-15T18:00:00Z'),
+          endDate: new Date('2025-01-15T19:30:00Z'),
+        },
+        {
+          title: 'Workshop',
+          startDate: new Date('2025-01-15T22:00:00Z'),
+          endDate: new Date('2025-01-15T23:00:00Z'),
+        },
+      ]);
+    });
+
+    it('places times without AM or PM inside the event', () => {
+      const [session] = parseScheduleText('1:30 - Closing remarks', event);
+
+      expect(session.startDate).toEqual(new Date('2025-01-15T21:30:00Z'));
+    });
+
+    it('gives up when a line is not a session', () => {
+      expect(
+        parseScheduleText('10:00 AM - Registration\nBring a laptop', event),
+      ).toBeNull();
+      expect(parseScheduleText('2025 planning session', event)).toBeNull();
+      expect(parseScheduleText('  \n ', event)).toBeNull();
+    });
+
+    it('gives up when a session falls outside the event', () => {
+      expect(parseScheduleText('7:00 PM - After party', event)).toBeNull();
+      expect(
+        parseScheduleText('11:00 AM - 10:00 AM Backwards', event),
+      ).toBeNull();
+    });
+  });
+});
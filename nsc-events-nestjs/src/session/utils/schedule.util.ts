@@ -0,0 +1,115 @@
+import { utcToZonedTime, zonedTimeToUtc } from '../../common/time-zone.util';
+
+export interface TimeWindow {
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface ParsedSession extends TimeWindow {
+  title: string;
+}
+
+// 10, 10:30, 10am, 10:30 p.m.
+const TIME = String.raw`(\d{1,2})(?::([0-5]\d))?(?:\s*([ap])\.?m\b\.?)?`;
+
+// "10:00 AM - Registration", "10:00-11:30: Keynote", "1pm to 2pm Lunch"
+const LINE = new RegExp(
+  String.raw`^${TIME}(?:\s*(?:-|–|—|to)\s*${TIME})?\s*(?:[-–—:|]\s*)?(\S.*)$`,
+  'i',
+);
+
+// List markers some creators start lines with
+const BULLET = /^\s*[*•·-]\s*/;
+
+/** Whether the session starts and ends inside the event */
+export function isWithinEvent(session: TimeWindow, event: TimeWindow): boolean {
+  return (
+    session.startDate >= event.startDate && session.endDate <= event.endDate
+  );
+}
+
+/**
+ * Reads the agenda creators used to type into eventSchedule, one session per
+ * line, e.g. "10:00 AM - Registration". Times are on the day the event
+ * starts, in its zone; a time without AM or PM is whichever one falls inside
+ * the event. Sessions without an end run until the next one starts.
+ * Returns null unless every line parses into a session inside the event.
+ */
+export function parseScheduleText(
+  text: string,
+  event: TimeWindow & { timeZone: string },
+): ParsedSession[] | null {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.replace(BULLET, '').trim())
+    .filter(Boolean);
+  if (lines.length === 0) {
+    return null;
+  }
+
+  const day = utcToZonedTime(event.startDate, event.timeZone);
+  const resolve = (
+    hourText: string,
+    minuteText: string | undefined,
+    meridiem: string | undefined,
+  ): Date | undefined => {
+    const hour = Number(hourText);
+    const minute = Number(minuteText ?? 0);
+    let hours: number[];
+    if (meridiem) {
+      if (hour < 1 || hour > 12) {
+        return undefined;
+      }
+      hours = [(hour % 12) + (meridiem.toLowerCase() === 'p' ? 12 : 0)];
+    } else {
+      hours = hour > 23 ? [] : hour >= 12 ? [hour] : [hour, hour + 12];
+    }
+    return hours
+      .map((h) =>
+        zonedTimeToUtc({ ...day, hour: h, minute, second: 0 }, event.timeZone),
+      )
+      .find((date) => date >= event.startDate && date <= event.endDate);
+  };
+
+  const parsed: { title: string; startDate: Date; endDate?: Date }[] = [];
+  for (const line of lines) {
+    const match = LINE.exec(line);
+    if (!match) {
+      return null;
+    }
+    const [, startHour, startMinute, startMeridiem] = match;
+    const [, , , , endHour, endMinute, endMeridiem, title] = match;
+    // a bare number is more likely part of the text than a time
+    if (!startMinute && !startMeridiem) {
+      return null;
+    }
+
+    const startDate = resolve(
+      startHour,
+      startMinute,
+      startMeridiem ?? endMeridiem,
+    );
+    const endDate = endHour
+      ? resolve(endHour, endMinute, endMeridiem ?? startMeridiem)
+      : undefined;
+    if (!startDate || (endHour && (!endDate || endDate <= startDate))) {
+      return null;
+    }
+    parsed.push({ title: title.trim().slice(0, 200), startDate, endDate });
+  }
+
+  const starts = parsed
+    .map((session) => session.startDate)
+    .sort((a, b) => a.getTime() - b.getTime());
+  const sessions = parsed.map((session) => ({
+    title: session.title,
+    startDate: session.startDate,
+    endDate:
+      session.endDate ??
+      starts.find((start) => start > session.startDate) ??
+      event.endDate,
+  }));
+  return sessions.every((session) => session.endDate > session.startDate)
+    ? sessions
+    : null;
+}
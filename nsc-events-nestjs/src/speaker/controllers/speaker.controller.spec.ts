@@ -0,0 +1,90 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PassportModule } from '@nestjs/passport';
+import { BadRequestException } from '@nestjs/common';
+import { SpeakerController } from './speaker.controller';
+import { SpeakerService } from '../services/speaker.service';
+
+const mockSpeakerService = {
+  getSpeakers: jest.fn(),
+  getSpeakerBySlug: jest.fn(),
+  getSpeakerEvents: jest.fn(),
+  createSpeaker: jest.fn(),
+  updateSpeaker: jest.fn(),
+  uploadHeadshot: jest.fn(),
+  deleteSpeaker: jest.fn(),
+};
+
+describe('SpeakerController', () => {
+  let controller: SpeakerController;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [PassportModule.register({ defaultStrategy: 'jwt' })],
+      controllers: [SpeakerController],
+      providers: [{ provide: SpeakerService, useValue: mockSpeakerService }],
+    }).compile();
+
+    controller = module.get<SpeakerController>(SpeakerController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should list speakers, optionally of one event', async () => {
+    mockSpeakerService.getSpeakers.mockResolvedValue([{ slug: 'jane-smith' }]);
+
+    const result = await controller.getSpeakers('activity-1');
+
+    expect(result).toEqual([{ slug: 'jane-smith' }]);
+    expect(mockSpeakerService.getSpeakers).toHaveBeenCalledWith('activity-1');
+  });
+
+  it('should look speakers and their events up by slug', async () => {
+    await controller.getSpeaker('jane-smith');
+    await controller.getSpeakerEvents('jane-smith');
+
+    expect(mockSpeakerService.getSpeakerBySlug).toHaveBeenCalledWith(
+      'jane-smith',
+    );
+    expect(mockSpeakerService.getSpeakerEvents).toHaveBeenCalledWith(
+      'jane-smith',
+    );
+  });
+
+  it('should pass speaker changes through', async () => {
+    await controller.createSpeaker({ name: 'Jane Smith' });
+    await controller.updateSpeaker('speaker-1', { bio: 'Researcher' });
+    await controller.deleteSpeaker('speaker-1');
+
+    expect(mockSpeakerService.createSpeaker).toHaveBeenCalledWith({
+      name: 'Jane Smith',
+    });
+    expect(mockSpeakerService.updateSpeaker).toHaveBeenCalledWith('speaker-1', {
+      bio: 'Researcher',
+    });
+    expect(mockSpeakerService.deleteSpeaker).toHaveBeenCalledWith('speaker-1');
+  });
+
+  describe('uploadHeadshot', () => {
+    it('should upload the headshot', async () => {
+      const file = { originalname: 'jane.jpg' } as Express.Multer.File;
+
+      await controller.uploadHeadshot('speaker-1', file);
+
+      expect(mockSpeakerService.uploadHeadshot).toHaveBeenCalledWith(
+        'speaker-1',
+        file,
+      );
+    });
+
+    it('should reject a request without a file', async () => {
+      await expect(
+        controller.uploadHeadshot('speaker-1', undefined),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockSpeakerService.uploadHeadshot).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Put,
+  Query,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiBody,
+  ApiConsumes,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { SpeakerEvent, SpeakerService } from '../services/speaker.service';
+import { Speaker } from '../entities/speaker.entity';
+import { CreateSpeakerDto } from '../dto/create-speaker.dto';
+import { UpdateSpeakerDto } from '../dto/update-speaker.dto';
+import { RoleGuard } from '../../auth/role.guard';
+import { Roles } from '../../auth/roles.decorator';
+
+@ApiTags('Speakers')
+@Controller('speakers') // final path is /api/speakers (global prefix 'api')
+export class SpeakerController {
+  constructor(private readonly speakerService: SpeakerService) {}
+
+  // ----------------- List Speakers ----------------- \\
+  @Get()
+  @ApiOperation({
+    summary: 'List speakers',
+    description:
+      "Every speaker sorted by name, or an event's speakers in the order it lists them",
+  })
+  @ApiQuery({
+    name: 'eventId',
+    required: false,
+    description: 'Only the speakers of this event (UUID)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'List of speakers',
+    type: [Speaker],
+  })
+  @ApiResponse({ status: 404, description: 'Event not found' })
+  async getSpeakers(@Query('eventId') eventId?: string): Promise<Speaker[]> {
+    return this.speakerService.getSpeakers(eventId);
+  }
+
+  // ----------------- Get Speaker ----------------- \\
+  @Get(':slug')
+  @ApiOperation({ summary: 'Get a speaker by slug' })
+  @ApiParam({ name: 'slug', example: 'jane-smith' })
+  @ApiResponse({ status: 200, description: 'Speaker', type: Speaker })
+  @ApiResponse({ status: 404, description: 'Speaker not found' })
+  async getSpeaker(@Param('slug') slug: string): Promise<Speaker> {
+    return this.speakerService.getSpeakerBySlug(slug);
+  }
+
+  // ----------------- Get Speaker Events ----------------- \\
+  @Get(':slug/events')
+  @ApiOperation({
+    summary: 'Events a speaker appears at',
+    description:
+      'Published events the speaker is on or speaks at a session of, newest first, past events included',
+  })
+  @ApiParam({ name: 'slug', example: 'jane-smith' })
+  @ApiResponse({ status: 200, description: 'Events of the speaker' })
+  @ApiResponse({ status: 404, description: 'Speaker not found' })
+  async getSpeakerEvents(@Param('slug') slug: string): Promise<SpeakerEvent[]> {
+    return this.speakerService.getSpeakerEvents(slug);
+  }
+
+  // ----------------- Create Speaker ----------------- \\
+  @Roles('admin', 'creator')
+  @UseGuards(AuthGuard(), RoleGuard)
+  @Post()
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Create a speaker (Admin or Creator)' })
+  @ApiBody({ type: CreateSpeakerDto })
+  @ApiResponse({ status: 201, description: 'Speaker created', type: Speaker })
+  @ApiResponse({ status: 400, description: 'Invalid or duplicate name' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin or Creator role required',
+  })
+  async createSpeaker(
+    @Body() createSpeakerDto: CreateSpeakerDto,
+  ): Promise<Speaker> {
+    return this.speakerService.createSpeaker(createSpeakerDto);
+  }
+
+  // ----------------- Update Speaker ----------------- \\
+  @Roles('admin', 'creator')
+  @UseGuards(AuthGuard(), RoleGuard)
+  @Put(':id')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Update a speaker (Admin or Creator)',
+    description:
+      'Renaming a speaker updates the speaker names shown on their events and sessions',
+  })
+  @ApiParam({ name: 'id', description: 'Speaker ID (UUID)' })
+  @ApiBody({ type: UpdateSpeakerDto })
+  @ApiResponse({ status: 200, description: 'Speaker updated', type: Speaker })
+  @ApiResponse({ status: 400, description: 'Invalid or duplicate name' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin or Creator role required',
+  })
+  @ApiResponse({ status: 404, description: 'Speaker not found' })
+  async updateSpeaker(
+    @Param('id') id: string,
+    @Body() updateSpeakerDto: UpdateSpeakerDto,
+  ): Promise<Speaker> {
+    return this.speakerService.updateSpeaker(id, updateSpeakerDto);
+  }
+
+  // ----------------- Upload Headshot ----------------- \\
+  @Roles('admin', 'creator')
+  @UseGuards(AuthGuard(), RoleGuard)
+  @Put(':id/headshot')
+  @ApiBearerAuth('JWT-auth')
+  @UseInterceptors(FileInterceptor('headshot'))
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({
+    summary: "Upload a speaker's headshot (Admin or Creator)",
+    description: 'Replaces the current headshot, which is deleted',
+  })
+  @ApiParam({ name: 'id', description: 'Speaker ID (UUID)' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        headshot: {
+          type: 'string',
+          format: 'binary',
+          description: 'PNG, JPEG, WebP or GIF image, at most 5 MB',
+        },
+      },
+      required: ['headshot'],
+    },
+  })
+  @ApiResponse({ status: 200, description: 'Headshot uploaded', type: Speaker })
+  @ApiResponse({
+    status: 400,
+    description: 'No file, unsupported type or larger than 5 MB',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin or Creator role required',
+  })
+  @ApiResponse({ status: 404, description: 'Speaker not found' })
+  async uploadHeadshot(
+    @Param('id') id: string,
+    @UploadedFile() file: Express.Multer.File,
+  ): Promise<Speaker> {
+    if (!file) {
+      throw new BadRequestException('No file uploaded');
+    }
+    return this.speakerService.uploadHeadshot(id, file);
+  }
+
+  // ----------------- Delete Speaker ----------------- \\
+  @Roles('admin')
+  @UseGuards(AuthGuard(), RoleGuard)
+  @Delete(':id')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Delete a speaker (Admin only)',
+    description: 'Removes the speaker from every event and session',
+  })
+  @ApiParam({ name: 'id', description: 'Speaker ID (UUID)' })
+  @ApiResponse({ status: 200, description: 'Speaker deleted' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  @ApiResponse({ status: 404, description: 'Speaker not found' })
+  async deleteSpeaker(@Param('id') id: string): Promise<void> {
+    return this.speakerService.deleteSpeaker(id);
+  }
+}
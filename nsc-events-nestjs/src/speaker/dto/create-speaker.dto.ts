@@ -0,0 +1,59 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class SpeakerLinkDto {
+  @ApiProperty({ example: 'Website' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  readonly label: string;
+
+  @ApiProperty({ example: 'https://example.com' })
+  @IsUrl()
+  @MaxLength(500)
+  readonly url: string;
+}
+
+export class CreateSpeakerDto {
+  @ApiProperty({ example: 'Dr. Jane Smith' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  readonly name: string;
+
+  @ApiPropertyOptional({ example: 'Professor of Computer Science' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  readonly title?: string;
+
+  @ApiPropertyOptional({ example: 'University of Washington' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  readonly affiliation?: string;
+
+  @ApiPropertyOptional({ example: 'Jane researches accessible interfaces.' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(5000)
+  readonly bio?: string;
+
+  @ApiPropertyOptional({ type: [SpeakerLinkDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => SpeakerLinkDto)
+  readonly links?: SpeakerLinkDto[];
+}
@@ -0,0 +1,57 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export interface SpeakerLink {
+  // e.g. Website, LinkedIn
+  label: string;
+  url: string;
+}
+
+/**
+ * A person who speaks at events, shared by every event and session they
+ * appear at. Events and sessions link to speakers through the
+ * activity_speakers and session_speakers join tables and keep a copy of
+ * their names for search and calendar feeds.
+ */
+@Entity('speakers')
+export class Speaker {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // URL-safe identifier used by the public speaker page
+  @Index({ unique: true })
+  @Column()
+  slug: string;
+
+  @Column({ length: 100 })
+  name: string;
+
+  // Job title, e.g. Professor of Computer Science
+  @Column({ length: 100, default: '' })
+  title: string;
+
+  // Organization the speaker is with, e.g. University of Washington
+  @Column({ length: 100, default: '' })
+  affiliation: string;
+
+  @Column({ type: 'text', default: '' })
+  bio: string;
+
+  @Column({ default: '' })
+  headshotUrl: string;
+
+  @Column('json', { default: [] })
+  links: SpeakerLink[];
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
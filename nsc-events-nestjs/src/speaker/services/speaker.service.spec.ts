@@ -0,0 +1,482 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import {
+  BadRequestException,
+  HttpException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { SPEAKER_HEADSHOT_FOLDER, SpeakerService } from './speaker.service';
+import { Speaker } from '../entities/speaker.entity';
+import { Activity } from '../../activity/entities/activity.entity';
+import { EventSession } from '../../session/entities/event-session.entity';
+import { StorageService } from '../../storage/services/storage.service';
+import { StoredFileOwnerType } from '../../storage/entities/stored-file.entity';
+
+const makeSpeaker = (overrides: Partial<Speaker> = {}): Speaker =>
+  ({
+    id: 'speaker-1',
+    slug: 'jane-smith',
+    name: 'Jane Smith',
+    title: '',
+    affiliation: '',
+    bio: '',
+    headshotUrl: '',
+    links: [],
+    ...overrides,
+  } as Speaker);
+
+const makeQueryBuilder = () => ({
+  select: jest.fn().mockReturnThis(),
+  where: jest.fn().mockReturnThis(),
+  andWhere: jest.fn().mockReturnThis(),
+  innerJoin: jest.fn().mockReturnThis(),
+  withDeleted: jest.fn().mockReturnThis(),
+  orderBy: jest.fn().mockReturnThis(),
+  getMany: jest.fn(),
+});
+
+describe('SpeakerService', () => {
+  let service: SpeakerService;
+
+  const speakerQueryBuilder = makeQueryBuilder();
+  const activityQueryBuilder = makeQueryBuilder();
+  const sessionQueryBuilder = makeQueryBuilder();
+
+  const speakerRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn((data: Partial<Speaker>) => data),
+    save: jest.fn(async (data: any) => data),
+    remove: jest.fn(),
+    createQueryBuilder: jest.fn().mockReturnValue(speakerQueryBuilder),
+  };
+
+  const activityRepository = {
+    findOne: jest.fn(),
+    save: jest.fn(),
+    createQueryBuilder: jest.fn().mockReturnValue(activityQueryBuilder),
+  };
+
+  const sessionRepository = {
+    save: jest.fn(),
+    createQueryBuilder: jest.fn().mockReturnValue(sessionQueryBuilder),
+  };
+
+  const relationQueryBuilder = {
+    relation: jest.fn().mockReturnThis(),
+    of: jest.fn().mockReturnThis(),
+    add: jest.fn(),
+  };
+
+  const manager = {
+    getRepository: jest.fn((entity) => {
+      if (entity === Activity) return activityRepository;
+      if (entity === EventSession) return sessionRepository;
+      return speakerRepository;
+    }),
+    createQueryBuilder: jest.fn().mockReturnValue(relationQueryBuilder),
+  };
+
+  const dataSource = {
+    transaction: jest.fn((work: (m: typeof manager) => unknown) =>
+      work(manager),
+    ),
+  };
+
+  const storageService = {
+    uploadFile: jest.fn(),
+    getKeyFromUrl: jest.fn((url: string) => url.split('.com/')[1] ?? null),
+    attachFiles: jest.fn(),
+    deleteFile: jest.fn(),
+    deleteFiles: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+    for (const builder of [
+      speakerQueryBuilder,
+      activityQueryBuilder,
+      sessionQueryBuilder,
+    ]) {
+      builder.getMany.mockReset().mockResolvedValue([]);
+    }
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SpeakerService,
+        { provide: getRepositoryToken(Speaker), useValue: speakerRepository },
+        { provide: getRepositoryToken(Activity), useValue: activityRepository },
+        {
+          provide: getRepositoryToken(EventSession),
+          useValue: sessionRepository,
+        },
+        { provide: StorageService, useValue: storageService },
+        { provide: DataSource, useValue: dataSource },
+      ],
+    }).compile();
+
+    service = module.get<SpeakerService>(SpeakerService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getSpeakers', () => {
+    it('should list every speaker by name', async () => {
+      speakerRepository.find.mockResolvedValue([makeSpeaker()]);
+
+      const result = await service.getSpeakers();
+
+      expect(result).toEqual([makeSpeaker()]);
+      expect(speakerRepository.find).toHaveBeenCalledWith({
+        order: { name: 'ASC' },
+      });
+    });
+
+    it("should list an event's speakers in the order it names them", async () => {
+      const bob = makeSpeaker({ id: 'speaker-2', name: 'Bob Lee' });
+      activityRepository.findOne.mockResolvedValue({
+        id: 'activity-1',
+        eventSpeakers: ['bob lee', 'Jane Smith'],
+      });
+      speakerQueryBuilder.getMany.mockResolvedValue([makeSpeaker(), bob]);
+
+      const result = await service.getSpeakers('activity-1');
+
+      expect(speakerQueryBuilder.innerJoin).toHaveBeenCalledWith(
+        'activity_speakers',
+        'link',
+        expect.any(String),
+        { eventId: 'activity-1' },
+      );
+      expect(result).toEqual([bob, makeSpeaker()]);
+    });
+
+    it('should throw NotFoundException for a missing event', async () => {
+      activityRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.getSpeakers('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('getSpeakerEvents', () => {
+    it('should list events with the sessions the speaker is on', async () => {
+      speakerRepository.findOne.mockResolvedValue(makeSpeaker());
+      activityQueryBuilder.getMany.mockResolvedValue([
+        {
+          id: 'activity-1',
+          eventTitle: 'Tech Summit',
+          startDate: new Date('2026-05-01T16:00:00Z'),
+          endDate: new Date('2026-05-01T20:00:00Z'),
+          timeZone: 'America/Los_Angeles',
+          eventLocation: 'Room 101',
+          eventCoverPhoto: null,
+          isArchived: false,
+        },
+      ]);
+      sessionQueryBuilder.getMany.mockResolvedValue([
+        { activityId: 'activity-1', title: 'Keynote' },
+        { activityId: 'activity-2', title: 'Elsewhere' },
+      ]);
+
+      const result = await service.getSpeakerEvents('jane-smith');
+
+      expect(activityQueryBuilder.andWhere).toHaveBeenCalledWith(
+        expect.stringContaining('session_speakers'),
+        { speakerId: 'speaker-1' },
+      );
+      expect(result).toEqual([
+        expect.objectContaining({
+          id: 'activity-1',
+          eventCoverPhoto: '',
+          sessions: ['Keynote'],
+        }),
+      ]);
+    });
+
+    it('should skip the session lookup when there are no events', async () => {
+      speakerRepository.findOne.mockResolvedValue(makeSpeaker());
+
+      const result = await service.getSpeakerEvents('jane-smith');
+
+      expect(result).toEqual([]);
+      expect(sessionRepository.createQueryBuilder).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for a missing speaker', async () => {
+      speakerRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.getSpeakerEvents('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('createSpeaker', () => {
+    it('should number the slug when it is taken', async () => {
+      speakerQueryBuilder.getMany
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ slug: 'jane-smith' }]);
+
+      const result = await service.createSpeaker({
+        name: ' Jane Smith ',
+        title: ' Professor ',
+        links: [{ label: ' Website ', url: 'https://example.com' }],
+      });
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          name: 'Jane Smith',
+          slug: 'jane-smith-2',
+          title: 'Professor',
+          links: [{ label: 'Website', url: 'https://example.com' }],
+        }),
+      );
+    });
+
+    it('should reject a name another speaker has', async () => {
+      speakerQueryBuilder.getMany.mockResolvedValueOnce([makeSpeaker()]);
+
+      await expect(
+        service.createSpeaker({ name: 'jane smith' }),
+      ).rejects.toThrow('A speaker named "jane smith" already exists');
+      expect(speakerRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateSpeaker', () => {
+    it('should rewrite the name on events and sessions when renamed', async () => {
+      speakerRepository.findOne.mockResolvedValue(makeSpeaker());
+      activityQueryBuilder.getMany.mockResolvedValue([
+        { id: 'activity-1', eventSpeakers: ['Bob Lee', 'Jane Smith'] },
+      ]);
+      sessionQueryBuilder.getMany.mockResolvedValue([
+        { id: 'session-1', speakers: ['jane smith'] },
+      ]);
+
+      const result = await service.updateSpeaker('speaker-1', {
+        name: 'Dr. Jane Smith',
+      });
+
+      expect(activityRepository.save).toHaveBeenCalledWith([
+        { id: 'activity-1', eventSpeakers: ['Bob Lee', 'Dr. Jane Smith'] },
+      ]);
+      expect(sessionRepository.save).toHaveBeenCalledWith([
+        { id: 'session-1', speakers: ['Dr. Jane Smith'] },
+      ]);
+      expect(result.name).toBe('Dr. Jane Smith');
+      expect(result.slug).toBe('jane-smith');
+    });
+
+    it('should leave events alone when the name is unchanged', async () => {
+      speakerRepository.findOne.mockResolvedValue(makeSpeaker());
+
+      await service.updateSpeaker('speaker-1', { bio: 'Researcher' });
+
+      expect(activityRepository.createQueryBuilder).not.toHaveBeenCalled();
+      expect(speakerRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ bio: 'Researcher' }),
+      );
+    });
+
+    it('should reject a name another speaker has', async () => {
+      speakerRepository.findOne.mockResolvedValue(makeSpeaker());
+      speakerQueryBuilder.getMany.mockResolvedValueOnce([
+        makeSpeaker({ id: 'speaker-2', name: 'Bob Lee' }),
+      ]);
+
+      await expect(
+        service.updateSpeaker('speaker-1', { name: 'Bob Lee' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw NotFoundException for a missing speaker', async () => {
+      speakerRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.updateSpeaker('missing', { name: 'Bob Lee' }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('uploadHeadshot', () => {
+    const file = { originalname: 'jane.jpg' } as Express.Multer.File;
+    const url = 'https://bucket.s3.amazonaws.com/speaker-headshots/2-jane.jpg';
+
+    it('should store the headshot and delete the previous one', async () => {
+      speakerRepository.findOne.mockResolvedValue(
+        makeSpeaker({
+          headshotUrl:
+            'https://bucket.s3.amazonaws.com/speaker-headshots/1-jane.jpg',
+        }),
+      );
+      storageService.uploadFile.mockResolvedValue(url);
+
+      const result = await service.uploadHeadshot('speaker-1', file);
+
+      expect(storageService.uploadFile).toHaveBeenCalledWith(
+        file,
+        SPEAKER_HEADSHOT_FOLDER,
+        true,
+      );
+      expect(storageService.attachFiles).toHaveBeenCalledWith(
+        ['speaker-headshots/2-jane.jpg'],
+        { type: StoredFileOwnerType.speaker, id: 'speaker-1' },
+        manager,
+      );
+      expect(storageService.deleteFile).toHaveBeenCalledWith(
+        'speaker-headshots/1-jane.jpg',
+      );
+      expect(result.headshotUrl).toBe(url);
+    });
+
+    it('should delete the upload when the speaker is not saved', async () => {
+      speakerRepository.findOne.mockResolvedValue(makeSpeaker());
+      storageService.uploadFile.mockResolvedValue(url);
+      speakerRepository.save.mockRejectedValueOnce(new Error('db down'));
+
+      await expect(service.uploadHeadshot('speaker-1', file)).rejects.toThrow(
+        HttpException,
+      );
+      expect(storageService.deleteFiles).toHaveBeenCalledWith([
+        'speaker-headshots/2-jane.jpg',
+      ]);
+    });
+
+    it('should pass on upload validation errors', async () => {
+      speakerRepository.findOne.mockResolvedValue(makeSpeaker());
+      storageService.uploadFile.mockRejectedValue(
+        new BadRequestException('Unsupported file type'),
+      );
+
+      await expect(service.uploadHeadshot('speaker-1', file)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(storageService.deleteFiles).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteSpeaker', () => {
+    it('should strip the speaker from events and delete the headshot', async () => {
+      const speaker = makeSpeaker({
+        headshotUrl:
+          'https://bucket.s3.amazonaws.com/speaker-headshots/1-jane.jpg',
+      });
+      speakerRepository.findOne.mockResolvedValue(speaker);
+      activityQueryBuilder.getMany.mockResolvedValue([
+        { id: 'activity-1', eventSpeakers: ['Jane Smith', 'Bob Lee'] },
+      ]);
+
+      await service.deleteSpeaker('speaker-1');
+
+      expect(activityRepository.save).toHaveBeenCalledWith([
+        { id: 'activity-1', eventSpeakers: ['Bob Lee'] },
+      ]);
+      expect(speakerRepository.remove).toHaveBeenCalledWith(speaker);
+      expect(storageService.deleteFile).toHaveBeenCalledWith(
+        'speaker-headshots/1-jane.jpg',
+      );
+    });
+
+    it('should only warn when the headshot cannot be deleted', async () => {
+      speakerRepository.findOne.mockResolvedValue(
+        makeSpeaker({
+          headshotUrl:
+            'https://bucket.s3.amazonaws.com/speaker-headshots/1-jane.jpg',
+        }),
+      );
+      storageService.deleteFile.mockRejectedValueOnce(new Error('S3 down'));
+
+      await expect(service.deleteSpeaker('speaker-1')).resolves.toBeUndefined();
+      expect(Logger.prototype.warn).toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveSpeakers', () => {
+    it('should match existing speakers and create the rest in order', async () => {
+      speakerQueryBuilder.getMany
+        .mockResolvedValueOnce([makeSpeaker()])
+        .mockResolvedValueOnce([]);
+
+      const result = await service.resolveSpeakers([
+        'Bob Lee',
+        ' jane smith ',
+        'BOB LEE',
+        '',
+      ]);
+
+      expect(speakerQueryBuilder.where).toHaveBeenCalledWith(
+        'LOWER(speaker.name) IN (:...names)',
+        { names: ['bob lee', 'jane smith'] },
+      );
+      expect(speakerRepository.save).toHaveBeenCalledTimes(1);
+      expect(result).toEqual([
+        { name: 'Bob Lee', slug: 'bob-lee' },
+        makeSpeaker(),
+      ]);
+    });
+
+    it('should reject names longer than a profile allows', async () => {
+      await expect(service.resolveSpeakers(['x'.repeat(101)])).rejects.toThrow(
+        'Speaker names can be at most 100 characters',
+      );
+    });
+  });
+
+  describe('migrateSpeakerNames', () => {
+    beforeEach(() => {
+      activityQueryBuilder.getMany.mockResolvedValue([
+        { id: 'activity-1', eventSpeakers: ['Jane Smith', 'Bob Lee'] },
+      ]);
+      sessionQueryBuilder.getMany.mockResolvedValue([
+        { id: 'session-1', speakers: ['bob lee'] },
+        { id: 'session-2', speakers: [] },
+      ]);
+    });
+
+    it('should report what it would do on a dry run', async () => {
+      speakerQueryBuilder.getMany.mockResolvedValueOnce([makeSpeaker()]);
+
+      const result = await service.migrateSpeakerNames({ dryRun: true });
+
+      expect(result).toEqual({
+        dryRun: true,
+        created: ['Bob Lee'],
+        events: 1,
+        sessions: 1,
+      });
+      expect(dataSource.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should link events and sessions to their speakers', async () => {
+      const bob = makeSpeaker({ id: 'speaker-2', name: 'Bob Lee' });
+      jest
+        .spyOn(service, 'resolveSpeakers')
+        .mockResolvedValueOnce([makeSpeaker(), bob])
+        .mockResolvedValueOnce([bob]);
+
+      await service.migrateSpeakerNames();
+
+      expect(relationQueryBuilder.relation).toHaveBeenCalledWith(
+        Activity,
+        'speakerProfiles',
+      );
+      expect(relationQueryBuilder.of).toHaveBeenCalledWith('activity-1');
+      expect(relationQueryBuilder.add).toHaveBeenCalledWith([
+        'speaker-1',
+        'speaker-2',
+      ]);
+      expect(relationQueryBuilder.relation).toHaveBeenCalledWith(
+        EventSession,
+        'speakerProfiles',
+      );
+      expect(relationQueryBuilder.add).toHaveBeenLastCalledWith(['speaker-2']);
+    });
+  });
+});
@@ -0,0 +1,608 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, Repository } from 'typeorm';
+import { Express } from 'express';
+import { Speaker } from '../entities/speaker.entity';
+import { CreateSpeakerDto } from '../dto/create-speaker.dto';
+import { UpdateSpeakerDto } from '../dto/update-speaker.dto';
+import {
+  Activity,
+  ApprovalStatus,
+  PublicationStatus,
+} from '../../activity/entities/activity.entity';
+import { EventSession } from '../../session/entities/event-session.entity';
+import { StorageService } from '../../storage/services/storage.service';
+import { StoredFileOwnerType } from '../../storage/entities/stored-file.entity';
+import { toSlug } from '../../tag/utils/slug.util';
+
+export const SPEAKER_HEADSHOT_FOLDER = 'speaker-headshots';
+
+export const MAX_SPEAKER_NAME_LENGTH = 100;
+
+// An event on a speaker's public page
+export interface SpeakerEvent {
+  id: string;
+  eventTitle: string;
+  startDate: Date;
+  endDate: Date;
+  timeZone: string;
+  eventLocation: string;
+  eventCoverPhoto: string;
+  isArchived: boolean;
+  // Titles of the sessions of the event the speaker is on, in agenda order
+  sessions: string[];
+}
+
+export interface SpeakerMigrationResult {
+  dryRun: boolean;
+  // Names that became speakers, or would on a dry run
+  created: string[];
+  // Events and sessions linked to their speakers
+  events: number;
+  sessions: number;
+}
+
+// Speakers match by name regardless of case and surrounding spaces
+const toNameKey = (name: string) => name.trim().toLowerCase();
+
+@Injectable()
+export class SpeakerService {
+  private readonly logger = new Logger(SpeakerService.name);
+
+  constructor(
+    @InjectRepository(Speaker)
+    private readonly speakerRepository: Repository<Speaker>,
+    @InjectRepository(Activity)
+    private readonly activityRepository: Repository<Activity>,
+    @InjectRepository(EventSession)
+    private readonly sessionRepository: Repository<EventSession>,
+    private readonly storageService: StorageService,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  // ----------------- Get Speakers ----------------- \\
+  // Sorted by name. With `eventId`, only the event's speakers, in the order
+  // the event lists them.
+  async getSpeakers(eventId?: string): Promise<Speaker[]> {
+    try {
+      if (!eventId) {
+        return await this.speakerRepository.find({ order: { name: 'ASC' } });
+      }
+
+      const activity = await this.activityRepository.findOne({
+        where: { id: eventId },
+      });
+      if (!activity) {
+        throw new NotFoundException('Activity not found');
+      }
+      const speakers = await this.speakerRepository
+        .createQueryBuilder('speaker')
+        .innerJoin(
+          'activity_speakers',
+          'link',
+          'link."speakerId" = speaker.id AND link."activityId" = :eventId',
+          { eventId },
+        )
+        .getMany();
+      const order = (activity.eventSpeakers ?? []).map(toNameKey);
+      return speakers.sort(
+        (a, b) =>
+          order.indexOf(toNameKey(a.name)) - order.indexOf(toNameKey(b.name)),
+      );
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error retrieving speakers',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Get Speaker by Slug ----------------- \\
+  async getSpeakerBySlug(slug: string): Promise<Speaker> {
+    try {
+      const speaker = await this.speakerRepository.findOne({
+        where: { slug },
+      });
+
+      if (!speaker) {
+        throw new NotFoundException('Speaker not found');
+      }
+
+      return speaker;
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error retrieving speaker',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Get Speaker Events ----------------- \\
+  // Published events the speaker is on, or speaks at a session of, newest
+  // first. Past events are included so the page shows every appearance.
+  async getSpeakerEvents(slug: string): Promise<SpeakerEvent[]> {
+    try {
+      const speaker = await this.getSpeakerBySlug(slug);
+
+      const activities = await this.activityRepository
+        .createQueryBuilder('activity')
+        .where('activity.isHidden = :isHidden', { isHidden: false })
+        .andWhere('activity.publicationStatus = :published', {
+          published: PublicationStatus.published,
+        })
+        .andWhere('activity.approvalStatus = :approved', {
+          approved: ApprovalStatus.approved,
+        })
+        .andWhere(
+          `(EXISTS (
+              SELECT 1 FROM activity_speakers link
+              WHERE link."activityId" = activity.id AND link."speakerId" = :speakerId
+            ) OR EXISTS (
+              SELECT 1 FROM event_sessions session
+              JOIN session_speakers link ON link."sessionId" = session.id
+              WHERE session."activityId" = activity.id AND link."speakerId" = :speakerId
+            ))`,
+          { speakerId: speaker.id },
+        )
+        .orderBy('activity.startDate', 'DESC')
+        .getMany();
+      if (activities.length === 0) {
+        return [];
+      }
+
+      const sessions = await this.sessionRepository
+        .createQueryBuilder('session')
+        .innerJoin('session.speakerProfiles', 'speaker', 'speaker.id = :id', {
+          id: speaker.id,
+        })
+        .where('session.activityId IN (:...ids)', {
+          ids: activities.map((activity) => activity.id),
+        })
+        .orderBy('session.position', 'ASC')
+        .getMany();
+
+      return activities.map((activity) => ({
+        id: activity.id,
+        eventTitle: activity.eventTitle,
+        startDate: activity.startDate,
+        endDate: activity.endDate,
+        timeZone: activity.timeZone,
+        eventLocation: activity.eventLocation,
+        eventCoverPhoto: activity.eventCoverPhoto ?? '',
+        isArchived: activity.isArchived,
+        sessions: sessions
+          .filter((session) => session.activityId === activity.id)
+          .map((session) => session.title),
+      }));
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error retrieving speaker events',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Create Speaker ----------------- \\
+  async createSpeaker(createSpeakerDto: CreateSpeakerDto): Promise<Speaker> {
+    try {
+      const name = createSpeakerDto.name.trim();
+      await this.assertNameAvailable(name);
+
+      const speaker = this.speakerRepository.create({
+        ...this.toProfile(createSpeakerDto),
+        name,
+        slug: await this.toUniqueSlug(name),
+      });
+      return await this.speakerRepository.save(speaker);
+    } catch (error) {
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error creating speaker',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Update Speaker ----------------- \\
+  // Renaming a speaker rewrites the names stored on their events and
+  // sessions. The slug stays, so links to their page keep working.
+  async updateSpeaker(
+    id: string,
+    updateSpeakerDto: UpdateSpeakerDto,
+  ): Promise<Speaker> {
+    try {
+      const speaker = await this.getSpeakerById(id);
+
+      const updateData: Partial<Speaker> = this.toProfile(updateSpeakerDto);
+      if (updateSpeakerDto.name !== undefined) {
+        updateData.name = updateSpeakerDto.name.trim();
+        if (toNameKey(updateData.name) !== toNameKey(speaker.name)) {
+          await this.assertNameAvailable(updateData.name);
+        }
+      }
+
+      const renamed =
+        updateData.name !== undefined && updateData.name !== speaker.name;
+
+      return await this.dataSource.transaction(async (manager) => {
+        if (renamed) {
+          await this.rewriteSpeakerNames(manager, speaker, updateData.name);
+        }
+        Object.assign(speaker, updateData);
+        return manager.getRepository(Speaker).save(speaker);
+      });
+    } catch (error) {
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException
+      ) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error updating speaker',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Upload Headshot ----------------- \\
+  // Replaces the speaker's photo; the previous one is deleted
+  async uploadHeadshot(
+    id: string,
+    file: Express.Multer.File,
+  ): Promise<Speaker> {
+    let uploadedKey: string | null = null;
+
+    try {
+      const speaker = await this.getSpeakerById(id);
+      const previous = speaker.headshotUrl;
+
+      const url = await this.storageService.uploadFile(
+        file,
+        SPEAKER_HEADSHOT_FOLDER,
+        true,
+      );
+      uploadedKey = this.storageService.getKeyFromUrl(url);
+
+      speaker.headshotUrl = url;
+      const saved = await this.dataSource.transaction(async (manager) => {
+        const result = await manager.getRepository(Speaker).save(speaker);
+        await this.storageService.attachFiles(
+          uploadedKey ? [uploadedKey] : [],
+          { type: StoredFileOwnerType.speaker, id: speaker.id },
+          manager,
+        );
+        return result;
+      });
+      uploadedKey = null;
+
+      if (previous) {
+        await this.deleteStoredFile(previous);
+      }
+      return saved;
+    } catch (error) {
+      // Nothing points to the photo of a speaker that wasn't saved
+      if (uploadedKey) {
+        await this.storageService.deleteFiles([uploadedKey]);
+      }
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException
+      ) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error uploading headshot',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Delete Speaker ----------------- \\
+  // Removes the speaker from every event and session
+  async deleteSpeaker(id: string): Promise<void> {
+    try {
+      const speaker = await this.getSpeakerById(id);
+      const headshotUrl = speaker.headshotUrl;
+
+      await this.dataSource.transaction(async (manager) => {
+        await this.rewriteSpeakerNames(manager, speaker, null);
+        await manager.getRepository(Speaker).remove(speaker);
+      });
+
+      if (headshotUrl) {
+        await this.deleteStoredFile(headshotUrl);
+      }
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error deleting speaker',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Resolve Speakers ----------------- \\
+  /**
+   * Maps the speaker names submitted with an event or session to speakers,
+   * in the order given. Names nobody has a profile for yet become new
+   * speakers, whose details can be filled in later.
+   */
+  async resolveSpeakers(
+    names: string[],
+    manager?: EntityManager,
+  ): Promise<Speaker[]> {
+    const unique = this.toUniqueNames(names);
+    const tooLong = unique.find(
+      (name) => name.length > MAX_SPEAKER_NAME_LENGTH,
+    );
+    if (tooLong) {
+      throw new BadRequestException(
+        `Speaker names can be at most ${MAX_SPEAKER_NAME_LENGTH} characters`,
+      );
+    }
+
+    const repository = manager
+      ? manager.getRepository(Speaker)
+      : this.speakerRepository;
+    const existing = await this.findByNames(unique, repository);
+    const speakers: Speaker[] = [];
+    for (const name of unique) {
+      let speaker = existing.get(toNameKey(name));
+      if (!speaker) {
+        speaker = await repository.save(
+          repository.create({
+            name,
+            slug: await this.toUniqueSlug(name, repository),
+          }),
+        );
+        existing.set(toNameKey(name), speaker);
+      }
+      speakers.push(speaker);
+    }
+    return speakers;
+  }
+
+  // ----------------- Migrate Speaker Names ----------------- \\
+  /**
+   * Links events and sessions saved before speakers had profiles to the
+   * speakers they name, creating a speaker for every name without one.
+   * Trashed events are included so they keep their speakers if restored.
+   */
+  async migrateSpeakerNames(
+    options: { dryRun?: boolean } = {},
+  ): Promise<SpeakerMigrationResult> {
+    const dryRun = options.dryRun ?? false;
+    const activities = await this.activityRepository
+      .createQueryBuilder('activity')
+      .withDeleted()
+      .where(`activity."eventSpeakers" <> ''`)
+      .andWhere(
+        `NOT EXISTS (SELECT 1 FROM activity_speakers link WHERE link."activityId" = activity.id)`,
+      )
+      .getMany();
+    const sessions = await this.sessionRepository
+      .createQueryBuilder('session')
+      .where(`session.speakers <> ''`)
+      .andWhere(
+        `NOT EXISTS (SELECT 1 FROM session_speakers link WHERE link."sessionId" = session.id)`,
+      )
+      .getMany();
+
+    // Names too long for a profile are cut short rather than skipped
+    const toNames = (names: string[] = []) =>
+      this.toUniqueNames(
+        names.map((name) => name.trim().slice(0, MAX_SPEAKER_NAME_LENGTH)),
+      );
+    const linked = [
+      ...activities.map((activity) => ({
+        relation: Activity,
+        id: activity.id,
+        names: toNames(activity.eventSpeakers),
+      })),
+      ...sessions.map((session) => ({
+        relation: EventSession,
+        id: session.id,
+        names: toNames(session.speakers),
+      })),
+    ].filter(({ names }) => names.length > 0);
+
+    const allNames = this.toUniqueNames(linked.flatMap(({ names }) => names));
+    const existing = await this.findByNames(allNames, this.speakerRepository);
+    const result: SpeakerMigrationResult = {
+      dryRun,
+      created: allNames.filter((name) => !existing.has(toNameKey(name))),
+      events: linked.filter(({ relation }) => relation === Activity).length,
+      sessions: linked.filter(({ relation }) => relation === EventSession)
+        .length,
+    };
+    if (dryRun || linked.length === 0) {
+      return result;
+    }
+
+    await this.dataSource.transaction(async (manager) => {
+      for (const { relation, id, names } of linked) {
+        const speakers = await this.resolveSpeakers(names, manager);
+        await manager
+          .createQueryBuilder()
+          .relation(relation, 'speakerProfiles')
+          .of(id)
+          .add(speakers.map((speaker) => speaker.id));
+      }
+    });
+    return result;
+  }
+
+  private async getSpeakerById(id: string): Promise<Speaker> {
+    const speaker = await this.speakerRepository.findOne({ where: { id } });
+    if (!speaker) {
+      throw new NotFoundException('Speaker not found');
+    }
+    return speaker;
+  }
+
+  // Names link events to speakers, so no two speakers share one
+  private async assertNameAvailable(name: string): Promise<void> {
+    const existing = await this.findByNames([name], this.speakerRepository);
+    if (existing.size > 0) {
+      throw new BadRequestException(`A speaker named "${name}" already exists`);
+    }
+  }
+
+  private async findByNames(
+    names: string[],
+    repository: Repository<Speaker>,
+  ): Promise<Map<string, Speaker>> {
+    const found = new Map<string, Speaker>();
+    if (names.length === 0) {
+      return found;
+    }
+    const speakers = await repository
+      .createQueryBuilder('speaker')
+      .where('LOWER(speaker.name) IN (:...names)', {
+        names: names.map(toNameKey),
+      })
+      .orderBy('speaker.createdAt', 'ASC')
+      .getMany();
+    for (const speaker of speakers) {
+      if (!found.has(toNameKey(speaker.name))) {
+        found.set(toNameKey(speaker.name), speaker);
+      }
+    }
+    return found;
+  }
+
+  // Trimmed, without blanks, and each name once whatever its case
+  private toUniqueNames(names: string[]): string[] {
+    const seen = new Set<string>();
+    return names
+      .map((name) => name.trim())
+      .filter((name) => {
+        if (!name || seen.has(toNameKey(name))) {
+          return false;
+        }
+        seen.add(toNameKey(name));
+        return true;
+      });
+  }
+
+  // "Jane Smith" is jane-smith, or jane-smith-2 when that is taken
+  private async toUniqueSlug(
+    name: string,
+    repository: Repository<Speaker> = this.speakerRepository,
+  ): Promise<string> {
+    const base = toSlug(name) || 'speaker';
+    const taken = new Set(
+      (
+        await repository
+          .createQueryBuilder('speaker')
+          .select('speaker.slug')
+          .where('speaker.slug = :base OR speaker.slug LIKE :pattern', {
+            base,
+            pattern: `${base}-%`,
+          })
+          .getMany()
+      ).map((speaker) => speaker.slug),
+    );
+    let slug = base;
+    for (let suffix = 2; taken.has(slug); suffix++) {
+      slug = `${base}-${suffix}`;
+    }
+    return slug;
+  }
+
+  private toProfile(dto: UpdateSpeakerDto): Partial<Speaker> {
+    const profile: Partial<Speaker> = {};
+    for (const field of ['title', 'affiliation', 'bio'] as const) {
+      if (dto[field] !== undefined) {
+        profile[field] = dto[field].trim();
+      }
+    }
+    if (dto.links !== undefined) {
+      profile.links = dto.links.map(({ label, url }) => ({
+        label: label.trim(),
+        url,
+      }));
+    }
+    return profile;
+  }
+
+  /**
+   * Events and sessions keep a copy of their speakers' names. Replaces the
+   * speaker's name there with `replacement`, or drops it when it is null.
+   */
+  private async rewriteSpeakerNames(
+    manager: EntityManager,
+    speaker: Speaker,
+    replacement: string | null,
+  ): Promise<void> {
+    const rewrite = (names: string[] = []) =>
+      names
+        .map((name) =>
+          toNameKey(name) === toNameKey(speaker.name) ? replacement : name,
+        )
+        .filter(Boolean);
+
+    const activities = await manager
+      .getRepository(Activity)
+      .createQueryBuilder('activity')
+      .withDeleted()
+      .innerJoin('activity.speakerProfiles', 'speaker', 'speaker.id = :id', {
+        id: speaker.id,
+      })
+      .getMany();
+    for (const activity of activities) {
+      activity.eventSpeakers = rewrite(activity.eventSpeakers);
+    }
+    if (activities.length > 0) {
+      await manager.getRepository(Activity).save(activities);
+    }
+
+    const sessions = await manager
+      .getRepository(EventSession)
+      .createQueryBuilder('session')
+      .innerJoin('session.speakerProfiles', 'speaker', 'speaker.id = :id', {
+        id: speaker.id,
+      })
+      .getMany();
+    for (const session of sessions) {
+      session.speakers = rewrite(session.speakers);
+    }
+    if (sessions.length > 0) {
+      await manager.getRepository(EventSession).save(sessions);
+    }
+  }
+
+  // A file left behind in storage isn't worth failing the request over
+  private async deleteStoredFile(url: string): Promise<void> {
+    const key = this.storageService.getKeyFromUrl(url);
+    if (!key) {
+      return;
+    }
+    try {
+      await this.storageService.deleteFile(key);
+    } catch (error) {
+      this.logger.warn(`Could not delete headshot ${url}: ${error.message}`);
+    }
+  }
+}
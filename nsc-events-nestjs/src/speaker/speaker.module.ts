@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { SpeakerController } from './controllers/speaker.controller';
+import { SpeakerService } from './services/speaker.service';
+import { Speaker } from './entities/speaker.entity';
+import { AuthModule } from '../auth/auth.module';
+import { StorageModule } from '../storage/storage.module';
+import { Activity } from '../activity/entities/activity.entity';
+import { EventSession } from '../session/entities/event-session.entity';
+
+@Module({
+  imports: [
+    AuthModule,
+    StorageModule,
+    TypeOrmModule.forFeature([Speaker, Activity, EventSession]),
+  ],
+  controllers: [SpeakerController],
+  providers: [SpeakerService],
+  exports: [SpeakerService],
+})
+export class SpeakerModule {}
@@ -0,0 +1,47 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PassportModule } from '@nestjs/passport';
+import { StorageController } from './storage.controller';
+import { StorageReconciliationService } from '../services/storage-reconciliation.service';
+
+const mockReconciliationService = {
+  reconcile: jest.fn(),
+};
+
+describe('StorageController', () => {
+  let controller: StorageController;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [PassportModule.register({ defaultStrategy: 'jwt' })],
+      controllers: [StorageController],
+      providers: [
+        {
+          provide: StorageReconciliationService,
+          useValue: mockReconciliationService,
+        },
+      ],
+    }).compile();
+
+    controller = module.get<StorageController>(StorageController);
+  });
+
+  describe('getOrphanedFiles', () => {
+    it('should report orphaned files without deleting any', async () => {
+      const report = {
+        dryRun: true,
+        graceHours: 24,
+        storedFiles: 1,
+        orphans: [],
+        deleted: [],
+      };
+      mockReconciliationService.reconcile.mockResolvedValue(report);
+
+      await expect(controller.getOrphanedFiles()).resolves.toBe(report);
+      expect(mockReconciliationService.reconcile).toHaveBeenCalledWith({
+        dryRun: true,
+      });
+    });
+  });
+});
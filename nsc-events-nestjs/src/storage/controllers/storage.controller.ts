@@ -0,0 +1,44 @@
+import { Controller, Get, UseGuards } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import {
+  StorageReconciliationResult,
+  StorageReconciliationService,
+} from '../services/storage-reconciliation.service';
+import { RoleGuard } from '../../auth/role.guard';
+import { Roles } from '../../auth/roles.decorator';
+
+@ApiTags('Storage')
+@ApiBearerAuth('JWT-auth')
+@UseGuards(AuthGuard())
+@Controller('storage') // final path is /api/storage (global prefix 'api')
+export class StorageController {
+  constructor(
+    private readonly reconciliationService: StorageReconciliationService,
+  ) {}
+
+  // ----------------- Orphaned Files ----------------- \\
+  @Roles('admin')
+  @UseGuards(RoleGuard)
+  @Get('orphans')
+  @ApiOperation({
+    summary: 'Report orphaned files (Admin only)',
+    description:
+      'Lists stored cover images and documents that no event, attachment or template points to, oldest first. The cleanup job deletes them once they are older than STORAGE_ORPHAN_GRACE_HOURS (24 by default); this report deletes nothing.',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Orphaned files: { dryRun, graceHours, storedFiles, orphans, deleted }',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  async getOrphanedFiles(): Promise<StorageReconciliationResult> {
+    return this.reconciliationService.reconcile({ dryRun: true });
+  }
+}
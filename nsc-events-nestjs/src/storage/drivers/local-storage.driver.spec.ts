@@ -0,0 +1,239 @@
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as sharp from 'sharp';
+import { Repository } from 'typeorm';
+import * as express from 'express';
+import * as request from 'supertest';
+import { NestExpressApplication } from '@nestjs/platform-express';
+import { LocalStorageDriver } from './local-storage.driver';
+import { StorageService } from '../services/storage.service';
+import { StoredFile } from '../entities/stored-file.entity';
+
+describe('LocalStorageDriver', () => {
+  let root: string;
+  let driver: LocalStorageDriver;
+
+  const configFor = (values: Record<string, string>) =>
+    ({ get: (key: string) => values[key] } as unknown as ConfigService);
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'nsc-storage-'));
+    driver = new LocalStorageDriver(
+      configFor({
+        STORAGE_LOCAL_PATH: root,
+        STORAGE_PUBLIC_URL: 'http://localhost:3000/uploads/',
+      }),
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should write, read and delete files under the storage folder', async () => {
+    await driver.putObject('cover-images/a.jpg', Buffer.from('image'), {
+      contentType: 'image/jpeg',
+    });
+
+    await expect(
+      fs.readFile(path.join(root, 'cover-images/a.jpg'), 'utf8'),
+    ).resolves.toBe('image');
+    await expect(driver.getObject('cover-images/a.jpg')).resolves.toEqual({
+      content: Buffer.from('image'),
+    });
+
+    await expect(driver.headObject('cover-images/a.jpg')).resolves.toEqual({
+      size: 5,
+    });
+
+    await driver.deleteObject('cover-images/a.jpg');
+    await expect(driver.getObject('cover-images/a.jpg')).rejects.toThrow(
+      NotFoundException,
+    );
+    await expect(driver.headObject('cover-images/a.jpg')).rejects.toThrow(
+      NotFoundException,
+    );
+    // deleting again is fine
+    await expect(
+      driver.deleteObject('cover-images/a.jpg'),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should list the files under a prefix', async () => {
+    await driver.putObject('cover-images/a.jpg', Buffer.from('a'), {
+      contentType: 'image/jpeg',
+    });
+    await driver.putObject('event-documents/b.pdf', Buffer.from('b'), {
+      contentType: 'application/pdf',
+    });
+
+    const objects = await driver.listObjects('cover-images/');
+
+    expect(objects.map(({ key }) => key)).toEqual(['cover-images/a.jpg']);
+    expect(objects[0].lastModified.getTime()).toBeLessThanOrEqual(Date.now());
+  });
+
+  it('should list nothing before anything is stored', async () => {
+    const empty = new LocalStorageDriver(
+      configFor({ STORAGE_LOCAL_PATH: path.join(root, 'missing') }),
+    );
+
+    await expect(empty.listObjects('cover-images/')).resolves.toEqual([]);
+  });
+
+  it('should map keys to URLs of the static route and back', () => {
+    const url = driver.getPublicUrl('cover-images/my photo.jpg');
+
+    expect(url).toBe('http://localhost:3000/uploads/cover-images/my photo.jpg');
+    expect(
+      driver.getKeyFromUrl(
+        'http://localhost:3000/uploads/cover-images/my%20photo.jpg',
+      ),
+    ).toBe('cover-images/my photo.jpg');
+    expect(
+      driver.getKeyFromUrl('https://example.com/uploads/a.jpg'),
+    ).toBeNull();
+  });
+
+  it('should default to the API port for public URLs', () => {
+    const defaults = new LocalStorageDriver(
+      configFor({ STORAGE_LOCAL_PATH: root, PORT: '4000' }),
+    );
+
+    expect(defaults.getPublicUrl('a.jpg')).toBe(
+      'http://localhost:4000/uploads/a.jpg',
+    );
+  });
+
+  it('should refuse keys outside the storage folder', async () => {
+    expect(
+      driver.getKeyFromUrl(
+        'http://localhost:3000/uploads/..%2F..%2Fetc%2Fpasswd',
+      ),
+    ).toBeNull();
+    await expect(
+      driver.putObject('../outside.txt', Buffer.from('x'), {
+        contentType: 'text/plain',
+      }),
+    ).rejects.toThrow('Invalid storage key');
+  });
+
+  it('should store cover photo variants without mocking sharp', async () => {
+    const storedFileRepository = { upsert: jest.fn() };
+    const storageService = new StorageService(
+      driver,
+      storedFileRepository as unknown as Repository<StoredFile>,
+    );
+    const image = await sharp({
+      create: {
+        width: 800,
+        height: 600,
+        channels: 3,
+        background: { r: 200, g: 40, b: 40 },
+      },
+    })
+      .png()
+      .toBuffer();
+
+    const { url, variants } = await storageService.uploadCoverImage(
+      {
+        originalname: 'fair.png',
+        mimetype: 'image/png',
+        size: image.length,
+        buffer: image,
+      } as Express.Multer.File,
+      'cover-images',
+    );
+
+    expect(url).toBe(variants.hero.jpeg.url);
+    // small images aren't enlarged
+    expect(variants.hero).toMatchObject({ width: 800, height: 600 });
+    expect(variants.thumbnail).toMatchObject({ width: 240, height: 180 });
+    const webp = await fs.readFile(path.join(root, variants.card.webp.key));
+    expect((await sharp(webp).metadata()).format).toBe('webp');
+    expect(storageService.getKeyFromUrl(url)).toBe(variants.hero.jpeg.key);
+    expect(storedFileRepository.upsert.mock.calls[0][0]).toHaveLength(6);
+  });
+
+  describe('upload URLs', () => {
+    let app: express.Express;
+
+    beforeEach(() => {
+      app = express();
+      driver.serve({
+        use: (...args: any[]) => app.use(...args),
+        useStaticAssets: (folder: string, options: any) =>
+          app.use(options.prefix, express.static(folder, options)),
+      } as unknown as NestExpressApplication);
+    });
+
+    const pathOf = (url: string) => url.replace('http://localhost:3000', '');
+
+    it('should store files PUT with the signed type', async () => {
+      const url = await driver.createUploadUrl(
+        'cover-images/uploads/a/1-fair.png',
+        'image/png',
+        60,
+      );
+
+      await request(app)
+        .put(pathOf(url))
+        .set('Content-Type', 'image/png')
+        .send(Buffer.from('image'))
+        .expect(200);
+
+      await expect(
+        fs.readFile(
+          path.join(root, 'cover-images/uploads/a/1-fair.png'),
+          'utf8',
+        ),
+      ).resolves.toBe('image');
+      await request(app)
+        .get('/uploads/cover-images/uploads/a/1-fair.png')
+        .expect(200);
+    });
+
+    it('should refuse uploads of another type', async () => {
+      const url = await driver.createUploadUrl(
+        'cover-images/a.png',
+        'image/png',
+        60,
+      );
+
+      await request(app)
+        .put(pathOf(url))
+        .set('Content-Type', 'text/html')
+        .send('<script></script>')
+        .expect(403);
+    });
+
+    it('should refuse other keys and expired URLs', async () => {
+      const url = await driver.createUploadUrl(
+        'cover-images/a.png',
+        'image/png',
+        60,
+      );
+
+      await request(app)
+        .put(pathOf(url).replace('a.png', 'b.png'))
+        .set('Content-Type', 'image/png')
+        .send(Buffer.from('image'))
+        .expect(403);
+
+      jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 61 * 1000);
+      try {
+        await request(app)
+          .put(pathOf(url))
+          .set('Content-Type', 'image/png')
+          .send(Buffer.from('image'))
+          .expect(403);
+      } finally {
+        (Date.now as jest.Mock).mockRestore();
+      }
+      await expect(driver.listObjects('cover-images/')).resolves.toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { NestExpressApplication } from '@nestjs/platform-express';
+import { NextFunction, Request, Response, raw } from 'express';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import {
+  ListedObject,
+  MAX_DIRECT_UPLOAD_SIZE_BYTES,
+  ObjectInfo,
+  PutObjectOptions,
+  StorageDriver,
+  StoredObject,
+} from './storage.driver';
+
+// Route the API serves stored files from, outside the /api prefix
+export const LOCAL_STORAGE_ROUTE = '/uploads';
+
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|gif|webp)$/i;
+
+/**
+ * Keeps files in a folder on the API server (STORAGE_LOCAL_PATH, `uploads`
+ * by default), for development without a bucket. The API serves them from
+ * LOCAL_STORAGE_ROUTE; STORAGE_PUBLIC_URL is where that route is reachable
+ * from browsers.
+ */
+export class LocalStorageDriver extends StorageDriver {
+  readonly root: string;
+  private readonly publicUrl: string;
+  // Upload URLs are short-lived, so they needn't survive a restart
+  private readonly uploadSecret = randomBytes(32);
+
+  constructor(configService: ConfigService) {
+    super();
+    this.root = path.resolve(
+      configService.get<string>('STORAGE_LOCAL_PATH') || 'uploads',
+    );
+    const port = configService.get<string>('PORT') || '3000';
+    this.publicUrl = (
+      configService.get<string>('STORAGE_PUBLIC_URL') ||
+      `http://localhost:${port}${LOCAL_STORAGE_ROUTE}`
+    ).replace(/\/+$/, '');
+  }
+
+  async putObject(
+    key: string,
+    body: Buffer,
+    // The static route derives the type from the extension
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    options: PutObjectOptions,
+  ): Promise<void> {
+    const filePath = this.toPath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+  }
+
+  async getObject(key: string): Promise<StoredObject> {
+    try {
+      return { content: await fs.readFile(this.toPath(key)) };
+    } catch (error) {
+      if (error.code === 'ENOENT' || error.code === 'EISDIR') {
+        throw new NotFoundException(`File not found: ${key}`);
+      }
+      throw error;
+    }
+  }
+
+  async headObject(key: string): Promise<ObjectInfo> {
+    try {
+      const stats = await fs.stat(this.toPath(key));
+      if (!stats.isFile()) {
+        throw new NotFoundException(`File not found: ${key}`);
+      }
+      return { size: stats.size };
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        throw new NotFoundException(`File not found: ${key}`);
+      }
+      throw error;
+    }
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    await fs.rm(this.toPath(key), { force: true });
+  }
+
+  // Signed like an S3 presigned URL, and received by serve()
+  async createUploadUrl(
+    key: string,
+    contentType: string,
+    expiresInSeconds: number,
+  ): Promise<string> {
+    this.toPath(key);
+    const expires = Date.now() + expiresInSeconds * 1000;
+    const signature = this.sign(key, contentType, expires);
+    return `${this.getPublicUrl(
+      key,
+    )}?expires=${expires}&signature=${signature}`;
+  }
+
+  async listObjects(prefix: string): Promise<ListedObject[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.root, { recursive: true });
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const objects: ListedObject[] = [];
+    for (const name of names) {
+      const key = name.split(path.sep).join('/');
+      if (!key.startsWith(prefix)) {
+        continue;
+      }
+      const stats = await fs.stat(path.join(this.root, name));
+      if (stats.isFile()) {
+        objects.push({ key, lastModified: stats.mtime });
+      }
+    }
+    return objects;
+  }
+
+  getPublicUrl(key: string): string {
+    return `${this.publicUrl}/${key}`;
+  }
+
+  getKeyFromUrl(url: string): string | null {
+    if (!url.startsWith(`${this.publicUrl}/`)) {
+      return null;
+    }
+    try {
+      const key = decodeURIComponent(url.slice(this.publicUrl.length + 1));
+      this.toPath(key);
+      return key || null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Serves the stored files from LOCAL_STORAGE_ROUTE. Anything but images
+   * is sent as a download so uploaded documents never render in the page.
+   * Files PUT to an upload URL from createUploadUrl are stored.
+   */
+  serve(app: NestExpressApplication): void {
+    app.use(
+      LOCAL_STORAGE_ROUTE,
+      raw({ type: () => true, limit: MAX_DIRECT_UPLOAD_SIZE_BYTES }),
+      (req: Request, res: Response, next: NextFunction) => {
+        if (req.method !== 'PUT') {
+          return next();
+        }
+        this.receiveUpload(req, res).catch(next);
+      },
+    );
+    app.useStaticAssets(this.root, {
+      prefix: LOCAL_STORAGE_ROUTE,
+      index: false,
+      dotfiles: 'deny',
+      setHeaders: (res, filePath) => {
+        res.setHeader('X-Content-Type-Options', 'nosniff');
+        if (!IMAGE_EXTENSIONS.test(filePath)) {
+          res.setHeader('Content-Disposition', 'attachment');
+        }
+      },
+    });
+  }
+
+  private async receiveUpload(req: Request, res: Response): Promise<void> {
+    const key = decodeURIComponent(req.path.replace(/^\//, ''));
+    const contentType = req.headers['content-type'] ?? '';
+    const expires = Number(req.query.expires);
+    const signature = Buffer.from(String(req.query.signature ?? ''));
+    const expected = Buffer.from(this.sign(key, contentType, expires));
+
+    if (
+      !(expires > Date.now()) ||
+      signature.length !== expected.length ||
+      !timingSafeEqual(signature, expected)
+    ) {
+      res.status(403).send('The upload URL is invalid or has expired');
+      return;
+    }
+
+    await this.putObject(
+      key,
+      Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0),
+      {
+        contentType,
+      },
+    );
+    res.status(200).end();
+  }
+
+  private sign(key: string, contentType: string, expires: number): string {
+    return createHmac('sha256', this.uploadSecret)
+      .update(`${key}\n${contentType}\n${expires}`)
+      .digest('hex');
+  }
+
+  // Keys come from URLs, so they must not lead out of the storage folder
+  private toPath(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
@@ -0,0 +1,147 @@
+import { ConfigService } from '@nestjs/config';
+import { NotFoundException } from '@nestjs/common';
+import {
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { mockClient } from 'aws-sdk-client-mock';
+import { S3CompatibleStorageDriver } from './s3-storage.driver';
+
+const s3Mock = mockClient(S3Client);
+
+describe('S3CompatibleStorageDriver', () => {
+  const configFor = (values: Record<string, string>) =>
+    ({ get: (key: string) => values[key] } as unknown as ConfigService);
+  const minio = {
+    AWS_S3_BUCKET_NAME: 'events',
+    AWS_ACCESS_KEY_ID: 'minioadmin',
+    AWS_SECRET_ACCESS_KEY: 'minioadmin',
+    AWS_S3_ENDPOINT: 'http://localhost:9000/',
+  };
+
+  beforeEach(() => {
+    s3Mock.reset();
+  });
+
+  it('should upload to the bucket at the endpoint', async () => {
+    s3Mock.on(PutObjectCommand).resolves({});
+    const driver = new S3CompatibleStorageDriver(configFor(minio));
+
+    await driver.putObject('cover-images/a.jpg', Buffer.from('image'), {
+      contentType: 'image/jpeg',
+      cacheControl: 'public, max-age=60',
+    });
+
+    expect(s3Mock.commandCalls(PutObjectCommand)[0].args[0].input).toEqual({
+      Bucket: 'events',
+      Key: 'cover-images/a.jpg',
+      Body: Buffer.from('image'),
+      ContentType: 'image/jpeg',
+      ContentDisposition: undefined,
+      CacheControl: 'public, max-age=60',
+    });
+  });
+
+  it('should presign uploads that must be sent with the given type', async () => {
+    const driver = new S3CompatibleStorageDriver(configFor(minio));
+
+    const url = new URL(
+      await driver.createUploadUrl('cover-images/a.jpg', 'image/jpeg', 300),
+    );
+
+    expect(`${url.origin}${url.pathname}`).toBe(
+      'http://localhost:9000/events/cover-images/a.jpg',
+    );
+    expect(url.searchParams.get('X-Amz-Expires')).toBe('300');
+    expect(url.searchParams.get('X-Amz-SignedHeaders')).toContain(
+      'content-type',
+    );
+    expect(url.searchParams.get('X-Amz-Signature')).toBeTruthy();
+  });
+
+  it('should read the size and type of a file without downloading it', async () => {
+    s3Mock
+      .on(HeadObjectCommand)
+      .resolvesOnce({ ContentLength: 5, ContentType: 'image/jpeg' })
+      .rejectsOnce(
+        Object.assign(new Error('NotFound'), {
+          $metadata: { httpStatusCode: 404 },
+        }),
+      );
+    const driver = new S3CompatibleStorageDriver(configFor(minio));
+
+    await expect(driver.headObject('cover-images/a.jpg')).resolves.toEqual({
+      size: 5,
+      contentType: 'image/jpeg',
+    });
+    await expect(driver.headObject('cover-images/b.jpg')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('should list every page of objects under a prefix', async () => {
+    const lastModified = new Date('2025-03-01T00:00:00Z');
+    s3Mock
+      .on(ListObjectsV2Command)
+      .resolvesOnce({
+        Contents: [{ Key: 'cover-images/a.jpg', LastModified: lastModified }],
+        IsTruncated: true,
+        NextContinuationToken: 'page-2',
+      })
+      .resolvesOnce({
+        Contents: [{ Key: 'cover-images/b.jpg', LastModified: lastModified }],
+        IsTruncated: false,
+      });
+    const driver = new S3CompatibleStorageDriver(configFor(minio));
+
+    const objects = await driver.listObjects('cover-images/');
+
+    expect(objects).toEqual([
+      { key: 'cover-images/a.jpg', lastModified },
+      { key: 'cover-images/b.jpg', lastModified },
+    ]);
+    const calls = s3Mock.commandCalls(ListObjectsV2Command);
+    expect(calls[0].args[0].input).toEqual({
+      Bucket: 'events',
+      Prefix: 'cover-images/',
+      ContinuationToken: undefined,
+    });
+    expect(calls[1].args[0].input.ContinuationToken).toBe('page-2');
+  });
+
+  it('should link files by path on the endpoint', () => {
+    const driver = new S3CompatibleStorageDriver(configFor(minio));
+
+    expect(driver.getPublicUrl('cover-images/a.jpg')).toBe(
+      'http://localhost:9000/events/cover-images/a.jpg',
+    );
+    expect(
+      driver.getKeyFromUrl(
+        'http://localhost:9000/events/cover-images/a%20b.jpg',
+      ),
+    ).toBe('cover-images/a b.jpg');
+    expect(
+      driver.getKeyFromUrl('http://localhost:9000/other/cover-images/a.jpg'),
+    ).toBeNull();
+  });
+
+  it('should link files through STORAGE_PUBLIC_URL when set', () => {
+    const driver = new S3CompatibleStorageDriver(
+      configFor({ ...minio, STORAGE_PUBLIC_URL: 'https://cdn.example.com/' }),
+    );
+
+    expect(driver.getPublicUrl('a.jpg')).toBe('https://cdn.example.com/a.jpg');
+    expect(driver.getKeyFromUrl('https://cdn.example.com/a.jpg')).toBe('a.jpg');
+  });
+
+  it('should require an endpoint', () => {
+    expect(
+      () =>
+        new S3CompatibleStorageDriver(
+          configFor({ ...minio, AWS_S3_ENDPOINT: '' }),
+        ),
+    ).toThrow('AWS_S3_ENDPOINT is required');
+  });
+});
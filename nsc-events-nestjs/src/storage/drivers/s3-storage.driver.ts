@@ -0,0 +1,232 @@
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+  S3ClientConfig,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import {
+  ListedObject,
+  ObjectInfo,
+  PutObjectOptions,
+  StorageDriver,
+  StoredObject,
+} from './storage.driver';
+
+/**
+ * Keeps files in an AWS S3 bucket (AWS_S3_BUCKET_NAME in AWS_REGION).
+ * Objects have to be publicly readable, e.g. through a bucket policy.
+ */
+export class S3StorageDriver extends StorageDriver {
+  protected readonly bucketName: string;
+  protected readonly s3Client: S3Client;
+
+  constructor(protected readonly configService: ConfigService) {
+    super();
+    this.bucketName = this.configService.get<string>('AWS_S3_BUCKET_NAME');
+    this.s3Client = new S3Client(this.getClientConfig());
+  }
+
+  protected getClientConfig(): S3ClientConfig {
+    return {
+      region: this.configService.get<string>('AWS_REGION'),
+      credentials: {
+        accessKeyId: this.configService.get<string>('AWS_ACCESS_KEY_ID'),
+        secretAccessKey: this.configService.get<string>(
+          'AWS_SECRET_ACCESS_KEY',
+        ),
+      },
+    };
+  }
+
+  async putObject(
+    key: string,
+    body: Buffer,
+    options: PutObjectOptions,
+  ): Promise<void> {
+    await this.s3Client.send(
+      new PutObjectCommand({
+        Bucket: this.bucketName,
+        Key: key,
+        Body: body,
+        ContentType: options.contentType,
+        ContentDisposition: options.contentDisposition,
+        CacheControl: options.cacheControl,
+      }),
+    );
+  }
+
+  async getObject(key: string): Promise<StoredObject> {
+    try {
+      const data = await this.s3Client.send(
+        new GetObjectCommand({ Bucket: this.bucketName, Key: key }),
+      );
+
+      if (!data.Body) {
+        throw new NotFoundException(`File not found: ${key}`);
+      }
+
+      return {
+        content: Buffer.from(await data.Body.transformToByteArray()),
+        contentType: data.ContentType,
+      };
+    } catch (error) {
+      if (error.$metadata?.httpStatusCode === 404) {
+        throw new NotFoundException(`File not found: ${key}`);
+      }
+      throw error;
+    }
+  }
+
+  async headObject(key: string): Promise<ObjectInfo> {
+    try {
+      const data = await this.s3Client.send(
+        new HeadObjectCommand({ Bucket: this.bucketName, Key: key }),
+      );
+      return { size: data.ContentLength ?? 0, contentType: data.ContentType };
+    } catch (error) {
+      if (error.$metadata?.httpStatusCode === 404) {
+        throw new NotFoundException(`File not found: ${key}`);
+      }
+      throw error;
+    }
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    try {
+      await this.s3Client.send(
+        new DeleteObjectCommand({ Bucket: this.bucketName, Key: key }),
+      );
+    } catch (error) {
+      // Even if the file doesn't exist, we consider delete successful
+      if (error.$metadata?.httpStatusCode !== 404) {
+        throw error;
+      }
+    }
+  }
+
+  // The bucket's CORS rules have to allow PUT from the frontend
+  async createUploadUrl(
+    key: string,
+    contentType: string,
+    expiresInSeconds: number,
+  ): Promise<string> {
+    return getSignedUrl(
+      this.s3Client,
+      new PutObjectCommand({
+        Bucket: this.bucketName,
+        Key: key,
+        ContentType: contentType,
+      }),
+      {
+        expiresIn: expiresInSeconds,
+        // Uploads with another type don't match the signature
+        signableHeaders: new Set(['content-type']),
+      },
+    );
+  }
+
+  async listObjects(prefix: string): Promise<ListedObject[]> {
+    const objects: ListedObject[] = [];
+    let continuationToken: string | undefined;
+    // S3 returns at most 1000 keys per page
+    do {
+      const page = await this.s3Client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucketName,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        }),
+      );
+      for (const object of page.Contents ?? []) {
+        objects.push({ key: object.Key, lastModified: object.LastModified });
+      }
+      continuationToken = page.IsTruncated
+        ? page.NextContinuationToken
+        : undefined;
+    } while (continuationToken);
+    return objects;
+  }
+
+  // The URL depends on the bucket's region
+  getPublicUrl(key: string): string {
+    const region = this.configService.get<string>('AWS_REGION');
+    if (region === 'us-east-1') {
+      return `https://${this.bucketName}.s3.amazonaws.com/${key}`;
+    }
+    return `https://${this.bucketName}.s3.${region}.amazonaws.com/${key}`;
+  }
+
+  getKeyFromUrl(url: string): string | null {
+    if (!this.bucketName) {
+      return null;
+    }
+
+    try {
+      const { hostname, pathname } = new URL(url);
+      if (!hostname.startsWith(`${this.bucketName}.s3.`)) {
+        return null;
+      }
+      const key = decodeURIComponent(pathname.replace(/^\//, ''));
+      return key || null;
+    } catch (error) {
+      return null;
+    }
+  }
+}
+
+/**
+ * Keeps files in a bucket of any S3-compatible service such as MinIO, at
+ * AWS_S3_ENDPOINT. Buckets are addressed by path, and files are linked
+ * through STORAGE_PUBLIC_URL, which defaults to `<endpoint>/<bucket>`.
+ */
+export class S3CompatibleStorageDriver extends S3StorageDriver {
+  private readonly publicUrl: string;
+
+  constructor(configService: ConfigService) {
+    super(configService);
+    const endpoint = this.configService.get<string>('AWS_S3_ENDPOINT');
+    if (!endpoint) {
+      throw new Error(
+        'AWS_S3_ENDPOINT is required by the s3-compatible driver',
+      );
+    }
+    this.publicUrl = (
+      this.configService.get<string>('STORAGE_PUBLIC_URL') ||
+      `${endpoint.replace(/\/+$/, '')}/${this.bucketName}`
+    ).replace(/\/+$/, '');
+  }
+
+  protected getClientConfig(): S3ClientConfig {
+    return {
+      ...super.getClientConfig(),
+      // Most compatible services ignore the region, but the SDK needs one
+      region: this.configService.get<string>('AWS_REGION') || 'us-east-1',
+      endpoint: this.configService.get<string>('AWS_S3_ENDPOINT'),
+      forcePathStyle: true,
+    };
+  }
+
+  getPublicUrl(key: string): string {
+    return `${this.publicUrl}/${key}`;
+  }
+
+  getKeyFromUrl(url: string): string | null {
+    if (!url.startsWith(`${this.publicUrl}/`)) {
+      return null;
+    }
+    try {
+      const key = decodeURIComponent(
+        new URL(url).pathname.slice(new URL(this.publicUrl).pathname.length),
+      ).replace(/^\//, '');
+      return key || null;
+    } catch (error) {
+      return null;
+    }
+  }
+}
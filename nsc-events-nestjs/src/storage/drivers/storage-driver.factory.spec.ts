@@ -0,0 +1,48 @@
+import { ConfigService } from '@nestjs/config';
+import { createStorageDriver } from './storage-driver.factory';
+import {
+  S3CompatibleStorageDriver,
+  S3StorageDriver,
+} from './s3-storage.driver';
+import { LocalStorageDriver } from './local-storage.driver';
+
+describe('createStorageDriver', () => {
+  const configFor = (values: Record<string, string>) =>
+    ({ get: (key: string) => values[key] } as unknown as ConfigService);
+  const bucket = {
+    AWS_S3_BUCKET_NAME: 'events',
+    AWS_REGION: 'us-west-2',
+    AWS_ACCESS_KEY_ID: 'key',
+    AWS_SECRET_ACCESS_KEY: 'secret',
+  };
+
+  it('should use AWS S3 by default', () => {
+    const driver = createStorageDriver(configFor(bucket));
+
+    expect(driver).toBeInstanceOf(S3StorageDriver);
+    expect(driver.getPublicUrl('a.jpg')).toBe(
+      'https://events.s3.us-west-2.amazonaws.com/a.jpg',
+    );
+  });
+
+  it('should pick the driver named by STORAGE_DRIVER', () => {
+    expect(
+      createStorageDriver(configFor({ STORAGE_DRIVER: 'Local' })),
+    ).toBeInstanceOf(LocalStorageDriver);
+    expect(
+      createStorageDriver(
+        configFor({
+          ...bucket,
+          STORAGE_DRIVER: 's3-compatible',
+          AWS_S3_ENDPOINT: 'http://localhost:9000',
+        }),
+      ),
+    ).toBeInstanceOf(S3CompatibleStorageDriver);
+  });
+
+  it('should reject unknown drivers', () => {
+    expect(() =>
+      createStorageDriver(configFor({ STORAGE_DRIVER: 'ftp' })),
+    ).toThrow('Unknown STORAGE_DRIVER "ftp"');
+  });
+});
@@ -0,0 +1,42 @@
+import { ConfigService } from '@nestjs/config';
+import { StorageDriver } from './storage.driver';
+import {
+  S3CompatibleStorageDriver,
+  S3StorageDriver,
+} from './s3-storage.driver';
+import { LocalStorageDriver } from './local-storage.driver';
+
+export enum StorageDriverName {
+  s3 = 's3',
+  s3Compatible = 's3-compatible',
+  local = 'local',
+}
+
+/**
+ * Creates the driver named by STORAGE_DRIVER: `s3` (the default),
+ * `s3-compatible` or `local`.
+ */
+export function createStorageDriver(
+  configService: ConfigService,
+): StorageDriver {
+  const name = (
+    configService.get<string>('STORAGE_DRIVER') || StorageDriverName.s3
+  )
+    .trim()
+    .toLowerCase();
+
+  switch (name) {
+    case StorageDriverName.s3:
+      return new S3StorageDriver(configService);
+    case StorageDriverName.s3Compatible:
+      return new S3CompatibleStorageDriver(configService);
+    case StorageDriverName.local:
+      return new LocalStorageDriver(configService);
+    default:
+      throw new Error(
+        `Unknown STORAGE_DRIVER "${name}". Use one of: ${Object.values(
+          StorageDriverName,
+        ).join(', ')}`,
+      );
+  }
+}
@@ -0,0 +1,78 @@
+// Largest file browsers may upload straight to the storage. Cover images
+// are resized afterwards, so they may be much larger than the result.
+export const MAX_DIRECT_UPLOAD_SIZE_BYTES = 20 * 1024 * 1024;
+
+export interface PutObjectOptions {
+  contentType: string;
+  contentDisposition?: string;
+  cacheControl?: string;
+}
+
+export interface StoredObject {
+  content: Buffer;
+  // Unknown when the backend doesn't keep it, e.g. on the local filesystem
+  contentType?: string;
+}
+
+export interface ObjectInfo {
+  size: number;
+  // Unknown when the backend doesn't keep it, e.g. on the local filesystem
+  contentType?: string;
+}
+
+export interface ListedObject {
+  key: string;
+  lastModified: Date;
+}
+
+/**
+ * Where uploaded files are kept. Keys are relative paths such as
+ * `cover-images/1700000000000-fair-card.jpg`; every stored file also has a
+ * public URL, which is what events and attachments save.
+ *
+ * Pick the driver with STORAGE_DRIVER (see createStorageDriver).
+ */
+export abstract class StorageDriver {
+  abstract putObject(
+    key: string,
+    body: Buffer,
+    options: PutObjectOptions,
+  ): Promise<void>;
+
+  /**
+   * @throws {NotFoundException} If there is no file with the key.
+   */
+  abstract getObject(key: string): Promise<StoredObject>;
+
+  /**
+   * Returns the size and type of a file without reading it.
+   *
+   * @throws {NotFoundException} If there is no file with the key.
+   */
+  abstract headObject(key: string): Promise<ObjectInfo>;
+
+  /** Deleting a file that doesn't exist succeeds */
+  abstract deleteObject(key: string): Promise<void>;
+
+  /**
+   * Returns a URL browsers can PUT a file to without going through the API,
+   * valid for `expiresInSeconds`. The upload has to be sent with the given
+   * Content-Type.
+   */
+  abstract createUploadUrl(
+    key: string,
+    contentType: string,
+    expiresInSeconds: number,
+  ): Promise<string>;
+
+  /** Lists every file whose key starts with the prefix, e.g. `cover-images/` */
+  abstract listObjects(prefix: string): Promise<ListedObject[]>;
+
+  abstract getPublicUrl(key: string): string;
+
+  /**
+   * Returns the key of a public URL returned by getPublicUrl, or null when
+   * the URL points somewhere else.
+   */
+  abstract getKeyFromUrl(url: string): string | null;
+}
@@ -0,0 +1,49 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export enum StoredFileOwnerType {
+  activity = 'activity',
+  attachment = 'attachment',
+  speaker = 'speaker',
+}
+
+/**
+ * A file uploaded through StorageService. The owner is set once the entity
+ * using the file is saved, so files without one are uploads that are still
+ * in progress or never got used.
+ */
+@Entity('stored_files')
+export class StoredFile {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index({ unique: true })
+  @Column()
+  key: string;
+
+  @Column()
+  contentType: string;
+
+  // In bytes
+  @Column({ type: 'int' })
+  size: number;
+
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  ownerType: StoredFileOwnerType | null;
+
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  ownerId: string | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
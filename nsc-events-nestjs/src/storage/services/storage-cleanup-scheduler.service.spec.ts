@@ -0,0 +1,90 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Logger } from '@nestjs/common';
+import { StorageReconciliationService } from './storage-reconciliation.service';
+import {
+  STORAGE_CLEANUP_INTERVAL_MS,
+  StorageCleanupSchedulerService,
+} from './storage-cleanup-scheduler.service';
+
+describe('StorageCleanupSchedulerService', () => {
+  let scheduler: StorageCleanupSchedulerService;
+
+  const mockReconciliationService = {
+    reconcile: jest.fn(),
+  };
+
+  const reconciled = (count: number) => ({
+    dryRun: false,
+    graceHours: 24,
+    storedFiles: count,
+    orphans: [],
+    deleted: Array.from({ length: count }, (_, i) => `cover-images/${i}.jpg`),
+  });
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+    jest.spyOn(Logger.prototype, 'log').mockImplementation();
+    jest.spyOn(Logger.prototype, 'error').mockImplementation();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StorageCleanupSchedulerService,
+        {
+          provide: StorageReconciliationService,
+          useValue: mockReconciliationService,
+        },
+      ],
+    }).compile();
+
+    scheduler = module.get<StorageCleanupSchedulerService>(
+      StorageCleanupSchedulerService,
+    );
+  });
+
+  afterEach(() => {
+    scheduler.onModuleDestroy();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('deletes orphaned files on startup and on every interval', async () => {
+    mockReconciliationService.reconcile.mockResolvedValue(reconciled(0));
+
+    scheduler.onModuleInit();
+    expect(mockReconciliationService.reconcile).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(STORAGE_CLEANUP_INTERVAL_MS);
+    expect(mockReconciliationService.reconcile).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns how many files were deleted', async () => {
+    mockReconciliationService.reconcile.mockResolvedValue(reconciled(3));
+
+    await expect(scheduler.deleteOrphanedFiles()).resolves.toBe(3);
+    expect(Logger.prototype.log).toHaveBeenCalled();
+  });
+
+  it('does not start a run while the previous one is in progress', async () => {
+    let finish: (result: ReturnType<typeof reconciled>) => void;
+    mockReconciliationService.reconcile.mockReturnValue(
+      new Promise((resolve) => (finish = resolve)),
+    );
+
+    const first = scheduler.deleteOrphanedFiles();
+    await expect(scheduler.deleteOrphanedFiles()).resolves.toBe(0);
+    finish(reconciled(1));
+
+    await expect(first).resolves.toBe(1);
+    expect(mockReconciliationService.reconcile).toHaveBeenCalledTimes(1);
+  });
+
+  it('logs and swallows errors so the next tick still runs', async () => {
+    mockReconciliationService.reconcile.mockRejectedValue(
+      new Error('Bucket unavailable'),
+    );
+
+    await expect(scheduler.deleteOrphanedFiles()).resolves.toBe(0);
+    expect(Logger.prototype.error).toHaveBeenCalled();
+  });
+});
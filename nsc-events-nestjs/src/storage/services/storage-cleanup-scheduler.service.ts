@@ -0,0 +1,35 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { IntervalJob } from '../../common/interval-job';
+import { StorageReconciliationService } from './storage-reconciliation.service';
+
+// How often the storage is checked for orphaned files
+export const STORAGE_CLEANUP_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Background job that deletes stored files nothing points to once their
+ * grace period is over (see StorageReconciliationService). Runs once on
+ * startup so files left while the server was down don't wait for a tick.
+ */
+@Injectable()
+export class StorageCleanupSchedulerService extends IntervalJob {
+  protected readonly logger = new Logger(StorageCleanupSchedulerService.name);
+  protected readonly failureMessage = 'Failed to delete orphaned files';
+
+  constructor(
+    private readonly reconciliationService: StorageReconciliationService,
+  ) {
+    super(STORAGE_CLEANUP_INTERVAL_MS);
+  }
+
+  deleteOrphanedFiles(): Promise<number> {
+    return this.runOnce();
+  }
+
+  protected async run(): Promise<number> {
+    const { deleted } = await this.reconciliationService.reconcile();
+    if (deleted.length > 0) {
+      this.logger.log(`Deleted ${deleted.length} orphaned file(s)`);
+    }
+    return deleted.length;
+  }
+}
@@ -0,0 +1,264 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { StorageReconciliationService } from './storage-reconciliation.service';
+import { StorageService } from './storage.service';
+import { StorageDriver } from '../drivers/storage.driver';
+import {
+  StoredFile,
+  StoredFileOwnerType,
+} from '../entities/stored-file.entity';
+import { Activity } from '../../activity/entities/activity.entity';
+import { EventAttachment } from '../../attachment/entities/event-attachment.entity';
+import { EventTemplate } from '../../template/entities/event-template.entity';
+import { Speaker } from '../../speaker/entities/speaker.entity';
+import { ActivityRevision } from '../../revision/entities/activity-revision.entity';
+
+describe('StorageReconciliationService', () => {
+  let service: StorageReconciliationService;
+
+  const baseUrl = 'https://bucket.s3.us-west-2.amazonaws.com/';
+  const now = new Date('2025-03-02T12:00:00Z');
+  const hoursAgo = (hours: number) =>
+    new Date(now.getTime() - hours * 60 * 60 * 1000);
+
+  const storageDriver = {
+    listObjects: jest.fn(),
+    getPublicUrl: jest.fn((key: string) => `${baseUrl}${key}`),
+  };
+  const storageService = {
+    getKeyFromUrl: jest.fn((url?: string | null) =>
+      url?.startsWith(baseUrl) ? url.slice(baseUrl.length) : null,
+    ),
+    deleteFiles: jest.fn((keys: string[]) => Promise.resolve(keys)),
+  };
+  const configValues: Record<string, string> = {};
+  const storedFileRepository = { find: jest.fn() };
+  const activityRepository = { find: jest.fn() };
+  const attachmentRepository = { find: jest.fn() };
+  const templateRepository = { find: jest.fn() };
+  const speakerRepository = { find: jest.fn() };
+  const revisionCovers = {
+    select: jest.fn().mockReturnThis(),
+    getRawMany: jest.fn(),
+  };
+  const revisionRepository = {
+    createQueryBuilder: jest.fn(() => revisionCovers),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    delete configValues.STORAGE_ORPHAN_GRACE_HOURS;
+
+    storageDriver.listObjects.mockImplementation((prefix: string) =>
+      Promise.resolve(
+        prefix === 'cover-images/'
+          ? [
+              {
+                key: 'cover-images/1-fair-hero.jpg',
+                lastModified: hoursAgo(48),
+              },
+              {
+                key: 'cover-images/1-fair-card.webp',
+                lastModified: hoursAgo(48),
+              },
+              { key: 'cover-images/2-old.jpg', lastModified: hoursAgo(48) },
+              { key: 'cover-images/3-failed.jpg', lastModified: hoursAgo(48) },
+              { key: 'cover-images/4-new.jpg', lastModified: hoursAgo(48) },
+            ]
+          : prefix === 'event-documents/'
+          ? [
+              {
+                key: 'event-documents/1-agenda.pdf',
+                lastModified: hoursAgo(48),
+              },
+              {
+                key: 'event-documents/2-flyer.pdf',
+                lastModified: hoursAgo(48),
+              },
+            ]
+          : [
+              {
+                key: 'speaker-headshots/1-jane.jpg',
+                lastModified: hoursAgo(48),
+              },
+            ],
+      ),
+    );
+    activityRepository.find.mockResolvedValue([
+      {
+        id: 'activity-1',
+        eventCoverPhoto: `${baseUrl}cover-images/1-fair-hero.jpg`,
+        eventCoverPhotoVariants: {
+          source: `${baseUrl}cover-images/1-fair-hero.jpg`,
+          card: {
+            jpeg: { key: 'cover-images/1-fair-card.jpg' },
+            webp: { key: 'cover-images/1-fair-card.webp' },
+          },
+        },
+        eventDocument: 'https://example.com/agenda.pdf',
+      },
+    ]);
+    attachmentRepository.find.mockResolvedValue([
+      { id: 'attachment-1', url: `${baseUrl}event-documents/1-agenda.pdf` },
+    ]);
+    templateRepository.find.mockResolvedValue([
+      {
+        id: 'template-1',
+        fields: { eventCoverPhoto: `${baseUrl}cover-images/2-old.jpg` },
+      },
+    ]);
+    speakerRepository.find.mockResolvedValue([
+      {
+        id: 'speaker-1',
+        headshotUrl: `${baseUrl}speaker-headshots/1-jane.jpg`,
+      },
+    ]);
+    revisionCovers.getRawMany.mockResolvedValue([
+      { url: `${baseUrl}cover-images/1-fair-hero.jpg` },
+      { url: null },
+    ]);
+    storedFileRepository.find.mockResolvedValue([
+      {
+        key: 'cover-images/4-new.jpg',
+        ownerType: null,
+        ownerId: null,
+        createdAt: hoursAgo(1),
+      },
+      {
+        key: 'event-documents/2-flyer.pdf',
+        ownerType: StoredFileOwnerType.attachment,
+        ownerId: 'attachment-2',
+        createdAt: hoursAgo(30),
+      },
+    ]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StorageReconciliationService,
+        { provide: StorageDriver, useValue: storageDriver },
+        { provide: StorageService, useValue: storageService },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => configValues[key] },
+        },
+        {
+          provide: getRepositoryToken(StoredFile),
+          useValue: storedFileRepository,
+        },
+        { provide: getRepositoryToken(Activity), useValue: activityRepository },
+        {
+          provide: getRepositoryToken(EventAttachment),
+          useValue: attachmentRepository,
+        },
+        {
+          provide: getRepositoryToken(EventTemplate),
+          useValue: templateRepository,
+        },
+        { provide: getRepositoryToken(Speaker), useValue: speakerRepository },
+        {
+          provide: getRepositoryToken(ActivityRevision),
+          useValue: revisionRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<StorageReconciliationService>(
+      StorageReconciliationService,
+    );
+  });
+
+  it('should report files nothing points to, oldest first', async () => {
+    const result = await service.reconcile({ dryRun: true, now });
+
+    expect(result).toMatchObject({
+      dryRun: true,
+      graceHours: 24,
+      storedFiles: 8,
+      deleted: [],
+    });
+    expect(result.orphans).toEqual([
+      {
+        key: 'cover-images/3-failed.jpg',
+        url: `${baseUrl}cover-images/3-failed.jpg`,
+        storedAt: hoursAgo(48),
+        ownerType: null,
+        ownerId: null,
+        dueForDeletion: true,
+      },
+      {
+        key: 'event-documents/2-flyer.pdf',
+        url: `${baseUrl}event-documents/2-flyer.pdf`,
+        storedAt: hoursAgo(30),
+        ownerType: 'attachment',
+        ownerId: 'attachment-2',
+        dueForDeletion: true,
+      },
+      {
+        key: 'cover-images/4-new.jpg',
+        url: `${baseUrl}cover-images/4-new.jpg`,
+        storedAt: hoursAgo(1),
+        ownerType: null,
+        ownerId: null,
+        dueForDeletion: false,
+      },
+    ]);
+    expect(storageService.deleteFiles).not.toHaveBeenCalled();
+  });
+
+  it('should keep the files of trashed events', async () => {
+    await service.reconcile({ dryRun: true, now });
+
+    expect(activityRepository.find).toHaveBeenCalledWith(
+      expect.objectContaining({ withDeleted: true }),
+    );
+  });
+
+  it('should keep cover photos an older revision can restore', async () => {
+    revisionCovers.getRawMany.mockResolvedValue([
+      { url: `${baseUrl}cover-images/3-failed.jpg` },
+    ]);
+
+    const result = await service.reconcile({ dryRun: true, now });
+
+    expect(result.orphans.map(({ key }) => key)).not.toContain(
+      'cover-images/3-failed.jpg',
+    );
+    expect(revisionCovers.select).toHaveBeenCalledWith(
+      `DISTINCT revision.snapshot ->> 'eventCoverPhoto'`,
+      'url',
+    );
+  });
+
+  it('should delete orphans once the grace period is over', async () => {
+    const result = await service.reconcile({ now });
+
+    expect(storageService.deleteFiles).toHaveBeenCalledWith([
+      'cover-images/3-failed.jpg',
+      'event-documents/2-flyer.pdf',
+    ]);
+    expect(result.deleted).toEqual([
+      'cover-images/3-failed.jpg',
+      'event-documents/2-flyer.pdf',
+    ]);
+  });
+
+  it('should read the grace period from STORAGE_ORPHAN_GRACE_HOURS', async () => {
+    configValues.STORAGE_ORPHAN_GRACE_HOURS = '36';
+
+    const result = await service.reconcile({ now });
+
+    expect(result.graceHours).toBe(36);
+    expect(result.deleted).toEqual(['cover-images/3-failed.jpg']);
+  });
+
+  it('should only look in the folders the API uploads to', async () => {
+    await service.reconcile({ dryRun: true, now });
+
+    expect(storageDriver.listObjects.mock.calls).toEqual([
+      ['cover-images/'],
+      ['event-documents/'],
+      ['speaker-headshots/'],
+    ]);
+  });
+});
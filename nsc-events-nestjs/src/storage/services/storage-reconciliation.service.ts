@@ -0,0 +1,199 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { StorageDriver } from '../drivers/storage.driver';
+import { StorageService } from './storage.service';
+import {
+  StoredFile,
+  StoredFileOwnerType,
+} from '../entities/stored-file.entity';
+import { Activity } from '../../activity/entities/activity.entity';
+import { EventAttachment } from '../../attachment/entities/event-attachment.entity';
+import { EventTemplate } from '../../template/entities/event-template.entity';
+import { Speaker } from '../../speaker/entities/speaker.entity';
+import { ActivityRevision } from '../../revision/entities/activity-revision.entity';
+import { coverVariantKeys } from '../../activity/utils/cover-variants.util';
+import { orphanCutoff, parseOrphanGraceHours } from '../utils/orphan.util';
+
+// Folders the API uploads to; anything else in the bucket is left alone
+export const RECONCILED_FOLDERS = [
+  'cover-images/',
+  'event-documents/',
+  'speaker-headshots/',
+];
+
+export interface OrphanedFile {
+  key: string;
+  url: string;
+  // When the file was uploaded
+  storedAt: Date;
+  // The entity the file was uploaded for, if it was ever saved
+  ownerType: StoredFileOwnerType | null;
+  ownerId: string | null;
+  // Whether the grace period is over
+  dueForDeletion: boolean;
+}
+
+export interface StorageReconciliationResult {
+  dryRun: boolean;
+  graceHours: number;
+  // Files in the reconciled folders
+  storedFiles: number;
+  orphans: OrphanedFile[];
+  // Keys of the files deleted; none on a dry run
+  deleted: string[];
+}
+
+/**
+ * Finds stored files that no event, attachment, template or speaker points
+ * to, such as uploads of requests that failed, and deletes them once they
+ * are older than STORAGE_ORPHAN_GRACE_HOURS (24 by default). Trashed events
+ * keep their files until they are purged, and cover photos stay while a
+ * revision can restore them.
+ */
+@Injectable()
+export class StorageReconciliationService {
+  constructor(
+    private readonly storageDriver: StorageDriver,
+    private readonly storageService: StorageService,
+    private readonly configService: ConfigService,
+    @InjectRepository(StoredFile)
+    private readonly storedFileRepository: Repository<StoredFile>,
+    @InjectRepository(Activity)
+    private readonly activityRepository: Repository<Activity>,
+    @InjectRepository(EventAttachment)
+    private readonly attachmentRepository: Repository<EventAttachment>,
+    @InjectRepository(EventTemplate)
+    private readonly templateRepository: Repository<EventTemplate>,
+    @InjectRepository(Speaker)
+    private readonly speakerRepository: Repository<Speaker>,
+    @InjectRepository(ActivityRevision)
+    private readonly revisionRepository: Repository<ActivityRevision>,
+  ) {}
+
+  async reconcile(
+    options: { dryRun?: boolean; now?: Date } = {},
+  ): Promise<StorageReconciliationResult> {
+    const now = options.now ?? new Date();
+    const dryRun = options.dryRun ?? false;
+    const graceHours = parseOrphanGraceHours(
+      this.configService.get<string>('STORAGE_ORPHAN_GRACE_HOURS'),
+    );
+
+    const objects = (
+      await Promise.all(
+        RECONCILED_FOLDERS.map((folder) =>
+          this.storageDriver.listObjects(folder),
+        ),
+      )
+    ).flat();
+    const referenced = await this.getReferencedKeys();
+    const unreferenced = objects.filter(({ key }) => !referenced.has(key));
+
+    const tracked = new Map<string, StoredFile>();
+    if (unreferenced.length > 0) {
+      const rows = await this.storedFileRepository.find({
+        where: { key: In(unreferenced.map(({ key }) => key)) },
+      });
+      for (const row of rows) {
+        tracked.set(row.key, row);
+      }
+    }
+
+    const cutoff = orphanCutoff(now, graceHours);
+    const orphans = unreferenced
+      .map(({ key, lastModified }): OrphanedFile => {
+        const row = tracked.get(key);
+        const storedAt = row?.createdAt ?? lastModified;
+        return {
+          key,
+          url: this.storageDriver.getPublicUrl(key),
+          storedAt,
+          ownerType: row?.ownerType ?? null,
+          ownerId: row?.ownerId ?? null,
+          dueForDeletion: storedAt < cutoff,
+        };
+      })
+      .sort((a, b) => a.storedAt.getTime() - b.storedAt.getTime());
+
+    const deleted = dryRun
+      ? []
+      : await this.storageService.deleteFiles(
+          orphans
+            .filter((orphan) => orphan.dueForDeletion)
+            .map(({ key }) => key),
+        );
+
+    return {
+      dryRun,
+      graceHours,
+      storedFiles: objects.length,
+      orphans,
+      deleted,
+    };
+  }
+
+  // Keys of every file an event (trashed ones included), revision,
+  // attachment, template or speaker points to
+  private async getReferencedKeys(): Promise<Set<string>> {
+    const keys = new Set<string>();
+    const add = (url?: string | null) => {
+      const key = this.storageService.getKeyFromUrl(url);
+      if (key) {
+        keys.add(key);
+      }
+    };
+
+    const activities = await this.activityRepository.find({
+      select: {
+        id: true,
+        eventCoverPhoto: true,
+        eventCoverPhotoVariants: true,
+        eventDocument: true,
+      },
+      withDeleted: true,
+    });
+    for (const activity of activities) {
+      add(activity.eventCoverPhoto);
+      add(activity.eventDocument);
+      for (const key of coverVariantKeys(activity.eventCoverPhotoVariants)) {
+        keys.add(key);
+      }
+    }
+
+    // Variants of restored covers are recreated, so only the photo is kept
+    const revisionCovers: { url: string | null }[] =
+      await this.revisionRepository
+        .createQueryBuilder('revision')
+        .select(`DISTINCT revision.snapshot ->> 'eventCoverPhoto'`, 'url')
+        .getRawMany();
+    for (const { url } of revisionCovers) {
+      add(url);
+    }
+
+    const attachments = await this.attachmentRepository.find({
+      select: { id: true, url: true },
+    });
+    for (const attachment of attachments) {
+      add(attachment.url);
+    }
+
+    const templates = await this.templateRepository.find({
+      select: { id: true, fields: true },
+    });
+    for (const { fields } of templates) {
+      add(fields?.eventCoverPhoto);
+      add(fields?.eventDocument);
+    }
+
+    const speakers = await this.speakerRepository.find({
+      select: { id: true, headshotUrl: true },
+    });
+    for (const speaker of speakers) {
+      add(speaker.headshotUrl);
+    }
+
+    return keys;
+  }
+}
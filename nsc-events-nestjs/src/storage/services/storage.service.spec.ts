@@ -1,12 +1,21 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { ConfigService } from '@nestjs/config';
-import { BadRequestException, NotFoundException } from '@nestjs/common';
-import { S3Service } from './s3.service';
+import { BadRequestException, Logger, NotFoundException } from '@nestjs/common';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { EntityManager } from 'typeorm';
+import { StorageService } from './storage.service';
+import { StorageDriver } from '../drivers/storage.driver';
+import { S3StorageDriver } from '../drivers/s3-storage.driver';
+import {
+  StoredFile,
+  StoredFileOwnerType,
+} from '../entities/stored-file.entity';
 import {
   S3Client,
   PutObjectCommand,
   GetObjectCommand,
   DeleteObjectCommand,
+  HeadObjectCommand,
 } from '@aws-sdk/client-s3';
 import { mockClient } from 'aws-sdk-client-mock';
 import * as sharp from 'sharp';
@@ -17,10 +26,15 @@ const s3Mock = mockClient(S3Client);
 // Mock sharp
 jest.mock('sharp');
 
-describe('S3Service', () => {
-  let service: S3Service;
+describe('StorageService', () => {
+  let service: StorageService;
   let configService: jest.Mocked<ConfigService>;
   let module: TestingModule;
+  let storedFileRepository: {
+    upsert: jest.Mock;
+    update: jest.Mock;
+    delete: jest.Mock;
+  };
 
   const mockConfigValues = {
     AWS_S3_BUCKET_NAME: 'test-bucket',
@@ -43,18 +57,33 @@ describe('S3Service', () => {
     const mockConfigService = {
       get: jest.fn((key: string) => mockConfigValues[key]),
     };
+    storedFileRepository = {
+      upsert: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    };
 
     module = await Test.createTestingModule({
       providers: [
-        S3Service,
+        StorageService,
         {
           provide: ConfigService,
           useValue: mockConfigService,
         },
+        // Runs against the S3 driver, whose client is mocked
+        {
+          provide: StorageDriver,
+          inject: [ConfigService],
+          useFactory: (config: ConfigService) => new S3StorageDriver(config),
+        },
+        {
+          provide: getRepositoryToken(StoredFile),
+          useValue: storedFileRepository,
+        },
       ],
     }).compile();
 
-    service = module.get<S3Service>(S3Service);
+    service = module.get<StorageService>(StorageService);
     configService = module.get(ConfigService);
   });
 
@@ -280,7 +309,7 @@ describe('S3Service', () => {
 
       await expect(
         service.uploadFile(mockFile, 'test-folder', false),
-      ).rejects.toThrow('Failed to upload file to S3: S3 service unavailable');
+      ).rejects.toThrow('Failed to upload file: S3 service unavailable');
     });
 
     it('should throw Error when image resize fails', async () => {
@@ -312,6 +341,414 @@ describe('S3Service', () => {
     });
   });
 
+  describe('uploadCoverImage', () => {
+    const mockFile: Express.Multer.File = {
+      fieldname: 'coverImage',
+      originalname: 'Spring Fair.png',
+      encoding: '7bit',
+      mimetype: 'image/png',
+      size: 1024 * 1024,
+      buffer: Buffer.from('test-image-data'),
+      stream: null,
+      destination: '',
+      filename: '',
+      path: '',
+    };
+    let mockSharp: Record<string, jest.Mock>;
+
+    beforeEach(() => {
+      let width = 0;
+      mockSharp = {
+        rotate: jest.fn().mockReturnThis(),
+        resize: jest.fn((w: number) => {
+          width = w;
+          return mockSharp;
+        }),
+        jpeg: jest.fn().mockReturnThis(),
+        webp: jest.fn().mockReturnThis(),
+        toBuffer: jest.fn((options?: { resolveWithObject?: boolean }) =>
+          Promise.resolve(
+            options?.resolveWithObject
+              ? {
+                  data: Buffer.from(`jpeg-${width}`),
+                  info: { width, height: (width * 9) / 16 },
+                }
+              : Buffer.from(`webp-${width}`),
+          ),
+        ),
+      };
+      (sharp as any).mockReturnValue(mockSharp);
+      s3Mock.on(PutObjectCommand).resolves({});
+      jest.spyOn(Date, 'now').mockReturnValue(1234567890);
+    });
+
+    afterEach(() => {
+      (Date.now as jest.Mock).mockRestore();
+    });
+
+    it('should upload every variant as JPEG and WebP', async () => {
+      const result = await service.uploadCoverImage(mockFile, 'cover-images');
+
+      const base =
+        'https://test-bucket.s3.us-west-2.amazonaws.com/cover-images/1234567890-Spring-Fair';
+      expect(result.url).toBe(`${base}-hero.jpg`);
+      expect(result.variants.source).toBe(result.url);
+      expect(result.variants.thumbnail).toEqual({
+        width: 320,
+        height: 180,
+        jpeg: {
+          key: 'cover-images/1234567890-Spring-Fair-thumbnail.jpg',
+          url: `${base}-thumbnail.jpg`,
+        },
+        webp: {
+          key: 'cover-images/1234567890-Spring-Fair-thumbnail.webp',
+          url: `${base}-thumbnail.webp`,
+        },
+      });
+      expect(result.variants.card.width).toBe(640);
+      expect(result.variants.hero.width).toBe(1920);
+
+      expect(mockSharp.resize).toHaveBeenCalledWith(1920, 1080, {
+        fit: 'inside',
+        withoutEnlargement: true,
+      });
+      expect(mockSharp.rotate).toHaveBeenCalled();
+      const uploads = s3Mock
+        .commandCalls(PutObjectCommand)
+        .map((call) => call.args[0].input);
+      expect(uploads).toHaveLength(6);
+      expect(uploads[0]).toMatchObject({
+        Key: 'cover-images/1234567890-Spring-Fair-thumbnail.jpg',
+        Body: Buffer.from('jpeg-320'),
+        ContentType: 'image/jpeg',
+      });
+      expect(uploads[1]).toMatchObject({
+        Key: 'cover-images/1234567890-Spring-Fair-thumbnail.webp',
+        Body: Buffer.from('webp-320'),
+        ContentType: 'image/webp',
+      });
+    });
+
+    it('should record the uploaded variants without an owner', async () => {
+      await service.uploadCoverImage(mockFile, 'cover-images');
+
+      const [rows, conflictPaths] = storedFileRepository.upsert.mock.calls[0];
+      expect(conflictPaths).toEqual(['key']);
+      expect(rows).toHaveLength(6);
+      expect(rows[0]).toEqual({
+        key: 'cover-images/1234567890-Spring-Fair-thumbnail.jpg',
+        contentType: 'image/jpeg',
+        size: Buffer.from('jpeg-320').length,
+      });
+    });
+
+    it('should delete the variants already uploaded when one fails', async () => {
+      jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+      s3Mock
+        .on(PutObjectCommand)
+        .resolvesOnce({})
+        .rejects(new Error('S3 service unavailable'));
+      s3Mock.on(DeleteObjectCommand).resolves({});
+
+      await expect(
+        service.uploadCoverImage(mockFile, 'cover-images'),
+      ).rejects.toThrow('Failed to upload file: S3 service unavailable');
+
+      const deleted = s3Mock
+        .commandCalls(DeleteObjectCommand)
+        .map((call) => call.args[0].input.Key);
+      expect(deleted).toEqual([
+        'cover-images/1234567890-Spring-Fair-thumbnail.jpg',
+      ]);
+      expect(storedFileRepository.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should validate the file like other images', async () => {
+      await expect(
+        service.uploadCoverImage(
+          { ...mockFile, size: 6 * 1024 * 1024 },
+          'cover-images',
+        ),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.uploadCoverImage(
+          { ...mockFile, mimetype: 'image/svg+xml' },
+          'cover-images',
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(s3Mock.calls()).toHaveLength(0);
+    });
+
+    it('should reject images sharp cannot read without uploading', async () => {
+      mockSharp.toBuffer.mockRejectedValue(
+        new Error('Input buffer contains unsupported image format'),
+      );
+
+      await expect(
+        service.uploadCoverImage(mockFile, 'cover-images'),
+      ).rejects.toThrow(BadRequestException);
+      expect(s3Mock.calls()).toHaveLength(0);
+    });
+
+    it('should create variants of an existing cover photo next to it', async () => {
+      s3Mock.on(GetObjectCommand).resolves({
+        Body: {
+          transformToByteArray: jest
+            .fn()
+            .mockResolvedValue(new Uint8Array(Buffer.from('original'))),
+        } as any,
+        ContentType: 'image/jpeg',
+      });
+      const url =
+        'https://test-bucket.s3.us-west-2.amazonaws.com/cover-images/1-old.jpg';
+
+      const variants = await service.createCoverVariants(url);
+
+      expect(sharp).toHaveBeenCalledWith(Buffer.from('original'));
+      expect(variants.source).toBe(url);
+      expect(variants.card.webp.key).toBe('cover-images/1-old-card.webp');
+      expect(s3Mock.commandCalls(PutObjectCommand)).toHaveLength(6);
+    });
+
+    it('should turn a direct upload into variants and delete it', async () => {
+      s3Mock.on(HeadObjectCommand).resolves({
+        ContentLength: 8,
+        ContentType: 'image/png',
+      });
+      s3Mock.on(GetObjectCommand).resolves({
+        Body: {
+          transformToByteArray: jest
+            .fn()
+            .mockResolvedValue(new Uint8Array(Buffer.from('original'))),
+        } as any,
+        ContentType: 'image/png',
+      });
+      s3Mock.on(DeleteObjectCommand).resolves({});
+
+      const result = await service.finalizeCoverImage(
+        'cover-images/uploads/activity-1/1-fair.png',
+        'cover-images',
+      );
+
+      expect(sharp).toHaveBeenCalledWith(Buffer.from('original'));
+      expect(result.url).toBe(
+        'https://test-bucket.s3.us-west-2.amazonaws.com/cover-images/1-fair-hero.jpg',
+      );
+      expect(result.variants.source).toBe(result.url);
+      expect(s3Mock.commandCalls(PutObjectCommand)).toHaveLength(6);
+      expect(
+        s3Mock.commandCalls(DeleteObjectCommand)[0].args[0].input.Key,
+      ).toBe('cover-images/uploads/activity-1/1-fair.png');
+    });
+
+    it('should reject finalizing an upload that never happened', async () => {
+      const error: any = new Error('NoSuchKey');
+      error.$metadata = { httpStatusCode: 404 };
+      s3Mock.on(HeadObjectCommand).rejects(error);
+
+      await expect(
+        service.finalizeCoverImage(
+          'cover-images/uploads/activity-1/1-fair.png',
+          'cover-images',
+        ),
+      ).rejects.toThrow('The upload was not found. It may have expired.');
+    });
+
+    it('should reject oversized direct uploads without downloading them', async () => {
+      s3Mock.on(HeadObjectCommand).resolves({
+        ContentLength: 21 * 1024 * 1024,
+        ContentType: 'image/png',
+      });
+      s3Mock.on(DeleteObjectCommand).resolves({});
+
+      await expect(
+        service.finalizeCoverImage(
+          'cover-images/uploads/activity-1/1-fair.png',
+          'cover-images',
+        ),
+      ).rejects.toThrow('File size exceeds the maximum limit of 20 MB.');
+      expect(s3Mock.commandCalls(GetObjectCommand)).toHaveLength(0);
+      expect(s3Mock.commandCalls(DeleteObjectCommand)).toHaveLength(1);
+    });
+
+    it('should reject direct uploads stored with another type without downloading them', async () => {
+      s3Mock.on(HeadObjectCommand).resolves({
+        ContentLength: 8,
+        ContentType: 'text/html',
+      });
+      s3Mock.on(DeleteObjectCommand).resolves({});
+
+      await expect(
+        service.finalizeCoverImage(
+          'cover-images/uploads/activity-1/1-fair.png',
+          'cover-images',
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(s3Mock.commandCalls(GetObjectCommand)).toHaveLength(0);
+      expect(s3Mock.commandCalls(DeleteObjectCommand)).toHaveLength(1);
+    });
+
+    it('should reject direct uploads that are not images and delete them', async () => {
+      s3Mock.on(HeadObjectCommand).resolves({ ContentLength: 6 });
+      s3Mock.on(GetObjectCommand).resolves({
+        Body: {
+          transformToByteArray: jest
+            .fn()
+            .mockResolvedValue(new Uint8Array(Buffer.from('<html>'))),
+        } as any,
+      });
+      s3Mock.on(DeleteObjectCommand).resolves({});
+      mockSharp.toBuffer.mockRejectedValue(
+        new Error('Input buffer contains unsupported image format'),
+      );
+
+      await expect(
+        service.finalizeCoverImage(
+          'cover-images/uploads/activity-1/1-fair.png',
+          'cover-images',
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(s3Mock.commandCalls(PutObjectCommand)).toHaveLength(0);
+      expect(s3Mock.commandCalls(DeleteObjectCommand)).toHaveLength(1);
+    });
+
+    it('should refuse to create variants of images outside the bucket', async () => {
+      await expect(
+        service.createCoverVariants('https://example.com/image.jpg'),
+      ).rejects.toThrow(BadRequestException);
+      expect(s3Mock.calls()).toHaveLength(0);
+    });
+  });
+
+  describe('createCoverImageUpload', () => {
+    beforeEach(() => {
+      jest.spyOn(Date, 'now').mockReturnValue(1234567890);
+    });
+
+    afterEach(() => {
+      (Date.now as jest.Mock).mockRestore();
+    });
+
+    it('should create a presigned URL for the given type', async () => {
+      const upload = await service.createCoverImageUpload(
+        'cover-images/uploads/activity-1',
+        'Spring Fair.png',
+        'image/png',
+      );
+
+      expect(upload.key).toBe(
+        'cover-images/uploads/activity-1/1234567890-Spring-Fair.png',
+      );
+      expect(upload.uploadUrl).toContain(
+        'https://test-bucket.s3.us-west-2.amazonaws.com/cover-images/uploads/activity-1/1234567890-Spring-Fair.png?',
+      );
+      expect(upload.uploadUrl).toContain('X-Amz-Signature=');
+      expect(upload.contentType).toBe('image/png');
+      expect(upload.expiresAt).toEqual(new Date(1234567890 + 5 * 60 * 1000));
+    });
+
+    it('should only allow image types', async () => {
+      await expect(
+        service.createCoverImageUpload(
+          'cover-images/uploads/activity-1',
+          'page.html',
+          'text/html',
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('uploadDocument', () => {
+    const pdfFile: Express.Multer.File = {
+      fieldname: 'file',
+      originalname: 'Spring Agenda (final).pdf',
+      encoding: '7bit',
+      mimetype: 'application/octet-stream',
+      size: 8 * 1024 * 1024, // 8MB
+      buffer: Buffer.from('%PDF-1.7\n1 0 obj'),
+      stream: null,
+      destination: '',
+      filename: '',
+      path: '',
+    };
+
+    it('should upload documents up to 10MB with the sniffed type', async () => {
+      s3Mock.on(PutObjectCommand).resolves({});
+
+      const result = await service.uploadDocument(pdfFile, 'event-documents');
+
+      expect(result).toMatchObject({
+        mimeType: 'application/pdf',
+        size: pdfFile.size,
+      });
+      expect(result.key).toMatch(
+        /^event-documents\/\d+-Spring-Agenda-final-.pdf$/,
+      );
+      expect(result.url).toBe(
+        `https://test-bucket.s3.us-west-2.amazonaws.com/${result.key}`,
+      );
+      expect(s3Mock.call(0).args[0].input).toMatchObject({
+        Bucket: 'test-bucket',
+        Key: result.key,
+        Body: pdfFile.buffer,
+        ContentType: 'application/pdf',
+        ContentDisposition:
+          "attachment; filename*=UTF-8''Spring%20Agenda%20(final).pdf",
+      });
+    });
+
+    it('should reject documents over 10MB', async () => {
+      await expect(
+        service.uploadDocument(
+          { ...pdfFile, size: 11 * 1024 * 1024 },
+          'event-documents',
+        ),
+      ).rejects.toThrow(
+        new BadRequestException(
+          'File size exceeds the maximum limit of 10 MB.',
+        ),
+      );
+      expect(s3Mock.calls()).toHaveLength(0);
+    });
+
+    it('should reject files that are not documents whatever their MIME type', async () => {
+      await expect(
+        service.uploadDocument(
+          {
+            ...pdfFile,
+            originalname: 'agenda.pdf',
+            mimetype: 'application/pdf',
+            buffer: Buffer.from('MZ\x90\x00'),
+          },
+          'event-documents',
+        ),
+      ).rejects.toThrow(
+        new BadRequestException(
+          'Invalid file type. Allowed types are: pdf, doc, xls, ppt, docx, xlsx, pptx.',
+        ),
+      );
+      expect(s3Mock.calls()).toHaveLength(0);
+    });
+
+    it('should reject documents named as another type', async () => {
+      await expect(
+        service.uploadDocument(
+          { ...pdfFile, originalname: 'agenda.docx' },
+          'event-documents',
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(s3Mock.calls()).toHaveLength(0);
+    });
+
+    it('should throw error when S3 upload fails', async () => {
+      s3Mock.on(PutObjectCommand).rejects(new Error('S3 error'));
+
+      await expect(
+        service.uploadDocument(pdfFile, 'event-documents'),
+      ).rejects.toThrow('Failed to upload file: S3 error');
+    });
+  });
+
   describe('getFile', () => {
     const mockFileKey = 'test-folder/test-image.jpg';
 
@@ -571,6 +1008,9 @@ describe('S3Service', () => {
         Bucket: 'test-bucket',
         Key: mockFileKey,
       });
+      expect(storedFileRepository.delete).toHaveBeenCalledWith({
+        key: mockFileKey,
+      });
     });
 
     it('should not throw error when file does not exist (404)', async () => {
@@ -604,6 +1044,78 @@ describe('S3Service', () => {
     });
   });
 
+  describe('deleteFiles', () => {
+    it('should delete what it can and log the rest', async () => {
+      const warn = jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+      const error: any = new Error('S3 service unavailable');
+      error.$metadata = { httpStatusCode: 500 };
+      s3Mock
+        .on(DeleteObjectCommand)
+        .resolves({})
+        .on(DeleteObjectCommand, { Key: 'cover-images/b.jpg' })
+        .rejects(error);
+
+      const deleted = await service.deleteFiles([
+        'cover-images/a.jpg',
+        'cover-images/b.jpg',
+      ]);
+
+      expect(deleted).toEqual(['cover-images/a.jpg']);
+      expect(warn).toHaveBeenCalledWith(
+        'Failed to delete file: S3 service unavailable',
+      );
+    });
+  });
+
+  describe('attachFiles', () => {
+    const owner = { type: StoredFileOwnerType.activity, id: 'activity-1' };
+
+    it('should set the owner in the caller transaction', async () => {
+      const transactionRepository = { update: jest.fn() };
+      const manager = {
+        getRepository: jest.fn().mockReturnValue(transactionRepository),
+      } as unknown as EntityManager;
+
+      await service.attachFiles(['cover-images/a.jpg'], owner, manager);
+
+      expect(manager.getRepository).toHaveBeenCalledWith(StoredFile);
+      expect(transactionRepository.update).toHaveBeenCalledWith(
+        { key: expect.objectContaining({ _value: ['cover-images/a.jpg'] }) },
+        { ownerType: 'activity', ownerId: 'activity-1' },
+      );
+      expect(storedFileRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should do nothing without files', async () => {
+      await service.attachFiles([], owner);
+
+      expect(storedFileRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getKeyFromUrl', () => {
+    it('should return the key of a URL in the bucket', () => {
+      expect(
+        service.getKeyFromUrl(
+          'https://test-bucket.s3.us-west-2.amazonaws.com/cover-images/my%20photo.jpg',
+        ),
+      ).toBe('cover-images/my photo.jpg');
+      expect(
+        service.getKeyFromUrl(
+          'https://test-bucket.s3.amazonaws.com/cover-images/photo.jpg',
+        ),
+      ).toBe('cover-images/photo.jpg');
+    });
+
+    it('should return null for other URLs', () => {
+      expect(
+        service.getKeyFromUrl('https://example.com/cover-images/photo.jpg'),
+      ).toBeNull();
+      expect(service.getKeyFromUrl('not a url')).toBeNull();
+      expect(service.getKeyFromUrl('')).toBeNull();
+    });
+  });
+
   describe('resizeImage (private method - tested through uploadFile)', () => {
     const mockFile: Express.Multer.File = {
       fieldname: 'file',
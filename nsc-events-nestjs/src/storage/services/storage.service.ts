@@ -0,0 +1,625 @@
+import {
+  Injectable,
+  BadRequestException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, Repository } from 'typeorm';
+import { Express } from 'express';
+import * as sharp from 'sharp';
+import * as path from 'path';
+import {
+  DOCUMENT_MIME_TYPES,
+  sniffDocumentType,
+} from '../../activity/utils/document-type.util';
+import {
+  COVER_VARIANT_NAMES,
+  COVER_VARIANT_SIZES,
+  CoverPhotoVariants,
+  coverVariantKey,
+} from '../../activity/utils/cover-variants.util';
+import {
+  MAX_DIRECT_UPLOAD_SIZE_BYTES,
+  ObjectInfo,
+  StorageDriver,
+} from '../drivers/storage.driver';
+import {
+  StoredFile,
+  StoredFileOwnerType,
+} from '../entities/stored-file.entity';
+
+// Documents are often scanned, so they get more room than images
+export const MAX_DOCUMENT_SIZE_BYTES = 10 * 1024 * 1024;
+
+export interface UploadedDocument {
+  url: string;
+  key: string;
+  // Detected from the file contents
+  mimeType: string;
+  size: number;
+}
+
+export interface UploadedCoverImage {
+  // The hero JPEG, shown wherever no variant fits better
+  url: string;
+  variants: CoverPhotoVariants;
+}
+
+// How long browsers have to start an upload to an upload URL
+export const UPLOAD_URL_TTL_SECONDS = 5 * 60;
+
+export interface DirectUpload {
+  // Pass to the finalize step once the file is uploaded
+  key: string;
+  // PUT the file here, with the Content-Type below
+  uploadUrl: string;
+  contentType: string;
+  expiresAt: Date;
+}
+
+export interface StoredFileOwner {
+  type: StoredFileOwnerType;
+  id: string;
+}
+
+interface RenderedFile {
+  key: string;
+  body: Buffer;
+  contentType: string;
+}
+
+/**
+ * Validates and processes uploads before handing them to the configured
+ * StorageDriver, so callers don't depend on where files are kept.
+ *
+ * Every upload is recorded as a StoredFile. Callers attach the files they
+ * use to their entity with attachFiles; the storage reconciliation removes
+ * files nothing points to.
+ */
+@Injectable()
+export class StorageService {
+  private readonly logger = new Logger(StorageService.name);
+
+  // Constructors and properties
+  // Maximum allowed file size: 5MB
+  private readonly MAX_FILE_SIZE_BYTES = 5 * 1024 * 1024;
+
+  private readonly allowedImageMimeTypes = [
+    'image/png',
+    'image/jpeg',
+    'image/jpg',
+    'image/webp',
+    'image/gif',
+  ];
+
+  constructor(
+    private readonly storageDriver: StorageDriver,
+    @InjectRepository(StoredFile)
+    private readonly storedFileRepository: Repository<StoredFile>,
+  ) {}
+
+  /**
+   * UTILITIES
+   * This section contains utility functions for file validation and processing.
+   * These functions are used internally and are not exposed as part of the public API.
+   */
+
+  /**
+   * Resizes an image buffer to a maximum width/height while maintaining aspect ratio
+   * @param buffer - The original image buffer
+   * @param maxWidth - Maximum width in pixels (default: 1920)
+   * @param maxHeight - Maximum height in pixels (default: 1080)
+   * @returns Resized image buffer
+   * @private
+   */
+  private async resizeImage(
+    buffer: Buffer,
+    maxWidth = 1920,
+    maxHeight = 1080,
+  ): Promise<Buffer> {
+    try {
+      return await sharp(buffer)
+        .resize(maxWidth, maxHeight, {
+          fit: 'inside',
+          withoutEnlargement: true,
+        })
+        .jpeg({ quality: 85 })
+        .toBuffer();
+    } catch (error) {
+      throw new Error(`Failed to resize image: ${error.message}`);
+    }
+  }
+
+  /**
+   * Validates an uploaded image's size and type
+   * @throws {BadRequestException} If the file size exceeds 5 MB.
+   * @throws {BadRequestException} If the file type is not allowed.
+   * @private
+   */
+  private validateImage(file: Express.Multer.File): void {
+    // Validate file size before uploading.
+    if (file.size > this.MAX_FILE_SIZE_BYTES) {
+      throw new BadRequestException(
+        `File size exceeds the maximum limit of ${
+          this.MAX_FILE_SIZE_BYTES / 1024 / 1024
+        } MB.`,
+      );
+    }
+
+    if (!this.allowedImageMimeTypes.includes(file.mimetype)) {
+      throw new BadRequestException(
+        `Invalid file type. Allowed types are: png, jpg, jpeg, gif, webp.`,
+      );
+    }
+  }
+
+  /**
+   * Resizes an image into every cover variant, as JPEG and WebP, and
+   * uploads them next to `baseKey`
+   * @private
+   */
+  private async uploadCoverVariants(
+    buffer: Buffer,
+    baseKey: string,
+  ): Promise<Omit<CoverPhotoVariants, 'source'>> {
+    const rendered: RenderedFile[] = [];
+    const sizes = {} as Omit<CoverPhotoVariants, 'source'>;
+
+    try {
+      for (const name of COVER_VARIANT_NAMES) {
+        const { width, height } = COVER_VARIANT_SIZES[name];
+        // rotate() applies the EXIF orientation before it's stripped
+        const resize = () =>
+          sharp(buffer).rotate().resize(width, height, {
+            fit: 'inside',
+            withoutEnlargement: true,
+          });
+        const jpeg = await resize()
+          .jpeg({ quality: 85, mozjpeg: true })
+          .toBuffer({ resolveWithObject: true });
+        const webp = await resize().webp({ quality: 80 }).toBuffer();
+
+        const jpegKey = coverVariantKey(baseKey, name, 'jpeg');
+        const webpKey = coverVariantKey(baseKey, name, 'webp');
+        rendered.push(
+          { key: jpegKey, body: jpeg.data, contentType: 'image/jpeg' },
+          { key: webpKey, body: webp, contentType: 'image/webp' },
+        );
+        sizes[name] = {
+          width: jpeg.info.width,
+          height: jpeg.info.height,
+          jpeg: { key: jpegKey, url: this.storageDriver.getPublicUrl(jpegKey) },
+          webp: { key: webpKey, url: this.storageDriver.getPublicUrl(webpKey) },
+        };
+      }
+    } catch (error) {
+      throw new BadRequestException(
+        `The image could not be read: ${error.message}`,
+      );
+    }
+
+    try {
+      await this.putFiles(rendered, {
+        // Keys are unique per upload, so variants never change
+        cacheControl: 'public, max-age=31536000, immutable',
+      });
+    } catch (error) {
+      throw new Error(`Failed to upload file: ${error.message}`);
+    }
+
+    return sizes;
+  }
+
+  /**
+   * Uploads files and records them, all or nothing: when one fails, the
+   * ones already uploaded are deleted again.
+   * @private
+   */
+  private async putFiles(
+    files: RenderedFile[],
+    options: { contentDisposition?: string; cacheControl?: string } = {},
+  ): Promise<void> {
+    const uploaded: string[] = [];
+    try {
+      for (const file of files) {
+        await this.storageDriver.putObject(file.key, file.body, {
+          contentType: file.contentType,
+          ...options,
+        });
+        uploaded.push(file.key);
+      }
+      // Variants created again for a cover photo keep their keys
+      await this.storedFileRepository.upsert(
+        files.map((file) => ({
+          key: file.key,
+          contentType: file.contentType,
+          size: file.body.length,
+        })),
+        ['key'],
+      );
+    } catch (error) {
+      await this.deleteFiles(uploaded);
+      throw error;
+    }
+  }
+
+  /**
+   * Uploads a file to a specified folder in the storage.
+   *
+   * Validates the file size is under 5 MB.
+   *
+   * @param file - The file to be uploaded
+   * @param folder - The target folder within the storage.
+   * @param resize - Whether to resize the image before upload (default: false)
+   * @returns The public URL of the uploaded file.
+   * @throws {BadRequestException} If the file size exceeds 5 MB.
+   * @throws {BadRequestException} If the file type is not allowed.
+   * @throws {Error} If the upload fails.
+   */
+  async uploadFile(
+    file: Express.Multer.File,
+    folder: string,
+    resize = false,
+  ): Promise<string> {
+    this.validateImage(file);
+
+    try {
+      // Resize image if requested
+      let fileBuffer = file.buffer;
+      if (resize) {
+        fileBuffer = await this.resizeImage(file.buffer);
+      }
+
+      // Create a unique filename to prevent overwriting
+      const fileName = `${Date.now()}-${
+        'name' in file ? file.name : file.originalname
+      }`;
+
+      const key = `${folder}/${fileName}`;
+      await this.putFiles([
+        { key, body: fileBuffer, contentType: file.mimetype },
+      ]);
+
+      return this.storageDriver.getPublicUrl(key);
+    } catch (error) {
+      throw new Error(`Failed to upload file: ${error.message}`);
+    }
+  }
+
+  /**
+   * Uploads a cover photo as a set of responsive variants (see
+   * COVER_VARIANT_SIZES), each as JPEG and WebP.
+   *
+   * @param file - The image to be uploaded.
+   * @param folder - The target folder within the storage.
+   * @returns The URL of the hero JPEG and the variants.
+   * @throws {BadRequestException} If the file size exceeds 5 MB.
+   * @throws {BadRequestException} If the file type is not allowed.
+   * @throws {BadRequestException} If the image can't be read.
+   * @throws {Error} If the upload fails.
+   */
+  async uploadCoverImage(
+    file: Express.Multer.File,
+    folder: string,
+  ): Promise<UploadedCoverImage> {
+    this.validateImage(file);
+
+    const baseName = file.originalname
+      .replace(/\.[^.]*$/, '')
+      .replace(/[^\w.-]+/g, '-');
+    const sizes = await this.uploadCoverVariants(
+      file.buffer,
+      `${folder}/${Date.now()}-${baseName}`,
+    );
+    const url = sizes.hero.jpeg.url;
+    return { url, variants: { source: url, ...sizes } };
+  }
+
+  /**
+   * Creates a short-lived URL browsers can upload a cover photo to
+   * directly. The upload is only usable once finalizeCoverImage has
+   * processed it.
+   *
+   * @param folder - The folder to upload to, e.g. one per event.
+   * @param fileName - Name of the file being uploaded.
+   * @param contentType - MIME type the file will be sent with.
+   * @throws {BadRequestException} If the file type is not allowed.
+   * @throws {Error} If the URL can't be created.
+   */
+  async createCoverImageUpload(
+    folder: string,
+    fileName: string,
+    contentType: string,
+  ): Promise<DirectUpload> {
+    if (!this.allowedImageMimeTypes.includes(contentType)) {
+      throw new BadRequestException(
+        `Invalid file type. Allowed types are: png, jpg, jpeg, gif, webp.`,
+      );
+    }
+
+    const key = `${folder}/${Date.now()}-${fileName.replace(/[^\w.-]+/g, '-')}`;
+    try {
+      const uploadUrl = await this.storageDriver.createUploadUrl(
+        key,
+        contentType,
+        UPLOAD_URL_TTL_SECONDS,
+      );
+      return {
+        key,
+        uploadUrl,
+        contentType,
+        expiresAt: new Date(Date.now() + UPLOAD_URL_TTL_SECONDS * 1000),
+      };
+    } catch (error) {
+      throw new Error(`Failed to create upload URL: ${error.message}`);
+    }
+  }
+
+  /**
+   * Turns a cover photo uploaded through createCoverImageUpload into the
+   * usual variants, stored in `folder`. The upload itself is deleted.
+   *
+   * @param uploadKey - The key returned by createCoverImageUpload.
+   * @param folder - The target folder within the storage.
+   * @returns The URL of the hero JPEG and the variants.
+   * @throws {BadRequestException} If nothing was uploaded, the file is over
+   * 20 MB or it isn't an image. Size and type are checked before the file is
+   * downloaded.
+   * @throws {Error} If the upload fails.
+   */
+  async finalizeCoverImage(
+    uploadKey: string,
+    folder: string,
+  ): Promise<UploadedCoverImage> {
+    // Checked before downloading, so oversized uploads are never read
+    let info: ObjectInfo;
+    try {
+      info = await this.storageDriver.headObject(uploadKey);
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw new BadRequestException(
+          'The upload was not found. It may have expired.',
+        );
+      }
+      throw error;
+    }
+
+    try {
+      if (info.size > MAX_DIRECT_UPLOAD_SIZE_BYTES) {
+        throw new BadRequestException(
+          `File size exceeds the maximum limit of ${
+            MAX_DIRECT_UPLOAD_SIZE_BYTES / 1024 / 1024
+          } MB.`,
+        );
+      }
+      if (
+        info.contentType &&
+        !this.allowedImageMimeTypes.includes(info.contentType)
+      ) {
+        throw new BadRequestException(
+          `Invalid file type. Allowed types are: png, jpg, jpeg, gif, webp.`,
+        );
+      }
+
+      const { content } = await this.getFile(uploadKey);
+      const baseName = path.posix.basename(uploadKey).replace(/\.[^.]*$/, '');
+      const sizes = await this.uploadCoverVariants(
+        content,
+        `${folder}/${baseName}`,
+      );
+      const url = sizes.hero.jpeg.url;
+      return { url, variants: { source: url, ...sizes } };
+    } finally {
+      // Only the variants are kept
+      await this.deleteFiles([uploadKey]);
+    }
+  }
+
+  /**
+   * Creates the variants of a cover photo uploaded before variants existed.
+   * They are stored next to the original.
+   *
+   * @param url - Public URL of the cover photo.
+   * @throws {BadRequestException} If the URL points outside the storage or
+   * the image can't be read.
+   * @throws {NotFoundException} If the file is not found.
+   */
+  async createCoverVariants(url: string): Promise<CoverPhotoVariants> {
+    const key = this.getKeyFromUrl(url);
+    if (!key) {
+      throw new BadRequestException(`Not a stored image: ${url}`);
+    }
+
+    const { content } = await this.getFile(key);
+    const sizes = await this.uploadCoverVariants(
+      content,
+      key.replace(/\.[^./]*$/, ''),
+    );
+    return { source: url, ...sizes };
+  }
+
+  /**
+   * Uploads a PDF or Office document to a specified folder in the storage.
+   *
+   * The type is sniffed from the file contents instead of trusting the
+   * reported MIME type, and has to match the file name's extension.
+   *
+   * @param file - The document to be uploaded.
+   * @param folder - The target folder within the storage.
+   * @returns The public URL and key of the uploaded document, with its type and size.
+   * @throws {BadRequestException} If the file size exceeds 10 MB.
+   * @throws {BadRequestException} If the file is not a PDF or Office document.
+   * @throws {Error} If the upload fails.
+   */
+  async uploadDocument(
+    file: Express.Multer.File,
+    folder: string,
+  ): Promise<UploadedDocument> {
+    if (file.size > MAX_DOCUMENT_SIZE_BYTES) {
+      throw new BadRequestException(
+        `File size exceeds the maximum limit of ${
+          MAX_DOCUMENT_SIZE_BYTES / 1024 / 1024
+        } MB.`,
+      );
+    }
+
+    const type = sniffDocumentType(file.buffer, file.originalname);
+    if (!type) {
+      throw new BadRequestException(
+        `Invalid file type. Allowed types are: ${Object.keys(
+          DOCUMENT_MIME_TYPES,
+        ).join(', ')}.`,
+      );
+    }
+    if (!file.originalname.toLowerCase().endsWith(`.${type.extension}`)) {
+      throw new BadRequestException(
+        `The file contents don't match its name. It looks like a .${type.extension} file.`,
+      );
+    }
+
+    try {
+      // Keep the key URL-safe; the original name is kept for downloads
+      const safeName = file.originalname.replace(/[^\w.-]+/g, '-');
+      const key = `${folder}/${Date.now()}-${safeName}`;
+
+      await this.putFiles(
+        [{ key, body: file.buffer, contentType: type.mimeType }],
+        {
+          contentDisposition: `attachment; filename*=UTF-8''${encodeURIComponent(
+            file.originalname,
+          )}`,
+        },
+      );
+
+      return {
+        url: this.storageDriver.getPublicUrl(key),
+        key,
+        mimeType: type.mimeType,
+        size: file.size,
+      };
+    } catch (error) {
+      throw new Error(`Failed to upload file: ${error.message}`);
+    }
+  }
+
+  /**
+   * Retrieves a stored file.
+   *
+   * @param fileKey - The key of the file.
+   * @returns Object containing the file buffer, filename, and content type.
+   * @throws {NotFoundException} If the file is not found.
+   */
+  async getFile(fileKey: string): Promise<{
+    content: Buffer;
+    filename: string;
+    contentType: string;
+  }> {
+    const { content, contentType } = await this.storageDriver.getObject(
+      fileKey,
+    );
+
+    // Extract filename from fileKey
+    const filename = fileKey.split('/').pop() || fileKey;
+
+    return {
+      content,
+      filename,
+      contentType: contentType || this.getContentTypeByExtension(filename),
+    };
+  }
+
+  /**
+   * Deletes a single stored file.
+   *
+   * @param fileKey - The key of the file to delete.
+   * @throws {Error} If deletion fails.
+   */
+  async deleteFile(fileKey: string): Promise<void> {
+    try {
+      await this.storageDriver.deleteObject(fileKey);
+      await this.storedFileRepository.delete({ key: fileKey });
+    } catch (error) {
+      throw new Error(`Failed to delete file: ${error.message}`);
+    }
+  }
+
+  /**
+   * Deletes files that are no longer needed, e.g. the uploads of a request
+   * that failed. Files that can't be deleted are logged and left for the
+   * storage reconciliation.
+   *
+   * @param fileKeys - The keys of the files to delete.
+   * @returns The keys of the files that were deleted.
+   */
+  async deleteFiles(fileKeys: string[]): Promise<string[]> {
+    const deleted: string[] = [];
+    for (const fileKey of fileKeys) {
+      try {
+        await this.deleteFile(fileKey);
+        deleted.push(fileKey);
+      } catch (error) {
+        this.logger.warn(error.message);
+      }
+    }
+    return deleted;
+  }
+
+  /**
+   * Records the entity that uses the uploaded files. Pass the entity
+   * manager of the transaction saving the entity, so the files only get an
+   * owner when it is saved.
+   *
+   * @param fileKeys - The keys of the uploaded files.
+   * @param owner - The entity the files belong to.
+   * @param manager - The entity manager of the caller's transaction.
+   */
+  async attachFiles(
+    fileKeys: string[],
+    owner: StoredFileOwner,
+    manager?: EntityManager,
+  ): Promise<void> {
+    if (fileKeys.length === 0) {
+      return;
+    }
+    const repository = manager
+      ? manager.getRepository(StoredFile)
+      : this.storedFileRepository;
+    await repository.update(
+      { key: In(fileKeys) },
+      { ownerType: owner.type, ownerId: owner.id },
+    );
+  }
+
+  /**
+   * Returns the key of a public URL returned by uploadFile, or null when
+   * the URL points somewhere other than the storage.
+   *
+   * @param url - Public URL of the file.
+   */
+  getKeyFromUrl(url?: string | null): string | null {
+    return url ? this.storageDriver.getKeyFromUrl(url) : null;
+  }
+
+  /**
+   * Determines content type based on file extension
+   * @private
+   */
+  private getContentTypeByExtension(filename: string): string {
+    const ext = filename.split('.').pop()?.toLowerCase();
+    const contentTypes = {
+      pdf: 'application/pdf',
+      png: 'image/png',
+      jpg: 'image/jpg',
+      jpeg: 'image/jpeg',
+      gif: 'image/gif',
+      webp: 'image/webp',
+      // Add more as needed
+    };
+
+    return (
+      contentTypes[ext as keyof typeof contentTypes] ||
+      'application/octet-stream'
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { StorageService } from './services/storage.service';
+import { StorageDriver } from './drivers/storage.driver';
+import { createStorageDriver } from './drivers/storage-driver.factory';
+import { StoredFile } from './entities/stored-file.entity';
+import { StorageController } from './controllers/storage.controller';
+import { StorageReconciliationService } from './services/storage-reconciliation.service';
+import { StorageCleanupSchedulerService } from './services/storage-cleanup-scheduler.service';
+import { AuthModule } from '../auth/auth.module';
+import { Activity } from '../activity/entities/activity.entity';
+import { EventAttachment } from '../attachment/entities/event-attachment.entity';
+import { EventTemplate } from '../template/entities/event-template.entity';
+import { Speaker } from '../speaker/entities/speaker.entity';
+import { ActivityRevision } from '../revision/entities/activity-revision.entity';
+
+@Module({
+  imports: [
+    AuthModule,
+    TypeOrmModule.forFeature([
+      StoredFile,
+      Activity,
+      EventAttachment,
+      EventTemplate,
+      Speaker,
+      ActivityRevision,
+    ]),
+  ],
+  controllers: [StorageController],
+  providers: [
+    {
+      provide: StorageDriver,
+      inject: [ConfigService],
+      useFactory: createStorageDriver,
+    },
+    StorageService,
+    StorageReconciliationService,
+    StorageCleanupSchedulerService,
+  ],
+  exports: [StorageDriver, StorageService],
+})
+export class StorageModule {}
@@ -0,0 +1,34 @@
+import {
+  DEFAULT_ORPHAN_GRACE_HOURS,
+  orphanCutoff,
+  parseOrphanGraceHours,
+} from './orphan.util';
+
+describe('orphan.util', () => {
+  describe('parseOrphanGraceHours', () => {
+    it('defaults to a day', () => {
+      expect(parseOrphanGraceHours(undefined)).toBe(DEFAULT_ORPHAN_GRACE_HOURS);
+      expect(parseOrphanGraceHours('')).toBe(DEFAULT_ORPHAN_GRACE_HOURS);
+      expect(DEFAULT_ORPHAN_GRACE_HOURS).toBe(24);
+    });
+
+    it('reads the setting as a number of hours', () => {
+      expect(parseOrphanGraceHours('72')).toBe(72);
+      expect(parseOrphanGraceHours('0.5')).toBe(0.5);
+    });
+
+    it('ignores invalid settings', () => {
+      expect(parseOrphanGraceHours('soon')).toBe(DEFAULT_ORPHAN_GRACE_HOURS);
+      expect(parseOrphanGraceHours('0')).toBe(DEFAULT_ORPHAN_GRACE_HOURS);
+      expect(parseOrphanGraceHours('-2')).toBe(DEFAULT_ORPHAN_GRACE_HOURS);
+    });
+  });
+
+  describe('orphanCutoff', () => {
+    it('goes back the grace period from now', () => {
+      expect(orphanCutoff(new Date('2025-03-02T12:00:00Z'), 36)).toEqual(
+        new Date('2025-03-01T00:00:00Z'),
+      );
+    });
+  });
+});
@@ -0,0 +1,25 @@
+// Hours an unreferenced file is kept when STORAGE_ORPHAN_GRACE_HOURS isn't
+// set. Uploads aren't referenced until the event using them is saved.
+export const DEFAULT_ORPHAN_GRACE_HOURS = 24;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Parses STORAGE_ORPHAN_GRACE_HOURS, falling back to the default for
+ * missing or invalid values.
+ */
+export function parseOrphanGraceHours(value?: string | number): number {
+  if (value === undefined || value === null || String(value).trim() === '') {
+    return DEFAULT_ORPHAN_GRACE_HOURS;
+  }
+
+  const hours = Number(value);
+  return Number.isFinite(hours) && hours > 0
+    ? hours
+    : DEFAULT_ORPHAN_GRACE_HOURS;
+}
+
+/** Unreferenced files stored before the returned date are deleted */
+export function orphanCutoff(now: Date, graceHours: number): Date {
+  return new Date(now.getTime() - graceHours * HOUR_MS);
+}
@@ -0,0 +1,64 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PassportModule } from '@nestjs/passport';
+import { TagController } from './tag.controller';
+import { TagService } from '../services/tag.service';
+
+const mockTagService = {
+  getTags: jest.fn(),
+  createTag: jest.fn(),
+  updateTag: jest.fn(),
+  deleteTag: jest.fn(),
+  mergeTags: jest.fn(),
+};
+
+describe('TagController', () => {
+  let controller: TagController;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [PassportModule.register({ defaultStrategy: 'jwt' })],
+      controllers: [TagController],
+      providers: [{ provide: TagService, useValue: mockTagService }],
+    }).compile();
+
+    controller = module.get<TagController>(TagController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should list active tags publicly', async () => {
+    mockTagService.getTags.mockResolvedValue([{ slug: 'club' }]);
+
+    const result = await controller.getTags();
+
+    expect(result).toEqual([{ slug: 'club' }]);
+    expect(mockTagService.getTags).toHaveBeenCalledWith();
+  });
+
+  it('should include inactive tags for admins', async () => {
+    await controller.getAllTags();
+
+    expect(mockTagService.getTags).toHaveBeenCalledWith(true);
+  });
+
+  it('should pass create, update, delete and merge through', async () => {
+    await controller.createTag({ name: 'Gaming' });
+    await controller.updateTag('tag-1', { name: 'Games' });
+    await controller.deleteTag('tag-1');
+    await controller.mergeTags({ sourceIds: ['tag-2'], targetId: 'tag-1' });
+
+    expect(mockTagService.createTag).toHaveBeenCalledWith({ name: 'Gaming' });
+    expect(mockTagService.updateTag).toHaveBeenCalledWith('tag-1', {
+      name: 'Games',
+    });
+    expect(mockTagService.deleteTag).toHaveBeenCalledWith('tag-1');
+    expect(mockTagService.mergeTags).toHaveBeenCalledWith({
+      sourceIds: ['tag-2'],
+      targetId: 'tag-1',
+    });
+  });
+});
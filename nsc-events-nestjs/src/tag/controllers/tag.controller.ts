@@ -0,0 +1,131 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiBody,
+} from '@nestjs/swagger';
+import { TagService } from '../services/tag.service';
+import { Tag } from '../entities/tag.entity';
+import { CreateTagDto } from '../dto/create-tag.dto';
+import { UpdateTagDto } from '../dto/update-tag.dto';
+import { MergeTagsDto } from '../dto/merge-tags.dto';
+import { RoleGuard } from '../../auth/role.guard';
+import { Roles } from '../../auth/roles.decorator';
+
+@ApiTags('Tags')
+@Controller('tags') // final path is /api/tags (global prefix 'api')
+export class TagController {
+  constructor(private readonly tagService: TagService) {}
+
+  // ----------------- List Tags ----------------- \\
+  @Get()
+  @ApiOperation({
+    summary: 'List tags',
+    description: 'Active tags that can be picked for events, sorted by name',
+  })
+  @ApiResponse({ status: 200, description: 'List of tags', type: [Tag] })
+  async getTags(): Promise<Tag[]> {
+    return this.tagService.getTags();
+  }
+
+  // ----------------- List All Tags ----------------- \\
+  @Roles('admin')
+  @UseGuards(AuthGuard(), RoleGuard)
+  @Get('all')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'List all tags including inactive ones (Admin only)',
+  })
+  @ApiResponse({ status: 200, description: 'List of tags', type: [Tag] })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  async getAllTags(): Promise<Tag[]> {
+    return this.tagService.getTags(true);
+  }
+
+  // ----------------- Create Tag ----------------- \\
+  @Roles('admin')
+  @UseGuards(AuthGuard(), RoleGuard)
+  @Post()
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Create a tag (Admin only)' })
+  @ApiBody({ type: CreateTagDto })
+  @ApiResponse({ status: 201, description: 'Tag created', type: Tag })
+  @ApiResponse({ status: 400, description: 'Invalid or duplicate tag' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  async createTag(@Body() createTagDto: CreateTagDto): Promise<Tag> {
+    return this.tagService.createTag(createTagDto);
+  }
+
+  // ----------------- Merge Tags ----------------- \\
+  @Roles('admin')
+  @UseGuards(AuthGuard(), RoleGuard)
+  @Post('merge')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Merge tags (Admin only)',
+    description:
+      'Moves every event tagged with a source tag to the target tag and deletes the source tags',
+  })
+  @ApiBody({ type: MergeTagsDto })
+  @ApiResponse({ status: 201, description: 'Target tag', type: Tag })
+  @ApiResponse({ status: 400, description: 'Tag merged into itself' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  @ApiResponse({ status: 404, description: 'Tag not found' })
+  async mergeTags(@Body() mergeTagsDto: MergeTagsDto): Promise<Tag> {
+    return this.tagService.mergeTags(mergeTagsDto);
+  }
+
+  // ----------------- Update Tag ----------------- \\
+  @Roles('admin')
+  @UseGuards(AuthGuard(), RoleGuard)
+  @Put(':id')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Update or rename a tag (Admin only)',
+    description: 'Renaming a tag updates the tag names shown on its events',
+  })
+  @ApiParam({ name: 'id', description: 'Tag ID (UUID)' })
+  @ApiBody({ type: UpdateTagDto })
+  @ApiResponse({ status: 200, description: 'Tag updated', type: Tag })
+  @ApiResponse({ status: 400, description: 'Invalid or duplicate slug' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  @ApiResponse({ status: 404, description: 'Tag not found' })
+  async updateTag(
+    @Param('id') id: string,
+    @Body() updateTagDto: UpdateTagDto,
+  ): Promise<Tag> {
+    return this.tagService.updateTag(id, updateTagDto);
+  }
+
+  // ----------------- Delete Tag ----------------- \\
+  @Roles('admin')
+  @UseGuards(AuthGuard(), RoleGuard)
+  @Delete(':id')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Delete a tag (Admin only)',
+    description:
+      'Removes the tag from every event. Deactivate it instead to keep it on existing events.',
+  })
+  @ApiParam({ name: 'id', description: 'Tag ID (UUID)' })
+  @ApiResponse({ status: 200, description: 'Tag deleted' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  @ApiResponse({ status: 404, description: 'Tag not found' })
+  async deleteTag(@Param('id') id: string): Promise<void> {
+    return this.tagService.deleteTag(id);
+  }
+}
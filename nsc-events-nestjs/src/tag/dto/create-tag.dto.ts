@@ -0,0 +1,48 @@
+import {
+  IsBoolean,
+  IsHexColor,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateTagDto {
+  @ApiProperty({ description: 'Display name', example: 'Free Food' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  readonly name: string;
+
+  @ApiPropertyOptional({
+    description: 'URL-safe identifier, derived from the name when omitted',
+    example: 'free-food',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(60)
+  readonly slug?: string;
+
+  @ApiPropertyOptional({ description: 'Chip color', example: '#2074d4' })
+  @IsOptional()
+  @IsHexColor()
+  readonly color?: string;
+
+  @ApiPropertyOptional({
+    description: 'Shown to creators when picking tags',
+    example: 'Events where food is provided at no cost',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  readonly description?: string;
+
+  @ApiPropertyOptional({
+    description: 'Inactive tags stay on existing events but cannot be picked',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  readonly isActive?: boolean;
+}
@@ -0,0 +1,17 @@
+import { ArrayNotEmpty, IsArray, IsUUID } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class MergeTagsDto {
+  @ApiProperty({
+    description: 'Tags to merge away, they are deleted afterwards',
+    type: [String],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsUUID('all', { each: true })
+  readonly sourceIds: string[];
+
+  @ApiProperty({ description: 'Tag the events are moved to' })
+  @IsUUID()
+  readonly targetId: string;
+}
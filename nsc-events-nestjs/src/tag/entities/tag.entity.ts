@@ -0,0 +1,43 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Admin-managed event tag. Events link to tags through the activity_tags
+ * join table; inactive tags stay on existing events but can't be picked for
+ * new ones.
+ */
+@Entity('tags')
+export class Tag {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // URL-safe identifier used by the tag filter and calendar feeds
+  @Index({ unique: true })
+  @Column()
+  slug: string;
+
+  @Column()
+  name: string;
+
+  // Hex color used for the tag chip, e.g. #2074d4
+  @Column({ default: '#2074d4' })
+  color: string;
+
+  @Column({ type: 'text', nullable: true })
+  description?: string | null;
+
+  @Column({ default: true })
+  isActive: boolean;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
@@ -0,0 +1,331 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import {
+  BadRequestException,
+  HttpException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { DEFAULT_TAGS, TagService } from './tag.service';
+import { Tag } from '../entities/tag.entity';
+import { Activity } from '../../activity/entities/activity.entity';
+
+const makeTag = (overrides: Partial<Tag> = {}): Tag =>
+  ({
+    id: 'tag-1',
+    slug: 'free-food',
+    name: 'Free Food',
+    color: '#2074d4',
+    description: null,
+    isActive: true,
+    ...overrides,
+  } as Tag);
+
+describe('TagService', () => {
+  let service: TagService;
+
+  const tagRepository = {
+    count: jest.fn(),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn((data: Partial<Tag>) => data),
+    save: jest.fn(async (data: any) => data),
+    remove: jest.fn(),
+  };
+
+  const activityQueryBuilder = {
+    withDeleted: jest.fn().mockReturnThis(),
+    innerJoin: jest.fn().mockReturnThis(),
+    getMany: jest.fn(),
+  };
+
+  const activityRepository = {
+    createQueryBuilder: jest.fn().mockReturnValue(activityQueryBuilder),
+    save: jest.fn(),
+  };
+
+  const manager = {
+    query: jest.fn(),
+    getRepository: jest.fn((entity) =>
+      entity === Activity ? activityRepository : tagRepository,
+    ),
+  };
+
+  const dataSource = {
+    query: jest.fn(),
+    transaction: jest.fn((work: (m: typeof manager) => unknown) =>
+      work(manager),
+    ),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+    activityQueryBuilder.getMany.mockResolvedValue([]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TagService,
+        { provide: getRepositoryToken(Tag), useValue: tagRepository },
+        { provide: DataSource, useValue: dataSource },
+      ],
+    }).compile();
+
+    service = module.get<TagService>(TagService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('onModuleInit', () => {
+    it('should seed the default tags into an empty table', async () => {
+      tagRepository.count.mockResolvedValue(0);
+      tagRepository.find.mockResolvedValue([]);
+      dataSource.query.mockResolvedValueOnce([]);
+
+      await service.onModuleInit();
+
+      const seeded = tagRepository.save.mock.calls[0][0];
+      expect(seeded).toHaveLength(DEFAULT_TAGS.length);
+      expect(seeded).toContainEqual({
+        name: 'Art/Creative',
+        slug: 'art-creative',
+      });
+    });
+
+    it('should keep custom legacy tags as inactive tags and link events', async () => {
+      tagRepository.count.mockResolvedValue(14);
+      tagRepository.find.mockResolvedValue([makeTag()]);
+      dataSource.query.mockResolvedValueOnce([
+        { name: 'free food' },
+        { name: 'Board Games' },
+        { name: 'board games' },
+      ]);
+
+      await service.onModuleInit();
+
+      expect(tagRepository.save).toHaveBeenCalledTimes(1);
+      expect(tagRepository.save).toHaveBeenCalledWith([
+        { name: 'Board Games', slug: 'board-games', isActive: false },
+      ]);
+      expect(dataSource.query).toHaveBeenLastCalledWith(
+        expect.stringContaining('INSERT INTO activity_tags'),
+      );
+    });
+
+    it('should only warn when the backfill fails', async () => {
+      tagRepository.count.mockRejectedValue(new Error('db down'));
+
+      await expect(service.onModuleInit()).resolves.toBeUndefined();
+      expect(Logger.prototype.warn).toHaveBeenCalled();
+    });
+  });
+
+  describe('getTags', () => {
+    it('should list active tags by default', async () => {
+      tagRepository.find.mockResolvedValue([makeTag()]);
+
+      await service.getTags();
+
+      expect(tagRepository.find).toHaveBeenCalledWith({
+        where: { isActive: true },
+        order: { name: 'ASC' },
+      });
+    });
+
+    it('should include inactive tags when asked', async () => {
+      tagRepository.find.mockResolvedValue([]);
+
+      await service.getTags(true);
+
+      expect(tagRepository.find).toHaveBeenCalledWith({
+        where: {},
+        order: { name: 'ASC' },
+      });
+    });
+  });
+
+  describe('createTag', () => {
+    it('should derive the slug from the name', async () => {
+      tagRepository.findOne.mockResolvedValue(null);
+
+      const result = await service.createTag({ name: ' Board Games ' });
+
+      expect(result).toEqual(
+        expect.objectContaining({ name: 'Board Games', slug: 'board-games' }),
+      );
+    });
+
+    it('should reject a duplicate slug', async () => {
+      tagRepository.findOne.mockResolvedValue(makeTag());
+
+      await expect(service.createTag({ name: 'Free-Food' })).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(tagRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject names without letters or numbers', async () => {
+      await expect(service.createTag({ name: '!!!' })).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('updateTag', () => {
+    it('should rewrite the tag name on its events when renamed', async () => {
+      tagRepository.findOne.mockResolvedValue(makeTag());
+      activityQueryBuilder.getMany.mockResolvedValue([
+        { id: 'a-1', eventTags: ['Club', 'free food'] },
+      ]);
+
+      const result = await service.updateTag('tag-1', { name: 'Snacks' });
+
+      expect(activityQueryBuilder.innerJoin).toHaveBeenCalledWith(
+        'activity.tags',
+        'tag',
+        'tag.id IN (:...tagIds)',
+        { tagIds: ['tag-1'] },
+      );
+      expect(activityRepository.save).toHaveBeenCalledWith([
+        { id: 'a-1', eventTags: ['Club', 'Snacks'] },
+      ]);
+      expect(result.name).toBe('Snacks');
+    });
+
+    it('should leave events alone when the name is unchanged', async () => {
+      tagRepository.findOne.mockResolvedValue(makeTag());
+
+      await service.updateTag('tag-1', { color: '#000000' });
+
+      expect(activityRepository.createQueryBuilder).not.toHaveBeenCalled();
+      expect(tagRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ color: '#000000' }),
+      );
+    });
+
+    it('should reject a slug taken by another tag', async () => {
+      tagRepository.findOne
+        .mockResolvedValueOnce(makeTag())
+        .mockResolvedValueOnce(makeTag({ id: 'tag-2', slug: 'pizza' }));
+
+      await expect(
+        service.updateTag('tag-1', { slug: 'Pizza' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw NotFoundException for a missing tag', async () => {
+      tagRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.updateTag('missing', { name: 'Snacks' }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('deleteTag', () => {
+    it('should strip the tag from its events before deleting it', async () => {
+      const tag = makeTag();
+      tagRepository.findOne.mockResolvedValue(tag);
+      activityQueryBuilder.getMany.mockResolvedValue([
+        { id: 'a-1', eventTags: ['Free Food', 'Club'] },
+      ]);
+
+      await service.deleteTag('tag-1');
+
+      expect(activityRepository.save).toHaveBeenCalledWith([
+        { id: 'a-1', eventTags: ['Club'] },
+      ]);
+      expect(tagRepository.remove).toHaveBeenCalledWith(tag);
+    });
+
+    it('should wrap database errors', async () => {
+      tagRepository.findOne.mockResolvedValue(makeTag());
+      tagRepository.remove.mockRejectedValueOnce(new Error('db down'));
+
+      await expect(service.deleteTag('tag-1')).rejects.toThrow(HttpException);
+    });
+  });
+
+  describe('mergeTags', () => {
+    const target = makeTag({ id: 'tag-1', name: 'Free Food' });
+    const source = makeTag({ id: 'tag-2', name: 'Pizza', slug: 'pizza' });
+
+    it('should move events to the target tag and delete the sources', async () => {
+      tagRepository.findOne.mockResolvedValue(target);
+      tagRepository.find.mockResolvedValue([source]);
+      activityQueryBuilder.getMany.mockResolvedValue([
+        { id: 'a-1', eventTags: ['Pizza', 'Free Food'] },
+        { id: 'a-2', eventTags: ['Pizza'] },
+      ]);
+
+      const result = await service.mergeTags({
+        sourceIds: ['tag-2'],
+        targetId: 'tag-1',
+      });
+
+      expect(manager.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO activity_tags'),
+        ['tag-1', ['tag-2']],
+      );
+      expect(activityRepository.save).toHaveBeenCalledWith([
+        { id: 'a-1', eventTags: ['Free Food'] },
+        { id: 'a-2', eventTags: ['Free Food'] },
+      ]);
+      expect(tagRepository.remove).toHaveBeenCalledWith([source]);
+      expect(result).toBe(target);
+    });
+
+    it('should refuse to merge a tag into itself', async () => {
+      await expect(
+        service.mergeTags({ sourceIds: ['tag-1'], targetId: 'tag-1' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(dataSource.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for a missing source', async () => {
+      tagRepository.findOne.mockResolvedValue(target);
+      tagRepository.find.mockResolvedValue([]);
+
+      await expect(
+        service.mergeTags({ sourceIds: ['missing'], targetId: 'tag-1' }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('resolveTags', () => {
+    it('should match names and slugs to active tags in order', async () => {
+      const club = makeTag({ id: 'tag-2', name: 'Club', slug: 'club' });
+      tagRepository.find.mockResolvedValue([makeTag(), club]);
+
+      const result = await service.resolveTags(['club', 'Free Food', 'CLUB']);
+
+      expect(result).toEqual([club, makeTag()]);
+    });
+
+    it('should reject unknown and inactive tags', async () => {
+      tagRepository.find.mockResolvedValue([makeTag({ isActive: false })]);
+
+      await expect(
+        service.resolveTags(['Free Food', 'Made Up']),
+      ).rejects.toThrow('Unknown tag(s): free-food, made-up');
+    });
+
+    it('should allow inactive tags the event already has', async () => {
+      const retired = makeTag({ isActive: false });
+      tagRepository.find.mockResolvedValue([retired]);
+
+      const result = await service.resolveTags(['free-food'], ['Free Food']);
+
+      expect(result).toEqual([retired]);
+    });
+
+    it('should require at least one tag', async () => {
+      await expect(service.resolveTags([' '])).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+});
@@ -0,0 +1,336 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, In, Repository } from 'typeorm';
+import { Tag } from '../entities/tag.entity';
+import { Activity } from '../../activity/entities/activity.entity';
+import { CreateTagDto } from '../dto/create-tag.dto';
+import { UpdateTagDto } from '../dto/update-tag.dto';
+import { MergeTagsDto } from '../dto/merge-tags.dto';
+import { toSlug } from '../utils/slug.util';
+
+// Tags offered before they were managed in the database
+export const DEFAULT_TAGS = [
+  'Professional Development',
+  'Club',
+  'Social',
+  'Tech',
+  'Cultural',
+  'Study',
+  'Coffee',
+  'Art/Creative',
+  'Conference',
+  'Craft',
+  'Networking',
+  'Pizza',
+  'Free Food',
+  'LGBTQIA',
+];
+
+@Injectable()
+export class TagService implements OnModuleInit {
+  private readonly logger = new Logger(TagService.name);
+
+  constructor(
+    @InjectRepository(Tag)
+    private readonly tagRepository: Repository<Tag>,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  // Seeds the default tags and links events created before tags were
+  // entities. Custom tags typed in by creators are kept but start inactive
+  // so admins can merge or enable them.
+  async onModuleInit(): Promise<void> {
+    try {
+      if ((await this.tagRepository.count()) === 0) {
+        await this.tagRepository.save(
+          DEFAULT_TAGS.map((name) =>
+            this.tagRepository.create({ name, slug: toSlug(name) }),
+          ),
+        );
+      }
+
+      const legacy: { name: string }[] = await this.dataSource.query(
+        `SELECT DISTINCT trim(legacy.name) AS name
+         FROM activities,
+           unnest(string_to_array("eventTags", ',')) AS legacy(name)
+         WHERE trim(legacy.name) <> ''`,
+      );
+      const existing = new Set(
+        (await this.tagRepository.find()).map((tag) => tag.slug),
+      );
+      const missing = new Map<string, string>();
+      for (const { name } of legacy) {
+        const slug = toSlug(name);
+        if (slug && !existing.has(slug) && !missing.has(slug)) {
+          missing.set(slug, name);
+        }
+      }
+      if (missing.size > 0) {
+        await this.tagRepository.save(
+          [...missing].map(([slug, name]) =>
+            this.tagRepository.create({ name, slug, isActive: false }),
+          ),
+        );
+      }
+
+      await this.dataSource.query(
+        `INSERT INTO activity_tags ("activityId", "tagId")
+         SELECT DISTINCT activity.id, tag.id
+         FROM activities activity,
+           unnest(string_to_array(activity."eventTags", ',')) AS legacy(name)
+         JOIN tags tag ON lower(tag.name) = lower(trim(legacy.name))
+         ON CONFLICT DO NOTHING`,
+      );
+    } catch (error) {
+      this.logger.warn(`Could not backfill event tags: ${error.message}`);
+    }
+  }
+
+  // ----------------- Get Tags ----------------- \\
+  async getTags(includeInactive = false): Promise<Tag[]> {
+    try {
+      return await this.tagRepository.find({
+        where: includeInactive ? {} : { isActive: true },
+        order: { name: 'ASC' },
+      });
+    } catch (error) {
+      throw new HttpException(
+        'Error retrieving tags',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Get Tag by ID ----------------- \\
+  async getTagById(id: string): Promise<Tag> {
+    try {
+      const tag = await this.tagRepository.findOne({ where: { id } });
+
+      if (!tag) {
+        throw new NotFoundException('Tag not found');
+      }
+
+      return tag;
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error retrieving tag',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Create Tag ----------------- \\
+  async createTag(createTagDto: CreateTagDto): Promise<Tag> {
+    try {
+      const slug = toSlug(createTagDto.slug ?? createTagDto.name);
+      await this.assertSlugAvailable(slug);
+
+      const tag = this.tagRepository.create({
+        ...createTagDto,
+        name: createTagDto.name.trim(),
+        slug,
+      });
+      return await this.tagRepository.save(tag);
+    } catch (error) {
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error creating tag',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Update Tag ----------------- \\
+  // Renaming a tag rewrites the tag names stored on its events
+  async updateTag(id: string, updateTagDto: UpdateTagDto): Promise<Tag> {
+    try {
+      const tag = await this.getTagById(id);
+
+      const updateData: Partial<Tag> = { ...updateTagDto };
+      if (updateTagDto.slug !== undefined) {
+        updateData.slug = toSlug(updateTagDto.slug);
+        if (updateData.slug !== tag.slug) {
+          await this.assertSlugAvailable(updateData.slug);
+        }
+      }
+      if (updateTagDto.name !== undefined) {
+        updateData.name = updateTagDto.name.trim();
+      }
+
+      const renamed =
+        updateData.name !== undefined && updateData.name !== tag.name;
+
+      return await this.dataSource.transaction(async (manager) => {
+        if (renamed) {
+          await this.rewriteEventTags(manager, [tag], updateData.name);
+        }
+        Object.assign(tag, updateData);
+        return manager.getRepository(Tag).save(tag);
+      });
+    } catch (error) {
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException
+      ) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error updating tag',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Delete Tag ----------------- \\
+  // Removes the tag from every event. Deactivate it instead to keep it on
+  // existing events.
+  async deleteTag(id: string): Promise<void> {
+    try {
+      const tag = await this.getTagById(id);
+
+      await this.dataSource.transaction(async (manager) => {
+        await this.rewriteEventTags(manager, [tag], null);
+        await manager.getRepository(Tag).remove(tag);
+      });
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error deleting tag',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Merge Tags ----------------- \\
+  // Moves every event tagged with a source tag to the target tag, then
+  // deletes the source tags
+  async mergeTags(mergeTagsDto: MergeTagsDto): Promise<Tag> {
+    try {
+      const { targetId } = mergeTagsDto;
+      const sourceIds = [...new Set(mergeTagsDto.sourceIds)];
+
+      if (sourceIds.includes(targetId)) {
+        throw new BadRequestException('A tag cannot be merged into itself');
+      }
+
+      const target = await this.getTagById(targetId);
+      const sources = await this.tagRepository.find({
+        where: { id: In(sourceIds) },
+      });
+      if (sources.length !== sourceIds.length) {
+        throw new NotFoundException('Tag not found');
+      }
+
+      await this.dataSource.transaction(async (manager) => {
+        await manager.query(
+          `INSERT INTO activity_tags ("activityId", "tagId")
+           SELECT DISTINCT "activityId", $1::uuid FROM activity_tags
+           WHERE "tagId" = ANY($2::uuid[])
+           ON CONFLICT DO NOTHING`,
+          [target.id, sourceIds],
+        );
+        await this.rewriteEventTags(manager, sources, target.name);
+        await manager.getRepository(Tag).remove(sources);
+      });
+
+      return target;
+    } catch (error) {
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException
+      ) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error merging tags',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Resolve Tags ----------------- \\
+  /**
+   * Maps the tag names or slugs submitted with an event to tag entities.
+   * Only active tags can be picked, except ones listed in `current` (the
+   * event's existing tags) so editing an event keeps a retired tag.
+   */
+  async resolveTags(names: string[], current: string[] = []): Promise<Tag[]> {
+    const slugs = [...new Set(names.map(toSlug).filter(Boolean))];
+    if (slugs.length === 0) {
+      throw new BadRequestException(
+        'eventTags is required and cannot be empty',
+      );
+    }
+
+    const kept = new Set(current.map(toSlug));
+    const tags = await this.tagRepository.find({
+      where: { slug: In(slugs) },
+    });
+    const usable = tags.filter((tag) => tag.isActive || kept.has(tag.slug));
+
+    const found = new Set(usable.map((tag) => tag.slug));
+    const unknown = slugs.filter((slug) => !found.has(slug));
+    if (unknown.length > 0) {
+      throw new BadRequestException(`Unknown tag(s): ${unknown.join(', ')}`);
+    }
+
+    return slugs.map((slug) => usable.find((tag) => tag.slug === slug));
+  }
+
+  private async assertSlugAvailable(slug: string): Promise<void> {
+    if (!slug) {
+      throw new BadRequestException('Tag name must contain a letter or number');
+    }
+    if (await this.tagRepository.findOne({ where: { slug } })) {
+      throw new BadRequestException(`A tag with slug "${slug}" already exists`);
+    }
+  }
+
+  /**
+   * Events keep a copy of their tag names in eventTags for search and
+   * calendar feeds. Replaces the given tags' names there with `replacement`,
+   * or drops them when it is null.
+   */
+  private async rewriteEventTags(
+    manager: EntityManager,
+    tags: Tag[],
+    replacement: string | null,
+  ): Promise<void> {
+    const activities = await manager
+      .getRepository(Activity)
+      .createQueryBuilder('activity')
+      .withDeleted()
+      .innerJoin('activity.tags', 'tag', 'tag.id IN (:...tagIds)', {
+        tagIds: tags.map((tag) => tag.id),
+      })
+      .getMany();
+
+    if (activities.length === 0) {
+      return;
+    }
+
+    const oldNames = new Set(tags.map((tag) => tag.name.toLowerCase()));
+    for (const activity of activities) {
+      const names = (activity.eventTags ?? []).map((name) =>
+        oldNames.has(name.trim().toLowerCase()) ? replacement : name,
+      );
+      activity.eventTags = [...new Set(names.filter(Boolean))];
+    }
+    await manager.getRepository(Activity).save(activities);
+  }
+}
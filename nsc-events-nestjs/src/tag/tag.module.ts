@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { TagController } from './controllers/tag.controller';
+import { TagService } from './services/tag.service';
+import { Tag } from './entities/tag.entity';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [AuthModule, TypeOrmModule.forFeature([Tag])],
+  controllers: [TagController],
+  providers: [TagService],
+  exports: [TagService],
+})
+export class TagModule {}
@@ -0,0 +1,26 @@
+import { toSlug } from './slug.util';
+
+describe('slug.util', () => {
+  describe('toSlug', () => {
+    it('lowercases and dashes words', () => {
+      expect(toSlug('Professional Development')).toBe(
+        'professional-development',
+      );
+    });
+
+    it('collapses punctuation into a single dash', () => {
+      expect(toSlug('Art/Creative')).toBe('art-creative');
+      expect(toSlug('  Free -- Food! ')).toBe('free-food');
+    });
+
+    it('drops accents', () => {
+      expect(toSlug('Café')).toBe('cafe');
+    });
+
+    it('matches names that only differ by case or spacing', () => {
+      expect(toSlug('professional development')).toBe(
+        toSlug('Professional Development'),
+      );
+    });
+  });
+});
@@ -0,0 +1,12 @@
+/**
+ * Converts a tag name into its slug, e.g. "Art/Creative" -> "art-creative".
+ * Accents are dropped and any run of other characters becomes one dash.
+ */
+export function toSlug(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[̀-ͯ]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
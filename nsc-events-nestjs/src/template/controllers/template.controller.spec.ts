@@ -0,0 +1,70 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PassportModule } from '@nestjs/passport';
+import { TemplateController } from './template.controller';
+import { TemplateService } from '../services/template.service';
+
+const mockTemplateService = {
+  getTemplates: jest.fn(),
+  createTemplate: jest.fn(),
+  updateTemplate: jest.fn(),
+  deleteTemplate: jest.fn(),
+};
+
+describe('TemplateController', () => {
+  let controller: TemplateController;
+  const req = { user: { id: 'creator-123', role: 'creator' } };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [PassportModule.register({ defaultStrategy: 'jwt' })],
+      controllers: [TemplateController],
+      providers: [{ provide: TemplateService, useValue: mockTemplateService }],
+    }).compile();
+
+    controller = module.get<TemplateController>(TemplateController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should list templates for the signed-in user', async () => {
+    await controller.getTemplates(req);
+
+    expect(mockTemplateService.getTemplates).toHaveBeenCalledWith(req.user);
+  });
+
+  it('should create a template as the signed-in user', async () => {
+    const dto = { name: 'Study Night', fields: { eventHost: 'Math Club' } };
+
+    await controller.createTemplate(dto, req);
+
+    expect(mockTemplateService.createTemplate).toHaveBeenCalledWith(
+      dto,
+      req.user,
+    );
+  });
+
+  it('should update a template', async () => {
+    const dto = { name: 'Late Study Night' };
+
+    await controller.updateTemplate('template-1', dto, req);
+
+    expect(mockTemplateService.updateTemplate).toHaveBeenCalledWith(
+      'template-1',
+      dto,
+      req.user,
+    );
+  });
+
+  it('should delete a template', async () => {
+    await controller.deleteTemplate('template-1', req);
+
+    expect(mockTemplateService.deleteTemplate).toHaveBeenCalledWith(
+      'template-1',
+      req.user,
+    );
+  });
+});
@@ -0,0 +1,118 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Put,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiBody,
+} from '@nestjs/swagger';
+import { TemplateService } from '../services/template.service';
+import { EventTemplate } from '../entities/event-template.entity';
+import { CreateTemplateDto } from '../dto/create-template.dto';
+import { UpdateTemplateDto } from '../dto/update-template.dto';
+import { RoleGuard } from '../../auth/role.guard';
+import { Roles } from '../../auth/roles.decorator';
+
+@ApiTags('Event Templates')
+@ApiBearerAuth('JWT-auth')
+@Controller('templates') // final path is /api/templates (global prefix 'api')
+export class TemplateController {
+  constructor(private readonly templateService: TemplateService) {}
+
+  // ----------------- List Templates ----------------- \\
+  @Roles('admin', 'creator')
+  @UseGuards(AuthGuard(), RoleGuard)
+  @Get()
+  @ApiOperation({
+    summary: 'List event templates',
+    description:
+      'Your own templates followed by the shared ones, for prefilling the create event form',
+  })
+  @ApiResponse({ status: 200, description: 'Templates', type: [EventTemplate] })
+  @ApiResponse({ status: 403, description: 'Forbidden - creators and admins' })
+  async getTemplates(@Req() req: any): Promise<EventTemplate[]> {
+    return this.templateService.getTemplates(req.user);
+  }
+
+  // ----------------- Create Template ----------------- \\
+  @Roles('admin', 'creator')
+  @UseGuards(AuthGuard(), RoleGuard)
+  @Post()
+  @ApiOperation({
+    summary: 'Save an event template',
+    description: 'Only admins can create shared templates',
+  })
+  @ApiBody({ type: CreateTemplateDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Template created',
+    type: EventTemplate,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid fields or unknown tags' })
+  @ApiResponse({ status: 401, description: 'Only admins can share templates' })
+  @ApiResponse({ status: 403, description: 'Forbidden - creators and admins' })
+  async createTemplate(
+    @Body() createTemplateDto: CreateTemplateDto,
+    @Req() req: any,
+  ): Promise<EventTemplate> {
+    return this.templateService.createTemplate(createTemplateDto, req.user);
+  }
+
+  // ----------------- Update Template ----------------- \\
+  @Roles('admin', 'creator')
+  @UseGuards(AuthGuard(), RoleGuard)
+  @Put(':id')
+  @ApiOperation({
+    summary: 'Update an event template',
+    description:
+      'Creators can change their own templates, admins any template. Given fields replace the saved ones.',
+  })
+  @ApiParam({ name: 'id', description: 'Template ID (UUID)' })
+  @ApiBody({ type: UpdateTemplateDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Template updated',
+    type: EventTemplate,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid fields or unknown tags' })
+  @ApiResponse({ status: 401, description: 'Shared templates are admin only' })
+  @ApiResponse({ status: 404, description: 'Template not found' })
+  async updateTemplate(
+    @Param('id') id: string,
+    @Body() updateTemplateDto: UpdateTemplateDto,
+    @Req() req: any,
+  ): Promise<EventTemplate> {
+    return this.templateService.updateTemplate(id, updateTemplateDto, req.user);
+  }
+
+  // ----------------- Delete Template ----------------- \\
+  @Roles('admin', 'creator')
+  @UseGuards(AuthGuard(), RoleGuard)
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Delete an event template',
+    description: 'Events created from the template are not affected',
+  })
+  @ApiParam({ name: 'id', description: 'Template ID (UUID)' })
+  @ApiResponse({ status: 200, description: 'Template deleted' })
+  @ApiResponse({ status: 401, description: 'Shared templates are admin only' })
+  @ApiResponse({ status: 404, description: 'Template not found' })
+  async deleteTemplate(
+    @Param('id') id: string,
+    @Req() req: any,
+  ): Promise<void> {
+    return this.templateService.deleteTemplate(id, req.user);
+  }
+}
@@ -0,0 +1,48 @@
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { TemplateFieldsDto } from './template-fields.dto';
+
+export class CreateTemplateDto {
+  @ApiProperty({
+    description: 'Shown in the template picker',
+    example: 'Study Night',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  readonly name: string;
+
+  @ApiPropertyOptional({
+    description: 'What the template is for',
+    example: 'Our weekly drop-in study session',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  readonly description?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Offer the template to every creator instead of only its author (admins only)',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  readonly isShared?: boolean;
+
+  @ApiProperty({
+    description: 'Event details the template prefills',
+    type: TemplateFieldsDto,
+  })
+  @ValidateNested()
+  @Type(() => TemplateFieldsDto)
+  readonly fields: TemplateFieldsDto;
+}
@@ -0,0 +1,144 @@
+import {
+  IsArray,
+  IsEmail,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsTimeZone,
+  IsUrl,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { SocialMedia } from '../../activity/entities/activity.entity';
+import { IsSocialMedia } from '../../../custom-validators/is-social-media';
+import { IsCapacity } from '../../../custom-validators/is-capacity';
+import { MAX_BUFFER_MINUTES } from '../../venue/utils/booking.util';
+
+// Every field is optional so a template can prefill as much or as little of
+// the create form as its author wants. Empty strings leave a field blank.
+export class TemplateFieldsDto {
+  @ApiPropertyOptional({ example: 'Weekly Study Night' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  readonly eventTitle?: string;
+
+  @IsOptional()
+  @IsString()
+  readonly eventDescription?: string;
+
+  @ApiPropertyOptional({ example: 'Library, Room 2301' })
+  @IsOptional()
+  @IsString()
+  readonly eventLocation?: string;
+
+  @ApiPropertyOptional({ description: 'Campus room the event is held in' })
+  @IsOptional()
+  @IsUUID()
+  readonly roomId?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Minutes the room is held before the event',
+    example: 30,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(MAX_BUFFER_MINUTES)
+  readonly setupMinutes?: number;
+
+  @ApiPropertyOptional({
+    description: 'Minutes the room is held after the event',
+    example: 15,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(MAX_BUFFER_MINUTES)
+  readonly teardownMinutes?: number;
+
+  @ApiPropertyOptional({
+    description: 'IANA time zone the event times are picked in',
+    example: 'America/Los_Angeles',
+  })
+  @IsOptional()
+  @IsTimeZone()
+  readonly timeZone?: string;
+
+  @ValidateIf((obj) => !!obj.eventCoverPhoto)
+  @IsUrl()
+  readonly eventCoverPhoto?: string;
+
+  @ValidateIf((obj) => !!obj.eventDocument)
+  @IsUrl()
+  readonly eventDocument?: string;
+
+  @ApiPropertyOptional({ example: 'Math Club' })
+  @IsOptional()
+  @IsString()
+  readonly eventHost?: string;
+
+  @ValidateIf((obj) => !!obj.eventMeetingURL)
+  @IsUrl()
+  readonly eventMeetingURL?: string;
+
+  @IsOptional()
+  @IsString()
+  readonly eventRegistration?: string;
+
+  // null or "unlimited" means the event has no seat limit
+  @ApiPropertyOptional({ example: 40 })
+  @ValidateIf(
+    (obj) => obj.eventCapacity !== undefined && obj.eventCapacity !== null,
+  )
+  @IsCapacity()
+  readonly eventCapacity?: number | string | null;
+
+  @ApiPropertyOptional({ example: ['Study', 'Club'] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  readonly eventTags?: string[];
+
+  @IsOptional()
+  @IsString()
+  readonly eventSchedule?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  readonly eventSpeakers?: string[];
+
+  @IsOptional()
+  @IsString()
+  readonly eventPrerequisites?: string;
+
+  @IsOptional()
+  @IsString()
+  readonly eventCancellationPolicy?: string;
+
+  @ApiPropertyOptional({ example: 'mathclub@northseattle.edu' })
+  @ValidateIf((obj) => !!obj.eventContact)
+  @IsEmail()
+  readonly eventContact?: string;
+
+  @IsOptional()
+  @IsSocialMedia()
+  readonly eventSocialMedia?: SocialMedia;
+
+  @IsOptional()
+  @IsString()
+  readonly eventPrivacy?: string;
+
+  @IsOptional()
+  @IsString()
+  readonly eventAccessibility?: string;
+
+  @IsOptional()
+  @IsString()
+  readonly eventNote?: string;
+}
@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateTemplateDto } from './create-template.dto';
+
+export class UpdateTemplateDto extends PartialType(CreateTemplateDto) {}
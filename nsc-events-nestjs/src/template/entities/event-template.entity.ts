@@ -0,0 +1,44 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { ReusableFields } from '../../activity/utils/clone.util';
+
+/**
+ * Saved event details that prefill the create event form. Personal templates
+ * are only offered to their creator; shared ones are managed by admins and
+ * offered to everyone who can create events.
+ */
+@Entity('event_templates')
+export class EventTemplate {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  name: string;
+
+  @Column({ type: 'text', nullable: true })
+  description?: string | null;
+
+  @Index()
+  @Column({ type: 'uuid' })
+  createdByUserId: string;
+
+  @Index()
+  @Column({ default: false })
+  isShared: boolean;
+
+  // Any of the event details a clone would copy, see REUSABLE_FIELDS
+  @Column('json', { default: {} })
+  fields: ReusableFields;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
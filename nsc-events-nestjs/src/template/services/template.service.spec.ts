@@ -0,0 +1,222 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import {
+  BadRequestException,
+  HttpException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { TemplateService } from './template.service';
+import { EventTemplate } from '../entities/event-template.entity';
+import { TagService } from '../../tag/services/tag.service';
+import { Role } from '../../user/entities/user.entity';
+
+const makeTemplate = (overrides: Partial<EventTemplate> = {}): EventTemplate =>
+  ({
+    id: 'template-1',
+    name: 'Study Night',
+    description: null,
+    createdByUserId: 'creator-1',
+    isShared: false,
+    fields: { eventHost: 'Math Club' },
+    ...overrides,
+  } as EventTemplate);
+
+describe('TemplateService', () => {
+  let service: TemplateService;
+
+  const creator = { id: 'creator-1', role: Role.creator };
+  const otherCreator = { id: 'creator-2', role: Role.creator };
+  const admin = { id: 'admin-1', role: Role.admin };
+
+  const templateRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn((data: Partial<EventTemplate>) => data),
+    save: jest.fn(async (data: any) => data),
+    remove: jest.fn(),
+  };
+
+  const tagService = {
+    getTags: jest.fn(),
+    resolveTags: jest.fn(async (names: string[]) =>
+      names.map((name) => ({ slug: name.toLowerCase(), name: 'Tech' })),
+    ),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TemplateService,
+        {
+          provide: getRepositoryToken(EventTemplate),
+          useValue: templateRepository,
+        },
+        { provide: TagService, useValue: tagService },
+      ],
+    }).compile();
+
+    service = module.get<TemplateService>(TemplateService);
+  });
+
+  describe('getTemplates', () => {
+    it('returns the user templates and the shared ones', async () => {
+      templateRepository.find.mockResolvedValue([makeTemplate()]);
+
+      const result = await service.getTemplates(creator);
+
+      expect(result).toEqual([makeTemplate()]);
+      expect(templateRepository.find).toHaveBeenCalledWith({
+        where: [{ createdByUserId: 'creator-1' }, { isShared: true }],
+        order: { isShared: 'ASC', name: 'ASC' },
+      });
+      expect(tagService.getTags).not.toHaveBeenCalled();
+    });
+
+    it('shows current tag names and drops tags that cannot be picked', async () => {
+      templateRepository.find.mockResolvedValue([
+        makeTemplate({ fields: { eventTags: ['Tech', 'Pizza', 'Retired'] } }),
+      ]);
+      tagService.getTags.mockResolvedValue([
+        { slug: 'tech', name: 'Technology' },
+        { slug: 'pizza', name: 'Pizza' },
+      ]);
+
+      const [template] = await service.getTemplates(creator);
+
+      expect(template.fields.eventTags).toEqual(['Technology', 'Pizza']);
+    });
+
+    it('wraps unexpected errors', async () => {
+      templateRepository.find.mockRejectedValue(new Error('db down'));
+
+      await expect(service.getTemplates(creator)).rejects.toThrow(
+        HttpException,
+      );
+    });
+  });
+
+  describe('createTemplate', () => {
+    it('saves a personal template with normalized fields', async () => {
+      const result = await service.createTemplate(
+        {
+          name: '  Study Night ',
+          fields: {
+            eventHost: 'Math Club',
+            eventCapacity: 'unlimited',
+            eventTags: ['tech'],
+          },
+        },
+        creator,
+      );
+
+      expect(result).toEqual({
+        name: 'Study Night',
+        description: null,
+        isShared: false,
+        createdByUserId: 'creator-1',
+        fields: {
+          eventHost: 'Math Club',
+          eventCapacity: null,
+          eventTags: ['Tech'],
+        },
+      });
+      expect(templateRepository.save).toHaveBeenCalled();
+    });
+
+    it('lets admins share a template', async () => {
+      const result = await service.createTemplate(
+        { name: 'Club fair', isShared: true, fields: {} },
+        admin,
+      );
+
+      expect(result.isShared).toBe(true);
+    });
+
+    it('does not let creators share a template', async () => {
+      await expect(
+        service.createTemplate(
+          { name: 'Club fair', isShared: true, fields: {} },
+          creator,
+        ),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(templateRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('rejects unknown tags', async () => {
+      tagService.resolveTags.mockRejectedValueOnce(
+        new BadRequestException('Unknown tag(s): nope'),
+      );
+
+      await expect(
+        service.createTemplate(
+          { name: 'Study Night', fields: { eventTags: ['nope'] } },
+          creator,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('updateTemplate', () => {
+    it('replaces the saved fields', async () => {
+      templateRepository.findOne.mockResolvedValue(makeTemplate());
+
+      const result = await service.updateTemplate(
+        'template-1',
+        { name: 'Late Study Night', fields: { eventLocation: 'Library' } },
+        creator,
+      );
+
+      expect(result.name).toBe('Late Study Night');
+      expect(result.fields).toEqual({ eventLocation: 'Library' });
+    });
+
+    it('hides other creators personal templates', async () => {
+      templateRepository.findOne.mockResolvedValue(makeTemplate());
+
+      await expect(
+        service.updateTemplate('template-1', { name: 'Mine' }, otherCreator),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('keeps shared templates admin only', async () => {
+      templateRepository.findOne.mockResolvedValue(
+        makeTemplate({ isShared: true, createdByUserId: 'admin-1' }),
+      );
+
+      await expect(
+        service.updateTemplate('template-1', { name: 'Mine' }, creator),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('does not let creators share their template', async () => {
+      templateRepository.findOne.mockResolvedValue(makeTemplate());
+
+      await expect(
+        service.updateTemplate('template-1', { isShared: true }, creator),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(templateRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteTemplate', () => {
+    it('lets admins delete any template', async () => {
+      const template = makeTemplate();
+      templateRepository.findOne.mockResolvedValue(template);
+
+      await service.deleteTemplate('template-1', admin);
+
+      expect(templateRepository.remove).toHaveBeenCalledWith(template);
+    });
+
+    it('throws NotFoundException for a missing template', async () => {
+      templateRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.deleteTemplate('missing', creator)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
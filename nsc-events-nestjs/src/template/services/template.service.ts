@@ -0,0 +1,209 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { EventTemplate } from '../entities/event-template.entity';
+import { CreateTemplateDto } from '../dto/create-template.dto';
+import { UpdateTemplateDto } from '../dto/update-template.dto';
+import { TemplateFieldsDto } from '../dto/template-fields.dto';
+import { Activity } from '../../activity/entities/activity.entity';
+import {
+  pickReusableFields,
+  ReusableFields,
+} from '../../activity/utils/clone.util';
+import { parseCapacity } from '../../activity/utils/capacity.util';
+import { TagService } from '../../tag/services/tag.service';
+import { toSlug } from '../../tag/utils/slug.util';
+import { EventActor } from '../../collaborator/utils/permissions.util';
+import { Role } from '../../user/entities/user.entity';
+
+@Injectable()
+export class TemplateService {
+  constructor(
+    @InjectRepository(EventTemplate)
+    private readonly templateRepository: Repository<EventTemplate>,
+    private readonly tagService: TagService,
+  ) {}
+
+  // ----------------- Get Templates ----------------- \\
+  // The user's own templates followed by the shared ones, each sorted by name
+  async getTemplates(user: EventActor): Promise<EventTemplate[]> {
+    try {
+      const templates = await this.templateRepository.find({
+        where: [{ createdByUserId: user.id }, { isShared: true }],
+        order: { isShared: 'ASC', name: 'ASC' },
+      });
+      return await this.withCurrentTags(templates);
+    } catch (error) {
+      throw new HttpException(
+        'Error retrieving templates',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Create Template ----------------- \\
+  async createTemplate(
+    createTemplateDto: CreateTemplateDto,
+    user: EventActor,
+  ): Promise<EventTemplate> {
+    try {
+      if (createTemplateDto.isShared) {
+        this.assertCanShare(user);
+      }
+
+      const template = this.templateRepository.create({
+        name: createTemplateDto.name.trim(),
+        description: createTemplateDto.description ?? null,
+        isShared: createTemplateDto.isShared ?? false,
+        createdByUserId: user.id,
+        fields: await this.toFields(createTemplateDto.fields),
+      });
+      return await this.templateRepository.save(template);
+    } catch (error) {
+      if (
+        error instanceof BadRequestException ||
+        error instanceof UnauthorizedException
+      ) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error creating template',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Update Template ----------------- \\
+  // Given fields replace the saved ones as a whole
+  async updateTemplate(
+    id: string,
+    updateTemplateDto: UpdateTemplateDto,
+    user: EventActor,
+  ): Promise<EventTemplate> {
+    try {
+      const template = await this.getManagedTemplate(id, user);
+      if (updateTemplateDto.isShared && !template.isShared) {
+        this.assertCanShare(user);
+      }
+
+      const { fields, ...details } = updateTemplateDto;
+      Object.assign(template, details);
+      if (details.name !== undefined) {
+        template.name = details.name.trim();
+      }
+      if (fields) {
+        template.fields = await this.toFields(fields);
+      }
+      return await this.templateRepository.save(template);
+    } catch (error) {
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException ||
+        error instanceof UnauthorizedException
+      ) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error updating template',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Delete Template ----------------- \\
+  async deleteTemplate(id: string, user: EventActor): Promise<void> {
+    try {
+      const template = await this.getManagedTemplate(id, user);
+      await this.templateRepository.remove(template);
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof UnauthorizedException
+      ) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error deleting template',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Loads a template the user may change: admins can change any template,
+   * creators only their own personal ones.
+   */
+  private async getManagedTemplate(
+    id: string,
+    user: EventActor,
+  ): Promise<EventTemplate> {
+    const template = await this.templateRepository.findOne({ where: { id } });
+    if (
+      !template ||
+      (!template.isShared &&
+        template.createdByUserId !== user.id &&
+        user.role !== Role.admin)
+    ) {
+      throw new NotFoundException('Template not found');
+    }
+    if (user.role !== Role.admin && template.isShared) {
+      throw new UnauthorizedException(
+        'Only admins can change shared templates',
+      );
+    }
+    return template;
+  }
+
+  private assertCanShare(user: EventActor): void {
+    if (user.role !== Role.admin) {
+      throw new UnauthorizedException('Only admins can share templates');
+    }
+  }
+
+  /** Normalizes submitted template fields the way events store them */
+  private async toFields(dto: TemplateFieldsDto): Promise<ReusableFields> {
+    const { eventCapacity, eventTags, ...details } = dto;
+    const fields = pickReusableFields(details as Partial<Activity>);
+
+    if (eventCapacity !== undefined) {
+      fields.eventCapacity = parseCapacity(eventCapacity);
+    }
+    if (eventTags?.length) {
+      const tags = await this.tagService.resolveTags(eventTags);
+      fields.eventTags = tags.map((tag) => tag.name);
+    }
+    return fields;
+  }
+
+  /**
+   * Templates keep tag names as they were when saved. Renamed tags are
+   * shown under their current name, and tags that were deleted or can no
+   * longer be picked are left out.
+   */
+  private async withCurrentTags(
+    templates: EventTemplate[],
+  ): Promise<EventTemplate[]> {
+    if (!templates.some((template) => template.fields.eventTags?.length)) {
+      return templates;
+    }
+
+    const active = new Map(
+      (await this.tagService.getTags()).map((tag) => [tag.slug, tag.name]),
+    );
+    for (const template of templates) {
+      if (template.fields.eventTags) {
+        template.fields.eventTags = template.fields.eventTags
+          .map((name) => active.get(toSlug(name)))
+          .filter(Boolean);
+      }
+    }
+    return templates;
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { TemplateController } from './controllers/template.controller';
+import { TemplateService } from './services/template.service';
+import { EventTemplate } from './entities/event-template.entity';
+import { AuthModule } from '../auth/auth.module';
+import { TagModule } from '../tag/tag.module';
+
+@Module({
+  imports: [AuthModule, TagModule, TypeOrmModule.forFeature([EventTemplate])],
+  controllers: [TemplateController],
+  providers: [TemplateService],
+})
+export class TemplateModule {}
@@ -99,6 +99,10 @@ export class User implements UserDocument {
   @Column({ type: 'timestamp', nullable: true })
   resetPasswordExpires?: Date;
 
+  // Secret used in the URL of the user's private calendar feed
+  @Column({ nullable: true, unique: true, select: false })
+  calendarFeedToken?: string;
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -0,0 +1,90 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PassportModule } from '@nestjs/passport';
+import { VenueController } from './venue.controller';
+import { VenueService } from '../services/venue.service';
+
+const mockVenueService = {
+  getVenues: jest.fn(),
+  createVenue: jest.fn(),
+  updateVenue: jest.fn(),
+  deleteVenue: jest.fn(),
+  createRoom: jest.fn(),
+  updateRoom: jest.fn(),
+  deleteRoom: jest.fn(),
+  getVenueSchedule: jest.fn(),
+};
+
+describe('VenueController', () => {
+  let controller: VenueController;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [PassportModule.register({ defaultStrategy: 'jwt' })],
+      controllers: [VenueController],
+      providers: [{ provide: VenueService, useValue: mockVenueService }],
+    }).compile();
+
+    controller = module.get<VenueController>(VenueController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should list active venues publicly', async () => {
+    mockVenueService.getVenues.mockResolvedValue([{ code: 'IB' }]);
+
+    const result = await controller.getVenues();
+
+    expect(result).toEqual([{ code: 'IB' }]);
+    expect(mockVenueService.getVenues).toHaveBeenCalledWith();
+  });
+
+  it('should include inactive venues for admins', async () => {
+    await controller.getAllVenues();
+
+    expect(mockVenueService.getVenues).toHaveBeenCalledWith(true);
+  });
+
+  it('should pass venue and room changes through', async () => {
+    const venue = { campus: 'North Seattle', name: 'Library', code: 'LB' };
+    await controller.createVenue(venue);
+    await controller.updateVenue('venue-1', { name: 'Library Building' });
+    await controller.deleteVenue('venue-1');
+    await controller.createRoom('venue-1', { roomNumber: '1101' });
+    await controller.updateRoom('room-1', { capacity: 30 });
+    await controller.deleteRoom('room-1');
+
+    expect(mockVenueService.createVenue).toHaveBeenCalledWith(venue);
+    expect(mockVenueService.updateVenue).toHaveBeenCalledWith('venue-1', {
+      name: 'Library Building',
+    });
+    expect(mockVenueService.deleteVenue).toHaveBeenCalledWith('venue-1');
+    expect(mockVenueService.createRoom).toHaveBeenCalledWith('venue-1', {
+      roomNumber: '1101',
+    });
+    expect(mockVenueService.updateRoom).toHaveBeenCalledWith('room-1', {
+      capacity: 30,
+    });
+    expect(mockVenueService.deleteRoom).toHaveBeenCalledWith('room-1');
+  });
+
+  it('should return the room schedule of a venue for a day', async () => {
+    mockVenueService.getVenueSchedule.mockResolvedValue({ rooms: [] });
+
+    const result = await controller.getVenueSchedule(
+      'venue-1',
+      '2025-01-15',
+      'America/Los_Angeles',
+    );
+
+    expect(result).toEqual({ rooms: [] });
+    expect(mockVenueService.getVenueSchedule).toHaveBeenCalledWith(
+      'venue-1',
+      '2025-01-15',
+      'America/Los_Angeles',
+    );
+  });
+});
@@ -0,0 +1,208 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiBody,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { VenueSchedule, VenueService } from '../services/venue.service';
+import { Venue } from '../entities/venue.entity';
+import { Room } from '../entities/room.entity';
+import { CreateVenueDto } from '../dto/create-venue.dto';
+import { UpdateVenueDto } from '../dto/update-venue.dto';
+import { CreateRoomDto } from '../dto/create-room.dto';
+import { UpdateRoomDto } from '../dto/update-room.dto';
+import { RoleGuard } from '../../auth/role.guard';
+import { Roles } from '../../auth/roles.decorator';
+
+@ApiTags('Venues')
+@Controller('venues') // final path is /api/venues (global prefix 'api')
+export class VenueController {
+  constructor(private readonly venueService: VenueService) {}
+
+  // ----------------- List Venues ----------------- \\
+  @Get()
+  @ApiOperation({
+    summary: 'List venues',
+    description:
+      'Active venues with their active rooms, sorted by campus and name',
+  })
+  @ApiResponse({ status: 200, description: 'List of venues', type: [Venue] })
+  async getVenues(): Promise<Venue[]> {
+    return this.venueService.getVenues();
+  }
+
+  // ----------------- List All Venues ----------------- \\
+  @Roles('admin')
+  @UseGuards(AuthGuard(), RoleGuard)
+  @Get('all')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'List all venues and rooms including inactive ones (Admin only)',
+  })
+  @ApiResponse({ status: 200, description: 'List of venues', type: [Venue] })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  async getAllVenues(): Promise<Venue[]> {
+    return this.venueService.getVenues(true);
+  }
+
+  // ----------------- Create Venue ----------------- \\
+  @Roles('admin')
+  @UseGuards(AuthGuard(), RoleGuard)
+  @Post()
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Create a venue (Admin only)' })
+  @ApiBody({ type: CreateVenueDto })
+  @ApiResponse({ status: 201, description: 'Venue created', type: Venue })
+  @ApiResponse({ status: 400, description: 'Invalid or duplicate venue' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  async createVenue(@Body() createVenueDto: CreateVenueDto): Promise<Venue> {
+    return this.venueService.createVenue(createVenueDto);
+  }
+
+  // ----------------- Update Room ----------------- \\
+  @Roles('admin')
+  @UseGuards(AuthGuard(), RoleGuard)
+  @Put('rooms/:roomId')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Update a room (Admin only)',
+    description:
+      'Renaming or renumbering a room updates the location shown on its events',
+  })
+  @ApiParam({ name: 'roomId', description: 'Room ID (UUID)' })
+  @ApiBody({ type: UpdateRoomDto })
+  @ApiResponse({ status: 200, description: 'Room updated', type: Room })
+  @ApiResponse({ status: 400, description: 'Invalid or duplicate room' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  @ApiResponse({ status: 404, description: 'Room not found' })
+  async updateRoom(
+    @Param('roomId') roomId: string,
+    @Body() updateRoomDto: UpdateRoomDto,
+  ): Promise<Room> {
+    return this.venueService.updateRoom(roomId, updateRoomDto);
+  }
+
+  // ----------------- Delete Room ----------------- \\
+  @Roles('admin')
+  @UseGuards(AuthGuard(), RoleGuard)
+  @Delete('rooms/:roomId')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Delete a room (Admin only)',
+    description:
+      'Events in the room keep their location text. Deactivate the room instead to keep it on existing events.',
+  })
+  @ApiParam({ name: 'roomId', description: 'Room ID (UUID)' })
+  @ApiResponse({ status: 200, description: 'Room deleted' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  @ApiResponse({ status: 404, description: 'Room not found' })
+  async deleteRoom(@Param('roomId') roomId: string): Promise<void> {
+    return this.venueService.deleteRoom(roomId);
+  }
+
+  // ----------------- Update Venue ----------------- \\
+  @Roles('admin')
+  @UseGuards(AuthGuard(), RoleGuard)
+  @Put(':id')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Update a venue (Admin only)',
+    description:
+      'Renaming a venue updates the location shown on the events in its rooms',
+  })
+  @ApiParam({ name: 'id', description: 'Venue ID (UUID)' })
+  @ApiBody({ type: UpdateVenueDto })
+  @ApiResponse({ status: 200, description: 'Venue updated', type: Venue })
+  @ApiResponse({ status: 400, description: 'Invalid or duplicate code' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  @ApiResponse({ status: 404, description: 'Venue not found' })
+  async updateVenue(
+    @Param('id') id: string,
+    @Body() updateVenueDto: UpdateVenueDto,
+  ): Promise<Venue> {
+    return this.venueService.updateVenue(id, updateVenueDto);
+  }
+
+  // ----------------- Delete Venue ----------------- \\
+  @Roles('admin')
+  @UseGuards(AuthGuard(), RoleGuard)
+  @Delete(':id')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Delete a venue and its rooms (Admin only)',
+    description:
+      'Events in its rooms keep their location text. Deactivate the venue instead to keep it on existing events.',
+  })
+  @ApiParam({ name: 'id', description: 'Venue ID (UUID)' })
+  @ApiResponse({ status: 200, description: 'Venue deleted' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  @ApiResponse({ status: 404, description: 'Venue not found' })
+  async deleteVenue(@Param('id') id: string): Promise<void> {
+    return this.venueService.deleteVenue(id);
+  }
+
+  // ----------------- Venue Schedule ----------------- \\
+  @Roles('admin')
+  @UseGuards(AuthGuard(), RoleGuard)
+  @Get(':id/schedule')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Room schedule of a venue for a day (Admin only)',
+    description:
+      'Events booked in each room of the venue on the day, setup and teardown included, with the bookings each one overlaps',
+  })
+  @ApiParam({ name: 'id', description: 'Venue ID (UUID)' })
+  @ApiQuery({ name: 'date', required: true, example: '2025-01-15' })
+  @ApiQuery({
+    name: 'timeZone',
+    required: false,
+    example: 'America/Los_Angeles',
+    description: 'IANA time zone the day is in',
+  })
+  @ApiResponse({ status: 200, description: 'Bookings by room' })
+  @ApiResponse({ status: 400, description: 'Invalid date or time zone' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  @ApiResponse({ status: 404, description: 'Venue not found' })
+  async getVenueSchedule(
+    @Param('id') id: string,
+    @Query('date') date: string,
+    @Query('timeZone') timeZone?: string,
+  ): Promise<VenueSchedule> {
+    return this.venueService.getVenueSchedule(id, date, timeZone);
+  }
+
+  // ----------------- Create Room ----------------- \\
+  @Roles('admin')
+  @UseGuards(AuthGuard(), RoleGuard)
+  @Post(':id/rooms')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Add a room to a venue (Admin only)' })
+  @ApiParam({ name: 'id', description: 'Venue ID (UUID)' })
+  @ApiBody({ type: CreateRoomDto })
+  @ApiResponse({ status: 201, description: 'Room created', type: Room })
+  @ApiResponse({ status: 400, description: 'Invalid or duplicate room' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  @ApiResponse({ status: 404, description: 'Venue not found' })
+  async createRoom(
+    @Param('id') id: string,
+    @Body() createRoomDto: CreateRoomDto,
+  ): Promise<Room> {
+    return this.venueService.createRoom(id, createRoomDto);
+  }
+}
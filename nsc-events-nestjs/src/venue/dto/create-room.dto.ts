@@ -0,0 +1,59 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { AccessibilityFeature } from '../entities/room.entity';
+
+export class CreateRoomDto {
+  @ApiProperty({
+    description: 'Room number, unique in its venue',
+    example: '1234',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  readonly roomNumber: string;
+
+  @ApiPropertyOptional({ example: 'Library Commons' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  readonly name?: string | null;
+
+  @ApiPropertyOptional({ description: 'Number of seats', example: 40 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  readonly capacity?: number | null;
+
+  @ApiPropertyOptional({
+    enum: AccessibilityFeature,
+    isArray: true,
+    example: [AccessibilityFeature.stepFreeAccess],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(AccessibilityFeature, {
+    each: true,
+    message: `accessibilityFeatures must be any of: ${Object.values(
+      AccessibilityFeature,
+    ).join(', ')}`,
+  })
+  readonly accessibilityFeatures?: AccessibilityFeature[];
+
+  @ApiPropertyOptional({
+    description: 'Inactive rooms stay on existing events but cannot be picked',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  readonly isActive?: boolean;
+}
@@ -0,0 +1,63 @@
+import {
+  IsBoolean,
+  IsLatitude,
+  IsLongitude,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateVenueDto {
+  @ApiProperty({
+    description: 'Campus the building is on',
+    example: 'North Seattle',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  readonly campus: string;
+
+  @ApiProperty({
+    description: 'Building name',
+    example: 'Instruction Building',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  readonly name: string;
+
+  @ApiProperty({
+    description: 'Building code, unique on its campus',
+    example: 'IB',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  readonly code: string;
+
+  @ApiPropertyOptional({ example: '9600 College Way N, Seattle, WA 98103' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(300)
+  readonly address?: string | null;
+
+  @ApiPropertyOptional({ example: 47.6995 })
+  @IsOptional()
+  @IsLatitude()
+  readonly latitude?: number | null;
+
+  @ApiPropertyOptional({ example: -122.3331 })
+  @IsOptional()
+  @IsLongitude()
+  readonly longitude?: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Inactive venues stay on existing events but cannot be picked',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  readonly isActive?: boolean;
+}
@@ -0,0 +1,62 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  JoinColumn,
+  ManyToOne,
+} from 'typeorm';
+import { Venue } from './venue.entity';
+
+export enum AccessibilityFeature {
+  stepFreeAccess = 'step-free-access',
+  elevator = 'elevator',
+  accessibleRestroom = 'accessible-restroom',
+  accessibleSeating = 'accessible-seating',
+  hearingLoop = 'hearing-loop',
+}
+
+/**
+ * A bookable room in a venue. Deleting a room leaves its events in place
+ * with their location text; deleting a venue deletes its rooms.
+ */
+@Entity('rooms')
+@Index(['venueId', 'roomNumber'], { unique: true })
+export class Room {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column({ type: 'uuid' })
+  venueId: string;
+
+  @ManyToOne(() => Venue, (venue) => venue.rooms, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'venueId' })
+  venue?: Venue;
+
+  // As shown on the door, e.g. 1234
+  @Column()
+  roomNumber: string;
+
+  // Common name, e.g. Library Commons
+  @Column({ type: 'varchar', nullable: true })
+  name?: string | null;
+
+  // Seats, null when unknown
+  @Column({ type: 'int', nullable: true })
+  capacity?: number | null;
+
+  @Column('simple-array', { default: '' })
+  accessibilityFeatures: AccessibilityFeature[];
+
+  @Column({ default: true })
+  isActive: boolean;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
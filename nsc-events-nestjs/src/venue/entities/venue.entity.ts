@@ -0,0 +1,53 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  OneToMany,
+} from 'typeorm';
+import { Room } from './room.entity';
+
+/**
+ * A campus building events can be held in. Events pick one of its rooms;
+ * inactive venues stay on existing events but can't be picked for new ones.
+ */
+@Entity('venues')
+@Index(['campus', 'code'], { unique: true })
+export class Venue {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  campus: string;
+
+  // Building name, e.g. Instruction Building
+  @Column()
+  name: string;
+
+  // Short building code used on room signs, e.g. IB
+  @Column({ length: 20 })
+  code: string;
+
+  @Column({ type: 'text', nullable: true })
+  address?: string | null;
+
+  @Column({ type: 'double precision', nullable: true })
+  latitude?: number | null;
+
+  @Column({ type: 'double precision', nullable: true })
+  longitude?: number | null;
+
+  @Column({ default: true })
+  isActive: boolean;
+
+  @OneToMany(() => Room, (room) => room.venue)
+  rooms?: Room[];
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
@@ -0,0 +1,452 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import {
+  BadRequestException,
+  HttpException,
+  NotFoundException,
+} from '@nestjs/common';
+import { VenueService } from './venue.service';
+import { Venue } from '../entities/venue.entity';
+import { AccessibilityFeature, Room } from '../entities/room.entity';
+import { Activity } from '../../activity/entities/activity.entity';
+
+const makeVenue = (overrides: Partial<Venue> = {}): Venue =>
+  ({
+    id: 'venue-1',
+    campus: 'North Seattle',
+    name: 'Instruction Building',
+    code: 'IB',
+    address: null,
+    latitude: 47.6995,
+    longitude: -122.3331,
+    isActive: true,
+    ...overrides,
+  } as Venue);
+
+const makeRoom = (overrides: Partial<Room> = {}): Room =>
+  ({
+    id: 'room-1',
+    venueId: 'venue-1',
+    roomNumber: '1234',
+    name: null,
+    capacity: 40,
+    accessibilityFeatures: [AccessibilityFeature.stepFreeAccess],
+    isActive: true,
+    ...overrides,
+  } as Room);
+
+describe('VenueService', () => {
+  let service: VenueService;
+
+  const venueRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn((data: Partial<Venue>) => data),
+    save: jest.fn(async (data: any) => data),
+    remove: jest.fn(),
+  };
+
+  const roomRepository = {
+    findOne: jest.fn(),
+    create: jest.fn((data: Partial<Room>) => data),
+    save: jest.fn(async (data: any) => data),
+    remove: jest.fn(),
+  };
+
+  const bookingQuery = {
+    select: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    getMany: jest.fn(),
+  };
+
+  const activityRepository = {
+    update: jest.fn(),
+    createQueryBuilder: jest.fn(() => bookingQuery),
+  };
+
+  const manager = {
+    getRepository: jest.fn((entity) =>
+      entity === Activity
+        ? activityRepository
+        : entity === Room
+        ? roomRepository
+        : venueRepository,
+    ),
+  };
+
+  const dataSource = {
+    transaction: jest.fn((work: (m: typeof manager) => unknown) =>
+      work(manager),
+    ),
+    getRepository: jest.fn(() => activityRepository),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VenueService,
+        { provide: getRepositoryToken(Venue), useValue: venueRepository },
+        { provide: getRepositoryToken(Room), useValue: roomRepository },
+        { provide: DataSource, useValue: dataSource },
+      ],
+    }).compile();
+
+    service = module.get<VenueService>(VenueService);
+  });
+
+  describe('getVenues', () => {
+    it('lists active venues with only their active rooms', async () => {
+      venueRepository.find.mockResolvedValue([
+        makeVenue({
+          rooms: [makeRoom(), makeRoom({ id: 'room-2', isActive: false })],
+        }),
+      ]);
+
+      const [venue] = await service.getVenues();
+
+      expect(venue.rooms.map((room) => room.id)).toEqual(['room-1']);
+      expect(venueRepository.find).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { isActive: true } }),
+      );
+    });
+
+    it('includes inactive venues and rooms for admins', async () => {
+      venueRepository.find.mockResolvedValue([
+        makeVenue({
+          rooms: [makeRoom(), makeRoom({ id: 'room-2', isActive: false })],
+        }),
+      ]);
+
+      const [venue] = await service.getVenues(true);
+
+      expect(venue.rooms).toHaveLength(2);
+      expect(venueRepository.find).toHaveBeenCalledWith(
+        expect.objectContaining({ where: {} }),
+      );
+    });
+
+    it('wraps repository errors', async () => {
+      venueRepository.find.mockRejectedValue(new Error('db down'));
+
+      await expect(service.getVenues()).rejects.toThrow(HttpException);
+    });
+  });
+
+  describe('createVenue', () => {
+    it('stores the building code in upper case', async () => {
+      venueRepository.findOne.mockResolvedValue(null);
+
+      const venue = await service.createVenue({
+        campus: ' North Seattle ',
+        name: 'Instruction Building ',
+        code: 'ib',
+      });
+
+      expect(venue).toMatchObject({
+        campus: 'North Seattle',
+        name: 'Instruction Building',
+        code: 'IB',
+        rooms: [],
+      });
+    });
+
+    it('rejects a code already used on the campus', async () => {
+      venueRepository.findOne.mockResolvedValue(makeVenue());
+
+      await expect(
+        service.createVenue({
+          campus: 'North Seattle',
+          name: 'Another Building',
+          code: 'IB',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(venueRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateVenue', () => {
+    it('rewrites the location of events in its rooms when renamed', async () => {
+      venueRepository.findOne.mockResolvedValueOnce(
+        makeVenue({ rooms: [makeRoom()] }),
+      );
+
+      const venue = await service.updateVenue('venue-1', {
+        name: 'Instructional Building',
+      });
+
+      expect(venue.name).toBe('Instructional Building');
+      expect(activityRepository.update).toHaveBeenCalledWith(
+        { roomId: 'room-1' },
+        { eventLocation: 'Instructional Building (IB) 1234' },
+      );
+    });
+
+    it('leaves events alone when only the coordinates change', async () => {
+      venueRepository.findOne.mockResolvedValueOnce(
+        makeVenue({ rooms: [makeRoom()] }),
+      );
+
+      await service.updateVenue('venue-1', { latitude: 47.7 });
+
+      expect(activityRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('rejects a code already used on the campus', async () => {
+      venueRepository.findOne
+        .mockResolvedValueOnce(makeVenue({ rooms: [] }))
+        .mockResolvedValueOnce(makeVenue({ id: 'venue-2', code: 'CC' }));
+
+      await expect(
+        service.updateVenue('venue-1', { code: 'cc' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('throws NotFoundException for an unknown venue', async () => {
+      venueRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.updateVenue('missing', { name: 'Library' }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('createRoom', () => {
+    it('adds the room to the venue', async () => {
+      venueRepository.findOne.mockResolvedValue(makeVenue({ rooms: [] }));
+      roomRepository.findOne.mockResolvedValue(null);
+
+      const room = await service.createRoom('venue-1', {
+        roomNumber: ' 2301 ',
+        name: '',
+        capacity: 25,
+      });
+
+      expect(room).toMatchObject({
+        venueId: 'venue-1',
+        roomNumber: '2301',
+        name: null,
+        capacity: 25,
+      });
+    });
+
+    it('rejects a room number already used in the venue', async () => {
+      venueRepository.findOne.mockResolvedValue(makeVenue({ rooms: [] }));
+      roomRepository.findOne.mockResolvedValue(makeRoom());
+
+      await expect(
+        service.createRoom('venue-1', { roomNumber: '1234' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('updateRoom', () => {
+    it('rewrites the location of its events when renumbered', async () => {
+      roomRepository.findOne
+        .mockResolvedValueOnce(makeRoom({ venue: makeVenue() }))
+        .mockResolvedValueOnce(null);
+
+      await service.updateRoom('room-1', { roomNumber: '1240' });
+
+      expect(activityRepository.update).toHaveBeenCalledWith(
+        { roomId: 'room-1' },
+        { eventLocation: 'Instruction Building (IB) 1240' },
+      );
+    });
+
+    it('leaves events alone when only the capacity changes', async () => {
+      roomRepository.findOne.mockResolvedValueOnce(
+        makeRoom({ venue: makeVenue() }),
+      );
+
+      await service.updateRoom('room-1', { capacity: 60 });
+
+      expect(activityRepository.update).not.toHaveBeenCalled();
+      expect(roomRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ capacity: 60 }),
+      );
+    });
+
+    it('throws NotFoundException for an unknown room', async () => {
+      roomRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.deleteRoom('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('resolveRoom', () => {
+    it('returns an active room with its venue', async () => {
+      const room = makeRoom({ venue: makeVenue() });
+      roomRepository.findOne.mockResolvedValue(room);
+
+      await expect(service.resolveRoom('room-1')).resolves.toBe(room);
+    });
+
+    it('rejects retired rooms and rooms in retired venues', async () => {
+      roomRepository.findOne
+        .mockResolvedValueOnce(
+          makeRoom({ isActive: false, venue: makeVenue() }),
+        )
+        .mockResolvedValueOnce(
+          makeRoom({ venue: makeVenue({ isActive: false }) }),
+        );
+
+      await expect(service.resolveRoom('room-1')).rejects.toThrow(
+        'Unknown room: room-1',
+      );
+      await expect(service.resolveRoom('room-1')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('keeps a retired room the event is already in', async () => {
+      const room = makeRoom({ isActive: false, venue: makeVenue() });
+      roomRepository.findOne.mockResolvedValue(room);
+
+      await expect(service.resolveRoom('room-1', 'room-1')).resolves.toBe(room);
+    });
+
+    it('rejects unknown rooms', async () => {
+      roomRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.resolveRoom('missing')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('findRoomConflicts', () => {
+    const at = (time: string) => new Date(`2025-01-15T${time}:00.000Z`);
+    const booked = (id: string, start: string, end: string, extra = {}) => ({
+      id,
+      roomId: 'room-1',
+      startDate: at(start),
+      endDate: at(end),
+      setupMinutes: 0,
+      teardownMinutes: 0,
+      ...extra,
+    });
+
+    it('returns the events overlapping any of the bookings', async () => {
+      bookingQuery.getMany.mockResolvedValue([
+        booked('lunch', '12:00', '13:00'),
+        booked('chess', '18:30', '20:00'),
+        booked('later', '21:00', '22:00'),
+      ]);
+
+      const conflicts = await service.findRoomConflicts(
+        'room-1',
+        [{ startDate: at('18:00'), endDate: at('20:00') }],
+        ['activity-1'],
+      );
+
+      expect(conflicts.map((conflict) => conflict.id)).toEqual(['chess']);
+      expect(bookingQuery.where).toHaveBeenCalledWith(
+        'activity."roomId" IN (:...roomIds)',
+        { roomIds: ['room-1'] },
+      );
+      expect(bookingQuery.andWhere).toHaveBeenCalledWith(
+        'activity."approvalStatus" != :rejected',
+        { rejected: 'rejected' },
+      );
+      expect(bookingQuery.andWhere).toHaveBeenCalledWith(
+        'activity.id NOT IN (:...excludeIds)',
+        { excludeIds: ['activity-1'] },
+      );
+    });
+
+    it('counts setup and teardown time on both sides', async () => {
+      bookingQuery.getMany.mockResolvedValue([
+        booked('before', '16:00', '18:00', { teardownMinutes: 15 }),
+        booked('after', '20:00', '21:00'),
+      ]);
+
+      const conflicts = await service.findRoomConflicts('room-1', [
+        { startDate: at('18:00'), endDate: at('20:00'), teardownMinutes: 10 },
+      ]);
+
+      expect(conflicts.map((conflict) => conflict.id)).toEqual([
+        'before',
+        'after',
+      ]);
+    });
+
+    it('skips the lookup without bookings', async () => {
+      expect(await service.findRoomConflicts('room-1', [])).toEqual([]);
+      expect(bookingQuery.getMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getVenueSchedule', () => {
+    it('lists the bookings of each room on the day with their conflicts', async () => {
+      venueRepository.findOne.mockResolvedValue(
+        makeVenue({
+          rooms: [makeRoom({ id: 'room-2', roomNumber: '2110' }), makeRoom()],
+        }),
+      );
+      bookingQuery.getMany.mockResolvedValue([
+        {
+          id: 'talk',
+          roomId: 'room-1',
+          startDate: new Date('2025-01-15T18:00:00Z'),
+          endDate: new Date('2025-01-15T20:00:00Z'),
+        },
+        {
+          id: 'club',
+          roomId: 'room-1',
+          startDate: new Date('2025-01-15T19:00:00Z'),
+          endDate: new Date('2025-01-15T21:00:00Z'),
+        },
+        {
+          // Ends before the day starts in Seattle
+          id: 'yesterday',
+          roomId: 'room-2',
+          startDate: new Date('2025-01-15T05:00:00Z'),
+          endDate: new Date('2025-01-15T07:00:00Z'),
+        },
+      ]);
+
+      const schedule = await service.getVenueSchedule(
+        'venue-1',
+        '2025-01-15',
+        'America/Los_Angeles',
+      );
+
+      expect(schedule.venue).toEqual(
+        expect.not.objectContaining({ rooms: expect.anything() }),
+      );
+      expect(schedule.rooms.map((entry) => entry.room.roomNumber)).toEqual([
+        '1234',
+        '2110',
+      ]);
+      expect(schedule.rooms[0].bookings).toEqual([
+        expect.objectContaining({ id: 'talk', conflictsWith: ['club'] }),
+        expect.objectContaining({ id: 'club', conflictsWith: ['talk'] }),
+      ]);
+      expect(schedule.rooms[1].bookings).toEqual([]);
+    });
+
+    it('rejects invalid dates and time zones', async () => {
+      await expect(
+        service.getVenueSchedule('venue-1', '01/15/2025'),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.getVenueSchedule('venue-1', '2025-01-15', 'Mars/Olympus'),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('throws NotFoundException for an unknown venue', async () => {
+      venueRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.getVenueSchedule('missing', '2025-01-15'),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
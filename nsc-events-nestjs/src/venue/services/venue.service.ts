@@ -0,0 +1,548 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, Repository } from 'typeorm';
+import { Venue } from '../entities/venue.entity';
+import { Room } from '../entities/room.entity';
+import {
+  Activity,
+  ApprovalStatus,
+  PublicationStatus,
+} from '../../activity/entities/activity.entity';
+import { CreateVenueDto } from '../dto/create-venue.dto';
+import { UpdateVenueDto } from '../dto/update-venue.dto';
+import { CreateRoomDto } from '../dto/create-room.dto';
+import { UpdateRoomDto } from '../dto/update-room.dto';
+import { formatRoomLocation } from '../utils/location.util';
+import {
+  Booking,
+  bookingsOverlap,
+  MAX_BUFFER_MINUTES,
+} from '../utils/booking.util';
+import {
+  DEFAULT_TIME_ZONE,
+  isTimeZone,
+  zonedTimeToUtc,
+} from '../../common/time-zone.util';
+
+type RoomInVenue = Room & { venue: Venue };
+
+/** An event holding a room, as listed in conflicts and room schedules */
+export interface RoomBooking {
+  id: string;
+  eventTitle: string;
+  eventHost: string;
+  roomId: string;
+  startDate: Date;
+  endDate: Date;
+  setupMinutes: number;
+  teardownMinutes: number;
+  approvalStatus: ApprovalStatus;
+  publicationStatus: PublicationStatus;
+}
+
+export interface RoomSchedule {
+  room: Room;
+  // Ids of the other bookings each one overlaps
+  bookings: (RoomBooking & { conflictsWith: string[] })[];
+}
+
+export interface VenueSchedule {
+  venue: Omit<Venue, 'rooms'>;
+  date: string;
+  timeZone: string;
+  rooms: RoomSchedule[];
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Building codes are compared as they appear on signs, e.g. IB
+const toBuildingCode = (code: string): string => code.trim().toUpperCase();
+
+@Injectable()
+export class VenueService {
+  constructor(
+    @InjectRepository(Venue)
+    private readonly venueRepository: Repository<Venue>,
+    @InjectRepository(Room)
+    private readonly roomRepository: Repository<Room>,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  // ----------------- Get Venues ----------------- \\
+  // Venues with their rooms, by campus and name. Unless inactive ones are
+  // included, only venues and rooms that can be picked for events are listed.
+  async getVenues(includeInactive = false): Promise<Venue[]> {
+    try {
+      const venues = await this.venueRepository.find({
+        where: includeInactive ? {} : { isActive: true },
+        relations: { rooms: true },
+        order: { campus: 'ASC', name: 'ASC', rooms: { roomNumber: 'ASC' } },
+      });
+      if (!includeInactive) {
+        for (const venue of venues) {
+          venue.rooms = (venue.rooms ?? []).filter((room) => room.isActive);
+        }
+      }
+      return venues;
+    } catch (error) {
+      throw new HttpException(
+        'Error retrieving venues',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Get Venue by ID ----------------- \\
+  async getVenueById(id: string): Promise<Venue> {
+    try {
+      const venue = await this.venueRepository.findOne({
+        where: { id },
+        relations: { rooms: true },
+      });
+
+      if (!venue) {
+        throw new NotFoundException('Venue not found');
+      }
+
+      return venue;
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error retrieving venue',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Create Venue ----------------- \\
+  async createVenue(createVenueDto: CreateVenueDto): Promise<Venue> {
+    try {
+      const campus = createVenueDto.campus.trim();
+      const code = toBuildingCode(createVenueDto.code);
+      await this.assertCodeAvailable(campus, code);
+
+      const venue = this.venueRepository.create({
+        ...createVenueDto,
+        campus,
+        name: createVenueDto.name.trim(),
+        code,
+      });
+      const saved = await this.venueRepository.save(venue);
+      saved.rooms = [];
+      return saved;
+    } catch (error) {
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error creating venue',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Update Venue ----------------- \\
+  // Renaming a venue rewrites the location of the events in its rooms
+  async updateVenue(
+    id: string,
+    updateVenueDto: UpdateVenueDto,
+  ): Promise<Venue> {
+    try {
+      const venue = await this.getVenueById(id);
+
+      const updateData: Partial<Venue> = { ...updateVenueDto };
+      if (updateVenueDto.campus !== undefined) {
+        updateData.campus = updateVenueDto.campus.trim();
+      }
+      if (updateVenueDto.name !== undefined) {
+        updateData.name = updateVenueDto.name.trim();
+      }
+      if (updateVenueDto.code !== undefined) {
+        updateData.code = toBuildingCode(updateVenueDto.code);
+      }
+
+      const campus = updateData.campus ?? venue.campus;
+      const code = updateData.code ?? venue.code;
+      if (campus !== venue.campus || code !== venue.code) {
+        await this.assertCodeAvailable(campus, code);
+      }
+
+      const relabeled =
+        (updateData.name !== undefined && updateData.name !== venue.name) ||
+        code !== venue.code;
+
+      const { rooms = [], ...columns } = venue;
+      Object.assign(columns, updateData);
+      const saved = await this.dataSource.transaction(async (manager) => {
+        const result = await manager.getRepository(Venue).save(columns);
+        if (relabeled) {
+          await this.rewriteEventLocations(
+            manager,
+            rooms.map((room) => ({ ...room, venue: result })),
+          );
+        }
+        return result;
+      });
+      return Object.assign(saved, { rooms });
+    } catch (error) {
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException
+      ) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error updating venue',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Delete Venue ----------------- \\
+  // Deletes the venue and its rooms. Their events keep the location text.
+  // Deactivate the venue instead to keep it on existing events.
+  async deleteVenue(id: string): Promise<void> {
+    try {
+      const venue = await this.getVenueById(id);
+      await this.venueRepository.remove(venue);
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error deleting venue',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Create Room ----------------- \\
+  async createRoom(
+    venueId: string,
+    createRoomDto: CreateRoomDto,
+  ): Promise<Room> {
+    try {
+      await this.getVenueById(venueId);
+      const roomNumber = createRoomDto.roomNumber.trim();
+      await this.assertRoomNumberAvailable(venueId, roomNumber);
+
+      const room = this.roomRepository.create({
+        ...createRoomDto,
+        venueId,
+        roomNumber,
+        name: createRoomDto.name?.trim() || null,
+      });
+      return await this.roomRepository.save(room);
+    } catch (error) {
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException
+      ) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error creating room',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Update Room ----------------- \\
+  // Renaming or renumbering a room rewrites the location of its events
+  async updateRoom(id: string, updateRoomDto: UpdateRoomDto): Promise<Room> {
+    try {
+      const room = await this.getRoomById(id);
+
+      const updateData: Partial<Room> = { ...updateRoomDto };
+      if (updateRoomDto.roomNumber !== undefined) {
+        updateData.roomNumber = updateRoomDto.roomNumber.trim();
+        if (updateData.roomNumber !== room.roomNumber) {
+          await this.assertRoomNumberAvailable(
+            room.venueId,
+            updateData.roomNumber,
+          );
+        }
+      }
+      if (updateRoomDto.name !== undefined) {
+        updateData.name = updateRoomDto.name?.trim() || null;
+      }
+
+      const relabeled =
+        (updateData.roomNumber !== undefined &&
+          updateData.roomNumber !== room.roomNumber) ||
+        (updateData.name !== undefined && updateData.name !== room.name);
+
+      const { venue, ...columns } = room;
+      Object.assign(columns, updateData);
+      const saved = await this.dataSource.transaction(async (manager) => {
+        const result = await manager.getRepository(Room).save(columns);
+        if (relabeled) {
+          await this.rewriteEventLocations(manager, [{ ...result, venue }]);
+        }
+        return result;
+      });
+      return saved;
+    } catch (error) {
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException
+      ) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error updating room',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Delete Room ----------------- \\
+  // Events in the room keep the location text. Deactivate the room instead
+  // to keep it on existing events.
+  async deleteRoom(id: string): Promise<void> {
+    try {
+      const room = await this.getRoomById(id);
+      await this.roomRepository.remove(room);
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error deleting room',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ----------------- Resolve Room ----------------- \\
+  /**
+   * Loads the room picked for an event, with its venue. Only active rooms in
+   * active venues can be picked, except `currentRoomId` (the event's room)
+   * so editing an event keeps a retired room.
+   */
+  async resolveRoom(
+    roomId: string,
+    currentRoomId?: string | null,
+  ): Promise<RoomInVenue> {
+    const room = await this.roomRepository.findOne({
+      where: { id: roomId },
+      relations: { venue: true },
+    });
+    const usable =
+      room &&
+      ((room.isActive && room.venue.isActive) || room.id === currentRoomId);
+    if (!usable) {
+      throw new BadRequestException(`Unknown room: ${roomId}`);
+    }
+    return room as RoomInVenue;
+  }
+
+  // ----------------- Find Room Conflicts ----------------- \\
+  /**
+   * Events already holding the room at any of the given times, setup and
+   * teardown included. Rejected and trashed events don't hold a room;
+   * `excludeIds` leaves out the events being rebooked.
+   */
+  async findRoomConflicts(
+    roomId: string,
+    bookings: Booking[],
+    excludeIds: string[] = [],
+  ): Promise<RoomBooking[]> {
+    if (bookings.length === 0) {
+      return [];
+    }
+    const starts = bookings.map((booking) => booking.startDate.getTime());
+    const ends = bookings.map((booking) => booking.endDate.getTime());
+    const existing = await this.findBookings(
+      [roomId],
+      new Date(Math.min(...starts)),
+      new Date(Math.max(...ends)),
+      excludeIds,
+    );
+    return existing.filter((other) =>
+      bookings.some((booking) => bookingsOverlap(booking, other)),
+    );
+  }
+
+  // ----------------- Get Venue Schedule ----------------- \\
+  /**
+   * Bookings of every room in the venue on a day (YYYY-MM-DD) in the given
+   * time zone, each with the bookings it overlaps.
+   */
+  async getVenueSchedule(
+    id: string,
+    date: string,
+    timeZone = DEFAULT_TIME_ZONE,
+  ): Promise<VenueSchedule> {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date ?? '');
+    if (!match) {
+      throw new BadRequestException('date must be in YYYY-MM-DD format');
+    }
+    if (!isTimeZone(timeZone)) {
+      throw new BadRequestException(`Unknown time zone "${timeZone}"`);
+    }
+    const [year, month, day] = match.slice(1).map(Number);
+    const wall = { year, month, day, hour: 0, minute: 0, second: 0 };
+    const from = zonedTimeToUtc(wall, timeZone);
+    // The next midnight, which is 23 or 25 hours away on daylight saving days
+    const next = new Date(Date.UTC(year, month - 1, day) + DAY_MS);
+    const to = zonedTimeToUtc(
+      {
+        ...wall,
+        year: next.getUTCFullYear(),
+        month: next.getUTCMonth() + 1,
+        day: next.getUTCDate(),
+      },
+      timeZone,
+    );
+
+    try {
+      const { rooms = [], ...venue } = await this.getVenueById(id);
+      rooms.sort((a, b) => a.roomNumber.localeCompare(b.roomNumber));
+      const bookings = rooms.length
+        ? await this.findBookings(
+            rooms.map((room) => room.id),
+            from,
+            to,
+          )
+        : [];
+      return {
+        venue,
+        date,
+        timeZone,
+        rooms: rooms.map((room) => {
+          const inRoom = bookings.filter(
+            (booking) =>
+              booking.roomId === room.id &&
+              bookingsOverlap(booking, { startDate: from, endDate: to }),
+          );
+          return {
+            room,
+            bookings: inRoom.map((booking) => ({
+              ...booking,
+              conflictsWith: inRoom
+                .filter(
+                  (other) =>
+                    other.id !== booking.id && bookingsOverlap(booking, other),
+                )
+                .map((other) => other.id),
+            })),
+          };
+        }),
+      };
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error retrieving venue schedule',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Bookings of the rooms that could overlap `from` to `to`. Buffers can
+   * reach up to MAX_BUFFER_MINUTES past either end, so callers narrow the
+   * result down with bookingsOverlap.
+   */
+  private findBookings(
+    roomIds: string[],
+    from: Date,
+    to: Date,
+    excludeIds: string[] = [],
+  ): Promise<RoomBooking[]> {
+    const buffer = 2 * MAX_BUFFER_MINUTES * MINUTE_MS;
+    const qb = this.dataSource
+      .getRepository(Activity)
+      .createQueryBuilder('activity')
+      .select([
+        'activity.id',
+        'activity.eventTitle',
+        'activity.eventHost',
+        'activity.roomId',
+        'activity.startDate',
+        'activity.endDate',
+        'activity.setupMinutes',
+        'activity.teardownMinutes',
+        'activity.approvalStatus',
+        'activity.publicationStatus',
+      ])
+      .where('activity."roomId" IN (:...roomIds)', { roomIds })
+      .andWhere('activity."approvalStatus" != :rejected', {
+        rejected: ApprovalStatus.rejected,
+      })
+      .andWhere('activity."startDate" < :to', {
+        to: new Date(to.getTime() + buffer),
+      })
+      .andWhere('activity."endDate" > :from', {
+        from: new Date(from.getTime() - buffer),
+      })
+      .orderBy('activity.startDate', 'ASC');
+    if (excludeIds.length) {
+      qb.andWhere('activity.id NOT IN (:...excludeIds)', { excludeIds });
+    }
+    return qb.getMany() as Promise<RoomBooking[]>;
+  }
+
+  private async getRoomById(id: string): Promise<RoomInVenue> {
+    const room = await this.roomRepository.findOne({
+      where: { id },
+      relations: { venue: true },
+    });
+    if (!room) {
+      throw new NotFoundException('Room not found');
+    }
+    return room as RoomInVenue;
+  }
+
+  private async assertCodeAvailable(
+    campus: string,
+    code: string,
+  ): Promise<void> {
+    if (await this.venueRepository.findOne({ where: { campus, code } })) {
+      throw new BadRequestException(
+        `A venue with code "${code}" already exists on ${campus}`,
+      );
+    }
+  }
+
+  private async assertRoomNumberAvailable(
+    venueId: string,
+    roomNumber: string,
+  ): Promise<void> {
+    if (await this.roomRepository.findOne({ where: { venueId, roomNumber } })) {
+      throw new BadRequestException(
+        `Room ${roomNumber} already exists in this venue`,
+      );
+    }
+  }
+
+  /**
+   * Events keep a copy of their room's label in eventLocation for search,
+   * exports and calendar feeds. Refreshes it for the given rooms, trashed
+   * events included.
+   */
+  private async rewriteEventLocations(
+    manager: EntityManager,
+    rooms: RoomInVenue[],
+  ): Promise<void> {
+    for (const room of rooms) {
+      await manager
+        .getRepository(Activity)
+        .update(
+          { roomId: room.id },
+          { eventLocation: formatRoomLocation(room) },
+        );
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import {
+  bookedRange,
+  bookingsOverlap,
+  MAX_BUFFER_MINUTES,
+  parseBufferMinutes,
+} from './booking.util';
+
+const at = (time: string) => new Date(`2025-01-15T${time}:00.000Z`);
+
+describe('booking.util', () => {
+  describe('parseBufferMinutes', () => {
+    it('treats a missing value as no buffer', () => {
+      expect(parseBufferMinutes(undefined)).toBe(0);
+      expect(parseBufferMinutes(null)).toBe(0);
+      expect(parseBufferMinutes('')).toBe(0);
+    });
+
+    it('reads whole minutes from numbers and form strings', () => {
+      expect(parseBufferMinutes(30)).toBe(30);
+      expect(parseBufferMinutes(' 45 ')).toBe(45);
+      expect(parseBufferMinutes(MAX_BUFFER_MINUTES)).toBe(MAX_BUFFER_MINUTES);
+    });
+
+    it('rejects negative, fractional and overly long buffers', () => {
+      expect(parseBufferMinutes(-5)).toBeUndefined();
+      expect(parseBufferMinutes('7.5')).toBeUndefined();
+      expect(parseBufferMinutes(MAX_BUFFER_MINUTES + 1)).toBeUndefined();
+      expect(parseBufferMinutes('soon')).toBeUndefined();
+    });
+  });
+
+  describe('bookedRange', () => {
+    it('widens the event by its setup and teardown time', () => {
+      expect(
+        bookedRange({
+          startDate: at('18:00'),
+          endDate: at('20:00'),
+          setupMinutes: 30,
+          teardownMinutes: 15,
+        }),
+      ).toEqual({ start: at('17:30'), end: at('20:15') });
+    });
+  });
+
+  describe('bookingsOverlap', () => {
+    const lecture = { startDate: at('18:00'), endDate: at('20:00') };
+
+    it('detects overlapping times', () => {
+      expect(
+        bookingsOverlap(lecture, {
+          startDate: at('19:00'),
+          endDate: at('21:00'),
+        }),
+      ).toBe(true);
+      expect(
+        bookingsOverlap(lecture, {
+          startDate: at('18:30'),
+          endDate: at('19:00'),
+        }),
+      ).toBe(true);
+    });
+
+    it('allows back-to-back bookings', () => {
+      expect(
+        bookingsOverlap(lecture, {
+          startDate: at('20:00'),
+          endDate: at('21:00'),
+        }),
+      ).toBe(false);
+    });
+
+    it('counts setup and teardown time', () => {
+      const nextEvent = { startDate: at('20:00'), endDate: at('21:00') };
+
+      expect(
+        bookingsOverlap({ ...lecture, teardownMinutes: 15 }, nextEvent),
+      ).toBe(true);
+      expect(bookingsOverlap(lecture, { ...nextEvent, setupMinutes: 30 })).toBe(
+        true,
+      );
+    });
+  });
+});
@@ -0,0 +1,65 @@
+// Longest setup or teardown time an event can hold its room for
+export const MAX_BUFFER_MINUTES = 12 * 60;
+
+const MINUTE_MS = 60 * 1000;
+
+/** The time an event holds its room */
+export interface Booking {
+  startDate: Date;
+  endDate: Date;
+  setupMinutes?: number | null;
+  teardownMinutes?: number | null;
+}
+
+/**
+ * Normalizes a setup or teardown time from a request. Whole numbers of
+ * minutes (or numeric strings) up to MAX_BUFFER_MINUTES are accepted and a
+ * missing value means no buffer. Returns undefined when the value is invalid.
+ */
+export function parseBufferMinutes(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return 0;
+  }
+
+  if (typeof value === 'string') {
+    if (!/^\d+$/.test(value.trim())) {
+      return undefined;
+    }
+    value = Number(value.trim());
+  }
+
+  if (
+    typeof value === 'number' &&
+    Number.isInteger(value) &&
+    value >= 0 &&
+    value <= MAX_BUFFER_MINUTES
+  ) {
+    return value;
+  }
+
+  return undefined;
+}
+
+/** Start and end of the time a booking holds its room, buffers included */
+export function bookedRange(booking: Booking): { start: Date; end: Date } {
+  return {
+    start: new Date(
+      booking.startDate.getTime() - (booking.setupMinutes ?? 0) * MINUTE_MS,
+    ),
+    end: new Date(
+      booking.endDate.getTime() + (booking.teardownMinutes ?? 0) * MINUTE_MS,
+    ),
+  };
+}
+
+/**
+ * Whether two bookings of a room overlap. One can start as the other ends.
+ */
+export function bookingsOverlap(a: Booking, b: Booking): boolean {
+  const first = bookedRange(a);
+  const second = bookedRange(b);
+  return (
+    first.start.getTime() < second.end.getTime() &&
+    second.start.getTime() < first.end.getTime()
+  );
+}
@@ -0,0 +1,30 @@
+import { formatRoomLocation } from './location.util';
+import { Room } from '../entities/room.entity';
+import { Venue } from '../entities/venue.entity';
+
+const venue = {
+  id: 'venue-1',
+  campus: 'North Seattle',
+  name: 'Instruction Building',
+  code: 'IB',
+} as Venue;
+
+describe('formatRoomLocation', () => {
+  it('names the building, its code and the room number', () => {
+    const room = { roomNumber: '1234', venue } as Room & { venue: Venue };
+
+    expect(formatRoomLocation(room)).toBe('Instruction Building (IB) 1234');
+  });
+
+  it('puts the common name of a room first', () => {
+    const room = {
+      roomNumber: '1234',
+      name: ' Library Commons ',
+      venue,
+    } as Room & { venue: Venue };
+
+    expect(formatRoomLocation(room)).toBe(
+      'Library Commons, Instruction Building (IB) 1234',
+    );
+  });
+});
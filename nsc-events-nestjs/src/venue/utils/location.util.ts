@@ -0,0 +1,13 @@
+import { Room } from '../entities/room.entity';
+import { Venue } from '../entities/venue.entity';
+
+/**
+ * The location text shown for an event in a room, e.g. "Library Commons,
+ * Instruction Building (IB) 1234". Events keep a copy in eventLocation for
+ * search, exports and calendar feeds.
+ */
+export function formatRoomLocation(room: Room & { venue: Venue }): string {
+  const { venue } = room;
+  const place = `${venue.name} (${venue.code}) ${room.roomNumber}`;
+  return room.name?.trim() ? `${room.name.trim()}, ${place}` : place;
+}
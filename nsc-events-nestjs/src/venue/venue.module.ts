@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { VenueController } from './controllers/venue.controller';
+import { VenueService } from './services/venue.service';
+import { Venue } from './entities/venue.entity';
+import { Room } from './entities/room.entity';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [AuthModule, TypeOrmModule.forFeature([Venue, Room])],
+  controllers: [VenueController],
+  providers: [VenueService],
+  exports: [VenueService],
+})
+export class VenueModule {}
@@ -0,0 +1,47 @@
+import { crc32, inflateRawSync } from 'zlib';
+
+/**
+ * Reads every entry of a zip archive through its central directory,
+ * checking each entry's size and checksum.
+ */
+export function readZip(archive: Buffer): Record<string, string> {
+  const end = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = archive.readUInt16LE(end + 10);
+  let position = archive.readUInt32LE(end + 16);
+  const files: Record<string, string> = {};
+
+  for (let i = 0; i < count; i++) {
+    const checksum = archive.readUInt32LE(position + 16);
+    const compressedSize = archive.readUInt32LE(position + 20);
+    const size = archive.readUInt32LE(position + 24);
+    const nameLength = archive.readUInt16LE(position + 28);
+    const offset = archive.readUInt32LE(position + 42);
+    const name = archive.toString(
+      'utf8',
+      position + 46,
+      position + 46 + nameLength,
+    );
+
+    const dataStart = offset + 30 + archive.readUInt16LE(offset + 26);
+    const data = inflateRawSync(
+      archive.subarray(dataStart, dataStart + compressedSize),
+    );
+    if (data.length !== size || crc32(data) !== checksum) {
+      throw new Error(`Corrupt zip entry ${name}`);
+    }
+    files[name] = data.toString('utf8');
+    position += 46 + nameLength;
+  }
+  return files;
+}
+
+/** Joins the chunks of a streamed response */
+export async function collect(
+  chunks: AsyncIterable<string | Buffer>,
+): Promise<Buffer> {
+  const buffers: Buffer[] = [];
+  for await (const chunk of chunks) {
+    buffers.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(buffers);
+}
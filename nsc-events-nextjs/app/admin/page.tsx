@@ -4,6 +4,10 @@ import { Box, Button, Container, Grid, Typography, useMediaQuery, useTheme } fro
 import { FC } from "react";
 import UnauthorizedPageMessage from "@/components/UnauthorizedPageMessage";
 import useAuth from "@/hooks/useAuth";
+import ModerationQueue from "@/components/ModerationQueue";
+import TagManager from "@/components/TagManager";
+import VenueManager from "@/components/VenueManager";
+import RoomSchedule from "@/components/RoomSchedule";
 
 const Admin = () => {
     const { isAuth, user } = useAuth();
@@ -41,8 +45,8 @@ const Admin = () => {
                     display="flex"
                     justifyContent="center"
                     alignContent="center"
-                    height="60vh"
                     flexDirection="column"
+                    paddingY={"2rem"}
                 >
                     <Grid container spacing={2} justifyContent="center" alignItems="center">
                         <Grid
@@ -79,10 +83,44 @@ const Admin = () => {
                             item
                             xs={12}
                             sm="auto">
-                            <AdminButton path={'/my-created-events'} text={"View My Created Events (figma page)"} />
+                            <AdminButton path={'/my-created-events'} text={"View My Created Events"} />
+                        </Grid>
+                        <Grid
+                            item
+                            xs={12}
+                            sm="auto">
+                            <AdminButton path={'/import-events'} text={"Import Events"} />
                         </Grid>
                     </Grid>
                 </Box>
+                <Box maxWidth="md" marginX="auto" paddingBottom={"2rem"}>
+                    <Typography
+                        fontSize={isMobile ? "1.5rem" : "1.75rem"}
+                        marginBottom={"1rem"}
+                    >Events Awaiting Review</Typography>
+                    <ModerationQueue />
+                </Box>
+                <Box maxWidth="md" marginX="auto" paddingBottom={"2rem"}>
+                    <Typography
+                        fontSize={isMobile ? "1.5rem" : "1.75rem"}
+                        marginBottom={"1rem"}
+                    >Event Tags</Typography>
+                    <TagManager />
+                </Box>
+                <Box maxWidth="md" marginX="auto" paddingBottom={"2rem"}>
+                    <Typography
+                        fontSize={isMobile ? "1.5rem" : "1.75rem"}
+                        marginBottom={"1rem"}
+                    >Venues and Rooms</Typography>
+                    <VenueManager />
+                </Box>
+                <Box maxWidth="md" marginX="auto" paddingBottom={"2rem"}>
+                    <Typography
+                        fontSize={isMobile ? "1.5rem" : "1.75rem"}
+                        marginBottom={"1rem"}
+                    >Room Schedule</Typography>
+                    <RoomSchedule />
+                </Box>
             </Container>
         );
     } else {
@@ -30,16 +30,20 @@ import SearchIcon from '@mui/icons-material/Search';
 import ClearIcon from '@mui/icons-material/Clear';
 import React, { useEffect, useState, useCallback } from "react";
 import UnauthorizedPageMessage from "../../components/UnauthorizedPageMessage";
-import { ActivityDatabase } from "@/models/activityDatabase";
+import { ActivityDatabase, ActivitySearchResult } from "@/models/activityDatabase";
+import { PaginatedResponse } from "@/types/paginated";
+import HighlightedText from "@/components/HighlightedText";
 import EventCard from "../../components/EventCard";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import ArchiveDialog from "@/components/ArchiveDialog";
+import ExportMenu from "@/components/ExportMenu";
 
 const ArchivedEvents = () => {
     const { isAuth, user } = useAuth();
     const router = useRouter();
-    const [events, setEvents] = useState<ActivityDatabase[]>([]);
+    // search results also carry highlighted snippets showing why they matched
+    const [events, setEvents] = useState<ActivitySearchResult[]>([]);
     const [loading, setLoading] = useState(false);
     const [page, setPage] = useState(1);
     const [totalPages, setTotalPages] = useState(1);
@@ -108,7 +112,8 @@ const ArchivedEvents = () => {
             }
 
             const response = await fetch(`${url}?${params.toString()}`);
-            const data = await response.json();
+            const result: PaginatedResponse<ActivitySearchResult> = await response.json();
+            const data = result.data ?? [];
 
             if (isMobile) {
                 // Infinite scroll for mobile
@@ -117,16 +122,11 @@ const ArchivedEvents = () => {
                 } else {
                     setEvents(prev => [...prev, ...data]);
                 }
-                setHasMore(data.length === EVENTS_PER_PAGE);
+                setHasMore(page < result.totalPages);
             } else {
                 // Pagination for desktop
                 setEvents(data);
-                // Calculate total pages (this is approximate since we don't have total count)
-                if (data.length < EVENTS_PER_PAGE) {
-                    setTotalPages(page);
-                } else {
-                    setTotalPages(page + 1);
-                }
+                setTotalPages(Math.max(result.totalPages, 1));
             }
         } catch (error) {
             console.error('Error fetching archived events:', error);
@@ -184,6 +184,21 @@ const ArchivedEvents = () => {
 
     const hasActiveFilters = searchQuery || locationFilter || hostFilter || startDateFilter || endDateFilter;
 
+    // The export takes the list filters; search text only narrows what's shown here
+    const exportParams: Record<string, string> = { isArchived: 'true' };
+    if (locationFilter) {
+        exportParams.location = locationFilter;
+    }
+    if (hostFilter) {
+        exportParams.host = hostFilter;
+    }
+    if (startDateFilter) {
+        exportParams.startDate = startDateFilter;
+    }
+    if (endDateFilter) {
+        exportParams.endDate = endDateFilter;
+    }
+
     if (!isAuth || (user?.role !== 'admin' && user?.role !== 'creator')) {
         return <UnauthorizedPageMessage />;
     }
@@ -234,6 +249,7 @@ const ArchivedEvents = () => {
                             Clear Filters
                         </Button>
                     )}
+                    <ExportMenu path="/export/events" params={exportParams} />
                 </Stack>
 
                 {/* Events List */}
@@ -253,6 +269,11 @@ const ArchivedEvents = () => {
                                 >
                                     <EventCard event={event} />
                                 </Link>
+                                {event.highlights?.eventDescription && (
+                                    <Typography variant="body2" color="text.secondary" mt={1} maxWidth={345}>
+                                        <HighlightedText snippet={event.highlights.eventDescription} />
+                                    </Typography>
+                                )}
                             </Grid>
                         ))}
                         {events.length === 0 && !loading && (
@@ -347,13 +368,14 @@ const ArchivedEvents = () => {
                             InputLabelProps={{ shrink: true }}
                         />
                     </Grid>
-                    {hasActiveFilters && (
-                        <Grid item xs={12}>
+                    <Grid item xs={12} display="flex" gap={2}>
+                        {hasActiveFilters && (
                             <Button variant="outlined" onClick={clearFilters} startIcon={<ClearIcon />}>
                                 Clear All Filters
                             </Button>
-                        </Grid>
-                    )}
+                        )}
+                        <ExportMenu path="/export/events" params={exportParams} />
+                    </Grid>
                 </Grid>
             </Paper>
 
@@ -400,7 +422,16 @@ const ArchivedEvents = () => {
                                 ) : (
                                     events.map((event) => (
                                         <TableRow key={event.id} hover>
-                                            <TableCell>{event.eventTitle}</TableCell>
+                                            <TableCell>
+                                                {event.highlights ? (
+                                                    <>
+                                                        <HighlightedText snippet={event.highlights.eventTitle} />
+                                                        <Typography variant="body2" color="text.secondary">
+                                                            <HighlightedText snippet={event.highlights.eventDescription} />
+                                                        </Typography>
+                                                    </>
+                                                ) : event.eventTitle}
+                                            </TableCell>
                                             <TableCell>
                                                 {new Date(event.startDate).toLocaleDateString()}
                                             </TableCell>
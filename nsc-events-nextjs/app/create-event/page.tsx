@@ -3,6 +3,14 @@ import TagSelector from "@/components/TagSelector";
 import { activity } from "@/models/activity";
 import { useEventForm } from "@/hooks/useEventForm";
 import ImagePicker from "@/components/ImagePicker";
+import VenuePicker from "@/components/VenuePicker";
+import RoomConflictAlert from "@/components/RoomConflictAlert";
+import RecurrencePicker from "@/components/RecurrencePicker";
+import PublicationPicker from "@/components/PublicationPicker";
+import TimeZonePicker from "@/components/TimeZonePicker";
+import TemplatePicker from "@/components/TemplatePicker";
+import AgendaEditor from "@/components/AgendaEditor";
+import SpeakerPicker from "@/components/SpeakerPicker";
 import {
   LocalizationProvider,
   TimePicker,
@@ -14,6 +22,8 @@ import { format, parse } from "date-fns";
 import {
   Box,
   Button,
+  Checkbox,
+  FormControlLabel,
   Typography,
   Stack,
   useTheme,
@@ -22,18 +32,21 @@ import {
 } from "@mui/material";
 import AddPhotoAlternateIcon from '@mui/icons-material/AddPhotoAlternate';
 import { textFieldStyle } from "@/components/InputFields";
-import { MouseEvent, ChangeEvent, useState, FormEvent } from "react";
+import { FormEvent } from "react";
 import useAuth from "@/hooks/useAuth";
 import UnauthorizedPageMessage from "@/components/UnauthorizedPageMessage";
-import { EventTags } from "@/utility/tags";
 import { useThemeContext } from "../theme/providers";
 
 const CreateEvent: React.FC = () => {
   const {
     eventData,
     handleInputChange,
+    handleLocationChange,
     handleSocialMediaChange,
+    setUnlimitedCapacity,
+    applyTemplate,
     handleTagClick,
+    handleSpeakersChange,
     handleSubmit,
     errors,
     selectedDate,
@@ -42,13 +55,25 @@ const CreateEvent: React.FC = () => {
     handleStartTimeChange,
     endTime,
     handleEndTimeChange,
+    timeZone,
+    handleTimeZoneChange,
     timeError,
     successMessage,
+    roomConflict,
+    bookRoomAnyway,
     selectedCoverImage,
     setSelectedCoverImage,
     coverImagePreview,
     setCoverImagePreview,
     coverImageError,
+    recurrence,
+    setRecurrence,
+    publicationStatus,
+    setPublicationStatus,
+    publishAt,
+    setPublishAt,
+    sessions,
+    setSessions,
   } = useEventForm(activity);
 
   // Get the current theme mode for current page
@@ -82,24 +107,6 @@ const CreateEvent: React.FC = () => {
     handleEndTimeChange(timeStr);
   };
 
-  // For holding useState of event tags and adding custom tags
-  const [customTags, setCustomTags] = useState<string[]>([]);
-  const [newTag, setNewTag] = useState("");
-
-  const addCustomTag = (e: MouseEvent<HTMLButtonElement>) => {
-    const normalizedNewTag = newTag.toLowerCase();
-    e.preventDefault();
-    if (newTag && !customTags.includes(normalizedNewTag)) {
-      setCustomTags([...customTags, normalizedNewTag]);
-      handleTagClick(normalizedNewTag);
-      setNewTag("");
-    }
-  };
-
-  const handleNewTagChange = (e: ChangeEvent<HTMLInputElement>) => {
-    setNewTag(e.target.value);
-  };
-
   const { isAuth, user } = useAuth();
 
   if (isAuth && (user?.role === "admin" || user?.role === "creator")) {
@@ -147,6 +154,13 @@ const CreateEvent: React.FC = () => {
                 REQUIRED FIELDS*
               </Typography>
             </Box>
+            <Paper sx={{ padding: 2 }}>
+              <TemplatePicker
+                fields={eventData}
+                onApply={applyTemplate}
+                isAdmin={user?.role === "admin"}
+              />
+            </Paper>
             {/* start of row 1 */}
             <Box
               sx={{
@@ -307,10 +321,36 @@ const CreateEvent: React.FC = () => {
                       renderInput={(params) => <TextField {...params} />}
                     />
                   </Box>
+                  <Box sx={{
+                    backgroundColor: mode === "light" ? "white" : "#f5f1f11a",
+                  }}>
+                    <TimeZonePicker value={timeZone} onChange={handleTimeZoneChange} />
+                  </Box>
                   {/* Time Error Message */}
                   {timeError && (
                     <div className="text-red-500 text-sm mt-2">{timeError}</div>
                   )}
+                  <Box sx={{
+                    backgroundColor: mode === "light" ? "white" : "#f5f1f11a",
+                  }}>
+                    <RecurrencePicker
+                      value={recurrence}
+                      onChange={setRecurrence}
+                      minDate={selectedDate}
+                      error={errors.recurrence}
+                    />
+                  </Box>
+                  <Box sx={{
+                    backgroundColor: mode === "light" ? "white" : "#f5f1f11a",
+                  }}>
+                    <PublicationPicker
+                      status={publicationStatus}
+                      publishAt={publishAt}
+                      onStatusChange={setPublicationStatus}
+                      onPublishAtChange={setPublishAt}
+                      error={errors.publishAt}
+                    />
+                  </Box>
                 </Stack>
               </Box>{" "}
               {/* end of box 2 row 1 */}
@@ -399,17 +439,27 @@ const CreateEvent: React.FC = () => {
                     label="Event Capacity *"
                     variant="outlined"
                     name="eventCapacity"
-                    value={eventData.eventCapacity}
+                    value={eventData.eventCapacity ?? ""}
                     onChange={handleInputChange}
+                    disabled={eventData.eventCapacity === null}
                     error={!!errors.eventCapacity}
                     helperText={errors.eventCapacity}
                     InputProps={{ style: textFieldStyle.input }}
                     InputLabelProps={{ style: textFieldStyle.label }}
-                    placeholder="Enter the capacity of the event"
+                    placeholder={eventData.eventCapacity === null ? "Unlimited" : "Enter the capacity of the event"}
                     sx={{
                       backgroundColor: mode === "light" ? "white" : "#f5f1f11a",
                     }}
                   />
+                  <FormControlLabel
+                    control={
+                      <Checkbox
+                        checked={eventData.eventCapacity === null}
+                        onChange={(e) => setUnlimitedCapacity(e.target.checked)}
+                      />
+                    }
+                    label="Unlimited capacity"
+                  />
 
                   <TextField
                     id="event-meeting-url"
@@ -427,13 +477,11 @@ const CreateEvent: React.FC = () => {
                     }}
                   />
 
-                  <TextField
-                    id="event-location"
+                  <VenuePicker
                     label="Event Location *"
-                    variant="outlined"
-                    name="eventLocation"
-                    value={eventData.eventLocation}
-                    onChange={handleInputChange}
+                    roomId={eventData.roomId}
+                    location={eventData.eventLocation}
+                    onChange={handleLocationChange}
                     error={!!errors.eventLocation}
                     helperText={errors.eventLocation}
                     InputProps={{ style: textFieldStyle.input }}
@@ -443,6 +491,43 @@ const CreateEvent: React.FC = () => {
                       backgroundColor: mode === "light" ? "white" : "#f5f1f11a",
                     }}
                   />
+                  {/* time the room is held around the event, checked for double bookings */}
+                  {eventData.roomId && (
+                    <Stack direction="row" spacing={2}>
+                      <TextField
+                        id="event-setup-minutes"
+                        label="Setup (minutes)"
+                        variant="outlined"
+                        type="number"
+                        name="setupMinutes"
+                        value={eventData.setupMinutes ?? ""}
+                        onChange={handleInputChange}
+                        InputProps={{ style: textFieldStyle.input }}
+                        InputLabelProps={{ style: textFieldStyle.label }}
+                        inputProps={{ min: 0, max: 720 }}
+                        sx={{
+                          flex: 1,
+                          backgroundColor: mode === "light" ? "white" : "#f5f1f11a",
+                        }}
+                      />
+                      <TextField
+                        id="event-teardown-minutes"
+                        label="Teardown (minutes)"
+                        variant="outlined"
+                        type="number"
+                        name="teardownMinutes"
+                        value={eventData.teardownMinutes ?? ""}
+                        onChange={handleInputChange}
+                        InputProps={{ style: textFieldStyle.input }}
+                        InputLabelProps={{ style: textFieldStyle.label }}
+                        inputProps={{ min: 0, max: 720 }}
+                        sx={{
+                          flex: 1,
+                          backgroundColor: mode === "light" ? "white" : "#f5f1f11a",
+                        }}
+                      />
+                    </Stack>
+                  )}
                 </Stack>
               </Box>{" "}
               {/* End of box 3 row 1*/}
@@ -457,49 +542,18 @@ const CreateEvent: React.FC = () => {
                 borderRadius: 1,
               }}
             >
+              <Typography variant="body1" sx={{ color: "white" }}>
+                Event Tags *
+              </Typography>
               <TagSelector
                 selectedTags={eventData.eventTags}
-                allTags={[...EventTags, ...customTags]}
                 onTagClick={handleTagClick}
               />
-
-              <Box sx={{ backgroundColor: "none", padding: 2 }}>
-                <TextField
-                  id="add-custom-tag"
-                  label="Add Tag *"
-                  variant="outlined"
-                  name="addedTag"
-                  value={newTag}
-                  onChange={handleNewTagChange}
-                  // Need to figure out what can go in the following values,
-                  // I commented out from other text-fields
-                  error={!!errors.eventTags}
-                  helperText={errors.eventTags}
-                  InputProps={{ style: textFieldStyle.input }}
-                  InputLabelProps={{ style: textFieldStyle.label }}
-                  placeholder="Enter the tag of the event"
-                  sx={{
-                    backgroundColor: mode === "light" ? "white" : "black",
-                    borderRadius: 1,
-                  }} // change border radius as needed
-                />
-
-                <Button
-                  type="button"
-                  variant="contained"
-                  color="primary"
-                  onClick={addCustomTag}
-                  style={{ textTransform: "none", margin: 10 }}
-                  sx={{
-                    "&:hover": {
-                      backgroundColor: "#114FA2",
-                      color: "white",
-                    },
-                  }}
-                >
-                  Add Tag
-                </Button>
-              </Box>
+              {errors.eventTags && (
+                <Typography variant="body2" color="error" sx={{ mt: 1 }}>
+                  {errors.eventTags}
+                </Typography>
+              )}
             </Box>
             {/* end of tag selection section */}
             {/* Start of row 2 */}
@@ -525,35 +579,21 @@ const CreateEvent: React.FC = () => {
                 }}
               >
                 <Stack sx={{ width: "100%", padding: 5 }} spacing={2}>
-                  <TextField
-                    id="event-schedule"
-                    label="Event Schedule"
-                    variant="outlined"
-                    name="eventSchedule"
-                    value={eventData.eventSchedule}
-                    onChange={handleInputChange}
-                    // error={!!errors.eventSchedule}
-                    // helperText={errors.eventSchedule}
-                    InputProps={{ style: textFieldStyle.input }}
-                    InputLabelProps={{ style: textFieldStyle.label }}
-                    placeholder="Enter the schedule of the event"
-                    sx={{
-                      backgroundColor: mode === "light" ? "white" : "#f5f1f11a",
-                    }}
+                  <AgendaEditor
+                    value={sessions}
+                    onChange={setSessions}
+                    eventStartTime={startTime}
+                    error={errors.agenda}
+                    helperText="Sessions must fall within the event. A repeating event gets its agenda on the first date."
                   />
 
-                  <TextField
+                  <SpeakerPicker
                     id="event-speakers"
                     label="Event Speakers"
-                    variant="outlined"
-                    name="eventSpeakers"
                     value={eventData.eventSpeakers}
-                    onChange={handleInputChange}
-                    // error={!!errors.eventSpeakers}
-                    // helperText={errors.eventSpeakers}
+                    onChange={handleSpeakersChange}
                     InputProps={{ style: textFieldStyle.input }}
                     InputLabelProps={{ style: textFieldStyle.label }}
-                    placeholder="Enter the speaker(s) of the event"
                     sx={{
                       backgroundColor: mode === "light" ? "white" : "#f5f1f11a",
                     }}
@@ -782,10 +822,15 @@ const CreateEvent: React.FC = () => {
                   },
                 }}
               >
-                Create Event
+                {publicationStatus === "draft"
+                  ? "Save Draft"
+                  : publicationStatus === "scheduled"
+                    ? "Schedule Event"
+                    : "Create Event"}
               </Button>
             </Box>
           </Stack>
+          <RoomConflictAlert conflict={roomConflict} onOverride={bookRoomAnyway} />
           {/* Success/Error message upon button click */}
           {successMessage && (
             <Typography color="green" sx={{ mb: 2 }}>
@@ -74,7 +74,13 @@ const Creator = () => {
                             item
                             xs={12}
                             sm="auto">
-                            <CreatorButton path={'/my-created-events'} text={"View My Created Events (figma page)"} />
+                            <CreatorButton path={'/my-created-events'} text={"View My Created Events"} />
+                        </Grid>
+                        <Grid
+                            item
+                            xs={12}
+                            sm="auto">
+                            <CreatorButton path={'/import-events'} text={"Import Events"} />
                         </Grid>
                     </Grid>
                 </Box>
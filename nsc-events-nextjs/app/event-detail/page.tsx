@@ -6,12 +6,12 @@ import {
   Typography,
   Card,
   CardContent,
-  CardMedia,
   Box,
   Button,
   SnackbarContent,
   useMediaQuery,
   Grid,
+  Alert,
 } from "@mui/material";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { ActivityDatabase } from "@/models/activityDatabase";
@@ -21,6 +21,11 @@ import AddPhotoAlternateIcon from '@mui/icons-material/AddPhotoAlternate';
 import DeleteIcon from "@mui/icons-material/Delete";
 import ArchiveIcon from "@mui/icons-material/Archive";
 import UnarchiveIcon from '@mui/icons-material/Unarchive';
+import PublishIcon from "@mui/icons-material/Publish";
+import EditNoteIcon from "@mui/icons-material/EditNote";
+import GroupIcon from "@mui/icons-material/Group";
+import HistoryIcon from "@mui/icons-material/History";
+import ContentCopyIcon from "@mui/icons-material/ContentCopy";
 import Dialog from "@mui/material/Dialog";
 import DialogTitle from "@mui/material/DialogTitle";
 import DialogContent from "@mui/material/DialogContent";
@@ -30,14 +35,28 @@ import { useRouter, useSearchParams } from "next/navigation";
 import AttendDialog from "@/components/AttendDialog";
 import ArchiveDialog from "@/components/ArchiveDialog";
 import EditDialog from "@/components/EditDialog";
-import { formatDate, formatTimeWithTimezone } from "@/utility/dateUtils";
+import { formatDate, formatTimeWithTimezone, formatViewerTime } from "@/utility/dateUtils";
+import { DEFAULT_TIME_ZONE, getTimeZoneLabel } from "@/utility/timeZones";
 import ViewMoreDetailsDialog from "@/components/ViewMoreDetailsDialog";
 import ArrowLeftIcon from '@mui/icons-material/ArrowLeft';
 import ArrowRightIcon from '@mui/icons-material/ArrowRight';
 import { useTheme } from "@mui/material";
-import { useArchivedEvents, useEventById, useFilteredEvents, useIsAttending, useMyEvents } from "@/utility/queries";
+import { useArchivedEvents, useEventById, useFilteredEvents, useMyCollaboration, useMyEvents, useRegistrationStatus } from "@/utility/queries";
 import { getCurrentUserId } from "@/utility/userUtils";
 import CoverPhotoDialog from "@/components/CoverPhotoDialog";
+import CoverImage from "@/components/CoverImage";
+import { currentVariants } from "@/utility/coverImage";
+import CollaboratorsDialog from "@/components/CollaboratorsDialog";
+import RevisionHistoryDialog from "@/components/RevisionHistoryDialog";
+import DeletedEventSnackbar from "@/components/DeletedEventSnackbar";
+import { getEventPermissions } from "@/utility/eventPermissions";
+import { collaboratorRoleLabels } from "@/types/collaborator";
+import RecurrenceScopeSelector from "@/components/RecurrenceScopeSelector";
+import AddToCalendarMenu from "@/components/AddToCalendarMenu";
+import EventAttachments from "@/components/EventAttachments";
+import AgendaTimeline from "@/components/AgendaTimeline";
+import EventSpeakers from "@/components/EventSpeakers";
+import { RecurrenceScope } from "@/models/activity";
 
 interface SearchParams {
   searchParams: {
@@ -59,6 +78,9 @@ const EventDetail = () => {
   const [isAuthed, setAuthed] = useState(false);
   const [token, setToken] = useState("");
   const [dialogOpen, setDialogOpen] = useState(false);
+  const [deleteScope, setDeleteScope] = useState<RecurrenceScope>("occurrence");
+  // Set after a delete while the user can still undo it
+  const [deletedEventId, setDeletedEventId] = useState<string | null>(null);
   const [unregisterDialogOpen, setUnregisterDialogOpen] = useState(false);
   const [archiveDialogOpen, setArchiveDialogOpen] = useState(false);
   const [snackbarMessage, setSnackbarMessage] = useState("");
@@ -66,6 +88,8 @@ const EventDetail = () => {
   const [attendDialogOpen, setAttendDialogOpen] = useState(false);
   const [moreDetailsDialogOpen, setMoreDetailsDialogOpen] = useState(false);
   const [coverPhotoDialogOpen, setCoverPhotoDialogOpen] = useState(false);
+  const [collaboratorsDialogOpen, setCollaboratorsDialogOpen] = useState(false);
+  const [historyDialogOpen, setHistoryDialogOpen] = useState(false);
   const [userId, setUserId] = useState("");
   const [userRole, setUserRole] = useState("");
 
@@ -94,7 +118,11 @@ const EventDetail = () => {
   const { data: archivedEvents } = useArchivedEvents(page, prevPage === "archived")
   const { data: myEvents } = useMyEvents(getCurrentUserId(), page, prevPage === "mine")
   const { data } = useEventById(id);
-  const { data: isAttending } = useIsAttending(event?.id, userId);
+  const { data: registrationStatus, refetch: refetchRegistrationStatus } = useRegistrationStatus(event?.id, userId);
+  const isWaitlisted = !!registrationStatus?.isWaitlisted;
+  const { data: myCollaboration, refetch: refetchMyCollaboration } = useMyCollaboration(event?.id, !!token);
+  const permissions = getEventPermissions(userRole, userId, event?.createdByUserId, myCollaboration);
+  const { canCheckIn } = permissions;
 
   const DeleteDialog = () => {
     return (
@@ -109,8 +137,12 @@ const EventDetail = () => {
           <DialogTitle>{"Delete Event?"}</DialogTitle>
           <DialogContent>
             <DialogContentText id="alert-dialog-description">
-              Are you sure you want to delete this event?
+              Are you sure you want to delete this event? It will be moved to the trash, and you can
+              undo the delete right after or restore it from the trash later.
             </DialogContentText>
+            {event?.seriesId && (
+              <RecurrenceScopeSelector value={deleteScope} onChange={setDeleteScope} />
+            )}
           </DialogContent>
           <DialogActions>
             <Button
@@ -146,10 +178,12 @@ const EventDetail = () => {
         }}
         autoFocus
       >
-        <DialogTitle>{"Unregister from Event?"}</DialogTitle>
+        <DialogTitle>{isWaitlisted ? "Leave Waitlist?" : "Unregister from Event?"}</DialogTitle>
         <DialogContent>
           <DialogContentText id="unregister-dialog-description">
-            Are you sure you want to unregister from this event?
+            {isWaitlisted
+              ? "Are you sure you want to leave the waitlist for this event?"
+              : "Are you sure you want to unregister from this event?"}
           </DialogContentText>
         </DialogContent>
         <DialogActions>
@@ -181,7 +215,8 @@ const EventDetail = () => {
   const deleteEvent = async (id: string) => {
     try {
       const apiUrl = process.env.NSC_EVENTS_PUBLIC_API_URL;
-      const response = await fetch(`${apiUrl}/events/remove/${id}`, {
+      const params = new URLSearchParams({ scope: deleteScope });
+      const response = await fetch(`${apiUrl}/events/remove/${id}?${params.toString()}`, {
         method: 'DELETE',
         headers: {
           "Content-Type": "application/json",
@@ -191,7 +226,6 @@ const EventDetail = () => {
       if (!response.ok) {
         throw new Error(`Failed to delete event: ${response.statusText}`);
       }
-      return response.json();
     } catch (error) {
       console.error("error: ", error);
       throw error;
@@ -200,22 +234,112 @@ const EventDetail = () => {
 
   const { mutate: deleteEventMutation } = useMutation({
     mutationFn: deleteEvent,
-    onSuccess: async () => {
+    // Stays on the event until the undo snackbar goes away
+    onSuccess: async (_data, deletedId) => {
+      setDeletedEventId(deletedId);
       await queryClient.refetchQueries({ queryKey: ['events', 'myEvents', 'archivedEvents'] });
-      setSnackbarMessage("Successfully deleted event.");
-      setTimeout(() => {
-        router.refresh();
-        router.push('/')
-      }, 1200);
     },
-    onError: (error) => {
-      console.log("Error deleting event, but continuing anyway:", error);
-      // Still navigate away since the delete might have succeeded despite the error
-      setSnackbarMessage("Successfully deleted event.");
-      setTimeout(() => {
-        router.refresh();
-        router.push('/')
-      }, 1200);
+    onError: () => {
+      setSnackbarMessage("Failed to delete event.");
+    },
+  });
+
+  const leaveDeletedEvent = () => {
+    setDeletedEventId(null);
+    router.refresh();
+    router.push('/');
+  };
+
+  const undoDelete = async () => {
+    setDeletedEventId(null);
+    setSnackbarMessage("Event restored.");
+    await queryClient.refetchQueries({ queryKey: ['events', 'myEvents', 'archivedEvents'] });
+  };
+
+  // Publishes a draft or scheduled event now, or moves a live event back to drafts
+  const togglePublication = async (publish: boolean) => {
+    const apiUrl = process.env.NSC_EVENTS_PUBLIC_API_URL;
+    const endpoint = publish ? "publish" : "unpublish";
+    const response = await fetch(`${apiUrl}/events/${endpoint}/${id}`, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to ${endpoint} event: ${response.statusText}`);
+    }
+    return response.json() as Promise<ActivityDatabase>;
+  };
+
+  const { mutate: togglePublicationMutation } = useMutation({
+    mutationFn: togglePublication,
+    onSuccess: async (updated, publish) => {
+      setEvent((prev) => (prev ? { ...prev, ...updated } : prev));
+      setSnackbarMessage(publish ? "Event published." : "Event moved to drafts.");
+      await queryClient.refetchQueries({ queryKey: ['events', 'myEvents', 'myDrafts'] });
+    },
+    onError: (error: Error, publish) => {
+      console.error("error: ", error);
+      setSnackbarMessage(publish ? "Failed to publish event." : "Failed to move event to drafts.");
+    },
+  });
+
+  // Copies the event into a new draft owned by the signed-in user
+  const cloneEvent = async () => {
+    const apiUrl = process.env.NSC_EVENTS_PUBLIC_API_URL;
+    const response = await fetch(`${apiUrl}/events/${id}/clone`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to duplicate event: ${response.statusText}`);
+    }
+    return response.json() as Promise<ActivityDatabase>;
+  };
+
+  const { mutate: cloneEventMutation, isPending: isCloning } = useMutation({
+    mutationFn: cloneEvent,
+    onSuccess: async (copy) => {
+      setSnackbarMessage("Draft copy created.");
+      await queryClient.refetchQueries({ queryKey: ['myDrafts'] });
+      router.push(`/event-detail?id=${copy.id}`);
+    },
+    onError: (error: Error) => {
+      console.error("error: ", error);
+      setSnackbarMessage("Failed to duplicate event.");
+    },
+  });
+
+  // Accepts or declines an invitation to help run the event
+  const respondToInvitation = async (accept: boolean) => {
+    const apiUrl = process.env.NSC_EVENTS_PUBLIC_API_URL;
+    const path = accept ? "accept" : userId;
+    const response = await fetch(`${apiUrl}/events/${event?.id}/collaborators/${path}`, {
+      method: accept ? "PUT" : "DELETE",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to respond to invitation: ${response.statusText}`);
+    }
+  };
+
+  const { mutate: respondToInvitationMutation } = useMutation({
+    mutationFn: respondToInvitation,
+    onSuccess: async (_data, accept) => {
+      setSnackbarMessage(accept ? "You are now helping run this event." : "Invitation declined.");
+      await refetchMyCollaboration();
+    },
+    onError: (error: Error) => {
+      console.error("error: ", error);
+      setSnackbarMessage("Failed to respond to invitation.");
     },
   });
 
@@ -235,13 +359,13 @@ const EventDetail = () => {
   useEffect(() => {
     switch (prevPage) {
       case "home":
-        setUsedData(filteredEvents);
+        setUsedData(filteredEvents?.data);
         break;
       case "archived":
-        setUsedData(archivedEvents);
+        setUsedData(archivedEvents?.data);
         break;
       case "mine":
-        setUsedData(myEvents)
+        setUsedData(myEvents?.data)
         break;
     }
     if (usedData) {
@@ -255,12 +379,12 @@ const EventDetail = () => {
     }
   }, [archivedEvents, filteredEvents, myEvents, page, prevPage, queryClient, usedData]);
 
-  // check if the user is registered for the event and set the state accordingly
+  // check if the user is registered (or waitlisted) for the event and set the state accordingly
   useEffect(() => {
-    if (typeof isAttending === "boolean") {
-      setIsRegistered(isAttending);
+    if (registrationStatus) {
+      setIsRegistered(registrationStatus.isRegistered || registrationStatus.isWaitlisted);
     }
-  }, [isAttending]);
+  }, [registrationStatus]);
 
   useEffect(() => {
     if (eventIds) {
@@ -302,17 +426,14 @@ const EventDetail = () => {
       setAnonymousCount(data.anonymousCount);
 
       // Only set full attendee details if user has permission
-      if (
-        userRole === "admin" ||
-        (userRole === "creator" && event?.createdByUserId === userId)
-      ) {
+      if (canCheckIn) {
         setAttendeeNames(data.attendeeNames || []);
         setAttendees(data.attendees || []);
       }
     } catch (err) {
       console.error("Failed to fetch attendee data", err);
     }
-  }, [event?.id, event?.createdByUserId, token, userId, userRole]);
+  }, [event?.id, token, canCheckIn]);
 
   useEffect(() => {
     fetchAttendeeData();
@@ -395,8 +516,10 @@ const EventDetail = () => {
     mutationFn: unattendEvent,
     onSuccess: async () => {
       await queryClient.refetchQueries({ queryKey: ['events', 'myEvents', 'archivedEvents'] });
-      setAttendeeCount(prev => prev === null ? 0 : Math.max(prev - 1, 0)); // Update attendee count, or set to 0 if null, and ensure it doesn't go below 0
-      setSnackbarMessage("Successfully unregistered from event.");
+      // leaving may promote someone off the waitlist, so refetch rather than decrement
+      fetchAttendeeData();
+      refetchRegistrationStatus();
+      setSnackbarMessage(isWaitlisted ? "You have left the waitlist." : "Successfully unregistered from event.");
       setIsRegistered(false);      
     },
     onError: () => {
@@ -418,6 +541,11 @@ const EventDetail = () => {
     return <div>Loading...</div>;
   }
 
+  // times show in the event's zone, and in the viewer's when it differs
+  const timeZone = event.timeZone || DEFAULT_TIME_ZONE;
+  const viewerStartTime = formatViewerTime(event.startDate, timeZone);
+  const viewerEndTime = formatViewerTime(event.endDate, timeZone);
+
   return (
     <>
       <Box style={{ display: "flex", justifyContent: "center", alignItems: "center", height: "100vh" }}
@@ -432,7 +560,10 @@ const EventDetail = () => {
             left: 0,
             right: 0,
             bottom: 0,
-            backgroundImage: isMobile ? "" : `url(${event.eventCoverPhoto})`,
+            // blurred anyway, so the smallest variant will do
+            backgroundImage: isMobile
+              ? ""
+              : `url(${currentVariants(event)?.thumbnail.jpeg.url ?? event.eventCoverPhoto})`,
             backgroundSize: "cover",
             backgroundPosition: "center",
             filter: "blur(8px)",
@@ -469,15 +600,34 @@ const EventDetail = () => {
             }}
           >
             
+            {myCollaboration?.status === "invited" && (
+              <Alert
+                severity="info"
+                sx={{ width: isMobile ? "41vh" : "50vh", mt: isMobile ? 5 : "", mb: 2 }}
+                action={
+                  <>
+                    <Button color="inherit" size="small" onClick={() => respondToInvitationMutation(true)}>
+                      Accept
+                    </Button>
+                    <Button color="inherit" size="small" onClick={() => respondToInvitationMutation(false)}>
+                      Decline
+                    </Button>
+                  </>
+                }
+              >
+                You have been invited to help run this event as{" "}
+                {collaboratorRoleLabels[myCollaboration.role].toLowerCase()}.
+              </Alert>
+            )}
             <Card sx={{ width: isMobile ? "41vh" : "50vh", maxHeight: '100vh', overflowY: 'auto', mt: isMobile ? 5 : "", marginBottom: 3 }}>
             <Box sx={{ position: "relative", display: "inline-block", width: "100%" }}>
-                <CardMedia
-                  component="img"
-                  image={event.eventCoverPhoto ? event.eventCoverPhoto : '/images/default_cover_detail_light.png'}
-                  alt={event.eventTitle}
+                <CoverImage
+                  event={event}
+                  fallback="/images/default_cover_detail_light.png"
+                  sizes="(max-width: 600px) 41vh, 50vh"
                   sx={{ height: "37vh", width: "100%", objectFit: "cover" }}
                 />
-                { (userRole === "admin" || (userRole === "creator" && event.createdByUserId === userId)) && 
+                { permissions.canEdit && 
                   <Button
                     variant="contained"
                     color="primary"
@@ -504,27 +654,43 @@ const EventDetail = () => {
                   {event.eventDescription}
                 </Typography>
                 <Typography variant="body2" color="text.secondary">
-                  Date: {formatDate(event.startDate)}
+                  Date: {formatDate(event.startDate, timeZone)}
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  Start Time: {formatTimeWithTimezone(event.startDate, timeZone)}
+                  {viewerStartTime && ` (${viewerStartTime} your time)`}
                 </Typography>
                 <Typography variant="body2" color="text.secondary">
-                  Start Time: {formatTimeWithTimezone(event.startDate)}
+                  End Time: {formatTimeWithTimezone(event.endDate, timeZone)}
+                  {viewerEndTime && ` (${viewerEndTime} your time)`}
                 </Typography>
                 <Typography variant="body2" color="text.secondary">
-                  End Time: {formatTimeWithTimezone(event.endDate)}
+                  Time Zone: {getTimeZoneLabel(timeZone)}
                 </Typography>
                 <Typography variant="body2" color="text.secondary">
                   Location: {event.eventLocation}
                 </Typography>
 
+                <EventSpeakers eventId={event.id} />
+
+                <AgendaTimeline eventId={event.id} timeZone={timeZone} />
+
+                <EventAttachments eventId={event.id} canEdit={permissions.canEdit} />
+
                 {attendeeCount !== null && (
                   <Box sx={{ mb: 2 }}>
                     {/* Attendee count visible to everyone */}
                     <Typography variant="h6" sx={{ mt: 2, fontWeight: "bold" }}>
-                      Attendees ({attendeeCount ?? 0}) {/* fallback to 0 if attendeeCount is null */}
+                      Attendees ({attendeeCount ?? 0}{event?.eventCapacity ? ` / ${event.eventCapacity}` : ""}) {/* fallback to 0 if attendeeCount is null */}
                     </Typography>
+                    {isWaitlisted && registrationStatus?.waitlistPosition && (
+                      <Typography variant="body2">
+                        You are #{registrationStatus.waitlistPosition} on the waitlist
+                      </Typography>
+                    )}
 
-                    {/* View button only visible to admins and event creators */}
-                    {(userRole === "admin" || (userRole === "creator" && event?.createdByUserId === userId)) && (
+                    {/* View button only visible to admins, event creators and their collaborators */}
+                    {canCheckIn && (
                       <>
                         <Button
                           variant="outlined"
@@ -559,8 +725,7 @@ const EventDetail = () => {
                 }}
               >
                 <Grid container spacing={2} justifyContent="center" alignItems="center" >
-                  {(userRole === "admin" ||
-                    (userRole === "creator" && event?.createdByUserId === userId)) && (
+                  {permissions.canEdit && (
                       <>
                         <Grid
                           item
@@ -597,41 +762,140 @@ const EventDetail = () => {
                               width: isMobile ? "120" : "auto",
                               marginBottom: isMobile ? "5px" : "0",
                             }}
-                            onClick={() => setDialogOpen(true)}
-                          >
-                            <DeleteIcon sx={{ marginRight: isMobile ? 0 : "5px" }} />
-                            {!isMobile && !isTablet && "Delete"}
-                          </Button>
-                        </Grid>
-                        <Grid
-                          item
-                          xs={2}
-                          sm="auto">
-                          <Button
-                            variant="contained"
-                            sx={{
-                              color: "white",
-                              backgroundColor: "#2074d4",
-                              padding: "8px 16px",
-                              minWidth: "120px",
-                              width: isMobile ? "120" : "auto",
-                              marginBottom: isMobile ? "5px" : "0",
-                            }}
-                            onClick={toggleArchiveDialog}
+                            onClick={() => setHistoryDialogOpen(true)}
                           >
-                            {!event.isArchived ? (
-                              <>
-                                <ArchiveIcon sx={{ marginRight: isMobile ? 0 : "5px" }} />
-                                {!isMobile && !isTablet && "Archive"}
-                              </>
-                            ) : (
-                              <>
-                                <UnarchiveIcon sx={{ marginRight: isMobile ? 0 : "5px" }} />
-                                {!isMobile && !isTablet && "Unarchive"}
-                              </>
-                            )}
+                            <HistoryIcon sx={{ marginRight: isMobile ? 0 : "5px" }} />
+                            {!isMobile && !isTablet && "History"}
                           </Button>
                         </Grid>
+                        {/* Collaborators with the user role can't own events */}
+                        {userRole !== "user" && (
+                          <Grid
+                            item
+                            xs={2}
+                            sm="auto">
+                            <Button
+                              variant="contained"
+                              sx={{
+                                color: "white",
+                                backgroundColor: "#2074d4",
+                                padding: "8px 16px",
+                                minWidth: "120px",
+                                width: isMobile ? "120" : "auto",
+                                marginBottom: isMobile ? "5px" : "0",
+                              }}
+                              disabled={isCloning}
+                              onClick={() => cloneEventMutation()}
+                            >
+                              <ContentCopyIcon sx={{ marginRight: isMobile ? 0 : "5px" }} />
+                              {!isMobile && !isTablet && "Duplicate"}
+                            </Button>
+                          </Grid>
+                        )}
+                        {permissions.canManage && (
+                          <>
+                            <Grid
+                              item
+                              xs={2}
+                              sm="auto">
+                              <Button
+                                variant="contained"
+                                sx={{
+                                  color: "white",
+                                  backgroundColor: "#2074d4",
+                                  padding: "8px 16px",
+                                  minWidth: "120px",
+                                  width: isMobile ? "120" : "auto",
+                                  marginBottom: isMobile ? "5px" : "0",
+                                }}
+                                onClick={() => setDialogOpen(true)}
+                              >
+                                <DeleteIcon sx={{ marginRight: isMobile ? 0 : "5px" }} />
+                                {!isMobile && !isTablet && "Delete"}
+                              </Button>
+                            </Grid>
+                            <Grid
+                              item
+                              xs={2}
+                              sm="auto">
+                              <Button
+                                variant="contained"
+                                sx={{
+                                  color: "white",
+                                  backgroundColor: "#2074d4",
+                                  padding: "8px 16px",
+                                  minWidth: "120px",
+                                  width: isMobile ? "120" : "auto",
+                                  marginBottom: isMobile ? "5px" : "0",
+                                }}
+                                onClick={toggleArchiveDialog}
+                              >
+                                {!event.isArchived ? (
+                                  <>
+                                    <ArchiveIcon sx={{ marginRight: isMobile ? 0 : "5px" }} />
+                                    {!isMobile && !isTablet && "Archive"}
+                                  </>
+                                ) : (
+                                  <>
+                                    <UnarchiveIcon sx={{ marginRight: isMobile ? 0 : "5px" }} />
+                                    {!isMobile && !isTablet && "Unarchive"}
+                                  </>
+                                )}
+                              </Button>
+                            </Grid>
+                            <Grid
+                              item
+                              xs={2}
+                              sm="auto">
+                              <Button
+                                variant="contained"
+                                sx={{
+                                  color: "white",
+                                  backgroundColor: "#2074d4",
+                                  padding: "8px 16px",
+                                  minWidth: "120px",
+                                  width: isMobile ? "120" : "auto",
+                                  marginBottom: isMobile ? "5px" : "0",
+                                }}
+                                onClick={() => togglePublicationMutation(event.publicationStatus !== "published")}
+                              >
+                                {event.publicationStatus !== "published" ? (
+                                  <>
+                                    <PublishIcon sx={{ marginRight: isMobile ? 0 : "5px" }} />
+                                    {!isMobile && !isTablet && "Publish"}
+                                  </>
+                                ) : (
+                                  <>
+                                    <EditNoteIcon sx={{ marginRight: isMobile ? 0 : "5px" }} />
+                                    {!isMobile && !isTablet && "Move to Drafts"}
+                                  </>
+                                )}
+                              </Button>
+                            </Grid>
+                          </>
+                        )}
+                        {permissions.canManageCollaborators && (
+                          <Grid
+                            item
+                            xs={2}
+                            sm="auto">
+                            <Button
+                              variant="contained"
+                              sx={{
+                                color: "white",
+                                backgroundColor: "#2074d4",
+                                padding: "8px 16px",
+                                minWidth: "120px",
+                                width: isMobile ? "120" : "auto",
+                                marginBottom: isMobile ? "5px" : "0",
+                              }}
+                              onClick={() => setCollaboratorsDialogOpen(true)}
+                            >
+                              <GroupIcon sx={{ marginRight: isMobile ? 0 : "5px" }} />
+                              {!isMobile && !isTablet && "Collaborators"}
+                            </Button>
+                          </Grid>
+                        )}
                       </>
                     )}
                 </Grid>
@@ -657,6 +921,24 @@ const EventDetail = () => {
                     More Details{" "}
                   </Button>
                 </Grid>
+                <Grid
+                  item
+                  xs={12}
+                  sm="auto">
+                  <AddToCalendarMenu
+                    event={event}
+                    token={token || undefined}
+                    onError={setSnackbarMessage}
+                    buttonSx={{
+                      color: "white",
+                      backgroundColor: "#2074d4",
+                      width: isMobile ? "120" : "auto",
+                      padding: "8px 16px",
+                      overflow: "hidden",
+                      marginTop: isMobile ? 1 : 0,
+                    }}
+                  />
+                </Grid>
                 <Grid
                   item
                   xs={12}
@@ -679,7 +961,9 @@ const EventDetail = () => {
                       }
                     }}
                   >
-                    {isRegistered ? "Unregister" : "Attend"}
+                    {isRegistered
+                      ? isWaitlisted ? "Leave Waitlist" : "Unregister"
+                      : registrationStatus?.isFull ? "Join Waitlist" : "Attend"}
                   </Button>
                 </Grid>
               </Box>
@@ -719,9 +1003,11 @@ const EventDetail = () => {
           <AttendDialog
             isOpen={attendDialogOpen}
             eventId={event?.id || ''}
+            isFull={!!registrationStatus?.isFull}
             dialogToggle={toggleAttendDialog}
             onSuccess={() => {
               setIsRegistered(true);
+              refetchRegistrationStatus();
               // Don't rely only on client-side increment, also fetch fresh data
               fetchAttendeeData();
               queryClient.refetchQueries({ queryKey: ['events', 'myEvents', 'archivedEvents'] }); 
@@ -738,7 +1024,23 @@ const EventDetail = () => {
             eventId={event?.id || ''}
             setEvent={setEvent}
           />
+          <CollaboratorsDialog
+            isOpen={collaboratorsDialogOpen}
+            eventId={event?.id || ''}
+            canTransfer={permissions.isOwner}
+            dialogToggle={() => setCollaboratorsDialogOpen((prev) => !prev)}
+          />
+          <RevisionHistoryDialog
+            isOpen={historyDialogOpen}
+            eventId={event?.id || ''}
+            dialogToggle={() => setHistoryDialogOpen((prev) => !prev)}
+          />
           <EditDialog isOpen={editDialogOpen} event={event} toggleEditDialog={toggleEditDialog} />
+          <DeletedEventSnackbar
+            eventId={deletedEventId}
+            onUndone={undoDelete}
+            onDismissed={leaveDeletedEvent}
+          />
           <Snackbar
             open={Boolean(snackbarMessage)}
             onClose={() => {
@@ -0,0 +1,32 @@
+'use client';
+
+import { Container, Paper, Typography, useMediaQuery, useTheme } from "@mui/material";
+import useAuth from "@/hooks/useAuth";
+import UnauthorizedPageMessage from "@/components/UnauthorizedPageMessage";
+import EventImporter from "@/components/EventImporter";
+
+const ImportEvents = () => {
+  const { isAuth, user } = useAuth();
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+
+  if (!isAuth || (user?.role !== 'admin' && user?.role !== 'creator')) {
+    return <UnauthorizedPageMessage />;
+  }
+
+  return (
+    <Container maxWidth="lg" className="bg-solid" sx={{ paddingBottom: "2rem" }}>
+      <Typography
+        fontSize={isMobile ? "1.75rem" : "2.25rem"}
+        textAlign={"center"}
+        padding={"1rem"}
+        marginTop={"1rem"}
+      >Import Events</Typography>
+      <Paper sx={{ padding: isMobile ? 2 : 3 }}>
+        <EventImporter />
+      </Paper>
+    </Container>
+  );
+};
+
+export default ImportEvents;
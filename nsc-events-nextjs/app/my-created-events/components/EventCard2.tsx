@@ -1,12 +1,19 @@
 import React from "react";
-import { Card, CardContent, Typography, Button } from "@mui/material";
+import { Card, CardContent, Typography, Button, Chip } from "@mui/material";
+import Link from "next/link";
 import styles from "./EventCard2.module.css";
+import { ApprovalStatus, PublicationStatus } from "@/models/activity";
 
 interface EventCardProps {
   title: string;
   location: string;
   description: string;
   date: string;
+  href?: string;
+  publicationStatus?: PublicationStatus;
+  publishAt?: string | null;
+  approvalStatus?: ApprovalStatus;
+  rejectionReason?: string | null;
 }
 
 const EventCard: React.FC<EventCardProps> = ({
@@ -14,6 +21,11 @@ const EventCard: React.FC<EventCardProps> = ({
   location,
   description,
   date,
+  href,
+  publicationStatus,
+  publishAt,
+  approvalStatus,
+  rejectionReason,
 }) => {
   const formattedDate = new Date(date).toLocaleDateString("en-US", {
     weekday: "short", // e.g. "Mon"
@@ -22,12 +34,44 @@ const EventCard: React.FC<EventCardProps> = ({
     day: "numeric",
   });
 
+  // published events need no badge; drafts and scheduled events do
+  const statusLabel =
+    publicationStatus === "draft"
+      ? "Draft"
+      : publicationStatus === "scheduled" && publishAt
+        ? `Scheduled for ${new Date(publishAt).toLocaleString("en-US", {
+            dateStyle: "medium",
+            timeStyle: "short",
+          })}`
+        : null;
+
   return (
     <Card className={styles.cardContainer}>
       <CardContent>
         <Typography variant="h6" className={styles.cardTitle}>
           {title}
         </Typography>
+        {statusLabel && (
+          <Chip
+            label={statusLabel}
+            size="small"
+            color={publicationStatus === "draft" ? "default" : "info"}
+            className={styles.cardStatus}
+          />
+        )}
+        {approvalStatus === "pending" && (
+          <Chip label="Pending review" size="small" color="warning" className={styles.cardStatus} />
+        )}
+        {approvalStatus === "rejected" && (
+          <>
+            <Chip label="Not approved" size="small" color="error" className={styles.cardStatus} />
+            {rejectionReason && (
+              <Typography variant="body2" color="error">
+                Reviewer notes: {rejectionReason}
+              </Typography>
+            )}
+          </>
+        )}
         <Typography variant="body2" className={styles.cardLocation}>
           Location: {location}
         </Typography>
@@ -35,12 +79,14 @@ const EventCard: React.FC<EventCardProps> = ({
           Description: {description}
         </Typography>
         <Typography variant="body2" className={styles.cardDescription}>
-          Date: {date.toString()}
+          Date: {formattedDate}
         </Typography>
         <Button
           variant="contained"
           color="primary"
           className={styles.cardButton}
+          component={href ? Link : "button"}
+          href={href}
         >
           View Event
         </Button>
@@ -4,27 +4,30 @@ import React, { useState } from "react";
 import SearchBar from "./components/SearchBar";
 import DateFilter from "./components/DateFilter";
 import EventCard from "./components/EventCard2";
-import { Box, Container } from "@mui/material";
+import ExportMenu from "@/components/ExportMenu";
+import { Box, CircularProgress, Container, Pagination, Tab, Tabs } from "@mui/material";
+import { format } from "date-fns";
+import { ActivityDatabase } from "@/models/activityDatabase";
+import { useMyDrafts, useMyEvents } from "@/utility/queries";
+import { getCurrentUserId } from "@/utility/userUtils";
+
+type EventsTab = "published" | "drafts";
 
 const MyCreatedEventsPage: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState<string>("");
   const [selectedDate, setSelectedDate] = useState<string>("");
+  const [tab, setTab] = useState<EventsTab>("published");
+  const [publishedPage, setPublishedPage] = useState(1);
+  const [draftsPage, setDraftsPage] = useState(1);
+
+  const userId = getCurrentUserId();
+  const published = useMyEvents(userId, publishedPage, !!userId && tab === "published");
+  const drafts = useMyDrafts(userId, draftsPage, !!userId && tab === "drafts");
 
-  // Sample event data
-  const events = [
-    {
-      title: "Seattle Center Sculpture Walk 2024-25",
-      location: "Seattle Center",
-      description: "A walk around Seattle Center's sculptures.",
-      date: "2024-08-01",
-    },
-    {
-      title: "Tech Talk: AI Innovations",
-      location: "North Seattle College",
-      description: "A deep dive into the latest AI innovations.",
-      date: "2024-08-02",
-    },
-  ];
+  const { data, isLoading } = tab === "published" ? published : drafts;
+  const page = tab === "published" ? publishedPage : draftsPage;
+  const setPage = tab === "published" ? setPublishedPage : setDraftsPage;
+  const events: ActivityDatabase[] = data?.data ?? [];
 
   const handleSearch = (term: string) => {
     setSearchTerm(term);
@@ -34,40 +37,79 @@ const MyCreatedEventsPage: React.FC = () => {
     setSelectedDate(date);
   };
   const filteredEvents = events.filter((event) => {
+    const term = searchTerm.toLowerCase();
     const matchesSearch =
-      event.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      event.location.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      event.description.toLowerCase().includes(searchTerm.toLowerCase());
+      event.eventTitle.toLowerCase().includes(term) ||
+      (event.eventLocation ?? "").toLowerCase().includes(term) ||
+      (event.eventDescription ?? "").toLowerCase().includes(term);
 
-    const matchesDate = selectedDate ? event.date === selectedDate : true;
+    const matchesDate = selectedDate
+      ? format(new Date(event.startDate), "yyyy-MM-dd") === selectedDate
+      : true;
 
     return matchesSearch && matchesDate;
   });
 
   return (
     <Container>
+      <Tabs
+        value={tab}
+        onChange={(_, value: EventsTab) => setTab(value)}
+        aria-label="My created events"
+        sx={{ mb: 3 }}
+      >
+        <Tab label="Published" value="published" />
+        <Tab label="My drafts" value="drafts" />
+      </Tabs>
       <Box sx={{ mb: 3 }}>
         <SearchBar onSearch={handleSearch} />
       </Box>
       <Box sx={{ mb: 3 }}>
         <DateFilter onDateChange={handleDateChange} />
       </Box>
+      {tab === "published" && (
+        <Box sx={{ mb: 3 }}>
+          {/* Registrations of the events listed below */}
+          <ExportMenu
+            path="/export/registrations"
+            params={{ activityIds: filteredEvents.map((event) => event.id).join(",") }}
+            label="Export registrations"
+            disabled={filteredEvents.length === 0}
+          />
+        </Box>
+      )}
 
       <div>
-        {filteredEvents.length === 0 ? (
-          <p>No events found</p>
+        {isLoading ? (
+          <CircularProgress />
+        ) : filteredEvents.length === 0 ? (
+          <p>{tab === "drafts" ? "No drafts found" : "No events found"}</p>
         ) : (
-          filteredEvents.map((event, index) => (
+          filteredEvents.map((event) => (
             <EventCard
-              key={event.title}
-              title={event.title}
-              location={event.location}
-              description={event.description}
-              date={event.date}
+              key={event.id}
+              title={event.eventTitle}
+              location={event.eventLocation}
+              description={event.eventDescription}
+              date={event.startDate}
+              href={`/event-detail?id=${event.id}`}
+              publicationStatus={event.publicationStatus}
+              publishAt={event.publishAt}
+              approvalStatus={event.approvalStatus}
+              rejectionReason={event.rejectionReason}
             />
           ))
         )}
       </div>
+      {data && data.totalPages > 1 && (
+        <Box sx={{ display: "flex", justifyContent: "center", my: 3 }}>
+          <Pagination
+            count={data.totalPages}
+            page={page}
+            onChange={(_, value) => setPage(value)}
+          />
+        </Box>
+      )}
     </Container>
   );
 };
@@ -1,35 +1,54 @@
 "use client";
 
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import Image from "next/image";
 import CircularProgress from "@mui/material/CircularProgress";
 import {
   Box,
   Button,
   CardMedia,
+  InputAdornment,
   Paper,
+  TextField,
   Typography,
   useMediaQuery,
 } from "@mui/material";
+import SearchIcon from "@mui/icons-material/Search";
 import Grid from "@mui/material/Grid";
 import { useTheme } from "@mui/material";
 import { ActivityDatabase } from "@/models/activityDatabase";
-import { useFilteredEvents } from "@/utility/queries";
+import { useEventsFeed, useSearchEvents } from "@/utility/queries";
 import HomeEventsCard from "@/components/HomeEventsCard";
-import { EventTags } from "@/utility/tags";
 import TagSelector from "@/components/TagSelector";
 import Link from "next/link";
 
 const Home = () => {
   const [token, setToken] = useState<string | null>(null);
-  const [page, setPage] = useState(1);
-  const [events, setEvents] = useState<ActivityDatabase[]>([]);
-  const [reachedLastPage, setReachedLastPage] = useState(false);
   const [activeTags, setActiveTags] = useState<string[]>([]);
   const [showTags, setShowTags] = useState(false); // State to control tag visibility
+  const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
   const { palette } = useTheme();
 
-  const { data, isLoading } = useFilteredEvents(page, true, activeTags);
+  const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useEventsFeed(activeTags);
+  const { data: searchPage, isFetching: isSearching } = useSearchEvents(debouncedSearch);
+  const searchResults = searchPage?.data;
+  const isSearchActive = debouncedSearch.trim().length > 0;
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  const events = useMemo(() => {
+    const loaded = data?.pages.flatMap((page) => page.data) ?? [];
+    // filter events to avoid duplicates (fixes Unarchive Event bug)
+    return loaded.filter(
+      (event, index, self) => index === self.findIndex((e) => e.id === event.id)
+    );
+  }, [data]);
+
+  // Debounce search input
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery), 400);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
   console.log("data", data);
 
   // Reference the image paths directly instead of using imports
@@ -47,28 +66,28 @@ const Home = () => {
   useEffect(() => {
     const storedToken = localStorage.getItem("token");
     setToken(storedToken);
+  }, []);
 
-    if (data) {
-      setEvents((prevEvents) => {
-        const newEvents = [...prevEvents, ...data];
-        // filter events to avoid duplicates (fixes Unarchive Event bug)
-        const uniqueEvents = newEvents.filter(
-          (event, index, self) =>
-            index === self.findIndex((e) => e.id === event.id)
-        );
-        return uniqueEvents;
-      });
-      setReachedLastPage(data.length < 6);
+  // Infinite scroll: load the next page once the end of the list is visible
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage || isSearchActive || typeof IntersectionObserver === "undefined") {
+      return;
     }
-  }, [data]);
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, isSearchActive, fetchNextPage]);
 
   const handleLoadMoreEvents = () => {
-    setPage((num) => num + 1);
+    fetchNextPage();
   };
 
   const handleTagClicked = (clickedTag: string) => {
-    setEvents([]);
-    setPage(1);
     if (activeTags.includes(clickedTag)) {
       const newTags = activeTags.filter((t) => t !== clickedTag);
       setActiveTags(newTags);
@@ -115,7 +134,21 @@ const Home = () => {
         Upcoming Events
       </Typography>
 
-      <Box m={3} maxWidth={"md"}>
+      <Box m={3} maxWidth={"md"} width="100%">
+        <TextField
+          fullWidth
+          placeholder='Search events, e.g. "resume workshop"'
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          InputProps={{
+            startAdornment: (
+              <InputAdornment position="start">
+                <SearchIcon />
+              </InputAdornment>
+            ),
+          }}
+          sx={{ mb: 2 }}
+        />
         {/* Toggle button to show/hide the TagSelector */}
         <Button variant="contained" sx={{ background: palette.primary.main, color: palette.primary.contrastText }} onClick={toggleTagVisibility}>
           {showTags ? "Hide Tags" : "Filter by Tags"}
@@ -125,14 +158,25 @@ const Home = () => {
         {showTags && (
           <TagSelector
             selectedTags={activeTags}
-            allTags={[...EventTags]}
             onTagClick={handleTagClicked}
           />
         )}
       </Box>
       <Grid container spacing={4} sx={{ px: 2, width: '100%' }}> {/* Can be modified if needed (mx: 15)*/}
-        {/* Display the events */}
-        {events && events.length > 0 ? (
+        {/* Display search results, best match first */}
+        {isSearchActive ? (
+          searchResults && searchResults.length > 0 ? (
+            searchResults.map((event) => (
+              <Grid item xs={12} md={12} lg={6} display="flex" key={event.id}>
+                <HomeEventsCard event={event} />
+              </Grid>
+            ))
+          ) : (
+            <Box>
+              {isSearching ? <CircularProgress /> : "Found no events matching your search!"}
+            </Box>
+          )
+        ) : events && events.length > 0 ? (
           events.map((event: ActivityDatabase) => (
             <Grid item xs={12} md={12} lg={6} display="flex" key={event.id} sx={{}}>
               <HomeEventsCard event={event} />
@@ -149,17 +193,23 @@ const Home = () => {
         )}
       </Grid>
 
-      {/* Load more button */}
-      {data && data.length > 0 && !reachedLastPage && (
-        <Button
-          onClick={handleLoadMoreEvents}
-          type="button"
-          variant="contained"
-          color="primary"
-          style={{ textTransform: "none", margin: "2em auto", }}
-        >
-          Load more events
-        </Button>
+      {/* Load more button, also triggered automatically when scrolled into view */}
+      {!isSearchActive && events.length > 0 && hasNextPage && (
+        <Box ref={loadMoreRef} sx={{ margin: "2em auto" }}>
+          {isFetchingNextPage ? (
+            <CircularProgress />
+          ) : (
+            <Button
+              onClick={handleLoadMoreEvents}
+              type="button"
+              variant="contained"
+              color="primary"
+              style={{ textTransform: "none" }}
+            >
+              Load more events
+            </Button>
+          )}
+        </Box>
       )}
     </Box>
   );
@@ -0,0 +1,160 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import {
+  Avatar,
+  Box,
+  Button,
+  CircularProgress,
+  Container,
+  Link as MuiLink,
+  List,
+  ListItem,
+  ListItemText,
+  Paper,
+  Snackbar,
+  SnackbarContent,
+  Stack,
+  Typography,
+} from "@mui/material";
+import EditIcon from "@mui/icons-material/Edit";
+import useAuth from "@/hooks/useAuth";
+import SpeakerDialog from "@/components/SpeakerDialog";
+import { useSpeaker, useSpeakerEvents } from "@/utility/queries";
+import { formatDate } from "@/utility/dateUtils";
+import { SpeakerEvent } from "@/types/speaker";
+
+const EventList = ({ title, events }: { title: string; events: SpeakerEvent[] }) => {
+  if (events.length === 0) {
+    return null;
+  }
+  return (
+    <Box sx={{ mt: 3 }}>
+      <Typography variant="h6" sx={{ fontWeight: "bold" }}>
+        {title}
+      </Typography>
+      <List disablePadding>
+        {events.map((event) => (
+          <ListItem key={event.id} disableGutters>
+            <ListItemText
+              primary={
+                <Link href={{ pathname: "/event-detail", query: { id: event.id } }}>{event.eventTitle}</Link>
+              }
+              secondary={[
+                formatDate(event.startDate, event.timeZone),
+                event.eventLocation,
+                event.sessions.length > 0 && `Speaking at: ${event.sessions.join(", ")}`,
+              ]
+                .filter(Boolean)
+                .join(" · ")}
+            />
+          </ListItem>
+        ))}
+      </List>
+    </Box>
+  );
+};
+
+// A guest speaker's profile and every event they appear at
+const SpeakerPage = () => {
+  const searchParams = useSearchParams();
+  const slug = searchParams.get("slug");
+  const { user } = useAuth();
+  const [editDialogOpen, setEditDialogOpen] = useState(false);
+  const [snackbarMessage, setSnackbarMessage] = useState("");
+  const { data: speaker, isLoading, isError } = useSpeaker(slug);
+  const { data: events = [] } = useSpeakerEvents(slug);
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: "flex", justifyContent: "center", mt: 8 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (!slug || isError || !speaker) {
+    return (
+      <Typography sx={{ mt: 8, textAlign: "center" }}>
+        Speaker not found.
+      </Typography>
+    );
+  }
+
+  const canEdit = user?.role === "admin" || user?.role === "creator";
+  const now = Date.now();
+  // Soonest first for upcoming events, the list arrives newest first
+  const upcoming = events.filter((event) => Date.parse(event.endDate) >= now).reverse();
+  const past = events.filter((event) => Date.parse(event.endDate) < now);
+
+  return (
+    <Container maxWidth="md" sx={{ my: 4 }}>
+      <Paper sx={{ p: 4 }}>
+        <Stack direction={{ xs: "column", sm: "row" }} spacing={3} alignItems={{ sm: "center" }}>
+          <Avatar src={speaker.headshotUrl || undefined} alt={speaker.name} sx={{ width: 120, height: 120 }}>
+            {speaker.name.charAt(0)}
+          </Avatar>
+          <Box sx={{ flex: 1 }}>
+            <Typography variant="h4" component="h1">
+              {speaker.name}
+            </Typography>
+            {(speaker.title || speaker.affiliation) && (
+              <Typography variant="subtitle1" color="text.secondary">
+                {[speaker.title, speaker.affiliation].filter(Boolean).join(", ")}
+              </Typography>
+            )}
+            {speaker.links.length > 0 && (
+              <Stack direction="row" spacing={2} sx={{ mt: 1 }} flexWrap="wrap" useFlexGap>
+                {speaker.links.map((link) => (
+                  <MuiLink key={link.url} href={link.url} target="_blank" rel="noopener noreferrer">
+                    {link.label}
+                  </MuiLink>
+                ))}
+              </Stack>
+            )}
+          </Box>
+          {canEdit && (
+            <Button variant="outlined" startIcon={<EditIcon />} onClick={() => setEditDialogOpen(true)}>
+              Edit Profile
+            </Button>
+          )}
+        </Stack>
+
+        {speaker.bio && (
+          <Typography variant="body1" sx={{ mt: 3, whiteSpace: "pre-line" }}>
+            {speaker.bio}
+          </Typography>
+        )}
+
+        <EventList title="Upcoming Events" events={upcoming} />
+        <EventList title="Past Events" events={past} />
+        {events.length === 0 && (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 3 }}>
+            No published events yet.
+          </Typography>
+        )}
+      </Paper>
+
+      {canEdit && (
+        <SpeakerDialog
+          isOpen={editDialogOpen}
+          onClose={() => setEditDialogOpen(false)}
+          speaker={speaker}
+          onSaved={setSnackbarMessage}
+        />
+      )}
+      <Snackbar
+        open={Boolean(snackbarMessage)}
+        onClose={() => setSnackbarMessage("")}
+        autoHideDuration={3000}
+        anchorOrigin={{ vertical: "bottom", horizontal: "center" }}
+      >
+        <SnackbarContent message={snackbarMessage} sx={{ backgroundColor: "white", color: "black" }} />
+      </Snackbar>
+    </Container>
+  );
+};
+
+export default SpeakerPage;
@@ -0,0 +1,110 @@
+import React, { useState } from "react";
+import { Button, Divider, ListItemIcon, ListItemText, Menu, MenuItem } from "@mui/material";
+import EventIcon from "@mui/icons-material/Event";
+import DownloadIcon from "@mui/icons-material/Download";
+import GoogleIcon from "@mui/icons-material/Google";
+import MailOutlineIcon from "@mui/icons-material/MailOutline";
+import RssFeedIcon from "@mui/icons-material/RssFeed";
+import { ActivityDatabase } from "@/models/activityDatabase";
+import {
+    getEventIcsUrl,
+    getGoogleCalendarUrl,
+    getOutlookCalendarUrl,
+    getPublicFeedUrl,
+    getUserFeedToken,
+    getUserFeedUrl,
+    toWebcalUrl,
+} from "@/utility/calendarLinks";
+
+interface AddToCalendarMenuProps {
+    event: ActivityDatabase;
+    // JWT of the signed-in user; the private feed is only offered when present
+    token?: string;
+    onError?: (message: string) => void;
+    buttonSx?: object;
+}
+
+const AddToCalendarMenu = ({ event, token, onError, buttonSx }: AddToCalendarMenuProps) => {
+    const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
+
+    const close = () => setAnchorEl(null);
+
+    const open = (url: string, newTab = true) => {
+        close();
+        if (newTab) {
+            window.open(url, "_blank", "noopener,noreferrer");
+        } else {
+            window.location.href = url;
+        }
+    };
+
+    const subscribeToMyEvents = async () => {
+        if (!token) {
+            return;
+        }
+        try {
+            const feedToken = await getUserFeedToken(token);
+            open(toWebcalUrl(getUserFeedUrl(feedToken)), false);
+        } catch (error) {
+            console.error("Error getting calendar feed:", error);
+            close();
+            onError?.("Could not load your calendar feed.");
+        }
+    };
+
+    return (
+        <>
+            <Button
+                variant="contained"
+                id="add-to-calendar-button"
+                aria-controls={anchorEl ? "add-to-calendar-menu" : undefined}
+                aria-haspopup="true"
+                aria-expanded={anchorEl ? "true" : undefined}
+                onClick={(e) => setAnchorEl(e.currentTarget)}
+                sx={buttonSx}
+            >
+                <EventIcon sx={{ marginRight: "5px" }} />
+                Add to Calendar
+            </Button>
+            <Menu
+                id="add-to-calendar-menu"
+                anchorEl={anchorEl}
+                open={Boolean(anchorEl)}
+                onClose={close}
+                MenuListProps={{ "aria-labelledby": "add-to-calendar-button" }}
+            >
+                <MenuItem onClick={() => open(getEventIcsUrl(event.id), false)}>
+                    <ListItemIcon><DownloadIcon fontSize="small" /></ListItemIcon>
+                    <ListItemText>Download .ics (Apple, Outlook)</ListItemText>
+                </MenuItem>
+                <MenuItem onClick={() => open(getGoogleCalendarUrl(event))}>
+                    <ListItemIcon><GoogleIcon fontSize="small" /></ListItemIcon>
+                    <ListItemText>Google Calendar</ListItemText>
+                </MenuItem>
+                <MenuItem onClick={() => open(getOutlookCalendarUrl(event))}>
+                    <ListItemIcon><MailOutlineIcon fontSize="small" /></ListItemIcon>
+                    <ListItemText>Outlook.com</ListItemText>
+                </MenuItem>
+                <Divider />
+                <MenuItem onClick={() => open(toWebcalUrl(getPublicFeedUrl()), false)}>
+                    <ListItemIcon><RssFeedIcon fontSize="small" /></ListItemIcon>
+                    <ListItemText>Subscribe to all events</ListItemText>
+                </MenuItem>
+                {event.eventTags.map((tag) => (
+                    <MenuItem key={tag} onClick={() => open(toWebcalUrl(getPublicFeedUrl(tag)), false)}>
+                        <ListItemIcon><RssFeedIcon fontSize="small" /></ListItemIcon>
+                        <ListItemText>Subscribe to {tag} events</ListItemText>
+                    </MenuItem>
+                ))}
+                {token && (
+                    <MenuItem onClick={subscribeToMyEvents}>
+                        <ListItemIcon><RssFeedIcon fontSize="small" /></ListItemIcon>
+                        <ListItemText>Subscribe to my registered events</ListItemText>
+                    </MenuItem>
+                )}
+            </Menu>
+        </>
+    );
+};
+
+export default AddToCalendarMenu;
@@ -0,0 +1,147 @@
+import React from "react";
+import { Box, Button, IconButton, Paper, Stack, TextField, Tooltip, Typography } from "@mui/material";
+import AddIcon from "@mui/icons-material/Add";
+import ArrowDownwardIcon from "@mui/icons-material/ArrowDownward";
+import ArrowUpwardIcon from "@mui/icons-material/ArrowUpward";
+import DeleteIcon from "@mui/icons-material/Delete";
+import VenuePicker from "@/components/VenuePicker";
+import SpeakerPicker from "@/components/SpeakerPicker";
+import { SessionDraft } from "@/types/session";
+import { newSessionDraft } from "@/utility/sessions";
+
+interface AgendaEditorProps {
+    value: SessionDraft[];
+    onChange: (value: SessionDraft[]) => void;
+    // HH:mm, new sessions start when the last one ends or else when the event starts
+    eventStartTime?: string;
+    error?: string | null;
+    helperText?: string;
+}
+
+// Sessions of an event, edited together with the event and saved with it
+const AgendaEditor = ({ value, onChange, eventStartTime = "", error, helperText }: AgendaEditorProps) => {
+    const update = (key: string, changes: Partial<SessionDraft>) => {
+        onChange(value.map((draft) => (draft.key === key ? { ...draft, ...changes } : draft)));
+    };
+
+    const move = (index: number, offset: number) => {
+        const reordered = [...value];
+        const [draft] = reordered.splice(index, 1);
+        reordered.splice(index + offset, 0, draft);
+        onChange(reordered);
+    };
+
+    const addSession = () => {
+        const last = value[value.length - 1];
+        onChange([...value, newSessionDraft(last?.endTime || eventStartTime)]);
+    };
+
+    return (
+        <Stack spacing={2}>
+            <Typography variant="h6">Agenda</Typography>
+            {helperText && (
+                <Typography variant="body2" color="text.secondary">
+                    {helperText}
+                </Typography>
+            )}
+            {value.map((draft, index) => {
+                const name = draft.title.trim() || `session ${index + 1}`;
+                return (
+                    <Paper key={draft.key} variant="outlined" sx={{ padding: 2 }}>
+                        <Stack spacing={2}>
+                            <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+                                <TextField
+                                    label="Session Title"
+                                    value={draft.title}
+                                    onChange={(e) => update(draft.key, { title: e.target.value })}
+                                    inputProps={{ maxLength: 200 }}
+                                    sx={{ flex: 1 }}
+                                />
+                                <Tooltip title="Move up">
+                                    <span>
+                                        <IconButton
+                                            aria-label={`Move ${name} up`}
+                                            disabled={index === 0}
+                                            onClick={() => move(index, -1)}
+                                        >
+                                            <ArrowUpwardIcon />
+                                        </IconButton>
+                                    </span>
+                                </Tooltip>
+                                <Tooltip title="Move down">
+                                    <span>
+                                        <IconButton
+                                            aria-label={`Move ${name} down`}
+                                            disabled={index === value.length - 1}
+                                            onClick={() => move(index, 1)}
+                                        >
+                                            <ArrowDownwardIcon />
+                                        </IconButton>
+                                    </span>
+                                </Tooltip>
+                                <Tooltip title="Remove">
+                                    <IconButton
+                                        aria-label={`Remove ${name}`}
+                                        onClick={() => onChange(value.filter(({ key }) => key !== draft.key))}
+                                    >
+                                        <DeleteIcon />
+                                    </IconButton>
+                                </Tooltip>
+                            </Box>
+                            <Stack direction="row" spacing={2}>
+                                <TextField
+                                    label="Starts"
+                                    type="time"
+                                    value={draft.startTime}
+                                    onChange={(e) => update(draft.key, { startTime: e.target.value })}
+                                    InputLabelProps={{ shrink: true }}
+                                    sx={{ flex: 1 }}
+                                />
+                                <TextField
+                                    label="Ends"
+                                    type="time"
+                                    value={draft.endTime}
+                                    onChange={(e) => update(draft.key, { endTime: e.target.value })}
+                                    InputLabelProps={{ shrink: true }}
+                                    sx={{ flex: 1 }}
+                                />
+                            </Stack>
+                            <VenuePicker
+                                label="Room (optional)"
+                                roomId={draft.roomId}
+                                location={draft.location}
+                                onChange={(roomId, location) => update(draft.key, { roomId, location })}
+                                placeholder="Leave empty if it's where the event is"
+                            />
+                            <SpeakerPicker
+                                value={draft.speakers}
+                                onChange={(speakers) => update(draft.key, { speakers })}
+                                helperText=""
+                            />
+                            <TextField
+                                label="Description"
+                                multiline
+                                minRows={2}
+                                value={draft.description}
+                                onChange={(e) => update(draft.key, { description: e.target.value })}
+                                inputProps={{ maxLength: 2000 }}
+                            />
+                        </Stack>
+                    </Paper>
+                );
+            })}
+            {error && (
+                <Typography variant="body2" color="error">
+                    {error}
+                </Typography>
+            )}
+            <Box>
+                <Button variant="outlined" startIcon={<AddIcon />} onClick={addSession}>
+                    Add Session
+                </Button>
+            </Box>
+        </Stack>
+    );
+};
+
+export default AgendaEditor;
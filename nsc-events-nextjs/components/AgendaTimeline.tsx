@@ -0,0 +1,72 @@
+import React from "react";
+import Link from "next/link";
+import { Box, Typography } from "@mui/material";
+import { useSessions } from "@/utility/queries";
+import { formatTime } from "@/utility/dateUtils";
+
+interface AgendaTimelineProps {
+    eventId: string;
+    // The event's zone, which the times are shown in
+    timeZone: string;
+}
+
+// The event's sessions down a line, in agenda order
+const AgendaTimeline = ({ eventId, timeZone }: AgendaTimelineProps) => {
+    const { data: sessions = [] } = useSessions(eventId);
+
+    if (sessions.length === 0) {
+        return null;
+    }
+
+    return (
+        <Box sx={{ mt: 2 }}>
+            <Typography variant="h6" sx={{ fontWeight: "bold" }}>
+                Agenda
+            </Typography>
+            <Box component="ol" sx={{ listStyle: "none", margin: 0, padding: 0 }}>
+                {sessions.map((session) => (
+                    <Box
+                        component="li"
+                        key={session.id}
+                        sx={{ display: "flex", gap: 2, borderLeft: 2, borderColor: "primary.main", pl: 2, pb: 1.5 }}
+                    >
+                        <Typography variant="body2" color="text.secondary" sx={{ minWidth: 150, flexShrink: 0 }}>
+                            {formatTime(session.startDate, timeZone)} – {formatTime(session.endDate, timeZone)}
+                        </Typography>
+                        <Box>
+                            <Typography variant="body2" fontWeight="bold">
+                                {session.title}
+                            </Typography>
+                            {(session.location || session.speakers.length > 0) && (
+                                <Typography variant="body2" color="text.secondary">
+                                    {session.location}
+                                    {session.location && session.speakers.length > 0 && " · "}
+                                    {session.speakers.map((name, index) => {
+                                        const profile = session.speakerProfiles?.find(
+                                            (speaker) => speaker.name.toLowerCase() === name.toLowerCase()
+                                        );
+                                        return (
+                                            <React.Fragment key={name}>
+                                                {index > 0 && ", "}
+                                                {profile ? (
+                                                    <Link href={{ pathname: "/speaker", query: { slug: profile.slug } }}>
+                                                        {name}
+                                                    </Link>
+                                                ) : (
+                                                    name
+                                                )}
+                                            </React.Fragment>
+                                        );
+                                    })}
+                                </Typography>
+                            )}
+                            {session.description && <Typography variant="body2">{session.description}</Typography>}
+                        </Box>
+                    </Box>
+                ))}
+            </Box>
+        </Box>
+    );
+};
+
+export default AgendaTimeline;
@@ -17,23 +17,26 @@ import Snackbar from "@mui/material/Snackbar";
 import IconButton from "@mui/material/IconButton";
 import InfoIcon from "@mui/icons-material/Info";
 import React, { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 
 
 interface AttendDialogProps {
     isOpen: boolean,
     eventId: string,
+    // when the event is full the dialog offers to join the waitlist instead
+    isFull?: boolean,
     dialogToggle: () => void;
     onSuccess?: () => void;
 }
 
-const AttendDialog = ({ isOpen, eventId, dialogToggle, onSuccess }: AttendDialogProps) => {
+const AttendDialog = ({ isOpen, eventId, isFull = false, dialogToggle, onSuccess }: AttendDialogProps) => {
     
     const [checked, setChecked] = useState(false);
     const [snackbarMessage, setSnackbarMessage] = useState("");
     const [heardFrom, setHeardFrom] = useState<string[]>([]); // New state for "Heard From"
 
     const token = localStorage.getItem("token");
+    const queryClient = useQueryClient();
 
   const toggleCheckBox = () => {
     setChecked(!checked);
@@ -64,15 +67,18 @@ const AttendDialog = ({ isOpen, eventId, dialogToggle, onSuccess }: AttendDialog
                 'Authorization': `Bearer ${token}`,
             }, body: ''
         };
+        let userId = '';
 
         if (token != null) {
             const decodedToken = JSON.parse(atob(token.split(".")[1]));
+            userId = decodedToken.id;
             const body = {
                 eventId: id,
                 userId: decodedToken.id,   
                 firstName: checked ? decodedToken.firstName || '' : '',
                 lastName: checked ? decodedToken.lastName || '' : '',
-                referralSources: heardFrom
+                referralSources: heardFrom,
+                joinWaitlist: isFull,
             };
             options.body = JSON.stringify(body);
         }
@@ -80,10 +86,25 @@ const AttendDialog = ({ isOpen, eventId, dialogToggle, onSuccess }: AttendDialog
         try {
             const apiUrl = process.env.NSC_EVENTS_PUBLIC_API_URL;
             const response = await fetch(`${apiUrl}/event-registration/attend`, options);
-
-            return response.json();
+            const data = await response.json();
+            // a full event is reported as a 400, surface it instead of claiming success
+            if (response.status === 400) {
+                throw new Error(data.message || "Unable to attend this event");
+            }
+            // look up where the user landed on the waitlist
+            if (data?.status === "waitlisted") {
+                const statusResponse = await fetch(`${apiUrl}/event-registration/check/${id}/${userId}`, {
+                    headers: { 'Authorization': `Bearer ${token}` },
+                });
+                if (statusResponse.ok) {
+                    const status = await statusResponse.json();
+                    return { ...data, waitlistPosition: status.waitlistPosition };
+                }
+            }
+            return data;
         } catch (error) {
             console.error('error: ', error);
+            throw error;
         }
     };
 
@@ -91,12 +112,26 @@ const AttendDialog = ({ isOpen, eventId, dialogToggle, onSuccess }: AttendDialog
       mutationFn: attendEvent,
       onSuccess: async (data) => {
         // Always consider it successful unless there's an explicit error response
-        setSnackbarMessage("You are now attending this event!");
+        if (data?.status === "waitlisted") {
+          setSnackbarMessage(
+            data.waitlistPosition
+              ? `You are #${data.waitlistPosition} on the waitlist.`
+              : "You have joined the waitlist for this event."
+          );
+        } else {
+          setSnackbarMessage("You are now attending this event!");
+        }
         dialogToggle(); // close dialog here
         onSuccess && onSuccess();
       },  
       onError: (error) => {
         console.error("Error attending event:", error);
+        if (error.message === "Event is full") {
+          // refresh the status so the page offers the waitlist instead
+          setSnackbarMessage("This event just filled up. You can join the waitlist instead.");
+          queryClient.invalidateQueries({ queryKey: ['registrationStatus', eventId] });
+          return;
+        }
         // Still consider it as successful since the backend operation might have succeeded
         setSnackbarMessage("You are now attending this event!");
         dialogToggle();
@@ -112,10 +147,12 @@ const AttendDialog = ({ isOpen, eventId, dialogToggle, onSuccess }: AttendDialog
   return (
     <>
       <Dialog open={isOpen}>
-        <DialogTitle>{"Attend Event?"}</DialogTitle>
+        <DialogTitle>{isFull ? "Join Waitlist?" : "Attend Event?"}</DialogTitle>
         <DialogContent dividers sx={{ height: "fit-content" }}>
           <DialogContentText id="alert-dialog-description">
-            Confirm your attendance.
+            {isFull
+              ? "This event is full. Join the waitlist and you will be registered automatically if a spot opens up."
+              : "Confirm your attendance."}
           </DialogContentText>
 
           {/* Name Checkbox */}
@@ -247,7 +284,7 @@ const AttendDialog = ({ isOpen, eventId, dialogToggle, onSuccess }: AttendDialog
                 }}
                 autoFocus
               >
-                Confirm
+                {isFull ? "Join Waitlist" : "Confirm"}
               </Button>
             </Box>
           </DialogActions>
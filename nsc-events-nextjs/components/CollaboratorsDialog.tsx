@@ -0,0 +1,229 @@
+import React, { useState } from "react";
+import {
+    Box,
+    Button,
+    CircularProgress,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogContentText,
+    DialogTitle,
+    Divider,
+    MenuItem,
+    Paper,
+    Snackbar,
+    SnackbarContent,
+    Stack,
+    TextField,
+    Typography,
+} from "@mui/material";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useCollaborators } from "@/utility/queries";
+import { CollaboratorRole, collaboratorRoleLabels } from "@/types/collaborator";
+
+interface CollaboratorsDialogProps {
+    isOpen: boolean;
+    eventId: string;
+    // Only the owner or an admin can hand the event over
+    canTransfer: boolean;
+    dialogToggle: () => void;
+}
+
+interface CollaboratorRequest {
+    method: "POST" | "PUT" | "DELETE";
+    path: string;
+    body?: object;
+    successMessage: string;
+}
+
+const sendCollaboratorRequest = async (eventId: string, { method, path, body }: CollaboratorRequest) => {
+    const token = localStorage.getItem("token");
+    const apiUrl = process.env.NSC_EVENTS_PUBLIC_API_URL;
+    const response = await fetch(`${apiUrl}/events/${eventId}${path}`, {
+        method,
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+        },
+        body: body ? JSON.stringify(body) : undefined,
+    });
+    if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.message ?? response.statusText);
+    }
+};
+
+// Lets the owner, admins and co-hosts invite and remove people who help run
+// an event, and the owner hand the event to someone else
+const CollaboratorsDialog = ({ isOpen, eventId, canTransfer, dialogToggle }: CollaboratorsDialogProps) => {
+    const [email, setEmail] = useState("");
+    const [role, setRole] = useState<CollaboratorRole>("editor");
+    const [newOwnerEmail, setNewOwnerEmail] = useState("");
+    const [snackbarMessage, setSnackbarMessage] = useState("");
+    const queryClient = useQueryClient();
+    const { data: collaborators = [], isLoading, isError } = useCollaborators(eventId, isOpen);
+
+    const { mutate: collaboratorMutation, isPending } = useMutation({
+        mutationFn: (request: CollaboratorRequest) => sendCollaboratorRequest(eventId, request),
+        onSuccess: async (_data, variables) => {
+            setSnackbarMessage(variables.successMessage);
+            await queryClient.invalidateQueries({ queryKey: ["collaborators", eventId] });
+        },
+        onError: (error: Error) => {
+            console.error("error: ", error);
+            setSnackbarMessage(error.message || "Failed to update collaborators.");
+        },
+    });
+
+    const invite = () => {
+        collaboratorMutation({
+            method: "POST",
+            path: "/collaborators",
+            body: { email: email.trim(), role },
+            successMessage: "Invitation sent.",
+        });
+        setEmail("");
+    };
+
+    const transfer = () => {
+        collaboratorMutation(
+            {
+                method: "PUT",
+                path: "/owner",
+                body: { email: newOwnerEmail.trim() },
+                successMessage: "Ownership transferred.",
+            },
+            {
+                onSuccess: async () => {
+                    setNewOwnerEmail("");
+                    await queryClient.invalidateQueries({ queryKey: [eventId] });
+                    dialogToggle();
+                },
+            }
+        );
+    };
+
+    return (
+        <>
+            <Dialog open={isOpen} onClose={dialogToggle} fullWidth>
+                <DialogTitle>Collaborators</DialogTitle>
+                <DialogContent>
+                    <DialogContentText>
+                        Co-hosts can do everything you can, editors can edit the event and check in attendees,
+                        and check-in staff can only check in attendees.
+                    </DialogContentText>
+                    {isLoading ? (
+                        <CircularProgress sx={{ my: 2 }} />
+                    ) : isError ? (
+                        <Typography color="error" sx={{ my: 2 }}>
+                            Could not load collaborators.
+                        </Typography>
+                    ) : collaborators.length === 0 ? (
+                        <Typography sx={{ my: 2 }}>No collaborators yet.</Typography>
+                    ) : (
+                        <Stack spacing={1} sx={{ my: 2 }}>
+                            {collaborators.map((collaborator) => (
+                                <Paper
+                                    key={collaborator.id}
+                                    sx={{ padding: 1.5, display: "flex", alignItems: "center", gap: 1 }}
+                                >
+                                    <Box sx={{ flexGrow: 1 }}>
+                                        <Typography variant="body1">
+                                            {collaborator.user
+                                                ? `${collaborator.user.firstName} ${collaborator.user.lastName}`
+                                                : "Unknown user"}
+                                        </Typography>
+                                        <Typography variant="body2" color="text.secondary">
+                                            {collaboratorRoleLabels[collaborator.role]}
+                                            {collaborator.status === "invited" && " · invited"}
+                                        </Typography>
+                                    </Box>
+                                    <Button
+                                        size="small"
+                                        color="error"
+                                        disabled={isPending}
+                                        onClick={() =>
+                                            collaboratorMutation({
+                                                method: "DELETE",
+                                                path: `/collaborators/${collaborator.userId}`,
+                                                successMessage: "Collaborator removed.",
+                                            })
+                                        }
+                                    >
+                                        Remove
+                                    </Button>
+                                </Paper>
+                            ))}
+                        </Stack>
+                    )}
+                    <Box sx={{ display: "flex", gap: 1, flexWrap: "wrap", alignItems: "center" }}>
+                        <TextField
+                            margin="dense"
+                            label="Email"
+                            type="email"
+                            value={email}
+                            onChange={(e) => setEmail(e.target.value)}
+                            sx={{ flexGrow: 1 }}
+                        />
+                        <TextField
+                            select
+                            margin="dense"
+                            label="Role"
+                            value={role}
+                            onChange={(e) => setRole(e.target.value as CollaboratorRole)}
+                            sx={{ minWidth: 160 }}
+                        >
+                            {Object.entries(collaboratorRoleLabels).map(([value, label]) => (
+                                <MenuItem key={value} value={value}>
+                                    {label}
+                                </MenuItem>
+                            ))}
+                        </TextField>
+                        <Button onClick={invite} disabled={isPending || !email.trim()}>
+                            Invite
+                        </Button>
+                    </Box>
+                    {canTransfer && (
+                        <>
+                            <Divider sx={{ my: 2 }} />
+                            <Typography variant="subtitle1">Transfer ownership</Typography>
+                            <DialogContentText>
+                                The new owner needs a creator account. You will lose access unless they invite you back.
+                            </DialogContentText>
+                            <Box sx={{ display: "flex", gap: 1, alignItems: "center" }}>
+                                <TextField
+                                    margin="dense"
+                                    label="New owner email"
+                                    type="email"
+                                    value={newOwnerEmail}
+                                    onChange={(e) => setNewOwnerEmail(e.target.value)}
+                                    sx={{ flexGrow: 1 }}
+                                />
+                                <Button
+                                    color="error"
+                                    onClick={transfer}
+                                    disabled={isPending || !newOwnerEmail.trim()}
+                                >
+                                    Transfer
+                                </Button>
+                            </Box>
+                        </>
+                    )}
+                </DialogContent>
+                <DialogActions>
+                    <Button onClick={dialogToggle}>Close</Button>
+                </DialogActions>
+            </Dialog>
+            <Snackbar
+                open={Boolean(snackbarMessage)}
+                onClose={() => setSnackbarMessage("")}
+                autoHideDuration={1200}
+                anchorOrigin={{ vertical: "bottom", horizontal: "center" }}
+            >
+                <SnackbarContent message={snackbarMessage} sx={{ backgroundColor: "white", color: "black" }} />
+            </Snackbar>
+        </>
+    );
+};
+
+export default CollaboratorsDialog;
@@ -0,0 +1,35 @@
+import React from "react";
+import { Box, CardMedia, SxProps, Theme } from "@mui/material";
+import { ActivityDatabase } from "@/models/activityDatabase";
+import { getCoverImageSources } from "@/utility/coverImage";
+
+interface CoverImageProps {
+    event: Pick<ActivityDatabase, "eventCoverPhoto" | "eventCoverPhotoVariants" | "eventTitle">;
+    // How wide the image is shown, so the browser can pick the smallest variant that fits
+    sizes: string;
+    fallback?: string;
+    sx?: SxProps<Theme>;
+}
+
+// A card's cover photo, served as WebP where the browser supports it. The
+// <picture> wrapper doesn't take part in layout, so `sx` styles the image
+// as if it were the card media itself.
+const CoverImage = ({ event, sizes, fallback, sx }: CoverImageProps) => {
+    const { src, srcSet, webpSrcSet } = getCoverImageSources(event, fallback);
+
+    return (
+        <Box component="picture" sx={{ display: "contents" }}>
+            {webpSrcSet && <source type="image/webp" srcSet={webpSrcSet} sizes={sizes} />}
+            <CardMedia
+                component="img"
+                image={src}
+                srcSet={srcSet || undefined}
+                sizes={srcSet ? sizes : undefined}
+                alt={event.eventTitle}
+                sx={sx}
+            />
+        </Box>
+    );
+};
+
+export default CoverImage;
@@ -1,10 +1,10 @@
-import { Box, Button, Dialog, DialogActions, DialogContent, DialogTitle, SnackbarContent, Typography } from '@mui/material'
+import { Box, Button, Dialog, DialogActions, DialogContent, DialogTitle, LinearProgress, SnackbarContent, Typography } from '@mui/material'
 import AddPhotoAlternateIcon from '@mui/icons-material/AddPhotoAlternate';
 import React, { useState } from 'react'
 import { useMutation } from '@tanstack/react-query';
 import Snackbar from "@mui/material/Snackbar";
-import { Activity } from '@/models/activity';
 import { ActivityDatabase } from '@/models/activityDatabase';
+import { COVER_IMAGE_TYPES, MAX_COVER_IMAGE_SIZE_MB, uploadCoverImage } from '@/utility/coverImageUpload';
 
 interface CoverPhotoDialogProps {
     isOpen: boolean
@@ -18,49 +18,19 @@ function CoverPhotoDialog({ isOpen, dialogToggle, eventId, setEvent }: CoverPhot
     const [selectedImage, setSelectedImage] = useState<string | undefined>(undefined);
     const [selectedFile, setSelectedFile] = useState<File | undefined>(undefined);
     const [snackbarMessage, setSnackbarMessage] = useState("");
+    const [uploadProgress, setUploadProgress] = useState<number | null>(null);
 
-    const uploadCoverPhoto = async (file: File) => {
-        const token = localStorage.getItem("token");
-
-        if (!token) {
-            throw new Error("No authentication token found");
-        }
-        
-        const formData = new FormData();
-        console.log("File:", file);
-        formData.append("coverImage", file);
-
-        let options = {
-            method: 'PUT',
-            headers: {
-                'Authorization': `Bearer ${token}`,
-            }, 
-            body: formData
-        };
-        
-        try {
-            const apiUrl = process.env.NSC_EVENTS_PUBLIC_API_URL;
-            const response = await fetch(`${apiUrl}/events/${eventId}/cover-image`, options);
-            if (!response.ok) {
-                const errorData = await response.json().catch(() => ({}));
-                const message = errorData.message || "Unknown error occurred";
-                throw new Error(message);
-            }
-            return response.json();
-        } catch (error) {
-            console.error("Error uploading cover photo:", error);
-            throw error;
-        }
-    }
-
-    const { mutate: uploadCoverPhotoMutation } = useMutation( {
-        mutationFn: uploadCoverPhoto,
+    // The photo goes straight to storage, so the dialog stays open to show progress
+    const { mutate: uploadCoverPhotoMutation, isPending } = useMutation( {
+        mutationFn: (file: File) => uploadCoverImage(eventId, file, setUploadProgress),
         onSuccess: (data) => {
+            dialogToggle();
             if (data && data.eventCoverPhoto) {
                 setSnackbarMessage("Cover photo uploaded successfully!");
                 setEvent((prevEvent: ActivityDatabase) => ({
                     ...prevEvent,
-                    eventCoverPhoto: data.eventCoverPhoto
+                    eventCoverPhoto: data.eventCoverPhoto,
+                    eventCoverPhotoVariants: data.eventCoverPhotoVariants
                 }));
             } else {
                 console.warn("Upload succeeded but no cover photo URL returned:", data);
@@ -70,13 +40,16 @@ function CoverPhotoDialog({ isOpen, dialogToggle, eventId, setEvent }: CoverPhot
         onError: (error) => {
             console.error("Error:", error);
             setSnackbarMessage(`Error: ${error.message}`);
+        },
+        onSettled: () => {
+            setUploadProgress(null);
         }
     });
     
 
   return (
     <>
-        <Dialog open={isOpen} onClose={dialogToggle} fullWidth>
+        <Dialog open={isOpen} onClose={isPending ? undefined : dialogToggle} fullWidth>
             <DialogTitle>
                 <Typography variant="h5" component="div">
                     Edit Cover Photo
@@ -93,11 +66,12 @@ function CoverPhotoDialog({ isOpen, dialogToggle, eventId, setEvent }: CoverPhot
                 />
             }
             <DialogContent>
-                <Button variant="outlined" component="label" sx={{ marginRight: 2 }}> 
+                <Button variant="outlined" component="label" sx={{ marginRight: 2 }} disabled={isPending}> 
                     <AddPhotoAlternateIcon />
                     <input
                         type="file" 
-                        accept="image/png, image/jpeg, image/jpg, image/gif, image/webp" 
+                        accept={COVER_IMAGE_TYPES.join(", ")}
+                        data-testid="cover-photo-input" 
                         onChange={
                             (e) => {
                                 const file = e.target.files?.[0]; 
@@ -113,12 +87,21 @@ function CoverPhotoDialog({ isOpen, dialogToggle, eventId, setEvent }: CoverPhot
                     Click to upload a new cover photo
                 </Typography>
                 <Typography variant="body2" color="textSecondary" sx={{}}>
-                    Supported formats: PNG, JPEG, JPG, GIF, WEBP
+                    Supported formats: PNG, JPEG, JPG, GIF, WEBP, up to {MAX_COVER_IMAGE_SIZE_MB} MB
                 </Typography>
+                { uploadProgress !== null &&
+                    <Box sx={{ marginTop: 2 }}>
+                        <LinearProgress variant="determinate" value={uploadProgress} aria-label="Upload progress" />
+                        <Typography variant="body2" color="textSecondary">
+                            {uploadProgress < 100 ? `Uploading: ${uploadProgress}%` : "Processing photo..."}
+                        </Typography>
+                    </Box>
+                }
             </DialogContent>
             <DialogActions>
                 <Button 
                     onClick={dialogToggle}
+                    disabled={isPending}
                 >
                     Close
                 </Button>
@@ -127,11 +110,11 @@ function CoverPhotoDialog({ isOpen, dialogToggle, eventId, setEvent }: CoverPhot
                     color="primary" 
                     onClick={
                         () => { 
-                                dialogToggle(); 
+                                setUploadProgress(0);
                                 uploadCoverPhotoMutation(selectedFile as File);
                             }
                         } 
-                    disabled={!selectedImage}
+                    disabled={!selectedImage || isPending}
                 > 
                     Save
                 </Button>
@@ -0,0 +1,67 @@
+import React from "react";
+import { Button, Snackbar, SnackbarContent } from "@mui/material";
+import { useMutation } from "@tanstack/react-query";
+
+interface DeletedEventSnackbarProps {
+    // The event that was just moved to the trash, null when nothing was deleted
+    eventId: string | null;
+    onUndone: () => void;
+    onDismissed: () => void;
+}
+
+// How long the Undo button stays up after deleting an event
+export const UNDO_DURATION_MS = 6000;
+
+const restoreEvent = async (eventId: string) => {
+    const token = localStorage.getItem("token");
+    const apiUrl = process.env.NSC_EVENTS_PUBLIC_API_URL;
+    const response = await fetch(`${apiUrl}/events/restore/${eventId}`, {
+        method: "PUT",
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+        },
+    });
+    if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.message ?? response.statusText);
+    }
+};
+
+// Tells the user a deleted event went to the trash and lets them take it back
+const DeletedEventSnackbar = ({ eventId, onUndone, onDismissed }: DeletedEventSnackbarProps) => {
+    const { mutate: undoMutation, isPending, isError } = useMutation({
+        mutationFn: restoreEvent,
+        onSuccess: onUndone,
+        onError: (error: Error) => {
+            console.error("error: ", error);
+        },
+    });
+
+    return (
+        <Snackbar
+            open={Boolean(eventId)}
+            onClose={(_event, reason) => {
+                // Keep the Undo button up while a click elsewhere or a restore is in progress
+                if (reason === "clickaway" || isPending) {
+                    return;
+                }
+                onDismissed();
+            }}
+            autoHideDuration={UNDO_DURATION_MS}
+            anchorOrigin={{ vertical: "bottom", horizontal: "center" }}
+        >
+            <SnackbarContent
+                message={isError ? "Could not restore the event." : "Event moved to the trash."}
+                action={
+                    <Button size="small" disabled={isPending} onClick={() => eventId && undoMutation(eventId)}>
+                        Undo
+                    </Button>
+                }
+                sx={{ backgroundColor: "white", color: "black" }}
+            />
+        </Snackbar>
+    );
+};
+
+export default DeletedEventSnackbar;
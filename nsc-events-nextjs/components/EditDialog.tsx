@@ -8,9 +8,14 @@ import { Box, Button, Stack, Typography } from "@mui/material";
 import TextField from "@mui/material/TextField";
 import { textFieldStyle } from "@/components/InputFields";
 import TagSelector from "@/components/TagSelector";
+import VenuePicker from "@/components/VenuePicker";
+import TimeZonePicker from "@/components/TimeZonePicker";
+import RoomConflictAlert from "@/components/RoomConflictAlert";
+import RecurrenceScopeSelector from "@/components/RecurrenceScopeSelector";
+import AgendaEditor from "@/components/AgendaEditor";
+import SpeakerPicker from "@/components/SpeakerPicker";
 import { useEditForm } from "@/hooks/useEditForm";
 import { format, isSameDay, isSameHour, isSameMinute } from "date-fns";
-import { EventTags } from "@/utility/tags";
 
 interface EditDialogProps {
     isOpen: boolean,
@@ -25,17 +30,27 @@ const EditDialog = ({ isOpen, event, toggleEditDialog }: EditDialogProps) => {
         onEndTimeChange,
         eventData,
         handleInputChange,
+        handleLocationChange,
         handleSocialMediaChange,
         handleTagClick,
+        handleSpeakersChange,
         handleSubmit,
         errors,
         selectedDate,
+        timeZone,
+        handleTimeZoneChange,
         timeError,
         successMessage,
         errorMessage,
+        roomConflict,
+        bookRoomAnyway,
         startTimeDate,
         endTimeDate,
         to12HourTime,
+        scope,
+        setScope,
+        sessions,
+        setSessions,
     } = useEditForm(event);
     
     // Store the initial data to compare for changes
@@ -166,19 +181,53 @@ const EditDialog = ({ isOpen, event, toggleEditDialog }: EditDialogProps) => {
                                     )}
                                 />
                             </Box>
-                            <TextField
-                                id="event-location"
-                                label="Event Location"
-                                variant="outlined"
-                                name="eventLocation"
-                                value={eventData.eventLocation || ''}
-                                onChange={handleInputChange}
+                            <TimeZonePicker
+                                value={timeZone}
+                                onChange={handleTimeZoneChange}
+                                InputProps={{ style: textFieldStyle.input }}
+                                InputLabelProps={{ style: textFieldStyle.label }}
+                            />
+                            <VenuePicker
+                                roomId={eventData.roomId}
+                                location={eventData.eventLocation || ''}
+                                onChange={handleLocationChange}
                                 error={!!errors.eventLocation}
                                 helperText={errors.eventLocation}
                                 InputProps={{ style: textFieldStyle.input }}
                                 InputLabelProps={{ style: textFieldStyle.label }}
                                 placeholder="Enter the location of the event"
                             />
+                            {/* time the room is held around the event, checked for double bookings */}
+                            {eventData.roomId && (
+                                <Stack direction="row" spacing={2}>
+                                    <TextField
+                                        id="event-setup-minutes"
+                                        label="Setup (minutes)"
+                                        variant="outlined"
+                                        type="number"
+                                        name="setupMinutes"
+                                        value={eventData.setupMinutes ?? ''}
+                                        onChange={handleInputChange}
+                                        InputProps={{ style: textFieldStyle.input }}
+                                        InputLabelProps={{ style: textFieldStyle.label }}
+                                        inputProps={{ min: 0, max: 720 }}
+                                        sx={{ flex: 1 }}
+                                    />
+                                    <TextField
+                                        id="event-teardown-minutes"
+                                        label="Teardown (minutes)"
+                                        variant="outlined"
+                                        type="number"
+                                        name="teardownMinutes"
+                                        value={eventData.teardownMinutes ?? ''}
+                                        onChange={handleInputChange}
+                                        InputProps={{ style: textFieldStyle.input }}
+                                        InputLabelProps={{ style: textFieldStyle.label }}
+                                        inputProps={{ min: 0, max: 720 }}
+                                        sx={{ flex: 1 }}
+                                    />
+                                </Stack>
+                            )}
                             <TextField
                                 id="event-host"
                                 label="Event Host"
@@ -236,9 +285,23 @@ const EditDialog = ({ isOpen, event, toggleEditDialog }: EditDialogProps) => {
                             />
                             <TagSelector
                                 selectedTags={eventData.eventTags || []}
-                                allTags={EventTags}
                                 onTagClick={handleTagClick}
                             />
+                            <SpeakerPicker
+                                id="event-speakers"
+                                label="Event Speakers"
+                                value={eventData.eventSpeakers || []}
+                                onChange={handleSpeakersChange}
+                                InputProps={{ style: textFieldStyle.input }}
+                                InputLabelProps={{ style: textFieldStyle.label }}
+                            />
+                            <AgendaEditor
+                                value={sessions}
+                                onChange={setSessions}
+                                eventStartTime={startTimeDate ? format(startTimeDate, 'HH:mm') : ''}
+                                error={errors.agenda}
+                                helperText="Sessions must fall within the event, and are saved with it."
+                            />
                             {/* Social Media Inputs */}
                             <Typography variant="subtitle1" sx={{ mt: 2, fontWeight: 'bold' }}>Social Media Links</Typography>
                             <TextField
@@ -331,6 +394,13 @@ const EditDialog = ({ isOpen, event, toggleEditDialog }: EditDialogProps) => {
                                 InputProps={{ style: textFieldStyle.input }}
                                 InputLabelProps={{ style: textFieldStyle.label }}
                             />
+                            {event.seriesId && (
+                                <RecurrenceScopeSelector
+                                    value={scope}
+                                    onChange={setScope}
+                                    label="Apply changes to"
+                                />
+                            )}
                             <Box sx={{ display: 'flex', justifyContent: 'space-between', pt: 2 }} >
                                 <Box>
                                 <Button type="submit" variant="contained" color="primary" style={{ textTransform: "none" }} disabled={!isEventUpdated()}>
@@ -362,6 +432,7 @@ const EditDialog = ({ isOpen, event, toggleEditDialog }: EditDialogProps) => {
 
 
                         </Stack>
+                        <RoomConflictAlert conflict={roomConflict} onOverride={bookRoomAnyway} />
                         {/* Success/Error message upon button click */}
                         {successMessage && (
                             <Typography color="green" sx={{ mb: 2 }}>
@@ -0,0 +1,213 @@
+import React, { useState } from "react";
+import {
+    Box,
+    Button,
+    IconButton,
+    List,
+    ListItem,
+    ListItemIcon,
+    ListItemText,
+    Snackbar,
+    SnackbarContent,
+    TextField,
+    Tooltip,
+    Typography,
+} from "@mui/material";
+import AttachFileIcon from "@mui/icons-material/AttachFile";
+import DeleteIcon from "@mui/icons-material/Delete";
+import DescriptionIcon from "@mui/icons-material/Description";
+import PictureAsPdfIcon from "@mui/icons-material/PictureAsPdf";
+import SwapHorizIcon from "@mui/icons-material/SwapHoriz";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAttachments } from "@/utility/queries";
+import { EventAttachment } from "@/types/attachment";
+
+interface EventAttachmentsProps {
+    eventId: string;
+    // People who can edit the event can add, replace and remove documents
+    canEdit: boolean;
+}
+
+const ACCEPTED_TYPES = ".pdf,.doc,.docx,.xls,.xlsx,.ppt,.pptx";
+
+const formatFileSize = (bytes: number) => {
+    if (bytes < 1024) {
+        return `${bytes} B`;
+    }
+    if (bytes < 1024 * 1024) {
+        return `${Math.round(bytes / 1024)} KB`;
+    }
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+const sendAttachmentRequest = async (method: "POST" | "PUT" | "DELETE", path: string, body?: FormData) => {
+    const token = localStorage.getItem("token");
+    const apiUrl = process.env.NSC_EVENTS_PUBLIC_API_URL;
+    const response = await fetch(`${apiUrl}/events${path}`, {
+        method,
+        headers: {
+            Authorization: `Bearer ${token}`,
+        },
+        body,
+    });
+    if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.message ?? response.statusText);
+    }
+};
+
+const toForm = (file: File, title?: string) => {
+    const form = new FormData();
+    form.append("file", file);
+    if (title?.trim()) {
+        form.append("title", title.trim());
+    }
+    return form;
+};
+
+// Agendas, flyers, waivers and other documents shared on the event page
+const EventAttachments = ({ eventId, canEdit }: EventAttachmentsProps) => {
+    const [title, setTitle] = useState("");
+    const [snackbarMessage, setSnackbarMessage] = useState("");
+    const queryClient = useQueryClient();
+    const { data: attachments = [] } = useAttachments(eventId);
+
+    const onSuccess = (message: string) => async () => {
+        setSnackbarMessage(message);
+        await queryClient.invalidateQueries({ queryKey: ["attachments", eventId] });
+    };
+    const onError = (error: Error) => {
+        console.error("error: ", error);
+        setSnackbarMessage(error.message || "Something went wrong.");
+    };
+
+    const { mutate: addMutation, isPending: isAdding } = useMutation({
+        mutationFn: (file: File) => sendAttachmentRequest("POST", `/${eventId}/attachments`, toForm(file, title)),
+        onSuccess: async () => {
+            setTitle("");
+            await onSuccess("Document added.")();
+        },
+        onError,
+    });
+
+    const { mutate: replaceMutation } = useMutation({
+        mutationFn: ({ attachment, file }: { attachment: EventAttachment; file: File }) =>
+            sendAttachmentRequest("PUT", `/${eventId}/attachments/${attachment.id}`, toForm(file)),
+        onSuccess: onSuccess("Document replaced."),
+        onError,
+    });
+
+    const { mutate: deleteMutation } = useMutation({
+        mutationFn: (attachment: EventAttachment) =>
+            sendAttachmentRequest("DELETE", `/${eventId}/attachments/${attachment.id}`),
+        onSuccess: onSuccess("Document removed."),
+        onError,
+    });
+
+    if (attachments.length === 0 && !canEdit) {
+        return null;
+    }
+
+    return (
+        <Box sx={{ mt: 2 }}>
+            <Typography variant="h6" sx={{ fontWeight: "bold" }}>
+                Documents
+            </Typography>
+            {attachments.length === 0 ? (
+                <Typography variant="body2" color="text.secondary">
+                    No documents yet
+                </Typography>
+            ) : (
+                <List dense disablePadding>
+                    {attachments.map((attachment) => (
+                        <ListItem
+                            key={attachment.id}
+                            disableGutters
+                            secondaryAction={
+                                canEdit && (
+                                    <>
+                                        <Tooltip title="Replace file">
+                                            <IconButton component="label" aria-label={`Replace ${attachment.title}`}>
+                                                <SwapHorizIcon />
+                                                <input
+                                                    hidden
+                                                    type="file"
+                                                    accept={ACCEPTED_TYPES}
+                                                    data-testid={`replace-${attachment.id}`}
+                                                    onChange={(e) => {
+                                                        const file = e.target.files?.[0];
+                                                        if (file) {
+                                                            replaceMutation({ attachment, file });
+                                                        }
+                                                        e.target.value = "";
+                                                    }}
+                                                />
+                                            </IconButton>
+                                        </Tooltip>
+                                        <Tooltip title="Remove">
+                                            <IconButton
+                                                aria-label={`Remove ${attachment.title}`}
+                                                onClick={() => deleteMutation(attachment)}
+                                            >
+                                                <DeleteIcon />
+                                            </IconButton>
+                                        </Tooltip>
+                                    </>
+                                )
+                            }
+                        >
+                            <ListItemIcon sx={{ minWidth: 36 }}>
+                                {attachment.mimeType === "application/pdf" ? <PictureAsPdfIcon /> : <DescriptionIcon />}
+                            </ListItemIcon>
+                            <ListItemText
+                                primary={
+                                    <a href={attachment.url} target="_blank" rel="noopener noreferrer">
+                                        {attachment.title}
+                                    </a>
+                                }
+                                secondary={`${attachment.fileName} · ${formatFileSize(attachment.size)}`}
+                            />
+                        </ListItem>
+                    ))}
+                </List>
+            )}
+            {canEdit && (
+                <Box sx={{ display: "flex", gap: 1, alignItems: "center", mt: 1 }}>
+                    <TextField
+                        size="small"
+                        label="Document title"
+                        placeholder="Defaults to the file name"
+                        value={title}
+                        onChange={(e) => setTitle(e.target.value)}
+                    />
+                    <Button variant="outlined" component="label" disabled={isAdding} startIcon={<AttachFileIcon />}>
+                        {isAdding ? "Uploading..." : "Add document"}
+                        <input
+                            hidden
+                            type="file"
+                            accept={ACCEPTED_TYPES}
+                            data-testid="add-attachment"
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) {
+                                    addMutation(file);
+                                }
+                                e.target.value = "";
+                            }}
+                        />
+                    </Button>
+                </Box>
+            )}
+            <Snackbar
+                open={Boolean(snackbarMessage)}
+                onClose={() => setSnackbarMessage("")}
+                autoHideDuration={3000}
+                anchorOrigin={{ vertical: "bottom", horizontal: "center" }}
+            >
+                <SnackbarContent message={snackbarMessage} sx={{ backgroundColor: "white", color: "black" }} />
+            </Snackbar>
+        </Box>
+    );
+};
+
+export default EventAttachments;
@@ -1,7 +1,8 @@
-import { Box, Card, CardContent, CardMedia, Grid, Typography, useMediaQuery, useTheme } from '@mui/material'
+import { Box, Card, CardContent, Grid, Typography, useMediaQuery, useTheme } from '@mui/material'
 import { ActivityDatabase } from "@/models/activityDatabase";
 import React from 'react'
 import { formatDate } from "@/utility/dateUtils";
+import CoverImage from "@/components/CoverImage";
 
 // declare the event prop that will get passed to the component
 interface EventCardProps {
@@ -19,11 +20,10 @@ function EventCard({ event }: EventCardProps) {
               <Box sx={{ margin: "0 auto", height: (isMobile || isTablet) ? 325 : 130, width: isMobile ? 260 : isTablet ? 400 : "80%", minWidth: !(isMobile || isTablet) ? 460 : 260, display: "block" }}>
                   <Card sx={{ display: 'flex', flexDirection: 'column', marginTop: 0 }}>
                       {(isMobile || isTablet) && (
-                          <CardMedia
-                            component="img"
+                          <CoverImage
+                            event={event}
+                            sizes="(max-width: 600px) 260px, 400px"
                             sx={{ height: 200, objectFit: "cover" }}
-                            image={event.eventCoverPhoto}
-                            alt={event.eventTitle}
                           />
                       )}
                       <CardContent sx={{ flexGrow: 1 }} >
@@ -31,7 +31,7 @@ function EventCard({ event }: EventCardProps) {
                               {event.eventTitle}
                           </Typography>
                           <Typography variant="body2" align={(isMobile || isTablet) ? "center" : "right"} color="text.secondary">
-                              Date: { formatDate(event.startDate) }
+                              Date: { formatDate(event.startDate, event.timeZone) }
                           </Typography>
                       </CardContent>
                   </Card>
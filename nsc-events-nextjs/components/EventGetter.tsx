@@ -5,6 +5,7 @@ import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardMedia, Typography, Grid, Box, CardActions, Button } from '@mui/material';
 import Link from "next/link";
 import { ActivityDatabase } from "@/models/activityDatabase";
+import { PaginatedResponse } from "@/types/paginated";
 const URL = process.env.NSC_EVENTS_PUBLIC_API_URL;
 
 const getEvents = async() => {
@@ -14,11 +15,11 @@ const getEvents = async() => {
 
 export function EventsList(){
 
-    const { data, isLoading, isError } = useQuery<ActivityDatabase[]>({
+    const { data, isLoading, isError } = useQuery<PaginatedResponse<ActivityDatabase>, Error, ActivityDatabase[]>({
         queryKey: ["event"],
         queryFn: getEvents,
-        select: (data: ActivityDatabase[]) => {
-           return data.filter( (event) => event.isHidden?.valueOf() === false)
+        select: (page: PaginatedResponse<ActivityDatabase>) => {
+           return page.data.filter( (event) => event.isHidden?.valueOf() === false)
         },
     });
 
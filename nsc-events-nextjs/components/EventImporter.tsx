@@ -0,0 +1,315 @@
+import React, { useState } from "react";
+import {
+    Alert,
+    Box,
+    Button,
+    Checkbox,
+    Chip,
+    FormControlLabel,
+    Grid,
+    MenuItem,
+    Stack,
+    Table,
+    TableBody,
+    TableCell,
+    TableContainer,
+    TableHead,
+    TableRow,
+    TextField,
+    Typography,
+} from "@mui/material";
+import { useMutation } from "@tanstack/react-query";
+import Link from "next/link";
+import { ColumnMapping, IMPORT_FIELDS, ImportField, ImportPreview, ImportResult } from "@/types/import";
+
+const fieldLabels: Record<ImportField, string> = {
+    eventTitle: "Title",
+    eventDescription: "Description",
+    startDate: "Start date and time",
+    endDate: "End date and time",
+    date: "Date",
+    startTime: "Start time",
+    endTime: "End time",
+    timeZone: "Time zone",
+    eventLocation: "Location",
+    eventHost: "Host",
+    eventContact: "Contact email",
+    eventCapacity: "Capacity",
+    eventTags: "Tags",
+    eventMeetingURL: "Meeting URL",
+    eventRegistration: "Registration",
+    eventSchedule: "Schedule",
+    eventSpeakers: "Speakers",
+    eventPrerequisites: "Prerequisites",
+    eventCancellationPolicy: "Cancellation policy",
+    eventPrivacy: "Privacy",
+    eventAccessibility: "Accessibility",
+    eventNote: "Note",
+    eventCoverPhoto: "Cover photo URL",
+    eventDocument: "Document URL",
+};
+
+// Values used for rows that leave these fields blank, e.g. calendar files
+// rarely say how many seats an event has
+const defaultFields: ImportField[] = ["eventHost", "eventContact", "eventLocation", "eventCapacity", "eventTags"];
+
+const sendImportRequest = async <T,>(path: string, form: FormData): Promise<T> => {
+    const token = localStorage.getItem("token");
+    const apiUrl = process.env.NSC_EVENTS_PUBLIC_API_URL;
+    const response = await fetch(`${apiUrl}/events/import${path}`, {
+        method: "POST",
+        headers: {
+            Authorization: `Bearer ${token}`,
+        },
+        body: form,
+    });
+    if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.message ?? response.statusText);
+    }
+    return response.json();
+};
+
+const formatStart = (value: unknown) =>
+    typeof value === "string" && !isNaN(Date.parse(value)) ? new Date(value).toLocaleString() : "";
+
+// Uploads a CSV or iCalendar file, shows what each row would become and
+// creates the valid ones
+const EventImporter = () => {
+    const [file, setFile] = useState<File | null>(null);
+    const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+    const [defaults, setDefaults] = useState<Partial<Record<ImportField, string>>>({});
+    const [isDraft, setIsDraft] = useState(false);
+    const [preview, setPreview] = useState<ImportPreview | null>(null);
+    const [result, setResult] = useState<ImportResult | null>(null);
+    const [errorMessage, setErrorMessage] = useState("");
+
+    const toForm = () => {
+        const form = new FormData();
+        form.append("file", file as File);
+        if (mapping && preview?.format === "csv") {
+            form.append("mapping", JSON.stringify(mapping));
+        }
+        const filled = Object.entries(defaults).filter(([, value]) => value?.trim());
+        if (filled.length) {
+            form.append("defaults", JSON.stringify(Object.fromEntries(filled)));
+        }
+        form.append("publicationStatus", isDraft ? "draft" : "published");
+        return form;
+    };
+
+    const { mutate: previewMutation, isPending: isPreviewing } = useMutation({
+        mutationFn: () => sendImportRequest<ImportPreview>("/preview", toForm()),
+        onSuccess: (data) => {
+            setPreview(data);
+            setMapping(data.mapping);
+            setErrorMessage("");
+        },
+        onError: (error: Error) => {
+            console.error("error: ", error);
+            setErrorMessage(error.message || "Failed to read the file.");
+        },
+    });
+
+    const { mutate: importMutation, isPending: isImporting } = useMutation({
+        mutationFn: () => sendImportRequest<ImportResult>("", toForm()),
+        onSuccess: (data) => {
+            setResult(data);
+            setPreview(null);
+            setErrorMessage("");
+        },
+        onError: (error: Error) => {
+            console.error("error: ", error);
+            setErrorMessage(error.message || "Failed to import events.");
+        },
+    });
+
+    const chooseFile = (chosen: File | null) => {
+        setFile(chosen);
+        setMapping(null);
+        setPreview(null);
+        setResult(null);
+    };
+
+    const validCount = preview?.rows.filter((row) => row.errors.length === 0).length ?? 0;
+
+    return (
+        <Stack spacing={3}>
+            <Box>
+                <Typography variant="body1" gutterBottom>
+                    Upload a spreadsheet saved as CSV with a header row, or an .ics calendar file. Dates and
+                    times without a time zone are read in the row&apos;s Time zone column, or as Pacific time.
+                </Typography>
+                <Button variant="outlined" component="label">
+                    Choose file
+                    <input
+                        hidden
+                        type="file"
+                        accept=".csv,.ics,text/csv,text/calendar"
+                        data-testid="import-file"
+                        onChange={(e) => chooseFile(e.target.files?.[0] ?? null)}
+                    />
+                </Button>
+                {file && (
+                    <Typography component="span" sx={{ ml: 2 }}>
+                        {file.name}
+                    </Typography>
+                )}
+            </Box>
+
+            <Box>
+                <Typography variant="h6" gutterBottom>
+                    Defaults for blank fields
+                </Typography>
+                <Grid container spacing={2}>
+                    {defaultFields.map((field) => (
+                        <Grid item xs={12} sm={6} md={4} key={field}>
+                            <TextField
+                                fullWidth
+                                size="small"
+                                label={fieldLabels[field]}
+                                value={defaults[field] ?? ""}
+                                helperText={
+                                    field === "eventTags"
+                                        ? "Comma separated"
+                                        : field === "eventCapacity"
+                                          ? 'A number or "unlimited"'
+                                          : undefined
+                                }
+                                onChange={(e) => setDefaults({ ...defaults, [field]: e.target.value })}
+                            />
+                        </Grid>
+                    ))}
+                </Grid>
+                <FormControlLabel
+                    control={<Checkbox checked={isDraft} onChange={(e) => setIsDraft(e.target.checked)} />}
+                    label="Import as drafts"
+                />
+            </Box>
+
+            {preview?.format === "csv" && mapping && (
+                <Box>
+                    <Typography variant="h6" gutterBottom>
+                        Columns
+                    </Typography>
+                    <Grid container spacing={2}>
+                        {preview.headers.map((header) => (
+                            <Grid item xs={12} sm={6} md={4} key={header}>
+                                <TextField
+                                    select
+                                    fullWidth
+                                    size="small"
+                                    label={header}
+                                    value={mapping[header] ?? ""}
+                                    onChange={(e) => {
+                                        const next = { ...mapping };
+                                        if (e.target.value) {
+                                            next[header] = e.target.value as ImportField;
+                                        } else {
+                                            delete next[header];
+                                        }
+                                        setMapping(next);
+                                    }}
+                                >
+                                    <MenuItem value="">Don&apos;t import</MenuItem>
+                                    {IMPORT_FIELDS.map((field) => (
+                                        <MenuItem key={field} value={field}>
+                                            {fieldLabels[field]}
+                                        </MenuItem>
+                                    ))}
+                                </TextField>
+                            </Grid>
+                        ))}
+                    </Grid>
+                </Box>
+            )}
+
+            <Box sx={{ display: "flex", gap: 1, flexWrap: "wrap" }}>
+                <Button variant="outlined" disabled={!file || isPreviewing} onClick={() => previewMutation()}>
+                    {preview ? "Update preview" : "Preview"}
+                </Button>
+                {preview && (
+                    <Button
+                        variant="contained"
+                        disabled={validCount === 0 || isImporting}
+                        onClick={() => importMutation()}
+                    >
+                        {`Import ${validCount} ${validCount === 1 ? "event" : "events"}`}
+                    </Button>
+                )}
+            </Box>
+
+            {errorMessage && <Alert severity="error">{errorMessage}</Alert>}
+
+            {preview && (
+                <TableContainer>
+                    <Table size="small">
+                        <TableHead>
+                            <TableRow>
+                                <TableCell>Row</TableCell>
+                                <TableCell>Title</TableCell>
+                                <TableCell>Starts</TableCell>
+                                <TableCell>Status</TableCell>
+                            </TableRow>
+                        </TableHead>
+                        <TableBody>
+                            {preview.rows.map((row) => (
+                                <TableRow key={row.row}>
+                                    <TableCell>{row.row}</TableCell>
+                                    <TableCell>{String(row.fields.eventTitle ?? "")}</TableCell>
+                                    <TableCell>{formatStart(row.fields.startDate)}</TableCell>
+                                    <TableCell>
+                                        {row.errors.length === 0 ? (
+                                            <Chip size="small" color="success" label="Ready" />
+                                        ) : (
+                                            row.errors.map((error) => (
+                                                <Typography key={error} variant="body2" color="error">
+                                                    {error}
+                                                </Typography>
+                                            ))
+                                        )}
+                                        {row.warnings.map((warning) => (
+                                            <Typography key={warning} variant="body2" color="text.secondary">
+                                                {warning}
+                                            </Typography>
+                                        ))}
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                </TableContainer>
+            )}
+
+            {result && (
+                <Box>
+                    <Alert severity={result.skipped.length ? "warning" : "success"}>
+                        {`Created ${result.created.length} ${result.created.length === 1 ? "event" : "events"}`}
+                        {result.skipped.length > 0 && `, skipped ${result.skipped.length}`}.
+                    </Alert>
+                    <ul>
+                        {result.created.map((event) => (
+                            <li key={event.id}>
+                                <Link href={`/event-detail?id=${event.id}`}>{event.eventTitle}</Link>
+                            </li>
+                        ))}
+                    </ul>
+                    {result.skipped.length > 0 && (
+                        <>
+                            <Typography variant="h6">Skipped</Typography>
+                            <ul>
+                                {result.skipped.map((row) => (
+                                    <li key={row.row}>
+                                        {`Row ${row.row}${row.eventTitle ? ` (${row.eventTitle})` : ""}: ${row.errors.join("; ")}`}
+                                    </li>
+                                ))}
+                            </ul>
+                        </>
+                    )}
+                </Box>
+            )}
+        </Stack>
+    );
+};
+
+export default EventImporter;
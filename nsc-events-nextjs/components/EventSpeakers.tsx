@@ -0,0 +1,46 @@
+import React from "react";
+import Link from "next/link";
+import { Avatar, Box, Typography } from "@mui/material";
+import { useSpeakers } from "@/utility/queries";
+
+interface EventSpeakersProps {
+    eventId: string;
+}
+
+// The event's speakers with their photos, each linking to their page
+const EventSpeakers = ({ eventId }: EventSpeakersProps) => {
+    const { data: speakers = [] } = useSpeakers(eventId);
+
+    if (speakers.length === 0) {
+        return null;
+    }
+
+    return (
+        <Box sx={{ mt: 2 }}>
+            <Typography variant="h6" sx={{ fontWeight: "bold" }}>
+                Speakers
+            </Typography>
+            <Box component="ul" sx={{ listStyle: "none", margin: 0, padding: 0 }}>
+                {speakers.map((speaker) => (
+                    <Box component="li" key={speaker.id} sx={{ display: "flex", alignItems: "center", gap: 2, py: 1 }}>
+                        <Avatar src={speaker.headshotUrl || undefined} alt={speaker.name}>
+                            {speaker.name.charAt(0)}
+                        </Avatar>
+                        <Box>
+                            <Typography variant="body2" fontWeight="bold">
+                                <Link href={{ pathname: "/speaker", query: { slug: speaker.slug } }}>{speaker.name}</Link>
+                            </Typography>
+                            {(speaker.title || speaker.affiliation) && (
+                                <Typography variant="body2" color="text.secondary">
+                                    {[speaker.title, speaker.affiliation].filter(Boolean).join(", ")}
+                                </Typography>
+                            )}
+                        </Box>
+                    </Box>
+                ))}
+            </Box>
+        </Box>
+    );
+};
+
+export default EventSpeakers;
@@ -0,0 +1,109 @@
+import React, { useState } from "react";
+import { Button, ListItemText, Menu, MenuItem, Snackbar, SnackbarContent } from "@mui/material";
+import DownloadIcon from "@mui/icons-material/Download";
+
+type ExportFormat = "csv" | "xlsx" | "json";
+
+const formats: { format: ExportFormat; label: string }[] = [
+    { format: "csv", label: "CSV" },
+    { format: "xlsx", label: "Excel (.xlsx)" },
+    { format: "json", label: "JSON" },
+];
+
+interface ExportMenuProps {
+    // Export endpoint below the API URL, e.g. "/export/events"
+    path: string;
+    // Filters sent along with the chosen format
+    params: Record<string, string>;
+    label?: string;
+    disabled?: boolean;
+}
+
+// Reads the file name the server picked, e.g. attachment; filename="events-2025-01-15.csv"
+const toFileName = (disposition: string | null, format: ExportFormat) =>
+    disposition?.match(/filename="([^"]+)"/)?.[1] ?? `export.${format}`;
+
+const downloadExport = async (path: string, params: Record<string, string>, format: ExportFormat) => {
+    const token = localStorage.getItem("token");
+    const apiUrl = process.env.NSC_EVENTS_PUBLIC_API_URL;
+    const query = new URLSearchParams({ ...params, format });
+    const response = await fetch(`${apiUrl}${path}?${query.toString()}`, {
+        headers: {
+            Authorization: `Bearer ${token}`,
+        },
+    });
+    if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.message ?? response.statusText);
+    }
+
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = toFileName(response.headers.get("Content-Disposition"), format);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+// Downloads a report from one of the export endpoints in the format picked
+// from the menu
+const ExportMenu = ({ path, params, label = "Export", disabled }: ExportMenuProps) => {
+    const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
+    const [isExporting, setIsExporting] = useState(false);
+    const [snackbarMessage, setSnackbarMessage] = useState("");
+
+    const exportAs = async (format: ExportFormat) => {
+        setAnchorEl(null);
+        setIsExporting(true);
+        try {
+            await downloadExport(path, params, format);
+        } catch (error) {
+            console.error("Error exporting:", error);
+            setSnackbarMessage((error as Error).message || "Export failed.");
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    return (
+        <>
+            <Button
+                variant="outlined"
+                id="export-button"
+                aria-controls={anchorEl ? "export-menu" : undefined}
+                aria-haspopup="true"
+                aria-expanded={anchorEl ? "true" : undefined}
+                disabled={disabled || isExporting}
+                onClick={(e) => setAnchorEl(e.currentTarget)}
+                startIcon={<DownloadIcon />}
+            >
+                {isExporting ? "Exporting..." : label}
+            </Button>
+            <Menu
+                id="export-menu"
+                anchorEl={anchorEl}
+                open={Boolean(anchorEl)}
+                onClose={() => setAnchorEl(null)}
+                MenuListProps={{ "aria-labelledby": "export-button" }}
+            >
+                {formats.map(({ format, label: formatLabel }) => (
+                    <MenuItem key={format} onClick={() => exportAs(format)}>
+                        <ListItemText>{formatLabel}</ListItemText>
+                    </MenuItem>
+                ))}
+            </Menu>
+            <Snackbar
+                open={Boolean(snackbarMessage)}
+                onClose={() => setSnackbarMessage("")}
+                autoHideDuration={3000}
+                anchorOrigin={{ vertical: "bottom", horizontal: "center" }}
+            >
+                <SnackbarContent message={snackbarMessage} sx={{ backgroundColor: "white", color: "black" }} />
+            </Snackbar>
+        </>
+    );
+};
+
+export default ExportMenu;
@@ -0,0 +1,30 @@
+import React from "react";
+import { Box } from "@mui/material";
+import { splitHighlights } from "@/utility/highlight";
+
+interface HighlightedTextProps {
+    // search snippet with matches wrapped in <mark> tags
+    snippet: string;
+}
+
+const HighlightedText = ({ snippet }: HighlightedTextProps) => {
+    return (
+        <>
+            {splitHighlights(snippet).map((part, index) =>
+                part.highlighted ? (
+                    <Box
+                        key={index}
+                        component="mark"
+                        sx={{ backgroundColor: "warning.light", color: "inherit", px: 0.25, borderRadius: 0.5 }}
+                    >
+                        {part.text}
+                    </Box>
+                ) : (
+                    <React.Fragment key={index}>{part.text}</React.Fragment>
+                )
+            )}
+        </>
+    );
+};
+
+export default HighlightedText;
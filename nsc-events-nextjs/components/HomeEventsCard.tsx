@@ -2,19 +2,23 @@ import {
   Box,
   Card,
   CardContent,
-  CardMedia,
   Typography,
   useMediaQuery,
   useTheme,
 } from "@mui/material";
 import React from "react";
 import Link from "next/link";
-import { formatDate, formatTimeWithTimezone } from "@/utility/dateUtils";
-import { ActivityDatabase } from "@/models/activityDatabase";
+import { formatDate, formatTimeWithTimezone, formatViewerTime } from "@/utility/dateUtils";
+import { DEFAULT_TIME_ZONE } from "@/utility/timeZones";
+import { ActivitySearchResult } from "@/models/activityDatabase";
+import { recurrenceFrequencyLabels } from "@/models/activity";
+import HighlightedText from "@/components/HighlightedText";
+import CoverImage from "@/components/CoverImage";
 
 // declare the event prop that will get passed to the component
+// search results also carry highlighted snippets, which replace the plain text
 interface EventCardProps {
-  event: ActivityDatabase;
+  event: ActivitySearchResult;
 }
 
 function HomeEventsCard({ event }: EventCardProps) {
@@ -25,6 +29,9 @@ function HomeEventsCard({ event }: EventCardProps) {
 
 
   const { palette } = theme;
+  const timeZone = event.timeZone || DEFAULT_TIME_ZONE;
+  const viewerStartTime = formatViewerTime(event.startDate, timeZone);
+  const viewerEndTime = formatViewerTime(event.endDate, timeZone);
 
   return (
     <Box
@@ -48,11 +55,10 @@ function HomeEventsCard({ event }: EventCardProps) {
         }}
       >
         {!isMobile && (
-          <CardMedia
-            component="img"
-            // image={event.eventCoverPhoto} this is the original line of code 
-            image={event.eventCoverPhoto ? event.eventCoverPhoto : '/images/default_cover_light.png'}
-            alt={event.eventTitle}
+          <CoverImage
+            event={event}
+            fallback="/images/default_cover_light.png"
+            sizes="200px"
             sx={{
               objectFit: "cover",
               marginBlock: 2,
@@ -119,7 +125,7 @@ function HomeEventsCard({ event }: EventCardProps) {
                       maxHeight: "3.5rem", // roughly 2 lines
                     }}
                   >
-                    {event.eventTitle}
+                    {event.highlights ? <HighlightedText snippet={event.highlights.eventTitle} /> : event.eventTitle}
                   </Typography>
                 </Box>
               </Link>
@@ -143,7 +149,7 @@ function HomeEventsCard({ event }: EventCardProps) {
               {new Date(event.startDate).toLocaleDateString("en-US", {
                 month: "short",
                 day: "numeric",
-                timeZone: "UTC",
+                timeZone,
               })}
             </Box>
           </Box>
@@ -154,12 +160,19 @@ function HomeEventsCard({ event }: EventCardProps) {
               </Typography>
                 <Typography fontFamily="font-serif">
                     <strong>Date:&nbsp;</strong>
-                    {formatDate(event.startDate)}
+                    {formatDate(event.startDate, timeZone)}
                     <br/>
-                    <strong>Start Time:</strong> {formatTimeWithTimezone(event.startDate)}
+                    <strong>Start Time:</strong> {formatTimeWithTimezone(event.startDate, timeZone)}
+                    {viewerStartTime && ` (${viewerStartTime} your time)`}
                     <br/>
-                    <strong>End Time:</strong> {formatTimeWithTimezone(event.endDate)}
+                    <strong>End Time:</strong> {formatTimeWithTimezone(event.endDate, timeZone)}
+                    {viewerEndTime && ` (${viewerEndTime} your time)`}
                 </Typography>
+                {event.recurrenceRule && (
+                  <Typography fontFamily="font-serif">
+                    <strong>Repeats:</strong> {recurrenceFrequencyLabels[event.recurrenceRule.frequency]}
+                  </Typography>
+                )}
 
                 <Typography
                 fontFamily="font-serif"
@@ -174,7 +187,7 @@ function HomeEventsCard({ event }: EventCardProps) {
                   wordBreak: "break-word", // allow word wrapping
                 }}
               >
-                {event.eventDescription}
+                {event.highlights ? <HighlightedText snippet={event.highlights.eventDescription} /> : event.eventDescription}
               </Typography>
             </Box>
 
@@ -7,7 +7,6 @@ import HomeEventsCard from "./HomeEventsCard";
 import { useFilteredEvents } from "@/utility/queries";
 import Link from "next/link";
 import TagSelector from "@/components/TagSelector";
-import { EventTags } from "@/utility/tags";
 
 export function HomeEventsList() {
     const [page, setPage] = useState(1);
@@ -23,14 +22,14 @@ export function HomeEventsList() {
     useEffect(() => {
         if (data) {
             setEvents((prevEvents) => {
-                const newEvents = [...prevEvents, ...data];
+                const newEvents = [...prevEvents, ...data.data];
                 // filter events to avoid duplicates (fixes Unarchive Event bug)
                 const uniqueEvents = newEvents.filter((event, index, self) =>
                     index === self.findIndex((e) => e.id === event.id)
                 );
                 return uniqueEvents;
             });
-            setReachedLastPage(data.length < 5);
+            setReachedLastPage(!data.nextCursor);
         }
     }, [data]);
 
@@ -73,7 +72,6 @@ export function HomeEventsList() {
                     {showTags && (
                         <TagSelector
                             selectedTags={activeTags}
-                            allTags={[...EventTags]}
                             onTagClick={handleTagClicked}
                         />
                     )}
@@ -93,7 +91,7 @@ export function HomeEventsList() {
                 )}
 
                 {/* Load more button */}
-                {data && data.length > 0 && !reachedLastPage && (
+                {data && data.data.length > 0 && !reachedLastPage && (
                     <Button
                         onClick={handleLoadMoreEvents}
                         type="button"
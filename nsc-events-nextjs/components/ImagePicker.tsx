@@ -1,7 +1,16 @@
 import React, { useState, ChangeEvent } from 'react';
 import Image from 'next/image'
+import { Box, LinearProgress, Typography } from '@mui/material';
+import { COVER_IMAGE_TYPES } from '@/utility/coverImageUpload';
 
-const ImagePicker: React.FC = () => {
+interface ImagePickerProps {
+  onImageChange?: (file: File | null) => void;
+  // Percentage of the picked image uploaded so far, while it uploads
+  uploadProgress?: number | null;
+  disabled?: boolean;
+}
+
+const ImagePicker: React.FC<ImagePickerProps> = ({ onImageChange, uploadProgress = null, disabled = false }) => {
 
   const [selectedImage, setSelectedImage] = useState<File | null>(null);
   const [preview, setPreview] = useState<string | ArrayBuffer | null>(null);
@@ -13,6 +22,7 @@ const ImagePicker: React.FC = () => {
 
       // update state
       setSelectedImage(file);
+      onImageChange?.(file);
 
       // create a preview
       const reader = new FileReader();
@@ -25,15 +35,29 @@ const ImagePicker: React.FC = () => {
 
   return (
       <div>
-        <input type="file" accept='image/*' onChange={handleImageChange} />
+        <input
+          type="file"
+          accept={COVER_IMAGE_TYPES.join(', ')}
+          onChange={handleImageChange}
+          disabled={disabled}
+          data-testid="image-picker-input"
+        />
           {preview && (
             <div>
               <h3>Image Preview:</h3>
               <Image src={preview.toString()} alt="Preview" width={500} height={500} />
-            </div> 
+            </div>
+          )}
+          {selectedImage && uploadProgress !== null && (
+            <Box sx={{ marginTop: 1 }}>
+              <LinearProgress variant="determinate" value={uploadProgress} aria-label="Upload progress" />
+              <Typography variant="body2" color="textSecondary">
+                Uploading {selectedImage.name}: {uploadProgress}%
+              </Typography>
+            </Box>
           )}
       </div>
   );
 };
 
-export default ImagePicker; 
\ No newline at end of file
+export default ImagePicker;
@@ -0,0 +1,174 @@
+import React, { useState } from "react";
+import {
+    Box,
+    Button,
+    CircularProgress,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogContentText,
+    DialogTitle,
+    Pagination,
+    Paper,
+    Snackbar,
+    SnackbarContent,
+    Stack,
+    TextField,
+    Typography,
+} from "@mui/material";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import Link from "next/link";
+import { ActivityDatabase } from "@/models/activityDatabase";
+import { usePendingEvents } from "@/utility/queries";
+import { formatDateTime } from "@/utility/dateUtils";
+
+interface ReviewDecision {
+    id: string;
+    approve: boolean;
+    reason?: string;
+}
+
+const reviewEvent = async ({ id, approve, reason }: ReviewDecision) => {
+    const token = localStorage.getItem("token");
+    const apiUrl = process.env.NSC_EVENTS_PUBLIC_API_URL;
+    const endpoint = approve ? "approve" : "reject";
+    const response = await fetch(`${apiUrl}/events/moderation/${id}/${endpoint}`, {
+        method: "PUT",
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+        },
+        body: approve ? undefined : JSON.stringify({ reason }),
+    });
+    if (!response.ok) {
+        throw new Error(`Failed to ${endpoint} event: ${response.statusText}`);
+    }
+    return response.json();
+};
+
+// Admin queue of creator-submitted events waiting for approval
+const ModerationQueue = () => {
+    const [page, setPage] = useState(1);
+    const [rejecting, setRejecting] = useState<ActivityDatabase | null>(null);
+    const [reason, setReason] = useState("");
+    const [snackbarMessage, setSnackbarMessage] = useState("");
+    const queryClient = useQueryClient();
+    const { data, isLoading, isError } = usePendingEvents(page, true);
+
+    const { mutate: reviewMutation, isPending } = useMutation({
+        mutationFn: reviewEvent,
+        onSuccess: async (_data, variables) => {
+            setSnackbarMessage(variables.approve ? "Event approved." : "Event rejected.");
+            await queryClient.invalidateQueries({ queryKey: ["pendingEvents"] });
+        },
+        onError: (error: Error, variables) => {
+            console.error("error: ", error);
+            setSnackbarMessage(variables.approve ? "Failed to approve event." : "Failed to reject event.");
+        },
+    });
+
+    const closeRejectDialog = () => {
+        setRejecting(null);
+        setReason("");
+    };
+
+    const confirmReject = () => {
+        if (rejecting && reason.trim()) {
+            reviewMutation({ id: rejecting.id, approve: false, reason: reason.trim() });
+            closeRejectDialog();
+        }
+    };
+
+    const events = data?.data ?? [];
+
+    return (
+        <Box>
+            {isLoading ? (
+                <CircularProgress />
+            ) : isError ? (
+                <Typography color="error">Could not load events awaiting review.</Typography>
+            ) : events.length === 0 ? (
+                <Typography>No events are waiting for review.</Typography>
+            ) : (
+                <Stack spacing={2}>
+                    {events.map((event) => (
+                        <Paper key={event.id} sx={{ padding: 2 }}>
+                            <Typography variant="h6">
+                                <Link href={`/event-detail?id=${event.id}`}>{event.eventTitle}</Link>
+                            </Typography>
+                            <Typography variant="body2">
+                                {formatDateTime(event.startDate, event.timeZone)} · {event.eventLocation} · Hosted by {event.eventHost}
+                            </Typography>
+                            {event.seriesId && (
+                                <Typography variant="body2" color="text.secondary">
+                                    Recurring series, the decision applies to every occurrence
+                                </Typography>
+                            )}
+                            <Typography variant="body2" sx={{ mt: 1 }}>
+                                {event.eventDescription}
+                            </Typography>
+                            <Stack direction="row" spacing={1} sx={{ mt: 2 }}>
+                                <Button
+                                    variant="contained"
+                                    color="success"
+                                    disabled={isPending}
+                                    onClick={() => reviewMutation({ id: event.id, approve: true })}
+                                >
+                                    Approve
+                                </Button>
+                                <Button
+                                    variant="outlined"
+                                    color="error"
+                                    disabled={isPending}
+                                    onClick={() => setRejecting(event)}
+                                >
+                                    Reject
+                                </Button>
+                            </Stack>
+                        </Paper>
+                    ))}
+                </Stack>
+            )}
+            {data && data.totalPages > 1 && (
+                <Box sx={{ display: "flex", justifyContent: "center", my: 3 }}>
+                    <Pagination count={data.totalPages} page={page} onChange={(_, value) => setPage(value)} />
+                </Box>
+            )}
+            <Dialog open={Boolean(rejecting)} onClose={closeRejectDialog} fullWidth>
+                <DialogTitle>Reject Event?</DialogTitle>
+                <DialogContent>
+                    <DialogContentText>
+                        The creator of &quot;{rejecting?.eventTitle}&quot; will be emailed this reason.
+                    </DialogContentText>
+                    <TextField
+                        autoFocus
+                        fullWidth
+                        multiline
+                        minRows={3}
+                        margin="dense"
+                        label="Reason"
+                        value={reason}
+                        onChange={(e) => setReason(e.target.value)}
+                        inputProps={{ maxLength: 1000 }}
+                    />
+                </DialogContent>
+                <DialogActions>
+                    <Button onClick={closeRejectDialog}>Cancel</Button>
+                    <Button onClick={confirmReject} disabled={!reason.trim()} color="error">
+                        Reject
+                    </Button>
+                </DialogActions>
+            </Dialog>
+            <Snackbar
+                open={Boolean(snackbarMessage)}
+                onClose={() => setSnackbarMessage("")}
+                autoHideDuration={1200}
+                anchorOrigin={{ vertical: "bottom", horizontal: "center" }}
+            >
+                <SnackbarContent message={snackbarMessage} sx={{ backgroundColor: "white", color: "black" }} />
+            </Snackbar>
+        </Box>
+    );
+};
+
+export default ModerationQueue;
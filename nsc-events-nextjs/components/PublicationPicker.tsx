@@ -0,0 +1,58 @@
+import React from "react";
+import {
+    FormControl,
+    FormControlLabel,
+    FormLabel,
+    Radio,
+    RadioGroup,
+    Stack,
+    TextField,
+    Typography,
+} from "@mui/material";
+import { DateTimePicker } from "@mui/x-date-pickers";
+import { PublicationStatus } from "@/models/activity";
+
+interface PublicationPickerProps {
+    status: PublicationStatus;
+    publishAt: Date | null;
+    onStatusChange: (status: PublicationStatus) => void;
+    onPublishAtChange: (publishAt: Date | null) => void;
+    error?: string;
+}
+
+const PublicationPicker = ({ status, publishAt, onStatusChange, onPublishAtChange, error }: PublicationPickerProps) => {
+    return (
+        <Stack spacing={2}>
+            <FormControl>
+                <FormLabel id="publication-status-label">Visibility</FormLabel>
+                <RadioGroup
+                    aria-labelledby="publication-status-label"
+                    value={status}
+                    onChange={(e) => onStatusChange(e.target.value as PublicationStatus)}
+                >
+                    <FormControlLabel value="published" control={<Radio />} label="Publish now" />
+                    <FormControlLabel value="draft" control={<Radio />} label="Save as draft" />
+                    <FormControlLabel value="scheduled" control={<Radio />} label="Schedule" />
+                </RadioGroup>
+            </FormControl>
+
+            {status === "scheduled" && (
+                <DateTimePicker
+                    label="Publish on"
+                    value={publishAt}
+                    onChange={(date) => onPublishAtChange(date as Date | null)}
+                    disablePast
+                    renderInput={(params) => <TextField {...params} />}
+                />
+            )}
+
+            {error && (
+                <Typography variant="body2" color="error">
+                    {error}
+                </Typography>
+            )}
+        </Stack>
+    );
+};
+
+export default PublicationPicker;
@@ -0,0 +1,135 @@
+import React, { useState } from "react";
+import {
+    Box,
+    Button,
+    Chip,
+    FormControl,
+    FormControlLabel,
+    InputLabel,
+    MenuItem,
+    Radio,
+    RadioGroup,
+    Select,
+    Stack,
+    TextField,
+    Typography,
+} from "@mui/material";
+import { DatePicker } from "@mui/x-date-pickers";
+import { format, isSameDay } from "date-fns";
+import { RecurrenceFrequency, recurrenceFrequencyLabels, RecurrenceSelection } from "@/models/activity";
+
+interface RecurrencePickerProps {
+    value: RecurrenceSelection;
+    onChange: (value: RecurrenceSelection) => void;
+    minDate?: Date | null;
+    error?: string;
+}
+
+const RecurrencePicker = ({ value, onChange, minDate, error }: RecurrencePickerProps) => {
+    const [skipDate, setSkipDate] = useState<Date | null>(null);
+
+    const update = (changes: Partial<RecurrenceSelection>) => {
+        onChange({ ...value, ...changes });
+    };
+
+    const addExceptionDate = () => {
+        if (!skipDate || value.exceptionDates.some((d) => isSameDay(d, skipDate))) {
+            return;
+        }
+        update({ exceptionDates: [...value.exceptionDates, skipDate] });
+        setSkipDate(null);
+    };
+
+    const removeExceptionDate = (date: Date) => {
+        update({ exceptionDates: value.exceptionDates.filter((d) => !isSameDay(d, date)) });
+    };
+
+    return (
+        <Stack spacing={2}>
+            <FormControl fullWidth>
+                <InputLabel id="recurrence-frequency-label">Repeats</InputLabel>
+                <Select
+                    labelId="recurrence-frequency-label"
+                    id="recurrence-frequency"
+                    label="Repeats"
+                    value={value.frequency}
+                    onChange={(e) => update({ frequency: e.target.value as RecurrenceSelection["frequency"] })}
+                >
+                    <MenuItem value="none">Does not repeat</MenuItem>
+                    {(Object.keys(recurrenceFrequencyLabels) as RecurrenceFrequency[]).map((frequency) => (
+                        <MenuItem key={frequency} value={frequency}>
+                            {recurrenceFrequencyLabels[frequency]}
+                        </MenuItem>
+                    ))}
+                </Select>
+            </FormControl>
+
+            {value.frequency !== "none" && (
+                <>
+                    <RadioGroup
+                        row
+                        value={value.endType}
+                        onChange={(e) => update({ endType: e.target.value as RecurrenceSelection["endType"] })}
+                    >
+                        <FormControlLabel value="count" control={<Radio />} label="After" />
+                        <FormControlLabel value="until" control={<Radio />} label="On date" />
+                    </RadioGroup>
+
+                    {value.endType === "count" ? (
+                        <TextField
+                            id="recurrence-count"
+                            label="Occurrences"
+                            type="number"
+                            value={value.count}
+                            onChange={(e) => update({ count: parseInt(e.target.value, 10) || 0 })}
+                            inputProps={{ min: 1, max: 104 }}
+                        />
+                    ) : (
+                        <DatePicker
+                            label="Ends on"
+                            value={value.until}
+                            onChange={(date) => update({ until: date as Date | null })}
+                            minDate={minDate ?? undefined}
+                            renderInput={(params) => <TextField {...params} />}
+                        />
+                    )}
+
+                    <Box>
+                        <Typography variant="body2" sx={{ mb: 1 }}>
+                            Skip dates
+                        </Typography>
+                        <Box sx={{ display: "flex", gap: 1, alignItems: "center" }}>
+                            <DatePicker
+                                label="Skip date"
+                                value={skipDate}
+                                onChange={(date) => setSkipDate(date as Date | null)}
+                                minDate={minDate ?? undefined}
+                                renderInput={(params) => <TextField {...params} size="small" />}
+                            />
+                            <Button variant="outlined" onClick={addExceptionDate} disabled={!skipDate}>
+                                Skip
+                            </Button>
+                        </Box>
+                        <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap sx={{ mt: 1 }}>
+                            {value.exceptionDates.map((date) => (
+                                <Chip
+                                    key={date.toISOString()}
+                                    label={format(date, "MMM d, yyyy")}
+                                    onDelete={() => removeExceptionDate(date)}
+                                />
+                            ))}
+                        </Stack>
+                    </Box>
+                </>
+            )}
+
+            {error && (
+                <Typography variant="body2" color="error">
+                    {error}
+                </Typography>
+            )}
+        </Stack>
+    );
+};
+
+export default RecurrencePicker;
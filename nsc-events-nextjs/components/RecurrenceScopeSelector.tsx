@@ -0,0 +1,28 @@
+import React from "react";
+import { FormControl, FormControlLabel, FormLabel, Radio, RadioGroup } from "@mui/material";
+import { RecurrenceScope } from "@/models/activity";
+
+interface RecurrenceScopeSelectorProps {
+    value: RecurrenceScope;
+    onChange: (scope: RecurrenceScope) => void;
+    label?: string;
+}
+
+const RecurrenceScopeSelector = ({ value, onChange, label = "This is a recurring event" }: RecurrenceScopeSelectorProps) => {
+    return (
+        <FormControl>
+            <FormLabel id="recurrence-scope-label">{label}</FormLabel>
+            <RadioGroup
+                aria-labelledby="recurrence-scope-label"
+                value={value}
+                onChange={(e) => onChange(e.target.value as RecurrenceScope)}
+            >
+                <FormControlLabel value="occurrence" control={<Radio />} label="This event" />
+                <FormControlLabel value="following" control={<Radio />} label="This and following events" />
+                <FormControlLabel value="series" control={<Radio />} label="All events in the series" />
+            </RadioGroup>
+        </FormControl>
+    );
+};
+
+export default RecurrenceScopeSelector;
@@ -0,0 +1,185 @@
+import React, { useState } from "react";
+import {
+    Box,
+    Button,
+    CircularProgress,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogContentText,
+    DialogTitle,
+    Paper,
+    Snackbar,
+    SnackbarContent,
+    Stack,
+    Typography,
+} from "@mui/material";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useRevisions } from "@/utility/queries";
+import { formatDateTime } from "@/utility/dateUtils";
+import { revisionActionLabels } from "@/types/revision";
+
+interface RevisionHistoryDialogProps {
+    isOpen: boolean;
+    eventId: string;
+    dialogToggle: () => void;
+}
+
+const fieldLabels: Record<string, string> = {
+    eventTitle: "Title",
+    eventDescription: "Description",
+    startDate: "Start",
+    endDate: "End",
+    eventLocation: "Location",
+    roomId: "Room",
+    eventCoverPhoto: "Cover photo",
+    eventDocument: "Document",
+    eventHost: "Host",
+    eventMeetingURL: "Meeting URL",
+    eventRegistration: "Registration",
+    eventCapacity: "Capacity",
+    eventTags: "Tags",
+    eventSchedule: "Schedule",
+    eventSpeakers: "Speakers",
+    eventPrerequisites: "Prerequisites",
+    eventCancellationPolicy: "Cancellation policy",
+    eventContact: "Contact",
+    eventSocialMedia: "Social media",
+    eventPrivacy: "Privacy",
+    eventAccessibility: "Accessibility",
+    eventNote: "Note",
+    isArchived: "Archived",
+};
+
+const MAX_VALUE_LENGTH = 120;
+
+export const formatRevisionValue = (field: string, value: unknown): string => {
+    if (value === null || value === undefined || value === "") {
+        return "(empty)";
+    }
+    let text: string;
+    if ((field === "startDate" || field === "endDate") && typeof value === "string") {
+        text = formatDateTime(value);
+    } else if (typeof value === "boolean") {
+        text = value ? "Yes" : "No";
+    } else if (Array.isArray(value)) {
+        text = value.length ? value.join(", ") : "(empty)";
+    } else if (typeof value === "object") {
+        text = Object.entries(value as Record<string, unknown>)
+            .filter(([, nested]) => nested)
+            .map(([key, nested]) => `${key}: ${nested}`)
+            .join(", ") || "(empty)";
+    } else {
+        text = String(value);
+    }
+    return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+};
+
+const restoreRevision = async (eventId: string, revision: number) => {
+    const token = localStorage.getItem("token");
+    const apiUrl = process.env.NSC_EVENTS_PUBLIC_API_URL;
+    const response = await fetch(`${apiUrl}/events/${eventId}/revisions/${revision}/restore`, {
+        method: "POST",
+        headers: {
+            Authorization: `Bearer ${token}`,
+        },
+    });
+    if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.message ?? response.statusText);
+    }
+};
+
+// Who changed what on an event, with a way back to any earlier revision
+const RevisionHistoryDialog = ({ isOpen, eventId, dialogToggle }: RevisionHistoryDialogProps) => {
+    const [snackbarMessage, setSnackbarMessage] = useState("");
+    const queryClient = useQueryClient();
+    const { data: revisions = [], isLoading, isError } = useRevisions(eventId, isOpen);
+
+    const { mutate: restoreMutation, isPending } = useMutation({
+        mutationFn: (revision: number) => restoreRevision(eventId, revision),
+        onSuccess: async (_data, revision) => {
+            setSnackbarMessage(`Restored revision ${revision}.`);
+            await queryClient.invalidateQueries({ queryKey: ["revisions", eventId] });
+            await queryClient.invalidateQueries({ queryKey: [eventId] });
+        },
+        onError: (error: Error) => {
+            console.error("error: ", error);
+            setSnackbarMessage(error.message || "Failed to restore revision.");
+        },
+    });
+
+    return (
+        <>
+            <Dialog open={isOpen} onClose={dialogToggle} fullWidth>
+                <DialogTitle>History</DialogTitle>
+                <DialogContent>
+                    <DialogContentText>
+                        Every change to this event, newest first. Restoring a revision puts its details back
+                        and is recorded as a new change.
+                    </DialogContentText>
+                    {isLoading ? (
+                        <CircularProgress sx={{ my: 2 }} />
+                    ) : isError ? (
+                        <Typography color="error" sx={{ my: 2 }}>
+                            Could not load the history.
+                        </Typography>
+                    ) : revisions.length === 0 ? (
+                        <Typography sx={{ my: 2 }}>This event has not been changed yet.</Typography>
+                    ) : (
+                        <Stack spacing={1} sx={{ my: 2 }}>
+                            {revisions.map((revision, index) => (
+                                <Paper key={revision.id} sx={{ padding: 1.5 }}>
+                                    <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+                                        <Box sx={{ flexGrow: 1 }}>
+                                            <Typography variant="body1">
+                                                {`#${revision.revision} ${revisionActionLabels[revision.action]}`}
+                                                {revision.restoredFromRevision &&
+                                                    ` from #${revision.restoredFromRevision}`}
+                                            </Typography>
+                                            <Typography variant="body2" color="text.secondary">
+                                                {revision.actor
+                                                    ? `${revision.actor.firstName} ${revision.actor.lastName}`
+                                                    : "System"}
+                                                {` · ${formatDateTime(revision.createdAt)}`}
+                                            </Typography>
+                                        </Box>
+                                        {/* The newest revision is the event as it is now */}
+                                        {index > 0 && (
+                                            <Button
+                                                size="small"
+                                                disabled={isPending}
+                                                onClick={() => restoreMutation(revision.revision)}
+                                            >
+                                                Restore
+                                            </Button>
+                                        )}
+                                    </Box>
+                                    {Object.entries(revision.changes).map(([field, { before, after }]) => (
+                                        <Typography key={field} variant="body2" sx={{ mt: 0.5 }}>
+                                            <strong>{fieldLabels[field] ?? field}:</strong>{" "}
+                                            {formatRevisionValue(field, before)} → {formatRevisionValue(field, after)}
+                                        </Typography>
+                                    ))}
+                                </Paper>
+                            ))}
+                        </Stack>
+                    )}
+                </DialogContent>
+                <DialogActions>
+                    <Button onClick={dialogToggle}>Close</Button>
+                </DialogActions>
+            </Dialog>
+            <Snackbar
+                open={Boolean(snackbarMessage)}
+                onClose={() => setSnackbarMessage("")}
+                autoHideDuration={1200}
+                anchorOrigin={{ vertical: "bottom", horizontal: "center" }}
+            >
+                <SnackbarContent message={snackbarMessage} sx={{ backgroundColor: "white", color: "black" }} />
+            </Snackbar>
+        </>
+    );
+};
+
+export default RevisionHistoryDialog;
@@ -0,0 +1,56 @@
+import React from "react";
+import { Alert, AlertTitle, Box, Button, Typography } from "@mui/material";
+import { format } from "date-fns";
+import { RoomBooking, RoomConflict } from "@/types/venue";
+
+type RoomConflictAlertProps = {
+    conflict: RoomConflict | null;
+    // Books the room anyway, only offered to admins
+    onOverride: () => void;
+    disabled?: boolean;
+};
+
+const formatBooking = ({ startDate, endDate }: RoomBooking) => {
+    const start = new Date(startDate);
+    const end = new Date(endDate);
+    return `${format(start, "EEE, MMM d, h:mm a")} – ${format(end, "h:mm a")}`;
+};
+
+// Lists the events already holding the picked room at the time
+const RoomConflictAlert: React.FC<RoomConflictAlertProps> = ({ conflict, onOverride, disabled }) => {
+    if (!conflict) {
+        return null;
+    }
+
+    return (
+        <Alert
+            severity={conflict.canOverride ? "warning" : "error"}
+            action={
+                conflict.canOverride && (
+                    <Button color="inherit" size="small" onClick={onOverride} disabled={disabled}>
+                        Book Anyway
+                    </Button>
+                )
+            }
+            sx={{ mb: 2 }}
+        >
+            <AlertTitle>This room is already booked</AlertTitle>
+            <Box component="ul" sx={{ margin: 0, paddingLeft: 2 }}>
+                {conflict.conflicts.map((booking) => (
+                    <li key={booking.id}>
+                        <Typography variant="body2">
+                            {booking.eventTitle} · {formatBooking(booking)}
+                        </Typography>
+                    </li>
+                ))}
+            </Box>
+            {!conflict.canOverride && (
+                <Typography variant="body2" sx={{ mt: 1 }}>
+                    Pick another room or time, or ask an admin to book it for you.
+                </Typography>
+            )}
+        </Alert>
+    );
+};
+
+export default RoomConflictAlert;
@@ -0,0 +1,95 @@
+import React, { useState } from "react";
+import { Box, Chip, CircularProgress, MenuItem, Paper, Stack, TextField, Typography } from "@mui/material";
+import { format } from "date-fns";
+import Link from "next/link";
+import { useVenues, useVenueSchedule } from "@/utility/queries";
+import { RoomBooking } from "@/types/venue";
+
+const formatTime = (date: string) => format(new Date(date), "h:mm a");
+
+const describeBuffers = ({ setupMinutes, teardownMinutes }: RoomBooking) =>
+    [setupMinutes ? `${setupMinutes} min setup` : "", teardownMinutes ? `${teardownMinutes} min teardown` : ""]
+        .filter(Boolean)
+        .join(", ");
+
+// Admin view of what is booked in each room of a venue on a day, with
+// double bookings flagged
+const RoomSchedule = () => {
+    const [venueId, setVenueId] = useState("");
+    const [date, setDate] = useState(() => format(new Date(), "yyyy-MM-dd"));
+    const { data: venues = [] } = useVenues(true);
+    const { data: schedule, isLoading, isError } = useVenueSchedule(venueId, date);
+
+    return (
+        <Box>
+            <Stack direction={{ xs: "column", sm: "row" }} spacing={2} sx={{ mb: 2 }}>
+                <TextField
+                    select
+                    label="Venue"
+                    value={venueId}
+                    onChange={(e) => setVenueId(e.target.value)}
+                    sx={{ minWidth: 240 }}
+                >
+                    {venues.map((venue) => (
+                        <MenuItem key={venue.id} value={venue.id}>
+                            {venue.name} ({venue.code}) · {venue.campus}
+                        </MenuItem>
+                    ))}
+                </TextField>
+                <TextField
+                    label="Day"
+                    type="date"
+                    value={date}
+                    onChange={(e) => setDate(e.target.value)}
+                    InputLabelProps={{ shrink: true }}
+                />
+            </Stack>
+            {!venueId ? (
+                <Typography color="text.secondary">Pick a venue to see its rooms.</Typography>
+            ) : isLoading ? (
+                <CircularProgress />
+            ) : isError || !schedule ? (
+                <Typography color="error">Could not load the room schedule.</Typography>
+            ) : (
+                <Stack spacing={1}>
+                    {schedule.rooms.map(({ room, bookings }) => (
+                        <Paper key={room.id} sx={{ padding: 1.5 }}>
+                            <Typography fontWeight="bold">
+                                {schedule.venue.code} {room.roomNumber}
+                                {room.name && ` · ${room.name}`}
+                            </Typography>
+                            {bookings.length === 0 ? (
+                                <Typography variant="body2" color="text.secondary">
+                                    Nothing booked
+                                </Typography>
+                            ) : (
+                                bookings.map((booking) => (
+                                    <Box
+                                        key={booking.id}
+                                        sx={{ display: "flex", alignItems: "center", gap: 1, flexWrap: "wrap" }}
+                                    >
+                                        <Typography variant="body2" sx={{ minWidth: 150 }}>
+                                            {formatTime(booking.startDate)} – {formatTime(booking.endDate)}
+                                        </Typography>
+                                        <Link href={`/event-detail?id=${booking.id}`}>
+                                            <Typography variant="body2">{booking.eventTitle}</Typography>
+                                        </Link>
+                                        <Typography variant="body2" color="text.secondary">
+                                            {booking.eventHost}
+                                            {describeBuffers(booking) && ` · ${describeBuffers(booking)}`}
+                                        </Typography>
+                                        {booking.conflictsWith.length > 0 && (
+                                            <Chip label="Double-booked" color="error" size="small" />
+                                        )}
+                                    </Box>
+                                ))
+                            )}
+                        </Paper>
+                    ))}
+                </Stack>
+            )}
+        </Box>
+    );
+};
+
+export default RoomSchedule;
@@ -0,0 +1,220 @@
+import React, { useEffect, useState } from "react";
+import {
+    Avatar,
+    Box,
+    Button,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogTitle,
+    IconButton,
+    Stack,
+    TextField,
+    Tooltip,
+    Typography,
+} from "@mui/material";
+import AddIcon from "@mui/icons-material/Add";
+import AddPhotoAlternateIcon from "@mui/icons-material/AddPhotoAlternate";
+import DeleteIcon from "@mui/icons-material/Delete";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Speaker, SpeakerLink } from "@/types/speaker";
+import { COVER_IMAGE_TYPES } from "@/utility/coverImageUpload";
+
+interface SpeakerDialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+    speaker: Speaker;
+    // Called with a message once the changes are saved
+    onSaved: (message: string) => void;
+}
+
+const MAX_HEADSHOT_SIZE_MB = 5;
+
+const sendSpeakerRequest = async (path: string, body: FormData | object): Promise<Speaker> => {
+    const token = localStorage.getItem("token");
+    const apiUrl = process.env.NSC_EVENTS_PUBLIC_API_URL;
+    const isForm = body instanceof FormData;
+    const response = await fetch(`${apiUrl}/speakers${path}`, {
+        method: "PUT",
+        headers: {
+            ...(isForm ? {} : { "Content-Type": "application/json" }),
+            Authorization: `Bearer ${token}`,
+        },
+        body: isForm ? body : JSON.stringify(body),
+    });
+    if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.message ?? response.statusText);
+    }
+    return response.json();
+};
+
+// Lets creators and admins fill in a speaker's profile and photo
+const SpeakerDialog = ({ isOpen, onClose, speaker, onSaved }: SpeakerDialogProps) => {
+    const queryClient = useQueryClient();
+    const [name, setName] = useState(speaker.name);
+    const [title, setTitle] = useState(speaker.title);
+    const [affiliation, setAffiliation] = useState(speaker.affiliation);
+    const [bio, setBio] = useState(speaker.bio);
+    const [links, setLinks] = useState<SpeakerLink[]>(speaker.links);
+    const [headshot, setHeadshot] = useState<File | null>(null);
+    const [headshotPreview, setHeadshotPreview] = useState<string | undefined>(undefined);
+    const [error, setError] = useState("");
+
+    // Start from the saved profile each time the dialog opens
+    useEffect(() => {
+        if (isOpen) {
+            setName(speaker.name);
+            setTitle(speaker.title);
+            setAffiliation(speaker.affiliation);
+            setBio(speaker.bio);
+            setLinks(speaker.links);
+            setHeadshot(null);
+            setHeadshotPreview(undefined);
+            setError("");
+        }
+    }, [isOpen, speaker]);
+
+    const { mutate: saveSpeaker, isPending } = useMutation({
+        mutationFn: async () => {
+            await sendSpeakerRequest(`/${speaker.id}`, {
+                name: name.trim(),
+                title: title.trim(),
+                affiliation: affiliation.trim(),
+                bio: bio.trim(),
+                links: links.filter((link) => link.label.trim() || link.url.trim()),
+            });
+            if (headshot) {
+                const form = new FormData();
+                form.append("headshot", headshot);
+                await sendSpeakerRequest(`/${speaker.id}/headshot`, form);
+            }
+        },
+        onSuccess: async () => {
+            await queryClient.invalidateQueries({ queryKey: ["speakers"] });
+            onSaved("Speaker updated");
+            onClose();
+        },
+        onError: (error: Error) => {
+            console.error("error: ", error);
+            setError(error.message);
+        },
+    });
+
+    const updateLink = (index: number, changes: Partial<SpeakerLink>) => {
+        setLinks(links.map((link, i) => (i === index ? { ...link, ...changes } : link)));
+    };
+
+    return (
+        <Dialog open={isOpen} onClose={isPending ? undefined : onClose} fullWidth>
+            <DialogTitle>Edit Speaker</DialogTitle>
+            <DialogContent>
+                <Stack spacing={2} sx={{ pt: 1 }}>
+                    <Box sx={{ display: "flex", alignItems: "center", gap: 2 }}>
+                        <Avatar
+                            src={headshotPreview ?? (speaker.headshotUrl || undefined)}
+                            alt={speaker.name}
+                            sx={{ width: 64, height: 64 }}
+                        >
+                            {speaker.name.charAt(0)}
+                        </Avatar>
+                        <Button variant="outlined" component="label" startIcon={<AddPhotoAlternateIcon />} disabled={isPending}>
+                            Headshot
+                            <input
+                                type="file"
+                                accept={COVER_IMAGE_TYPES.join(", ")}
+                                data-testid="headshot-input"
+                                onChange={(e) => {
+                                    const file = e.target.files?.[0];
+                                    setHeadshot(file ?? null);
+                                    setHeadshotPreview(file ? URL.createObjectURL(file) : undefined);
+                                }}
+                                hidden
+                            />
+                        </Button>
+                        <Typography variant="body2" color="text.secondary">
+                            {headshot?.name ?? `PNG, JPEG, GIF or WEBP, up to ${MAX_HEADSHOT_SIZE_MB} MB`}
+                        </Typography>
+                    </Box>
+                    <TextField
+                        label="Name"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        helperText="Renaming updates the speaker on their events"
+                        inputProps={{ maxLength: 100 }}
+                    />
+                    <TextField
+                        label="Title"
+                        value={title}
+                        onChange={(e) => setTitle(e.target.value)}
+                        inputProps={{ maxLength: 100 }}
+                    />
+                    <TextField
+                        label="Affiliation"
+                        value={affiliation}
+                        onChange={(e) => setAffiliation(e.target.value)}
+                        inputProps={{ maxLength: 100 }}
+                    />
+                    <TextField
+                        label="Bio"
+                        multiline
+                        minRows={3}
+                        value={bio}
+                        onChange={(e) => setBio(e.target.value)}
+                        inputProps={{ maxLength: 5000 }}
+                    />
+                    {links.map((link, index) => (
+                        <Box key={index} sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+                            <TextField
+                                label="Link Label"
+                                value={link.label}
+                                onChange={(e) => updateLink(index, { label: e.target.value })}
+                                inputProps={{ maxLength: 50 }}
+                                sx={{ flex: 1 }}
+                            />
+                            <TextField
+                                label="Link URL"
+                                value={link.url}
+                                onChange={(e) => updateLink(index, { url: e.target.value })}
+                                placeholder="https://"
+                                sx={{ flex: 2 }}
+                            />
+                            <Tooltip title="Remove link">
+                                <IconButton
+                                    aria-label={`Remove link ${index + 1}`}
+                                    onClick={() => setLinks(links.filter((_, i) => i !== index))}
+                                >
+                                    <DeleteIcon />
+                                </IconButton>
+                            </Tooltip>
+                        </Box>
+                    ))}
+                    <Box>
+                        <Button
+                            startIcon={<AddIcon />}
+                            onClick={() => setLinks([...links, { label: "", url: "" }])}
+                            disabled={links.length >= 10}
+                        >
+                            Add Link
+                        </Button>
+                    </Box>
+                    {error && (
+                        <Typography variant="body2" color="error">
+                            {error}
+                        </Typography>
+                    )}
+                </Stack>
+            </DialogContent>
+            <DialogActions>
+                <Button onClick={onClose} disabled={isPending}>
+                    Cancel
+                </Button>
+                <Button variant="contained" onClick={() => saveSpeaker()} disabled={!name.trim() || isPending}>
+                    Save
+                </Button>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default SpeakerDialog;
@@ -0,0 +1,92 @@
+import React from "react";
+import { Autocomplete, Box, Chip, TextField, TextFieldProps, Typography } from "@mui/material";
+import { useSpeakers } from "@/utility/queries";
+import { Speaker } from "@/types/speaker";
+
+type SpeakerPickerProps = {
+    // Speaker names, in the order they are shown
+    value: string[];
+    onChange: (names: string[]) => void;
+    id?: string;
+    label?: string;
+    helperText?: string;
+    InputProps?: TextFieldProps["InputProps"];
+    InputLabelProps?: TextFieldProps["InputLabelProps"];
+    sx?: TextFieldProps["sx"];
+};
+
+// Picks speakers that have a profile, or adds new ones by typing their name.
+// New names become profiles when the event is saved.
+const SpeakerPicker: React.FC<SpeakerPickerProps> = ({
+    value,
+    onChange,
+    id,
+    label = "Speakers",
+    helperText = "Pick a speaker or type a new name and press Enter",
+    InputProps,
+    InputLabelProps,
+    sx,
+}) => {
+    const { data: speakers = [] } = useSpeakers();
+
+    const byName = (name: string): Speaker | undefined =>
+        speakers.find(speaker => speaker.name.toLowerCase() === name.trim().toLowerCase());
+
+    const handleChange = (names: string[]) => {
+        // Use the stored spelling of known speakers and drop repeats
+        const picked: string[] = [];
+        for (const name of names) {
+            const resolved = byName(name)?.name ?? name.trim();
+            if (resolved && !picked.some(p => p.toLowerCase() === resolved.toLowerCase())) {
+                picked.push(resolved);
+            }
+        }
+        onChange(picked);
+    };
+
+    return (
+        <Autocomplete
+            id={id}
+            multiple
+            freeSolo
+            autoSelect
+            options={speakers.map(speaker => speaker.name)}
+            value={value}
+            onChange={(_event, names) => handleChange(names)}
+            filterSelectedOptions
+            renderOption={(props, name) => {
+                const speaker = byName(name);
+                const details = [speaker?.title, speaker?.affiliation].filter(Boolean).join(", ");
+                return (
+                    <Box component="li" {...props} key={name}>
+                        <Box>
+                            <Typography variant="body2">{name}</Typography>
+                            {details && (
+                                <Typography variant="caption" color="text.secondary">
+                                    {details}
+                                </Typography>
+                            )}
+                        </Box>
+                    </Box>
+                );
+            }}
+            renderTags={(names, getTagProps) =>
+                names.map((name, index) => (
+                    <Chip {...getTagProps({ index })} key={name} label={name} size="small" />
+                ))
+            }
+            renderInput={(params) => (
+                <TextField
+                    {...params}
+                    label={label}
+                    helperText={helperText}
+                    InputProps={{ ...params.InputProps, ...InputProps }}
+                    InputLabelProps={{ ...params.InputLabelProps, ...InputLabelProps }}
+                    sx={sx}
+                />
+            )}
+        />
+    );
+};
+
+export default SpeakerPicker;
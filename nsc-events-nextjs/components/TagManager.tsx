@@ -0,0 +1,271 @@
+import React, { useState } from "react";
+import {
+    Box,
+    Button,
+    Chip,
+    CircularProgress,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogContentText,
+    DialogTitle,
+    FormControlLabel,
+    MenuItem,
+    Paper,
+    Snackbar,
+    SnackbarContent,
+    Stack,
+    Switch,
+    TextField,
+    Typography,
+} from "@mui/material";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTags } from "@/utility/queries";
+import { Tag } from "@/types/tag";
+
+type TagFields = Pick<Tag, "name" | "color" | "isActive"> & { description: string };
+
+interface TagRequest {
+    method: "POST" | "PUT" | "DELETE";
+    path: string;
+    body?: object;
+    successMessage: string;
+}
+
+const emptyTag: TagFields = { name: "", color: "#2074d4", description: "", isActive: true };
+
+const sendTagRequest = async ({ method, path, body }: TagRequest) => {
+    const token = localStorage.getItem("token");
+    const apiUrl = process.env.NSC_EVENTS_PUBLIC_API_URL;
+    const response = await fetch(`${apiUrl}/tags${path}`, {
+        method,
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+        },
+        body: body ? JSON.stringify(body) : undefined,
+    });
+    if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.message ?? response.statusText);
+    }
+};
+
+// Admin list of event tags: create, rename, retire, delete and merge
+const TagManager = () => {
+    const [editing, setEditing] = useState<Tag | null>(null);
+    const [creating, setCreating] = useState(false);
+    const [fields, setFields] = useState<TagFields>(emptyTag);
+    const [deleting, setDeleting] = useState<Tag | null>(null);
+    const [merging, setMerging] = useState<Tag | null>(null);
+    const [mergeTargetId, setMergeTargetId] = useState("");
+    const [snackbarMessage, setSnackbarMessage] = useState("");
+    const queryClient = useQueryClient();
+    const { data: tags = [], isLoading, isError } = useTags(true);
+
+    const { mutate: tagMutation, isPending } = useMutation({
+        mutationFn: sendTagRequest,
+        onSuccess: async (_data, variables) => {
+            setSnackbarMessage(variables.successMessage);
+            await queryClient.invalidateQueries({ queryKey: ["tags"] });
+        },
+        onError: (error: Error) => {
+            console.error("error: ", error);
+            setSnackbarMessage(error.message || "Failed to update tags.");
+        },
+    });
+
+    const openEditor = (tag: Tag | null) => {
+        setFields(
+            tag
+                ? { name: tag.name, color: tag.color, description: tag.description ?? "", isActive: tag.isActive }
+                : emptyTag
+        );
+        setEditing(tag);
+        setCreating(!tag);
+    };
+
+    const closeEditor = () => {
+        setEditing(null);
+        setCreating(false);
+    };
+
+    const saveTag = () => {
+        const body = {
+            name: fields.name.trim(),
+            color: fields.color,
+            description: fields.description.trim() || undefined,
+            isActive: fields.isActive,
+        };
+        tagMutation(
+            editing
+                ? { method: "PUT", path: `/${editing.id}`, body, successMessage: "Tag updated." }
+                : { method: "POST", path: "", body, successMessage: "Tag created." }
+        );
+        closeEditor();
+    };
+
+    const confirmDelete = () => {
+        if (deleting) {
+            tagMutation({ method: "DELETE", path: `/${deleting.id}`, successMessage: "Tag deleted." });
+            setDeleting(null);
+        }
+    };
+
+    const confirmMerge = () => {
+        if (merging && mergeTargetId) {
+            tagMutation({
+                method: "POST",
+                path: "/merge",
+                body: { sourceIds: [merging.id], targetId: mergeTargetId },
+                successMessage: "Tags merged.",
+            });
+            setMerging(null);
+            setMergeTargetId("");
+        }
+    };
+
+    return (
+        <Box>
+            <Button variant="contained" onClick={() => openEditor(null)} sx={{ mb: 2 }}>
+                New Tag
+            </Button>
+            {isLoading ? (
+                <CircularProgress />
+            ) : isError ? (
+                <Typography color="error">Could not load tags.</Typography>
+            ) : (
+                <Stack spacing={1}>
+                    {tags.map((tag) => (
+                        <Paper
+                            key={tag.id}
+                            sx={{ padding: 1.5, display: "flex", alignItems: "center", gap: 1, flexWrap: "wrap" }}
+                        >
+                            <Chip label={tag.name} sx={{ backgroundColor: tag.color, color: "white" }} />
+                            <Typography variant="body2" color="text.secondary" sx={{ flexGrow: 1 }}>
+                                {tag.slug}
+                                {!tag.isActive && " · inactive"}
+                            </Typography>
+                            <Button size="small" disabled={isPending} onClick={() => openEditor(tag)}>
+                                Edit
+                            </Button>
+                            <Button size="small" disabled={isPending} onClick={() => setMerging(tag)}>
+                                Merge
+                            </Button>
+                            <Button size="small" color="error" disabled={isPending} onClick={() => setDeleting(tag)}>
+                                Delete
+                            </Button>
+                        </Paper>
+                    ))}
+                </Stack>
+            )}
+            <Dialog open={creating || Boolean(editing)} onClose={closeEditor} fullWidth>
+                <DialogTitle>{editing ? "Edit Tag" : "New Tag"}</DialogTitle>
+                <DialogContent>
+                    {editing && (
+                        <DialogContentText>
+                            Renaming a tag also renames it on every event that uses it.
+                        </DialogContentText>
+                    )}
+                    <TextField
+                        autoFocus
+                        fullWidth
+                        margin="dense"
+                        label="Name"
+                        value={fields.name}
+                        onChange={(e) => setFields({ ...fields, name: e.target.value })}
+                        inputProps={{ maxLength: 50 }}
+                    />
+                    <TextField
+                        fullWidth
+                        margin="dense"
+                        label="Color"
+                        type="color"
+                        value={fields.color}
+                        onChange={(e) => setFields({ ...fields, color: e.target.value })}
+                    />
+                    <TextField
+                        fullWidth
+                        multiline
+                        margin="dense"
+                        label="Description"
+                        value={fields.description}
+                        onChange={(e) => setFields({ ...fields, description: e.target.value })}
+                        inputProps={{ maxLength: 500 }}
+                    />
+                    <FormControlLabel
+                        control={
+                            <Switch
+                                checked={fields.isActive}
+                                onChange={(e) => setFields({ ...fields, isActive: e.target.checked })}
+                            />
+                        }
+                        label="Can be picked for new events"
+                    />
+                </DialogContent>
+                <DialogActions>
+                    <Button onClick={closeEditor}>Cancel</Button>
+                    <Button onClick={saveTag} disabled={!fields.name.trim()}>
+                        Save
+                    </Button>
+                </DialogActions>
+            </Dialog>
+            <Dialog open={Boolean(merging)} onClose={() => setMerging(null)} fullWidth>
+                <DialogTitle>Merge Tag</DialogTitle>
+                <DialogContent>
+                    <DialogContentText>
+                        Events tagged &quot;{merging?.name}&quot; will be moved to the chosen tag, then &quot;
+                        {merging?.name}&quot; is deleted.
+                    </DialogContentText>
+                    <TextField
+                        select
+                        fullWidth
+                        margin="dense"
+                        label="Merge into"
+                        value={mergeTargetId}
+                        onChange={(e) => setMergeTargetId(e.target.value)}
+                    >
+                        {tags
+                            .filter((tag) => tag.id !== merging?.id)
+                            .map((tag) => (
+                                <MenuItem key={tag.id} value={tag.id}>
+                                    {tag.name}
+                                </MenuItem>
+                            ))}
+                    </TextField>
+                </DialogContent>
+                <DialogActions>
+                    <Button onClick={() => setMerging(null)}>Cancel</Button>
+                    <Button onClick={confirmMerge} disabled={!mergeTargetId}>
+                        Merge
+                    </Button>
+                </DialogActions>
+            </Dialog>
+            <Dialog open={Boolean(deleting)} onClose={() => setDeleting(null)}>
+                <DialogTitle>Delete Tag?</DialogTitle>
+                <DialogContent>
+                    <DialogContentText>
+                        &quot;{deleting?.name}&quot; will be removed from every event. Turn it off instead to keep
+                        it on existing events.
+                    </DialogContentText>
+                </DialogContent>
+                <DialogActions>
+                    <Button onClick={() => setDeleting(null)}>Cancel</Button>
+                    <Button onClick={confirmDelete} color="error">
+                        Delete
+                    </Button>
+                </DialogActions>
+            </Dialog>
+            <Snackbar
+                open={Boolean(snackbarMessage)}
+                onClose={() => setSnackbarMessage("")}
+                autoHideDuration={1200}
+                anchorOrigin={{ vertical: "bottom", horizontal: "center" }}
+            >
+                <SnackbarContent message={snackbarMessage} sx={{ backgroundColor: "white", color: "black" }} />
+            </Snackbar>
+        </Box>
+    );
+};
+
+export default TagManager;
@@ -1,24 +1,41 @@
 import React from "react";
 import Button from '@mui/material/Button';
 import Stack from '@mui/material/Stack';
-import { useTheme } from "@mui/material";
+import { Typography, useTheme } from "@mui/material";
+import { useTags } from "@/utility/queries";
 
 type TagSelectorProps = {
     selectedTags: string[];
-    allTags: string[];
     onTagClick: (tag: string) => void;
 };
 
-const TagSelector: React.FC<TagSelectorProps> = ({ selectedTags, allTags, onTagClick }) => {
+const TagSelector: React.FC<TagSelectorProps> = ({ selectedTags, onTagClick }) => {
     const theme = useTheme();
+    const { data: tags = [], isError } = useTags();
     
     const { palette } = theme;
 
+    // Selected tags that are no longer offered (e.g. deactivated by an admin)
+    // stay visible so they can be deselected
+    const names = tags.map(tag => tag.name);
+    const retired = selectedTags.filter(
+        name => !names.some(tagName => tagName.toLowerCase() === name.toLowerCase())
+    );
+    const allTags = [
+        ...tags.map(tag => ({ name: tag.name, description: tag.description ?? undefined })),
+        ...retired.map(name => ({ name, description: undefined })),
+    ];
+
+    if (isError) {
+        return <Typography color="error" className="mt-2">Could not load tags.</Typography>;
+    }
+
     return (
         <Stack direction="row" spacing={1} className="mt-2" flexWrap="wrap" useFlexGap>
-            {allTags.map(tag => (
+            {allTags.map(({ name: tag, description }) => (
                 <Button
                     key={tag}
+                    title={description}
                     variant={selectedTags.includes(tag) ? 'contained' : 'outlined'}
                     color="primary"
                     onClick={() => onTagClick(tag)}
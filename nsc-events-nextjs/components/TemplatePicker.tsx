@@ -0,0 +1,246 @@
+import React, { useState } from "react";
+import {
+    Box,
+    Button,
+    Checkbox,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogContentText,
+    DialogTitle,
+    FormControlLabel,
+    MenuItem,
+    Snackbar,
+    SnackbarContent,
+    TextField,
+    Typography,
+} from "@mui/material";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTemplates } from "@/utility/queries";
+import { EventTemplate, TemplateFields } from "@/types/template";
+
+interface TemplatePickerProps {
+    // Current values of the create event form, saved by "Save as template"
+    fields: TemplateFields;
+    onApply: (fields: TemplateFields) => void;
+    // Admins can share templates with every creator and change shared ones
+    isAdmin: boolean;
+}
+
+const templateFieldNames: (keyof TemplateFields)[] = [
+    "eventTitle",
+    "eventDescription",
+    "eventLocation",
+    "roomId",
+    "setupMinutes",
+    "teardownMinutes",
+    "timeZone",
+    "eventCoverPhoto",
+    "eventDocument",
+    "eventHost",
+    "eventMeetingURL",
+    "eventRegistration",
+    "eventCapacity",
+    "eventTags",
+    "eventSchedule",
+    "eventSpeakers",
+    "eventPrerequisites",
+    "eventCancellationPolicy",
+    "eventContact",
+    "eventSocialMedia",
+    "eventPrivacy",
+    "eventAccessibility",
+    "eventNote",
+];
+
+// Keeps only the form fields that were filled in so a template doesn't blank
+// out parts of the form it wasn't meant to prefill
+export const toTemplateFields = (fields: TemplateFields): TemplateFields => {
+    const result: Record<string, unknown> = {};
+    templateFieldNames.forEach((name) => {
+        const value = fields[name];
+        if (name === "eventCapacity") {
+            if (value === null) {
+                result.eventCapacity = null;
+            } else if (Number(value) > 0) {
+                result.eventCapacity = Number(value);
+            }
+        } else if (name === "setupMinutes" || name === "teardownMinutes") {
+            if (Number(value) > 0) {
+                result[name] = Number(value);
+            }
+        } else if (name === "eventSocialMedia") {
+            const links = Object.entries((value ?? {}) as Record<string, string>).filter(([, link]) => link?.trim());
+            if (links.length) {
+                result.eventSocialMedia = Object.fromEntries(links);
+            }
+        } else if (Array.isArray(value)) {
+            if (value.length) {
+                result[name] = value;
+            }
+        } else if (typeof value === "string" && value.trim()) {
+            result[name] = value;
+        }
+    });
+    return result as TemplateFields;
+};
+
+const sendTemplateRequest = async (method: "POST" | "DELETE", path: string, body?: object) => {
+    const token = localStorage.getItem("token");
+    const apiUrl = process.env.NSC_EVENTS_PUBLIC_API_URL;
+    const response = await fetch(`${apiUrl}/templates${path}`, {
+        method,
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+        },
+        body: body ? JSON.stringify(body) : undefined,
+    });
+    if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.message ?? response.statusText);
+    }
+};
+
+// Prefills the create event form from a saved template and saves the form
+// as a new one
+const TemplatePicker = ({ fields, onApply, isAdmin }: TemplatePickerProps) => {
+    const [selectedId, setSelectedId] = useState("");
+    const [isSaveOpen, setIsSaveOpen] = useState(false);
+    const [name, setName] = useState("");
+    const [description, setDescription] = useState("");
+    const [isShared, setIsShared] = useState(false);
+    const [snackbarMessage, setSnackbarMessage] = useState("");
+    const queryClient = useQueryClient();
+    const { data: templates = [] } = useTemplates(true);
+    const selected = templates.find((template) => template.id === selectedId);
+
+    const applyTemplate = (template: EventTemplate) => {
+        setSelectedId(template.id);
+        onApply(template.fields);
+        setSnackbarMessage(`Filled in from "${template.name}".`);
+    };
+
+    const { mutate: saveMutation, isPending: isSaving } = useMutation({
+        mutationFn: () =>
+            sendTemplateRequest("POST", "", {
+                name: name.trim(),
+                description: description.trim() || undefined,
+                isShared,
+                fields: toTemplateFields(fields),
+            }),
+        onSuccess: async () => {
+            setSnackbarMessage("Template saved.");
+            setIsSaveOpen(false);
+            setName("");
+            setDescription("");
+            setIsShared(false);
+            await queryClient.invalidateQueries({ queryKey: ["templates"] });
+        },
+        onError: (error: Error) => {
+            console.error("error: ", error);
+            setSnackbarMessage(error.message || "Failed to save template.");
+        },
+    });
+
+    const { mutate: deleteMutation, isPending: isDeleting } = useMutation({
+        mutationFn: (id: string) => sendTemplateRequest("DELETE", `/${id}`),
+        onSuccess: async () => {
+            setSnackbarMessage("Template deleted.");
+            setSelectedId("");
+            await queryClient.invalidateQueries({ queryKey: ["templates"] });
+        },
+        onError: (error: Error) => {
+            console.error("error: ", error);
+            setSnackbarMessage(error.message || "Failed to delete template.");
+        },
+    });
+
+    return (
+        <>
+            <Box sx={{ display: "flex", gap: 1, flexWrap: "wrap", alignItems: "center" }}>
+                <TextField
+                    select
+                    label="Start from a template"
+                    value={selectedId}
+                    onChange={(e) => {
+                        const template = templates.find(({ id }) => id === e.target.value);
+                        if (template) {
+                            applyTemplate(template);
+                        }
+                    }}
+                    sx={{ flexGrow: 1, minWidth: 220 }}
+                >
+                    {templates.length === 0 && (
+                        <MenuItem value="" disabled>
+                            No templates yet
+                        </MenuItem>
+                    )}
+                    {templates.map((template) => (
+                        <MenuItem key={template.id} value={template.id}>
+                            {template.isShared ? `${template.name} (shared)` : template.name}
+                        </MenuItem>
+                    ))}
+                </TextField>
+                {selected && (!selected.isShared || isAdmin) && (
+                    <Button color="error" disabled={isDeleting} onClick={() => deleteMutation(selected.id)}>
+                        Delete template
+                    </Button>
+                )}
+                <Button variant="outlined" onClick={() => setIsSaveOpen(true)}>
+                    Save as template
+                </Button>
+            </Box>
+            {selected?.description && (
+                <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                    {selected.description}
+                </Typography>
+            )}
+            <Dialog open={isSaveOpen} onClose={() => setIsSaveOpen(false)} fullWidth>
+                <DialogTitle>Save as template</DialogTitle>
+                <DialogContent>
+                    <DialogContentText>
+                        Saves the details filled in so far, except the date and time, so you can start the next
+                        event from them.
+                    </DialogContentText>
+                    <TextField
+                        margin="dense"
+                        label="Template name"
+                        fullWidth
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                    />
+                    <TextField
+                        margin="dense"
+                        label="Description"
+                        fullWidth
+                        value={description}
+                        onChange={(e) => setDescription(e.target.value)}
+                    />
+                    {isAdmin && (
+                        <FormControlLabel
+                            control={<Checkbox checked={isShared} onChange={(e) => setIsShared(e.target.checked)} />}
+                            label="Share with every creator"
+                        />
+                    )}
+                </DialogContent>
+                <DialogActions>
+                    <Button onClick={() => setIsSaveOpen(false)}>Cancel</Button>
+                    <Button onClick={() => saveMutation()} disabled={isSaving || !name.trim()}>
+                        Save
+                    </Button>
+                </DialogActions>
+            </Dialog>
+            <Snackbar
+                open={Boolean(snackbarMessage)}
+                onClose={() => setSnackbarMessage("")}
+                autoHideDuration={1200}
+                anchorOrigin={{ vertical: "bottom", horizontal: "center" }}
+            >
+                <SnackbarContent message={snackbarMessage} sx={{ backgroundColor: "white", color: "black" }} />
+            </Snackbar>
+        </>
+    );
+};
+
+export default TemplatePicker;
@@ -0,0 +1,49 @@
+import React, { useMemo } from "react";
+import { Autocomplete, TextField, TextFieldProps } from "@mui/material";
+import { getTimeZoneLabel, getTimeZones } from "@/utility/timeZones";
+
+type TimeZonePickerProps = {
+    value: string;
+    onChange: (timeZone: string) => void;
+    label?: string;
+    InputProps?: TextFieldProps["InputProps"];
+    InputLabelProps?: TextFieldProps["InputLabelProps"];
+    sx?: TextFieldProps["sx"];
+};
+
+// IANA zone the event's times are picked and shown in
+const TimeZonePicker: React.FC<TimeZonePickerProps> = ({
+    value,
+    onChange,
+    label = "Time Zone",
+    InputProps,
+    InputLabelProps,
+    sx,
+}) => {
+    const options = useMemo(() => {
+        const zones = getTimeZones();
+        return zones.includes(value) ? zones : [value, ...zones];
+    }, [value]);
+
+    return (
+        <Autocomplete
+            disableClearable
+            options={options}
+            value={value}
+            getOptionLabel={(zone) => zone.replace(/_/g, " ")}
+            onChange={(_event, zone) => onChange(zone)}
+            renderInput={(params) => (
+                <TextField
+                    {...params}
+                    label={label}
+                    helperText={getTimeZoneLabel(value)}
+                    InputProps={{ ...params.InputProps, ...InputProps }}
+                    InputLabelProps={{ ...params.InputLabelProps, ...InputLabelProps }}
+                    sx={sx}
+                />
+            )}
+        />
+    );
+};
+
+export default TimeZonePicker;
@@ -22,7 +22,7 @@ export function UpcomingEvent() {
   useEffect(() => {
     if (data) {
       setEvents((prevEvents) => {
-        const newEvents = [...prevEvents, ...data];
+        const newEvents = [...prevEvents, ...data.data];
         const uniqueEvents = newEvents.filter((event, index, self) =>
           index === self.findIndex((e) => e.id === event.id)
         );
@@ -33,7 +33,7 @@ export function UpcomingEvent() {
 
   return (
     <Grid container spacing={1}>
-      {data?.slice(0, 1).map((event: ActivityDatabase) => (
+      {data?.data.slice(0, 1).map((event: ActivityDatabase) => (
         <Grid key={event.id} item xs={12}>
           <Box sx={{ width: 350 }}>
             <Box
@@ -67,7 +67,7 @@ export function UpcomingEvent() {
                   {event.eventTitle}
                 </Typography>
                 <Typography variant="body2" color="text.secondary" textAlign="center" marginTop="5px">
-                  Date: {formatDate(event.startDate)}
+                  Date: {formatDate(event.startDate, event.timeZone)}
                 </Typography>
               </CardContent>
               <CardActions sx={{ justifyContent: "center" }}>
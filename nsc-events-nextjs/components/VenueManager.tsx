@@ -0,0 +1,458 @@
+import React, { useState } from "react";
+import {
+    Box,
+    Button,
+    Checkbox,
+    CircularProgress,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogContentText,
+    DialogTitle,
+    FormControlLabel,
+    FormGroup,
+    Paper,
+    Snackbar,
+    SnackbarContent,
+    Stack,
+    Switch,
+    TextField,
+    Typography,
+} from "@mui/material";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useVenues } from "@/utility/queries";
+import { AccessibilityFeature, accessibilityFeatureLabels, Room, Venue } from "@/types/venue";
+
+type VenueFields = {
+    campus: string;
+    name: string;
+    code: string;
+    address: string;
+    latitude: string;
+    longitude: string;
+    isActive: boolean;
+};
+
+type RoomFields = {
+    roomNumber: string;
+    name: string;
+    capacity: string;
+    accessibilityFeatures: AccessibilityFeature[];
+    isActive: boolean;
+};
+
+interface VenueRequest {
+    method: "POST" | "PUT" | "DELETE";
+    path: string;
+    body?: object;
+    successMessage: string;
+}
+
+const emptyVenue: VenueFields = {
+    campus: "",
+    name: "",
+    code: "",
+    address: "",
+    latitude: "",
+    longitude: "",
+    isActive: true,
+};
+
+const emptyRoom: RoomFields = { roomNumber: "", name: "", capacity: "", accessibilityFeatures: [], isActive: true };
+
+const toNumber = (value: string) => (value.trim() === "" ? null : Number(value));
+
+const sendVenueRequest = async ({ method, path, body }: VenueRequest) => {
+    const token = localStorage.getItem("token");
+    const apiUrl = process.env.NSC_EVENTS_PUBLIC_API_URL;
+    const response = await fetch(`${apiUrl}/venues${path}`, {
+        method,
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+        },
+        body: body ? JSON.stringify(body) : undefined,
+    });
+    if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.message ?? response.statusText);
+    }
+};
+
+// Admin list of campus buildings and their rooms
+const VenueManager = () => {
+    const [editingVenue, setEditingVenue] = useState<Venue | null>(null);
+    const [creatingVenue, setCreatingVenue] = useState(false);
+    const [venueFields, setVenueFields] = useState<VenueFields>(emptyVenue);
+    // Venue a room is added to, or the room being edited
+    const [roomVenue, setRoomVenue] = useState<Venue | null>(null);
+    const [editingRoom, setEditingRoom] = useState<Room | null>(null);
+    const [roomFields, setRoomFields] = useState<RoomFields>(emptyRoom);
+    const [deleting, setDeleting] = useState<{ venue: Venue; room?: Room } | null>(null);
+    const [snackbarMessage, setSnackbarMessage] = useState("");
+    const queryClient = useQueryClient();
+    const { data: venues = [], isLoading, isError } = useVenues(true);
+
+    const { mutate: venueMutation, isPending } = useMutation({
+        mutationFn: sendVenueRequest,
+        onSuccess: async (_data, variables) => {
+            setSnackbarMessage(variables.successMessage);
+            await queryClient.invalidateQueries({ queryKey: ["venues"] });
+        },
+        onError: (error: Error) => {
+            console.error("error: ", error);
+            setSnackbarMessage(error.message || "Failed to update venues.");
+        },
+    });
+
+    const openVenueEditor = (venue: Venue | null) => {
+        setVenueFields(
+            venue
+                ? {
+                      campus: venue.campus,
+                      name: venue.name,
+                      code: venue.code,
+                      address: venue.address ?? "",
+                      latitude: venue.latitude?.toString() ?? "",
+                      longitude: venue.longitude?.toString() ?? "",
+                      isActive: venue.isActive,
+                  }
+                : emptyVenue
+        );
+        setEditingVenue(venue);
+        setCreatingVenue(!venue);
+    };
+
+    const closeVenueEditor = () => {
+        setEditingVenue(null);
+        setCreatingVenue(false);
+    };
+
+    const saveVenue = () => {
+        const body = {
+            campus: venueFields.campus.trim(),
+            name: venueFields.name.trim(),
+            code: venueFields.code.trim(),
+            address: venueFields.address.trim() || null,
+            latitude: toNumber(venueFields.latitude),
+            longitude: toNumber(venueFields.longitude),
+            isActive: venueFields.isActive,
+        };
+        venueMutation(
+            editingVenue
+                ? { method: "PUT", path: `/${editingVenue.id}`, body, successMessage: "Venue updated." }
+                : { method: "POST", path: "", body, successMessage: "Venue created." }
+        );
+        closeVenueEditor();
+    };
+
+    const openRoomEditor = (venue: Venue, room: Room | null) => {
+        setRoomFields(
+            room
+                ? {
+                      roomNumber: room.roomNumber,
+                      name: room.name ?? "",
+                      capacity: room.capacity?.toString() ?? "",
+                      accessibilityFeatures: room.accessibilityFeatures,
+                      isActive: room.isActive,
+                  }
+                : emptyRoom
+        );
+        setRoomVenue(venue);
+        setEditingRoom(room);
+    };
+
+    const closeRoomEditor = () => {
+        setRoomVenue(null);
+        setEditingRoom(null);
+    };
+
+    const toggleFeature = (feature: AccessibilityFeature) => {
+        const features = roomFields.accessibilityFeatures;
+        setRoomFields({
+            ...roomFields,
+            accessibilityFeatures: features.includes(feature)
+                ? features.filter((current) => current !== feature)
+                : [...features, feature],
+        });
+    };
+
+    const saveRoom = () => {
+        if (!roomVenue) {
+            return;
+        }
+        const body = {
+            roomNumber: roomFields.roomNumber.trim(),
+            name: roomFields.name.trim() || null,
+            capacity: toNumber(roomFields.capacity),
+            accessibilityFeatures: roomFields.accessibilityFeatures,
+            isActive: roomFields.isActive,
+        };
+        venueMutation(
+            editingRoom
+                ? { method: "PUT", path: `/rooms/${editingRoom.id}`, body, successMessage: "Room updated." }
+                : { method: "POST", path: `/${roomVenue.id}/rooms`, body, successMessage: "Room added." }
+        );
+        closeRoomEditor();
+    };
+
+    const confirmDelete = () => {
+        if (deleting) {
+            venueMutation(
+                deleting.room
+                    ? { method: "DELETE", path: `/rooms/${deleting.room.id}`, successMessage: "Room deleted." }
+                    : { method: "DELETE", path: `/${deleting.venue.id}`, successMessage: "Venue deleted." }
+            );
+            setDeleting(null);
+        }
+    };
+
+    const describeRoom = (room: Room) =>
+        [
+            room.name,
+            room.capacity ? `${room.capacity} seats` : "",
+            ...room.accessibilityFeatures.map((feature) => accessibilityFeatureLabels[feature]),
+            room.isActive ? "" : "inactive",
+        ]
+            .filter(Boolean)
+            .join(" · ");
+
+    return (
+        <Box>
+            <Button variant="contained" onClick={() => openVenueEditor(null)} sx={{ mb: 2 }}>
+                New Venue
+            </Button>
+            {isLoading ? (
+                <CircularProgress />
+            ) : isError ? (
+                <Typography color="error">Could not load venues.</Typography>
+            ) : (
+                <Stack spacing={1}>
+                    {venues.map((venue) => (
+                        <Paper key={venue.id} sx={{ padding: 1.5 }}>
+                            <Box sx={{ display: "flex", alignItems: "center", gap: 1, flexWrap: "wrap" }}>
+                                <Typography sx={{ flexGrow: 1 }}>
+                                    {venue.name} ({venue.code}) · {venue.campus}
+                                    {!venue.isActive && " · inactive"}
+                                </Typography>
+                                <Button size="small" disabled={isPending} onClick={() => openRoomEditor(venue, null)}>
+                                    Add Room
+                                </Button>
+                                <Button size="small" disabled={isPending} onClick={() => openVenueEditor(venue)}>
+                                    Edit
+                                </Button>
+                                <Button
+                                    size="small"
+                                    color="error"
+                                    disabled={isPending}
+                                    onClick={() => setDeleting({ venue })}
+                                >
+                                    Delete
+                                </Button>
+                            </Box>
+                            {venue.rooms.map((room) => (
+                                <Box
+                                    key={room.id}
+                                    sx={{ display: "flex", alignItems: "center", gap: 1, paddingLeft: 2 }}
+                                >
+                                    <Typography variant="body2" sx={{ flexGrow: 1 }}>
+                                        {venue.code} {room.roomNumber}
+                                        <Typography component="span" variant="body2" color="text.secondary">
+                                            {describeRoom(room) && ` · ${describeRoom(room)}`}
+                                        </Typography>
+                                    </Typography>
+                                    <Button
+                                        size="small"
+                                        disabled={isPending}
+                                        onClick={() => openRoomEditor(venue, room)}
+                                        aria-label={`Edit room ${room.roomNumber}`}
+                                    >
+                                        Edit
+                                    </Button>
+                                    <Button
+                                        size="small"
+                                        color="error"
+                                        disabled={isPending}
+                                        onClick={() => setDeleting({ venue, room })}
+                                        aria-label={`Delete room ${room.roomNumber}`}
+                                    >
+                                        Delete
+                                    </Button>
+                                </Box>
+                            ))}
+                        </Paper>
+                    ))}
+                </Stack>
+            )}
+            <Dialog open={creatingVenue || Boolean(editingVenue)} onClose={closeVenueEditor} fullWidth>
+                <DialogTitle>{editingVenue ? "Edit Venue" : "New Venue"}</DialogTitle>
+                <DialogContent>
+                    {editingVenue && (
+                        <DialogContentText>
+                            Renaming a venue also updates the location of every event in its rooms.
+                        </DialogContentText>
+                    )}
+                    <TextField
+                        autoFocus
+                        fullWidth
+                        margin="dense"
+                        label="Campus"
+                        value={venueFields.campus}
+                        onChange={(e) => setVenueFields({ ...venueFields, campus: e.target.value })}
+                        inputProps={{ maxLength: 100 }}
+                    />
+                    <TextField
+                        fullWidth
+                        margin="dense"
+                        label="Building Name"
+                        value={venueFields.name}
+                        onChange={(e) => setVenueFields({ ...venueFields, name: e.target.value })}
+                        inputProps={{ maxLength: 100 }}
+                    />
+                    <TextField
+                        fullWidth
+                        margin="dense"
+                        label="Building Code"
+                        value={venueFields.code}
+                        onChange={(e) => setVenueFields({ ...venueFields, code: e.target.value })}
+                        inputProps={{ maxLength: 20 }}
+                    />
+                    <TextField
+                        fullWidth
+                        margin="dense"
+                        label="Address"
+                        value={venueFields.address}
+                        onChange={(e) => setVenueFields({ ...venueFields, address: e.target.value })}
+                        inputProps={{ maxLength: 300 }}
+                    />
+                    <Box sx={{ display: "flex", gap: 1 }}>
+                        <TextField
+                            fullWidth
+                            margin="dense"
+                            label="Latitude"
+                            type="number"
+                            value={venueFields.latitude}
+                            onChange={(e) => setVenueFields({ ...venueFields, latitude: e.target.value })}
+                        />
+                        <TextField
+                            fullWidth
+                            margin="dense"
+                            label="Longitude"
+                            type="number"
+                            value={venueFields.longitude}
+                            onChange={(e) => setVenueFields({ ...venueFields, longitude: e.target.value })}
+                        />
+                    </Box>
+                    <FormControlLabel
+                        control={
+                            <Switch
+                                checked={venueFields.isActive}
+                                onChange={(e) => setVenueFields({ ...venueFields, isActive: e.target.checked })}
+                            />
+                        }
+                        label="Can be picked for new events"
+                    />
+                </DialogContent>
+                <DialogActions>
+                    <Button onClick={closeVenueEditor}>Cancel</Button>
+                    <Button
+                        onClick={saveVenue}
+                        disabled={!venueFields.campus.trim() || !venueFields.name.trim() || !venueFields.code.trim()}
+                    >
+                        Save
+                    </Button>
+                </DialogActions>
+            </Dialog>
+            <Dialog open={Boolean(roomVenue)} onClose={closeRoomEditor} fullWidth>
+                <DialogTitle>
+                    {editingRoom ? "Edit Room" : "New Room"} in {roomVenue?.name}
+                </DialogTitle>
+                <DialogContent>
+                    <TextField
+                        autoFocus
+                        fullWidth
+                        margin="dense"
+                        label="Room Number"
+                        value={roomFields.roomNumber}
+                        onChange={(e) => setRoomFields({ ...roomFields, roomNumber: e.target.value })}
+                        inputProps={{ maxLength: 20 }}
+                    />
+                    <TextField
+                        fullWidth
+                        margin="dense"
+                        label="Room Name"
+                        value={roomFields.name}
+                        onChange={(e) => setRoomFields({ ...roomFields, name: e.target.value })}
+                        inputProps={{ maxLength: 100 }}
+                    />
+                    <TextField
+                        fullWidth
+                        margin="dense"
+                        label="Capacity"
+                        type="number"
+                        value={roomFields.capacity}
+                        onChange={(e) => setRoomFields({ ...roomFields, capacity: e.target.value })}
+                        inputProps={{ min: 1 }}
+                    />
+                    <FormGroup>
+                        {(Object.keys(accessibilityFeatureLabels) as AccessibilityFeature[]).map((feature) => (
+                            <FormControlLabel
+                                key={feature}
+                                control={
+                                    <Checkbox
+                                        checked={roomFields.accessibilityFeatures.includes(feature)}
+                                        onChange={() => toggleFeature(feature)}
+                                    />
+                                }
+                                label={accessibilityFeatureLabels[feature]}
+                            />
+                        ))}
+                    </FormGroup>
+                    <FormControlLabel
+                        control={
+                            <Switch
+                                checked={roomFields.isActive}
+                                onChange={(e) => setRoomFields({ ...roomFields, isActive: e.target.checked })}
+                            />
+                        }
+                        label="Can be picked for new events"
+                    />
+                </DialogContent>
+                <DialogActions>
+                    <Button onClick={closeRoomEditor}>Cancel</Button>
+                    <Button onClick={saveRoom} disabled={!roomFields.roomNumber.trim()}>
+                        Save
+                    </Button>
+                </DialogActions>
+            </Dialog>
+            <Dialog open={Boolean(deleting)} onClose={() => setDeleting(null)}>
+                <DialogTitle>{deleting?.room ? "Delete Room?" : "Delete Venue?"}</DialogTitle>
+                <DialogContent>
+                    <DialogContentText>
+                        {deleting?.room
+                            ? `${deleting.venue.code} ${deleting.room.roomNumber}`
+                            : `"${deleting?.venue.name}" and its rooms`}{" "}
+                        will be deleted. Events there keep their location text. Turn it off instead to stop new
+                        events from picking it.
+                    </DialogContentText>
+                </DialogContent>
+                <DialogActions>
+                    <Button onClick={() => setDeleting(null)}>Cancel</Button>
+                    <Button onClick={confirmDelete} color="error">
+                        Delete
+                    </Button>
+                </DialogActions>
+            </Dialog>
+            <Snackbar
+                open={Boolean(snackbarMessage)}
+                onClose={() => setSnackbarMessage("")}
+                autoHideDuration={1200}
+                anchorOrigin={{ vertical: "bottom", horizontal: "center" }}
+            >
+                <SnackbarContent message={snackbarMessage} sx={{ backgroundColor: "white", color: "black" }} />
+            </Snackbar>
+        </Box>
+    );
+};
+
+export default VenueManager;
@@ -0,0 +1,104 @@
+import React from "react";
+import { Autocomplete, Box, TextField, TextFieldProps, Typography } from "@mui/material";
+import { useVenues } from "@/utility/queries";
+import { filterRoomOptions, RoomOption, toRoomOptions } from "@/utility/venues";
+import { accessibilityFeatureLabels } from "@/types/venue";
+
+type VenuePickerProps = {
+    roomId?: string | null;
+    location: string;
+    // roomId is null when the location is typed in, e.g. off campus or online
+    onChange: (roomId: string | null, eventLocation: string) => void;
+    label?: string;
+    error?: boolean;
+    helperText?: string;
+    placeholder?: string;
+    InputProps?: TextFieldProps["InputProps"];
+    InputLabelProps?: TextFieldProps["InputLabelProps"];
+    sx?: TextFieldProps["sx"];
+};
+
+// Campus rooms with autocomplete. Anything else typed in is kept as a
+// free-text location.
+const VenuePicker: React.FC<VenuePickerProps> = ({
+    roomId,
+    location,
+    onChange,
+    label = "Event Location",
+    error,
+    helperText,
+    placeholder,
+    InputProps,
+    InputLabelProps,
+    sx,
+}) => {
+    const { data: venues = [] } = useVenues();
+    const options = toRoomOptions(venues);
+    const selected = options.find((option) => option.roomId === roomId) ?? null;
+
+    const describe = ({ room }: RoomOption) =>
+        [
+            room.capacity ? `${room.capacity} seats` : "",
+            ...room.accessibilityFeatures.map((feature) => accessibilityFeatureLabels[feature]),
+        ]
+            .filter(Boolean)
+            .join(" · ");
+
+    return (
+        <Autocomplete<RoomOption, false, false, true>
+            freeSolo
+            options={options}
+            value={selected ?? (location || null)}
+            inputValue={location}
+            groupBy={(option) => option.venueLabel}
+            getOptionLabel={(option) => (typeof option === "string" ? option : option.label)}
+            isOptionEqualToValue={(option, value) => option.roomId === value.roomId}
+            filterOptions={(roomOptions, { inputValue }) =>
+                // Once a room is picked its label shouldn't narrow the list
+                selected?.label === inputValue ? roomOptions : filterRoomOptions(roomOptions, inputValue)
+            }
+            onChange={(_event, value) => {
+                if (value && typeof value !== "string") {
+                    onChange(value.roomId, value.label);
+                } else {
+                    onChange(null, value ?? "");
+                }
+            }}
+            onInputChange={(_event, value, reason) => {
+                // Picking a room resets the input to its label, which onChange handles
+                if (reason === "input") {
+                    onChange(null, value);
+                }
+            }}
+            renderOption={(props, option) => (
+                <Box component="li" {...props} key={option.roomId}>
+                    <Box>
+                        <Typography variant="body2">{option.label}</Typography>
+                        {describe(option) && (
+                            <Typography variant="caption" color="text.secondary">
+                                {describe(option)}
+                            </Typography>
+                        )}
+                    </Box>
+                </Box>
+            )}
+            renderInput={(params) => (
+                <TextField
+                    {...params}
+                    id="event-location"
+                    name="eventLocation"
+                    label={label}
+                    variant="outlined"
+                    error={error}
+                    helperText={helperText || (selected ? "" : "Pick a campus room, or type an off-campus or online location")}
+                    placeholder={placeholder}
+                    InputProps={{ ...params.InputProps, ...InputProps }}
+                    InputLabelProps={{ ...params.InputLabelProps, ...InputLabelProps }}
+                    sx={sx}
+                />
+            )}
+        />
+    );
+};
+
+export default VenuePicker;
@@ -68,7 +68,7 @@ function ViewMoreDetailsDialog({
 
   const creatorDetails = [
     { title: "Category", detail: event.eventCategory },
-    { title: "Capacity", detail: event.eventCapacity },
+    { title: "Capacity", detail: event.eventCapacity ?? "Unlimited" },
   ];
 
   const eventNoteDetail = [{ title: "Event Note", detail: event.eventNote }];
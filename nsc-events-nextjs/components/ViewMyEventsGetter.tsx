@@ -18,8 +18,8 @@ export function MyEventsList() {
     
     useEffect(() => {
         if (data) {
-            setEvents((prevEvents) => [...prevEvents, ...data]);
-            setHasReachedLastPage(data.length < 5)
+            setEvents((prevEvents) => [...prevEvents, ...data.data]);
+            setHasReachedLastPage(!data.nextCursor)
         }
     }, [data]);
     const handleLoadMoreEvents = () => {
@@ -5,6 +5,11 @@ import { ActivityDatabase } from "@/models/activityDatabase";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useEventForm } from "@/hooks/useEventForm";
 import { format } from "date-fns";
+import { RecurrenceScope } from "@/models/activity";
+import { toRoomConflict } from "@/utility/venues";
+import { DEFAULT_TIME_ZONE, toZonedPickerDate } from "@/utility/timeZones";
+import { useSessions } from "@/utility/queries";
+import { saveAgenda, toSessionDrafts, validateAgenda } from "@/utility/sessions";
 
 export const useEditForm = (initialData: ActivityDatabase) => {
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
@@ -19,22 +24,35 @@ export const useEditForm = (initialData: ActivityDatabase) => {
     setSuccessMessage,
     eventData,
     handleInputChange,
+    handleLocationChange,
+    handleTimeZoneChange,
     handleSocialMediaChange,
     handleTagClick,
+    handleSpeakersChange,
     createISODateTime,
+    timeZone,
     timezoneMessage,
+    roomConflict,
+    setRoomConflict,
+    sessions,
+    setSessions,
   } = useEventForm(initialData as ActivityDatabase);
+  const { data: savedSessions } = useSessions(initialData.id);
 
   const [startTimeDate, setStartTimeDate] = useState<Date | null>(null);
   const [endTimeDate, setEndTimeDate] = useState<Date | null>(null);
+  // Only used for events that belong to a recurring series
+  const [scope, setScope] = useState<RecurrenceScope>("occurrence");
 
   // Initialize date and times from ISO timestamps
   useEffect(() => {
     // Check if we have valid ISO date strings
     if (initialData.startDate && initialData.endDate) {
       try {
-        const start = new Date(initialData.startDate);
-        const end = new Date(initialData.endDate);
+        // The pickers show the times as they read in the event's zone
+        const eventTimeZone = initialData.timeZone || DEFAULT_TIME_ZONE;
+        const start = toZonedPickerDate(initialData.startDate, eventTimeZone);
+        const end = toZonedPickerDate(initialData.endDate, eventTimeZone);
         
         // Set the date from startDate
         setSelectedDate(start);
@@ -54,9 +72,19 @@ export const useEditForm = (initialData: ActivityDatabase) => {
   }, [initialData]);
 
   useEffect(() => {
-    setEventData(initialData as ActivityDatabase);
+    // Events saved before they had a zone were picked in Pacific time
+    setEventData({
+      ...initialData,
+      timeZone: initialData.timeZone || DEFAULT_TIME_ZONE,
+    } as ActivityDatabase);
   }, [initialData, setEventData]);
 
+  useEffect(() => {
+    if (savedSessions) {
+      setSessions(toSessionDrafts(savedSessions, initialData.timeZone || DEFAULT_TIME_ZONE));
+    }
+  }, [savedSessions, initialData.timeZone, setSessions]);
+
   // Extract hours and minutes for the time selection hook
   const getTimeString = (date: Date | null): string => {
     if (!date) return "10:00"; // Default value if null
@@ -82,11 +110,15 @@ export const useEditForm = (initialData: ActivityDatabase) => {
     if (timeError) {
       newErrors = { ...newErrors, startDate: timeError };
     }
+    const agendaError = validateAgenda(sessions, startTime, endTime);
+    if (agendaError) {
+      newErrors = { ...newErrors, agenda: agendaError };
+    }
 
     if (Object.keys(newErrors).length > 0) {
       setErrors(newErrors);
     } else {
-      editEventMutation(eventData as ActivityDatabase);
+      editEventMutation({ activityData: eventData as ActivityDatabase });
     }
   };
 
@@ -115,9 +147,16 @@ export const useEditForm = (initialData: ActivityDatabase) => {
     handleEndTimeChange(timeStr);
   };
 
-  const editEvent = async (activityData: ActivityDatabase) => {
+  const editEvent = async ({
+    activityData,
+    overrideRoomConflicts = false,
+  }: {
+    activityData: ActivityDatabase;
+    overrideRoomConflicts?: boolean;
+  }) => {
     // retrieving the token from localStorage
     const token = localStorage.getItem('token');
+    setRoomConflict(null);
 
     try {
       // applying necessary transformations for ISO timestamps
@@ -133,21 +172,37 @@ export const useEditForm = (initialData: ActivityDatabase) => {
         throw new Error('Date and time are required');
       }
 
-      dataToSend.startDate = createISODateTime(selectedDate, startTime);
-      dataToSend.endDate = createISODateTime(selectedDate, endTime);
+      dataToSend.timeZone = timeZone;
+      dataToSend.startDate = createISODateTime(selectedDate, startTime, timeZone);
+      dataToSend.endDate = createISODateTime(selectedDate, endTime, timeZone);
 
       // Handle speakers field
       if (typeof dataToSend.eventSpeakers === 'string') {
         dataToSend.eventSpeakers = [dataToSend.eventSpeakers];
       }
 
+      // number inputs hold strings, the API wants whole minutes
+      for (const field of ["setupMinutes", "teardownMinutes"]) {
+        if (dataToSend[field] === "" || dataToSend[field] === undefined || dataToSend[field] === null) {
+          delete dataToSend[field];
+        } else {
+          dataToSend[field] = Number(dataToSend[field]);
+        }
+      }
+
+      // admins can book a room another event already holds
+      if (overrideRoomConflicts) {
+        dataToSend.overrideRoomConflicts = true;
+      }
+
       console.log("Event data being sent for update:", dataToSend);
 
       const apiUrl = process.env.NSC_EVENTS_PUBLIC_API_URL;
       // Use id for the API endpoint
       const eventId = dataToSend.id;
       
-      const response = await fetch(`${apiUrl}/events/update/${eventId}`, {
+      const params = new URLSearchParams({ scope });
+      const response = await fetch(`${apiUrl}/events/update/${eventId}?${params.toString()}`, {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
@@ -157,9 +212,16 @@ export const useEditForm = (initialData: ActivityDatabase) => {
       });
 
       const data = await response.json();
+      const conflict = toRoomConflict(response.status, data);
+      if (conflict) {
+        setRoomConflict(conflict);
+        throw new Error(conflict.message);
+      }
 
       if (response.ok) {
         console.log("Event updated:", data);
+        // sessions are checked against the updated event, so they go second
+        await saveAgenda(eventId, sessions, savedSessions ?? [], selectedDate, timeZone);
         return response.status;
       } else {
         throw new Error(data.message || "Failed to update event.");
@@ -174,6 +236,8 @@ export const useEditForm = (initialData: ActivityDatabase) => {
     mutationFn: editEvent,
     onSuccess: async () => {
       await queryClient.refetchQueries({queryKey:['events', 'myEvents', 'archivedEvents']});
+      await queryClient.invalidateQueries({ queryKey: ['sessions', initialData.id] });
+      await queryClient.invalidateQueries({ queryKey: ['speakers'] });
       setSuccessMessage("Event successfully updated!");
       setTimeout(() => {
         window.location.reload();
@@ -189,6 +253,9 @@ export const useEditForm = (initialData: ActivityDatabase) => {
     }
   });
 
+  const bookRoomAnyway = () =>
+    editEventMutation({ activityData: eventData as ActivityDatabase, overrideRoomConflicts: true });
+
   // Convert time format to 12hr for display
   const to12HourTime = (time: string): string => {
     if (!time) return '';
@@ -213,8 +280,11 @@ export const useEditForm = (initialData: ActivityDatabase) => {
     // to24HourTime is no longer needed
     eventData,
     handleInputChange,
+    handleLocationChange,
+    handleTimeZoneChange,
     handleSocialMediaChange,
     handleTagClick,
+    handleSpeakersChange,
     handleSubmit,
     errors,
     selectedDate,
@@ -224,6 +294,13 @@ export const useEditForm = (initialData: ActivityDatabase) => {
     startTimeDate,
     endTimeDate,
     to12HourTime,
+    timeZone,
     timezoneMessage,
+    scope,
+    setScope,
+    roomConflict,
+    bookRoomAnyway,
+    sessions,
+    setSessions,
   };
 }
\ No newline at end of file
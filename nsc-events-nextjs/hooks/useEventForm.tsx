@@ -1,8 +1,14 @@
 import { ChangeEventHandler, FormEvent, useEffect, useState } from "react";
 import { validateFormData } from "@/utility/validateFormData";
-import { Activity, FormErrors } from "@/models/activity";
+import { Activity, FormErrors, noRecurrence, PublicationStatus, RecurrenceSelection } from "@/models/activity";
 import useDateTimeSelection from "./useDateTimeSelection";
 import { ActivityDatabase } from "@/models/activityDatabase";
+import { TemplateFields } from "@/types/template";
+import { RoomConflict } from "@/types/venue";
+import { SessionDraft } from "@/types/session";
+import { toRoomConflict } from "@/utility/venues";
+import { saveAgenda, validateAgenda } from "@/utility/sessions";
+import { getBrowserTimeZone, getTimeZoneLabel, toZonedISOString, zonedTimeToDate } from "@/utility/timeZones";
 import { useQueryClient } from "@tanstack/react-query";
 import { useRouter } from 'next/navigation';
 
@@ -48,6 +54,15 @@ export const useEventForm = (initialData: Activity | ActivityDatabase) => {
   const [selectedCoverImage, setSelectedCoverImage] = useState<File | null>(null);
   const [coverImagePreview, setCoverImagePreview] = useState<string | null>(null);
   const [coverImageError, setCoverImageError] = useState<string>("");
+  // Recurrence state, "none" creates a single event
+  const [recurrence, setRecurrence] = useState<RecurrenceSelection>(noRecurrence);
+  // Publication state, scheduled events go live automatically at publishAt
+  const [publicationStatus, setPublicationStatus] = useState<PublicationStatus>("published");
+  const [publishAt, setPublishAt] = useState<Date | null>(null);
+  // Agenda, saved once the event exists
+  const [sessions, setSessions] = useState<SessionDraft[]>([]);
+  // Other events holding the picked room at the time, from the last submit
+  const [roomConflict, setRoomConflict] = useState<RoomConflict | null>(null);
   // Use useDateTimeSelection hook
   const {
     startTime,
@@ -59,8 +74,11 @@ export const useEventForm = (initialData: Activity | ActivityDatabase) => {
     handleEndTimeChange,
   } = useDateTimeSelection("10:00", "11:00");
 
+  // Zone the times are picked in, the creator's own until they pick another
+  const timeZone = eventData.timeZone || getBrowserTimeZone();
+
   // Timezone display message
-  const timezoneMessage = "All event times are recorded and displayed in the local time zone: (GMT-07:00) Pacific Time - Los Angeles";
+  const timezoneMessage = `All event times are recorded and displayed in the event's time zone: ${getTimeZoneLabel(timeZone)}`;
 
   useEffect(() => {
     if (fixingErrors) {
@@ -79,6 +97,30 @@ export const useEventForm = (initialData: Activity | ActivityDatabase) => {
     }));
   };
 
+  // picking a campus room also sets its label as the location
+  const handleLocationChange = (roomId: string | null, eventLocation: string) => {
+    setEventData((prev) => ({
+      ...prev,
+      roomId,
+      eventLocation,
+    }));
+  };
+
+  const handleTimeZoneChange = (newTimeZone: string) => {
+    setEventData((prev) => ({
+      ...prev,
+      timeZone: newTimeZone,
+    }));
+  };
+
+  // null capacity means anyone can register
+  const setUnlimitedCapacity = (unlimited: boolean) => {
+    setEventData((prev) => ({
+      ...prev,
+      eventCapacity: unlimited ? null : 0,
+    }));
+  };
+
   // handling changes to the social media fields
   const handleSocialMediaChange = (key: keyof Activity['eventSocialMedia'], value: string) => {
     setEventData((prev) => ({
@@ -91,6 +133,24 @@ export const useEventForm = (initialData: Activity | ActivityDatabase) => {
     }));
   };
 
+  // prefill the form from a saved template, keeping fields it leaves out
+  const applyTemplate = (fields: TemplateFields) => {
+    setEventData((prev) => ({
+      ...prev,
+      ...fields,
+      // a template's free-text location replaces any room picked so far
+      ...(fields.eventLocation !== undefined && { roomId: fields.roomId ?? null }),
+      eventSocialMedia: {
+        ...prev.eventSocialMedia,
+        ...fields.eventSocialMedia,
+      },
+    }));
+    // an uploaded photo still wins over the template's cover photo
+    if (fields.eventCoverPhoto && !selectedCoverImage) {
+      setCoverImagePreview(fields.eventCoverPhoto);
+    }
+  };
+
   const handleTagClick = (tag: string) => {
     setEventData((prevEventData) => {
       if (prevEventData.eventTags.includes(tag)) {
@@ -109,6 +169,13 @@ export const useEventForm = (initialData: Activity | ActivityDatabase) => {
     });
   };
 
+  const handleSpeakersChange = (names: string[]) => {
+    setEventData((prev) => ({
+      ...prev,
+      eventSpeakers: names,
+    }));
+  };
+
   // converting time format to 24hr
   const to24HourTime = (time: string): string => {
     // returning an empty string if no time given
@@ -121,8 +188,9 @@ export const useEventForm = (initialData: Activity | ActivityDatabase) => {
     return `${hh.toString().padStart(2, '0')}:${minute}:00`;
   }
 
-  // Function to combine date and time into ISO 8601 format with timezone
-  const createISODateTime = (date: Date | null, time: string): string => {
+  // Function to combine date and time into ISO 8601 format with the offset
+  // the event's time zone has on that day
+  const createISODateTime = (date: Date | null, time: string, zone: string = timeZone): string => {
     if (!date || !time) {
       throw new Error('Date and time are required');
     }
@@ -130,31 +198,18 @@ export const useEventForm = (initialData: Activity | ActivityDatabase) => {
     // Convert time to 24-hour format
     const time24 = to24HourTime(time);
     const [hours, minutes] = time24.split(':');
-    
-    // Create a new date object with the selected date
-    const dateTime = new Date(date);
-    dateTime.setHours(parseInt(hours, 10));
-    dateTime.setMinutes(parseInt(minutes, 10));
-    dateTime.setSeconds(0);
-    dateTime.setMilliseconds(0);
-
-    // Get the timezone offset in minutes and convert to ±HH:MM format
-    const offset = dateTime.getTimezoneOffset();
-    const absOffset = Math.abs(offset);
-    const offsetHours = Math.floor(absOffset / 60);
-    const offsetMinutes = absOffset % 60;
-    const offsetSign = offset <= 0 ? '+' : '-';
-    const offsetString = `${offsetSign}${offsetHours.toString().padStart(2, '0')}:${offsetMinutes.toString().padStart(2, '0')}`;
-
-    // Format as ISO 8601 with timezone
-    const year = dateTime.getFullYear();
-    const month = (dateTime.getMonth() + 1).toString().padStart(2, '0');
-    const day = dateTime.getDate().toString().padStart(2, '0');
-    const hoursStr = dateTime.getHours().toString().padStart(2, '0');
-    const minutesStr = dateTime.getMinutes().toString().padStart(2, '0');
-    const secondsStr = dateTime.getSeconds().toString().padStart(2, '0');
-
-    return `${year}-${month}-${day}T${hoursStr}:${minutesStr}:${secondsStr}${offsetString}`;
+
+    // The picked day and time are wall clock values in the event's zone
+    const instant = zonedTimeToDate(
+      date.getFullYear(),
+      date.getMonth(),
+      date.getDate(),
+      parseInt(hours, 10),
+      parseInt(minutes, 10),
+      zone
+    );
+
+    return toZonedISOString(instant, zone);
   };
 
   const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
@@ -172,6 +227,25 @@ export const useEventForm = (initialData: Activity | ActivityDatabase) => {
     if (!endTime) {
       newErrors.endDate = "end time is required";
     }
+    if (recurrence.frequency !== "none") {
+      if (recurrence.endType === "until" && !recurrence.until) {
+        newErrors.recurrence = "an end date is required for repeating events";
+      }
+      if (recurrence.endType === "count" && (recurrence.count < 1 || recurrence.count > 104)) {
+        newErrors.recurrence = "number of occurrences must be between 1 and 104";
+      }
+    }
+    if (publicationStatus === "scheduled") {
+      if (!publishAt) {
+        newErrors.publishAt = "a publish date is required to schedule an event";
+      } else if (publishAt.getTime() <= Date.now()) {
+        newErrors.publishAt = "publish date must be in the future";
+      }
+    }
+    const agendaError = validateAgenda(sessions, startTime, endTime);
+    if (agendaError) {
+      newErrors.agenda = agendaError;
+    }
 
     const numNewErrors = Object.keys(newErrors).length;
     setFixingErrors(numNewErrors > 0);
@@ -182,9 +256,10 @@ export const useEventForm = (initialData: Activity | ActivityDatabase) => {
     }
   };
 
-  const createActivity = async (activityData: Activity) => {
+  const createActivity = async (activityData: Activity, overrideRoomConflicts = false) => {
     // retrieving the token from localStorage
     const token = localStorage.getItem('token');
+    setRoomConflict(null);
 
     try {
       // applying necessary transformations for date, time, and speaker fields
@@ -214,10 +289,37 @@ export const useEventForm = (initialData: Activity | ActivityDatabase) => {
       dataToSend.startDate = createISODateTime(selectedDate, startTime);
       dataToSend.endDate = createISODateTime(selectedDate, endTime);
 
+      if (recurrence.frequency !== "none") {
+        dataToSend.recurrence = {
+          frequency: recurrence.frequency,
+          ...(recurrence.endType === "until"
+            ? { until: createISODateTime(recurrence.until, "23:59") }
+            : { count: recurrence.count }),
+          // exception dates carry the start time so they match an occurrence exactly
+          exceptionDates: recurrence.exceptionDates.map((date) => createISODateTime(date, startTime)),
+        };
+      }
+
+      dataToSend.timeZone = timeZone;
+      dataToSend.publicationStatus = publicationStatus;
+      if (publicationStatus === "scheduled" && publishAt) {
+        dataToSend.publishAt = publishAt.toISOString();
+      }
+
+      // multipart bodies can't carry null, the API accepts "unlimited" instead
+      if (dataToSend.eventCapacity === null) {
+        dataToSend.eventCapacity = "unlimited";
+      }
+
       if (typeof dataToSend.eventSpeakers === 'string') {
         dataToSend.eventSpeakers = [dataToSend.eventSpeakers];
       }
 
+      // admins can book a room another event already holds
+      if (overrideRoomConflicts) {
+        dataToSend.overrideRoomConflicts = true;
+      }
+
       console.log("Event data after applying transformation: ", dataToSend);
 
       // Create FormData for multipart/form-data submission
@@ -251,9 +353,17 @@ export const useEventForm = (initialData: Activity | ActivityDatabase) => {
       });
 
       const data = await response.json();
+      const conflict = toRoomConflict(response.status, data);
+      if (conflict) {
+        setRoomConflict(conflict);
+        setErrorMessage(conflict.message);
+        return;
+      }
       if (response.ok) {
         console.log("Activity created:", data);
-        await queryClient.refetchQueries({ queryKey: ['events', 'myEvents', 'archivedEvents'] });
+        await queryClient.refetchQueries({ queryKey: ['events', 'myEvents', 'myDrafts', 'archivedEvents'] });
+        // new speaker names became profiles
+        await queryClient.invalidateQueries({ queryKey: ['speakers'] });
         setSuccessMessage(data.message || "Event successfully created!");
         setErrorMessage("");
 
@@ -263,16 +373,26 @@ export const useEventForm = (initialData: Activity | ActivityDatabase) => {
         // Normalize the response data
         const normalizedData = normalizeActivityId(data);
 
-        setTimeout(() => {
-          // Get the ID from the normalized data
-          let activityId;
+        // Get the ID from the normalized data
+        let activityId: string | undefined;
+
+        if (normalizedData.id) {
+          activityId = normalizedData.id;
+        } else if (normalizedData.activity && normalizedData.activity.id) {
+          activityId = normalizedData.activity.id;
+        }
 
-          if (normalizedData.id) {
-            activityId = normalizedData.id;
-          } else if (normalizedData.activity && normalizedData.activity.id) {
-            activityId = normalizedData.activity.id;
+        // A repeating event gets the agenda on its first date
+        if (activityId && sessions.length > 0) {
+          try {
+            await saveAgenda(activityId, sessions, [], selectedDate, timeZone);
+          } catch (error) {
+            console.error("Error saving agenda:", error);
+            setErrorMessage(`The event was created, but its agenda could not be saved: ${(error as Error).message}`);
           }
+        }
 
+        setTimeout(() => {
           if (activityId) {
             router.push(`/event-detail?id=${activityId}`);
           } else {
@@ -296,14 +416,21 @@ export const useEventForm = (initialData: Activity | ActivityDatabase) => {
     }
   };
 
+  const bookRoomAnyway = () => createActivity(eventData as Activity, true);
+
   return {
     setEventData,
     setErrors,
     to24HourTime,
     eventData,
     handleInputChange,
+    handleLocationChange,
+    handleTimeZoneChange,
     handleSocialMediaChange,
+    setUnlimitedCapacity,
+    applyTemplate,
     handleTagClick,
+    handleSpeakersChange,
     handleSubmit,
     errors,
     selectedDate,
@@ -319,6 +446,7 @@ export const useEventForm = (initialData: Activity | ActivityDatabase) => {
     errorMessage,
     setErrorMessage,
     setSuccessMessage,
+    timeZone,
     timezoneMessage,
     createISODateTime,
     selectedCoverImage,
@@ -326,5 +454,16 @@ export const useEventForm = (initialData: Activity | ActivityDatabase) => {
     coverImagePreview,
     setCoverImagePreview,
     coverImageError,
+    recurrence,
+    setRecurrence,
+    publicationStatus,
+    setPublicationStatus,
+    publishAt,
+    setPublishAt,
+    sessions,
+    setSessions,
+    roomConflict,
+    setRoomConflict,
+    bookRoomAnyway,
   };
 }
\ No newline at end of file
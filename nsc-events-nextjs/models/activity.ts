@@ -22,6 +22,9 @@ export interface FormErrors {
     eventPrivacy?: string;
     eventAccessibility?: string;
     eventNote?: string;
+    recurrence?: string;
+    publishAt?: string;
+    agenda?: string;
   };
 
 // Additional states not directly related to formData might need their own handling.
@@ -33,6 +36,48 @@ export interface AdditionalState {
 }
 
 
+export type RecurrenceFrequency = "weekly" | "biweekly" | "monthly";
+
+export const recurrenceFrequencyLabels: Record<RecurrenceFrequency, string> = {
+    weekly: "Weekly",
+    biweekly: "Every 2 weeks",
+    monthly: "Monthly",
+};
+
+// Which occurrences of a recurring series an edit or delete applies to
+export type RecurrenceScope = "occurrence" | "following" | "series";
+
+// Recurrence rule as stored by the API on every occurrence of a series
+export interface RecurrenceRule {
+    frequency: RecurrenceFrequency;
+    until?: string;
+    count?: number;
+    exceptionDates?: string[];
+}
+
+// Drafts are only visible to their creator; scheduled events go live at publishAt
+export type PublicationStatus = "draft" | "scheduled" | "published";
+
+// Events from roles that need review stay hidden from students until an admin approves them
+export type ApprovalStatus = "pending" | "approved" | "rejected";
+
+// Recurrence picker state; converted to a RecurrenceRule on submit
+export interface RecurrenceSelection {
+    frequency: RecurrenceFrequency | "none";
+    endType: "until" | "count";
+    until: Date | null;
+    count: number;
+    exceptionDates: Date[];
+}
+
+export const noRecurrence: RecurrenceSelection = {
+    frequency: "none",
+    endType: "count",
+    until: null,
+    count: 10,
+    exceptionDates: [],
+};
+
 interface SocialMediaLinks {
     facebook: string;
     twitter: string;
@@ -49,13 +94,20 @@ export interface Activity {
     eventCategory: string;
     startDate: string; 
     endDate: string;
+    // IANA zone the times are picked and shown in, e.g. America/Los_Angeles
+    timeZone?: string;
     eventLocation: string;
+    // Campus room, null for off-campus and online events
+    roomId?: string | null;
+    // Minutes the room is held before and after the event
+    setupMinutes?: number;
+    teardownMinutes?: number;
     eventMeetingURL: string;
     eventCoverPhoto: string;
     eventDocument: string;
     eventHost: string;
     eventRegistration: string;
-    eventCapacity: number;
+    eventCapacity: number | null; // null means unlimited
     eventTags: string[];
     eventSchedule: string;
     eventSpeakers: string[];
@@ -1,6 +1,23 @@
+import { ApprovalStatus, PublicationStatus, RecurrenceRule } from "./activity";
+
+export type CoverVariantName = "thumbnail" | "card" | "hero";
+
+export interface CoverPhotoVariant {
+    width: number;
+    height: number;
+    jpeg: { key: string; url: string };
+    webp: { key: string; url: string };
+}
+
+// Resized copies of the cover photo. They only apply while `source` is still
+// the event's cover photo.
+export type CoverPhotoVariants = { source: string } & Record<CoverVariantName, CoverPhotoVariant>;
+
 export interface ActivityDatabase {
     startDate: string;
     endDate: string;
+    // IANA zone the event is held in, e.g. America/Los_Angeles
+    timeZone?: string;
     id: string; // Primary identifier in PostgreSQL
     _id?: string; // Optional MongoDB-style identifier for backward compatibility
     createdByUserId: string;
@@ -8,11 +25,17 @@ export interface ActivityDatabase {
     eventDescription: string;
     eventCategory: string;
     eventLocation: string;
+    // Campus room, null for off-campus and online events
+    roomId?: string | null;
+    // Minutes the room is held before and after the event
+    setupMinutes?: number;
+    teardownMinutes?: number;
     eventCoverPhoto: string;
+    eventCoverPhotoVariants?: CoverPhotoVariants | null;
     eventDocument: string;
     eventHost: string;
     eventRegistration: string;
-    eventCapacity: number;
+    eventCapacity: number | null; // null means unlimited
     eventTags: string[];
     eventSchedule: string;
     eventSpeakers: string[];
@@ -32,6 +55,21 @@ export interface ActivityDatabase {
     eventNote: string;
     isHidden?: boolean;
     isArchived?: boolean;
+    seriesId?: string | null;
+    recurrenceRule?: RecurrenceRule | null;
+    publicationStatus?: PublicationStatus;
+    publishAt?: string | null;
+    approvalStatus?: ApprovalStatus;
+    rejectionReason?: string | null;
+}
+
+// Search results carry a relevance score and snippets with matches wrapped in <mark>
+export interface ActivitySearchResult extends ActivityDatabase {
+    searchRank?: number;
+    highlights?: {
+        eventTitle: string;
+        eventDescription: string;
+    };
 }
 
 export const activityDatabase: ActivityDatabase = {
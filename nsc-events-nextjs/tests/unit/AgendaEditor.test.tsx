@@ -0,0 +1,133 @@
+import '@testing-library/jest-dom';
+import React, { useState } from 'react';
+import { fireEvent, render, screen, within } from '@testing-library/react';
+import AgendaEditor from '@/components/AgendaEditor';
+import AgendaTimeline from '@/components/AgendaTimeline';
+import { useSessions } from '@/utility/queries';
+import { EventSession, SessionDraft } from '@/types/session';
+import { Speaker } from '@/types/speaker';
+
+jest.mock('@/utility/queries', () => ({
+  useVenues: jest.fn(() => ({ data: [] })),
+  useSpeakers: jest.fn(() => ({ data: [] })),
+  useSessions: jest.fn(),
+}));
+
+const draft = (key: string, title: string, startTime: string, endTime: string): SessionDraft => ({
+  key,
+  title,
+  description: '',
+  startTime,
+  endTime,
+  roomId: null,
+  location: '',
+  speakers: [],
+});
+
+const Editor = ({ initial, onChange }: { initial: SessionDraft[]; onChange: jest.Mock }) => {
+  const [value, setValue] = useState(initial);
+  return (
+    <AgendaEditor
+      value={value}
+      onChange={(next) => {
+        setValue(next);
+        onChange(next);
+      }}
+      eventStartTime="09:00"
+    />
+  );
+};
+
+describe('AgendaEditor', () => {
+  const agenda = [draft('a', 'Registration', '09:00', '09:30'), draft('b', 'Keynote', '09:30', '10:30')];
+
+  it('adds a session where the last one ends', () => {
+    const onChange = jest.fn();
+    render(<Editor initial={agenda} onChange={onChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Add Session' }));
+
+    expect(onChange).toHaveBeenLastCalledWith([
+      ...agenda,
+      expect.objectContaining({ title: '', startTime: '10:30', endTime: '' }),
+    ]);
+    expect(screen.getAllByLabelText('Session Title')).toHaveLength(3);
+  });
+
+  it('starts the first session when the event starts', () => {
+    const onChange = jest.fn();
+    render(<Editor initial={[]} onChange={onChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Add Session' }));
+
+    expect(onChange).toHaveBeenLastCalledWith([expect.objectContaining({ startTime: '09:00' })]);
+  });
+
+  it('reorders sessions', () => {
+    const onChange = jest.fn();
+    render(<Editor initial={agenda} onChange={onChange} />);
+
+    expect(screen.getByRole('button', { name: 'Move Registration up' })).toBeDisabled();
+    fireEvent.click(screen.getByRole('button', { name: 'Move Registration down' }));
+
+    expect(onChange.mock.calls[0][0].map(({ title }: SessionDraft) => title)).toEqual(['Keynote', 'Registration']);
+    expect(screen.getByRole('button', { name: 'Move Registration down' })).toBeDisabled();
+  });
+
+  it('edits and removes sessions', () => {
+    const onChange = jest.fn();
+    render(<Editor initial={agenda} onChange={onChange} />);
+
+    const speakers = screen.getAllByLabelText('Speakers')[1];
+    fireEvent.change(speakers, { target: { value: 'Ada Lovelace' } });
+    fireEvent.keyDown(speakers, { key: 'Enter' });
+    expect(onChange.mock.calls[0][0][1]).toEqual({ ...agenda[1], speakers: ['Ada Lovelace'] });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove Registration' }));
+    expect(onChange.mock.calls[1][0].map(({ key }: SessionDraft) => key)).toEqual(['b']);
+  });
+
+  it('shows the agenda error', () => {
+    render(<AgendaEditor value={agenda} onChange={jest.fn()} error="Keynote must end after it starts" />);
+
+    expect(screen.getByText('Keynote must end after it starts')).toBeInTheDocument();
+  });
+});
+
+describe('AgendaTimeline', () => {
+  const session: EventSession = {
+    id: 'session-1',
+    activityId: 'event-1',
+    position: 0,
+    title: 'Keynote',
+    description: 'Opening talk',
+    startDate: '2025-01-15T18:00:00.000Z',
+    endDate: '2025-01-15T19:00:00.000Z',
+    location: 'IB 1234',
+    roomId: 'room-1',
+    speakers: ['Ada Lovelace', 'Grace Hopper'],
+    speakerProfiles: [{ id: 'speaker-1', slug: 'ada-lovelace', name: 'Ada Lovelace' } as Speaker],
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+  };
+
+  it('lists the sessions in the event zone', () => {
+    (useSessions as jest.Mock).mockReturnValue({ data: [session] });
+    render(<AgendaTimeline eventId="event-1" timeZone="America/New_York" />);
+
+    const item = within(screen.getByRole('listitem'));
+    expect(item.getByText('Keynote')).toBeInTheDocument();
+    expect(item.getByText((_, element) => element?.textContent === '01:00 PM – 02:00 PM')).toBeInTheDocument();
+    expect(item.getByText((_, element) => element?.textContent === 'IB 1234 · Ada Lovelace, Grace Hopper')).toBeInTheDocument();
+    expect(item.getByRole('link', { name: 'Ada Lovelace' })).toHaveAttribute('href', '/speaker?slug=ada-lovelace');
+    expect(item.queryByRole('link', { name: 'Grace Hopper' })).not.toBeInTheDocument();
+    expect(item.getByText('Opening talk')).toBeInTheDocument();
+  });
+
+  it('renders nothing without sessions', () => {
+    (useSessions as jest.Mock).mockReturnValue({ data: [] });
+    const { container } = render(<AgendaTimeline eventId="event-1" timeZone="America/New_York" />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
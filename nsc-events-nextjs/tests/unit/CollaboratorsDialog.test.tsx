@@ -0,0 +1,118 @@
+import '@testing-library/jest-dom';
+import React from 'react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import CollaboratorsDialog from '@/components/CollaboratorsDialog';
+import { useCollaborators } from '@/utility/queries';
+
+jest.mock('@/utility/queries', () => ({
+  useCollaborators: jest.fn(),
+}));
+
+const collaborators = [
+  {
+    id: 'collab-1',
+    activityId: 'event-1',
+    userId: 'user-2',
+    role: 'editor',
+    status: 'accepted',
+    invitedByUserId: 'owner-1',
+    user: { id: 'user-2', firstName: 'Ada', lastName: 'Lovelace', email: 'ada@example.edu' },
+  },
+  {
+    id: 'collab-2',
+    activityId: 'event-1',
+    userId: 'user-3',
+    role: 'check-in-staff',
+    status: 'invited',
+    invitedByUserId: 'owner-1',
+    user: { id: 'user-3', firstName: 'Alan', lastName: 'Turing', email: 'alan@example.edu' },
+  },
+];
+
+const renderDialog = (canTransfer = true) =>
+  render(
+    <QueryClientProvider client={new QueryClient()}>
+      <CollaboratorsDialog isOpen eventId="event-1" canTransfer={canTransfer} dialogToggle={jest.fn()} />
+    </QueryClientProvider>
+  );
+
+describe('CollaboratorsDialog', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    localStorage.setItem('token', 'owner-token');
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({}),
+    });
+    (useCollaborators as jest.Mock).mockReturnValue({ data: collaborators, isLoading: false, isError: false });
+  });
+
+  it('lists collaborators with their roles', () => {
+    renderDialog();
+
+    expect(useCollaborators).toHaveBeenCalledWith('event-1', true);
+    expect(screen.getByText('Ada Lovelace')).toBeInTheDocument();
+    expect(screen.getByText('Editor', { selector: 'p' })).toBeInTheDocument();
+    expect(screen.getByText('Check-in staff · invited')).toBeInTheDocument();
+  });
+
+  it('invites a collaborator by email', async () => {
+    renderDialog();
+
+    fireEvent.change(screen.getByLabelText('Email'), { target: { value: ' grace@example.edu ' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Invite' }));
+
+    await waitFor(() => expect(global.fetch).toHaveBeenCalled());
+    const [url, options] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toMatch(/\/events\/event-1\/collaborators$/);
+    expect(options.method).toBe('POST');
+    expect(options.headers.Authorization).toBe('Bearer owner-token');
+    expect(JSON.parse(options.body)).toEqual({ email: 'grace@example.edu', role: 'editor' });
+  });
+
+  it('removes a collaborator', async () => {
+    renderDialog();
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Remove' })[0]);
+
+    await waitFor(() => expect(global.fetch).toHaveBeenCalled());
+    const [url, options] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toMatch(/\/events\/event-1\/collaborators\/user-2$/);
+    expect(options.method).toBe('DELETE');
+  });
+
+  it('transfers ownership', async () => {
+    renderDialog();
+
+    fireEvent.change(screen.getByLabelText('New owner email'), { target: { value: 'next@example.edu' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Transfer' }));
+
+    await waitFor(() => expect(global.fetch).toHaveBeenCalled());
+    const [url, options] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toMatch(/\/events\/event-1\/owner$/);
+    expect(options.method).toBe('PUT');
+    expect(JSON.parse(options.body)).toEqual({ email: 'next@example.edu' });
+  });
+
+  it('hides ownership transfer from co-hosts', () => {
+    renderDialog(false);
+
+    expect(screen.queryByText('Transfer ownership')).not.toBeInTheDocument();
+  });
+
+  it('shows the API error message', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: false,
+      statusText: 'Not Found',
+      json: () => Promise.resolve({ message: 'No user found with that email' }),
+    });
+    renderDialog();
+
+    fireEvent.change(screen.getByLabelText('Email'), { target: { value: 'nobody@example.edu' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Invite' }));
+
+    expect(await screen.findByText('No user found with that email')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,168 @@
+import '@testing-library/jest-dom';
+import React from 'react';
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import CoverPhotoDialog from '@/components/CoverPhotoDialog';
+import { uploadCoverImage } from '@/utility/coverImageUpload';
+
+const upload = {
+  key: 'cover-images/uploads/event-1/1-fair.png',
+  uploadUrl: 'https://bucket.s3.amazonaws.com/cover-images/uploads/event-1/1-fair.png?X-Amz-Signature=abc',
+  contentType: 'image/png',
+  expiresAt: '2025-01-15T18:05:00.000Z',
+};
+const cover = 'https://bucket.s3.amazonaws.com/cover-images/1-fair-hero.jpg';
+
+const respond = (body: object | null, ok = true) =>
+  Promise.resolve({ ok, statusText: 'Bad Request', json: () => Promise.resolve(body) });
+
+// Stands in for the browser's XMLHttpRequest, which the file is PUT with
+class FakeRequest {
+  static last: FakeRequest;
+  method = '';
+  url = '';
+  headers: Record<string, string> = {};
+  body: unknown;
+  status = 0;
+  upload: { onprogress?: (event: Partial<ProgressEvent>) => void } = {};
+  onload?: () => void;
+  onerror?: () => void;
+
+  constructor() {
+    FakeRequest.last = this;
+  }
+
+  open(method: string, url: string) {
+    this.method = method;
+    this.url = url;
+  }
+
+  setRequestHeader(name: string, value: string) {
+    this.headers[name] = value;
+  }
+
+  send(body: unknown) {
+    this.body = body;
+  }
+
+  progress(loaded: number, total: number) {
+    this.upload.onprogress?.({ lengthComputable: true, loaded, total });
+  }
+
+  finish(status: number) {
+    this.status = status;
+    this.onload?.();
+  }
+}
+
+const png = (size = 8) => new File([new Uint8Array(size)], 'fair.png', { type: 'image/png' });
+
+describe('uploadCoverImage', () => {
+  const originalRequest = global.XMLHttpRequest;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.setItem('token', 'creator-token');
+    global.fetch = jest.fn();
+    global.XMLHttpRequest = FakeRequest as unknown as typeof XMLHttpRequest;
+  });
+
+  afterAll(() => {
+    global.XMLHttpRequest = originalRequest;
+  });
+
+  it('puts the file at the upload URL and finalizes it', async () => {
+    (global.fetch as jest.Mock)
+      .mockReturnValueOnce(respond(upload))
+      .mockReturnValueOnce(respond({ id: 'event-1', eventCoverPhoto: cover }));
+    const onProgress = jest.fn();
+    const file = png();
+
+    const result = uploadCoverImage('event-1', file, onProgress);
+    await waitFor(() => expect(FakeRequest.last?.url).toBe(upload.uploadUrl));
+    FakeRequest.last.progress(4, 8);
+    FakeRequest.last.finish(200);
+
+    await expect(result).resolves.toEqual({ id: 'event-1', eventCoverPhoto: cover });
+    expect(onProgress).toHaveBeenCalledWith(50);
+    expect(FakeRequest.last.method).toBe('PUT');
+    expect(FakeRequest.last.headers).toEqual({ 'Content-Type': 'image/png' });
+    expect(FakeRequest.last.body).toBe(file);
+
+    const [urlCall, finalizeCall] = (global.fetch as jest.Mock).mock.calls;
+    expect(urlCall[0]).toMatch(/\/events\/event-1\/cover-image\/upload-url$/);
+    expect(JSON.parse(urlCall[1].body)).toEqual({ fileName: 'fair.png', contentType: 'image/png' });
+    expect(urlCall[1].headers.Authorization).toBe('Bearer creator-token');
+    expect(finalizeCall[0]).toMatch(/\/events\/event-1\/cover-image\/finalize$/);
+    expect(JSON.parse(finalizeCall[1].body)).toEqual({ key: upload.key });
+  });
+
+  it('does not finalize when the upload fails', async () => {
+    (global.fetch as jest.Mock).mockReturnValueOnce(respond(upload));
+
+    const result = uploadCoverImage('event-1', png());
+    await waitFor(() => expect(FakeRequest.last?.url).toBe(upload.uploadUrl));
+    FakeRequest.last.finish(403);
+
+    await expect(result).rejects.toThrow('Upload failed with status 403');
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects files the API would not accept before uploading', async () => {
+    const pdf = new File(['%PDF-1.7'], 'agenda.pdf', { type: 'application/pdf' });
+
+    await expect(uploadCoverImage('event-1', pdf)).rejects.toThrow(
+      'Only PNG, JPEG, GIF and WEBP images are allowed'
+    );
+    await expect(uploadCoverImage('event-1', png(21 * 1024 * 1024))).rejects.toThrow(
+      'The image must be 20 MB or smaller'
+    );
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('CoverPhotoDialog', () => {
+  const originalRequest = global.XMLHttpRequest;
+  const originalCreateObjectURL = URL.createObjectURL;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    localStorage.setItem('token', 'creator-token');
+    global.fetch = jest.fn();
+    global.XMLHttpRequest = FakeRequest as unknown as typeof XMLHttpRequest;
+    URL.createObjectURL = jest.fn(() => 'blob:fair');
+  });
+
+  afterAll(() => {
+    global.XMLHttpRequest = originalRequest;
+    URL.createObjectURL = originalCreateObjectURL;
+  });
+
+  it('shows the upload progress and closes once the cover is set', async () => {
+    (global.fetch as jest.Mock)
+      .mockReturnValueOnce(respond(upload))
+      .mockReturnValueOnce(respond({ id: 'event-1', eventCoverPhoto: cover, eventCoverPhotoVariants: null }));
+    const dialogToggle = jest.fn();
+    const setEvent = jest.fn();
+    render(
+      <QueryClientProvider client={new QueryClient()}>
+        <CoverPhotoDialog isOpen dialogToggle={dialogToggle} eventId="event-1" setEvent={setEvent} />
+      </QueryClientProvider>
+    );
+
+    fireEvent.change(screen.getByTestId('cover-photo-input'), { target: { files: [png()] } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+    await waitFor(() => expect(FakeRequest.last?.url).toBe(upload.uploadUrl));
+
+    act(() => FakeRequest.last.progress(2, 8));
+    expect(screen.getByText('Uploading: 25%')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Save' })).toBeDisabled();
+    expect(dialogToggle).not.toHaveBeenCalled();
+
+    act(() => FakeRequest.last.finish(200));
+    await waitFor(() => expect(dialogToggle).toHaveBeenCalledTimes(1));
+    expect(setEvent).toHaveBeenCalled();
+    expect(await screen.findByText('Cover photo uploaded successfully!')).toBeInTheDocument();
+  });
+});
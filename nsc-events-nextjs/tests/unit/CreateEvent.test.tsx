@@ -30,7 +30,7 @@ jest.mock('@/hooks/useEventForm', () => ({
             eventCapacity: '',
             eventTags: [],
             eventSchedule: '',
-            eventSpeakers: '',
+            eventSpeakers: [],
             eventPrerequisites: '',
             eventCancellationPolicy: '',
             eventContact: '',
@@ -45,8 +45,11 @@ jest.mock('@/hooks/useEventForm', () => ({
             eventNote: '',
         },
         handleInputChange: jest.fn(),
+        handleLocationChange: jest.fn(),
         handleSocialMediaChange: jest.fn(),
+        applyTemplate: jest.fn(),
         handleTagClick: jest.fn(),
+        handleSpeakersChange: jest.fn(),
         handleSubmit: jest.fn((e) => e.preventDefault()),
         errors: {
             eventTitle: 'Required',
@@ -57,13 +60,30 @@ jest.mock('@/hooks/useEventForm', () => ({
         handleStartTimeChange: jest.fn(),
         endTime: '',
         handleEndTimeChange: jest.fn(),
+        timeZone: 'America/Los_Angeles',
+        handleTimeZoneChange: jest.fn(),
         timeError: '',
         successMessage: '',
+        recurrence: {
+            frequency: 'none',
+            endType: 'count',
+            until: null,
+            count: 10,
+            exceptionDates: [],
+        },
+        setRecurrence: jest.fn(),
+        publicationStatus: 'published',
+        setPublicationStatus: jest.fn(),
+        publishAt: null,
+        setPublishAt: jest.fn(),
+        sessions: [],
+        setSessions: jest.fn(),
     }),
 }));
 
 
 jest.mock('@/components/TagSelector', () => () => <div>TagSelector</div>);
+jest.mock('@/components/TemplatePicker', () => () => <div>TemplatePicker</div>);
 jest.mock('@/components/UnauthorizedPageMessage', () => () => <div>Unauthorized</div>);
 
 const queryClient = new QueryClient();
@@ -0,0 +1,76 @@
+import '@testing-library/jest-dom';
+import React from 'react';
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import DeletedEventSnackbar, { UNDO_DURATION_MS } from '@/components/DeletedEventSnackbar';
+
+const renderSnackbar = (eventId: string | null = 'event-1') => {
+  const onUndone = jest.fn();
+  const onDismissed = jest.fn();
+  render(
+    <QueryClientProvider client={new QueryClient()}>
+      <DeletedEventSnackbar eventId={eventId} onUndone={onUndone} onDismissed={onDismissed} />
+    </QueryClientProvider>
+  );
+  return { onUndone, onDismissed };
+};
+
+describe('DeletedEventSnackbar', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    localStorage.setItem('token', 'owner-token');
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({}),
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('stays hidden until an event is deleted', () => {
+    renderSnackbar(null);
+
+    expect(screen.queryByText('Event moved to the trash.')).not.toBeInTheDocument();
+  });
+
+  it('restores the event when Undo is clicked', async () => {
+    const { onUndone, onDismissed } = renderSnackbar();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Undo' }));
+
+    await waitFor(() => expect(onUndone).toHaveBeenCalled());
+    const [url, options] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toMatch(/\/events\/restore\/event-1$/);
+    expect(options.method).toBe('PUT');
+    expect(options.headers.Authorization).toBe('Bearer owner-token');
+    expect(onDismissed).not.toHaveBeenCalled();
+  });
+
+  it('says so when the restore fails', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: false,
+      json: () => Promise.resolve({ message: 'Deleted activity not found' }),
+    });
+    const { onUndone } = renderSnackbar();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Undo' }));
+
+    expect(await screen.findByText('Could not restore the event.')).toBeInTheDocument();
+    expect(onUndone).not.toHaveBeenCalled();
+  });
+
+  it('is dismissed once the undo window passes', () => {
+    jest.useFakeTimers();
+    const { onDismissed } = renderSnackbar();
+
+    act(() => {
+      jest.advanceTimersByTime(UNDO_DURATION_MS);
+    });
+
+    expect(onDismissed).toHaveBeenCalled();
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+});
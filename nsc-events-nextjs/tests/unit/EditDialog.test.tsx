@@ -8,7 +8,9 @@ import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 // Mock dependencies
 jest.mock('@/hooks/useEditForm');
 jest.mock('@/components/TagSelector', () => {
-  return function MockTagSelector({ selectedTags, allTags, onTagClick }: any) {
+  // The real selector loads these from the API
+  const allTags = ['Tech', 'Social', 'Cultural'];
+  return function MockTagSelector({ selectedTags, onTagClick }: any) {
     return (
       <div data-testid="tag-selector">
         {allTags.map((tag: string) => (
@@ -103,8 +105,11 @@ describe('EditDialog Component', () => {
   const mockToggleEditDialog = jest.fn();
   const mockHandleSubmit = jest.fn();
   const mockHandleInputChange = jest.fn();
+  const mockHandleLocationChange = jest.fn();
+  const mockBookRoomAnyway = jest.fn();
   const mockHandleSocialMediaChange = jest.fn();
   const mockHandleTagClick = jest.fn();
+  const mockHandleSpeakersChange = jest.fn();
   const mockHandleDateChange = jest.fn();
   const mockOnStartTimeChange = jest.fn();
   const mockOnEndTimeChange = jest.fn();
@@ -152,11 +157,15 @@ describe('EditDialog Component', () => {
     onEndTimeChange: mockOnEndTimeChange,
     eventData: mockEventData,
     handleInputChange: mockHandleInputChange,
+    handleLocationChange: mockHandleLocationChange,
     handleSocialMediaChange: mockHandleSocialMediaChange,
     handleTagClick: mockHandleTagClick,
+    handleSpeakersChange: mockHandleSpeakersChange,
     handleSubmit: mockHandleSubmit,
     errors: {},
     selectedDate: new Date('2025-12-01'),
+    timeZone: 'America/Los_Angeles',
+    handleTimeZoneChange: jest.fn(),
     timeError: null,
     successMessage: '',
     errorMessage: '',
@@ -164,6 +173,12 @@ describe('EditDialog Component', () => {
     endTimeDate: new Date('2025-12-01T12:00:00'),
     to12HourTime: (time: string) => time,
     timezoneMessage: '',
+    scope: 'occurrence' as const,
+    setScope: jest.fn(),
+    roomConflict: null,
+    bookRoomAnyway: mockBookRoomAnyway,
+    sessions: [],
+    setSessions: jest.fn(),
   };
 
   const createWrapper = () => {
@@ -396,7 +411,8 @@ describe('EditDialog Component', () => {
         const locationInput = screen.getByLabelText(/event location/i);
         fireEvent.change(locationInput, { target: { value: 'Test Location Updated' } });
 
-        expect(mockHandleInputChange).toHaveBeenCalled();
+        // Typed locations are free text, not a campus room
+        expect(mockHandleLocationChange).toHaveBeenCalledWith(null, 'Test Location Updated');
       });
 
       it('should handle multi-line description input', async () => {
@@ -741,6 +757,23 @@ describe('EditDialog Component', () => {
         expect(mockHandleTagClick).toHaveBeenCalledWith('Tech');
       });
 
+      it('should add typed speakers through the speaker picker', async () => {
+        render(
+          <EditDialog
+            isOpen={true}
+            event={mockEventData}
+            toggleEditDialog={mockToggleEditDialog}
+          />,
+          { wrapper: createWrapper() }
+        );
+
+        const speakers = screen.getByLabelText('Event Speakers');
+        fireEvent.change(speakers, { target: { value: 'Ada Lovelace' } });
+        fireEvent.keyDown(speakers, { key: 'Enter' });
+
+        expect(mockHandleSpeakersChange).toHaveBeenCalledWith(['Ada Lovelace']);
+      });
+
       it('should handle tag selection and deselection', async () => {
         render(
           <EditDialog
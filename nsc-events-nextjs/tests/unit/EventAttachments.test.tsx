@@ -0,0 +1,104 @@
+import '@testing-library/jest-dom';
+import React from 'react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import EventAttachments from '@/components/EventAttachments';
+
+const agenda = {
+  id: 'attachment-1',
+  activityId: 'event-1',
+  title: 'Agenda',
+  fileName: 'spring-agenda.pdf',
+  mimeType: 'application/pdf',
+  size: 48 * 1024,
+  url: 'https://bucket.s3.amazonaws.com/event-documents/1-spring-agenda.pdf',
+  uploadedByUserId: 'creator-1',
+  createdAt: '2025-01-15T18:00:00.000Z',
+  updatedAt: '2025-01-15T18:00:00.000Z',
+};
+
+const respond = (body: object | null, ok = true) =>
+  Promise.resolve({ ok, statusText: 'Bad Request', json: () => Promise.resolve(body) });
+
+const renderAttachments = (canEdit: boolean) =>
+  render(
+    <QueryClientProvider client={new QueryClient()}>
+      <EventAttachments eventId="event-1" canEdit={canEdit} />
+    </QueryClientProvider>
+  );
+
+const pdf = () => new File(['%PDF-1.7'], 'waiver.pdf', { type: 'application/pdf' });
+
+describe('EventAttachments', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    localStorage.setItem('token', 'creator-token');
+    global.fetch = jest.fn();
+  });
+
+  it('lists the documents of an event as links', async () => {
+    (global.fetch as jest.Mock).mockReturnValue(respond([agenda]));
+    renderAttachments(false);
+
+    const link = await screen.findByRole('link', { name: 'Agenda' });
+    expect(link).toHaveAttribute('href', agenda.url);
+    expect(screen.getByText('spring-agenda.pdf · 48 KB')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Remove Agenda' })).not.toBeInTheDocument();
+    expect(screen.queryByText('Add document')).not.toBeInTheDocument();
+  });
+
+  it('renders nothing for visitors when there are no documents', async () => {
+    (global.fetch as jest.Mock).mockReturnValue(respond([]));
+    const { container } = renderAttachments(false);
+
+    await waitFor(() => expect(global.fetch).toHaveBeenCalled());
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('uploads a document with its title', async () => {
+    (global.fetch as jest.Mock).mockReturnValueOnce(respond([])).mockReturnValueOnce(respond(agenda));
+    renderAttachments(true);
+
+    expect(await screen.findByText('No documents yet')).toBeInTheDocument();
+    fireEvent.change(screen.getByLabelText('Document title'), { target: { value: 'Waiver' } });
+    fireEvent.change(screen.getByTestId('add-attachment'), { target: { files: [pdf()] } });
+
+    expect(await screen.findByText('Document added.')).toBeInTheDocument();
+    const [url, options] = (global.fetch as jest.Mock).mock.calls[1];
+    expect(url).toMatch(/\/events\/event-1\/attachments$/);
+    expect(options.method).toBe('POST');
+    expect(options.headers.Authorization).toBe('Bearer creator-token');
+    expect((options.body as FormData).get('title')).toBe('Waiver');
+    expect(((options.body as FormData).get('file') as File).name).toBe('waiver.pdf');
+  });
+
+  it('replaces and removes documents', async () => {
+    (global.fetch as jest.Mock).mockReturnValue(respond([agenda]));
+    renderAttachments(true);
+
+    await screen.findByRole('link', { name: 'Agenda' });
+    fireEvent.change(screen.getByTestId('replace-attachment-1'), { target: { files: [pdf()] } });
+    expect(await screen.findByText('Document replaced.')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Remove Agenda' }));
+    expect(await screen.findByText('Document removed.')).toBeInTheDocument();
+
+    const requests = (global.fetch as jest.Mock).mock.calls.filter(([, options]) => options?.method);
+    expect(requests.map(([url, options]) => [options.method, url.replace(/^.*\/events/, '')])).toEqual([
+      ['PUT', '/event-1/attachments/attachment-1'],
+      ['DELETE', '/event-1/attachments/attachment-1'],
+    ]);
+  });
+
+  it('shows why an upload was rejected', async () => {
+    (global.fetch as jest.Mock)
+      .mockReturnValueOnce(respond([]))
+      .mockReturnValueOnce(respond({ message: 'Invalid file type. Allowed types are: pdf, doc.' }, false));
+    renderAttachments(true);
+
+    await screen.findByText('No documents yet');
+    fireEvent.change(screen.getByTestId('add-attachment'), { target: { files: [pdf()] } });
+
+    expect(await screen.findByText('Invalid file type. Allowed types are: pdf, doc.')).toBeInTheDocument();
+  });
+});
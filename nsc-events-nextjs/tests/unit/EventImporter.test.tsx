@@ -0,0 +1,106 @@
+import '@testing-library/jest-dom';
+import React from 'react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import EventImporter from '@/components/EventImporter';
+
+const preview = {
+  format: 'csv',
+  headers: ['Title', 'When', 'Budget'],
+  mapping: { Title: 'eventTitle', When: 'startDate' },
+  rows: [
+    {
+      row: 2,
+      fields: { eventTitle: 'Club Fair', startDate: '2025-01-16T02:00:00.000Z' },
+      errors: [],
+      warnings: [],
+    },
+    {
+      row: 3,
+      fields: { eventTitle: 'Broken' },
+      errors: ['endDate must be after startDate'],
+      warnings: [],
+    },
+  ],
+};
+
+const respond = (body: object, ok = true) =>
+  Promise.resolve({ ok, statusText: 'Bad Request', json: () => Promise.resolve(body) });
+
+const renderImporter = () =>
+  render(
+    <QueryClientProvider client={new QueryClient()}>
+      <EventImporter />
+    </QueryClientProvider>
+  );
+
+const chooseFile = () =>
+  fireEvent.change(screen.getByTestId('import-file'), {
+    target: { files: [new File(['Title\nClub Fair'], 'quarter.csv', { type: 'text/csv' })] },
+  });
+
+describe('EventImporter', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    localStorage.setItem('token', 'creator-token');
+    global.fetch = jest.fn();
+  });
+
+  it('previews every row with its errors', async () => {
+    (global.fetch as jest.Mock).mockReturnValueOnce(respond(preview));
+    renderImporter();
+
+    chooseFile();
+    fireEvent.change(screen.getByLabelText('Host'), { target: { value: 'Student Life' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Preview' }));
+
+    expect(await screen.findByText('Club Fair')).toBeInTheDocument();
+    expect(screen.getByText('endDate must be after startDate')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Import 1 event' })).toBeEnabled();
+    expect(screen.getByLabelText('Budget')).toBeInTheDocument();
+
+    const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toMatch(/\/events\/import\/preview$/);
+    expect(init.headers).toEqual({ Authorization: 'Bearer creator-token' });
+    expect(init.body.get('defaults')).toBe(JSON.stringify({ eventHost: 'Student Life' }));
+    expect(init.body.get('mapping')).toBeNull();
+    expect(init.body.get('publicationStatus')).toBe('published');
+  });
+
+  it('imports with the previewed mapping and reports the result', async () => {
+    (global.fetch as jest.Mock)
+      .mockReturnValueOnce(respond(preview))
+      .mockReturnValueOnce(
+        respond({
+          created: [{ row: 2, id: 'event-1', eventTitle: 'Club Fair', startDate: '2025-01-16T02:00:00.000Z' }],
+          skipped: [{ row: 3, eventTitle: 'Broken', errors: ['endDate must be after startDate'] }],
+        })
+      );
+    renderImporter();
+
+    chooseFile();
+    fireEvent.click(screen.getByLabelText('Import as drafts'));
+    fireEvent.click(screen.getByRole('button', { name: 'Preview' }));
+    fireEvent.click(await screen.findByRole('button', { name: 'Import 1 event' }));
+
+    expect(await screen.findByText('Created 1 event, skipped 1.')).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'Club Fair' })).toHaveAttribute('href', '/event-detail?id=event-1');
+    expect(screen.getByText('Row 3 (Broken): endDate must be after startDate')).toBeInTheDocument();
+
+    const [url, init] = (global.fetch as jest.Mock).mock.calls[1];
+    expect(url).toMatch(/\/events\/import$/);
+    expect(init.body.get('mapping')).toBe(JSON.stringify(preview.mapping));
+    expect(init.body.get('publicationStatus')).toBe('draft');
+  });
+
+  it('shows why the file could not be read', async () => {
+    (global.fetch as jest.Mock).mockReturnValueOnce(respond({ message: 'Upload a .csv or .ics file' }, false));
+    renderImporter();
+
+    chooseFile();
+    fireEvent.click(screen.getByRole('button', { name: 'Preview' }));
+
+    await waitFor(() => expect(screen.getByText('Upload a .csv or .ics file')).toBeInTheDocument());
+  });
+});
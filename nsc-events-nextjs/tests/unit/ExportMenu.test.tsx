@@ -0,0 +1,66 @@
+import '@testing-library/jest-dom';
+import React from 'react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import ExportMenu from '@/components/ExportMenu';
+
+describe('ExportMenu', () => {
+  const click = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(click);
+    localStorage.setItem('token', 'creator-token');
+    process.env.NSC_EVENTS_PUBLIC_API_URL = 'http://localhost:3000/api';
+    URL.createObjectURL = jest.fn(() => 'blob:export');
+    URL.revokeObjectURL = jest.fn();
+    global.fetch = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('downloads the export in the chosen format', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      headers: new Headers({ 'Content-Disposition': 'attachment; filename="archived-events-2025-01-15.xlsx"' }),
+      blob: () => Promise.resolve(new Blob(['xlsx'])),
+    });
+    render(<ExportMenu path="/export/events" params={{ isArchived: 'true', host: 'NSC' }} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export' }));
+    fireEvent.click(screen.getByText('Excel (.xlsx)'));
+
+    await waitFor(() => expect(click).toHaveBeenCalled());
+    expect(global.fetch).toHaveBeenCalledWith(
+      'http://localhost:3000/api/export/events?isArchived=true&host=NSC&format=xlsx',
+      { headers: { Authorization: 'Bearer creator-token' } },
+    );
+    const link = click.mock.contexts[0] as HTMLAnchorElement;
+    expect(link.download).toBe('archived-events-2025-01-15.xlsx');
+    expect(link.href).toBe('blob:export');
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:export');
+  });
+
+  it('shows why an export failed', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: false,
+      statusText: 'Unauthorized',
+      json: () => Promise.resolve({ message: 'You can\'t export registrations of "Club Fair"' }),
+    });
+    render(<ExportMenu path="/export/registrations" params={{ activityIds: 'a1' }} label="Export registrations" />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export registrations' }));
+    fireEvent.click(screen.getByText('CSV'));
+
+    expect(await screen.findByText('You can\'t export registrations of "Club Fair"')).toBeInTheDocument();
+    expect(click).not.toHaveBeenCalled();
+  });
+
+  it('is disabled when there is nothing to export', () => {
+    render(<ExportMenu path="/export/registrations" params={{ activityIds: '' }} disabled />);
+
+    expect(screen.getByRole('button', { name: 'Export' })).toBeDisabled();
+  });
+});
@@ -0,0 +1,98 @@
+import '@testing-library/jest-dom';
+import React from 'react';
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import ModerationQueue from '@/components/ModerationQueue';
+import { usePendingEvents } from '@/utility/queries';
+
+jest.mock('@/utility/queries', () => ({
+  usePendingEvents: jest.fn(),
+}));
+
+jest.mock('next/link', () => {
+  return ({ children, href }: { children: React.ReactNode; href: string }) => (
+    <a href={href}>{children}</a>
+  );
+});
+
+const pendingEvent = {
+  id: 'event-1',
+  eventTitle: 'Career Fair',
+  eventDescription: 'Meet local employers',
+  eventLocation: 'Library',
+  eventHost: 'Career Services',
+  startDate: '2030-01-15T18:00:00Z',
+  endDate: '2030-01-15T20:00:00Z',
+  approvalStatus: 'pending',
+};
+
+const renderQueue = () =>
+  render(
+    <QueryClientProvider client={new QueryClient()}>
+      <ModerationQueue />
+    </QueryClientProvider>
+  );
+
+describe('ModerationQueue', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    localStorage.setItem('token', 'admin-token');
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({}),
+    });
+    (usePendingEvents as jest.Mock).mockReturnValue({
+      data: { data: [pendingEvent], page: 1, pageSize: 6, total: 1, totalPages: 1, nextCursor: null },
+      isLoading: false,
+      isError: false,
+    });
+  });
+
+  it('lists events awaiting review', () => {
+    renderQueue();
+
+    expect(screen.getByText('Career Fair')).toHaveAttribute('href', '/event-detail?id=event-1');
+    expect(screen.getByText('Meet local employers')).toBeInTheDocument();
+  });
+
+  it('shows an empty state when nothing is pending', () => {
+    (usePendingEvents as jest.Mock).mockReturnValue({
+      data: { data: [], page: 1, pageSize: 6, total: 0, totalPages: 0, nextCursor: null },
+      isLoading: false,
+      isError: false,
+    });
+
+    renderQueue();
+
+    expect(screen.getByText('No events are waiting for review.')).toBeInTheDocument();
+  });
+
+  it('approves an event', async () => {
+    renderQueue();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Approve' }));
+
+    await waitFor(() => expect(global.fetch).toHaveBeenCalled());
+    const [url, options] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toContain('/events/moderation/event-1/approve');
+    expect(options.method).toBe('PUT');
+    expect(options.headers.Authorization).toBe('Bearer admin-token');
+  });
+
+  it('requires a reason before rejecting', async () => {
+    renderQueue();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Reject' }));
+    const confirm = within(screen.getByRole('dialog')).getByRole('button', { name: 'Reject' });
+    expect(confirm).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Reason'), { target: { value: 'Missing room number' } });
+    fireEvent.click(confirm);
+
+    await waitFor(() => expect(global.fetch).toHaveBeenCalled());
+    const [url, options] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toContain('/events/moderation/event-1/reject');
+    expect(JSON.parse(options.body)).toEqual({ reason: 'Missing room number' });
+  });
+});
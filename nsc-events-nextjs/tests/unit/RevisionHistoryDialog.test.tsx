@@ -0,0 +1,100 @@
+import '@testing-library/jest-dom';
+import React from 'react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import RevisionHistoryDialog, { formatRevisionValue } from '@/components/RevisionHistoryDialog';
+import { useRevisions } from '@/utility/queries';
+
+jest.mock('@/utility/queries', () => ({
+  useRevisions: jest.fn(),
+}));
+
+const revisions = [
+  {
+    id: 'revision-2',
+    activityId: 'event-1',
+    revision: 2,
+    action: 'updated',
+    actorUserId: 'user-2',
+    changes: { eventLocation: { before: 'Gym', after: 'Room 204' } },
+    createdAt: '2025-10-27T17:00:00.000Z',
+    actor: { id: 'user-2', firstName: 'Ada', lastName: 'Lovelace' },
+  },
+  {
+    id: 'revision-1',
+    activityId: 'event-1',
+    revision: 1,
+    action: 'created',
+    actorUserId: null,
+    changes: {},
+    createdAt: '2025-10-20T17:00:00.000Z',
+    actor: null,
+  },
+];
+
+const renderDialog = () =>
+  render(
+    <QueryClientProvider client={new QueryClient()}>
+      <RevisionHistoryDialog isOpen eventId="event-1" dialogToggle={jest.fn()} />
+    </QueryClientProvider>
+  );
+
+describe('RevisionHistoryDialog', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    localStorage.setItem('token', 'owner-token');
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({}),
+    });
+    (useRevisions as jest.Mock).mockReturnValue({ data: revisions, isLoading: false, isError: false });
+  });
+
+  it('lists revisions with their actor and changed fields', () => {
+    renderDialog();
+
+    expect(useRevisions).toHaveBeenCalledWith('event-1', true);
+    expect(screen.getByText('#2 Edited')).toBeInTheDocument();
+    expect(screen.getByText(/Ada Lovelace/)).toBeInTheDocument();
+    expect(screen.getByText(/Gym → Room 204/)).toBeInTheDocument();
+    expect(screen.getByText(/System/)).toBeInTheDocument();
+  });
+
+  it('only offers to restore earlier revisions', () => {
+    renderDialog();
+
+    expect(screen.getAllByRole('button', { name: 'Restore' })).toHaveLength(1);
+  });
+
+  it('restores a revision', async () => {
+    renderDialog();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Restore' }));
+
+    await waitFor(() => expect(global.fetch).toHaveBeenCalled());
+    const [url, options] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toMatch(/\/events\/event-1\/revisions\/1\/restore$/);
+    expect(options.method).toBe('POST');
+    expect(options.headers.Authorization).toBe('Bearer owner-token');
+    expect(await screen.findByText('Restored revision 1.')).toBeInTheDocument();
+  });
+
+  it('shows the error when the restore fails', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: false,
+      json: () => Promise.resolve({ message: 'The event already matches this revision' }),
+    });
+    renderDialog();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Restore' }));
+
+    expect(await screen.findByText('The event already matches this revision')).toBeInTheDocument();
+  });
+
+  it('formats empty, list and boolean values', () => {
+    expect(formatRevisionValue('eventNote', '')).toBe('(empty)');
+    expect(formatRevisionValue('eventTags', ['Career', 'Workshop'])).toBe('Career, Workshop');
+    expect(formatRevisionValue('isArchived', true)).toBe('Yes');
+  });
+});
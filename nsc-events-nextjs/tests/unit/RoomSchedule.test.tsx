@@ -0,0 +1,108 @@
+import '@testing-library/jest-dom';
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import RoomSchedule from '@/components/RoomSchedule';
+import RoomConflictAlert from '@/components/RoomConflictAlert';
+import { useVenues, useVenueSchedule } from '@/utility/queries';
+
+jest.mock('@/utility/queries', () => ({
+  useVenues: jest.fn(),
+  useVenueSchedule: jest.fn(),
+}));
+
+const booking = (id: string, title: string, start: string, end: string, conflictsWith: string[] = []) => ({
+  id,
+  eventTitle: title,
+  eventHost: 'Chess Club',
+  roomId: 'room-1',
+  startDate: `2025-01-15T${start}:00`,
+  endDate: `2025-01-15T${end}:00`,
+  setupMinutes: 0,
+  teardownMinutes: 0,
+  approvalStatus: 'approved',
+  publicationStatus: 'published',
+  conflictsWith,
+});
+
+const venue = { id: 'venue-1', campus: 'North Seattle', name: 'Instruction Building', code: 'IB', isActive: true };
+const room = { id: 'room-1', venueId: 'venue-1', roomNumber: '1234', capacity: 40, accessibilityFeatures: [], isActive: true };
+
+describe('RoomSchedule', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (useVenues as jest.Mock).mockReturnValue({ data: [{ ...venue, rooms: [room] }] });
+    (useVenueSchedule as jest.Mock).mockReturnValue({ data: undefined, isLoading: false, isError: false });
+  });
+
+  it('asks for a venue before loading a schedule', () => {
+    render(<RoomSchedule />);
+
+    expect(useVenues).toHaveBeenCalledWith(true);
+    expect(useVenueSchedule).toHaveBeenCalledWith('', expect.stringMatching(/^\d{4}-\d{2}-\d{2}$/));
+    expect(screen.getByText('Pick a venue to see its rooms.')).toBeInTheDocument();
+  });
+
+  it('lists the bookings of each room and flags double bookings', () => {
+    (useVenueSchedule as jest.Mock).mockReturnValue({
+      data: {
+        venue,
+        date: '2025-01-15',
+        timeZone: 'America/Los_Angeles',
+        rooms: [
+          {
+            room,
+            bookings: [
+              { ...booking('event-1', 'Chess Night', '18:00', '20:00', ['event-2']), setupMinutes: 30 },
+              booking('event-2', 'Robotics Demo', '19:00', '21:00', ['event-1']),
+              booking('event-3', 'Study Hall', '21:00', '22:00'),
+            ],
+          },
+          { room: { ...room, id: 'room-2', roomNumber: '2110' }, bookings: [] },
+        ],
+      },
+      isLoading: false,
+      isError: false,
+    });
+
+    render(<RoomSchedule />);
+    fireEvent.mouseDown(screen.getByLabelText('Venue'));
+    fireEvent.click(screen.getByRole('option', { name: 'Instruction Building (IB) · North Seattle' }));
+    fireEvent.change(screen.getByLabelText('Day'), { target: { value: '2025-01-15' } });
+
+    expect(useVenueSchedule).toHaveBeenLastCalledWith('venue-1', '2025-01-15');
+    expect(screen.getByText('IB 1234')).toBeInTheDocument();
+    expect(screen.getByText('6:00 PM – 8:00 PM')).toBeInTheDocument();
+    expect(screen.getByText(/30 min setup/)).toBeInTheDocument();
+    expect(screen.getAllByText('Double-booked')).toHaveLength(2);
+    expect(screen.getByText('Nothing booked')).toBeInTheDocument();
+  });
+});
+
+describe('RoomConflictAlert', () => {
+  const conflict = {
+    message: 'Room IB 1234 is already booked',
+    conflicts: [booking('event-1', 'Chess Night', '18:00', '20:00')],
+  };
+
+  it('lets admins book the room anyway', () => {
+    const onOverride = jest.fn();
+    render(<RoomConflictAlert conflict={{ ...conflict, canOverride: true }} onOverride={onOverride} />);
+
+    expect(screen.getByText(/Chess Night · Wed, Jan 15, 6:00 PM – 8:00 PM/)).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Book Anyway' }));
+    expect(onOverride).toHaveBeenCalled();
+  });
+
+  it('blocks creators', () => {
+    render(<RoomConflictAlert conflict={{ ...conflict, canOverride: false }} onOverride={jest.fn()} />);
+
+    expect(screen.queryByRole('button', { name: 'Book Anyway' })).not.toBeInTheDocument();
+    expect(screen.getByText(/ask an admin to book it for you/)).toBeInTheDocument();
+  });
+
+  it('renders nothing without a conflict', () => {
+    const { container } = render(<RoomConflictAlert conflict={null} onOverride={jest.fn()} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
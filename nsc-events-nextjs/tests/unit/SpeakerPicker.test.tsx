@@ -0,0 +1,71 @@
+import '@testing-library/jest-dom';
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import SpeakerPicker from '@/components/SpeakerPicker';
+import { useSpeakers } from '@/utility/queries';
+
+jest.mock('@/utility/queries', () => ({
+  useSpeakers: jest.fn(),
+}));
+
+const speakers = [
+  {
+    id: 'speaker-1',
+    slug: 'ada-lovelace',
+    name: 'Ada Lovelace',
+    title: 'Mathematician',
+    affiliation: 'Analytical Society',
+    bio: '',
+    headshotUrl: '',
+    links: [],
+  },
+];
+
+describe('SpeakerPicker', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (useSpeakers as jest.Mock).mockReturnValue({ data: speakers });
+  });
+
+  it('shows the picked speakers', () => {
+    render(<SpeakerPicker value={['Ada Lovelace', 'Grace Hopper']} onChange={jest.fn()} />);
+
+    expect(screen.getByText('Ada Lovelace')).toBeInTheDocument();
+    expect(screen.getByText('Grace Hopper')).toBeInTheDocument();
+  });
+
+  it('offers speakers with their title and affiliation', () => {
+    render(<SpeakerPicker value={[]} onChange={jest.fn()} />);
+
+    fireEvent.change(screen.getByLabelText('Speakers'), { target: { value: 'ada' } });
+
+    expect(screen.getByRole('option', { name: /Ada Lovelace/ })).toHaveTextContent(
+      'Mathematician, Analytical Society'
+    );
+  });
+
+  it('uses the saved spelling of a known speaker', () => {
+    const onChange = jest.fn();
+    render(<SpeakerPicker value={[]} onChange={onChange} />);
+
+    const input = screen.getByLabelText('Speakers');
+    fireEvent.change(input, { target: { value: ' ada lovelace ' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(onChange).toHaveBeenCalledWith(['Ada Lovelace']);
+  });
+
+  it('adds new names and drops repeats', () => {
+    const onChange = jest.fn();
+    render(<SpeakerPicker value={['Grace Hopper']} onChange={onChange} />);
+
+    const input = screen.getByLabelText('Speakers');
+    fireEvent.change(input, { target: { value: 'grace hopper' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(onChange).toHaveBeenLastCalledWith(['Grace Hopper']);
+
+    fireEvent.change(input, { target: { value: 'Alan Turing' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(onChange).toHaveBeenLastCalledWith(['Grace Hopper', 'Alan Turing']);
+  });
+});
@@ -0,0 +1,106 @@
+import '@testing-library/jest-dom';
+import React from 'react';
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import TagManager from '@/components/TagManager';
+import { useTags } from '@/utility/queries';
+
+jest.mock('@/utility/queries', () => ({
+  useTags: jest.fn(),
+}));
+
+const tags = [
+  { id: 'tag-1', slug: 'free-food', name: 'Free Food', color: '#2074d4', isActive: true },
+  { id: 'tag-2', slug: 'pizza', name: 'Pizza', color: '#aa0000', isActive: false },
+];
+
+const renderManager = () =>
+  render(
+    <QueryClientProvider client={new QueryClient()}>
+      <TagManager />
+    </QueryClientProvider>
+  );
+
+describe('TagManager', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    localStorage.setItem('token', 'admin-token');
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({}),
+    });
+    (useTags as jest.Mock).mockReturnValue({ data: tags, isLoading: false, isError: false });
+  });
+
+  it('lists every tag, including inactive ones', () => {
+    renderManager();
+
+    expect(useTags).toHaveBeenCalledWith(true);
+    expect(screen.getByText('Free Food')).toBeInTheDocument();
+    expect(screen.getByText('pizza · inactive')).toBeInTheDocument();
+  });
+
+  it('creates a tag', async () => {
+    renderManager();
+
+    fireEvent.click(screen.getByRole('button', { name: 'New Tag' }));
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: ' Board Games ' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    await waitFor(() => expect(global.fetch).toHaveBeenCalled());
+    const [url, options] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toMatch(/\/tags$/);
+    expect(options.method).toBe('POST');
+    expect(options.headers.Authorization).toBe('Bearer admin-token');
+    expect(JSON.parse(options.body)).toEqual({
+      name: 'Board Games',
+      color: '#2074d4',
+      isActive: true,
+    });
+  });
+
+  it('renames a tag', async () => {
+    renderManager();
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Edit' })[0]);
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Snacks' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    await waitFor(() => expect(global.fetch).toHaveBeenCalled());
+    const [url, options] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toContain('/tags/tag-1');
+    expect(options.method).toBe('PUT');
+    expect(JSON.parse(options.body)).toEqual(expect.objectContaining({ name: 'Snacks' }));
+  });
+
+  it('merges a tag into another', async () => {
+    renderManager();
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Merge' })[1]);
+    const dialog = screen.getByRole('dialog');
+    const confirm = within(dialog).getByRole('button', { name: 'Merge' });
+    expect(confirm).toBeDisabled();
+
+    fireEvent.mouseDown(within(dialog).getByLabelText('Merge into'));
+    fireEvent.click(screen.getByRole('option', { name: 'Free Food' }));
+    fireEvent.click(confirm);
+
+    await waitFor(() => expect(global.fetch).toHaveBeenCalled());
+    const [url, options] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toContain('/tags/merge');
+    expect(JSON.parse(options.body)).toEqual({ sourceIds: ['tag-2'], targetId: 'tag-1' });
+  });
+
+  it('deletes a tag after confirmation', async () => {
+    renderManager();
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Delete' })[0]);
+    fireEvent.click(within(screen.getByRole('dialog')).getByRole('button', { name: 'Delete' }));
+
+    await waitFor(() => expect(global.fetch).toHaveBeenCalled());
+    const [url, options] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toContain('/tags/tag-1');
+    expect(options.method).toBe('DELETE');
+  });
+});
@@ -0,0 +1,62 @@
+import '@testing-library/jest-dom';
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import TagSelector from '@/components/TagSelector';
+import { useTags } from '@/utility/queries';
+
+jest.mock('@/utility/queries', () => ({
+  useTags: jest.fn(),
+}));
+
+const tags = [
+  { id: 'tag-1', slug: 'club', name: 'Club', color: '#2074d4', isActive: true },
+  {
+    id: 'tag-2',
+    slug: 'free-food',
+    name: 'Free Food',
+    color: '#2074d4',
+    description: 'Food provided at no cost',
+    isActive: true,
+  },
+];
+
+describe('TagSelector', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (useTags as jest.Mock).mockReturnValue({ data: tags, isError: false });
+  });
+
+  it('lists the tags from the API', () => {
+    render(<TagSelector selectedTags={[]} onTagClick={jest.fn()} />);
+
+    expect(screen.getByRole('button', { name: 'Club' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Free Food' })).toHaveAttribute(
+      'title',
+      'Food provided at no cost'
+    );
+  });
+
+  it('reports clicked tags by name', () => {
+    const onTagClick = jest.fn();
+    render(<TagSelector selectedTags={[]} onTagClick={onTagClick} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Free Food' }));
+
+    expect(onTagClick).toHaveBeenCalledWith('Free Food');
+  });
+
+  it('keeps selected tags that are no longer offered', () => {
+    render(<TagSelector selectedTags={['Club', 'Retired']} onTagClick={jest.fn()} />);
+
+    expect(screen.getByRole('button', { name: 'Retired' })).toHaveClass('MuiButton-contained');
+    expect(screen.getAllByRole('button')).toHaveLength(3);
+  });
+
+  it('shows an error when tags cannot be loaded', () => {
+    (useTags as jest.Mock).mockReturnValue({ data: undefined, isError: true });
+
+    render(<TagSelector selectedTags={[]} onTagClick={jest.fn()} />);
+
+    expect(screen.getByText('Could not load tags.')).toBeInTheDocument();
+  });
+});
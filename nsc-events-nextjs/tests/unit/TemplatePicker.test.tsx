@@ -0,0 +1,138 @@
+import '@testing-library/jest-dom';
+import React from 'react';
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import TemplatePicker, { toTemplateFields } from '@/components/TemplatePicker';
+import { useTemplates } from '@/utility/queries';
+import { activity } from '@/models/activity';
+
+jest.mock('@/utility/queries', () => ({
+  useTemplates: jest.fn(),
+}));
+
+const templates = [
+  {
+    id: 'template-1',
+    name: 'Study Night',
+    description: 'Our weekly drop-in session',
+    createdByUserId: 'creator-1',
+    isShared: false,
+    fields: { eventHost: 'Math Club', eventLocation: 'Library' },
+  },
+  {
+    id: 'template-2',
+    name: 'Club Fair',
+    createdByUserId: 'admin-1',
+    isShared: true,
+    fields: { eventHost: 'Student Life' },
+  },
+];
+
+const renderPicker = (onApply = jest.fn(), isAdmin = false) =>
+  render(
+    <QueryClientProvider client={new QueryClient()}>
+      <TemplatePicker
+        fields={{ ...activity, eventHost: 'Chess Club', eventCapacity: 30 }}
+        onApply={onApply}
+        isAdmin={isAdmin}
+      />
+    </QueryClientProvider>
+  );
+
+const pickTemplate = (name: string) => {
+  fireEvent.mouseDown(screen.getByLabelText('Start from a template'));
+  fireEvent.click(within(screen.getByRole('listbox')).getByText(name));
+};
+
+describe('TemplatePicker', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    localStorage.setItem('token', 'creator-token');
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({}),
+    });
+    (useTemplates as jest.Mock).mockReturnValue({ data: templates });
+  });
+
+  it('prefills the form from the picked template', () => {
+    const onApply = jest.fn();
+    renderPicker(onApply);
+
+    pickTemplate('Study Night');
+
+    expect(onApply).toHaveBeenCalledWith({ eventHost: 'Math Club', eventLocation: 'Library' });
+    expect(screen.getByText('Our weekly drop-in session')).toBeInTheDocument();
+  });
+
+  it('does not let creators delete shared templates', () => {
+    renderPicker();
+
+    pickTemplate('Club Fair (shared)');
+
+    expect(screen.queryByRole('button', { name: 'Delete template' })).not.toBeInTheDocument();
+  });
+
+  it('deletes the picked template', async () => {
+    renderPicker();
+
+    pickTemplate('Study Night');
+    fireEvent.click(screen.getByRole('button', { name: 'Delete template' }));
+
+    await waitFor(() => expect(global.fetch).toHaveBeenCalled());
+    const [url, options] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toMatch(/\/templates\/template-1$/);
+    expect(options.method).toBe('DELETE');
+  });
+
+  it('saves the filled in fields as a template', async () => {
+    renderPicker();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Save as template' }));
+    expect(screen.queryByLabelText('Share with every creator')).not.toBeInTheDocument();
+    fireEvent.change(screen.getByLabelText('Template name'), { target: { value: ' Chess Night ' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    await waitFor(() => expect(global.fetch).toHaveBeenCalled());
+    const [url, options] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toMatch(/\/templates$/);
+    expect(options.method).toBe('POST');
+    expect(options.headers.Authorization).toBe('Bearer creator-token');
+    expect(JSON.parse(options.body)).toEqual({
+      name: 'Chess Night',
+      isShared: false,
+      fields: { eventHost: 'Chess Club', eventCapacity: 30 },
+    });
+  });
+
+  it('lets admins share a template', () => {
+    renderPicker(jest.fn(), true);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Save as template' }));
+
+    expect(screen.getByLabelText('Share with every creator')).toBeInTheDocument();
+  });
+
+  describe('toTemplateFields', () => {
+    it('leaves out empty fields', () => {
+      expect(
+        toTemplateFields({
+          ...activity,
+          eventTitle: 'Chess Night',
+          eventCapacity: 0,
+          eventTags: ['Club'],
+          eventSocialMedia: { facebook: '', twitter: '', instagram: 'chess', hashtag: ' ' },
+        })
+      ).toEqual({
+        eventTitle: 'Chess Night',
+        eventTags: ['Club'],
+        eventSocialMedia: { instagram: 'chess' },
+      });
+    });
+
+    it('keeps unlimited capacity', () => {
+      expect(toTemplateFields({ eventCapacity: null })).toEqual({ eventCapacity: null });
+    });
+  });
+});
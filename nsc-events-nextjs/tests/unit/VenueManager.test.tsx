@@ -0,0 +1,135 @@
+import '@testing-library/jest-dom';
+import React from 'react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import VenueManager from '@/components/VenueManager';
+import { useVenues } from '@/utility/queries';
+
+jest.mock('@/utility/queries', () => ({
+  useVenues: jest.fn(),
+}));
+
+const venues = [
+  {
+    id: 'venue-1',
+    campus: 'North Seattle',
+    name: 'Instruction Building',
+    code: 'IB',
+    isActive: true,
+    rooms: [
+      {
+        id: 'room-1',
+        venueId: 'venue-1',
+        roomNumber: '1234',
+        capacity: 40,
+        accessibilityFeatures: ['elevator'],
+        isActive: false,
+      },
+    ],
+  },
+];
+
+const renderManager = () =>
+  render(
+    <QueryClientProvider client={new QueryClient()}>
+      <VenueManager />
+    </QueryClientProvider>
+  );
+
+describe('VenueManager', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    localStorage.setItem('token', 'admin-token');
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({}),
+    });
+    (useVenues as jest.Mock).mockReturnValue({ data: venues, isLoading: false, isError: false });
+  });
+
+  it('lists every venue and room, including inactive ones', () => {
+    renderManager();
+
+    expect(useVenues).toHaveBeenCalledWith(true);
+    expect(screen.getByText('Instruction Building (IB) · North Seattle')).toBeInTheDocument();
+    expect(screen.getByText(/40 seats · Elevator · inactive/)).toBeInTheDocument();
+  });
+
+  it('creates a venue', async () => {
+    renderManager();
+
+    fireEvent.click(screen.getByRole('button', { name: 'New Venue' }));
+    fireEvent.change(screen.getByLabelText('Campus'), { target: { value: 'North Seattle' } });
+    fireEvent.change(screen.getByLabelText('Building Name'), { target: { value: ' Technology Building ' } });
+    fireEvent.change(screen.getByLabelText('Building Code'), { target: { value: 'TB' } });
+    fireEvent.change(screen.getByLabelText('Latitude'), { target: { value: '47.7' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    await waitFor(() => expect(global.fetch).toHaveBeenCalled());
+    const [url, options] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toMatch(/\/venues$/);
+    expect(options.method).toBe('POST');
+    expect(options.headers.Authorization).toBe('Bearer admin-token');
+    expect(JSON.parse(options.body)).toEqual({
+      campus: 'North Seattle',
+      name: 'Technology Building',
+      code: 'TB',
+      address: null,
+      latitude: 47.7,
+      longitude: null,
+      isActive: true,
+    });
+  });
+
+  it('adds a room to a venue', async () => {
+    renderManager();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Add Room' }));
+    fireEvent.change(screen.getByLabelText('Room Number'), { target: { value: '2110' } });
+    fireEvent.change(screen.getByLabelText('Capacity'), { target: { value: '120' } });
+    fireEvent.click(screen.getByLabelText('Hearing loop'));
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    await waitFor(() => expect(global.fetch).toHaveBeenCalled());
+    const [url, options] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toMatch(/\/venues\/venue-1\/rooms$/);
+    expect(options.method).toBe('POST');
+    expect(JSON.parse(options.body)).toEqual({
+      roomNumber: '2110',
+      name: null,
+      capacity: 120,
+      accessibilityFeatures: ['hearing-loop'],
+      isActive: true,
+    });
+  });
+
+  it('edits a room', async () => {
+    renderManager();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Edit room 1234' }));
+    fireEvent.click(screen.getByLabelText('Can be picked for new events'));
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    await waitFor(() => expect(global.fetch).toHaveBeenCalled());
+    const [url, options] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toMatch(/\/venues\/rooms\/room-1$/);
+    expect(options.method).toBe('PUT');
+    expect(JSON.parse(options.body)).toEqual(
+      expect.objectContaining({ accessibilityFeatures: ['elevator'], isActive: true })
+    );
+  });
+
+  it('deletes a room after confirmation', async () => {
+    renderManager();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete room 1234' }));
+    expect(screen.getByText(/IB 1234 will be deleted/)).toBeInTheDocument();
+    fireEvent.click(screen.getAllByRole('button', { name: 'Delete' }).pop()!);
+
+    await waitFor(() => expect(global.fetch).toHaveBeenCalled());
+    const [url, options] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toMatch(/\/venues\/rooms\/room-1$/);
+    expect(options.method).toBe('DELETE');
+  });
+});
@@ -0,0 +1,108 @@
+import '@testing-library/jest-dom';
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import VenuePicker from '@/components/VenuePicker';
+import { useVenues } from '@/utility/queries';
+import { filterRoomOptions, toRoomOptions } from '@/utility/venues';
+import { Venue } from '@/types/venue';
+
+jest.mock('@/utility/queries', () => ({
+  useVenues: jest.fn(),
+}));
+
+const venues: Venue[] = [
+  {
+    id: 'venue-1',
+    campus: 'North Seattle',
+    name: 'Instruction Building',
+    code: 'IB',
+    isActive: true,
+    rooms: [
+      {
+        id: 'room-1',
+        venueId: 'venue-1',
+        roomNumber: '1234',
+        capacity: 40,
+        accessibilityFeatures: ['elevator'],
+        isActive: true,
+      },
+      {
+        id: 'room-2',
+        venueId: 'venue-1',
+        roomNumber: '2110',
+        name: 'Library Commons',
+        accessibilityFeatures: [],
+        isActive: true,
+      },
+    ],
+  },
+  {
+    id: 'venue-2',
+    campus: 'North Seattle',
+    name: 'Technology Building',
+    code: 'TB',
+    isActive: true,
+    rooms: [{ id: 'room-3', venueId: 'venue-2', roomNumber: '1204', accessibilityFeatures: [], isActive: true }],
+  },
+];
+
+describe('filterRoomOptions', () => {
+  const options = toRoomOptions(venues);
+  const labels = (input: string) => filterRoomOptions(options, input).map((option) => option.label);
+
+  it('labels rooms the same way the API does', () => {
+    expect(options.map((option) => option.label)).toEqual([
+      'Instruction Building (IB) 1234',
+      'Library Commons, Instruction Building (IB) 2110',
+      'Technology Building (TB) 1204',
+    ]);
+  });
+
+  it('finds the same room however it is written', () => {
+    expect(labels('IB 1234')).toEqual(['Instruction Building (IB) 1234']);
+    expect(labels('Room 1234')).toEqual(['Instruction Building (IB) 1234']);
+    expect(labels('Instruction Bldg')).toEqual([
+      'Instruction Building (IB) 1234',
+      'Library Commons, Instruction Building (IB) 2110',
+    ]);
+    expect(labels('library')).toEqual(['Library Commons, Instruction Building (IB) 2110']);
+  });
+
+  it('finds nothing for off-campus locations', () => {
+    expect(labels('Gas Works Park')).toEqual([]);
+  });
+});
+
+describe('VenuePicker', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (useVenues as jest.Mock).mockReturnValue({ data: venues });
+  });
+
+  it('picks a campus room', () => {
+    const onChange = jest.fn();
+    render(<VenuePicker location="" onChange={onChange} />);
+
+    fireEvent.mouseDown(screen.getByLabelText('Event Location'));
+    expect(screen.getByText('40 seats · Elevator')).toBeInTheDocument();
+    fireEvent.click(screen.getByText('Technology Building (TB) 1204'));
+
+    expect(onChange).toHaveBeenCalledWith('room-3', 'Technology Building (TB) 1204');
+  });
+
+  it('keeps typed locations as free text', () => {
+    const onChange = jest.fn();
+    render(<VenuePicker location="" onChange={onChange} />);
+
+    fireEvent.change(screen.getByLabelText('Event Location'), { target: { value: 'Zoom' } });
+
+    expect(onChange).toHaveBeenLastCalledWith(null, 'Zoom');
+  });
+
+  it('shows the room an event is in', () => {
+    render(<VenuePicker roomId="room-1" location="Instruction Building (IB) 1234" onChange={jest.fn()} />);
+
+    expect(screen.getByLabelText('Event Location')).toHaveValue('Instruction Building (IB) 1234');
+    expect(screen.queryByText(/type an off-campus/)).not.toBeInTheDocument();
+  });
+});
@@ -18,6 +18,11 @@ jest.mock("next/link", () => {
   };
 });
 
+jest.mock("@/components/ModerationQueue", () => () => <div>ModerationQueue</div>);
+jest.mock("@/components/TagManager", () => () => <div>TagManager</div>);
+jest.mock("@/components/VenueManager", () => () => <div>VenueManager</div>);
+jest.mock("@/components/RoomSchedule", () => () => <div>RoomSchedule</div>);
+
 // Mock next/router
 jest.mock("next/router", () => ({
   useRouter: jest.fn(),
@@ -56,6 +61,12 @@ describe("Admin", () => {
     expect(screen.getByText("View All Events")).toBeInTheDocument();
   });
 
+  it("renders the moderation queue", () => {
+    expect(screen.getByText("Events Awaiting Review")).toBeInTheDocument();
+    expect(screen.getByText("ModerationQueue")).toBeInTheDocument();
+    expect(screen.getByText("TagManager")).toBeInTheDocument();
+  });
+
   it("buttons link to correct paths", () => {
     // renderComponent();
     expect(screen.getByText("Edit User Role").closest("a")).toHaveAttribute(
@@ -69,5 +80,6 @@ describe("Admin", () => {
       "/archived-events"
     );
     expect(screen.getByText("View All Events").closest("a")).toHaveAttribute("href", "/");
+    expect(screen.getByText("Import Events").closest("a")).toHaveAttribute("href", "/import-events");
   });
 });
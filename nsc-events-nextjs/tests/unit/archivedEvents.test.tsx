@@ -1,4 +1,4 @@
-import { render, screen, waitFor } from '@testing-library/react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
 import ArchivedEvents from '@/app/archived-events/page';
 import useAuth from '@/hooks/useAuth';
 import '@testing-library/jest-dom';
@@ -13,6 +13,9 @@ jest.mock('@/components/EventCard', () => ({ event }: any) => (
   <div data-testid={`event-${event.id}`}>{event.eventTitle}</div>
 ));
 jest.mock('@/components/ArchiveDialog', () => () => <div>Archive Dialog</div>);
+jest.mock('@/components/ExportMenu', () => ({ path, params }: any) => (
+  <div data-testid="export-menu">{`${path}?${new URLSearchParams(params).toString()}`}</div>
+));
 
 // Mock Material UI components that might cause issues
 jest.mock('@mui/material', () => ({
@@ -55,26 +58,33 @@ describe('ArchivedEvents Page', () => {
     global.fetch = jest.fn(() =>
       Promise.resolve({
         ok: true,
-        json: async () => [
-          {
-            id: '1',
-            eventTitle: 'Archived Event 1',
-            startDate: '2024-11-15',
-            eventLocation: 'Seattle',
-            eventHost: 'NSC',
-            eventContact: 'test@example.com',
-            isArchived: true,
-          },
-          {
-            id: '2',
-            eventTitle: 'Archived Event 2',
-            startDate: '2024-12-01',
-            eventLocation: 'Tacoma',
-            eventHost: 'NSC',
-            eventContact: 'test2@example.com',
-            isArchived: true,
-          },
-        ],
+        json: async () => ({
+          data: [
+            {
+              id: '1',
+              eventTitle: 'Archived Event 1',
+              startDate: '2024-11-15',
+              eventLocation: 'Seattle',
+              eventHost: 'NSC',
+              eventContact: 'test@example.com',
+              isArchived: true,
+            },
+            {
+              id: '2',
+              eventTitle: 'Archived Event 2',
+              startDate: '2024-12-01',
+              eventLocation: 'Tacoma',
+              eventHost: 'NSC',
+              eventContact: 'test2@example.com',
+              isArchived: true,
+            },
+          ],
+          page: 1,
+          pageSize: 12,
+          total: 2,
+          totalPages: 1,
+          nextCursor: null,
+        }),
       }),
     ) as jest.Mock;
 
@@ -138,4 +148,18 @@ describe('ArchivedEvents Page', () => {
       );
     });
   });
+
+  it('exports archived events with the list filters', async () => {
+    (useAuth as jest.Mock).mockReturnValue({ isAuth: true, user: { role: 'creator' } });
+
+    render(<ArchivedEvents />);
+    fireEvent.change(screen.getByLabelText('Location'), { target: { value: 'Seattle' } });
+
+    expect(screen.getByTestId('export-menu')).toHaveTextContent(
+      '/export/events?isArchived=true&location=Seattle',
+    );
+    await waitFor(() => {
+      expect(screen.getByText('Archived Event 1')).toBeInTheDocument();
+    });
+  });
 });
@@ -0,0 +1,99 @@
+import {
+    getEventIcsUrl,
+    getGoogleCalendarUrl,
+    getOutlookCalendarUrl,
+    getPublicFeedUrl,
+    getUserFeedToken,
+    getUserFeedUrl,
+    toCalendarDateTime,
+    toWebcalUrl,
+} from '../../utility/calendarLinks';
+import { ActivityDatabase } from '../../models/activityDatabase';
+
+describe('calendarLinks', () => {
+    const event = {
+        id: 'event-123',
+        eventTitle: 'Study Group',
+        eventDescription: 'Bring notes',
+        eventLocation: 'Library',
+        eventMeetingURL: 'https://meet.example.com/abc',
+        startDate: '2025-01-15T18:00:00.000Z',
+        endDate: '2025-01-15T19:30:00.000Z',
+        eventTags: ['study'],
+    } as unknown as ActivityDatabase;
+
+    it('formats timestamps as compact UTC date-times', () => {
+        expect(toCalendarDateTime('2025-01-15T10:05:00-08:00')).toBe('20250115T180500Z');
+    });
+
+    it('converts http and https URLs to webcal', () => {
+        expect(toWebcalUrl('https://api.example.edu/events/feeds/public')).toBe(
+            'webcal://api.example.edu/events/feeds/public'
+        );
+        expect(toWebcalUrl('http://localhost:3000/api/events/feeds/public')).toBe(
+            'webcal://localhost:3000/api/events/feeds/public'
+        );
+    });
+
+    it('builds the API feed and download URLs', () => {
+        expect(getEventIcsUrl('event-123')).toMatch(/\/events\/event-123\/ics$/);
+        expect(getPublicFeedUrl()).toMatch(/\/events\/feeds\/public$/);
+        expect(getPublicFeedUrl('career fair')).toMatch(/\/events\/feeds\/tags\/career%20fair$/);
+        expect(getUserFeedUrl('abc')).toMatch(/\/events\/feeds\/user\/abc$/);
+    });
+
+    it('builds a Google Calendar template link', () => {
+        const url = new URL(getGoogleCalendarUrl(event));
+
+        expect(url.hostname).toBe('calendar.google.com');
+        expect(url.searchParams.get('text')).toBe('Study Group');
+        expect(url.searchParams.get('dates')).toBe('20250115T180000Z/20250115T193000Z');
+        expect(url.searchParams.get('details')).toContain('Join online: https://meet.example.com/abc');
+        expect(url.searchParams.get('location')).toBe('Library');
+    });
+
+    it('shows Google Calendar events in their own time zone', () => {
+        const url = new URL(getGoogleCalendarUrl({ ...event, timeZone: 'America/New_York' }));
+
+        expect(url.searchParams.get('ctz')).toBe('America/New_York');
+        expect(url.searchParams.get('dates')).toBe('20250115T180000Z/20250115T193000Z');
+    });
+
+    it('builds an Outlook.com compose link', () => {
+        const url = new URL(getOutlookCalendarUrl(event));
+
+        expect(url.hostname).toBe('outlook.live.com');
+        expect(url.searchParams.get('subject')).toBe('Study Group');
+        expect(url.searchParams.get('startdt')).toBe('2025-01-15T18:00:00.000Z');
+        expect(url.searchParams.get('enddt')).toBe('2025-01-15T19:30:00.000Z');
+    });
+
+    describe('getUserFeedToken', () => {
+        beforeEach(() => {
+            global.fetch = jest.fn();
+        });
+
+        it('requests the feed token with the auth header', async () => {
+            (global.fetch as jest.Mock).mockResolvedValueOnce({
+                ok: true,
+                json: () => Promise.resolve({ token: 'feed-token' }),
+            });
+
+            await expect(getUserFeedToken('jwt')).resolves.toBe('feed-token');
+
+            const [url, options] = (global.fetch as jest.Mock).mock.calls[0];
+            expect(url).toMatch(/\/events\/feeds\/token$/);
+            expect(options.method).toBe('POST');
+            expect(options.headers.Authorization).toBe('Bearer jwt');
+        });
+
+        it('throws when the request fails', async () => {
+            (global.fetch as jest.Mock).mockResolvedValueOnce({
+                ok: false,
+                statusText: 'Unauthorized',
+            });
+
+            await expect(getUserFeedToken('jwt')).rejects.toThrow('Unauthorized');
+        });
+    });
+});
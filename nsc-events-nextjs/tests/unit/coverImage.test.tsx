@@ -0,0 +1,79 @@
+import '@testing-library/jest-dom';
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import CoverImage from '@/components/CoverImage';
+import { getCoverImageSources } from '@/utility/coverImage';
+import { CoverPhotoVariants } from '@/models/activityDatabase';
+
+const base = 'https://bucket.s3.amazonaws.com/cover-images/1-fair';
+const cover = `${base}-hero.jpg`;
+
+const variant = (name: string, width: number) => ({
+  width,
+  height: (width * 9) / 16,
+  jpeg: { key: `cover-images/1-fair-${name}.jpg`, url: `${base}-${name}.jpg` },
+  webp: { key: `cover-images/1-fair-${name}.webp`, url: `${base}-${name}.webp` },
+});
+
+const variants: CoverPhotoVariants = {
+  source: cover,
+  thumbnail: variant('thumbnail', 320),
+  card: variant('card', 640),
+  hero: variant('hero', 1920),
+};
+
+describe('getCoverImageSources', () => {
+  it('lists every variant by width', () => {
+    expect(getCoverImageSources({ eventCoverPhoto: cover, eventCoverPhotoVariants: variants })).toEqual({
+      src: `${base}-card.jpg`,
+      srcSet: `${base}-thumbnail.jpg 320w, ${base}-card.jpg 640w, ${base}-hero.jpg 1920w`,
+      webpSrcSet: `${base}-thumbnail.webp 320w, ${base}-card.webp 640w, ${base}-hero.webp 1920w`,
+    });
+  });
+
+  it('ignores variants of an older cover photo', () => {
+    const other = 'https://example.com/other.jpg';
+    expect(getCoverImageSources({ eventCoverPhoto: other, eventCoverPhotoVariants: variants })).toEqual({
+      src: other,
+      srcSet: '',
+      webpSrcSet: '',
+    });
+  });
+
+  it('falls back when there is no cover photo', () => {
+    expect(getCoverImageSources({ eventCoverPhoto: '' }, '/images/default.png').src).toBe('/images/default.png');
+  });
+});
+
+describe('CoverImage', () => {
+  it('offers WebP and JPEG variants to the browser', () => {
+    const { container } = render(
+      <CoverImage
+        event={{ eventTitle: 'Spring Fair', eventCoverPhoto: cover, eventCoverPhotoVariants: variants }}
+        sizes="200px"
+      />
+    );
+
+    const source = container.querySelector('picture source');
+    expect(source).toHaveAttribute('type', 'image/webp');
+    expect(source).toHaveAttribute('srcset', expect.stringContaining(`${base}-thumbnail.webp 320w`));
+    const image = screen.getByAltText('Spring Fair');
+    expect(image).toHaveAttribute('src', `${base}-card.jpg`);
+    expect(image).toHaveAttribute('srcset', expect.stringContaining(`${base}-hero.jpg 1920w`));
+    expect(image).toHaveAttribute('sizes', '200px');
+  });
+
+  it('shows the cover photo as is without variants', () => {
+    const { container } = render(
+      <CoverImage
+        event={{ eventTitle: 'Spring Fair', eventCoverPhoto: 'https://example.com/a.jpg' }}
+        sizes="200px"
+      />
+    );
+
+    expect(container.querySelector('picture source')).toBeNull();
+    const image = screen.getByAltText('Spring Fair');
+    expect(image).toHaveAttribute('src', 'https://example.com/a.jpg');
+    expect(image).not.toHaveAttribute('srcset');
+  });
+});
@@ -24,7 +24,7 @@ describe('Creator', () => {
       screen.getByText('View My Events'),
       screen.getByText('View All Events'),
     ]
-    expect(buttons.length).toBe(5) 
+    expect(buttons.length).toBe(6) 
   })
 
   it('renders links with correct hrefs', () => {
@@ -34,6 +34,7 @@ describe('Creator', () => {
     expect(links[1]).toHaveAttribute('href', '/my-events')
     expect(links[2]).toHaveAttribute('href', '/archived-events')
     expect(links[3]).toHaveAttribute('href', '/')
+    expect(links[5]).toHaveAttribute('href', '/import-events')
   })
 } )
 
@@ -0,0 +1,52 @@
+import { getEventPermissions } from "@/utility/eventPermissions";
+import { Collaborator } from "@/types/collaborator";
+
+const collaboration = (role: Collaborator["role"], status: Collaborator["status"] = "accepted") =>
+    ({ id: "collab-1", activityId: "event-1", userId: "user-2", role, status, invitedByUserId: "owner-1" }) as Collaborator;
+
+describe("getEventPermissions", () => {
+    it("gives admins every permission", () => {
+        expect(getEventPermissions("admin", "admin-1", "owner-1")).toEqual({
+            isOwner: true,
+            canEdit: true,
+            canManage: true,
+            canManageCollaborators: true,
+            canCheckIn: true,
+        });
+    });
+
+    it("treats the creator of the event as its owner", () => {
+        expect(getEventPermissions("creator", "owner-1", "owner-1").isOwner).toBe(true);
+        expect(getEventPermissions("creator", "other", "owner-1").canEdit).toBe(false);
+    });
+
+    it("lets co-hosts do everything but transfer the event", () => {
+        const permissions = getEventPermissions("user", "user-2", "owner-1", collaboration("co-host"));
+
+        expect(permissions.isOwner).toBe(false);
+        expect(permissions.canManage).toBe(true);
+        expect(permissions.canManageCollaborators).toBe(true);
+    });
+
+    it("lets editors edit and check in but not delete", () => {
+        const permissions = getEventPermissions("user", "user-2", "owner-1", collaboration("editor"));
+
+        expect(permissions.canEdit).toBe(true);
+        expect(permissions.canCheckIn).toBe(true);
+        expect(permissions.canManage).toBe(false);
+    });
+
+    it("limits check-in staff to checking in attendees", () => {
+        const permissions = getEventPermissions("user", "user-2", "owner-1", collaboration("check-in-staff"));
+
+        expect(permissions.canEdit).toBe(false);
+        expect(permissions.canCheckIn).toBe(true);
+    });
+
+    it("ignores invitations that have not been accepted", () => {
+        const permissions = getEventPermissions("user", "user-2", "owner-1", collaboration("co-host", "invited"));
+
+        expect(permissions.canEdit).toBe(false);
+        expect(permissions.canCheckIn).toBe(false);
+    });
+});
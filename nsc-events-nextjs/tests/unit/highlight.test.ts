@@ -0,0 +1,30 @@
+import { splitHighlights } from "@/utility/highlight";
+
+describe("splitHighlights", () => {
+    it("returns plain text as a single part", () => {
+        expect(splitHighlights("Resume help")).toEqual([
+            { text: "Resume help", highlighted: false },
+        ]);
+    });
+
+    it("splits marked matches from the surrounding text", () => {
+        expect(splitHighlights("Bring your <mark>resume</mark> to the <mark>workshop</mark>.")).toEqual([
+            { text: "Bring your ", highlighted: false },
+            { text: "resume", highlighted: true },
+            { text: " to the ", highlighted: false },
+            { text: "workshop", highlighted: true },
+            { text: ".", highlighted: false },
+        ]);
+    });
+
+    it("keeps other markup as text", () => {
+        expect(splitHighlights("<b>bold</b> <mark>match</mark>")).toEqual([
+            { text: "<b>bold</b> ", highlighted: false },
+            { text: "match", highlighted: true },
+        ]);
+    });
+
+    it("returns no parts for an empty snippet", () => {
+        expect(splitHighlights("")).toEqual([]);
+    });
+});
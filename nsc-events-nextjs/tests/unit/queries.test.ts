@@ -4,16 +4,27 @@
  * This file provides comprehensive test coverage for React Query custom hooks
  * that handle event-related API calls. Tests cover:
  * - useFilteredEvents: Paginated event fetching with tag filtering
+ * - useEventsFeed: Cursor-based infinite scroll over upcoming events
  * - useMyEvents: User-specific event fetching
+ * - useMyDrafts: The user's draft and scheduled events
+ * - usePendingEvents: Events awaiting admin review
  * - useEventById: Single event fetching by ID
  * - useArchivedEvents: Archived event fetching
  * - useIsAttending: Event registration status checking
+ * - useRegistrationStatus: Registration and waitlist status
+ * - useTags: Event tags, including inactive ones for admins
+ * - useCollaborators / useMyCollaboration: People helping run an event
+ * - useRevisions: An event's change history
+ * - useTemplates: Event templates for the create form
+ * - useAttachments: Documents attached to an event
+ * - useSessions: Sessions on an event's agenda
+ * - useSpeakers / useSpeaker / useSpeakerEvents: Speaker profiles and their events
  *
  * BUG DOCUMENTED: The useMyEvents hook has a caching bug where userId is not
  * included in the query key, causing stale data when switching users.
  */
 
-import { renderHook, waitFor } from '@testing-library/react';
+import { act, renderHook, waitFor } from '@testing-library/react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import React from 'react';
 import { ActivityDatabase } from '@/models/activityDatabase';
@@ -32,10 +43,24 @@ process.env.NSC_EVENTS_PUBLIC_API_URL = mockApiUrl;
 // Import hooks after environment is set up
 import {
   useFilteredEvents,
+  useEventsFeed,
   useMyEvents,
+  useMyDrafts,
+  usePendingEvents,
   useEventById,
   useArchivedEvents,
   useIsAttending,
+  useRegistrationStatus,
+  useTags,
+  useCollaborators,
+  useMyCollaboration,
+  useRevisions,
+  useTemplates,
+  useAttachments,
+  useSessions,
+  useSpeakers,
+  useSpeaker,
+  useSpeakerEvents,
 } from '@/utility/queries';
 
 describe('queries utility', () => {
@@ -53,6 +78,16 @@ describe('queries utility', () => {
       );
   };
 
+  // Wraps events in the envelope returned by the list endpoints
+  const paginated = <T>(data: T[], nextCursor: string | null = null) => ({
+    data,
+    page: 1,
+    pageSize: 6,
+    total: data.length,
+    totalPages: 1,
+    nextCursor,
+  });
+
   // Sample event data for mocking
   const createMockEvent = (overrides: Partial<ActivityDatabase> = {}): ActivityDatabase => ({
     id: 'event-123',
@@ -131,7 +166,7 @@ describe('queries utility', () => {
       it('should generate correct query key with page and tags', async () => {
         const mockEvents = [createMockEvent()];
         (global.fetch as jest.Mock).mockResolvedValueOnce({
-          json: () => Promise.resolve(mockEvents),
+          json: () => Promise.resolve(paginated(mockEvents)),
         });
 
         const { result } = renderHook(
@@ -149,7 +184,7 @@ describe('queries utility', () => {
       it('should generate correct query key with default empty tags array', async () => {
         const mockEvents = [createMockEvent()];
         (global.fetch as jest.Mock).mockResolvedValueOnce({
-          json: () => Promise.resolve(mockEvents),
+          json: () => Promise.resolve(paginated(mockEvents)),
         });
 
         const { result } = renderHook(
@@ -179,7 +214,7 @@ describe('queries utility', () => {
       it('should execute query when isEnabled is true', async () => {
         const mockEvents = [createMockEvent()];
         (global.fetch as jest.Mock).mockResolvedValueOnce({
-          json: () => Promise.resolve(mockEvents),
+          json: () => Promise.resolve(paginated(mockEvents)),
         });
 
         const { result } = renderHook(
@@ -196,7 +231,7 @@ describe('queries utility', () => {
       it('should construct correct URL with page and tags parameters', async () => {
         const mockEvents = [createMockEvent()];
         (global.fetch as jest.Mock).mockResolvedValueOnce({
-          json: () => Promise.resolve(mockEvents),
+          json: () => Promise.resolve(paginated(mockEvents)),
         });
 
         const { result } = renderHook(
@@ -212,12 +247,13 @@ describe('queries utility', () => {
         expect(fetchCall).toContain('isArchived=false');
         expect(fetchCall).toContain('tags=Technology%2CWorkshop');
         expect(fetchCall).toContain('numEvents=6');
+        expect(fetchCall).toContain('nextOccurrenceOnly=true');
       });
 
       it('should handle empty tags array in URL', async () => {
         const mockEvents = [createMockEvent()];
         (global.fetch as jest.Mock).mockResolvedValueOnce({
-          json: () => Promise.resolve(mockEvents),
+          json: () => Promise.resolve(paginated(mockEvents)),
         });
 
         const { result } = renderHook(
@@ -234,7 +270,7 @@ describe('queries utility', () => {
       it('should handle page as string type (any)', async () => {
         const mockEvents = [createMockEvent()];
         (global.fetch as jest.Mock).mockResolvedValueOnce({
-          json: () => Promise.resolve(mockEvents),
+          json: () => Promise.resolve(paginated(mockEvents)),
         });
 
         const { result } = renderHook(
@@ -259,7 +295,7 @@ describe('queries utility', () => {
         delete (mockEventWithIdOnly as any)._id;
 
         (global.fetch as jest.Mock).mockResolvedValueOnce({
-          json: () => Promise.resolve([mockEventWithIdOnly]),
+          json: () => Promise.resolve(paginated([mockEventWithIdOnly])),
         });
 
         const { result } = renderHook(
@@ -270,8 +306,8 @@ describe('queries utility', () => {
         await waitFor(() => expect(result.current.isSuccess).toBe(true));
 
         // normalizeActivityIds should add _id field
-        expect(result.current.data?.[0]?.id).toBe('event-123');
-        expect(result.current.data?.[0]?._id).toBe('event-123');
+        expect(result.current.data?.data[0]?.id).toBe('event-123');
+        expect(result.current.data?.data[0]?._id).toBe('event-123');
       });
 
       it('should normalize event IDs when _id present but id missing (MongoDB style)', async () => {
@@ -283,7 +319,7 @@ describe('queries utility', () => {
         delete (mockEventWithUnderscoreIdOnly as any).id;
 
         (global.fetch as jest.Mock).mockResolvedValueOnce({
-          json: () => Promise.resolve([mockEventWithUnderscoreIdOnly]),
+          json: () => Promise.resolve(paginated([mockEventWithUnderscoreIdOnly])),
         });
 
         const { result } = renderHook(
@@ -294,11 +330,11 @@ describe('queries utility', () => {
         await waitFor(() => expect(result.current.isSuccess).toBe(true));
 
         // normalizeActivityIds should add id field from _id
-        expect(result.current.data?.[0]?._id).toBe('mongo-id-123');
-        expect(result.current.data?.[0]?.id).toBe('mongo-id-123');
+        expect(result.current.data?.data[0]?._id).toBe('mongo-id-123');
+        expect(result.current.data?.data[0]?.id).toBe('mongo-id-123');
       });
 
-      it('should return empty array when API returns null', async () => {
+      it('should return an empty page when API returns null', async () => {
         (global.fetch as jest.Mock).mockResolvedValueOnce({
           json: () => Promise.resolve(null),
         });
@@ -309,7 +345,7 @@ describe('queries utility', () => {
         );
 
         await waitFor(() => expect(result.current.isSuccess).toBe(true));
-        expect(result.current.data).toEqual([]);
+        expect(result.current.data?.data).toEqual([]);
       });
 
       it('should return multiple events correctly', async () => {
@@ -320,7 +356,7 @@ describe('queries utility', () => {
         ];
 
         (global.fetch as jest.Mock).mockResolvedValueOnce({
-          json: () => Promise.resolve(mockEvents),
+          json: () => Promise.resolve(paginated(mockEvents)),
         });
 
         const { result } = renderHook(
@@ -329,9 +365,9 @@ describe('queries utility', () => {
         );
 
         await waitFor(() => expect(result.current.isSuccess).toBe(true));
-        expect(result.current.data).toHaveLength(3);
-        expect(result.current.data?.[0]?.eventTitle).toBe('Event 1');
-        expect(result.current.data?.[2]?.eventTitle).toBe('Event 3');
+        expect(result.current.data?.data).toHaveLength(3);
+        expect(result.current.data?.data[0]?.eventTitle).toBe('Event 1');
+        expect(result.current.data?.data[2]?.eventTitle).toBe('Event 3');
       });
     });
 
@@ -367,7 +403,7 @@ describe('queries utility', () => {
       it('should have loading state initially', async () => {
         (global.fetch as jest.Mock).mockImplementation(
           () => new Promise((resolve) => setTimeout(() => resolve({
-            json: () => Promise.resolve([]),
+            json: () => Promise.resolve(paginated([])),
           }), 100))
         );
 
@@ -385,7 +421,7 @@ describe('queries utility', () => {
       it('should transition to success state', async () => {
         const mockEvents = [createMockEvent()];
         (global.fetch as jest.Mock).mockResolvedValueOnce({
-          json: () => Promise.resolve(mockEvents),
+          json: () => Promise.resolve(paginated(mockEvents)),
         });
 
         const { result } = renderHook(
@@ -401,12 +437,78 @@ describe('queries utility', () => {
     });
   });
 
+  describe('useEventsFeed', () => {
+    it('should fetch the first page without a cursor', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(paginated([createMockEvent()], 'cursor-1')),
+      });
+
+      const { result } = renderHook(
+        () => useEventsFeed(['Technology']),
+        { wrapper: createWrapper() }
+      );
+
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+      const fetchCall = (global.fetch as jest.Mock).mock.calls[0][0];
+      expect(fetchCall).toContain('tags=Technology');
+      expect(fetchCall).not.toContain('cursor=');
+      expect(result.current.data?.pages[0].data[0].id).toBe('event-123');
+      expect(result.current.hasNextPage).toBe(true);
+    });
+
+    it('should continue from the previous page cursor', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve(paginated([createMockEvent({ id: '1' })], 'cursor-1')),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve(paginated([createMockEvent({ id: '2' })])),
+        });
+
+      const { result } = renderHook(
+        () => useEventsFeed(),
+        { wrapper: createWrapper() }
+      );
+
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+      expect(result.current.data?.pages).toHaveLength(1);
+
+      await act(async () => {
+        await result.current.fetchNextPage();
+      });
+      await waitFor(() => expect(result.current.data?.pages).toHaveLength(2));
+
+      const fetchCall = (global.fetch as jest.Mock).mock.calls[1][0];
+      expect(fetchCall).toContain('cursor=cursor-1');
+      expect(result.current.data?.pages[1].data[0].id).toBe('2');
+      expect(result.current.hasNextPage).toBe(false);
+    });
+
+    it('should surface failed requests as errors', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        json: () => Promise.resolve({}),
+      });
+
+      const { result } = renderHook(
+        () => useEventsFeed(),
+        { wrapper: createWrapper() }
+      );
+
+      await waitFor(() => expect(result.current.isError).toBe(true));
+    });
+  });
+
   describe('useArchivedEvents', () => {
     describe('Query Configuration', () => {
       it('should generate correct query key with page', async () => {
         const mockEvents = [createMockEvent({ isArchived: true })];
         (global.fetch as jest.Mock).mockResolvedValueOnce({
-          json: () => Promise.resolve(mockEvents),
+          json: () => Promise.resolve(paginated(mockEvents)),
         });
 
         const { result } = renderHook(
@@ -437,7 +539,7 @@ describe('queries utility', () => {
       it('should construct correct URL with isArchived=true', async () => {
         const mockEvents = [createMockEvent({ isArchived: true })];
         (global.fetch as jest.Mock).mockResolvedValueOnce({
-          json: () => Promise.resolve(mockEvents),
+          json: () => Promise.resolve(paginated(mockEvents)),
         });
 
         const { result } = renderHook(
@@ -464,7 +566,7 @@ describe('queries utility', () => {
         delete (mockEventWithIdOnly as any)._id;
 
         (global.fetch as jest.Mock).mockResolvedValueOnce({
-          json: () => Promise.resolve([mockEventWithIdOnly]),
+          json: () => Promise.resolve(paginated([mockEventWithIdOnly])),
         });
 
         const { result } = renderHook(
@@ -474,11 +576,11 @@ describe('queries utility', () => {
 
         await waitFor(() => expect(result.current.isSuccess).toBe(true));
 
-        expect(result.current.data?.[0]?.id).toBe('event-123');
-        expect(result.current.data?.[0]?._id).toBe('event-123');
+        expect(result.current.data?.data[0]?.id).toBe('event-123');
+        expect(result.current.data?.data[0]?._id).toBe('event-123');
       });
 
-      it('should return empty array when API returns null', async () => {
+      it('should return an empty page when API returns null', async () => {
         (global.fetch as jest.Mock).mockResolvedValueOnce({
           json: () => Promise.resolve(null),
         });
@@ -489,7 +591,7 @@ describe('queries utility', () => {
         );
 
         await waitFor(() => expect(result.current.isSuccess).toBe(true));
-        expect(result.current.data).toEqual([]);
+        expect(result.current.data?.data).toEqual([]);
       });
     });
 
@@ -513,7 +615,7 @@ describe('queries utility', () => {
       it('should generate query key with userId and page', async () => {
         const mockEvents = [createMockEvent()];
         (global.fetch as jest.Mock).mockResolvedValueOnce({
-          json: () => Promise.resolve(mockEvents),
+          json: () => Promise.resolve(paginated(mockEvents)),
         });
 
         const { result } = renderHook(
@@ -553,7 +655,7 @@ describe('queries utility', () => {
 
         // First render for user-1
         (global.fetch as jest.Mock).mockResolvedValueOnce({
-          json: () => Promise.resolve(user1Events),
+          json: () => Promise.resolve(paginated(user1Events)),
         });
 
         const { result: result1 } = renderHook(
@@ -562,12 +664,12 @@ describe('queries utility', () => {
         );
 
         await waitFor(() => expect(result1.current.isSuccess).toBe(true));
-        expect(result1.current.data?.[0]?.eventTitle).toBe('User 1 Event');
+        expect(result1.current.data?.data[0]?.eventTitle).toBe('User 1 Event');
 
         // Now render for user-2 on the same page
         // With userId in query key, this should fetch separately
         (global.fetch as jest.Mock).mockResolvedValueOnce({
-          json: () => Promise.resolve(user2Events),
+          json: () => Promise.resolve(paginated(user2Events)),
         });
 
         const { result: result2 } = renderHook(
@@ -578,7 +680,7 @@ describe('queries utility', () => {
         await waitFor(() => expect(result2.current.isSuccess).toBe(true));
 
         // User-2 should get their own events, not user-1's cached data
-        expect(result2.current.data?.[0]?.eventTitle).toBe('User 2 Event');
+        expect(result2.current.data?.data[0]?.eventTitle).toBe('User 2 Event');
 
         // Two fetches should have been made (one per user)
         expect(global.fetch).toHaveBeenCalledTimes(2);
@@ -593,7 +695,7 @@ describe('queries utility', () => {
       it('should construct correct URL with userId', async () => {
         const mockEvents = [createMockEvent()];
         (global.fetch as jest.Mock).mockResolvedValueOnce({
-          json: () => Promise.resolve(mockEvents),
+          json: () => Promise.resolve(paginated(mockEvents)),
         });
 
         const { result } = renderHook(
@@ -612,7 +714,7 @@ describe('queries utility', () => {
       it('should handle special characters in userId', async () => {
         const mockEvents = [createMockEvent()];
         (global.fetch as jest.Mock).mockResolvedValueOnce({
-          json: () => Promise.resolve(mockEvents),
+          json: () => Promise.resolve(paginated(mockEvents)),
         });
 
         const { result } = renderHook(
@@ -636,7 +738,7 @@ describe('queries utility', () => {
         delete (mockEventWithIdOnly as any)._id;
 
         (global.fetch as jest.Mock).mockResolvedValueOnce({
-          json: () => Promise.resolve([mockEventWithIdOnly]),
+          json: () => Promise.resolve(paginated([mockEventWithIdOnly])),
         });
 
         const { result } = renderHook(
@@ -646,11 +748,11 @@ describe('queries utility', () => {
 
         await waitFor(() => expect(result.current.isSuccess).toBe(true));
 
-        expect(result.current.data?.[0]?.id).toBe('event-123');
-        expect(result.current.data?.[0]?._id).toBe('event-123');
+        expect(result.current.data?.data[0]?.id).toBe('event-123');
+        expect(result.current.data?.data[0]?._id).toBe('event-123');
       });
 
-      it('should return empty array when API returns null', async () => {
+      it('should return an empty page when API returns null', async () => {
         (global.fetch as jest.Mock).mockResolvedValueOnce({
           json: () => Promise.resolve(null),
         });
@@ -661,7 +763,7 @@ describe('queries utility', () => {
         );
 
         await waitFor(() => expect(result.current.isSuccess).toBe(true));
-        expect(result.current.data).toEqual([]);
+        expect(result.current.data?.data).toEqual([]);
       });
     });
 
@@ -680,6 +782,101 @@ describe('queries utility', () => {
     });
   });
 
+  describe('useMyDrafts', () => {
+    beforeEach(() => {
+      mockLocalStorage['token'] = 'valid-token';
+    });
+
+    it('should fetch drafts for the user with the auth token', async () => {
+      const drafts = [createMockEvent({ publicationStatus: 'draft' })];
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(paginated(drafts)),
+      });
+
+      const { result } = renderHook(
+        () => useMyDrafts('user-123', 1, true),
+        { wrapper: createWrapper() }
+      );
+
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+      const [url, options] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(url).toContain('/events/user/user-123/drafts');
+      expect(url).toContain('page=1');
+      expect(options.headers.Authorization).toBe('Bearer valid-token');
+      expect(result.current.data?.data[0].publicationStatus).toBe('draft');
+      expect(queryClient.getQueryState(['myDrafts', 'user-123', 1])).toBeDefined();
+    });
+
+    it('should not execute query when isEnabled is false', () => {
+      renderHook(
+        () => useMyDrafts('user-123', 1, false),
+        { wrapper: createWrapper() }
+      );
+
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should surface an error when the request is rejected', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        statusText: 'Unauthorized',
+      });
+
+      const { result } = renderHook(
+        () => useMyDrafts('user-123', 1, true),
+        { wrapper: createWrapper() }
+      );
+
+      await waitFor(() => expect(result.current.isError).toBe(true));
+      expect(result.current.error?.message).toContain('Unauthorized');
+    });
+  });
+
+  describe('usePendingEvents', () => {
+    beforeEach(() => {
+      mockLocalStorage['token'] = 'admin-token';
+    });
+
+    it('should fetch the moderation queue with the auth token', async () => {
+      const pending = [createMockEvent({ approvalStatus: 'pending' })];
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(paginated(pending)),
+      });
+
+      const { result } = renderHook(
+        () => usePendingEvents(2, true),
+        { wrapper: createWrapper() }
+      );
+
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+      const [url, options] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(url).toContain('/events/moderation/pending');
+      expect(url).toContain('page=2');
+      expect(options.headers.Authorization).toBe('Bearer admin-token');
+      expect(result.current.data?.data[0].approvalStatus).toBe('pending');
+      expect(queryClient.getQueryState(['pendingEvents', 2])).toBeDefined();
+    });
+
+    it('should surface an error for non-admins', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        statusText: 'Forbidden',
+      });
+
+      const { result } = renderHook(
+        () => usePendingEvents(1, true),
+        { wrapper: createWrapper() }
+      );
+
+      await waitFor(() => expect(result.current.isError).toBe(true));
+      expect(result.current.error?.message).toContain('Forbidden');
+    });
+  });
+
   describe('useEventById', () => {
     describe('Query Configuration', () => {
       it('should generate correct query key with eventId', async () => {
@@ -738,6 +935,38 @@ describe('queries utility', () => {
         const fetchCall = (global.fetch as jest.Mock).mock.calls[0][0];
         expect(fetchCall).toContain('/events/find/event-xyz');
       });
+
+      it('should send the token so editors can see unlisted events', async () => {
+        mockLocalStorage['token'] = 'my-secret-token';
+        (global.fetch as jest.Mock).mockResolvedValueOnce({
+          json: () => Promise.resolve(createMockEvent({ id: 'event-xyz' })),
+        });
+
+        const { result } = renderHook(
+          () => useEventById('event-xyz'),
+          { wrapper: createWrapper() }
+        );
+
+        await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+        const fetchOptions = (global.fetch as jest.Mock).mock.calls[0][1];
+        expect(fetchOptions.headers.Authorization).toBe('Bearer my-secret-token');
+      });
+
+      it('should fetch without a token when signed out', async () => {
+        (global.fetch as jest.Mock).mockResolvedValueOnce({
+          json: () => Promise.resolve(createMockEvent({ id: 'event-xyz' })),
+        });
+
+        const { result } = renderHook(
+          () => useEventById('event-xyz'),
+          { wrapper: createWrapper() }
+        );
+
+        await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+        expect((global.fetch as jest.Mock).mock.calls[0][1]).toBeUndefined();
+      });
     });
 
     describe('Data Transformation', () => {
@@ -855,6 +1084,47 @@ describe('queries utility', () => {
     });
   });
 
+  describe('useRegistrationStatus', () => {
+    it('should return the full registration status', async () => {
+      mockLocalStorage['token'] = 'valid-token';
+      const status = {
+        isRegistered: false,
+        isWaitlisted: true,
+        waitlistPosition: 3,
+        isFull: true,
+        capacity: 20,
+        registeredCount: 20,
+      };
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(status),
+      });
+
+      const { result } = renderHook(
+        () => useRegistrationStatus('event-123', 'user-456'),
+        { wrapper: createWrapper() }
+      );
+
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+      expect(result.current.data).toEqual(status);
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.stringContaining('/event-registration/check/event-123/user-456'),
+        { headers: { Authorization: 'Bearer valid-token' } }
+      );
+    });
+
+    it('should not fetch until both ids are known', () => {
+      const { result } = renderHook(
+        () => useRegistrationStatus(undefined, 'user-456'),
+        { wrapper: createWrapper() }
+      );
+
+      expect(result.current.fetchStatus).toBe('idle');
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+
   describe('useIsAttending', () => {
     describe('Query Configuration', () => {
       it('should generate correct query key with eventId and userId', async () => {
@@ -1118,9 +1388,9 @@ describe('queries utility', () => {
     it('should have unique keys for different hooks', async () => {
       // Set up mock responses for all hooks
       (global.fetch as jest.Mock)
-        .mockResolvedValueOnce({ json: () => Promise.resolve([createMockEvent()]) })
-        .mockResolvedValueOnce({ json: () => Promise.resolve([createMockEvent({ isArchived: true })]) })
-        .mockResolvedValueOnce({ json: () => Promise.resolve([createMockEvent()]) })
+        .mockResolvedValueOnce({ json: () => Promise.resolve(paginated([createMockEvent()])) })
+        .mockResolvedValueOnce({ json: () => Promise.resolve(paginated([createMockEvent({ isArchived: true })])) })
+        .mockResolvedValueOnce({ json: () => Promise.resolve(paginated([createMockEvent()])) })
         .mockResolvedValueOnce({ json: () => Promise.resolve(createMockEvent()) });
 
       // Render all hooks
@@ -1159,7 +1429,7 @@ describe('queries utility', () => {
     it('should cache data for same query key', async () => {
       const mockEvents = [createMockEvent()];
       (global.fetch as jest.Mock).mockResolvedValue({
-        json: () => Promise.resolve(mockEvents),
+        json: () => Promise.resolve(paginated(mockEvents)),
       });
 
       // First render
@@ -1187,7 +1457,7 @@ describe('queries utility', () => {
     describe('Empty and Null Responses', () => {
       it('should handle empty array response for filtered events', async () => {
         (global.fetch as jest.Mock).mockResolvedValueOnce({
-          json: () => Promise.resolve([]),
+          json: () => Promise.resolve(paginated([])),
         });
 
         const { result } = renderHook(
@@ -1196,7 +1466,7 @@ describe('queries utility', () => {
         );
 
         await waitFor(() => expect(result.current.isSuccess).toBe(true));
-        expect(result.current.data).toEqual([]);
+        expect(result.current.data?.data).toEqual([]);
       });
 
       it('should handle undefined response', async () => {
@@ -1218,7 +1488,7 @@ describe('queries utility', () => {
       it('should handle tags with special characters', async () => {
         const mockEvents = [createMockEvent()];
         (global.fetch as jest.Mock).mockResolvedValueOnce({
-          json: () => Promise.resolve(mockEvents),
+          json: () => Promise.resolve(paginated(mockEvents)),
         });
 
         const { result } = renderHook(
@@ -1252,7 +1522,7 @@ describe('queries utility', () => {
       it('should handle page 0', async () => {
         const mockEvents = [createMockEvent()];
         (global.fetch as jest.Mock).mockResolvedValueOnce({
-          json: () => Promise.resolve(mockEvents),
+          json: () => Promise.resolve(paginated(mockEvents)),
         });
 
         const { result } = renderHook(
@@ -1269,7 +1539,7 @@ describe('queries utility', () => {
       it('should handle negative page number', async () => {
         const mockEvents = [createMockEvent()];
         (global.fetch as jest.Mock).mockResolvedValueOnce({
-          json: () => Promise.resolve(mockEvents),
+          json: () => Promise.resolve(paginated(mockEvents)),
         });
 
         const { result } = renderHook(
@@ -1286,7 +1556,7 @@ describe('queries utility', () => {
       it('should handle very large page number', async () => {
         const mockEvents: ActivityDatabase[] = [];
         (global.fetch as jest.Mock).mockResolvedValueOnce({
-          json: () => Promise.resolve(mockEvents),
+          json: () => Promise.resolve(paginated(mockEvents)),
         });
 
         const { result } = renderHook(
@@ -1305,9 +1575,9 @@ describe('queries utility', () => {
       it('should handle multiple concurrent queries', async () => {
         // Set up different responses for each query
         (global.fetch as jest.Mock)
-          .mockResolvedValueOnce({ json: () => Promise.resolve([createMockEvent({ id: '1' })]) })
-          .mockResolvedValueOnce({ json: () => Promise.resolve([createMockEvent({ id: '2' })]) })
-          .mockResolvedValueOnce({ json: () => Promise.resolve([createMockEvent({ id: '3' })]) });
+          .mockResolvedValueOnce({ json: () => Promise.resolve(paginated([createMockEvent({ id: '1' })])) })
+          .mockResolvedValueOnce({ json: () => Promise.resolve(paginated([createMockEvent({ id: '2' })])) })
+          .mockResolvedValueOnce({ json: () => Promise.resolve(paginated([createMockEvent({ id: '3' })])) });
 
         // Start all queries simultaneously
         const { result: result1 } = renderHook(
@@ -1329,9 +1599,9 @@ describe('queries utility', () => {
           expect(result3.current.isSuccess).toBe(true);
         });
 
-        expect(result1.current.data?.[0]?.id).toBe('1');
-        expect(result2.current.data?.[0]?.id).toBe('2');
-        expect(result3.current.data?.[0]?.id).toBe('3');
+        expect(result1.current.data?.data[0]?.id).toBe('1');
+        expect(result2.current.data?.data[0]?.id).toBe('2');
+        expect(result3.current.data?.data[0]?.id).toBe('3');
       });
     });
 
@@ -1339,7 +1609,7 @@ describe('queries utility', () => {
       it('should handle numeric string as page', async () => {
         const mockEvents = [createMockEvent()];
         (global.fetch as jest.Mock).mockResolvedValueOnce({
-          json: () => Promise.resolve(mockEvents),
+          json: () => Promise.resolve(paginated(mockEvents)),
         });
 
         const { result } = renderHook(
@@ -1356,7 +1626,7 @@ describe('queries utility', () => {
       it('should handle null page', async () => {
         const mockEvents = [createMockEvent()];
         (global.fetch as jest.Mock).mockResolvedValueOnce({
-          json: () => Promise.resolve(mockEvents),
+          json: () => Promise.resolve(paginated(mockEvents)),
         });
 
         const { result } = renderHook(
@@ -1373,10 +1643,10 @@ describe('queries utility', () => {
   });
 
   describe('Return Type Validation', () => {
-    it('should return ActivityDatabase[] type for useFilteredEvents', async () => {
+    it('should return a page of ActivityDatabase for useFilteredEvents', async () => {
       const mockEvents = [createMockEvent()];
       (global.fetch as jest.Mock).mockResolvedValueOnce({
-        json: () => Promise.resolve(mockEvents),
+        json: () => Promise.resolve(paginated(mockEvents)),
       });
 
       const { result } = renderHook(
@@ -1387,7 +1657,7 @@ describe('queries utility', () => {
       await waitFor(() => expect(result.current.isSuccess).toBe(true));
 
       // Verify the data matches ActivityDatabase type shape
-      const event = result.current.data?.[0];
+      const event = result.current.data?.data[0];
       expect(event).toHaveProperty('id');
       expect(event).toHaveProperty('eventTitle');
       expect(event).toHaveProperty('eventDescription');
@@ -1431,4 +1701,290 @@ describe('queries utility', () => {
       expect(typeof result.current.data).toBe('boolean');
     });
   });
+
+  describe('useTags', () => {
+    const tags = [
+      { id: 'tag-1', slug: 'club', name: 'Club', color: '#2074d4', isActive: true },
+    ];
+
+    it('should fetch the active tags without a token', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(tags),
+      });
+
+      const { result } = renderHook(() => useTags(), { wrapper: createWrapper() });
+
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+      const [url, options] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(url).toMatch(/\/tags$/);
+      expect(options).toBeUndefined();
+      expect(result.current.data).toEqual(tags);
+    });
+
+    it('should fetch every tag with the auth token for admins', async () => {
+      mockLocalStorage['token'] = 'admin-token';
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(tags),
+      });
+
+      const { result } = renderHook(() => useTags(true), { wrapper: createWrapper() });
+
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+      const [url, options] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(url).toMatch(/\/tags\/all$/);
+      expect(options.headers.Authorization).toBe('Bearer admin-token');
+      expect(queryClient.getQueryState(['tags', true])).toBeDefined();
+    });
+  });
+
+  describe('useCollaborators', () => {
+    it('should fetch the collaborators with the auth token', async () => {
+      mockLocalStorage['token'] = 'owner-token';
+      const collaborators = [{ id: 'collab-1', userId: 'user-2', role: 'editor', status: 'accepted' }];
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(collaborators),
+      });
+
+      const { result } = renderHook(() => useCollaborators('event-1', true), { wrapper: createWrapper() });
+
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+      const [url, options] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(url).toMatch(/\/events\/event-1\/collaborators$/);
+      expect(options.headers.Authorization).toBe('Bearer owner-token');
+      expect(result.current.data).toEqual(collaborators);
+    });
+
+    it('should not fetch while disabled', () => {
+      renderHook(() => useCollaborators('event-1', false), { wrapper: createWrapper() });
+
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('useMyCollaboration', () => {
+    it('should return null when the user does not help run the event', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve(''),
+      });
+
+      const { result } = renderHook(() => useMyCollaboration('event-1', true), { wrapper: createWrapper() });
+
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+      expect((global.fetch as jest.Mock).mock.calls[0][0]).toMatch(/\/events\/event-1\/collaborators\/me$/);
+      expect(result.current.data).toBeNull();
+    });
+
+    it('should parse the invitation', async () => {
+      const invitation = { id: 'collab-1', role: 'co-host', status: 'invited' };
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve(JSON.stringify(invitation)),
+      });
+
+      const { result } = renderHook(() => useMyCollaboration('event-1', true), { wrapper: createWrapper() });
+
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+      expect(result.current.data).toEqual(invitation);
+    });
+  });
+
+  describe('useRevisions', () => {
+    it('should fetch the revisions with the auth token', async () => {
+      mockLocalStorage['token'] = 'owner-token';
+      const revisions = [{ id: 'revision-2', revision: 2, action: 'updated', changes: {} }];
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(revisions),
+      });
+
+      const { result } = renderHook(() => useRevisions('event-1', true), { wrapper: createWrapper() });
+
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+      const [url, options] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(url).toMatch(/\/events\/event-1\/revisions$/);
+      expect(options.headers.Authorization).toBe('Bearer owner-token');
+      expect(result.current.data).toEqual(revisions);
+    });
+
+    it('should not fetch while disabled', () => {
+      renderHook(() => useRevisions('event-1', false), { wrapper: createWrapper() });
+
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('useTemplates', () => {
+    it('should fetch the templates with the auth token', async () => {
+      mockLocalStorage['token'] = 'creator-token';
+      const templates = [{ id: 'template-1', name: 'Study Night', isShared: false, fields: {} }];
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(templates),
+      });
+
+      const { result } = renderHook(() => useTemplates(true), { wrapper: createWrapper() });
+
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+      const [url, options] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(url).toMatch(/\/templates$/);
+      expect(options.headers.Authorization).toBe('Bearer creator-token');
+      expect(result.current.data).toEqual(templates);
+    });
+
+    it('should not fetch while disabled', () => {
+      renderHook(() => useTemplates(false), { wrapper: createWrapper() });
+
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('useAttachments', () => {
+    it('should fetch the attachments of an event', async () => {
+      const attachments = [{ id: 'attachment-1', title: 'Agenda', url: 'https://bucket/agenda.pdf' }];
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(attachments),
+      });
+
+      const { result } = renderHook(() => useAttachments('event-1'), { wrapper: createWrapper() });
+
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+      const [url] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(url).toMatch(/\/events\/event-1\/attachments$/);
+      expect(result.current.data).toEqual(attachments);
+    });
+
+    it('should send the token so editors see the documents of unlisted events', async () => {
+      mockLocalStorage['token'] = 'owner-token';
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve([]),
+      });
+
+      const { result } = renderHook(() => useAttachments('event-1'), { wrapper: createWrapper() });
+
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+      const [, options] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(options.headers.Authorization).toBe('Bearer owner-token');
+    });
+
+    it('should not fetch without an event', () => {
+      renderHook(() => useAttachments(undefined), { wrapper: createWrapper() });
+
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('useSessions', () => {
+    it('should fetch the agenda of an event', async () => {
+      const sessions = [{ id: 'session-1', title: 'Keynote' }];
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(sessions),
+      });
+
+      const { result } = renderHook(() => useSessions('event-1'), { wrapper: createWrapper() });
+
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+      const [url, options] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(url).toMatch(/\/events\/event-1\/sessions$/);
+      expect(options).toBeUndefined();
+      expect(result.current.data).toEqual(sessions);
+    });
+
+    it('should send the token so editors see the agenda of unlisted events', async () => {
+      mockLocalStorage['token'] = 'owner-token';
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve([]),
+      });
+
+      const { result } = renderHook(() => useSessions('event-1'), { wrapper: createWrapper() });
+
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+      const [, options] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(options.headers.Authorization).toBe('Bearer owner-token');
+    });
+  });
+
+  describe('useSpeakers', () => {
+    const speakers = [{ id: 'speaker-1', slug: 'jane-smith', name: 'Jane Smith' }];
+
+    it('should fetch every speaker', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(speakers),
+      });
+
+      const { result } = renderHook(() => useSpeakers(), { wrapper: createWrapper() });
+
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+      const [url] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(url).toMatch(/\/speakers$/);
+      expect(result.current.data).toEqual(speakers);
+    });
+
+    it('should fetch the speakers of an event', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(speakers),
+      });
+
+      const { result } = renderHook(() => useSpeakers('event-1'), { wrapper: createWrapper() });
+
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+      const [url] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(url).toMatch(/\/speakers\?eventId=event-1$/);
+      expect(queryClient.getQueryState(['speakers', 'event', 'event-1'])).toBeDefined();
+    });
+  });
+
+  describe('useSpeaker / useSpeakerEvents', () => {
+    it('should fetch a speaker and their events by slug', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ id: 'speaker-1', slug: 'jane-smith' }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve([{ id: 'event-1', sessions: [] }]),
+        });
+
+      const { result } = renderHook(
+        () => ({ speaker: useSpeaker('jane-smith'), events: useSpeakerEvents('jane-smith') }),
+        { wrapper: createWrapper() },
+      );
+
+      await waitFor(() => expect(result.current.events.isSuccess).toBe(true));
+
+      const urls = (global.fetch as jest.Mock).mock.calls.map(([url]) => url);
+      expect(urls[0]).toMatch(/\/speakers\/jane-smith$/);
+      expect(urls[1]).toMatch(/\/speakers\/jane-smith\/events$/);
+    });
+
+    it('should not fetch without a slug', () => {
+      renderHook(() => useSpeaker(null), { wrapper: createWrapper() });
+      renderHook(() => useSpeakerEvents(null), { wrapper: createWrapper() });
+
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
 });
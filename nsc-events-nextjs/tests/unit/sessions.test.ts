@@ -0,0 +1,154 @@
+import { EventSession, SessionDraft } from '../../types/session';
+import { newSessionDraft, saveAgenda, toSessionDrafts, validateAgenda } from '../../utility/sessions';
+
+const session = (overrides: Partial<EventSession>): EventSession => ({
+    id: 'session-1',
+    activityId: 'event-1',
+    position: 0,
+    title: 'Keynote',
+    description: '',
+    startDate: '2025-01-15T18:00:00.000Z',
+    endDate: '2025-01-15T19:00:00.000Z',
+    location: '',
+    roomId: null,
+    speakers: [],
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+});
+
+const draft = (overrides: Partial<SessionDraft>): SessionDraft => ({
+    ...newSessionDraft('10:00', '11:00'),
+    title: 'Keynote',
+    ...overrides,
+});
+
+const respond = (body: object | null) =>
+    Promise.resolve({ ok: true, text: () => Promise.resolve(body ? JSON.stringify(body) : '') });
+
+const requests = () =>
+    (global.fetch as jest.Mock).mock.calls.map(([url, init]) => [
+        init.method,
+        url.replace('http://localhost:3000/api/events', ''),
+        init.body && JSON.parse(init.body),
+    ]);
+
+describe('sessions', () => {
+    const keynote = session({ id: 'keynote', title: 'Keynote', speakers: ['Ada Lovelace'] });
+    const lunch = session({
+        id: 'lunch',
+        title: 'Lunch',
+        position: 1,
+        startDate: '2025-01-15T20:00:00.000Z',
+        endDate: '2025-01-15T21:00:00.000Z',
+    });
+    // the 15th as the date picker holds it
+    const day = new Date(2025, 0, 15);
+
+    beforeEach(() => {
+        process.env.NSC_EVENTS_PUBLIC_API_URL = 'http://localhost:3000/api';
+        localStorage.setItem('token', 'creator-token');
+        global.fetch = jest.fn().mockImplementation(() => respond(null));
+    });
+
+    it('reads saved sessions as times in the event zone', () => {
+        expect(toSessionDrafts([keynote], 'America/Los_Angeles')).toEqual([
+            {
+                id: 'keynote',
+                key: 'keynote',
+                title: 'Keynote',
+                description: '',
+                startTime: '10:00',
+                endTime: '11:00',
+                roomId: null,
+                location: '',
+                speakers: ['Ada Lovelace'],
+            },
+        ]);
+    });
+
+    it('reports the first session that cannot be saved', () => {
+        expect(validateAgenda([draft({})], '09:00', '17:00')).toBeNull();
+        expect(validateAgenda([draft({ title: ' ' })], '09:00', '17:00')).toBe('Session 1 needs a title');
+        expect(validateAgenda([draft({ endTime: '' })], '09:00', '17:00')).toBe('Keynote needs a start and end time');
+        expect(validateAgenda([draft({ endTime: '09:30' })], '09:00', '17:00')).toBe('Keynote must end after it starts');
+        expect(validateAgenda([draft({ endTime: '17:30' })], '09:00', '17:00')).toBe(
+            "Keynote must fall within the event's start and end time"
+        );
+    });
+
+    it('creates new sessions on the event day in its zone', async () => {
+        (global.fetch as jest.Mock).mockImplementation(() => respond(session({ id: 'created' })));
+
+        await saveAgenda('event-1', [draft({ speakers: ['Ada Lovelace', 'Grace Hopper'] })], [], day, 'America/New_York');
+
+        expect(requests()).toEqual([
+            [
+                'POST',
+                '/event-1/sessions',
+                {
+                    title: 'Keynote',
+                    description: '',
+                    startDate: '2025-01-15T10:00:00-05:00',
+                    endDate: '2025-01-15T11:00:00-05:00',
+                    roomId: null,
+                    location: '',
+                    speakers: ['Ada Lovelace', 'Grace Hopper'],
+                },
+            ],
+        ]);
+        expect((global.fetch as jest.Mock).mock.calls[0][1].headers.Authorization).toBe('Bearer creator-token');
+    });
+
+    it('only sends the sessions that were removed or changed', async () => {
+        const drafts = toSessionDrafts([keynote, lunch], 'America/Los_Angeles');
+
+        await saveAgenda('event-1', [drafts[0]], [keynote, lunch], day, 'America/Los_Angeles');
+        expect(requests()).toEqual([['DELETE', '/event-1/sessions/lunch', undefined]]);
+
+        (global.fetch as jest.Mock).mockClear();
+        await saveAgenda(
+            'event-1',
+            [drafts[0], { ...drafts[1], endTime: '13:30' }],
+            [keynote, lunch],
+            day,
+            'America/Los_Angeles'
+        );
+        expect(requests()).toEqual([
+            [
+                'PUT',
+                '/event-1/sessions/lunch',
+                expect.objectContaining({ endDate: '2025-01-15T13:30:00-08:00' }),
+            ],
+        ]);
+    });
+
+    it('saves the order when sessions were moved', async () => {
+        const drafts = toSessionDrafts([keynote, lunch], 'America/Los_Angeles');
+
+        await saveAgenda('event-1', [drafts[1], drafts[0]], [keynote, lunch], day, 'America/Los_Angeles');
+
+        expect(requests()).toEqual([['PUT', '/event-1/sessions/order', { sessionIds: ['lunch', 'keynote'] }]]);
+    });
+
+    it('does not reorder when new sessions are added at the end', async () => {
+        (global.fetch as jest.Mock).mockImplementation(() => respond(session({ id: 'created' })));
+        const drafts = toSessionDrafts([keynote], 'America/Los_Angeles');
+
+        await saveAgenda('event-1', [...drafts, draft({ title: 'Panel' })], [keynote], day, 'America/Los_Angeles');
+
+        expect(requests().map(([method, url]) => `${method} ${url}`)).toEqual(['POST /event-1/sessions']);
+    });
+
+    it('stops with the message the server sent', async () => {
+        (global.fetch as jest.Mock).mockResolvedValue({
+            ok: false,
+            statusText: 'Bad Request',
+            json: () => Promise.resolve({ message: 'Sessions must start and end within the event' }),
+        });
+
+        await expect(saveAgenda('event-1', [draft({})], [], day, 'America/Los_Angeles')).rejects.toThrow(
+            'Sessions must start and end within the event'
+        );
+    });
+});
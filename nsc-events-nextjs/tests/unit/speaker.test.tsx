@@ -0,0 +1,118 @@
+import '@testing-library/jest-dom';
+import React from 'react';
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import SpeakerPage from '@/app/speaker/page';
+import useAuth from '@/hooks/useAuth';
+import { useSpeaker, useSpeakerEvents } from '@/utility/queries';
+
+jest.mock('@/hooks/useAuth');
+jest.mock('next/navigation', () => ({
+  useSearchParams: () => new URLSearchParams('slug=ada-lovelace'),
+}));
+jest.mock('@/utility/queries', () => ({
+  useSpeaker: jest.fn(),
+  useSpeakerEvents: jest.fn(),
+}));
+
+const speaker = {
+  id: 'speaker-1',
+  slug: 'ada-lovelace',
+  name: 'Ada Lovelace',
+  title: 'Mathematician',
+  affiliation: 'Analytical Society',
+  bio: 'Wrote the first program.',
+  headshotUrl: '',
+  links: [{ label: 'Website', url: 'https://example.com/ada' }],
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+};
+
+const event = (id: string, eventTitle: string, startDate: string, sessions: string[] = []) => ({
+  id,
+  eventTitle,
+  startDate,
+  endDate: startDate,
+  timeZone: 'America/Los_Angeles',
+  eventLocation: 'Library',
+  eventCoverPhoto: '',
+  isArchived: false,
+  sessions,
+});
+
+const renderPage = () =>
+  render(
+    <QueryClientProvider client={new QueryClient()}>
+      <SpeakerPage />
+    </QueryClientProvider>
+  );
+
+describe('SpeakerPage', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (useAuth as jest.Mock).mockReturnValue({ isAuth: false, user: null });
+    (useSpeaker as jest.Mock).mockReturnValue({ data: speaker, isLoading: false, isError: false });
+    (useSpeakerEvents as jest.Mock).mockReturnValue({
+      data: [
+        event('event-3', 'Robotics Expo', '2999-03-01T18:00:00.000Z'),
+        event('event-2', 'Tech Summit', '2999-01-01T18:00:00.000Z', ['Keynote']),
+        event('event-1', 'Math Night', '2020-01-01T18:00:00.000Z'),
+      ],
+    });
+  });
+
+  it('shows the profile of the speaker in the address', () => {
+    renderPage();
+
+    expect(useSpeaker).toHaveBeenCalledWith('ada-lovelace');
+    expect(screen.getByRole('heading', { name: 'Ada Lovelace' })).toBeInTheDocument();
+    expect(screen.getByText('Mathematician, Analytical Society')).toBeInTheDocument();
+    expect(screen.getByText('Wrote the first program.')).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'Website' })).toHaveAttribute('href', 'https://example.com/ada');
+  });
+
+  it('lists upcoming events soonest first, then past events', () => {
+    renderPage();
+
+    const links = screen
+      .getAllByRole('link')
+      .filter((link) => link.getAttribute('href')?.startsWith('/event-detail'));
+    expect(links.map((link) => link.textContent)).toEqual(['Tech Summit', 'Robotics Expo', 'Math Night']);
+    expect(links[0]).toHaveAttribute('href', '/event-detail?id=event-2');
+    expect(screen.getByText(/Speaking at: Keynote/)).toBeInTheDocument();
+    expect(screen.getByText('Past Events')).toBeInTheDocument();
+  });
+
+  it('only lets creators and admins edit the profile', () => {
+    renderPage();
+    expect(screen.queryByRole('button', { name: 'Edit Profile' })).not.toBeInTheDocument();
+  });
+
+  it('saves profile changes', async () => {
+    (useAuth as jest.Mock).mockReturnValue({ isAuth: true, user: { role: 'creator' } });
+    localStorage.setItem('token', 'creator-token');
+    global.fetch = jest.fn().mockResolvedValue({ ok: true, json: () => Promise.resolve(speaker) });
+    renderPage();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Edit Profile' }));
+    const dialog = within(screen.getByRole('dialog'));
+    fireEvent.change(dialog.getByLabelText('Title'), { target: { value: 'Countess' } });
+    fireEvent.click(dialog.getByRole('button', { name: 'Save' }));
+
+    await waitFor(() => expect(screen.getByText('Speaker updated')).toBeInTheDocument());
+    const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toMatch(/\/speakers\/speaker-1$/);
+    expect(init.method).toBe('PUT');
+    expect(JSON.parse(init.body)).toEqual(
+      expect.objectContaining({ name: 'Ada Lovelace', title: 'Countess' })
+    );
+  });
+
+  it('says so when there is no such speaker', () => {
+    (useSpeaker as jest.Mock).mockReturnValue({ data: undefined, isLoading: false, isError: true });
+
+    renderPage();
+
+    expect(screen.getByText('Speaker not found.')).toBeInTheDocument();
+  });
+});
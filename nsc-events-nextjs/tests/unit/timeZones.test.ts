@@ -0,0 +1,84 @@
+import {
+    formatOffset,
+    getTimeZoneLabel,
+    getTimeZoneOffset,
+    getTimeZones,
+    toZonedISOString,
+    toZonedPickerDate,
+    zonedTimeToDate,
+} from '../../utility/timeZones';
+import { formatDate, formatTimeWithTimezone, formatViewerTime } from '../../utility/dateUtils';
+
+describe('timeZones', () => {
+    it('lists the zones events can be held in', () => {
+        const zones = getTimeZones();
+
+        expect(zones).toContain('America/Los_Angeles');
+        expect(zones).toContain('America/New_York');
+    });
+
+    it('reads the offset a zone has at an instant', () => {
+        expect(getTimeZoneOffset(new Date('2025-01-15T18:00:00Z'), 'America/Los_Angeles')).toBe(-480);
+        expect(getTimeZoneOffset(new Date('2025-07-15T18:00:00Z'), 'America/Los_Angeles')).toBe(-420);
+        expect(getTimeZoneOffset(new Date('2025-01-15T18:00:00Z'), 'Asia/Kolkata')).toBe(330);
+    });
+
+    it('formats offsets as ±HH:MM', () => {
+        expect(formatOffset(-480)).toBe('-08:00');
+        expect(formatOffset(330)).toBe('+05:30');
+        expect(formatOffset(0)).toBe('+00:00');
+    });
+
+    it('finds the instant a wall clock time in a zone names', () => {
+        expect(zonedTimeToDate(2025, 0, 15, 10, 0, 'America/Los_Angeles').toISOString()).toBe(
+            '2025-01-15T18:00:00.000Z'
+        );
+        expect(zonedTimeToDate(2025, 6, 15, 10, 0, 'America/Los_Angeles').toISOString()).toBe(
+            '2025-07-15T17:00:00.000Z'
+        );
+    });
+
+    it('moves times skipped by a daylight saving change to the later offset', () => {
+        // 2:30 AM doesn't exist in Los Angeles on March 9, 2025
+        expect(zonedTimeToDate(2025, 2, 9, 2, 30, 'America/Los_Angeles').toISOString()).toBe(
+            '2025-03-09T10:30:00.000Z'
+        );
+    });
+
+    it('formats an instant with the offset of the zone', () => {
+        const instant = new Date('2025-01-15T18:00:00Z');
+
+        expect(toZonedISOString(instant, 'America/New_York')).toBe('2025-01-15T13:00:00-05:00');
+        expect(toZonedISOString(instant, 'Asia/Tokyo')).toBe('2025-01-16T03:00:00+09:00');
+    });
+
+    it('builds picker dates that show the wall clock time in the zone', () => {
+        const pickerDate = toZonedPickerDate('2025-01-15T18:00:00Z', 'America/New_York');
+
+        expect(pickerDate.getFullYear()).toBe(2025);
+        expect(pickerDate.getMonth()).toBe(0);
+        expect(pickerDate.getDate()).toBe(15);
+        expect(pickerDate.getHours()).toBe(13);
+        expect(pickerDate.getMinutes()).toBe(0);
+    });
+
+    it('names zones for people', () => {
+        expect(getTimeZoneLabel('America/Los_Angeles')).toBe('Pacific Time - Los Angeles');
+        expect(getTimeZoneLabel('America/New_York')).toBe('Eastern Time - New York');
+    });
+
+    describe('dateUtils', () => {
+        const start = '2025-01-16T03:30:00Z';
+
+        it('shows the day and time in the event zone', () => {
+            expect(formatDate(start, 'America/New_York')).toBe('01/15/2025');
+            expect(formatTimeWithTimezone(start, 'America/New_York')).toBe('10:30 PM EST');
+            expect(formatTimeWithTimezone(start)).toBe('7:30 PM PST');
+        });
+
+        it('shows the viewer time only when it reads differently', () => {
+            expect(formatViewerTime(start, 'America/New_York', 'America/Los_Angeles')).toBe('7:30 PM PST');
+            expect(formatViewerTime(start, 'America/New_York', 'America/New_York')).toBeNull();
+        });
+    });
+});
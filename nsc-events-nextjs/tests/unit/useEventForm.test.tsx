@@ -161,12 +161,13 @@ describe('useEventForm Hook', () => {
     });
 
     it('should initialize with timezone message', () => {
-      const { result } = renderHook(() => useEventForm(initialData), {
-        wrapper: createWrapper(),
-      });
+      const { result } = renderHook(
+        () => useEventForm({ ...initialData, timeZone: 'America/Los_Angeles' }),
+        { wrapper: createWrapper() }
+      );
 
       expect(result.current.timezoneMessage).toBe(
-        'All event times are recorded and displayed in the local time zone: (GMT-07:00) Pacific Time - Los Angeles'
+        "All event times are recorded and displayed in the event's time zone: Pacific Time - Los Angeles"
       );
     });
 
@@ -397,6 +398,76 @@ describe('useEventForm Hook', () => {
     });
   });
 
+  describe('Speakers', () => {
+    it('should replace the speakers with the picked names', () => {
+      const { result } = renderHook(() => useEventForm(initialData), {
+        wrapper: createWrapper(),
+      });
+
+      act(() => {
+        result.current.handleSpeakersChange(['Ada Lovelace', 'Grace Hopper']);
+      });
+
+      expect(result.current.eventData.eventSpeakers).toEqual(['Ada Lovelace', 'Grace Hopper']);
+    });
+  });
+
+  describe('Templates', () => {
+    it('should prefill the fields a template sets and keep the rest', () => {
+      const { result } = renderHook(() => useEventForm({ ...initialData, eventTitle: 'Kept title' }), {
+        wrapper: createWrapper(),
+      });
+
+      act(() => {
+        result.current.applyTemplate({
+          eventHost: 'Math Club',
+          eventTags: ['Study'],
+          eventSocialMedia: { instagram: 'mathclub' } as Activity['eventSocialMedia'],
+        });
+      });
+
+      expect(result.current.eventData.eventTitle).toBe('Kept title');
+      expect(result.current.eventData.eventHost).toBe('Math Club');
+      expect(result.current.eventData.eventTags).toEqual(['Study']);
+      expect(result.current.eventData.eventSocialMedia).toEqual({
+        facebook: '',
+        twitter: '',
+        instagram: 'mathclub',
+        hashtag: '',
+      });
+    });
+
+    it('should preview the template cover photo', () => {
+      const { result } = renderHook(() => useEventForm(initialData), {
+        wrapper: createWrapper(),
+      });
+
+      act(() => {
+        result.current.applyTemplate({ eventCoverPhoto: 'https://example.com/cover.jpg' });
+      });
+
+      expect(result.current.eventData.eventCoverPhoto).toBe('https://example.com/cover.jpg');
+      expect(result.current.coverImagePreview).toBe('https://example.com/cover.jpg');
+    });
+    it('should drop the picked room when a template sets a free-text location', () => {
+      const { result } = renderHook(() => useEventForm(initialData), {
+        wrapper: createWrapper(),
+      });
+
+      act(() => {
+        result.current.handleLocationChange('room-1', 'Instruction Building (IB) 1234');
+      });
+      expect(result.current.eventData.roomId).toBe('room-1');
+
+      act(() => {
+        result.current.applyTemplate({ eventLocation: 'Zoom' });
+      });
+
+      expect(result.current.eventData.roomId).toBeNull();
+      expect(result.current.eventData.eventLocation).toBe('Zoom');
+    });
+  });
+
   describe('Social Media Field Updates', () => {
     it('should update Facebook field', () => {
       const { result } = renderHook(() => useEventForm(initialData), {
@@ -657,6 +728,39 @@ describe('useEventForm Hook', () => {
       expect(result.current.errors.endDate).toBe('end time is required');
     });
 
+    it('should not submit an agenda with sessions outside the event', () => {
+      const { result } = renderHook(() => useEventForm(initialData), {
+        wrapper: createWrapper(),
+      });
+
+      act(() => {
+        result.current.setSelectedDate(new Date('2024-12-01'));
+        result.current.setSessions([
+          {
+            key: 'new-1',
+            title: 'Closing Remarks',
+            description: '',
+            startTime: '10:30',
+            endTime: '11:30',
+            roomId: null,
+            location: '',
+            speakers: [],
+          },
+        ]);
+      });
+
+      act(() => {
+        result.current.handleSubmit({
+          preventDefault: jest.fn(),
+        } as any);
+      });
+
+      expect(result.current.errors.agenda).toBe(
+        "Closing Remarks must fall within the event's start and end time"
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
     it('should handle success/error message state', () => {
       const { result } = renderHook(() => useEventForm(initialData), {
         wrapper: createWrapper(),
@@ -718,12 +822,25 @@ describe('useEventForm Hook', () => {
     });
 
     it('should display timezone message', () => {
+      const { result } = renderHook(
+        () => useEventForm({ ...initialData, timeZone: 'America/New_York' }),
+        { wrapper: createWrapper() }
+      );
+
+      expect(result.current.timezoneMessage).toContain('Eastern Time - New York');
+    });
+
+    it('should update the time zone the times are picked in', () => {
       const { result } = renderHook(() => useEventForm(initialData), {
         wrapper: createWrapper(),
       });
 
-      expect(result.current.timezoneMessage).toContain('Pacific Time');
-      expect(result.current.timezoneMessage).toContain('GMT-07:00');
+      act(() => {
+        result.current.handleTimeZoneChange('Asia/Tokyo');
+      });
+
+      expect(result.current.timeZone).toBe('Asia/Tokyo');
+      expect(result.current.eventData.timeZone).toBe('Asia/Tokyo');
     });
   });
 
@@ -807,6 +924,25 @@ describe('useEventForm Hook', () => {
       expect(isoAfternoon).toContain('14:30:00');
       expect(isoEvening).toContain('18:45:00');
     });
+
+    it('should use the offset the event time zone has on the picked day', () => {
+      const { result } = renderHook(() => useEventForm(initialData), {
+        wrapper: createWrapper(),
+      });
+
+      const winter = new Date('2024-12-15T00:00:00');
+      const summer = new Date('2024-07-15T00:00:00');
+
+      expect(result.current.createISODateTime(winter, '14:30', 'America/New_York')).toBe(
+        '2024-12-15T14:30:00-05:00'
+      );
+      expect(result.current.createISODateTime(summer, '14:30', 'America/New_York')).toBe(
+        '2024-07-15T14:30:00-04:00'
+      );
+      expect(result.current.createISODateTime(winter, '09:00', 'Asia/Kolkata')).toBe(
+        '2024-12-15T09:00:00+05:30'
+      );
+    });
   });
 
   describe('Form Submission', () => {
@@ -903,6 +1039,161 @@ describe('useEventForm Hook', () => {
       });
     });
 
+    it('should send the recurrence rule for repeating events', async () => {
+      mockValidateFormData.mockReturnValue({});
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ id: 'event-123' }),
+      } as Response);
+
+      const { result } = renderHook(() => useEventForm(initialData), {
+        wrapper: createWrapper(),
+      });
+
+      act(() => {
+        result.current.setSelectedDate(new Date('2024-12-15'));
+        result.current.setRecurrence({
+          frequency: 'weekly',
+          endType: 'count',
+          until: null,
+          count: 4,
+          exceptionDates: [new Date('2024-12-22T12:00:00')],
+        });
+      });
+
+      await act(async () => {
+        result.current.handleSubmit({
+          preventDefault: jest.fn(),
+        } as any);
+      });
+
+      await waitFor(() => {
+        expect(mockFetch).toHaveBeenCalled();
+      });
+
+      const body = mockFetch.mock.calls[0][1]?.body as FormData;
+      const recurrence = JSON.parse(body.get('recurrence') as string);
+      expect(recurrence.frequency).toBe('weekly');
+      expect(recurrence.count).toBe(4);
+      expect(recurrence.until).toBeUndefined();
+      expect(recurrence.exceptionDates).toHaveLength(1);
+      expect(recurrence.exceptionDates[0]).toContain('2024-12-22T');
+    });
+
+    it('should require an end date for repeating events ending on a date', () => {
+      mockValidateFormData.mockReturnValue({});
+
+      const { result } = renderHook(() => useEventForm(initialData), {
+        wrapper: createWrapper(),
+      });
+
+      act(() => {
+        result.current.setSelectedDate(new Date('2024-12-15'));
+        result.current.setRecurrence({
+          frequency: 'monthly',
+          endType: 'until',
+          until: null,
+          count: 10,
+          exceptionDates: [],
+        });
+      });
+
+      act(() => {
+        result.current.handleSubmit({
+          preventDefault: jest.fn(),
+        } as any);
+      });
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(result.current.errors.recurrence).toBe('an end date is required for repeating events');
+    });
+
+    it('should publish immediately by default', async () => {
+      mockValidateFormData.mockReturnValue({});
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ id: 'event-123' }),
+      } as Response);
+
+      const { result } = renderHook(() => useEventForm(initialData), {
+        wrapper: createWrapper(),
+      });
+
+      act(() => {
+        result.current.setSelectedDate(new Date('2024-12-15'));
+      });
+
+      await act(async () => {
+        result.current.handleSubmit({
+          preventDefault: jest.fn(),
+        } as any);
+      });
+
+      await waitFor(() => {
+        expect(mockFetch).toHaveBeenCalled();
+      });
+
+      const body = mockFetch.mock.calls[0][1]?.body as FormData;
+      expect(body.get('publicationStatus')).toBe('published');
+      expect(body.get('publishAt')).toBeNull();
+    });
+
+    it('should send publishAt for scheduled events', async () => {
+      mockValidateFormData.mockReturnValue({});
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ id: 'event-123' }),
+      } as Response);
+      const publishAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+      const { result } = renderHook(() => useEventForm(initialData), {
+        wrapper: createWrapper(),
+      });
+
+      act(() => {
+        result.current.setSelectedDate(new Date('2024-12-15'));
+        result.current.setPublicationStatus('scheduled');
+        result.current.setPublishAt(publishAt);
+      });
+
+      await act(async () => {
+        result.current.handleSubmit({
+          preventDefault: jest.fn(),
+        } as any);
+      });
+
+      await waitFor(() => {
+        expect(mockFetch).toHaveBeenCalled();
+      });
+
+      const body = mockFetch.mock.calls[0][1]?.body as FormData;
+      expect(body.get('publicationStatus')).toBe('scheduled');
+      expect(body.get('publishAt')).toBe(publishAt.toISOString());
+    });
+
+    it('should require a future publish date for scheduled events', () => {
+      mockValidateFormData.mockReturnValue({});
+
+      const { result } = renderHook(() => useEventForm(initialData), {
+        wrapper: createWrapper(),
+      });
+
+      act(() => {
+        result.current.setSelectedDate(new Date('2024-12-15'));
+        result.current.setPublicationStatus('scheduled');
+        result.current.setPublishAt(new Date(Date.now() - 60 * 1000));
+      });
+
+      act(() => {
+        result.current.handleSubmit({
+          preventDefault: jest.fn(),
+        } as any);
+      });
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(result.current.errors.publishAt).toBe('publish date must be in the future');
+    });
+
     it('should set success message on successful submission', async () => {
       mockValidateFormData.mockReturnValue({});
       mockFetch.mockResolvedValue({
@@ -982,6 +1273,50 @@ describe('useEventForm Hook', () => {
         expect(result.current.errorMessage).toBeTruthy();
       });
     });
+
+    it('should surface a room conflict and let admins book anyway', async () => {
+      mockValidateFormData.mockReturnValue({});
+      const conflict = {
+        message: 'Room IB 1234 is already booked',
+        conflicts: [{ id: 'event-9', eventTitle: 'Chess Night' }],
+        canOverride: true,
+      };
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 409, json: async () => conflict } as Response)
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ id: 'event-123' }) } as Response);
+
+      const { result } = renderHook(
+        () => useEventForm({ ...initialData, eventTitle: 'Test Event', roomId: 'room-1' } as Activity),
+        { wrapper: createWrapper() }
+      );
+
+      act(() => {
+        result.current.setSelectedDate(new Date('2024-12-15'));
+      });
+
+      await act(async () => {
+        result.current.handleSubmit({
+          preventDefault: jest.fn(),
+        } as any);
+      });
+
+      await waitFor(() => {
+        expect(result.current.roomConflict).toEqual(conflict);
+      });
+      expect(result.current.successMessage).toBe('');
+
+      await act(async () => {
+        await result.current.bookRoomAnyway();
+      });
+
+      const body = mockFetch.mock.calls[1][1]?.body as FormData;
+      expect(body.get('overrideRoomConflicts')).toBe('true');
+      expect(body.get('roomId')).toBe('room-1');
+      await waitFor(() => {
+        expect(result.current.roomConflict).toBeNull();
+        expect(result.current.successMessage).toBeTruthy();
+      });
+    });
   });
 
   describe('State Setters', () => {
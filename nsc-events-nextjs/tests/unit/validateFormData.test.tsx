@@ -202,6 +202,13 @@ describe('validateFormData Utility', () => {
 
         expect(errors.eventCapacity).toBeUndefined();
       });
+
+      it('should not return error when eventCapacity is null (unlimited)', () => {
+        const data = { ...validActivityData, eventCapacity: null };
+        const errors = validateFormData(data);
+
+        expect(errors.eventCapacity).toBeUndefined();
+      });
     });
   });
 
@@ -0,0 +1,15 @@
+// A document shared on the event page, such as an agenda, flyer or waiver
+export type EventAttachment = {
+    id: string;
+    activityId: string;
+    title: string;
+    fileName: string;
+    // Detected from the file contents when it was uploaded
+    mimeType: string;
+    // In bytes
+    size: number;
+    url: string;
+    uploadedByUserId: string;
+    createdAt: string;
+    updatedAt: string;
+};
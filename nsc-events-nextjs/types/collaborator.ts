@@ -0,0 +1,24 @@
+export type CollaboratorRole = "co-host" | "editor" | "check-in-staff";
+
+export type Collaborator = {
+    id: string;
+    activityId: string;
+    userId: string;
+    role: CollaboratorRole;
+    // Invitations only grant access once accepted
+    status: "invited" | "accepted";
+    invitedByUserId: string;
+    acceptedAt?: string | null;
+    user?: {
+        id: string;
+        firstName: string;
+        lastName: string;
+        email: string;
+    } | null;
+};
+
+export const collaboratorRoleLabels: Record<CollaboratorRole, string> = {
+    "co-host": "Co-host",
+    editor: "Editor",
+    "check-in-staff": "Check-in staff",
+};
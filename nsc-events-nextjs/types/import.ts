@@ -0,0 +1,53 @@
+// Event fields a CSV column can be mapped to when importing events
+export const IMPORT_FIELDS = [
+    "eventTitle",
+    "eventDescription",
+    "startDate",
+    "endDate",
+    "date",
+    "startTime",
+    "endTime",
+    "timeZone",
+    "eventLocation",
+    "eventHost",
+    "eventContact",
+    "eventCapacity",
+    "eventTags",
+    "eventMeetingURL",
+    "eventRegistration",
+    "eventSchedule",
+    "eventSpeakers",
+    "eventPrerequisites",
+    "eventCancellationPolicy",
+    "eventPrivacy",
+    "eventAccessibility",
+    "eventNote",
+    "eventCoverPhoto",
+    "eventDocument",
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+// CSV header -> event field
+export type ColumnMapping = Record<string, ImportField>;
+
+export type ImportRow = {
+    // Spreadsheet row for CSV files, position in the file for calendars
+    row: number;
+    fields: Record<string, unknown>;
+    // Rows with errors are skipped by the import
+    errors: string[];
+    warnings: string[];
+};
+
+export type ImportPreview = {
+    format: "csv" | "ics";
+    headers: string[];
+    mapping: ColumnMapping;
+    rows: ImportRow[];
+};
+
+export type ImportResult = {
+    created: { row: number; id: string; eventTitle: string; startDate: string }[];
+    skipped: { row: number; eventTitle?: string; errors: string[] }[];
+};
@@ -0,0 +1,11 @@
+// Envelope returned by the event list endpoints
+export type PaginatedResponse<T> = {
+    data: T[];
+    // null when the page was requested by cursor
+    page: number | null;
+    pageSize: number;
+    total: number;
+    totalPages: number;
+    // pass back as ?cursor= to get the next page; null on the last page
+    nextCursor: string | null;
+  };
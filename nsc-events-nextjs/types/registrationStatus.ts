@@ -0,0 +1,10 @@
+export type RegistrationStatus = {
+    isRegistered: boolean;
+    isWaitlisted: boolean;
+    // 1-based position on the waitlist, null when not waitlisted
+    waitlistPosition: number | null;
+    isFull: boolean;
+    // null means the event has unlimited capacity
+    capacity: number | null;
+    registeredCount: number;
+  };
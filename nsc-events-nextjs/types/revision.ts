@@ -0,0 +1,29 @@
+export type RevisionAction = "created" | "updated" | "archived" | "unarchived" | "cover-image" | "restored";
+
+export type Revision = {
+    id: string;
+    activityId: string;
+    // 1 for the oldest revision of the event
+    revision: number;
+    action: RevisionAction;
+    actorUserId?: string | null;
+    // Changed fields with their values before and after the revision
+    changes: Record<string, { before: unknown; after: unknown }>;
+    restoredFromRevision?: number | null;
+    createdAt: string;
+    // Null for changes made by the system
+    actor: {
+        id: string;
+        firstName: string;
+        lastName: string;
+    } | null;
+};
+
+export const revisionActionLabels: Record<RevisionAction, string> = {
+    created: "Created",
+    updated: "Edited",
+    archived: "Archived",
+    unarchived: "Unarchived",
+    "cover-image": "Changed cover image",
+    restored: "Restored",
+};
@@ -0,0 +1,38 @@
+import { Speaker } from "@/types/speaker";
+
+// One item on an event's agenda, such as a keynote or a breakout
+export type EventSession = {
+    id: string;
+    activityId: string;
+    // Place on the agenda
+    position: number;
+    title: string;
+    description: string;
+    startDate: string;
+    endDate: string;
+    // Empty when the session is wherever the event is
+    location: string;
+    roomId: string | null;
+    // Copy of the names of speakerProfiles, in the order they are listed
+    speakers: string[];
+    speakerProfiles?: Speaker[];
+    createdAt: string;
+    updatedAt: string;
+};
+
+// A session as it is edited in the event forms
+export type SessionDraft = {
+    // Missing until the session is saved
+    id?: string;
+    // Keeps rows apart while editing, including unsaved ones
+    key: string;
+    title: string;
+    description: string;
+    // HH:mm on the event's day, in its time zone
+    startTime: string;
+    endTime: string;
+    roomId: string | null;
+    location: string;
+    // Speaker names, new ones become profiles when the session is saved
+    speakers: string[];
+};
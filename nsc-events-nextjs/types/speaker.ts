@@ -0,0 +1,34 @@
+// A guest speaker, shared by every event and session they speak at
+export type Speaker = {
+    id: string;
+    // Address of their public page, kept when they are renamed
+    slug: string;
+    name: string;
+    title: string;
+    affiliation: string;
+    bio: string;
+    // Empty until a photo is uploaded
+    headshotUrl: string;
+    links: SpeakerLink[];
+    createdAt: string;
+    updatedAt: string;
+};
+
+export type SpeakerLink = {
+    label: string;
+    url: string;
+};
+
+// An event on a speaker's page
+export type SpeakerEvent = {
+    id: string;
+    eventTitle: string;
+    startDate: string;
+    endDate: string;
+    timeZone: string;
+    eventLocation: string;
+    eventCoverPhoto: string;
+    isArchived: boolean;
+    // Titles of the sessions the speaker is on, in agenda order
+    sessions: string[];
+};
@@ -0,0 +1,9 @@
+export type Tag = {
+    id: string;
+    slug: string;
+    name: string;
+    color: string;
+    description?: string | null;
+    // Inactive tags stay on existing events but can't be picked
+    isActive: boolean;
+};
@@ -0,0 +1,16 @@
+import { Activity } from "@/models/activity";
+
+// Event details a template prefills into the create event form
+export type TemplateFields = Partial<Omit<Activity, "eventCreatorId" | "eventCategory" | "startDate" | "endDate">>;
+
+export type EventTemplate = {
+    id: string;
+    name: string;
+    description?: string | null;
+    createdByUserId: string;
+    // Shared templates are offered to every creator and only admins can change them
+    isShared: boolean;
+    fields: TemplateFields;
+    createdAt: string;
+    updatedAt: string;
+};
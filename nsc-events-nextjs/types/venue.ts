@@ -0,0 +1,72 @@
+export type AccessibilityFeature =
+    | "step-free-access"
+    | "elevator"
+    | "accessible-restroom"
+    | "accessible-seating"
+    | "hearing-loop";
+
+export const accessibilityFeatureLabels: Record<AccessibilityFeature, string> = {
+    "step-free-access": "Step-free access",
+    elevator: "Elevator",
+    "accessible-restroom": "Accessible restroom",
+    "accessible-seating": "Accessible seating",
+    "hearing-loop": "Hearing loop",
+};
+
+export type Room = {
+    id: string;
+    venueId: string;
+    roomNumber: string;
+    name?: string | null;
+    // Seats, null when unknown
+    capacity?: number | null;
+    accessibilityFeatures: AccessibilityFeature[];
+    // Inactive rooms stay on existing events but can't be picked
+    isActive: boolean;
+};
+
+// A campus building with the rooms events can be held in
+export type Venue = {
+    id: string;
+    campus: string;
+    name: string;
+    code: string;
+    address?: string | null;
+    latitude?: number | null;
+    longitude?: number | null;
+    isActive: boolean;
+    rooms: Room[];
+};
+
+// An event holding a room, as listed in conflicts and room schedules
+export type RoomBooking = {
+    id: string;
+    eventTitle: string;
+    eventHost: string;
+    roomId: string;
+    startDate: string;
+    endDate: string;
+    setupMinutes: number;
+    teardownMinutes: number;
+    approvalStatus: string;
+    publicationStatus: string;
+};
+
+// Sent back when the room is already booked at the time. Admins can book it
+// anyway; creators have to pick another room or time.
+export type RoomConflict = {
+    message: string;
+    conflicts: RoomBooking[];
+    canOverride: boolean;
+};
+
+export type VenueSchedule = {
+    venue: Omit<Venue, "rooms">;
+    date: string;
+    timeZone: string;
+    rooms: {
+        room: Room;
+        // Ids of the other bookings each one overlaps
+        bookings: (RoomBooking & { conflictsWith: string[] })[];
+    }[];
+};
@@ -0,0 +1,76 @@
+import { ActivityDatabase } from "@/models/activityDatabase";
+
+const apiUrl = process.env.NSC_EVENTS_PUBLIC_API_URL;
+
+// Formats a timestamp as a compact UTC date-time, e.g. 20250115T180000Z
+export const toCalendarDateTime = (dateString: string): string => {
+    return new Date(dateString).toISOString().replace(/[-:]/g, "").split(".")[0] + "Z";
+};
+
+// Calendar apps subscribe to feeds through the webcal scheme
+export const toWebcalUrl = (url: string): string => {
+    return url.replace(/^https?:\/\//, "webcal://");
+};
+
+export const getEventIcsUrl = (eventId: string): string => {
+    return `${apiUrl}/events/${eventId}/ics`;
+};
+
+export const getPublicFeedUrl = (tag?: string): string => {
+    return tag
+        ? `${apiUrl}/events/feeds/tags/${encodeURIComponent(tag)}`
+        : `${apiUrl}/events/feeds/public`;
+};
+
+export const getUserFeedUrl = (token: string): string => {
+    return `${apiUrl}/events/feeds/user/${token}`;
+};
+
+const getEventDetails = (event: ActivityDatabase): string => {
+    return [event.eventDescription, event.eventMeetingURL ? `Join online: ${event.eventMeetingURL}` : ""]
+        .filter(Boolean)
+        .join("\n\n");
+};
+
+export const getGoogleCalendarUrl = (event: ActivityDatabase): string => {
+    const params = new URLSearchParams({
+        action: "TEMPLATE",
+        text: event.eventTitle,
+        dates: `${toCalendarDateTime(event.startDate)}/${toCalendarDateTime(event.endDate)}`,
+        details: getEventDetails(event),
+        location: event.eventLocation ?? "",
+    });
+    // Google shows the event in its own zone rather than the viewer's
+    if (event.timeZone) {
+        params.set("ctz", event.timeZone);
+    }
+    return `https://calendar.google.com/calendar/render?${params.toString()}`;
+};
+
+export const getOutlookCalendarUrl = (event: ActivityDatabase): string => {
+    const params = new URLSearchParams({
+        path: "/calendar/action/compose",
+        rru: "addevent",
+        subject: event.eventTitle,
+        startdt: new Date(event.startDate).toISOString(),
+        enddt: new Date(event.endDate).toISOString(),
+        body: getEventDetails(event),
+        location: event.eventLocation ?? "",
+    });
+    return `https://outlook.live.com/calendar/0/deeplink/compose?${params.toString()}`;
+};
+
+// Fetches (and creates on first use) the signed-in user's private feed token
+export const getUserFeedToken = async (token: string): Promise<string> => {
+    const response = await fetch(`${apiUrl}/events/feeds/token`, {
+        method: "POST",
+        headers: {
+            Authorization: `Bearer ${token}`,
+        },
+    });
+    if (!response.ok) {
+        throw new Error(`Failed to get calendar feed: ${response.statusText}`);
+    }
+    const data = await response.json();
+    return data.token;
+};
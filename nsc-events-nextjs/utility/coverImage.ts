@@ -0,0 +1,41 @@
+import { ActivityDatabase, CoverPhotoVariants, CoverVariantName } from "@/models/activityDatabase";
+
+export interface CoverImageSources {
+    src: string;
+    // Empty when the event has no variants, e.g. for covers linked by URL
+    srcSet: string;
+    webpSrcSet: string;
+}
+
+const variantNames: CoverVariantName[] = ["thumbnail", "card", "hero"];
+
+// Variants made from an older cover photo no longer match the event
+export const currentVariants = (
+    event: Pick<ActivityDatabase, "eventCoverPhoto" | "eventCoverPhotoVariants">
+): CoverPhotoVariants | null => {
+    const variants = event.eventCoverPhotoVariants;
+    return event.eventCoverPhoto && variants?.source === event.eventCoverPhoto ? variants : null;
+};
+
+// Sources for an <img> and a WebP <source> of an event's cover photo. The
+// fallback is shown when the event has no cover photo.
+export const getCoverImageSources = (
+    event: Pick<ActivityDatabase, "eventCoverPhoto" | "eventCoverPhotoVariants">,
+    fallback = ""
+): CoverImageSources => {
+    const variants = currentVariants(event);
+    if (!variants) {
+        return { src: event.eventCoverPhoto || fallback, srcSet: "", webpSrcSet: "" };
+    }
+
+    const toSrcSet = (format: "jpeg" | "webp") =>
+        variantNames
+            .filter((name) => variants[name])
+            .map((name) => `${variants[name][format].url} ${variants[name].width}w`)
+            .join(", ");
+    return {
+        src: variants.card?.jpeg.url ?? event.eventCoverPhoto,
+        srcSet: toSrcSet("jpeg"),
+        webpSrcSet: toSrcSet("webp"),
+    };
+};
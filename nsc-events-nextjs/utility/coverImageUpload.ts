@@ -0,0 +1,79 @@
+import { ActivityDatabase } from "@/models/activityDatabase";
+
+export const MAX_COVER_IMAGE_SIZE_MB = 20;
+
+export const COVER_IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+interface DirectUpload {
+    key: string;
+    uploadUrl: string;
+    contentType: string;
+    expiresAt: string;
+}
+
+const postToApi = async <T>(path: string, body: object): Promise<T> => {
+    const token = localStorage.getItem("token");
+    if (!token) {
+        throw new Error("No authentication token found");
+    }
+
+    const apiUrl = process.env.NSC_EVENTS_PUBLIC_API_URL;
+    const response = await fetch(`${apiUrl}${path}`, {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || "Unknown error occurred");
+    }
+    return response.json();
+};
+
+// fetch can't report upload progress, so the file goes through XMLHttpRequest
+const putFile = (upload: DirectUpload, file: File, onProgress?: (percent: number) => void) =>
+    new Promise<void>((resolve, reject) => {
+        const request = new XMLHttpRequest();
+        request.open("PUT", upload.uploadUrl);
+        // The upload URL is only valid for the type it was issued for
+        request.setRequestHeader("Content-Type", upload.contentType);
+        request.upload.onprogress = (event) => {
+            if (event.lengthComputable) {
+                onProgress?.(Math.round((event.loaded / event.total) * 100));
+            }
+        };
+        request.onload = () => {
+            if (request.status >= 200 && request.status < 300) {
+                resolve();
+            } else {
+                reject(new Error(`Upload failed with status ${request.status}`));
+            }
+        };
+        request.onerror = () => reject(new Error("Upload failed. Please check your connection."));
+        request.send(file);
+    });
+
+// Uploads a cover photo straight to storage, then has the API resize it and
+// set it on the event. Resolves with the updated event.
+export const uploadCoverImage = async (
+    eventId: string,
+    file: File,
+    onProgress?: (percent: number) => void
+): Promise<ActivityDatabase> => {
+    if (!COVER_IMAGE_TYPES.includes(file.type)) {
+        throw new Error("Only PNG, JPEG, GIF and WEBP images are allowed");
+    }
+    if (file.size > MAX_COVER_IMAGE_SIZE_MB * 1024 * 1024) {
+        throw new Error(`The image must be ${MAX_COVER_IMAGE_SIZE_MB} MB or smaller`);
+    }
+
+    const upload = await postToApi<DirectUpload>(`/events/${eventId}/cover-image/upload-url`, {
+        fileName: file.name,
+        contentType: file.type,
+    });
+    await putFile(upload, file, onProgress);
+    return postToApi<ActivityDatabase>(`/events/${eventId}/cover-image/finalize`, { key: upload.key });
+};
@@ -1,11 +1,21 @@
-export const formatDate = (dateString: string) => {
+import { DEFAULT_TIME_ZONE, getBrowserTimeZone } from "./timeZones";
+
+/**
+ * Format the day of an event (e.g. "01/15/2025")
+ * @param dateString - ISO 8601 timestamp string
+ * @param timeZone - Zone to show the day in. Without one the UTC day is
+ * shown, which is how date-only values are stored.
+ */
+export const formatDate = (dateString: string, timeZone?: string) => {
     const date = new Date(dateString);
-    // PST is 8 hours behind Coordinated Universal Time (UTC).
-    // Therefore, we set hours to 16 since setUTCHours takes
-    // absolute hours values from 0-23.
-    date.setUTCHours(16, 0, 0, 0);
+    if (!timeZone) {
+        // PST is 8 hours behind Coordinated Universal Time (UTC).
+        // Therefore, we set hours to 16 since setUTCHours takes
+        // absolute hours values from 0-23.
+        date.setUTCHours(16, 0, 0, 0);
+    }
     const options: Intl.DateTimeFormatOptions = {
-        timeZone: 'America/Los_Angeles',
+        timeZone: timeZone ?? 'America/Los_Angeles',
         month: '2-digit',
         day: '2-digit',
         year: 'numeric'
@@ -13,7 +23,7 @@ export const formatDate = (dateString: string) => {
     return date.toLocaleString('en-US', options);
 }
 
-export const formatTime = (dateString: string) => {
+export const formatTime = (dateString: string, timeZone: string = DEFAULT_TIME_ZONE) => {
     const date = new Date(dateString);
     
     // Define options for time only, including the time zone format
@@ -21,7 +31,7 @@ export const formatTime = (dateString: string) => {
         hour: '2-digit',
         minute: '2-digit',
         hour12: true, // Use 12-hour clock (AM/PM)
-        timeZone: 'America/Los_Angeles', 
+        timeZone,
     };
 
     return date.toLocaleTimeString('en-US', options);
@@ -30,9 +40,10 @@ export const formatTime = (dateString: string) => {
 /**
  * Format time with timezone abbreviation (e.g., "5:00 PM PDT")
  * @param dateString - ISO 8601 timestamp string
+ * @param timeZone - IANA zone to show the time in, Pacific time by default
  * @returns Formatted time string with timezone
  */
-export const formatTimeWithTimezone = (dateString: string) => {
+export const formatTimeWithTimezone = (dateString: string, timeZone: string = DEFAULT_TIME_ZONE) => {
     const date = new Date(dateString);
     
     // Get the time in 12-hour format
@@ -40,14 +51,14 @@ export const formatTimeWithTimezone = (dateString: string) => {
         hour: 'numeric',
         minute: '2-digit',
         hour12: true,
-        timeZone: 'America/Los_Angeles',
+        timeZone,
     };
     
     const time = date.toLocaleTimeString('en-US', timeOptions);
     
-    // Get the timezone abbreviation (PST/PDT)
+    // Get the timezone abbreviation (PST/PDT, or GMT+5:30 where there is none)
     const timezoneOptions: Intl.DateTimeFormatOptions = {
-        timeZone: 'America/Los_Angeles',
+        timeZone,
         timeZoneName: 'short',
     };
     
@@ -57,16 +68,34 @@ export const formatTimeWithTimezone = (dateString: string) => {
     return `${time} ${timezone}`;
 }
 
+/**
+ * Format an event time in the viewer's zone when it differs from the
+ * event's (e.g. "8:00 PM EST"), so people elsewhere see both
+ * @param dateString - ISO 8601 timestamp string
+ * @param timeZone - The event's zone
+ * @param viewerTimeZone - The viewer's zone, the browser's by default
+ * @returns The viewer-local time, or null when it reads the same
+ */
+export const formatViewerTime = (
+    dateString: string,
+    timeZone: string = DEFAULT_TIME_ZONE,
+    viewerTimeZone: string = getBrowserTimeZone()
+) => {
+    const viewerTime = formatTimeWithTimezone(dateString, viewerTimeZone);
+    return viewerTime === formatTimeWithTimezone(dateString, timeZone) ? null : viewerTime;
+}
+
 /**
  * Format date in a more readable format (e.g., "October 27, 2025")
  * @param dateString - ISO 8601 timestamp string
+ * @param timeZone - IANA zone to show the day in, Pacific time by default
  * @returns Formatted date string
  */
-export const formatDateLong = (dateString: string) => {
+export const formatDateLong = (dateString: string, timeZone: string = DEFAULT_TIME_ZONE) => {
     const date = new Date(dateString);
     
     const options: Intl.DateTimeFormatOptions = {
-        timeZone: 'America/Los_Angeles',
+        timeZone,
         month: 'long',
         day: 'numeric',
         year: 'numeric'
@@ -78,8 +107,9 @@ export const formatDateLong = (dateString: string) => {
 /**
  * Format full date and time (e.g., "October 27, 2025 at 5:00 PM PDT")
  * @param dateString - ISO 8601 timestamp string
+ * @param timeZone - IANA zone to show the date and time in
  * @returns Formatted date and time string
  */
-export const formatDateTime = (dateString: string) => {
-    return `${formatDateLong(dateString)} at ${formatTimeWithTimezone(dateString)}`;
-}
\ No newline at end of file
+export const formatDateTime = (dateString: string, timeZone: string = DEFAULT_TIME_ZONE) => {
+    return `${formatDateLong(dateString, timeZone)} at ${formatTimeWithTimezone(dateString, timeZone)}`;
+}
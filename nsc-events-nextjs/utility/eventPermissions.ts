@@ -0,0 +1,32 @@
+import { Collaborator } from "@/types/collaborator";
+
+export type EventPermissions = {
+    // Admin or the owner while they hold the creator role
+    isOwner: boolean;
+    canEdit: boolean;
+    // Delete, archive and publish
+    canManage: boolean;
+    canManageCollaborators: boolean;
+    canCheckIn: boolean;
+};
+
+// Mirrors the backend checks so the event page only shows controls the API
+// will accept. Collaborators count once they accept their invitation.
+export const getEventPermissions = (
+    userRole: string,
+    userId: string,
+    createdByUserId: string | undefined,
+    collaboration?: Collaborator | null,
+): EventPermissions => {
+    const isOwner = userRole === "admin" || (userRole === "creator" && !!userId && createdByUserId === userId);
+    const role = collaboration?.status === "accepted" ? collaboration.role : null;
+    const isCoHost = role === "co-host";
+
+    return {
+        isOwner,
+        canEdit: isOwner || isCoHost || role === "editor",
+        canManage: isOwner || isCoHost,
+        canManageCollaborators: isOwner || isCoHost,
+        canCheckIn: isOwner || role !== null,
+    };
+};
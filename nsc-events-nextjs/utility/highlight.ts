@@ -0,0 +1,27 @@
+export interface HighlightPart {
+    text: string;
+    highlighted: boolean;
+}
+
+const HIGHLIGHT_PATTERN = /<mark>(.*?)<\/mark>/g;
+
+// Splits a search snippet into plain and highlighted parts so it can be rendered
+// as text nodes rather than injected as HTML
+export const splitHighlights = (snippet: string): HighlightPart[] => {
+    const parts: HighlightPart[] = [];
+    let lastIndex = 0;
+
+    for (const match of Array.from(snippet.matchAll(HIGHLIGHT_PATTERN))) {
+        const index = match.index ?? 0;
+        if (index > lastIndex) {
+            parts.push({ text: snippet.slice(lastIndex, index), highlighted: false });
+        }
+        parts.push({ text: match[1], highlighted: true });
+        lastIndex = index + match[0].length;
+    }
+
+    if (lastIndex < snippet.length) {
+        parts.push({ text: snippet.slice(lastIndex), highlighted: false });
+    }
+    return parts;
+};
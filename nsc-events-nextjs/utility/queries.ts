@@ -1,32 +1,82 @@
-import { useQuery } from "@tanstack/react-query";
-import { ActivityDatabase } from "@/models/activityDatabase";
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import { ActivityDatabase, ActivitySearchResult } from "@/models/activityDatabase";
+import { PaginatedResponse } from "@/types/paginated";
+import { RegistrationStatus } from "@/types/registrationStatus";
+import { Tag } from "@/types/tag";
+import { Venue, VenueSchedule } from "@/types/venue";
+import { Collaborator } from "@/types/collaborator";
+import { Revision } from "@/types/revision";
+import { EventTemplate } from "@/types/template";
+import { EventAttachment } from "@/types/attachment";
+import { EventSession } from "@/types/session";
+import { Speaker, SpeakerEvent } from "@/types/speaker";
 import { normalizeActivityId, normalizeActivityIds } from './dbFieldMapper';
 
 const numOfEventsToGet = 6;
 const apiUrl = process.env.NSC_EVENTS_PUBLIC_API_URL;
+
+// Normalizes the IDs of a page of events. A missing body becomes an empty page.
+export const toPaginatedEvents = <T extends Record<string, any>>(
+    body: PaginatedResponse<T> | null,
+): PaginatedResponse<T> => {
+    const data = normalizeActivityIds(body?.data ?? null);
+    return {
+        data,
+        page: body?.page ?? null,
+        pageSize: body?.pageSize ?? data.length,
+        total: body?.total ?? data.length,
+        totalPages: body?.totalPages ?? 0,
+        nextCursor: body?.nextCursor ?? null,
+    };
+}
+
+const getEventsParams = (tags: string[]) => new URLSearchParams({
+    isArchived: String(false),
+    tags: String(tags),
+    numEvents: String(numOfEventsToGet),
+    // collapse recurring series to their next upcoming occurrence
+    nextOccurrenceOnly: String(true),
+});
+
 const getEvents = async (page: any, tags: string[]) => {
-    const params = new URLSearchParams({
-        page: String(page),
-        isArchived: String(false),
-        tags: String(tags),
-        numEvents: String(numOfEventsToGet),
-    });
+    const params = getEventsParams(tags);
+    params.set("page", String(page));
     const response = await fetch(`${apiUrl}/events?${params.toString()}`);
     const data = await response.json();
     // Normalize the ID fields to ensure compatibility
-    return normalizeActivityIds(data);
+    return toPaginatedEvents<ActivityDatabase>(data);
 }
 export function useFilteredEvents(page: any, isEnabled: boolean, tags: string[] = []) {
-    return useQuery<ActivityDatabase[], Error>({
+    return useQuery<PaginatedResponse<ActivityDatabase>, Error>({
         queryKey: ["events", page, tags],
-        queryFn: async () => {
-            const data = await getEvents(page, tags);
-            return data as unknown as ActivityDatabase[];
-        },
+        queryFn: () => getEvents(page, tags),
         enabled: isEnabled
     });
 }
 
+// Upcoming events for infinite scroll. Each page continues from the previous
+// page's cursor, so events added meanwhile never shift or repeat results.
+const getEventsAfter = async (cursor: string | null, tags: string[]) => {
+    const params = getEventsParams(tags);
+    if (cursor) {
+        params.set("cursor", cursor);
+    }
+    const response = await fetch(`${apiUrl}/events?${params.toString()}`);
+    if (!response.ok) {
+        throw new Error("Network response was not ok");
+    }
+    const data = await response.json();
+    return toPaginatedEvents<ActivityDatabase>(data);
+}
+export function useEventsFeed(tags: string[] = []) {
+    return useInfiniteQuery({
+        queryKey: ["eventsFeed", tags],
+        queryFn: ({ pageParam }) => getEventsAfter(pageParam, tags),
+        initialPageParam: null as string | null,
+        getNextPageParam: (lastPage: PaginatedResponse<ActivityDatabase>) => lastPage.nextCursor,
+    });
+}
+
 const getArchivedEvents = async (page: any) => {
     const params = new URLSearchParams({
         page: String(page),
@@ -36,15 +86,12 @@ const getArchivedEvents = async (page: any) => {
     const response = await fetch(`${apiUrl}/events?${String(params)}`);
     const data = await response.json();
     // Normalize the ID fields to ensure compatibility
-    return normalizeActivityIds(data);
+    return toPaginatedEvents<ActivityDatabase>(data);
 }
 export function useArchivedEvents(page: any, isEnabled: boolean) {
-    return useQuery<ActivityDatabase[], Error>({
+    return useQuery<PaginatedResponse<ActivityDatabase>, Error>({
         queryKey: ["archivedEvents", page],
-        queryFn: async () => {
-            const data = await getArchivedEvents(page);
-            return data as unknown as ActivityDatabase[];
-        },
+        queryFn: () => getArchivedEvents(page),
         enabled: isEnabled
     });
 }
@@ -57,21 +104,77 @@ const getMyEvents = async (userId: string, page: any) => {
     const response = await fetch(`${apiUrl}/events/user/${userId}?${String(params)}`);
     const data = await response.json();
     // Normalize the ID fields to ensure compatibility
-    return normalizeActivityIds(data);
+    return toPaginatedEvents<ActivityDatabase>(data);
 }
 export function useMyEvents(userId: string, page: any, isEnabled: boolean) {
-    return useQuery<ActivityDatabase[], Error>({
+    return useQuery<PaginatedResponse<ActivityDatabase>, Error>({
         queryKey: ["myEvents", userId, page],
-        queryFn: async () => {
-            const data = await getMyEvents(userId, page);
-            return data as unknown as ActivityDatabase[];
+        queryFn: () => getMyEvents(userId, page),
+        enabled: isEnabled
+    });
+}
+
+const getMyDrafts = async (userId: string, page: any) => {
+    const params = new URLSearchParams({
+        page: String(page),
+        numEvents: String(numOfEventsToGet),
+    });
+    const token = localStorage.getItem("token");
+    const response = await fetch(`${apiUrl}/events/user/${userId}/drafts?${String(params)}`, {
+        headers: {
+            'Authorization': `Bearer ${token}`,
+        },
+    });
+    if (!response.ok) {
+        throw new Error(`Failed to fetch drafts: ${response.statusText}`);
+    }
+    const data = await response.json();
+    return toPaginatedEvents<ActivityDatabase>(data);
+}
+
+// Draft and scheduled events created by the user; only they (or an admin) can see these
+export function useMyDrafts(userId: string, page: any, isEnabled: boolean) {
+    return useQuery<PaginatedResponse<ActivityDatabase>, Error>({
+        queryKey: ["myDrafts", userId, page],
+        queryFn: () => getMyDrafts(userId, page),
+        enabled: isEnabled
+    });
+}
+
+const getPendingEvents = async (page: any) => {
+    const params = new URLSearchParams({
+        page: String(page),
+        numEvents: String(numOfEventsToGet),
+    });
+    const token = localStorage.getItem("token");
+    const response = await fetch(`${apiUrl}/events/moderation/pending?${String(params)}`, {
+        headers: {
+            'Authorization': `Bearer ${token}`,
         },
+    });
+    if (!response.ok) {
+        throw new Error(`Failed to fetch pending events: ${response.statusText}`);
+    }
+    const data = await response.json();
+    return toPaginatedEvents<ActivityDatabase>(data);
+}
+
+// Events waiting for an admin to approve or reject them
+export function usePendingEvents(page: any, isEnabled: boolean) {
+    return useQuery<PaginatedResponse<ActivityDatabase>, Error>({
+        queryKey: ["pendingEvents", page],
+        queryFn: () => getPendingEvents(page),
         enabled: isEnabled
     });
 }
 
+// Signed-in users can also see the drafts and unapproved events they can edit
 const getEventById = async (id: string | null) => {
-    const response = await fetch(`${apiUrl}/events/find/${id}`);
+    const token = localStorage.getItem("token");
+    const response = await fetch(
+        `${apiUrl}/events/find/${id}`,
+        token ? { headers: { 'Authorization': `Bearer ${token}` } } : undefined,
+    );
     const data = await response.json();
     // Normalize the ID fields to ensure compatibility
     return normalizeActivityId(data);
@@ -106,4 +209,271 @@ export function useIsAttending(eventId: string | undefined, userId: string | und
             return data.isRegistered; // Extract the boolean from the response object
         }
     })
-}
\ No newline at end of file
+}
+
+// Full registration status, including the waitlist, for the event detail page
+export function useRegistrationStatus(eventId: string | undefined, userId: string | undefined) {
+    return useQuery<RegistrationStatus, Error>({
+        queryKey: ['registrationStatus', eventId, userId],
+        queryFn: async () => {
+            if (!eventId || !userId) throw new Error("Missing eventId or userId");
+            const token = localStorage.getItem("token");
+            const response = await fetch(`${apiUrl}/event-registration/check/${eventId}/${userId}`, {
+                headers: {
+                    'Authorization': `Bearer ${token}`,
+                },
+            });
+
+            if (!response.ok) {
+                throw new Error("Network response was not ok");
+            }
+            return response.json();
+        },
+        enabled: !!eventId && !!userId,
+    })
+}
+
+// Ranked full-text search over upcoming events, disabled until there is a query
+export function useSearchEvents(query: string) {
+    const trimmed = query.trim();
+    return useQuery<PaginatedResponse<ActivitySearchResult>, Error>({
+        queryKey: ['searchEvents', trimmed],
+        queryFn: async () => {
+            const params = new URLSearchParams({ q: trimmed });
+            const response = await fetch(`${apiUrl}/events/search?${params.toString()}`);
+            if (!response.ok) {
+                throw new Error("Network response was not ok");
+            }
+            const data = await response.json();
+            return toPaginatedEvents<ActivitySearchResult>(data);
+        },
+        enabled: trimmed.length > 0,
+    })
+}
+
+// Tags events can be filtered by and labelled with. Admins can include
+// inactive tags to manage them.
+export function useTags(includeInactive = false) {
+    return useQuery<Tag[], Error>({
+        queryKey: ['tags', includeInactive],
+        queryFn: async () => {
+            const token = localStorage.getItem("token");
+            const response = await fetch(
+                `${apiUrl}/tags${includeInactive ? "/all" : ""}`,
+                includeInactive ? { headers: { 'Authorization': `Bearer ${token}` } } : undefined,
+            );
+            if (!response.ok) {
+                throw new Error("Network response was not ok");
+            }
+            return response.json();
+        },
+    })
+}
+
+// Venues with their rooms. Admins can include inactive ones.
+export function useVenues(includeInactive = false) {
+    return useQuery<Venue[], Error>({
+        queryKey: ['venues', includeInactive],
+        queryFn: async () => {
+            const token = localStorage.getItem("token");
+            const response = await fetch(
+                `${apiUrl}/venues${includeInactive ? "/all" : ""}`,
+                includeInactive ? { headers: { 'Authorization': `Bearer ${token}` } } : undefined,
+            );
+            if (!response.ok) {
+                throw new Error("Network response was not ok");
+            }
+            return response.json();
+        },
+    })
+}
+
+// Bookings of every room in a venue on a day (YYYY-MM-DD), in the browser's
+// time zone. Admin only.
+export function useVenueSchedule(venueId: string, date: string) {
+    const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    return useQuery<VenueSchedule, Error>({
+        queryKey: ['venues', venueId, 'schedule', date, timeZone],
+        queryFn: async () => {
+            const token = localStorage.getItem("token");
+            const params = new URLSearchParams({ date, timeZone });
+            const response = await fetch(`${apiUrl}/venues/${venueId}/schedule?${params.toString()}`, {
+                headers: { 'Authorization': `Bearer ${token}` },
+            });
+            if (!response.ok) {
+                throw new Error("Network response was not ok");
+            }
+            return response.json();
+        },
+        enabled: Boolean(venueId && date),
+    })
+}
+
+// Everyone helping run an event, including pending invitations. Only the
+// owner, admins and accepted collaborators can load it.
+export function useCollaborators(eventId: string | undefined, isEnabled: boolean) {
+    return useQuery<Collaborator[], Error>({
+        queryKey: ['collaborators', eventId],
+        queryFn: async () => {
+            const token = localStorage.getItem("token");
+            const response = await fetch(`${apiUrl}/events/${eventId}/collaborators`, {
+                headers: {
+                    'Authorization': `Bearer ${token}`,
+                },
+            });
+            if (!response.ok) {
+                throw new Error("Network response was not ok");
+            }
+            return response.json();
+        },
+        enabled: !!eventId && isEnabled,
+    })
+}
+
+// The signed-in user's invitation or role on an event, null when they don't
+// help run it
+export function useMyCollaboration(eventId: string | undefined, isEnabled: boolean) {
+    return useQuery<Collaborator | null, Error>({
+        queryKey: ['myCollaboration', eventId],
+        queryFn: async () => {
+            const token = localStorage.getItem("token");
+            const response = await fetch(`${apiUrl}/events/${eventId}/collaborators/me`, {
+                headers: {
+                    'Authorization': `Bearer ${token}`,
+                },
+            });
+            if (!response.ok) {
+                throw new Error("Network response was not ok");
+            }
+            // Nest sends an empty body for null
+            const body = await response.text();
+            return body ? JSON.parse(body) : null;
+        },
+        enabled: !!eventId && isEnabled,
+    })
+}
+
+// An event's revisions, newest first
+export function useRevisions(eventId: string | undefined, isEnabled: boolean) {
+    return useQuery<Revision[], Error>({
+        queryKey: ['revisions', eventId],
+        queryFn: async () => {
+            const token = localStorage.getItem("token");
+            const response = await fetch(`${apiUrl}/events/${eventId}/revisions`, {
+                headers: {
+                    'Authorization': `Bearer ${token}`,
+                },
+            });
+            if (!response.ok) {
+                throw new Error("Network response was not ok");
+            }
+            return response.json();
+        },
+        enabled: !!eventId && isEnabled,
+    })
+}
+
+// The signed-in user's event templates followed by the shared ones
+export function useTemplates(isEnabled: boolean) {
+    return useQuery<EventTemplate[], Error>({
+        queryKey: ['templates'],
+        queryFn: async () => {
+            const token = localStorage.getItem("token");
+            const response = await fetch(`${apiUrl}/templates`, {
+                headers: {
+                    'Authorization': `Bearer ${token}`,
+                },
+            });
+            if (!response.ok) {
+                throw new Error("Network response was not ok");
+            }
+            return response.json();
+        },
+        enabled: isEnabled,
+    })
+}
+
+// Documents attached to an event, oldest first. Anyone can see them, but
+// only the people who can edit an unlisted event see its documents.
+export function useAttachments(eventId: string | undefined) {
+    return useQuery<EventAttachment[], Error>({
+        queryKey: ['attachments', eventId],
+        queryFn: async () => {
+            const token = localStorage.getItem("token");
+            const response = await fetch(
+                `${apiUrl}/events/${eventId}/attachments`,
+                token ? { headers: { 'Authorization': `Bearer ${token}` } } : undefined,
+            );
+            if (!response.ok) {
+                throw new Error("Network response was not ok");
+            }
+            return response.json();
+        },
+        enabled: !!eventId,
+    })
+}
+
+// Sessions on an event's agenda, in agenda order. Anyone can see them, but
+// only the people who can edit an unlisted event see its agenda.
+export function useSessions(eventId: string | undefined) {
+    return useQuery<EventSession[], Error>({
+        queryKey: ['sessions', eventId],
+        queryFn: async () => {
+            const token = localStorage.getItem("token");
+            const response = await fetch(
+                `${apiUrl}/events/${eventId}/sessions`,
+                token ? { headers: { 'Authorization': `Bearer ${token}` } } : undefined,
+            );
+            if (!response.ok) {
+                throw new Error("Network response was not ok");
+            }
+            return response.json();
+        },
+        enabled: !!eventId,
+    })
+}
+
+// Every speaker by name, or with an event id that event's speakers in the
+// order it lists them. Anyone can see them.
+export function useSpeakers(eventId?: string) {
+    return useQuery<Speaker[], Error>({
+        queryKey: eventId ? ['speakers', 'event', eventId] : ['speakers'],
+        queryFn: async () => {
+            const params = eventId ? `?${new URLSearchParams({ eventId })}` : "";
+            const response = await fetch(`${apiUrl}/speakers${params}`);
+            if (!response.ok) {
+                throw new Error("Network response was not ok");
+            }
+            return response.json();
+        },
+    })
+}
+
+export function useSpeaker(slug: string | null) {
+    return useQuery<Speaker, Error>({
+        queryKey: ['speakers', slug],
+        queryFn: async () => {
+            const response = await fetch(`${apiUrl}/speakers/${slug}`);
+            if (!response.ok) {
+                throw new Error("Network response was not ok");
+            }
+            return response.json();
+        },
+        enabled: !!slug,
+    })
+}
+
+// Published events a speaker appears at, newest first, past ones included
+export function useSpeakerEvents(slug: string | null) {
+    return useQuery<SpeakerEvent[], Error>({
+        queryKey: ['speakers', slug, 'events'],
+        queryFn: async () => {
+            const response = await fetch(`${apiUrl}/speakers/${slug}/events`);
+            if (!response.ok) {
+                throw new Error("Network response was not ok");
+            }
+            return response.json();
+        },
+        enabled: !!slug,
+    })
+}
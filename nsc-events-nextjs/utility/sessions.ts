@@ -0,0 +1,138 @@
+import { EventSession, SessionDraft } from "@/types/session";
+import { toZonedISOString, toZonedPickerDate, zonedTimeToDate } from "./timeZones";
+import { format } from "date-fns";
+
+let draftCount = 0;
+
+export const newSessionDraft = (startTime = "", endTime = ""): SessionDraft => ({
+    key: `new-${++draftCount}`,
+    title: "",
+    description: "",
+    startTime,
+    endTime,
+    roomId: null,
+    location: "",
+    speakers: [],
+});
+
+// Saved sessions as the forms edit them, with times as they read in the event's zone
+export const toSessionDrafts = (sessions: EventSession[], timeZone: string): SessionDraft[] =>
+    sessions.map((session) => ({
+        id: session.id,
+        key: session.id,
+        title: session.title,
+        description: session.description,
+        startTime: format(toZonedPickerDate(session.startDate, timeZone), "HH:mm"),
+        endTime: format(toZonedPickerDate(session.endDate, timeZone), "HH:mm"),
+        roomId: session.roomId,
+        location: session.location,
+        speakers: session.speakers,
+    }));
+
+/**
+ * The first problem with the agenda, or null when it can be saved. Times are
+ * HH:mm, so they compare as strings.
+ */
+export const validateAgenda = (drafts: SessionDraft[], eventStartTime: string, eventEndTime: string): string | null => {
+    for (let index = 0; index < drafts.length; index++) {
+        const draft = drafts[index];
+        const name = draft.title.trim() || `Session ${index + 1}`;
+        if (!draft.title.trim()) {
+            return `${name} needs a title`;
+        }
+        if (!draft.startTime || !draft.endTime) {
+            return `${name} needs a start and end time`;
+        }
+        if (draft.endTime <= draft.startTime) {
+            return `${name} must end after it starts`;
+        }
+        if (draft.startTime < eventStartTime || draft.endTime > eventEndTime) {
+            return `${name} must fall within the event's start and end time`;
+        }
+    }
+    return null;
+};
+
+const sendSessionRequest = async (method: "POST" | "PUT" | "DELETE", path: string, body?: object) => {
+    const token = localStorage.getItem("token");
+    const apiUrl = process.env.NSC_EVENTS_PUBLIC_API_URL;
+    const response = await fetch(`${apiUrl}/events${path}`, {
+        method,
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+        },
+        body: body && JSON.stringify(body),
+    });
+    if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.message ?? response.statusText);
+    }
+    const text = await response.text();
+    return text ? JSON.parse(text) : null;
+};
+
+/**
+ * Brings the saved agenda of an event in line with the form: removed
+ * sessions are deleted, new and changed ones saved, and the order updated.
+ * @param date - The event's day, as the date picker holds it
+ */
+export const saveAgenda = async (
+    eventId: string,
+    drafts: SessionDraft[],
+    saved: EventSession[],
+    date: Date,
+    timeZone: string
+): Promise<void> => {
+    const toInstant = (time: string) => {
+        const [hours, minutes] = time.split(":").map(Number);
+        const instant = zonedTimeToDate(date.getFullYear(), date.getMonth(), date.getDate(), hours, minutes, timeZone);
+        return toZonedISOString(instant, timeZone);
+    };
+
+    // deleted first so the event never holds more sessions than the form shows
+    for (const session of saved.filter(({ id }) => !drafts.some((draft) => draft.id === id))) {
+        await sendSessionRequest("DELETE", `/${eventId}/sessions/${session.id}`);
+    }
+
+    const ids: string[] = [];
+    for (const draft of drafts) {
+        const body = {
+            title: draft.title.trim(),
+            description: draft.description.trim(),
+            startDate: toInstant(draft.startTime),
+            endDate: toInstant(draft.endTime),
+            roomId: draft.roomId,
+            location: draft.roomId ? undefined : draft.location.trim(),
+            speakers: draft.speakers,
+        };
+        const current = saved.find(({ id }) => id === draft.id);
+        if (!current) {
+            const session: EventSession = await sendSessionRequest("POST", `/${eventId}/sessions`, body);
+            ids.push(session.id);
+            continue;
+        }
+        const unchanged =
+            current.title === body.title &&
+            current.description === body.description &&
+            Date.parse(current.startDate) === Date.parse(body.startDate) &&
+            Date.parse(current.endDate) === Date.parse(body.endDate) &&
+            current.roomId === body.roomId &&
+            (body.roomId || current.location === body.location) &&
+            current.speakers.join(",") === body.speakers.join(",");
+        if (!unchanged) {
+            await sendSessionRequest("PUT", `/${eventId}/sessions/${current.id}`, body);
+        }
+        ids.push(current.id);
+    }
+
+    // new sessions are added at the end, so anything else needs reordering
+    const savedIds = saved.map(({ id }) => id);
+    const savedOrder = [
+        ...savedIds.filter((id) => ids.includes(id)),
+        ...ids.filter((id) => !savedIds.includes(id)),
+    ];
+    if (ids.join() !== savedOrder.join()) {
+        await sendSessionRequest("PUT", `/${eventId}/sessions/order`, { sessionIds: ids });
+    }
+};
@@ -0,0 +1,140 @@
+// Zone of events saved before they had one, and of the campus
+export const DEFAULT_TIME_ZONE = "America/Los_Angeles";
+
+// Offered when the browser can't list the zones it knows
+const FALLBACK_TIME_ZONES = [
+    "America/Los_Angeles",
+    "America/Denver",
+    "America/Phoenix",
+    "America/Chicago",
+    "America/New_York",
+    "America/Anchorage",
+    "Pacific/Honolulu",
+    "UTC",
+];
+
+type ZonedParts = {
+    year: number;
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+};
+
+// Zone of the viewer's browser, e.g. America/New_York
+export const getBrowserTimeZone = (): string => {
+    try {
+        return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIME_ZONE;
+    } catch {
+        return DEFAULT_TIME_ZONE;
+    }
+};
+
+// Every IANA zone the browser knows, for pickers
+export const getTimeZones = (): string[] => {
+    const supportedValuesOf = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf;
+    const zones = supportedValuesOf?.("timeZone");
+    return zones?.length ? zones : FALLBACK_TIME_ZONES;
+};
+
+// Wall clock time of an instant in the zone
+const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+    const parts = new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "numeric",
+        day: "numeric",
+        hour: "numeric",
+        minute: "numeric",
+        second: "numeric",
+    }).formatToParts(date);
+    const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+    return {
+        year: part("year"),
+        month: part("month"),
+        day: part("day"),
+        hour: part("hour"),
+        minute: part("minute"),
+        second: part("second"),
+    };
+};
+
+/**
+ * Offset of the zone from UTC at an instant, in minutes (e.g. -480 for PST)
+ */
+export const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+    const { year, month, day, hour, minute, second } = getZonedParts(date, timeZone);
+    const wallAsUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+    return Math.round((wallAsUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+};
+
+// Formats an offset in minutes as ±HH:MM
+export const formatOffset = (minutes: number): string => {
+    const sign = minutes < 0 ? "-" : "+";
+    const abs = Math.abs(minutes);
+    const hours = Math.floor(abs / 60).toString().padStart(2, "0");
+    return `${sign}${hours}:${(abs % 60).toString().padStart(2, "0")}`;
+};
+
+/**
+ * The instant a wall clock time in the zone names. Like the API, times
+ * skipped by a daylight saving change move forward by the skipped hour.
+ * @param monthIndex - 0-11, like Date
+ */
+export const zonedTimeToDate = (
+    year: number,
+    monthIndex: number,
+    day: number,
+    hours: number,
+    minutes: number,
+    timeZone: string
+): Date => {
+    const wallAsUtc = Date.UTC(year, monthIndex, day, hours, minutes);
+    const guess = wallAsUtc - getTimeZoneOffset(new Date(wallAsUtc), timeZone) * 60000;
+    // the offset can differ on the other side of a daylight saving change
+    const offset = getTimeZoneOffset(new Date(guess), timeZone);
+    const instant = new Date(wallAsUtc - offset * 60000);
+    const actualOffset = getTimeZoneOffset(instant, timeZone);
+    // only a skipped time lands where the zone has another offset
+    return actualOffset === offset ? instant : new Date(wallAsUtc - actualOffset * 60000);
+};
+
+/**
+ * A Date whose local fields show the wall clock time of the instant in the
+ * zone, for date and time pickers that work in the browser's zone
+ */
+export const toZonedPickerDate = (date: Date | string, timeZone: string): Date => {
+    const { year, month, day, hour, minute, second } = getZonedParts(new Date(date), timeZone);
+    return new Date(year, month - 1, day, hour, minute, second);
+};
+
+/**
+ * Formats an instant as ISO 8601 with the zone's offset, e.g.
+ * 2025-01-15T10:00:00-08:00
+ */
+export const toZonedISOString = (date: Date, timeZone: string): string => {
+    const { year, month, day, hour, minute, second } = getZonedParts(date, timeZone);
+    const pad = (value: number) => value.toString().padStart(2, "0");
+    return (
+        `${year}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(minute)}:${pad(second)}` +
+        formatOffset(getTimeZoneOffset(date, timeZone))
+    );
+};
+
+/**
+ * Name of the zone for labels, e.g. "Pacific Time - Los Angeles"
+ */
+export const getTimeZoneLabel = (timeZone: string): string => {
+    const city = timeZone.split("/").pop()?.replace(/_/g, " ");
+    let name: string | undefined;
+    try {
+        name = new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "longGeneric" })
+            .formatToParts(new Date())
+            .find((part) => part.type === "timeZoneName")?.value;
+    } catch {
+        return timeZone;
+    }
+    return name && city && name !== city ? `${name} - ${city}` : timeZone;
+};
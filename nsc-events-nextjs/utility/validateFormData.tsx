@@ -25,10 +25,13 @@ export const validateFormData = (data: Activity | ActivityDatabase): FormErrors
     newErrors = { ...newErrors, eventHost: "Event host is required" };
   }
 
-  if (!data.eventCapacity && data.eventCapacity !== 0) {
-    newErrors = { ...newErrors, eventCapacity: "Event capacity is required" };
-  } else if (isNaN(data.eventCapacity) || data.eventCapacity < 1) {
-    newErrors = { ...newErrors, eventCapacity: "Event capacity should be a number greater than 0" };
+  // null means unlimited capacity
+  if (data.eventCapacity !== null) {
+    if (!data.eventCapacity && data.eventCapacity !== 0) {
+      newErrors = { ...newErrors, eventCapacity: "Event capacity is required" };
+    } else if (isNaN(data.eventCapacity) || data.eventCapacity < 1) {
+      newErrors = { ...newErrors, eventCapacity: "Event capacity should be a number greater than 0" };
+    }
   }
 
   if (!data.eventContact || !data.eventContact.trim()) {
@@ -0,0 +1,50 @@
+import { Room, RoomConflict, Venue } from "@/types/venue";
+
+export interface RoomOption {
+    roomId: string;
+    // Location text the API stores for events in the room
+    label: string;
+    // Heading the room is listed under in the picker
+    venueLabel: string;
+    room: Room;
+}
+
+// Same label the API gives events in the room, e.g. "Instruction Building (IB) 1234"
+export const roomLabel = (venue: Venue, room: Room): string => {
+    const place = `${venue.name} (${venue.code}) ${room.roomNumber}`;
+    return room.name?.trim() ? `${room.name.trim()}, ${place}` : place;
+};
+
+export const toRoomOptions = (venues: Venue[]): RoomOption[] =>
+    venues.flatMap((venue) =>
+        venue.rooms.map((room) => ({
+            roomId: room.id,
+            label: roomLabel(venue, room),
+            venueLabel: `${venue.name} · ${venue.campus}`,
+            room,
+        }))
+    );
+
+const words = (text: string) => text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+
+// Words people commonly type around a room, e.g. "Room 1234" or "IB Bldg"
+const fillerWords = new Set(["room", "rm", "bldg", "building", "the"]);
+
+// Rooms matching every word typed, in any order, so "IB 1234", "Room 1234"
+// and "Instruction Bldg" all find the same room
+export const filterRoomOptions = (options: RoomOption[], input: string): RoomOption[] => {
+    const query = words(input).filter((word) => !fillerWords.has(word));
+    if (query.length === 0) {
+        return options;
+    }
+    return options.filter((option) => {
+        const haystack = words(`${option.label} ${option.venueLabel}`);
+        return query.every((word) => haystack.some((candidate) => candidate.startsWith(word)));
+    });
+};
+
+// Reads the conflict the API answers with when the room is already booked
+export const toRoomConflict = (status: number, data: any): RoomConflict | null =>
+    status === 409 && Array.isArray(data?.conflicts)
+        ? { message: data.message, conflicts: data.conflicts, canOverride: Boolean(data.canOverride) }
+        : null;